@@ -0,0 +1,21 @@
+CREATE TABLE "fantasy_calc_value_history" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"player_id" text NOT NULL,
+	"is_super_flex" boolean NOT NULL,
+	"ppr" real NOT NULL,
+	"num_teams" integer NOT NULL,
+	"num_qbs" integer NOT NULL,
+	"player_name" text,
+	"value" real NOT NULL,
+	"rank" integer,
+	"position_rank" integer,
+	"position" text,
+	"team" text,
+	"fetched_at" timestamp NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "trade_grades" ADD COLUMN "value_score_at_trade" real;--> statement-breakpoint
+ALTER TABLE "trade_grades" ADD COLUMN "fantasy_calc_value_at_trade" real;--> statement-breakpoint
+ALTER TABLE "trade_grades" ADD COLUMN "value_as_of" timestamp;--> statement-breakpoint
+CREATE INDEX "fantasy_calc_value_history_config_idx" ON "fantasy_calc_value_history" USING btree ("is_super_flex","ppr","num_teams","num_qbs","fetched_at");--> statement-breakpoint
+CREATE INDEX "fantasy_calc_value_history_player_idx" ON "fantasy_calc_value_history" USING btree ("player_id");
\ No newline at end of file
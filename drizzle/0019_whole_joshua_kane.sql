@@ -0,0 +1 @@
+ALTER TABLE "fantasy_calc_value_history" ADD COLUMN "source" text DEFAULT 'api' NOT NULL;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "leagues" ADD COLUMN "losers_bracket" jsonb;
\ No newline at end of file
@@ -0,0 +1,3 @@
+ALTER TABLE "algorithm_config" ADD COLUMN "family_id" uuid;--> statement-breakpoint
+ALTER TABLE "algorithm_config" ADD CONSTRAINT "algorithm_config_family_id_league_families_id_fk" FOREIGN KEY ("family_id") REFERENCES "public"."league_families"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "algorithm_config_family_active_idx" ON "algorithm_config" USING btree ("family_id","is_active");
\ No newline at end of file
@@ -0,0 +1,5 @@
+ALTER TABLE "algorithm_config" ADD COLUMN "activated_at" timestamp;--> statement-breakpoint
+ALTER TABLE "draft_grades" ADD COLUMN "config_version" text;--> statement-breakpoint
+ALTER TABLE "manager_metrics" ADD COLUMN "config_version" text;--> statement-breakpoint
+ALTER TABLE "trade_grades" ADD COLUMN "config_version" text;--> statement-breakpoint
+ALTER TABLE "waiver_grades" ADD COLUMN "config_version" text;
\ No newline at end of file
@@ -0,0 +1,13 @@
+CREATE TABLE "family_sync_state" (
+	"family_id" uuid PRIMARY KEY NOT NULL,
+	"last_visited_at" timestamp,
+	"last_attempt_at" timestamp,
+	"last_synced_at" timestamp,
+	"consecutive_failures" integer DEFAULT 0 NOT NULL,
+	"total_failures" integer DEFAULT 0 NOT NULL,
+	"last_error" text,
+	"job_id" uuid
+);
+--> statement-breakpoint
+ALTER TABLE "family_sync_state" ADD CONSTRAINT "family_sync_state_family_id_league_families_id_fk" FOREIGN KEY ("family_id") REFERENCES "public"."league_families"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "family_sync_state_last_visited_idx" ON "family_sync_state" USING btree ("last_visited_at");
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "sync_jobs" ADD COLUMN "stage_timings" jsonb;
\ No newline at end of file
@@ -0,0 +1,5 @@
+CREATE TABLE "sleeper_responses" (
+	"path" text PRIMARY KEY NOT NULL,
+	"body" jsonb NOT NULL,
+	"fetched_at" timestamp DEFAULT now() NOT NULL
+);
@@ -0,0 +1,106 @@
+/**
+ * @jest-environment node
+ *
+ * Coverage for `scripts/check-family.ts`. The integrity service is injected
+ * so the real DB / Sleeper aren't touched; asserts exit codes, the heal
+ * round-trip and what lands in the report.
+ */
+import { run, parseArgs, HELP_TEXT } from "../check-family";
+import type { IntegrityIssue, IntegrityReport } from "../../src/services/familyIntegrity";
+
+function report(issues: IntegrityIssue[]): IntegrityReport {
+  const counts = { "roster-reconcile": 0, "draft-slot-map": 0, "matchup-scores": 0, "player-gsis": 0 };
+  for (const i of issues) counts[i.check]++;
+  return {
+    familyId: "fam-1",
+    checkedAt: "2025-10-05T12:00:00.000Z",
+    leagues: [{ leagueId: "l-2025", season: "2025" }],
+    counts,
+    issues,
+  };
+}
+
+const missingScores: IntegrityIssue = {
+  check: "matchup-scores",
+  leagueId: "l-2025",
+  season: "2025",
+  week: 4,
+  message: "week 4 has matchups but no player scores",
+  heal: { kind: "resync-matchup-week", leagueId: "l-2025", week: 4 },
+};
+
+function makeDeps(overrides: Partial<Parameters<typeof run>[1]> = {}) {
+  return {
+    log: jest.fn(),
+    err: jest.fn(),
+    resolveFamily: jest.fn().mockResolvedValue("fam-1"),
+    checkFamilyIntegrity: jest.fn().mockResolvedValue(report([])),
+    healIntegrityIssues: jest.fn().mockResolvedValue([]),
+    writeReport: jest.fn(),
+    ...overrides,
+  };
+}
+
+describe("check-family parseArgs", () => {
+  it("parses id, --heal and --out", () => {
+    expect(parseArgs(["abc", "--heal", "--out=r.json"])).toEqual({
+      help: false,
+      heal: true,
+      id: "abc",
+      out: "r.json",
+    });
+    expect(parseArgs(["--help"]).help).toBe(true);
+  });
+});
+
+describe("check-family run", () => {
+  it("--help returns 0 and prints usage", async () => {
+    const deps = makeDeps();
+    expect(await run(["--help"], deps)).toBe(0);
+    expect(deps.log).toHaveBeenCalledWith(HELP_TEXT);
+  });
+
+  it("returns 1 without an id or for an unknown family", async () => {
+    expect(await run([], makeDeps())).toBe(1);
+    const deps = makeDeps({ resolveFamily: jest.fn().mockResolvedValue(null) });
+    expect(await run(["nope"], deps)).toBe(1);
+    expect(deps.checkFamilyIntegrity).not.toHaveBeenCalled();
+  });
+
+  it("writes the report and returns 0 when clean", async () => {
+    const deps = makeDeps();
+    expect(await run(["abc"], deps)).toBe(0);
+    expect(deps.writeReport).toHaveBeenCalledWith("integrity-fam-1.json", expect.any(String));
+    expect(deps.healIntegrityIssues).not.toHaveBeenCalled();
+  });
+
+  it("returns 2 when issues remain, without healing unless asked", async () => {
+    const deps = makeDeps({ checkFamilyIntegrity: jest.fn().mockResolvedValue(report([missingScores])) });
+    expect(await run(["abc", "--out=out.json"], deps)).toBe(2);
+    expect(deps.healIntegrityIssues).not.toHaveBeenCalled();
+    const written = JSON.parse(deps.writeReport.mock.calls[0][1]);
+    expect(written.counts["matchup-scores"]).toBe(1);
+    expect(written.heals).toBeNull();
+  });
+
+  it("--heal runs the fixes and reports the re-check", async () => {
+    const deps = makeDeps({
+      checkFamilyIntegrity: jest
+        .fn()
+        .mockResolvedValueOnce(report([missingScores]))
+        .mockResolvedValueOnce(report([])),
+      healIntegrityIssues: jest.fn().mockResolvedValue([{ action: missingScores.heal, ok: true }]),
+    });
+    expect(await run(["abc", "--heal"], deps)).toBe(0);
+    expect(deps.healIntegrityIssues).toHaveBeenCalledWith([missingScores]);
+    const written = JSON.parse(deps.writeReport.mock.calls[0][1]);
+    expect(written.issues).toEqual([]);
+    expect(written.heals).toHaveLength(1);
+  });
+
+  it("returns 1 when the check throws", async () => {
+    const deps = makeDeps({ checkFamilyIntegrity: jest.fn().mockRejectedValue(new Error("db down")) });
+    expect(await run(["abc"], deps)).toBe(1);
+    expect(deps.err).toHaveBeenCalledWith(expect.stringMatching(/db down/));
+  });
+});
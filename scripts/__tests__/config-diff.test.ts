@@ -0,0 +1,88 @@
+/**
+ * @jest-environment node
+ *
+ * Coverage for `scripts/config-diff.ts`. The diff service and config
+ * reader are injected so no DB or filesystem is touched.
+ */
+import { run, parseArgs, HELP_TEXT } from "../config-diff";
+import type { ConfigDiff } from "../../src/services/configDiff";
+
+const DIFF: ConfigDiff = {
+  familyId: "fam-1",
+  graded: 12,
+  changed: 1,
+  trades: [
+    {
+      kind: "trade",
+      id: "tx-1",
+      leagueId: "l-2025",
+      rosterId: 3,
+      before: { grade: "B", score: 60.04 },
+      after: { grade: "B+", score: 61.5 },
+    },
+  ],
+  drafts: [],
+  waivers: [],
+};
+
+describe("config-diff parseArgs", () => {
+  it("parses familyId, config path and --json", () => {
+    expect(parseArgs(["fam-1", "candidate.json", "--json"])).toEqual({
+      help: false,
+      json: true,
+      familyId: "fam-1",
+      configPath: "candidate.json",
+    });
+  });
+
+  it("recognises --help / -h", () => {
+    expect(parseArgs(["--help"]).help).toBe(true);
+    expect(parseArgs(["-h"]).help).toBe(true);
+  });
+});
+
+describe("config-diff run", () => {
+  function makeDeps(overrides: Partial<Parameters<typeof run>[1]> = {}) {
+    return {
+      log: jest.fn(),
+      err: jest.fn(),
+      readConfig: jest.fn().mockResolvedValue({ valueScaling: 2 }),
+      diffFamilyGrades: jest.fn().mockResolvedValue(DIFF),
+      ...overrides,
+    };
+  }
+
+  it("--help returns 0 and prints usage", async () => {
+    const deps = makeDeps();
+    expect(await run(["--help"], deps)).toBe(0);
+    expect(deps.log).toHaveBeenCalledWith(HELP_TEXT);
+  });
+
+  it("returns 1 when the config path is missing", async () => {
+    const deps = makeDeps();
+    expect(await run(["fam-1"], deps)).toBe(1);
+    expect(deps.diffFamilyGrades).not.toHaveBeenCalled();
+  });
+
+  it("prints each changed grade", async () => {
+    const deps = makeDeps();
+    expect(await run(["fam-1", "candidate.json"], deps)).toBe(0);
+    expect(deps.readConfig).toHaveBeenCalledWith("candidate.json");
+    expect(deps.diffFamilyGrades).toHaveBeenCalledWith("fam-1", { valueScaling: 2 });
+    const lines = deps.log.mock.calls.map((c) => c[0]);
+    expect(lines[0]).toContain("changed=1");
+    expect(lines).toContain("trades (1):");
+    expect(lines).toContain("  tx-1 roster 3: B (60.0) → B+ (61.5)");
+  });
+
+  it("returns 1 when the family has no leagues", async () => {
+    const deps = makeDeps({ diffFamilyGrades: jest.fn().mockResolvedValue(null) });
+    expect(await run(["fam-1", "candidate.json"], deps)).toBe(1);
+  });
+
+  it("returns 1 when the config cannot be read", async () => {
+    const deps = makeDeps({ readConfig: jest.fn().mockRejectedValue(new Error("bad json")) });
+    expect(await run(["fam-1", "candidate.json"], deps)).toBe(1);
+    expect(deps.err).toHaveBeenCalledWith("[config-diff] failed: bad json");
+  });
+});
@@ -0,0 +1,80 @@
+/**
+ * @jest-environment node
+ *
+ * Coverage for `scripts/config-rollback.ts`. The config service is
+ * injected so no DB is touched.
+ */
+import { run, parseArgs, HELP_TEXT } from "../config-rollback";
+import type { ConfigHistoryEntry } from "../../src/services/algorithmConfig";
+
+const ENTRY: ConfigHistoryEntry = {
+  id: "cfg-2",
+  familyId: null,
+  experimentId: null,
+  isActive: true,
+  promotedBy: "ops",
+  notes: "tighter thresholds",
+  createdAt: new Date("2026-01-02T00:00:00Z"),
+  activatedAt: new Date("2026-01-03T00:00:00Z"),
+};
+
+describe("config-rollback parseArgs", () => {
+  it("parses --list with a family", () => {
+    expect(parseArgs(["--list", "--family", "fam-1"])).toEqual({
+      help: false,
+      list: true,
+      familyId: "fam-1",
+      configId: null,
+    });
+  });
+
+  it("parses a config id", () => {
+    expect(parseArgs(["cfg-1"]).configId).toBe("cfg-1");
+  });
+});
+
+describe("config-rollback run", () => {
+  function makeDeps(overrides: Partial<Parameters<typeof run>[1]> = {}) {
+    return {
+      log: jest.fn(),
+      err: jest.fn(),
+      listConfigHistory: jest.fn().mockResolvedValue([ENTRY]),
+      rollbackConfig: jest.fn().mockResolvedValue({ familyId: null }),
+      ...overrides,
+    };
+  }
+
+  it("--help returns 0 and prints usage", async () => {
+    const deps = makeDeps();
+    expect(await run(["--help"], deps)).toBe(0);
+    expect(deps.log).toHaveBeenCalledWith(HELP_TEXT);
+  });
+
+  it("--list prints history with the active row marked", async () => {
+    const deps = makeDeps();
+    expect(await run(["--list"], deps)).toBe(0);
+    expect(deps.listConfigHistory).toHaveBeenCalledWith(null);
+    expect(deps.log.mock.calls[0][0]).toMatch(/^\* cfg-2 .*by=ops — tighter thresholds$/);
+    expect(deps.rollbackConfig).not.toHaveBeenCalled();
+  });
+
+  it("returns 1 without a config id", async () => {
+    const deps = makeDeps();
+    expect(await run([], deps)).toBe(1);
+    expect(deps.rollbackConfig).not.toHaveBeenCalled();
+  });
+
+  it("rolls back to the given config", async () => {
+    const deps = makeDeps();
+    expect(await run(["cfg-1"], deps)).toBe(0);
+    expect(deps.rollbackConfig).toHaveBeenCalledWith("cfg-1");
+  });
+
+  it("returns 1 when the config does not exist", async () => {
+    const deps = makeDeps({
+      rollbackConfig: jest.fn().mockRejectedValue(new Error("algorithm_config cfg-9 not found")),
+    });
+    expect(await run(["cfg-9"], deps)).toBe(1);
+    expect(deps.err).toHaveBeenCalledWith("[config-rollback] failed: algorithm_config cfg-9 not found");
+  });
+});
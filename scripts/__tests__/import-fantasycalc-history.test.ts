@@ -0,0 +1,147 @@
+/**
+ * @jest-environment node
+ *
+ * Runs the importer end-to-end against on-disk fixture dumps with an
+ * in-memory db stub — no network, no database.
+ */
+
+import path from "path";
+import {
+  run,
+  parseDumpFilename,
+  parseDumpFile,
+  buildHistoryRows,
+} from "../import-fantasycalc-history";
+
+const FIXTURES = path.join(__dirname, "fixtures", "fantasycalc");
+
+const PLAYERS = [
+  { id: "4046", name: "Patrick Mahomes", position: "QB" },
+  { id: "5846", name: "DK Metcalf", position: "WR" },
+  { id: "8151", name: "Kenneth Walker", position: "RB" },
+  // Two Mike Williamses — position breaks the tie.
+  { id: "4068", name: "Mike Williams", position: "WR" },
+  { id: "9999", name: "Mike Williams", position: "TE" },
+];
+
+function makeFakeDb() {
+  const inserted: Array<Record<string, unknown>> = [];
+  let deletes = 0;
+  return {
+    db: {
+      delete: () => ({
+        where: () => {
+          deletes++;
+          return Promise.resolve();
+        },
+      }),
+      insert: () => ({
+        values: (rows: Array<Record<string, unknown>>) => {
+          inserted.push(...rows);
+          return Promise.resolve();
+        },
+      }),
+    },
+    inserted,
+    deletes: () => deletes,
+  };
+}
+
+describe("parseDumpFilename", () => {
+  it("reads date and format from the filename", () => {
+    const meta = parseDumpFilename("/x/2021-09-01_sf_ppr1_12team.csv");
+    expect(meta?.date.toISOString()).toBe("2021-09-01T00:00:00.000Z");
+    expect(meta?.config).toEqual({
+      isSuperFlex: true,
+      ppr: 1,
+      numTeams: 12,
+      numQbs: 2,
+    });
+    expect(parseDumpFilename("2022-03-15_1qb_ppr0.5_10team.json")?.config).toEqual({
+      isSuperFlex: false,
+      ppr: 0.5,
+      numTeams: 10,
+      numQbs: 1,
+    });
+  });
+
+  it("rejects filenames that don't follow the convention", () => {
+    expect(parseDumpFilename("values.csv")).toBeNull();
+    expect(parseDumpFilename("2021-09-01_sf_12team.csv")).toBeNull();
+  });
+});
+
+describe("buildHistoryRows", () => {
+  it("maps names to Sleeper ids and reports the unmatched ones", () => {
+    const dump = parseDumpFile(
+      "2021-09-01_sf_ppr1_12team.csv",
+      "name,position,value\nD.K. Metcalf,WR,7000\nGhost,RB,10\n2022 1st,PICK,6000\n",
+    );
+    const { rows, unmatched, picks } = buildHistoryRows(dump, (name) =>
+      name === "D.K. Metcalf" ? "5846" : null,
+    );
+    expect(rows.map((r) => r.playerId)).toEqual(["5846", "PICK_2022_1st"]);
+    expect(unmatched).toEqual(["Ghost (RB)"]);
+    expect(picks).toBe(1);
+    expect(rows[0]).toMatchObject({ source: "import", numQbs: 2 });
+  });
+});
+
+describe("import-fantasycalc-history run", () => {
+  it("dry-run parses every fixture and writes nothing", async () => {
+    const fake = makeFakeDb();
+    const logs: string[] = [];
+    const stats = await run([FIXTURES], {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      db: fake.db as any,
+      loadPlayers: async () => PLAYERS,
+      log: (m) => logs.push(m),
+    });
+
+    expect(stats.files).toBe(2);
+    expect(stats.failed).toBe(0);
+    expect(fake.inserted).toHaveLength(0);
+    expect(fake.deletes()).toBe(0);
+
+    const [csv, json] = stats.reports;
+    expect(csv).toMatchObject({
+      file: "2021-09-01_sf_ppr1_12team.csv",
+      matched: 4,
+      picks: 1,
+      unmatched: ["Nobody Knows Me (WR)"],
+    });
+    expect(json).toMatchObject({
+      file: "2022-03-15_1qb_ppr0.5_10team.json",
+      matched: 2,
+      picks: 0,
+      unmatched: [],
+    });
+    expect(logs.some((l) => l.includes("? Nobody Knows Me (WR)"))).toBe(true);
+  });
+
+  it("--apply replaces the imported snapshot and inserts matched rows", async () => {
+    const fake = makeFakeDb();
+    const stats = await run([FIXTURES, "--apply"], {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      db: fake.db as any,
+      loadPlayers: async () => PLAYERS,
+      log: () => {},
+    });
+
+    expect(stats.imported).toBe(7);
+    expect(fake.deletes()).toBe(2); // one per (format, date)
+    const byId = new Map(fake.inserted.map((r) => [r.playerId, r]));
+    expect(byId.get("5846")).toMatchObject({ playerName: "D.K. Metcalf" });
+    expect(byId.get("8151")).toMatchObject({ value: 5100 });
+    expect(byId.get("4068")).toMatchObject({ position: "WR" });
+    // sleeperId from a saved API response wins over name matching.
+    expect(byId.get("6794")).toMatchObject({
+      value: 9800,
+      ppr: 0.5,
+      numTeams: 10,
+    });
+    expect(
+      fake.inserted.filter((r) => r.playerId === "4046").map((r) => r.value),
+    ).toEqual([10250, 6500]);
+  });
+});
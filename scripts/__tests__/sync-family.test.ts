@@ -6,6 +6,10 @@
  * service was invoked with the expected shape.
  */
 import { run, parseArgs, HELP_TEXT } from "../sync-family";
+import {
+  getSleeperResponseStore,
+  setSleeperResponseStore,
+} from "../../src/lib/sleeper/responseStore";
 
 describe("sync-family parseArgs", () => {
   it("parses leagueId and --force", () => {
@@ -13,6 +17,8 @@ describe("sync-family parseArgs", () => {
       help: false,
       force: true,
       id: "abc123",
+      record: null,
+      replay: null,
     });
   });
 
@@ -21,6 +27,8 @@ describe("sync-family parseArgs", () => {
       help: false,
       force: true,
       id: "abc123",
+      record: null,
+      replay: null,
     });
   });
 
@@ -32,6 +40,12 @@ describe("sync-family parseArgs", () => {
   it("ignores unknown flags after id is set", () => {
     expect(parseArgs(["abc", "extra"]).id).toBe("abc");
   });
+
+  it("parses --record / --replay directories", () => {
+    expect(parseArgs(["abc", "--record=fixtures/fam"]).record).toBe("fixtures/fam");
+    expect(parseArgs(["abc", "--replay=fixtures/fam"]).replay).toBe("fixtures/fam");
+    expect(parseArgs(["abc", "--replay="]).replay).toBeNull();
+  });
 });
 
 describe("sync-family run", () => {
@@ -96,6 +110,32 @@ describe("sync-family run", () => {
     expect(deps.resolveFamilyAndLeagues).toHaveBeenCalledWith("abc", true);
   });
 
+  describe("Sleeper response store", () => {
+    afterEach(() => setSleeperResponseStore(null));
+
+    it("--replay installs a replay-mode store before syncing", async () => {
+      const deps = makeDeps({
+        syncLeagueFamily: jest.fn(async () => {
+          expect(getSleeperResponseStore()?.mode).toBe("replay");
+        }),
+      });
+      expect(await run(["abc", "--replay=fixtures/fam"], deps)).toBe(0);
+      expect(deps.syncLeagueFamily).toHaveBeenCalled();
+    });
+
+    it("--record installs a record-mode store", async () => {
+      const deps = makeDeps();
+      expect(await run(["abc", "--record=fixtures/fam"], deps)).toBe(0);
+      expect(getSleeperResponseStore()?.mode).toBe("record");
+    });
+
+    it("rejects --record with --replay", async () => {
+      const deps = makeDeps();
+      expect(await run(["abc", "--record=a", "--replay=b"], deps)).toBe(1);
+      expect(deps.syncLeagueFamily).not.toHaveBeenCalled();
+    });
+  });
+
   it("returns 1 when syncLeagueFamily throws", async () => {
     const deps = makeDeps({
       syncLeagueFamily: jest.fn().mockRejectedValue(new Error("boom")),
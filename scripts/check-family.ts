@@ -0,0 +1,143 @@
+/**
+ * Check a league family's synced data for internal consistency and write
+ * a JSON report. See src/services/familyIntegrity.ts for the checks.
+ *
+ * Usage:
+ *   npm run check:family -- <leagueIdOrFamilyId>
+ *   npm run check:family -- <leagueIdOrFamilyId> --heal
+ *   npm run check:family -- <leagueIdOrFamilyId> --out=<file>
+ *   npm run check:family -- --help
+ *
+ * Notes:
+ *   - Read-only unless `--heal` is passed. `--heal` rebuilds asset events
+ *     for leagues whose rosters don't reconcile and re-fetches matchup
+ *     weeks that are missing player scores, then checks again so the
+ *     report shows what's left.
+ *   - The report goes to `integrity-<familyId>.json` in the working
+ *     directory unless `--out` says otherwise.
+ *   - Exits 0 when the (final) check is clean, 2 when issues remain, and
+ *     1 on errors.
+ */
+import * as fs from "fs";
+import { resolveFamily } from "../src/lib/familyResolution";
+import {
+  checkFamilyIntegrity,
+  healIntegrityIssues,
+  INTEGRITY_CHECKS,
+  type HealResult,
+  type IntegrityReport,
+} from "../src/services/familyIntegrity";
+
+export interface ParsedArgs {
+  help: boolean;
+  heal: boolean;
+  id: string | null;
+  /** Report path; defaults to integrity-<familyId>.json */
+  out: string | null;
+}
+
+export function parseArgs(argv: string[]): ParsedArgs {
+  const out: ParsedArgs = { help: false, heal: false, id: null, out: null };
+  for (const a of argv) {
+    if (a === "--help" || a === "-h") out.help = true;
+    else if (a === "--heal") out.heal = true;
+    else if (a.startsWith("--out=")) out.out = a.slice("--out=".length) || null;
+    else if (!a.startsWith("--") && out.id === null) out.id = a;
+  }
+  return out;
+}
+
+export const HELP_TEXT = `check-family — check a league family's data for consistency
+
+Usage:
+  npm run check:family -- <leagueIdOrFamilyId>
+  npm run check:family -- <leagueIdOrFamilyId> --heal
+  npm run check:family -- <leagueIdOrFamilyId> --out=<file>
+  npm run check:family -- --help
+
+Options:
+  --heal        Rebuild asset events / re-fetch matchup weeks for issues
+                that have a fix, then check again
+  --out=<file>  Where to write the JSON report (default integrity-<familyId>.json)
+  --help        Print this message
+
+Exit codes: 0 clean, 2 issues remain, 1 error.`;
+
+interface RunDeps {
+  resolveFamily: typeof resolveFamily;
+  checkFamilyIntegrity: typeof checkFamilyIntegrity;
+  healIntegrityIssues: typeof healIntegrityIssues;
+  writeReport: (file: string, contents: string) => void;
+  log: (msg: string) => void;
+  err: (msg: string) => void;
+}
+
+function summarize(report: IntegrityReport): string {
+  return INTEGRITY_CHECKS.map((c) => `${c}=${report.counts[c]}`).join(" ");
+}
+
+export async function run(
+  argv: string[],
+  deps: Partial<RunDeps> = {}
+): Promise<number> {
+  const log = deps.log ?? ((m: string) => console.log(m));
+  const err = deps.err ?? ((m: string) => console.error(m));
+  const args = parseArgs(argv);
+
+  if (args.help) {
+    log(HELP_TEXT);
+    return 0;
+  }
+
+  if (!args.id) {
+    err("error: missing leagueId or familyId argument");
+    err(HELP_TEXT);
+    return 1;
+  }
+
+  const resolve = deps.resolveFamily ?? resolveFamily;
+  const check = deps.checkFamilyIntegrity ?? checkFamilyIntegrity;
+  const heal = deps.healIntegrityIssues ?? healIntegrityIssues;
+  const writeReport =
+    deps.writeReport ?? ((file: string, contents: string) => fs.writeFileSync(file, contents, "utf-8"));
+
+  try {
+    const familyId = await resolve(args.id);
+    if (!familyId) {
+      err(`[check-family] no family found for ${args.id}`);
+      return 1;
+    }
+
+    let report = await check(familyId);
+    log(`[check-family] family=${familyId} seasons=${report.leagues.length} ${summarize(report)}`);
+
+    let heals: HealResult[] | null = null;
+    if (args.heal && report.issues.some((i) => i.heal)) {
+      heals = await heal(report.issues);
+      for (const h of heals) {
+        const target =
+          h.action.kind === "rebuild-asset-events"
+            ? h.action.leagueId
+            : `${h.action.leagueId} week ${h.action.week}`;
+        log(`[check-family] ${h.action.kind} ${target}: ${h.ok ? "ok" : `failed: ${h.error}`}`);
+      }
+      report = await check(familyId);
+      log(`[check-family] after heal: ${summarize(report)}`);
+    }
+
+    const file = args.out ?? `integrity-${familyId}.json`;
+    writeReport(file, `${JSON.stringify({ ...report, heals }, null, 2)}\n`);
+    log(`[check-family] report written to ${file}`);
+
+    return report.issues.length === 0 ? 0 : 2;
+  } catch (e) {
+    const msg = e instanceof Error ? e.message : String(e);
+    err(`[check-family] failed: ${msg}`);
+    return 1;
+  }
+}
+
+// Only execute when invoked directly (not when imported by tests).
+if (require.main === module) {
+  run(process.argv.slice(2)).then((code) => process.exit(code));
+}
@@ -0,0 +1,131 @@
+/**
+ * Preview a candidate algorithm config against one league family. Re-grades
+ * the family's trades, drafts and waivers in memory under both its active
+ * config and the candidate, then prints every grade whose letter changes.
+ * Nothing is written.
+ *
+ * Usage:
+ *   npm run config:diff -- <familyId> <candidate.json>
+ *   npm run config:diff -- <familyId> <candidate.json> --json
+ *   npm run config:diff -- --help
+ *
+ * Notes:
+ *   - The candidate file holds a partial `AlgorithmConfig`; it is merged
+ *     onto the family's active config (family override on top of global),
+ *     so only the keys being tested need to be present.
+ */
+import { readFile } from "node:fs/promises";
+import { diffFamilyGrades, type ConfigDiff, type GradeChange } from "../src/services/configDiff";
+import type { AlgorithmConfig } from "../src/services/algorithmConfig";
+
+export interface ParsedArgs {
+  help: boolean;
+  json: boolean;
+  familyId: string | null;
+  configPath: string | null;
+}
+
+export function parseArgs(argv: string[]): ParsedArgs {
+  const out: ParsedArgs = { help: false, json: false, familyId: null, configPath: null };
+  for (const a of argv) {
+    if (a === "--help" || a === "-h") out.help = true;
+    else if (a === "--json") out.json = true;
+    else if (a.startsWith("--")) continue;
+    else if (out.familyId === null) out.familyId = a;
+    else if (out.configPath === null) out.configPath = a;
+  }
+  return out;
+}
+
+export const HELP_TEXT = `config-diff — preview grade changes under a candidate config
+
+Usage:
+  npm run config:diff -- <familyId> <candidate.json>
+  npm run config:diff -- <familyId> <candidate.json> --json
+  npm run config:diff -- --help
+
+Options:
+  --json    Print the full diff as JSON
+  --help    Print this message
+
+The candidate file is a partial AlgorithmConfig merged onto the family's
+active config. Grades are computed in memory; nothing is written.`;
+
+interface RunDeps {
+  diffFamilyGrades: typeof diffFamilyGrades;
+  readConfig: (path: string) => Promise<Partial<AlgorithmConfig>>;
+  log: (msg: string) => void;
+  err: (msg: string) => void;
+}
+
+async function defaultReadConfig(path: string): Promise<Partial<AlgorithmConfig>> {
+  const parsed: unknown = JSON.parse(await readFile(path, "utf8"));
+  if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+    throw new Error(`${path} must contain a JSON object`);
+  }
+  return parsed as Partial<AlgorithmConfig>;
+}
+
+function formatChange(c: GradeChange): string {
+  const side = (s: GradeChange["before"]) => (s ? `${s.grade} (${s.score.toFixed(1)})` : "—");
+  return `  ${c.id} roster ${c.rosterId}: ${side(c.before)} → ${side(c.after)}`;
+}
+
+export function formatDiff(diff: ConfigDiff): string[] {
+  const lines = [`[config-diff] family=${diff.familyId} graded=${diff.graded} changed=${diff.changed}`];
+  const sections: Array<[string, GradeChange[]]> = [
+    ["trades", diff.trades],
+    ["drafts", diff.drafts],
+    ["waivers", diff.waivers],
+  ];
+  for (const [label, changes] of sections) {
+    if (changes.length === 0) continue;
+    lines.push(`${label} (${changes.length}):`);
+    for (const c of changes) lines.push(formatChange(c));
+  }
+  return lines;
+}
+
+export async function run(
+  argv: string[],
+  deps: Partial<RunDeps> = {}
+): Promise<number> {
+  const log = deps.log ?? ((m: string) => console.log(m));
+  const err = deps.err ?? ((m: string) => console.error(m));
+  const args = parseArgs(argv);
+
+  if (args.help) {
+    log(HELP_TEXT);
+    return 0;
+  }
+
+  if (!args.familyId || !args.configPath) {
+    err("error: expected a familyId and a candidate config path");
+    err(HELP_TEXT);
+    return 1;
+  }
+
+  const readConfig = deps.readConfig ?? defaultReadConfig;
+  const diff = deps.diffFamilyGrades ?? diffFamilyGrades;
+
+  try {
+    const candidate = await readConfig(args.configPath);
+    const result = await diff(args.familyId, candidate);
+    if (!result) {
+      err(`[config-diff] no member leagues found for family ${args.familyId}`);
+      return 1;
+    }
+    if (args.json) log(JSON.stringify(result, null, 2));
+    else for (const line of formatDiff(result)) log(line);
+    return 0;
+  } catch (e) {
+    const msg = e instanceof Error ? e.message : String(e);
+    err(`[config-diff] failed: ${msg}`);
+    return 1;
+  }
+}
+
+// Only execute when invoked directly (not when imported by tests).
+if (require.main === module) {
+  run(process.argv.slice(2)).then((code) => process.exit(code));
+}
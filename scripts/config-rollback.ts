@@ -0,0 +1,117 @@
+/**
+ * Roll the algorithm config back to a previous version, or list the
+ * promotion history to find one. Rolling back reactivates the chosen
+ * `algorithm_config` row in its own scope (global or family) and queues a
+ * re-grade of the affected families; the regrade cron picks those up.
+ *
+ * Usage:
+ *   npm run config:rollback -- --list
+ *   npm run config:rollback -- --list --family <familyId>
+ *   npm run config:rollback -- <configId>
+ *   npm run config:rollback -- --help
+ */
+import {
+  listConfigHistory,
+  rollbackConfig,
+  type ConfigHistoryEntry,
+} from "../src/services/algorithmConfig";
+
+export interface ParsedArgs {
+  help: boolean;
+  list: boolean;
+  familyId: string | null;
+  configId: string | null;
+}
+
+export function parseArgs(argv: string[]): ParsedArgs {
+  const out: ParsedArgs = { help: false, list: false, familyId: null, configId: null };
+  for (let i = 0; i < argv.length; i++) {
+    const a = argv[i];
+    if (a === "--help" || a === "-h") out.help = true;
+    else if (a === "--list") out.list = true;
+    else if (a === "--family") out.familyId = argv[++i] ?? null;
+    else if (!a.startsWith("--") && out.configId === null) out.configId = a;
+  }
+  return out;
+}
+
+export const HELP_TEXT = `config-rollback — reactivate a previous algorithm config
+
+Usage:
+  npm run config:rollback -- --list
+  npm run config:rollback -- --list --family <familyId>
+  npm run config:rollback -- <configId>
+  npm run config:rollback -- --help
+
+Options:
+  --list            Print config history, newest first (global by default)
+  --family <id>     With --list, show a family's override history
+  --help            Print this message
+
+Rolling back queues a re-grade of every affected family.`;
+
+interface RunDeps {
+  listConfigHistory: typeof listConfigHistory;
+  rollbackConfig: typeof rollbackConfig;
+  log: (msg: string) => void;
+  err: (msg: string) => void;
+}
+
+export function formatHistoryEntry(e: ConfigHistoryEntry): string {
+  const activated = e.activatedAt ? e.activatedAt.toISOString() : "never";
+  const parts = [
+    e.isActive ? "*" : " ",
+    e.id,
+    `created=${e.createdAt.toISOString()}`,
+    `activated=${activated}`,
+  ];
+  if (e.promotedBy) parts.push(`by=${e.promotedBy}`);
+  if (e.experimentId) parts.push(`experiment=${e.experimentId}`);
+  if (e.notes) parts.push(`— ${e.notes}`);
+  return parts.join(" ");
+}
+
+export async function run(
+  argv: string[],
+  deps: Partial<RunDeps> = {}
+): Promise<number> {
+  const log = deps.log ?? ((m: string) => console.log(m));
+  const err = deps.err ?? ((m: string) => console.error(m));
+  const args = parseArgs(argv);
+
+  if (args.help) {
+    log(HELP_TEXT);
+    return 0;
+  }
+
+  try {
+    if (args.list) {
+      const history = await (deps.listConfigHistory ?? listConfigHistory)(args.familyId);
+      if (history.length === 0) log("[config-rollback] no configs in this scope");
+      for (const entry of history) log(formatHistoryEntry(entry));
+      return 0;
+    }
+
+    if (!args.configId) {
+      err("error: missing configId argument");
+      err(HELP_TEXT);
+      return 1;
+    }
+
+    const { familyId } = await (deps.rollbackConfig ?? rollbackConfig)(args.configId);
+    log(
+      `[config-rollback] active config is now ${args.configId} ` +
+        `(scope=${familyId ?? "global"}); affected families queued for re-grade`
+    );
+    return 0;
+  } catch (e) {
+    const msg = e instanceof Error ? e.message : String(e);
+    err(`[config-rollback] failed: ${msg}`);
+    return 1;
+  }
+}
+
+// Only execute when invoked directly (not when imported by tests).
+if (require.main === module) {
+  run(process.argv.slice(2)).then((code) => process.exit(code));
+}
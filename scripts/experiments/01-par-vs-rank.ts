@@ -31,6 +31,8 @@ import {
   spearmanCorrelation,
   printTable,
   metric,
+  intervalVerdict,
+  meanInterval,
   round3,
   noData,
 } from "./helpers";
@@ -41,7 +43,7 @@ runExperiment({
   hypothesis:
     "PAR correlates better with PPG than rank-based decay, especially in the mushy middle (ranks 12-30)",
   acceptanceCriteria:
-    "Average PAR correlation with PPG exceeds rank-based correlation across all seasons",
+    "Average PAR correlation with PPG exceeds rank-based correlation, with the 95% bootstrap interval of the per-season gain (resampled by league-season) above zero",
   run: async (ctx) => {
     // Find all league families
     const families = await ctx.db.select().from(ctx.schema.leagueFamilies);
@@ -281,18 +283,26 @@ runExperiment({
       }
     }
 
-    const liftPct = avgV1 !== 0 ? Math.abs(avgV2 - avgV1) / Math.abs(avgV1) : 0;
-    const verdict = liftPct < 0.01 ? "inconclusive" : avgV2 > avgV1 ? "confirmed" : "rejected";
-    const verdictReason = `PAR avg correlation ${avgV2.toFixed(3)} vs rank ${avgV1.toFixed(3)} across ${allV1Corrs.length} seasons`;
+    const gain = meanInterval(
+      Object.entries(perSeasonCorrelations).map(([key, c]) => ({ group: key, value: c.v2 - c.v1 })),
+    );
+    const verdict = intervalVerdict(gain, 0);
+    const verdictReason =
+      `PAR avg correlation ${avgV2.toFixed(3)} vs rank ${avgV1.toFixed(3)} across ${allV1Corrs.length} seasons` +
+      (gain ? `; gain 95% CI [${gain.lower}, ${gain.upper}]` : "");
 
     return {
       verdict,
       verdictReason,
       scorecard: {
         primaryMetrics: [
-          metric("PAR avg correlation with PPG", avgV2, "correlation", { baseline: avgV1 }),
+          metric("PAR corr gain over rank", gain?.estimate ?? 0, "correlation", {
+            interval: gain,
+            threshold: 0,
+          }),
         ],
         secondaryMetrics: [
+          metric("PAR avg correlation with PPG", avgV2, "correlation", { baseline: avgV1 }),
           metric("Seasons analyzed", allV1Corrs.length, "count"),
         ],
       },
@@ -26,7 +26,12 @@ import {
   shannonEntropy,
   printTable,
   metric,
+  bootstrapGrouped,
+  intervalVerdict,
+  combineVerdicts,
   noData,
+  type BootstrapInterval,
+  type ExperimentVerdict,
 } from "./helpers";
 
 // v1 universal curve (original)
@@ -77,7 +82,7 @@ runExperiment({
   hypothesis:
     "Context-specific blend curves produce better-calibrated grade distributions than the single universal curve",
   acceptanceCriteria:
-    "v2-trade entropy exceeds v1-universal entropy in the majority of time-horizon buckets",
+    "v2-trade entropy exceeds v1-universal entropy in the majority of time-horizon buckets, each judged on the 95% bootstrap interval of the entropy gain (resampled by league)",
   run: async (ctx) => {
     // Load all trade grades (pre-computed)
     const grades = await ctx.db.select().from(ctx.schema.tradeGrades);
@@ -86,7 +91,7 @@ runExperiment({
       return noData("No trade grades found");
     }
 
-    // Load trade timestamps
+    // Load trade timestamps and leagues
     const txIds = [...new Set(grades.map((g) => g.transactionId))];
     const txBatches: string[][] = [];
     for (let i = 0; i < txIds.length; i += 500) {
@@ -94,13 +99,19 @@ runExperiment({
     }
 
     const txTimestamps = new Map<string, number>();
+    const txLeague = new Map<string, string>();
     for (const batch of txBatches) {
       const txRows = await ctx.db
-        .select({ id: ctx.schema.transactions.id, createdAt: ctx.schema.transactions.createdAt })
+        .select({
+          id: ctx.schema.transactions.id,
+          leagueId: ctx.schema.transactions.leagueId,
+          createdAt: ctx.schema.transactions.createdAt,
+        })
         .from(ctx.schema.transactions)
         .where(inArray(ctx.schema.transactions.id, batch));
       for (const tx of txRows) {
         if (tx.createdAt) txTimestamps.set(tx.id, tx.createdAt);
+        txLeague.set(tx.id, tx.leagueId);
       }
     }
 
@@ -116,6 +127,7 @@ runExperiment({
     const curveNames = ["v1-universal", "v2-trade", ...Object.keys(VARIANT_CURVES)];
 
     const perBucketEntropy: Record<string, Record<string, number>> = {};
+    const perBucketGain: Record<string, BootstrapInterval | null> = {};
     const allRawRows: { bucket: string; curve: string; n: number; mean: number; stddev: number; entropy: number }[] = [];
 
     for (const bucket of buckets) {
@@ -135,6 +147,7 @@ runExperiment({
 
       const tableRows: (string | number)[][] = [];
       const bucketEntropy: Record<string, number> = {};
+      const bucketLetters: Record<string, string[]> = {};
 
       for (const curveName of curveNames) {
         const blendedScores: number[] = [];
@@ -173,6 +186,7 @@ runExperiment({
         ]);
 
         bucketEntropy[curveName] = entropy;
+        bucketLetters[curveName] = letterGrades;
 
         allRawRows.push({
           bucket: bucket.label,
@@ -190,22 +204,32 @@ runExperiment({
       );
 
       perBucketEntropy[bucket.label] = bucketEntropy;
+
+      // Entropy gain of v2-trade over v1-universal, resampling whole leagues
+      const paired = relevantGrades.map((g, i) => ({
+        leagueId: txLeague.get(g.transactionId)!,
+        v1: bucketLetters["v1-universal"][i],
+        v2: bucketLetters["v2-trade"][i],
+      }));
+      perBucketGain[bucket.label] = bootstrapGrouped(
+        paired,
+        (p) => p.leagueId,
+        (sample) => shannonEntropy(sample.map((p) => p.v2)) - shannonEntropy(sample.map((p) => p.v1)),
+      );
     }
 
     ctx.log("\nHigher entropy = more spread across grades (better calibration).");
 
-    // Evaluate verdict: count buckets where v2-trade beats v1-universal
+    // Evaluate verdict: a bucket counts for v2-trade only when its whole
+    // interval clears zero; one straddling zero could still go either way
     const bucketLabels = Object.keys(perBucketEntropy);
-    let v2Wins = 0;
-    for (const label of bucketLabels) {
-      const bucket = perBucketEntropy[label];
-      if (bucket["v2-trade"] > bucket["v1-universal"]) v2Wins++;
-    }
-    const verdict = bucketLabels.length === 0 ? "inconclusive"
-      : v2Wins > bucketLabels.length / 2 ? "confirmed"
-      : v2Wins === Math.floor(bucketLabels.length / 2) ? "inconclusive"
-      : "rejected";
-    const verdictReason = `v2-trade higher entropy in ${v2Wins}/${bucketLabels.length} buckets`;
+    const bucketVerdicts: ExperimentVerdict[] = bucketLabels.map((l) => intervalVerdict(perBucketGain[l], 0));
+    const v2Wins = bucketVerdicts.filter((v) => v === "confirmed").length;
+    const open = bucketVerdicts.filter((v) => v === "inconclusive").length;
+    const verdict = combineVerdicts(bucketVerdicts, Math.floor(bucketLabels.length / 2) + 1);
+    const verdictReason =
+      `v2-trade higher entropy in ${v2Wins}/${bucketLabels.length} buckets` +
+      (open > 0 ? `; ${open} too close to call at 95%` : "");
 
     // Build scorecard from per-bucket entropy averages
     const v2Avg = bucketLabels.length > 0
@@ -219,15 +243,20 @@ runExperiment({
       verdict,
       verdictReason,
       scorecard: {
-        primaryMetrics: [
-          metric("v2-trade avg entropy", v2Avg, "bits", { baseline: v1Avg }),
-        ],
+        primaryMetrics: bucketLabels.map((l) =>
+          metric(`${l} entropy gain`, perBucketGain[l]?.estimate ?? 0, "bits", {
+            interval: perBucketGain[l],
+            threshold: 0,
+          }),
+        ),
         secondaryMetrics: [
+          metric("v2-trade avg entropy", v2Avg, "bits", { baseline: v1Avg }),
           metric("Buckets where v2 wins", v2Wins, `of ${bucketLabels.length}`),
         ],
       },
       metrics: {
         perBucketEntropy,
+        perBucketGain,
       },
       rawData: allRawRows,
     };
@@ -17,7 +17,19 @@
  * Usage: npx tsx scripts/experiments/03-production-layers.ts
  */
 
-import { runExperiment, db, schema, spearmanCorrelation, printTable, round3, metric, noData } from "./helpers";
+import {
+  runExperiment,
+  db,
+  schema,
+  spearmanCorrelation,
+  printTable,
+  round3,
+  metric,
+  intervalVerdict,
+  combineVerdicts,
+  meanInterval,
+  noData,
+} from "./helpers";
 import { computeLeagueMOS } from "../../src/services/outcomeScore";
 import { eq, inArray } from "drizzle-orm";
 import {
@@ -52,7 +64,7 @@ runExperiment({
   hypothesis:
     "Adding starter/matchup/playoff layers produces grades that better correlate with season outcomes",
   acceptanceCriteria:
-    "Full v2 config achieves higher average correlation with win% and MOS than PAR-only baseline",
+    "Full v2 config achieves higher average correlation with win% or MOS than PAR-only baseline, with the 95% bootstrap interval of the gain (resampled by league-season) above zero",
   run: async (ctx) => {
     const families = await ctx.db.select().from(schema.leagueFamilies);
     if (families.length === 0) {
@@ -252,30 +264,31 @@ runExperiment({
 
     ctx.log("\nHigher correlation = layers add meaningful signal.");
 
-    // Evaluate verdict: compare full v2 vs PAR only across seasons
+    // Evaluate verdict: per-season gain of full v2 over PAR only
     const seasons = Object.keys(allMetrics);
-    let fullV2WinsWinPct = 0;
-    let fullV2WinsMOS = 0;
-    let comparableSeasonsWinPct = 0;
-    let comparableSeasonsMOS = 0;
+    const winPctGains: { group: string; value: number }[] = [];
+    const mosGains: { group: string; value: number }[] = [];
     for (const season of seasons) {
       const parOnly = allMetrics[season]["PAR only"];
       const fullV2 = allMetrics[season]["full v2"];
       if (parOnly && fullV2) {
-        comparableSeasonsWinPct++;
-        if (fullV2.corrWinPct > parOnly.corrWinPct) fullV2WinsWinPct++;
+        winPctGains.push({ group: season, value: fullV2.corrWinPct - parOnly.corrWinPct });
         if (fullV2.corrMOS !== null && parOnly.corrMOS !== null) {
-          comparableSeasonsMOS++;
-          if (fullV2.corrMOS > parOnly.corrMOS) fullV2WinsMOS++;
+          mosGains.push({ group: season, value: fullV2.corrMOS - parOnly.corrMOS });
         }
       }
     }
-    const winPctBetter = comparableSeasonsWinPct > 0 && fullV2WinsWinPct > comparableSeasonsWinPct / 2;
-    const mosBetter = comparableSeasonsMOS > 0 && fullV2WinsMOS > comparableSeasonsMOS / 2;
-    const verdict = (winPctBetter || mosBetter) ? "confirmed"
-      : comparableSeasonsWinPct === 0 ? "inconclusive"
-      : "rejected";
-    const verdictReason = `Full v2 beats PAR-only in ${fullV2WinsWinPct}/${comparableSeasonsWinPct} seasons (win%) and ${fullV2WinsMOS}/${comparableSeasonsMOS} seasons (MOS)`;
+    const fullV2WinsWinPct = winPctGains.filter((g) => g.value > 0).length;
+    const fullV2WinsMOS = mosGains.filter((g) => g.value > 0).length;
+    const winPctGain = meanInterval(winPctGains);
+    const mosGain = meanInterval(mosGains);
+
+    // Either outcome clearing zero confirms; MOS only counts when computed
+    const verdict = combineVerdicts(
+      [intervalVerdict(winPctGain, 0), ...(mosGains.length > 0 ? [intervalVerdict(mosGain, 0)] : [])],
+      1,
+    );
+    const verdictReason = `Full v2 beats PAR-only in ${fullV2WinsWinPct}/${winPctGains.length} seasons (win%) and ${fullV2WinsMOS}/${mosGains.length} seasons (MOS)`;
 
     // Compute average correlations for scorecard
     const avgFullV2WinPct = seasons.length > 0
@@ -290,11 +303,19 @@ runExperiment({
       verdictReason,
       scorecard: {
         primaryMetrics: [
-          metric("Full v2 avg corr with win%", avgFullV2WinPct, "correlation", { baseline: avgParOnlyWinPct }),
+          metric("Full v2 corr gain (win%)", winPctGain?.estimate ?? 0, "correlation", {
+            interval: winPctGain,
+            threshold: 0,
+          }),
+          metric("Full v2 corr gain (MOS)", mosGain?.estimate ?? 0, "correlation", {
+            interval: mosGain,
+            threshold: 0,
+          }),
         ],
         secondaryMetrics: [
-          metric("Seasons where full v2 wins (win%)", fullV2WinsWinPct, "count", { baseline: comparableSeasonsWinPct }),
-          metric("Seasons where full v2 wins (MOS)", fullV2WinsMOS, "count", { baseline: comparableSeasonsMOS }),
+          metric("Full v2 avg corr with win%", avgFullV2WinPct, "correlation", { baseline: avgParOnlyWinPct }),
+          metric("Seasons where full v2 wins (win%)", fullV2WinsWinPct, "count", { baseline: winPctGains.length }),
+          metric("Seasons where full v2 wins (MOS)", fullV2WinsMOS, "count", { baseline: mosGains.length }),
         ],
       },
       metrics: allMetrics,
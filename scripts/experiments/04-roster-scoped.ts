@@ -14,7 +14,15 @@
  * Usage: npx tsx scripts/experiments/04-roster-scoped.ts
  */
 
-import { runExperiment, schema, printTable, metric, noData } from "./helpers";
+import {
+  runExperiment,
+  schema,
+  printTable,
+  metric,
+  bootstrapGrouped,
+  intervalVerdict,
+  noData,
+} from "./helpers";
 import { eq, and, inArray } from "drizzle-orm";
 import {
   playerSeasonalPAR,
@@ -42,7 +50,7 @@ runExperiment({
   hypothesis:
     "Scoping production to roster ownership windows produces more intuitive trade grades than unbounded",
   acceptanceCriteria:
-    "At least 20% of trades show >10pt score difference between scoped and unbounded approaches",
+    "At least 20% of trades show >10pt score difference between scoped and unbounded approaches, with the 95% bootstrap interval (resampled by league-season) above 20%",
   run: async (ctx) => {
     const families = await ctx.db.select().from(schema.leagueFamilies);
     if (families.length === 0) {
@@ -222,17 +230,27 @@ runExperiment({
     ctx.log(`  Trades with >10pt difference: ${bigSwings} (${bigSwingPct}%)`);
     ctx.log("\nLarger diffs = more cases where roster scoping changes the grade.");
 
-    const verdict = bigSwingPct >= 20 ? "confirmed"
-      : allCases.length === 0 ? "inconclusive"
-      : "rejected";
-    const verdictReason = `${bigSwings}/${allCases.length} trades (${bigSwingPct}%) had >10pt difference`;
+    const bigSwingInterval = bootstrapGrouped(
+      allCases,
+      (c) => c.leagueId,
+      (sample) => (sample.filter((c) => c.scoreDiff > 10).length / sample.length) * 100,
+      { nullValue: 20 },
+    );
+    const verdict = intervalVerdict(bigSwingInterval, 20);
+    const verdictReason =
+      `${bigSwings}/${allCases.length} trades (${bigSwingPct}%) had >10pt difference` +
+      (bigSwingInterval ? `; 95% CI [${Math.round(bigSwingInterval.lower)}%, ${Math.round(bigSwingInterval.upper)}%]` : "");
 
     return {
       verdict,
       verdictReason,
       scorecard: {
         primaryMetrics: [
-          metric("Trades with >10pt difference", bigSwingPct, "%", { baseline: 20 }),
+          metric("Trades with >10pt difference", bigSwingPct, "%", {
+            baseline: 20,
+            interval: bigSwingInterval,
+            threshold: 20,
+          }),
         ],
         secondaryMetrics: [
           metric("Avg score difference", avgDiff, "pts"),
@@ -26,6 +26,9 @@ import {
   shannonEntropy,
   printTable,
   metric,
+  bootstrapGrouped,
+  intervalVerdict,
+  combineVerdicts,
   noData,
 } from "./helpers";
 import {
@@ -111,7 +114,7 @@ runExperiment({
   hypothesis:
     "The baseline weights (40/30/20/10) produce MOS distributions with the best discrimination (entropy) and cross-season stability",
   acceptanceCriteria:
-    "Baseline weight vector has the highest entropy or cross-season correlation among all tested vectors",
+    "Baseline weight vector has the highest entropy or cross-season correlation among all tested vectors, with the 95% bootstrap interval of its margin over the best other vector (resampled by family) above zero",
   config: {
     weightVectors: WEIGHT_VECTORS.map((w) => ({
       name: w.name,
@@ -140,7 +143,7 @@ runExperiment({
     }
 
     // Collect unique league IDs across all families
-    const leagueIdSet = new Set<string>();
+    const leagueFamily = new Map<string, string>();
     for (const family of families) {
       const members = await ctx.db
         .select()
@@ -148,10 +151,10 @@ runExperiment({
         .where(eq(ctx.schema.leagueFamilyMembers.familyId, family.id));
 
       for (const m of members) {
-        leagueIdSet.add(m.leagueId);
+        leagueFamily.set(m.leagueId, family.id);
       }
     }
-    const leagueIds = [...leagueIdSet];
+    const leagueIds = [...leagueFamily.keys()];
 
     const perVectorMetrics: Record<string, {
       entropy: number;
@@ -160,6 +163,7 @@ runExperiment({
     }> = {};
 
     const tableRows: (string | number)[][] = [];
+    const scoresByVector = new Map<string, ManagerOutcomeScore[]>();
 
     for (const weightVector of WEIGHT_VECTORS) {
       ctx.log(`\n--- Weight vector: ${weightVector.name} ---`);
@@ -191,6 +195,7 @@ runExperiment({
       ctx.log(`  Mean: ${stats.mean.toFixed(3)}, StdDev: ${stats.stddev.toFixed(3)}`);
 
       perVectorMetrics[weightVector.name] = { entropy, crossSeasonCorr: crossCorr, stats };
+      scoresByVector.set(weightVector.name, allScores);
       tableRows.push([
         weightVector.name,
         allScores.length,
@@ -216,9 +221,6 @@ runExperiment({
     const others = Object.entries(perVectorMetrics).filter(([k]) => k !== "baseline");
     const bestEntropy = others.every(([, v]) => baseline && baseline.entropy >= v.entropy);
     const bestCorr = others.every(([, v]) => baseline && baseline.crossSeasonCorr >= v.crossSeasonCorr);
-    const verdict = !baseline ? "inconclusive"
-      : (bestEntropy || bestCorr) ? "confirmed"
-      : "rejected";
     const verdictReason = baseline
       ? `Baseline entropy=${baseline.entropy.toFixed(3)}, crossCorr=${baseline.crossSeasonCorr.toFixed(3)}. Best entropy: ${bestEntropy}, best stability: ${bestCorr}`
       : "No baseline data";
@@ -227,11 +229,43 @@ runExperiment({
     const bestOtherEntropy = others.length > 0 ? Math.max(...others.map(([, v]) => v.entropy)) : 0;
     const bestOtherCorr = others.length > 0 ? Math.max(...others.map(([, v]) => v.crossSeasonCorr)) : 0;
 
+    // Baseline's margin over the best other vector, resampling whole families
+    const scored = [...scoresByVector].flatMap(([vector, scores]) =>
+      scores.map((score) => ({ vector, score, familyId: leagueFamily.get(score.leagueId) ?? score.leagueId })),
+    );
+    const margin = (measure: (scores: ManagerOutcomeScore[]) => number) => (sample: typeof scored) => {
+      const byVector = new Map<string, ManagerOutcomeScore[]>();
+      for (const s of sample) {
+        if (!byVector.has(s.vector)) byVector.set(s.vector, []);
+        byVector.get(s.vector)!.push(s.score);
+      }
+      const base = measure(byVector.get("baseline") ?? []);
+      return base - Math.max(...others.map(([name]) => measure(byVector.get(name) ?? [])));
+    };
+    const canCompare = baseline !== undefined && others.length > 0;
+    const entropyMargin = canCompare
+      ? bootstrapGrouped(scored, (s) => s.familyId, margin((scores) => shannonEntropy(discretizeMOS(scores.map((s) => s.mos)))))
+      : null;
+    const corrMargin = canCompare
+      ? bootstrapGrouped(scored, (s) => s.familyId, margin((scores) => crossSeasonCorrelation(scores, rosterOwners)))
+      : null;
+    const verdict = combineVerdicts([intervalVerdict(entropyMargin, 0), intervalVerdict(corrMargin, 0)], 1);
+
     return {
       verdict,
       verdictReason,
       scorecard: {
         primaryMetrics: [
+          metric("Entropy margin over best other", entropyMargin?.estimate ?? 0, "bits", {
+            interval: entropyMargin,
+            threshold: 0,
+          }),
+          metric("Stability margin over best other", corrMargin?.estimate ?? 0, "correlation", {
+            interval: corrMargin,
+            threshold: 0,
+          }),
+        ],
+        secondaryMetrics: [
           metric("Baseline entropy", baseline?.entropy ?? 0, "bits", { baseline: bestOtherEntropy }),
           metric("Cross-season stability", baseline?.crossSeasonCorr ?? 0, "correlation", { baseline: bestOtherCorr }),
         ],
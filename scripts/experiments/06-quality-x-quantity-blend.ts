@@ -20,8 +20,13 @@ import {
   spearmanCorrelation,
   printTable,
   metric,
+  intervalVerdict,
+  combineVerdicts,
+  meanInterval,
   noData,
   round3,
+  type BootstrapInterval,
+  type ExperimentVerdict,
 } from "./helpers";
 import { computeLeagueMOS } from "../../src/services/outcomeScore";
 import {
@@ -54,7 +59,7 @@ runExperiment({
   hypothesis:
     "The recommended α values (trade=0.50, draft=0.60, waiver=0.40) produce better MOS correlation than pure quality averages (α=1.0)",
   acceptanceCriteria:
-    "Recommended α beats α=1.0 in Spearman correlation for ≥2 of 3 pillars",
+    "Recommended α beats α=1.0 in Spearman correlation for ≥2 of 3 pillars, with the 95% bootstrap interval of the gain (resampled by league-season) above zero",
   config: { alphaValues: ALPHA_VALUES, pillars: PILLARS.map((p) => p.pillar) },
   run: async (ctx) => {
     // Load all league families and members
@@ -100,7 +105,8 @@ runExperiment({
     // Results per pillar per alpha
     const results: Record<string, Record<number, number>> = {}; // pillar -> alpha -> avg spearman
     const tableRows: (string | number)[][] = [];
-    let pillarsWhereRecommendedBeatsPure = 0;
+    const gains: Record<string, BootstrapInterval | null> = {}; // pillar -> recommended vs pure
+    const pillarVerdicts: ExperimentVerdict[] = [];
 
     for (const pillarCfg of PILLARS) {
       ctx.log(`\n--- Pillar: ${pillarCfg.pillar} (recommended α=${pillarCfg.recommendedAlpha}) ---`);
@@ -114,8 +120,9 @@ runExperiment({
       }
 
       // For each alpha, compute blended scores and correlate with MOS
+      const byLeague: Record<number, Map<string, number>> = {}; // alpha -> leagueId -> spearman
       for (const alpha of ALPHA_VALUES) {
-        const correlations: number[] = [];
+        const correlations = new Map<string, number>();
 
         for (const [leagueId, ownerMos] of mosByLeague) {
           const leagueGrades = gradeRows.get(leagueId);
@@ -137,21 +144,29 @@ runExperiment({
           }
 
           if (scoreArr.length >= 3) {
-            correlations.push(spearmanCorrelation(scoreArr, mosArr));
+            correlations.set(leagueId, spearmanCorrelation(scoreArr, mosArr));
           }
         }
 
-        const avgCorr = correlations.length > 0
-          ? correlations.reduce((a, b) => a + b, 0) / correlations.length
+        const avgCorr = correlations.size > 0
+          ? [...correlations.values()].reduce((a, b) => a + b, 0) / correlations.size
           : 0;
         results[pillarCfg.pillar][alpha] = avgCorr;
-        ctx.log(`  α=${alpha.toFixed(1)}: avg Spearman=${round3(avgCorr)} (${correlations.length} leagues)`);
+        byLeague[alpha] = correlations;
+        ctx.log(`  α=${alpha.toFixed(1)}: avg Spearman=${round3(avgCorr)} (${correlations.size} leagues)`);
       }
 
-      // Check if recommended beats pure average
+      // Check if recommended beats pure average, league by league
       const recCorr = results[pillarCfg.pillar][pillarCfg.recommendedAlpha] ?? 0;
       const pureCorr = results[pillarCfg.pillar][1.0] ?? 0;
-      if (recCorr > pureCorr) pillarsWhereRecommendedBeatsPure++;
+      const pure = byLeague[1.0] ?? new Map<string, number>();
+      const gain = meanInterval(
+        [...(byLeague[pillarCfg.recommendedAlpha] ?? new Map<string, number>())]
+          .filter(([leagueId]) => pure.has(leagueId))
+          .map(([leagueId, corr]) => ({ group: leagueId, value: corr - pure.get(leagueId)! })),
+      );
+      gains[pillarCfg.pillar] = gain;
+      pillarVerdicts.push(intervalVerdict(gain, 0));
 
       // Find optimal alpha
       let bestAlpha = 1.0;
@@ -181,31 +196,40 @@ runExperiment({
       );
     }
 
-    const verdict = tableRows.length === 0
-      ? "inconclusive"
-      : pillarsWhereRecommendedBeatsPure >= 2
-        ? "confirmed"
-        : "rejected";
+    // A pillar whose interval straddles zero could still go either way
+    const verdict = combineVerdicts(pillarVerdicts, 2);
+    const wins = pillarVerdicts.filter((v) => v === "confirmed").length;
+    const open = pillarVerdicts.filter((v) => v === "inconclusive").length;
 
     const pureAvgCorrs = PILLARS.map((p) => results[p.pillar]?.[1.0] ?? 0);
     const recCorrs = PILLARS.map((p) => results[p.pillar]?.[p.recommendedAlpha] ?? 0);
 
     return {
       verdict,
-      verdictReason: `Recommended α beat pure average in ${pillarsWhereRecommendedBeatsPure}/3 pillars`,
+      verdictReason:
+        `Recommended α beat pure average in ${wins}/${pillarVerdicts.length} pillars` +
+        (open > 0 ? `; ${open} too close to call at 95%` : ""),
       scorecard: {
-        primaryMetrics: PILLARS.map((p, i) =>
-          metric(`${p.pillar} corr (α=${p.recommendedAlpha})`, recCorrs[i], "spearman", {
-            baseline: pureAvgCorrs[i],
+        primaryMetrics: PILLARS.map((p) =>
+          metric(`${p.pillar} corr gain (α=${p.recommendedAlpha} vs 1)`, gains[p.pillar]?.estimate ?? 0, "spearman", {
+            interval: gains[p.pillar],
+            threshold: 0,
           }),
         ),
-        secondaryMetrics: PILLARS.map((p) => {
-          const pillarResults = results[p.pillar] ?? {};
-          const bestEntry = Object.entries(pillarResults).sort(([, a], [, b]) => b - a)[0];
-          return metric(`${p.pillar} optimal α`, bestEntry ? Number(bestEntry[0]) : 0, "α");
-        }),
+        secondaryMetrics: [
+          ...PILLARS.map((p, i) =>
+            metric(`${p.pillar} corr (α=${p.recommendedAlpha})`, recCorrs[i], "spearman", {
+              baseline: pureAvgCorrs[i],
+            }),
+          ),
+          ...PILLARS.map((p) => {
+            const pillarResults = results[p.pillar] ?? {};
+            const bestEntry = Object.entries(pillarResults).sort(([, a], [, b]) => b - a)[0];
+            return metric(`${p.pillar} optimal α`, bestEntry ? Number(bestEntry[0]) : 0, "α");
+          }),
+        ],
       },
-      metrics: results,
+      metrics: { ...results, gains },
       rawData: tableRows.map((r) => ({
         pillar: r[0],
         recommendedAlpha: r[1],
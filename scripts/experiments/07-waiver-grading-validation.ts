@@ -21,6 +21,9 @@ import {
   spearmanCorrelation,
   printTable,
   metric,
+  intervalVerdict,
+  combineVerdicts,
+  meanInterval,
   noData,
   round3,
 } from "./helpers";
@@ -33,7 +36,7 @@ runExperiment({
   hypothesis:
     "Waiver grading correlates positively with MOS, and adding waiver_score to the overall composite improves MOS prediction",
   acceptanceCriteria:
-    "Waiver-vs-MOS Spearman > 0.1 AND 4-pillar composite beats 2-pillar baseline",
+    "Waiver-vs-MOS Spearman > 0.1 AND 4-pillar composite beats 2-pillar baseline, each with its 95% bootstrap interval (resampled by league-season) clearing the bar",
   run: async (ctx) => {
     const families = await ctx.db.select().from(ctx.schema.leagueFamilies);
     if (families.length === 0) return noData("No league families found");
@@ -93,6 +96,10 @@ runExperiment({
       "4-pillar": [] as number[],
     };
 
+    // Per-league rows for the bootstrap intervals
+    const waiverRows: { group: string; value: number }[] = [];
+    const compositeGainRows: { group: string; value: number }[] = [];
+
     let leaguesAnalyzed = 0;
 
     for (const leagueId of leagueIds) {
@@ -125,7 +132,9 @@ runExperiment({
           }
         }
         if (pillarScores.length >= 3) {
-          perPillarCorrs[pillar].push(spearmanCorrelation(pillarScores, mosArr));
+          const corr = spearmanCorrelation(pillarScores, mosArr);
+          perPillarCorrs[pillar].push(corr);
+          if (pillar === "waiver_score") waiverRows.push({ group: leagueId, value: corr });
         }
       }
 
@@ -162,9 +171,12 @@ runExperiment({
       }
 
       if (composites.managers.length >= 3) {
-        compositeCorrs["2-pillar"].push(spearmanCorrelation(composites.scores2, composites.mos));
+        const corr2 = spearmanCorrelation(composites.scores2, composites.mos);
+        const corr4 = spearmanCorrelation(composites.scores4, composites.mos);
+        compositeCorrs["2-pillar"].push(corr2);
         compositeCorrs["3-pillar"].push(spearmanCorrelation(composites.scores3, composites.mos));
-        compositeCorrs["4-pillar"].push(spearmanCorrelation(composites.scores4, composites.mos));
+        compositeCorrs["4-pillar"].push(corr4);
+        compositeGainRows.push({ group: leagueId, value: corr4 - corr2 });
       }
     }
 
@@ -211,27 +223,33 @@ runExperiment({
     const waiverCorr = avgPillarCorrs["waiver_score"] ?? 0;
     const fourPillar = avgCompositeCorrs["4-pillar"];
     const twoPillar = avgCompositeCorrs["2-pillar"];
-    const waiverPositive = waiverCorr > 0.1;
-    const fourBeatTwo = fourPillar > twoPillar;
+    const waiverInterval = meanInterval(waiverRows, { nullValue: 0.1 });
+    const compositeGain = meanInterval(compositeGainRows);
+    const waiverVerdict = intervalVerdict(waiverInterval, 0.1);
+    const compositeVerdict = intervalVerdict(compositeGain, 0);
 
-    const verdict = waiverPositive && fourBeatTwo
-      ? "confirmed"
-      : !waiverPositive && !fourBeatTwo
-        ? "rejected"
-        : "inconclusive";
+    // Both halves of the criterion must hold
+    const verdict = combineVerdicts([waiverVerdict, compositeVerdict], 2);
 
     return {
       verdict,
-      verdictReason: `Waiver-vs-MOS corr=${round3(waiverCorr)} (${waiverPositive ? ">" : "≤"} 0.1), 4-pillar=${round3(fourPillar)} vs 2-pillar=${round3(twoPillar)} (${fourBeatTwo ? "improved" : "not improved"})`,
+      verdictReason: `Waiver-vs-MOS corr=${round3(waiverCorr)} vs 0.1 (${waiverVerdict}), 4-pillar=${round3(fourPillar)} vs 2-pillar=${round3(twoPillar)} (${compositeVerdict})`,
       scorecard: {
         primaryMetrics: [
-          metric("Waiver-vs-MOS correlation", waiverCorr, "spearman"),
-          metric("4-pillar composite correlation", fourPillar, "spearman", { baseline: twoPillar }),
+          metric("Waiver-vs-MOS correlation", waiverCorr, "spearman", {
+            interval: waiverInterval,
+            threshold: 0.1,
+          }),
+          metric("4-pillar vs 2-pillar corr gain", compositeGain?.estimate ?? 0, "spearman", {
+            interval: compositeGain,
+            threshold: 0,
+          }),
         ],
         secondaryMetrics: [
           metric("Draft-vs-MOS", avgPillarCorrs["draft_score"] ?? 0, "spearman"),
           metric("Trade-vs-MOS", avgPillarCorrs["trade_score"] ?? 0, "spearman"),
           metric("Lineup-vs-MOS", avgPillarCorrs["lineup_score"] ?? 0, "spearman"),
+          metric("4-pillar composite correlation", fourPillar, "spearman", { baseline: twoPillar }),
           metric("3-pillar composite", avgCompositeCorrs["3-pillar"], "spearman", { baseline: twoPillar }),
         ],
         guardrailMetrics: [
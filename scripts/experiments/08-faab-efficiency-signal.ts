@@ -22,6 +22,8 @@ import {
   describeArray,
   printTable,
   metric,
+  intervalVerdict,
+  meanInterval,
   noData,
   round3,
 } from "./helpers";
@@ -40,7 +42,7 @@ runExperiment({
   hypothesis:
     "FAAB bid efficiency adds predictive signal beyond raw value scoring in FAAB leagues",
   acceptanceCriteria:
-    "With-FAAB correlation > without-FAAB in >50% of FAAB league-seasons",
+    "With-FAAB correlation > without-FAAB in >50% of FAAB league-seasons, with the 95% bootstrap interval of that share (resampled by league-season) above 50%",
   run: async (ctx) => {
     // Load roster owners
     const allRosters = await ctx.db
@@ -97,6 +99,7 @@ runExperiment({
     let withFaabWins = 0;
     let withoutFaabWins = 0;
     let ties = 0;
+    const gainRows: { group: string; value: number }[] = [];
     const tableRows: (string | number)[][] = [];
     const faabBonusMagnitudes: number[] = [];
 
@@ -182,6 +185,7 @@ runExperiment({
       if (withCorr > withoutCorr) withFaabWins++;
       else if (withoutCorr > withCorr) withoutFaabWins++;
       else ties++;
+      gainRows.push({ group: leagueId, value: withCorr - withoutCorr });
 
       tableRows.push([leagueId.slice(0, 12), grades.length, round3(withCorr), round3(withoutCorr), withCorr > withoutCorr ? "with" : "without"]);
     }
@@ -199,20 +203,31 @@ runExperiment({
     ctx.log(`With-FAAB wins: ${withFaabWins}, Without-FAAB wins: ${withoutFaabWins}, Ties: ${ties}`);
 
     const total = withFaabWins + withoutFaabWins + ties;
-    const verdict = total < 3
-      ? "inconclusive"
-      : withFaabWins > withoutFaabWins
-        ? "confirmed"
-        : "rejected";
+    const winShare = meanInterval(
+      gainRows.map((r) => ({ group: r.group, value: r.value > 0 ? 1 : 0 })),
+      { nullValue: 0.5 },
+    );
+    const corrGain = meanInterval(gainRows);
+    const verdict = intervalVerdict(winShare, 0.5);
 
     return {
       verdict,
-      verdictReason: `With-FAAB won ${withFaabWins}/${total} league-seasons (need >50%)`,
+      verdictReason:
+        `With-FAAB won ${withFaabWins}/${total} league-seasons (need >50%)` +
+        (winShare ? `; 95% CI [${Math.round(winShare.lower * 100)}%, ${Math.round(winShare.upper * 100)}%]` : ""),
       scorecard: {
         primaryMetrics: [
-          metric("FAAB leagues where bonus helps", withFaabWins, "count", { baseline: withoutFaabWins }),
+          metric("Share of FAAB leagues where bonus helps", winShare?.estimate ?? 0, "share", {
+            interval: winShare,
+            threshold: 0.5,
+          }),
         ],
         secondaryMetrics: [
+          metric("FAAB leagues where bonus helps", withFaabWins, "count", { baseline: withoutFaabWins }),
+          metric("Corr gain with FAAB bonus", corrGain?.estimate ?? 0, "spearman", {
+            interval: corrGain,
+            threshold: 0,
+          }),
           metric("Avg FAAB bonus magnitude", bonusStats.mean, "points"),
           metric("Total FAAB leagues", total, "count"),
         ],
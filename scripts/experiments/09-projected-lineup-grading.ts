@@ -0,0 +1,189 @@
+/**
+ * Experiment 9: Projection-Aware Lineup Grading
+ *
+ * Hypothesis: Grading lineup decisions against the pre-game expectation
+ * (trailing PPG adjusted for injury report, practice status and NFL roster
+ * status) tracks MOS at least as well as the rolling-average-only
+ * lineup_score, because it stops crediting managers for benching players
+ * who were already ruled out.
+ *
+ * Method:
+ *   1. Load season-scoped lineup_score and lineup_projected_score rows
+ *   2. Correlate each against MOS per league-season
+ *   3. Measure how often the two scores disagree on a manager's rank
+ *
+ * Usage: npx tsx scripts/experiments/09-projected-lineup-grading.ts
+ */
+
+import {
+  runExperiment,
+  db,
+  spearmanCorrelation,
+  describeArray,
+  printTable,
+  metric,
+  intervalVerdict,
+  meanInterval,
+  noData,
+  round3,
+} from "./helpers";
+import { computeLeagueMOS } from "../../src/services/outcomeScore";
+
+const METRIC_TYPES = ["lineup_score", "lineup_projected_score"] as const;
+
+/** Projected must beat the baseline by this much to be called an improvement. */
+const MIN_IMPROVEMENT = 0.02;
+
+runExperiment({
+  name: "projected-lineup-grading",
+  hypothesis:
+    "Grading lineups against injury-aware pre-game expectations correlates with MOS at least as well as rolling-average lineup_score",
+  acceptanceCriteria:
+    "Projected-vs-MOS Spearman exceeds lineup_score-vs-MOS by > 0.02 averaged across league-seasons, with the 95% bootstrap interval of the gain (resampled by league-season) above 0.02",
+  run: async (ctx) => {
+    const allRosters = await ctx.db
+      .select({
+        leagueId: ctx.schema.rosters.leagueId,
+        rosterId: ctx.schema.rosters.rosterId,
+        ownerId: ctx.schema.rosters.ownerId,
+      })
+      .from(ctx.schema.rosters);
+
+    const rosterToOwner = new Map<string, string>();
+    for (const r of allRosters) {
+      if (r.ownerId) rosterToOwner.set(`${r.leagueId}:${r.rosterId}`, r.ownerId);
+    }
+
+    // leagueId -> managerId -> metric -> value
+    const allMetrics = await ctx.db.select().from(ctx.schema.managerMetrics);
+    const metricsByLeague = new Map<string, Map<string, Map<string, number>>>();
+    for (const row of allMetrics) {
+      if (!row.scope.startsWith("season:")) continue;
+      if (!METRIC_TYPES.includes(row.metric as typeof METRIC_TYPES[number])) continue;
+
+      if (!metricsByLeague.has(row.leagueId)) metricsByLeague.set(row.leagueId, new Map());
+      const leagueMap = metricsByLeague.get(row.leagueId)!;
+      if (!leagueMap.has(row.managerId)) leagueMap.set(row.managerId, new Map());
+      leagueMap.get(row.managerId)!.set(row.metric, row.value);
+    }
+
+    const comparable = [...metricsByLeague.entries()].filter(([, managers]) =>
+      [...managers.values()].some((m) => m.has("lineup_projected_score")),
+    );
+    if (comparable.length === 0) {
+      return noData("No lineup_projected_score rows — re-run lineup grading first");
+    }
+
+    const baselineCorrs: number[] = [];
+    const projectedCorrs: number[] = [];
+    const agreementCorrs: number[] = [];
+    const gainRows: { group: string; value: number }[] = [];
+    const scoreDeltas: number[] = [];
+    const rawData: Array<Record<string, unknown>> = [];
+
+    for (const [leagueId, managers] of comparable) {
+      const mosScores = await computeLeagueMOS(leagueId, undefined, db);
+      const ownerMos = new Map<string, number>();
+      for (const s of mosScores) {
+        const owner = rosterToOwner.get(`${s.leagueId}:${s.rosterId}`);
+        if (owner) ownerMos.set(owner, s.mos);
+      }
+
+      const baseline: number[] = [];
+      const projected: number[] = [];
+      const mos: number[] = [];
+      for (const [managerId, values] of managers) {
+        const b = values.get("lineup_score");
+        const p = values.get("lineup_projected_score");
+        const m = ownerMos.get(managerId);
+        if (b === undefined || p === undefined || m === undefined) continue;
+        baseline.push(b);
+        projected.push(p);
+        mos.push(m);
+        scoreDeltas.push(p - b);
+        rawData.push({
+          leagueId,
+          managerId,
+          lineupScore: b,
+          projectedScore: p,
+          delta: round3(p - b),
+          mos: round3(m),
+        });
+      }
+      if (mos.length < 3) continue;
+
+      const leagueBaseline = spearmanCorrelation(baseline, mos);
+      const leagueProjected = spearmanCorrelation(projected, mos);
+      baselineCorrs.push(leagueBaseline);
+      projectedCorrs.push(leagueProjected);
+      gainRows.push({ group: leagueId, value: leagueProjected - leagueBaseline });
+      agreementCorrs.push(spearmanCorrelation(baseline, projected));
+    }
+
+    if (baselineCorrs.length === 0) {
+      return noData("No leagues with both lineup metrics and MOS for 3+ managers");
+    }
+
+    const avg = (arr: number[]) => arr.reduce((a, b) => a + b, 0) / arr.length;
+    const baselineCorr = avg(baselineCorrs);
+    const projectedCorr = avg(projectedCorrs);
+    const agreement = avg(agreementCorrs);
+    const improvement = projectedCorr - baselineCorr;
+    const leaguesImproved = projectedCorrs.filter((c, i) => c > baselineCorrs[i]).length;
+    const deltaStats = describeArray(scoreDeltas);
+
+    ctx.log(`\nLeague-seasons analyzed: ${baselineCorrs.length}`);
+    printTable(
+      ["Metric", "Avg Spearman vs MOS", "Leagues"],
+      [
+        ["lineup_score", round3(baselineCorr), baselineCorrs.length],
+        ["lineup_projected_score", round3(projectedCorr), projectedCorrs.length],
+      ],
+    );
+    ctx.log(
+      `\nRank agreement between the two: ${round3(agreement)}; ` +
+        `projected − baseline score: mean ${round3(deltaStats.mean)}, ` +
+        `median ${round3(deltaStats.median)}, range ${round3(deltaStats.min)}..${round3(deltaStats.max)}`,
+    );
+
+    const gain = meanInterval(gainRows, { nullValue: MIN_IMPROVEMENT });
+    const verdict = intervalVerdict(gain, MIN_IMPROVEMENT);
+
+    return {
+      verdict,
+      verdictReason:
+        `Projected-vs-MOS=${round3(projectedCorr)} vs lineup_score-vs-MOS=${round3(baselineCorr)} (Δ ${round3(improvement)}` +
+        (gain ? `, 95% CI [${gain.lower}, ${gain.upper}]` : "") +
+        `); better in ${leaguesImproved}/${projectedCorrs.length} league-seasons`,
+      scorecard: {
+        primaryMetrics: [
+          metric("Projected vs lineup corr gain", gain?.estimate ?? 0, "spearman", {
+            interval: gain,
+            threshold: MIN_IMPROVEMENT,
+          }),
+        ],
+        secondaryMetrics: [
+          metric("Projected-vs-MOS correlation", projectedCorr, "spearman", {
+            baseline: baselineCorr,
+          }),
+          metric("Lineup-vs-MOS correlation", baselineCorr, "spearman"),
+          metric("Rank agreement (baseline vs projected)", agreement, "spearman"),
+          metric("Mean score delta", deltaStats.mean, "points"),
+        ],
+        guardrailMetrics: [
+          metric("League-seasons analyzed", baselineCorrs.length, "count"),
+          metric("League-seasons improved", leaguesImproved, "count"),
+        ],
+      },
+      metrics: {
+        baselineCorr,
+        projectedCorr,
+        agreement,
+        improvement,
+        leaguesImproved,
+        scoreDelta: deltaStats,
+      },
+      rawData,
+    };
+  },
+});
@@ -19,6 +19,25 @@ import { neon } from "@neondatabase/serverless";
 import { drizzle } from "drizzle-orm/neon-http";
 import { eq } from "drizzle-orm";
 import * as schema from "../../src/db/schema";
+import type { Scorecard, ScorecardMetric } from "../../src/lib/scorecard";
+
+export {
+  round3,
+  describeArray,
+  spearmanCorrelation,
+  shannonEntropy,
+  bootstrapGrouped,
+  meanInterval,
+  type BootstrapInterval,
+} from "../../src/lib/stats";
+export {
+  metric,
+  intervalVerdict,
+  combineVerdicts,
+  type ExperimentVerdict,
+  type Scorecard,
+  type ScorecardMetric,
+} from "../../src/lib/scorecard";
 
 const DATABASE_URL = process.env.DATABASE_URL!;
 if (!DATABASE_URL) {
@@ -54,21 +73,6 @@ export interface ExperimentContext {
   log: (msg: string) => void;
 }
 
-export interface ScorecardMetric {
-  name: string;
-  value: number;
-  baseline?: number;
-  lift?: number;
-  unit: string;
-  direction: "higher" | "lower";
-}
-
-export interface Scorecard {
-  primaryMetrics: ScorecardMetric[];
-  secondaryMetrics?: ScorecardMetric[];
-  guardrailMetrics?: ScorecardMetric[];
-}
-
 export interface ExperimentResult {
   /** Structured metrics for comparison across runs */
   metrics: Record<string, unknown>;
@@ -115,6 +119,10 @@ function printScorecard(result: ExperimentResult): void {
         const arrow = pct > 0 ? "▲" : pct < 0 ? "▼" : "—";
         parts.push(`  ${arrow} ${pct > 0 ? "+" : ""}${pct}%`);
       }
+      if (m.ci) {
+        parts.push(`  ${Math.round(m.ci.confidence * 100)}% CI [${m.ci.lower}, ${m.ci.upper}]`);
+        if (m.pValue !== undefined) parts.push(` p=${m.pValue}`);
+      }
       console.log(parts.join(""));
     }
   };
@@ -209,34 +217,6 @@ export async function runExperiment(def: ExperimentDefinition): Promise<void> {
 // Statistical utilities
 // ============================================================
 
-/** Round to 3 decimal places */
-export function round3(n: number): number {
-  return Math.round(n * 1000) / 1000;
-}
-
-/** Build a scorecard metric with automatic lift calculation and rounding */
-export function metric(
-  name: string,
-  value: number,
-  unit: string,
-  opts?: { baseline?: number; direction?: "higher" | "lower" },
-): ScorecardMetric {
-  const direction = opts?.direction ?? "higher";
-  const baseline = opts?.baseline;
-  const lift =
-    baseline !== undefined && baseline !== 0
-      ? (value - baseline) / Math.abs(baseline)
-      : undefined;
-  return {
-    name,
-    value: round3(value),
-    baseline: baseline !== undefined ? round3(baseline) : undefined,
-    lift,
-    unit,
-    direction,
-  };
-}
-
 /** Early return for experiments with no data to analyze */
 export function noData(reason: string): ExperimentResult {
   return {
@@ -248,76 +228,6 @@ export function noData(reason: string): ExperimentResult {
   };
 }
 
-/** Descriptive stats for a numeric array */
-export function describeArray(values: number[]): {
-  mean: number;
-  median: number;
-  stddev: number;
-  min: number;
-  max: number;
-  count: number;
-} {
-  if (values.length === 0) {
-    return { mean: 0, median: 0, stddev: 0, min: 0, max: 0, count: 0 };
-  }
-  const sorted = [...values].sort((a, b) => a - b);
-  const mean = sorted.reduce((a, b) => a + b, 0) / sorted.length;
-  const median =
-    sorted.length % 2 === 0
-      ? (sorted[sorted.length / 2 - 1] + sorted[sorted.length / 2]) / 2
-      : sorted[Math.floor(sorted.length / 2)];
-  const variance =
-    sorted.reduce((sum, v) => sum + (v - mean) ** 2, 0) / sorted.length;
-  return {
-    mean: Math.round(mean * 100) / 100,
-    median: Math.round(median * 100) / 100,
-    stddev: Math.round(Math.sqrt(variance) * 100) / 100,
-    min: sorted[0],
-    max: sorted[sorted.length - 1],
-    count: sorted.length,
-  };
-}
-
-/** Spearman rank correlation between two arrays */
-export function spearmanCorrelation(x: number[], y: number[]): number {
-  if (x.length !== y.length || x.length < 2) return 0;
-  const n = x.length;
-
-  const rank = (arr: number[]): number[] => {
-    const sorted = arr.map((v, i) => ({ v, i })).sort((a, b) => a.v - b.v);
-    const ranks = new Array(n);
-    for (let i = 0; i < n; i++) {
-      ranks[sorted[i].i] = i + 1;
-    }
-    return ranks;
-  };
-
-  const rx = rank(x);
-  const ry = rank(y);
-
-  let sumD2 = 0;
-  for (let i = 0; i < n; i++) {
-    sumD2 += (rx[i] - ry[i]) ** 2;
-  }
-
-  return 1 - (6 * sumD2) / (n * (n * n - 1));
-}
-
-/** Shannon entropy of a categorical distribution */
-export function shannonEntropy(values: string[]): number {
-  const counts = new Map<string, number>();
-  for (const v of values) {
-    counts.set(v, (counts.get(v) || 0) + 1);
-  }
-  const n = values.length;
-  let entropy = 0;
-  for (const c of counts.values()) {
-    const p = c / n;
-    if (p > 0) entropy -= p * Math.log2(p);
-  }
-  return Math.round(entropy * 1000) / 1000;
-}
-
 /** Print a comparison table to console */
 export function printTable(
   headers: string[],
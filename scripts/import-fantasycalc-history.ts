@@ -0,0 +1,344 @@
+/**
+ * Import dated FantasyCalc value dumps from local CSV/JSON files into
+ * `fantasy_calc_value_history`, so seasons that predate the daily cron have
+ * trade-time valuations (see loadFantasyCalcSnapshotAsOf).
+ *
+ * Runs fully offline: nothing is fetched from FantasyCalc. Each file holds
+ * one snapshot for one format, and the filename carries both:
+ *
+ *   YYYY-MM-DD_{sf|1qb}_ppr{N}_{N}team.{csv|json}
+ *   e.g. 2021-09-01_sf_ppr1_12team.csv, 2022-03-15_1qb_ppr0.5_10team.json
+ *
+ * CSV columns: name, position, value, and optionally team, rank,
+ * positionRank, sleeperId. JSON: an array of the same flat objects, or a
+ * saved `/values/current` API response.
+ *
+ * Rows without a sleeperId are matched by name (and position on ties)
+ * against the `players` table via buildSleeperIdResolver. Unmatched names
+ * are reported per file and skipped. PICK rows keep their name-derived id.
+ *
+ * Idempotent: re-importing a file replaces the previously imported rows for
+ * that (format, date). API-sourced history is never touched.
+ *
+ * Usage:
+ *   # Dry-run (default; parses + matches, reports, writes nothing)
+ *   npm run import:fantasycalc-history -- ./dumps
+ *
+ *   # Persist. Accepts directories and/or individual files.
+ *   npm run import:fantasycalc-history -- ./dumps/2021-09-01_sf_ppr1_12team.csv --apply
+ */
+
+import fs from "fs";
+import path from "path";
+import { parse } from "csv-parse/sync";
+import { and, eq } from "drizzle-orm";
+import { getDb, schema } from "@/db";
+import {
+  buildSleeperIdResolver,
+  fantasyCalcPickId,
+  type SleeperPlayerRef,
+} from "@/lib/fantasycalc";
+import type { FantasyCalcConfig } from "@/services/fantasyCalcSync";
+
+export interface DumpEntry {
+  name: string;
+  position: string | null;
+  team: string | null;
+  value: number;
+  rank: number | null;
+  positionRank: number | null;
+  sleeperId: string | null;
+}
+
+export interface DumpFile {
+  date: Date;
+  config: FantasyCalcConfig;
+  entries: DumpEntry[];
+}
+
+interface FileReport {
+  file: string;
+  date: string;
+  rows: number;
+  matched: number;
+  picks: number;
+  unmatched: string[];
+  error?: string;
+}
+
+interface RunStats {
+  files: number;
+  imported: number;
+  unmatched: number;
+  failed: number;
+  reports: FileReport[];
+}
+
+const FILENAME_RE =
+  /^(\d{4}-\d{2}-\d{2})_(sf|1qb)_ppr(\d+(?:\.\d+)?)_(\d+)team\.(csv|json)$/i;
+
+/** Parse the snapshot date and format out of a dump filename. */
+export function parseDumpFilename(
+  filename: string,
+): { date: Date; config: FantasyCalcConfig; ext: "csv" | "json" } | null {
+  const match = path.basename(filename).match(FILENAME_RE);
+  if (!match) return null;
+  const [, dateStr, qbs, ppr, teams, ext] = match;
+  const date = new Date(`${dateStr}T00:00:00.000Z`);
+  if (isNaN(date.getTime())) return null;
+  const isSuperFlex = qbs.toLowerCase() === "sf";
+  return {
+    date,
+    config: {
+      isSuperFlex,
+      ppr: Number(ppr),
+      numTeams: Number(teams),
+      numQbs: isSuperFlex ? 2 : 1,
+    },
+    ext: ext.toLowerCase() as "csv" | "json",
+  };
+}
+
+function toNumberOrNull(v: unknown): number | null {
+  if (v === null || v === undefined || v === "") return null;
+  const n = Number(v);
+  return Number.isFinite(n) ? n : null;
+}
+
+function toStringOrNull(v: unknown): string | null {
+  if (v === null || v === undefined) return null;
+  const s = String(v).trim();
+  return s === "" ? null : s;
+}
+
+function toEntry(raw: Record<string, unknown>): DumpEntry | null {
+  // Saved API responses nest player fields under `player`.
+  const player = (raw.player ?? null) as Record<string, unknown> | null;
+  const name = toStringOrNull(player?.name ?? raw.name);
+  const value = toNumberOrNull(raw.value);
+  if (!name || value === null) return null;
+  return {
+    name,
+    position: toStringOrNull(player?.position ?? raw.position),
+    team: toStringOrNull(player?.maybeTeam ?? raw.team),
+    value,
+    rank: toNumberOrNull(raw.overallRank ?? raw.rank),
+    positionRank: toNumberOrNull(raw.positionRank),
+    sleeperId: toStringOrNull(player?.sleeperId ?? raw.sleeperId),
+  };
+}
+
+/** Parse one dump file's contents. Throws on an unrecognized filename. */
+export function parseDumpFile(filename: string, text: string): DumpFile {
+  const meta = parseDumpFilename(filename);
+  if (!meta) {
+    throw new Error(
+      `Unrecognized filename "${path.basename(filename)}" (expected YYYY-MM-DD_{sf|1qb}_ppr{N}_{N}team.{csv|json})`,
+    );
+  }
+
+  const rawRows: Record<string, unknown>[] =
+    meta.ext === "json"
+      ? (JSON.parse(text) as Record<string, unknown>[])
+      : (parse(text, {
+          columns: true,
+          skip_empty_lines: true,
+          trim: true,
+        }) as Record<string, unknown>[]);
+
+  if (!Array.isArray(rawRows)) {
+    throw new Error(`Expected an array of entries in ${filename}`);
+  }
+
+  const entries: DumpEntry[] = [];
+  for (const raw of rawRows) {
+    const entry = toEntry(raw);
+    if (entry) entries.push(entry);
+  }
+  return { date: meta.date, config: meta.config, entries };
+}
+
+/** Expand CLI paths into dump files, sorted so imports run oldest-first. */
+export function collectDumpFiles(paths: string[]): string[] {
+  const files: string[] = [];
+  for (const p of paths) {
+    if (fs.statSync(p).isDirectory()) {
+      for (const name of fs.readdirSync(p)) {
+        if (FILENAME_RE.test(name)) files.push(path.join(p, name));
+      }
+    } else {
+      files.push(p);
+    }
+  }
+  return files.sort((a, b) => path.basename(a).localeCompare(path.basename(b)));
+}
+
+type HistoryRow = typeof schema.fantasyCalcValueHistory.$inferInsert;
+
+/**
+ * Map a parsed dump to history rows. Returns the rows plus the names that
+ * could not be matched to a Sleeper id.
+ */
+export function buildHistoryRows(
+  dump: DumpFile,
+  resolveSleeperId: (name: string, position?: string | null) => string | null,
+): { rows: HistoryRow[]; unmatched: string[]; picks: number } {
+  const rows: HistoryRow[] = [];
+  const unmatched: string[] = [];
+  let picks = 0;
+
+  for (const e of dump.entries) {
+    const isPick = e.position === "PICK";
+    const playerId = isPick
+      ? fantasyCalcPickId(e.name)
+      : (e.sleeperId ?? resolveSleeperId(e.name, e.position));
+    if (!playerId) {
+      unmatched.push(e.position ? `${e.name} (${e.position})` : e.name);
+      continue;
+    }
+    if (isPick) picks++;
+    rows.push({
+      playerId,
+      ...dump.config,
+      playerName: e.name,
+      value: e.value,
+      rank: e.rank,
+      positionRank: e.positionRank,
+      position: e.position,
+      team: isPick ? null : e.team,
+      fetchedAt: dump.date,
+      source: "import",
+    });
+  }
+
+  return { rows, unmatched, picks };
+}
+
+export async function run(
+  argv: string[],
+  deps: {
+    db?: ReturnType<typeof getDb>;
+    loadPlayers?: () => Promise<SleeperPlayerRef[]>;
+    log?: (msg: string) => void;
+  } = {},
+): Promise<RunStats> {
+  const apply = argv.includes("--apply");
+  const help = argv.includes("--help") || argv.includes("-h");
+  const inputs = argv.filter((a) => !a.startsWith("-"));
+  const log = deps.log ?? ((msg: string) => console.log(msg));
+  const stats: RunStats = {
+    files: 0,
+    imported: 0,
+    unmatched: 0,
+    failed: 0,
+    reports: [],
+  };
+
+  if (help || inputs.length === 0) {
+    log(
+      "Usage: import-fantasycalc-history <dir|file>... [--apply]\n" +
+        "  Files: YYYY-MM-DD_{sf|1qb}_ppr{N}_{N}team.{csv|json}\n" +
+        "  --apply  Persist rows. Without it, parses and reports only.",
+    );
+    return stats;
+  }
+
+  const db = deps.db ?? getDb();
+  const loadPlayers =
+    deps.loadPlayers ??
+    (() =>
+      db
+        .select({
+          id: schema.players.id,
+          name: schema.players.name,
+          position: schema.players.position,
+        })
+        .from(schema.players));
+
+  const resolveSleeperId = buildSleeperIdResolver(await loadPlayers());
+  const files = collectDumpFiles(inputs);
+  stats.files = files.length;
+
+  for (const file of files) {
+    const label = path.basename(file);
+    try {
+      const dump = parseDumpFile(file, fs.readFileSync(file, "utf8"));
+      const { rows, unmatched, picks } = buildHistoryRows(
+        dump,
+        resolveSleeperId,
+      );
+      const report: FileReport = {
+        file: label,
+        date: dump.date.toISOString().slice(0, 10),
+        rows: dump.entries.length,
+        matched: rows.length - picks,
+        picks,
+        unmatched,
+      };
+      stats.reports.push(report);
+      stats.unmatched += unmatched.length;
+
+      if (apply) {
+        const { isSuperFlex, ppr, numTeams, numQbs } = dump.config;
+        await db
+          .delete(schema.fantasyCalcValueHistory)
+          .where(
+            and(
+              eq(schema.fantasyCalcValueHistory.isSuperFlex, isSuperFlex),
+              eq(schema.fantasyCalcValueHistory.ppr, ppr),
+              eq(schema.fantasyCalcValueHistory.numTeams, numTeams),
+              eq(schema.fantasyCalcValueHistory.numQbs, numQbs),
+              eq(schema.fantasyCalcValueHistory.fetchedAt, dump.date),
+              eq(schema.fantasyCalcValueHistory.source, "import"),
+            ),
+          );
+        const BATCH_SIZE = 100;
+        for (let i = 0; i < rows.length; i += BATCH_SIZE) {
+          await db
+            .insert(schema.fantasyCalcValueHistory)
+            .values(rows.slice(i, i + BATCH_SIZE));
+        }
+      }
+      stats.imported += rows.length;
+
+      log(
+        `  ${apply ? "+" : "."} ${label}: ${report.matched} players + ${picks} picks` +
+          (unmatched.length > 0 ? `, ${unmatched.length} unmatched` : ""),
+      );
+      for (const name of unmatched) {
+        log(`      ? ${name}`);
+      }
+    } catch (err) {
+      stats.failed++;
+      const msg = err instanceof Error ? err.message : String(err);
+      stats.reports.push({
+        file: label,
+        date: "",
+        rows: 0,
+        matched: 0,
+        picks: 0,
+        unmatched: [],
+        error: msg,
+      });
+      log(`  ! ${label}: ${msg}`);
+    }
+  }
+
+  log(
+    `\nDone. files=${stats.files} rows=${stats.imported} unmatched=${stats.unmatched} failed=${stats.failed}` +
+      (apply ? "" : " (dry-run)"),
+  );
+
+  return stats;
+}
+
+// CLI entry — only executes when invoked directly via tsx / node.
+if (require.main === module) {
+  run(process.argv.slice(2)).then(
+    (stats) => process.exit(stats.failed > 0 ? 1 : 0),
+    (err) => {
+      console.error(err);
+      process.exit(1);
+    },
+  );
+}
@@ -316,6 +316,11 @@ export function installSleeperMock(opts: MockOptions = {}): InstallResult {
       { r: 1, m: 1, t1: 1, t2: 2, w: 1, l: 2 },
     ]);
 
+  S.getLosersBracket = (_leagueId: string) =>
+    track(`/league/{id}/losers_bracket`, latencyMs, () => [
+      { r: 1, m: 1, t1: 3, t2: 4, w: 3, l: 4, p: 1 },
+    ]);
+
   // Auxiliary endpoints — only `getPlayers` is in the cold-sync path (called
   // by syncPlayers). The others exist so any caller that happens to invoke
   // them gets a valid empty shape rather than hitting Sleeper.
@@ -10,6 +10,8 @@
  * Usage:
  *   npm run sync:family -- <leagueIdOrFamilyId>
  *   npm run sync:family -- <leagueIdOrFamilyId> --force
+ *   npm run sync:family -- <leagueIdOrFamilyId> --record=<dir>
+ *   npm run sync:family -- <leagueIdOrFamilyId> --replay=<dir>
  *   npm run sync:family -- --help
  *
  * Notes:
@@ -19,23 +21,37 @@
  *   - `--force` deletes the family's `lastSyncedAt` markers so
  *     `syncLeagueFamily` re-syncs every season instead of skipping the
  *     7-day fresh window.
+ *   - `--record=<dir>` writes every raw Sleeper response under `<dir>`;
+ *     `--replay=<dir>` serves the sync from those files with no network
+ *     (see src/lib/sleeper/responseStore.ts). Replaying a bad sync against
+ *     the dev DB reproduces it without live API access.
  */
 import { syncLeagueFamily } from "../src/services/sync";
 import { ensureLeagueFamily } from "../src/services/leagueFamily";
 import { getDb, schema } from "../src/db";
+import {
+  createFileResponseStore,
+  setSleeperResponseStore,
+} from "../src/lib/sleeper/responseStore";
 import { eq, inArray } from "drizzle-orm";
 
 export interface ParsedArgs {
   help: boolean;
   force: boolean;
   id: string | null;
+  /** Directory to record Sleeper responses into */
+  record: string | null;
+  /** Directory to replay Sleeper responses from */
+  replay: string | null;
 }
 
 export function parseArgs(argv: string[]): ParsedArgs {
-  const out: ParsedArgs = { help: false, force: false, id: null };
+  const out: ParsedArgs = { help: false, force: false, id: null, record: null, replay: null };
   for (const a of argv) {
     if (a === "--help" || a === "-h") out.help = true;
     else if (a === "--force") out.force = true;
+    else if (a.startsWith("--record=")) out.record = a.slice("--record=".length) || null;
+    else if (a.startsWith("--replay=")) out.replay = a.slice("--replay=".length) || null;
     else if (!a.startsWith("--") && out.id === null) out.id = a;
   }
   return out;
@@ -46,11 +62,15 @@ export const HELP_TEXT = `sync-family — manually sync a league family
 Usage:
   npm run sync:family -- <leagueIdOrFamilyId>
   npm run sync:family -- <leagueIdOrFamilyId> --force
+  npm run sync:family -- <leagueIdOrFamilyId> --record=<dir>
+  npm run sync:family -- <leagueIdOrFamilyId> --replay=<dir>
   npm run sync:family -- --help
 
 Options:
-  --force   Re-sync completed seasons even if they were synced recently
-  --help    Print this message
+  --force         Re-sync completed seasons even if they were synced recently
+  --record=<dir>  Save every raw Sleeper response as JSON under <dir>
+  --replay=<dir>  Serve Sleeper responses from <dir>; no network calls
+  --help          Print this message
 
 The script picks up DATABASE_URL/DATABASE_URL_DEV from .env.local. To run
 against the dev Neon branch, set DATABASE_URL_DEV in .env.local; to hit
@@ -137,12 +157,21 @@ export async function run(
     return 1;
   }
 
+  if (args.record && args.replay) {
+    err("error: --record and --replay are mutually exclusive");
+    return 1;
+  }
+  if (args.record) setSleeperResponseStore(createFileResponseStore(args.record), "record");
+  if (args.replay) setSleeperResponseStore(createFileResponseStore(args.replay), "replay");
+
   const resolveFamilyAndLeagues =
     deps.resolveFamilyAndLeagues ?? defaultResolveFamilyAndLeagues;
   const sync = deps.syncLeagueFamily ?? syncLeagueFamily;
 
   log(
-    `[sync-family] target=${args.id} force=${args.force ? "true" : "false"}`
+    `[sync-family] target=${args.id} force=${args.force ? "true" : "false"}` +
+      (args.record ? ` record=${args.record}` : "") +
+      (args.replay ? ` replay=${args.replay}` : "")
   );
 
   try {
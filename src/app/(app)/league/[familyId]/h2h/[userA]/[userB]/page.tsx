@@ -0,0 +1,365 @@
+"use client";
+
+import { type ReactNode, useEffect, useState } from "react";
+import { useParams } from "next/navigation";
+import Link from "next/link";
+import { ArrowLeftRight, Swords } from "lucide-react";
+import { GradeBadge } from "@/components/GradeBadge";
+import { ManagerRadarChart } from "@/components/ManagerRadarChart";
+import { ManagerName } from "@/components/ManagerName";
+import { Subheader } from "@/components/Subheader";
+import { formatDate } from "@/components/graph/transactionHeader";
+import { PILLAR_KEYS, PILLAR_LABELS } from "@/lib/pillars";
+import { ordinal } from "@/lib/utils";
+import type {
+  HeadToHead,
+  HeadToHeadManager,
+  HeadToHeadPlayoffMeeting,
+  HeadToHeadWinner,
+} from "@/services/headToHead";
+
+export default function HeadToHeadPage() {
+  const params = useParams();
+  const familyId = params.familyId as string;
+  const userA = params.userA as string;
+  const userB = params.userB as string;
+
+  const [data, setData] = useState<HeadToHead | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+    async function loadData() {
+      setLoading(true);
+      try {
+        const res = await fetch(`/api/leagues/${familyId}/h2h/${userA}/${userB}`);
+        if (!cancelled) setData(res.ok ? await res.json() : null);
+      } catch (err) {
+        console.error("Failed to load head-to-head:", err);
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    }
+    loadData();
+    return () => {
+      cancelled = true;
+    };
+  }, [familyId, userA, userB]);
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-pulse text-muted-foreground">
+          Loading rivalry...
+        </div>
+      </div>
+    );
+  }
+
+  if (!data) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <p className="text-muted-foreground">Rivalry not found</p>
+      </div>
+    );
+  }
+
+  return <HeadToHeadContent data={data} familyId={familyId} />;
+}
+
+function HeadToHeadContent({ data, familyId }: { data: HeadToHead; familyId: string }) {
+  const { managerA, managerB, record } = data;
+  const nameOf = (w: HeadToHeadWinner | null) =>
+    w === "a" ? managerA.displayName : w === "b" ? managerB.displayName : null;
+
+  return (
+    <div>
+      <Subheader
+        title={
+          <div className="flex items-center gap-2 min-w-0">
+            <h1 className="text-base sm:text-lg md:text-xl font-semibold line-clamp-1 inline-flex items-center gap-2">
+              <Swords className="h-5 w-5 text-primary shrink-0" aria-hidden="true" />
+              <ManagerLink familyId={familyId} manager={managerA} />
+              <span className="text-muted-foreground font-normal">vs</span>
+              <ManagerLink familyId={familyId} manager={managerB} />
+            </h1>
+          </div>
+        }
+        rightSlot={
+          <Link
+            href={`/league/${familyId}/h2h/${managerB.userId}/${managerA.userId}`}
+            className="inline-flex items-center gap-1.5 text-sm text-muted-foreground hover:text-foreground"
+          >
+            <ArrowLeftRight className="h-4 w-4" aria-hidden="true" />
+            Swap sides
+          </Link>
+        }
+      />
+
+      <main className="max-w-4xl mx-auto px-4 sm:px-6 py-6 sm:py-8 space-y-6 sm:space-y-8">
+        <section className="grid grid-cols-1 sm:grid-cols-3 gap-3 sm:gap-4">
+          <div className="border rounded-lg p-4 flex flex-col gap-3">
+            <TileLabel>Regular season</TileLabel>
+            <StatBlock
+              value={
+                record.ties > 0
+                  ? `${record.winsA}-${record.winsB}-${record.ties}`
+                  : `${record.winsA}-${record.winsB}`
+              }
+              label={`${managerA.displayName} W-L${record.ties > 0 ? "-T" : ""}`}
+            />
+          </div>
+          <div className="border rounded-lg p-4 flex flex-col gap-3">
+            <TileLabel>Points</TileLabel>
+            <div className="flex items-center divide-x divide-border/60">
+              <StatBlock
+                value={fmtPoints(record.pointsA)}
+                label={managerA.displayName}
+                className="px-3 first:pl-0 last:pr-0"
+              />
+              <StatBlock
+                value={fmtPoints(record.pointsB)}
+                label={managerB.displayName}
+                className="px-3 first:pl-0 last:pr-0"
+              />
+            </div>
+          </div>
+          <div className="border rounded-lg p-4 flex flex-col gap-3">
+            <TileLabel>Playoffs</TileLabel>
+            <div className="flex items-center divide-x divide-border/60">
+              <StatBlock
+                value={data.playoffs.length}
+                label="Meetings"
+                className="px-3 first:pl-0 last:pr-0"
+              />
+              <StatBlock
+                value={data.trades.length}
+                label="Trades"
+                className="px-3 first:pl-0 last:pr-0"
+              />
+            </div>
+          </div>
+        </section>
+
+        <section className="grid grid-cols-1 md:grid-cols-2 gap-4 sm:gap-6">
+          <div className="border rounded-lg p-4">
+            <h2 className="text-sm font-medium text-muted-foreground mb-2">
+              Manager DNA
+            </h2>
+            <ManagerRadarChart
+              pillarScores={data.pillarsA}
+              name={managerA.displayName}
+              compare={{ name: managerB.displayName, pillarScores: data.pillarsB }}
+            />
+          </div>
+          <div className="border rounded-lg p-4">
+            <h2 className="text-sm font-medium text-muted-foreground mb-3">
+              Pillars
+            </h2>
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-[10px] font-mono uppercase tracking-wide text-muted-foreground">
+                  <th className="text-left font-normal pb-2" />
+                  <th className="text-right font-normal pb-2">{managerA.displayName}</th>
+                  <th className="text-right font-normal pb-2">{managerB.displayName}</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-border/60">
+                {PILLAR_KEYS.map((key) => (
+                  <tr key={key}>
+                    <td className="py-2">{PILLAR_LABELS[key]}</td>
+                    <td className="py-2 text-right">
+                      <PillarCell score={data.pillarsA[key]} />
+                    </td>
+                    <td className="py-2 text-right">
+                      <PillarCell score={data.pillarsB[key]} />
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </section>
+
+        {data.playoffs.length > 0 && (
+          <Section title="Playoff meetings">
+            <ul className="divide-y divide-border/60">
+              {data.playoffs.map((m) => (
+                <li
+                  key={`${m.season}:${m.round}:${m.placement ?? ""}`}
+                  className="py-2 flex items-center justify-between gap-3 text-sm"
+                >
+                  <span>
+                    <span className="font-mono text-muted-foreground mr-2">{m.season}</span>
+                    {playoffLabel(m)}
+                  </span>
+                  <span className="font-mono tabular-nums">
+                    {m.pointsA !== null && m.pointsB !== null
+                      ? `${fmtPoints(m.pointsA)} – ${fmtPoints(m.pointsB)}`
+                      : null}
+                    {nameOf(m.winner) && (
+                      <span className="ml-2 font-sans text-muted-foreground">
+                        {nameOf(m.winner)} won
+                      </span>
+                    )}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </Section>
+        )}
+
+        <Section title="Games">
+          {data.games.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              They haven&apos;t met in the regular season yet.
+            </p>
+          ) : (
+            <ul className="divide-y divide-border/60">
+              {data.games.map((g) => (
+                <li
+                  key={`${g.season}:${g.week}`}
+                  className="py-2 flex items-center justify-between gap-3 text-sm"
+                >
+                  <span className="font-mono text-muted-foreground">
+                    {g.season} · W{g.week}
+                  </span>
+                  <span className="font-mono tabular-nums">
+                    <span className={g.winner === "a" ? "font-semibold" : undefined}>
+                      {fmtPoints(g.pointsA)}
+                    </span>
+                    {" – "}
+                    <span className={g.winner === "b" ? "font-semibold" : undefined}>
+                      {fmtPoints(g.pointsB)}
+                    </span>
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </Section>
+
+        <Section title="Trades">
+          {data.trades.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              They&apos;ve never traded with each other.
+            </p>
+          ) : (
+            <>
+              <p className="text-xs font-mono text-muted-foreground mb-3">
+                Value received: {managerA.displayName}{" "}
+                {data.tradeTotals.valueToA.toLocaleString()} · {managerB.displayName}{" "}
+                {data.tradeTotals.valueToB.toLocaleString()}
+              </p>
+              <ul className="space-y-2">
+                {data.trades.map((tx) => (
+                  <li key={tx.transactionId} className="border rounded-lg p-3 space-y-2">
+                    <div className="flex items-center justify-between">
+                      <span className="font-mono text-xs text-muted-foreground">
+                        {formatDate(tx.createdAt, tx.season, tx.week)}
+                      </span>
+                      <Link
+                        href={`/league/${familyId}/graph?seedTransactionId=${tx.transactionId}&from=manager`}
+                        className="text-xs text-primary hover:underline"
+                      >
+                        Trace in graph
+                      </Link>
+                    </div>
+                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                      {[managerA, managerB].map((m) => {
+                        const side = tx.sides.find((s) => s.userId === m.userId);
+                        return (
+                          <div key={m.userId} className="text-sm">
+                            <p className="flex items-center gap-2 font-medium">
+                              {m.displayName} got
+                              {side?.grade && <GradeBadge grade={side.grade} size="xs" />}
+                            </p>
+                            <p className="text-muted-foreground">
+                              {side && side.received.length > 0
+                                ? side.received.join(", ")
+                                : "nothing"}
+                            </p>
+                          </div>
+                        );
+                      })}
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            </>
+          )}
+        </Section>
+      </main>
+    </div>
+  );
+}
+
+function ManagerLink({ familyId, manager }: { familyId: string; manager: HeadToHeadManager }) {
+  return (
+    <Link href={`/league/${familyId}/manager/${manager.userId}`} className="hover:underline">
+      <ManagerName
+        userId={manager.userId}
+        displayName={manager.displayName}
+        teamName={manager.teamName}
+      />
+    </Link>
+  );
+}
+
+function PillarCell({ score }: { score: HeadToHead["pillarsA"][string] }) {
+  if (!score) return <span className="text-muted-foreground">—</span>;
+  return (
+    <span className="inline-flex items-center gap-2">
+      <span className="font-mono text-xs text-muted-foreground tabular-nums">
+        {Math.round(score.percentile)}
+      </span>
+      <GradeBadge grade={score.grade} size="xs" />
+    </span>
+  );
+}
+
+function Section({ title, children }: { title: string; children: ReactNode }) {
+  return (
+    <section className="border rounded-lg p-4">
+      <h2 className="text-sm font-medium text-muted-foreground mb-3">{title}</h2>
+      {children}
+    </section>
+  );
+}
+
+function TileLabel({ children }: { children: ReactNode }) {
+  return (
+    <div className="text-[11px] font-mono uppercase tracking-wide text-muted-foreground">
+      {children}
+    </div>
+  );
+}
+
+function StatBlock({
+  value,
+  label,
+  className,
+}: {
+  value: ReactNode;
+  label: ReactNode;
+  className?: string;
+}) {
+  return (
+    <div className={`min-w-0 flex-1 ${className ?? ""}`}>
+      <div className="text-2xl font-bold font-mono tabular-nums">{value}</div>
+      <div className="text-[10px] font-mono uppercase tracking-wide text-muted-foreground mt-0.5 truncate">
+        {label}
+      </div>
+    </div>
+  );
+}
+
+function fmtPoints(n: number): string {
+  return n.toLocaleString(undefined, { maximumFractionDigits: 1 });
+}
+
+function playoffLabel(m: HeadToHeadPlayoffMeeting): string {
+  if (m.placement === 1) return "Championship";
+  if (m.placement !== null) return `${ordinal(m.placement)}-place game`;
+  return `Playoff round ${m.round}`;
+}
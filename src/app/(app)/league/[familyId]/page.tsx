@@ -8,6 +8,7 @@ import { ChampionshipTrophies } from "@/components/ChampionshipTrophy";
 import { Subheader } from "@/components/Subheader";
 import { BrandMark } from "@/components/BrandMark";
 import { useFlag } from "@/lib/useFlag";
+import { ordinal } from "@/lib/utils";
 
 interface Roster {
   rosterId: number;
@@ -19,6 +20,8 @@ interface Roster {
   fptsAgainst: number;
   seasonsPlayed: number;
   championshipYears: string[];
+  /** Final 1..N finishes, including consolation placements */
+  finishes: Array<{ season: string; place: number }>;
 }
 
 interface LeagueUser {
@@ -42,8 +45,53 @@ interface LeagueOverviewData {
   users: LeagueUser[];
 }
 
+interface RosterOdds {
+  rosterId: number;
+  ownerId: string | null;
+  playoffOdds: number;
+  byeOdds: number;
+  championOdds: number;
+  expectedWins: number;
+  draftSlotOdds: number[];
+}
+
+interface SeasonOddsData {
+  season: string;
+  status: string | null;
+  iterations: number;
+  weeksRemaining: number;
+  rosters: RosterOdds[];
+}
+
 const ALL_TIME = "all";
 
+function formatOdds(p: number): string {
+  if (p === 0) return "—";
+  if (p < 0.01) return "<1%";
+  if (p > 0.99 && p < 1) return ">99%";
+  return `${Math.round(p * 100)}%`;
+}
+
+/** Most likely next-draft slot, e.g. "1.03 (41%)". */
+function likelyPick(odds: RosterOdds): string {
+  let best = 0;
+  odds.draftSlotOdds.forEach((p, i) => {
+    if (p > odds.draftSlotOdds[best]) best = i;
+  });
+  const p = odds.draftSlotOdds[best] ?? 0;
+  if (p === 0) return "—";
+  return `1.${String(best + 1).padStart(2, "0")} (${formatOdds(p)})`;
+}
+
+/** Season view: "3rd". All-time: average finish across decided seasons. */
+function formatFinish(roster: Roster, isAllTime: boolean): string {
+  if (roster.finishes.length === 0) return "—";
+  if (!isAllTime) return ordinal(roster.finishes[0].place);
+  const avg =
+    roster.finishes.reduce((sum, f) => sum + f.place, 0) / roster.finishes.length;
+  return avg.toFixed(1);
+}
+
 export default function LeagueOverviewPage() {
   const params = useParams();
   const router = useRouter();
@@ -54,6 +102,7 @@ export default function LeagueOverviewPage() {
   const [data, setData] = useState<LeagueOverviewData | null>(null);
   const [loading, setLoading] = useState(true);
   const [autoSyncing, setAutoSyncing] = useState(false);
+  const [odds, setOdds] = useState<SeasonOddsData | null>(null);
   const graphEnabled = useFlag("ASSET_GRAPH_BROWSER");
 
   const loadLeagueData = useCallback(async () => {
@@ -92,6 +141,13 @@ export default function LeagueOverviewPage() {
     loadLeagueData();
   }, [loadLeagueData]);
 
+  useEffect(() => {
+    fetch(`/api/leagues/${familyId}/odds`)
+      .then((res) => (res.ok ? res.json() : null))
+      .then(setOdds)
+      .catch(() => setOdds(null));
+  }, [familyId]);
+
   function setSeason(value: string) {
     const sp = new URLSearchParams(searchParams.toString());
     sp.set("season", value);
@@ -120,6 +176,10 @@ export default function LeagueOverviewPage() {
 
   const userMap = new Map(data.users.map((u) => [u.userId, u]));
   const standings = data.rosters;
+  const hasFinishes = standings.some((r) => r.finishes.length > 0);
+  const finishLabel = isAllTime ? "Avg finish" : "Finish";
+  const showOdds =
+    odds?.status === "in_season" && (isAllTime || seasonParam === odds.season);
 
   return (
     <div>
@@ -175,6 +235,11 @@ export default function LeagueOverviewPage() {
                   )}
                   <th className="px-4 py-3 font-medium text-right">PF</th>
                   <th className="px-4 py-3 font-medium text-right">PA</th>
+                  {hasFinishes && (
+                    <th className="px-4 py-3 font-medium text-right">
+                      {finishLabel}
+                    </th>
+                  )}
                 </tr>
               </thead>
               <tbody>
@@ -236,6 +301,11 @@ export default function LeagueOverviewPage() {
                       <td className="px-4 py-3 text-right font-mono text-sm">
                         {roster.fptsAgainst.toFixed(1)}
                       </td>
+                      {hasFinishes && (
+                        <td className="px-4 py-3 text-right font-mono text-sm">
+                          {formatFinish(roster, isAllTime)}
+                        </td>
+                      )}
                     </tr>
                   );
                 })}
@@ -290,6 +360,11 @@ export default function LeagueOverviewPage() {
                         {isAllTime && (
                           <Stat label="Seasons">{roster.seasonsPlayed}</Stat>
                         )}
+                        {hasFinishes && (
+                          <Stat label={finishLabel}>
+                            {formatFinish(roster, isAllTime)}
+                          </Stat>
+                        )}
                       </dl>
                     </div>
                   </div>
@@ -298,11 +373,109 @@ export default function LeagueOverviewPage() {
             })}
           </ul>
         </section>
+
+        {showOdds && (
+          <OddsPanel odds={odds} familyId={familyId} userMap={userMap} />
+        )}
       </main>
     </div>
   );
 }
 
+function OddsPanel({
+  odds,
+  familyId,
+  userMap,
+}: {
+  odds: SeasonOddsData;
+  familyId: string;
+  userMap: Map<string, LeagueUser>;
+}) {
+  const rows = [...odds.rosters].sort(
+    (a, b) =>
+      b.championOdds - a.championOdds ||
+      b.playoffOdds - a.playoffOdds ||
+      b.expectedWins - a.expectedWins,
+  );
+  const hasByes = rows.some((r) => r.byeOdds > 0);
+
+  return (
+    <section className="mt-8">
+      <h2 className="text-lg font-semibold mb-1">{odds.season} Odds</h2>
+      <p className="text-sm text-muted-foreground mb-4">
+        {odds.iterations.toLocaleString()} simulations
+        {odds.weeksRemaining > 0
+          ? ` of the last ${odds.weeksRemaining} regular-season week${odds.weeksRemaining === 1 ? "" : "s"} and playoffs`
+          : " of the playoffs"}
+      </p>
+
+      <div className="border rounded-lg overflow-x-auto">
+        <table className="w-full">
+          <thead className="bg-muted/50">
+            <tr className="text-left text-sm">
+              <th className="px-4 py-3 font-medium">Manager</th>
+              <th className="px-4 py-3 font-medium text-right">Proj. W</th>
+              <th className="px-4 py-3 font-medium text-right">Playoffs</th>
+              {hasByes && (
+                <th className="px-4 py-3 font-medium text-right">Bye</th>
+              )}
+              <th className="px-4 py-3 font-medium text-right">Title</th>
+              <th className="px-4 py-3 font-medium text-right whitespace-nowrap">
+                Likely pick
+              </th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((r) => {
+              const user = r.ownerId ? userMap.get(r.ownerId) : undefined;
+              return (
+                <tr key={r.rosterId} className="border-t">
+                  <td className="px-4 py-3">
+                    {r.ownerId ? (
+                      <Link
+                        href={`/league/${familyId}/manager/${r.ownerId}`}
+                        className="font-medium hover:text-primary transition-colors"
+                      >
+                        <ManagerName
+                          userId={r.ownerId}
+                          rosterId={r.rosterId}
+                          displayName={user?.displayName}
+                          teamName={user?.teamName}
+                        />
+                      </Link>
+                    ) : (
+                      <span className="text-muted-foreground">
+                        Roster {r.rosterId}
+                      </span>
+                    )}
+                  </td>
+                  <td className="px-4 py-3 text-right font-mono text-sm">
+                    {r.expectedWins.toFixed(1)}
+                  </td>
+                  <td className="px-4 py-3 text-right font-mono text-sm">
+                    {formatOdds(r.playoffOdds)}
+                  </td>
+                  {hasByes && (
+                    <td className="px-4 py-3 text-right font-mono text-sm">
+                      {formatOdds(r.byeOdds)}
+                    </td>
+                  )}
+                  <td className="px-4 py-3 text-right font-mono text-sm">
+                    {formatOdds(r.championOdds)}
+                  </td>
+                  <td className="px-4 py-3 text-right font-mono text-sm whitespace-nowrap">
+                    {likelyPick(r)}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </section>
+  );
+}
+
 function SeasonChip({
   active,
   onClick,
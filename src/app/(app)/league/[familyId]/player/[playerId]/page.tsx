@@ -16,7 +16,9 @@ import {
   CollapsibleSeasonTable,
   type CollapsibleSection,
 } from "@/components/CollapsibleSeasonTable";
+import { PlayerValueChart } from "@/components/PlayerValueChart";
 import { useFlag } from "@/lib/useFlag";
+import type { ValueHistoryResponse } from "@/app/api/leagues/[familyId]/player/[playerId]/value-history/route";
 
 interface Manager {
   userId: string;
@@ -130,6 +132,7 @@ export default function PlayerDetailPage() {
   const playerId = params.playerId as string;
 
   const [data, setData] = useState<WeeklyLogData | null>(null);
+  const [valueHistory, setValueHistory] = useState<ValueHistoryResponse | null>(null);
   const [loading, setLoading] = useState(true);
   const graphEnabled = useFlag("ASSET_GRAPH_BROWSER");
 
@@ -151,6 +154,12 @@ export default function PlayerDetailPage() {
       setData(await res.json());
     }
     setLoading(false);
+
+    // Secondary panel — the page renders without it
+    const historyRes = await fetch(
+      `/api/leagues/${familyId}/player/${playerId}/value-history`
+    );
+    setValueHistory(historyRes.ok ? await historyRes.json() : null);
   }
 
   // Season + manager filters narrow the headline stats; status filter only
@@ -346,6 +355,19 @@ export default function PlayerDetailPage() {
           )}
         </div>
 
+        {valueHistory &&
+          (valueHistory.values.length > 0 || valueHistory.production.length > 0) && (
+            <section className="mb-8 border rounded-lg bg-card p-4">
+              <div className="flex flex-wrap items-baseline justify-between gap-2 mb-3">
+                <TileLabel>Value over time</TileLabel>
+                <span className="text-xs text-muted-foreground">
+                  Dynasty value (left) · trailing PPG (right) · dashed lines are trades
+                </span>
+              </div>
+              <PlayerValueChart history={valueHistory} />
+            </section>
+          )}
+
         <div className="flex flex-wrap gap-x-4 gap-y-3 mb-6">
           {seasonsWithData.length > 1 && (
             <div className="flex flex-wrap gap-2">
@@ -0,0 +1,305 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+  ScatterChart,
+  Scatter,
+  XAxis,
+  YAxis,
+  Tooltip,
+  ResponsiveContainer,
+} from "recharts";
+import { formatDate } from "@/lib/utils";
+import { FilterChip } from "@/components/FilterChip";
+import { compareScorecards, type Scorecard } from "@/lib/scorecard";
+import type { DrilldownRow, ExperimentDetail } from "@/services/experimentDrilldown";
+
+/** Enough points to see the shape without shipping the whole run. */
+const SCATTER_LIMIT = 500;
+const RESIDUAL_ROWS = 10;
+/** Facets with more values than this are left to the API's query params. */
+const MAX_FACET_CHIPS = 8;
+/** Fields that identify a row, shown in the residual table when present. */
+const ID_FIELDS = ["kind", "id", "point", "leagueId", "rosterId"];
+
+export interface DrilldownRun {
+  id: string;
+  startedAt: string;
+  verdict: string | null;
+  scorecard: Scorecard | null;
+}
+
+function formatScore(v: unknown): string {
+  return typeof v === "number" ? (v % 1 !== 0 ? v.toFixed(3) : String(v)) : String(v ?? "—");
+}
+
+function SectionLabel({ children }: { children: React.ReactNode }) {
+  return (
+    <h4 className="text-[11px] font-semibold uppercase tracking-widest text-muted-foreground mb-2">
+      {children}
+    </h4>
+  );
+}
+
+// ============================================================
+// Scatter + residuals
+// ============================================================
+
+function FitScatter({ rows }: { rows: DrilldownRow[] }) {
+  const points = rows.filter(
+    (r): r is DrilldownRow & { predicted: number; actual: number } =>
+      typeof r.predicted === "number" && typeof r.actual === "number",
+  );
+  return (
+    <ResponsiveContainer width="100%" height={240}>
+      <ScatterChart margin={{ top: 8, right: 8, bottom: 16, left: 0 }}>
+        <XAxis
+          dataKey="predicted"
+          type="number"
+          name="Predicted"
+          domain={["auto", "auto"]}
+          tick={{ fill: "hsl(var(--muted-foreground))", fontSize: 11 }}
+          stroke="hsl(var(--border))"
+          label={{ value: "Predicted", position: "insideBottom", offset: -8, fontSize: 11, fill: "hsl(var(--muted-foreground))" }}
+        />
+        <YAxis
+          dataKey="actual"
+          type="number"
+          name="MOS"
+          domain={["auto", "auto"]}
+          tick={{ fill: "hsl(var(--muted-foreground))", fontSize: 11 }}
+          stroke="hsl(var(--border))"
+          width={44}
+        />
+        <Tooltip
+          cursor={{ strokeDasharray: "3 3" }}
+          contentStyle={{
+            background: "hsl(var(--card))",
+            border: "1px solid hsl(var(--border))",
+            fontSize: 12,
+          }}
+        />
+        <Scatter data={points} fill="rgb(var(--chart-1))" fillOpacity={0.6} />
+      </ScatterChart>
+    </ResponsiveContainer>
+  );
+}
+
+function ResidualTable({ rows }: { rows: DrilldownRow[] }) {
+  if (rows.length === 0) return null;
+  const idFields = ID_FIELDS.filter((f) => rows.some((r) => r[f] !== undefined));
+
+  return (
+    <div className="border rounded-md overflow-x-auto">
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="bg-muted/40">
+            {idFields.map((f) => (
+              <th key={f} className="text-left py-2 px-3 text-xs font-medium text-muted-foreground">
+                {f}
+              </th>
+            ))}
+            <th className="text-right py-2 px-3 text-xs font-medium text-muted-foreground">Predicted</th>
+            <th className="text-right py-2 px-3 text-xs font-medium text-muted-foreground">MOS</th>
+            <th className="text-right py-2 px-3 text-xs font-medium text-muted-foreground">Residual</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((r, i) => (
+            <tr key={i} className="border-t border-muted/30">
+              {idFields.map((f) => (
+                <td key={f} className="py-2 px-3 font-mono text-xs truncate max-w-[10rem]">
+                  {formatScore(r[f])}
+                </td>
+              ))}
+              <td className="py-2 px-3 text-right font-mono">{formatScore(r.predicted)}</td>
+              <td className="py-2 px-3 text-right font-mono">{formatScore(r.actual)}</td>
+              <td
+                className={`py-2 px-3 text-right font-mono ${(r.residual ?? 0) > 0 ? "text-grade-f" : "text-grade-b"}`}
+              >
+                {formatScore(r.residual)}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+// ============================================================
+// Run vs run
+// ============================================================
+
+function RunComparison({ current, previous }: { current: DrilldownRun; previous: DrilldownRun }) {
+  const rows = compareScorecards(current.scorecard, previous.scorecard);
+  if (rows.length === 0) {
+    return <p className="text-xs text-muted-foreground">Neither run has a scorecard.</p>;
+  }
+
+  return (
+    <div className="border rounded-md overflow-x-auto">
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="bg-muted/40">
+            <th className="text-left py-2 px-3 text-xs font-medium text-muted-foreground">Metric</th>
+            <th className="text-right py-2 px-3 text-xs font-medium text-muted-foreground">
+              {formatDate(previous.startedAt)} · {previous.verdict ?? "pending"}
+            </th>
+            <th className="text-right py-2 px-3 text-xs font-medium text-muted-foreground">
+              {formatDate(current.startedAt)} · {current.verdict ?? "pending"}
+            </th>
+            <th className="text-right py-2 px-3 text-xs font-medium text-muted-foreground">Change</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((m) => {
+            const better =
+              m.delta !== undefined && m.delta !== 0 && (m.delta > 0) === (m.direction === "higher");
+            return (
+              <tr key={`${m.section}:${m.name}`} className="border-t border-muted/30">
+                <td className="py-2 px-3 font-medium">{m.name}</td>
+                <td className="py-2 px-3 text-right font-mono text-muted-foreground">
+                  {formatScore(m.previous)}
+                </td>
+                <td className="py-2 px-3 text-right font-mono">{formatScore(m.current)}</td>
+                <td
+                  className={`py-2 px-3 text-right font-mono ${m.delta === undefined || m.delta === 0 ? "text-muted-foreground" : better ? "text-grade-a" : "text-grade-f"}`}
+                >
+                  {m.delta === undefined ? "—" : `${m.delta > 0 ? "+" : ""}${formatScore(m.delta)}`}
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+// ============================================================
+// Drill-down
+// ============================================================
+
+/**
+ * Why a run landed where it did: predicted vs. MOS for every drill-down
+ * row, the rows that fit worst, and a scorecard comparison against another
+ * run of the same eval.
+ */
+export function RunDrilldown({ run, others }: { run: DrilldownRun; others: DrilldownRun[] }) {
+  const [filters, setFilters] = useState<Record<string, string>>({});
+  const [scatter, setScatter] = useState<ExperimentDetail | null>(null);
+  const [worst, setWorst] = useState<DrilldownRow[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [compareId, setCompareId] = useState<string | null>(others[0]?.id ?? null);
+
+  useEffect(() => {
+    const params = (extra: Record<string, string>) =>
+      new URLSearchParams({ ...filters, ...extra }).toString();
+    const load = async (extra: Record<string, string>): Promise<ExperimentDetail> => {
+      const res = await fetch(`/api/experiments/${run.id}?${params(extra)}`);
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error ?? "Failed to load run");
+      return data;
+    };
+
+    let cancelled = false;
+    Promise.all([
+      load({ limit: String(SCATTER_LIMIT) }),
+      load({ sort: "residual", limit: String(RESIDUAL_ROWS) }),
+    ])
+      .then(([all, residuals]) => {
+        if (cancelled) return;
+        setScatter(all);
+        setWorst(residuals.fit ? residuals.rows : []);
+        setError(null);
+      })
+      .catch((e) => !cancelled && setError(e instanceof Error ? e.message : "Failed to load run"));
+    return () => {
+      cancelled = true;
+    };
+  }, [run.id, filters]);
+
+  const compared = others.find((o) => o.id === compareId);
+  const facets = Object.entries(scatter?.facets ?? {}).filter(
+    ([, values]) => values.length <= MAX_FACET_CHIPS,
+  );
+
+  return (
+    <div className="space-y-5">
+      {error && <p className="text-xs text-grade-f">{error}</p>}
+
+      {facets.map(([field, values]) => (
+        <div key={field} className="flex flex-wrap items-center gap-2">
+          <span className="text-xs text-muted-foreground w-16">{field}</span>
+          <FilterChip
+            active={filters[field] === undefined}
+            onClick={() =>
+              setFilters((f) => {
+                const next = { ...f };
+                delete next[field];
+                return next;
+              })
+            }
+          >
+            All
+          </FilterChip>
+          {values.map((v) => (
+            <FilterChip
+              key={v}
+              active={filters[field] === v}
+              onClick={() => setFilters((f) => ({ ...f, [field]: v }))}
+            >
+              {v}
+            </FilterChip>
+          ))}
+        </div>
+      ))}
+
+      {scatter && !scatter.fit && (
+        <p className="text-xs text-muted-foreground">
+          {scatter.total} raw rows, without predicted/actual pairs to plot. Use
+          &ldquo;Show JSON&rdquo; or the API for the full rows.
+        </p>
+      )}
+
+      {scatter?.fit && (
+        <div>
+          <SectionLabel>
+            Predicted vs. MOS{" "}
+            <span className="normal-case tracking-normal font-normal">
+              ({Math.min(scatter.total, SCATTER_LIMIT)} of {scatter.total})
+            </span>
+          </SectionLabel>
+          <FitScatter rows={scatter.rows} />
+        </div>
+      )}
+
+      {worst.length > 0 && (
+        <div>
+          <SectionLabel>
+            Worst fits{" "}
+            <span className="normal-case tracking-normal font-normal">
+              (positive: predicted above the outcome)
+            </span>
+          </SectionLabel>
+          <ResidualTable rows={worst} />
+        </div>
+      )}
+
+      {others.length > 0 && (
+        <div>
+          <SectionLabel>Compare with an earlier run</SectionLabel>
+          <div className="flex flex-wrap gap-2 mb-3">
+            {others.map((o) => (
+              <FilterChip key={o.id} active={o.id === compareId} onClick={() => setCompareId(o.id)}>
+                {formatDate(o.startedAt)}
+              </FilterChip>
+            ))}
+          </div>
+          {compared && <RunComparison current={run} previous={compared} />}
+        </div>
+      )}
+    </div>
+  );
+}
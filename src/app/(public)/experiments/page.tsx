@@ -1,28 +1,20 @@
 "use client";
 
-import { useEffect, useState, useMemo } from "react";
+import { useCallback, useEffect, useState, useMemo } from "react";
 import { formatDate } from "@/lib/utils";
+import { useFlag } from "@/lib/useFlag";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import type { Scorecard, ScorecardMetric } from "@/lib/scorecard";
+import type { ExperimentSummary } from "@/services/experimentRegistry";
+import type { ExperimentJobStatus } from "@/services/experimentRunner";
 import { EVAL_NOTES, type EvalNote, type EvalOutcome } from "./evalNotes";
+import { RunDrilldown } from "./RunDrilldown";
 
 // ============================================================
 // Types
 // ============================================================
 
-interface ScorecardMetric {
-  name: string;
-  value: number;
-  baseline?: number;
-  lift?: number;
-  unit: string;
-  direction: "higher" | "lower";
-}
-
-interface Scorecard {
-  primaryMetrics: ScorecardMetric[];
-  secondaryMetrics?: ScorecardMetric[];
-  guardrailMetrics?: ScorecardMetric[];
-}
-
 interface ExperimentRun {
   id: string;
   name: string;
@@ -193,6 +185,28 @@ function LiftCell({ metric }: { metric: ScorecardMetric }) {
   );
 }
 
+function IntervalCell({ metric }: { metric: ScorecardMetric }) {
+  if (!metric.ci) return <span className="text-muted-foreground">—</span>;
+
+  const { lower, upper, confidence } = metric.ci;
+  const straddles = metric.threshold !== undefined && lower <= metric.threshold && upper >= metric.threshold;
+  return (
+    <span
+      className={`font-mono text-xs ${straddles ? "text-grade-c" : "text-muted-foreground"}`}
+      title={
+        straddles
+          ? `The ${Math.round(confidence * 100)}% interval straddles the threshold (${metric.threshold})`
+          : `${Math.round(confidence * 100)}% bootstrap interval`
+      }
+    >
+      [{lower.toFixed(3)}, {upper.toFixed(3)}]
+      {metric.pValue !== undefined && (
+        <span className="block">p={metric.pValue < 0.001 ? "<0.001" : metric.pValue.toFixed(3)}</span>
+      )}
+    </span>
+  );
+}
+
 function ScorecardTable({
   metrics,
   label,
@@ -206,6 +220,7 @@ function ScorecardTable({
 
   const hasBaseline = metrics.some((m) => m.baseline !== undefined);
   const hasLift = metrics.some((m) => m.lift !== undefined);
+  const hasInterval = metrics.some((m) => m.ci !== undefined);
 
   const headerColor =
     variant === "primary"
@@ -241,6 +256,11 @@ function ScorecardTable({
                   Lift
                 </th>
               )}
+              {hasInterval && (
+                <th className="text-right py-2 px-3 text-xs font-medium text-muted-foreground">
+                  Interval
+                </th>
+              )}
               <th className="text-right py-2 px-3 text-xs font-medium text-muted-foreground w-20">
                 Unit
               </th>
@@ -269,6 +289,11 @@ function ScorecardTable({
                     <LiftCell metric={m} />
                   </td>
                 )}
+                {hasInterval && (
+                  <td className="py-2.5 px-3 text-right">
+                    <IntervalCell metric={m} />
+                  </td>
+                )}
                 <td className="py-2.5 px-3 text-right text-xs text-muted-foreground">
                   {m.unit}
                 </td>
@@ -311,7 +336,17 @@ function ScorecardSection({ scorecard }: { scorecard: Scorecard }) {
 // Eval card
 // ============================================================
 
-function EvalCard({ run, note }: { run: ExperimentRun; note?: EvalNote }) {
+function EvalCard({
+  run,
+  note,
+  others,
+}: {
+  run: ExperimentRun;
+  note?: EvalNote;
+  /** Earlier runs of the same eval, newest first */
+  others: ExperimentRun[];
+}) {
+  const [showDrilldown, setShowDrilldown] = useState(false);
   const [showDetails, setShowDetails] = useState(false);
   const [showRawJson, setShowRawJson] = useState(false);
 
@@ -376,6 +411,14 @@ function EvalCard({ run, note }: { run: ExperimentRun; note?: EvalNote }) {
             <span>{formatDuration(run.startedAt, run.finishedAt)}</span>
           </div>
           <div className="flex items-center gap-3">
+            {run.status === "success" && (
+              <button
+                onClick={() => setShowDrilldown(!showDrilldown)}
+                className="text-xs text-muted-foreground hover:text-foreground transition-colors"
+              >
+                {showDrilldown ? "Hide" : "Show"} drill-down
+              </button>
+            )}
             {run.metrics && Object.keys(run.metrics).length > 0 && (
               <button
                 onClick={() => setShowDetails(!showDetails)}
@@ -393,6 +436,12 @@ function EvalCard({ run, note }: { run: ExperimentRun; note?: EvalNote }) {
           </div>
         </div>
 
+        {showDrilldown && (
+          <div className="mt-3 pt-3 border-t border-muted/30">
+            <RunDrilldown run={run} others={others} />
+          </div>
+        )}
+
         {showDetails && run.metrics && (
           <div className="mt-3 pt-3 border-t border-muted/30">
             <pre className="text-xs bg-muted/50 rounded p-3 overflow-x-auto max-h-96">
@@ -462,33 +511,128 @@ function HowItWorks() {
   );
 }
 
+// ============================================================
+// Run panel
+// ============================================================
+
+/** Delay between ticks; each tick already spends up to 25s working. */
+const TICK_INTERVAL_MS = 1000;
+
+function RunPanel({
+  registry,
+  onFinished,
+}: {
+  registry: ExperimentSummary[];
+  onFinished: () => void;
+}) {
+  const [active, setActive] = useState<{ name: string; status: ExperimentJobStatus | null } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  async function run(name: string) {
+    setError(null);
+    setActive({ name, status: null });
+    try {
+      const res = await fetch("/api/experiments", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name }),
+      });
+      const started = await res.json();
+      if (!res.ok) throw new Error(started.error ?? "Failed to start eval");
+
+      for (;;) {
+        const tick = await fetch(`/api/experiments/${started.runId}/tick`, { method: "POST" });
+        const status: ExperimentJobStatus & { error?: string | null } = await tick.json();
+        if (!tick.ok) throw new Error(status.error ?? "Eval tick failed");
+        setActive({ name, status });
+        if (status.status === "failed") throw new Error(status.error ?? "Eval failed");
+        if (status.status === "completed") break;
+        await new Promise((r) => setTimeout(r, TICK_INTERVAL_MS));
+      }
+      onFinished();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Eval failed");
+    } finally {
+      setActive(null);
+    }
+  }
+
+  return (
+    <div className="mb-10 border rounded-lg p-4 bg-card">
+      <h2 className="text-sm font-semibold mb-3">Run an eval</h2>
+      <ul className="space-y-3">
+        {registry.map((exp) => {
+          const running = active?.name === exp.name;
+          const status = running ? active.status : null;
+          return (
+            <li key={exp.name} className="text-sm">
+              <div className="flex items-start justify-between gap-4">
+                <div>
+                  <div className="font-medium">{EVAL_NOTES[exp.name]?.title ?? formatName(exp.name)}</div>
+                  <p className="text-xs text-muted-foreground mt-0.5">{exp.hypothesis}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {exp.gridSize} grid points · correlated against {exp.target.toUpperCase()}
+                  </p>
+                </div>
+                <Button size="sm" variant="outline" disabled={active !== null} onClick={() => run(exp.name)}>
+                  {running ? "Running..." : "Run"}
+                </Button>
+              </div>
+              {running && (
+                <div className="mt-2">
+                  <Progress
+                    value={status && status.stagesTotal > 0 ? (status.stagesCompleted / status.stagesTotal) * 100 : 0}
+                  />
+                  <p className="text-xs text-muted-foreground mt-1">
+                    {status
+                      ? `${status.stagesCompleted} of ${status.stagesTotal} stages${status.currentStageLabel ? ` · ${status.currentStageLabel}` : ""}`
+                      : "Starting..."}
+                  </p>
+                </div>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+      {error && <p className="text-xs text-grade-f mt-3">{error}</p>}
+    </div>
+  );
+}
+
 // ============================================================
 // Page
 // ============================================================
 
 export default function EvalsPage() {
   const [runs, setRuns] = useState<ExperimentRun[]>([]);
+  const [registry, setRegistry] = useState<ExperimentSummary[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const runnerEnabled = useFlag("EXPERIMENT_RUNNER");
 
-  useEffect(() => {
+  const loadRuns = useCallback(() => {
     fetch("/api/experiments")
       .then((res) => res.json())
       .then((data) => {
         setRuns(data.runs || []);
+        setRegistry(data.registry || []);
         if (data.error) setError(data.error);
       })
       .catch(() => setError("Failed to load evals."))
       .finally(() => setLoading(false));
   }, []);
 
+  useEffect(() => {
+    loadRuns();
+  }, [loadRuns]);
+
   // Group by eval name, show only the most recent run per eval,
   // ordered by the editorial sequence in EVAL_NOTES (unknown names last).
-  const { evals, runCounts } = useMemo(() => {
+  const { evals, runsByName } = useMemo(() => {
     const latestByName = new Map<string, ExperimentRun>();
-    const counts = new Map<string, number>();
+    const byName = new Map<string, ExperimentRun[]>();
     for (const run of runs) {
-      counts.set(run.name, (counts.get(run.name) ?? 0) + 1);
+      byName.set(run.name, [...(byName.get(run.name) ?? []), run]);
       const existing = latestByName.get(run.name);
       if (!existing || new Date(run.startedAt) > new Date(existing.startedAt)) {
         latestByName.set(run.name, run);
@@ -499,7 +643,7 @@ export default function EvalsPage() {
       const orderB = EVAL_NOTES[b.name]?.order ?? Number.MAX_SAFE_INTEGER;
       return orderA !== orderB ? orderA - orderB : a.name.localeCompare(b.name);
     });
-    return { evals: ordered, runCounts: counts };
+    return { evals: ordered, runsByName: byName };
   }, [runs]);
 
   return (
@@ -520,6 +664,10 @@ export default function EvalsPage() {
 
         <HowItWorks />
 
+        {runnerEnabled && registry.length > 0 && (
+          <RunPanel registry={registry} onFinished={loadRuns} />
+        )}
+
         {loading && (
           <div className="text-center py-12 text-muted-foreground">
             Loading evals...
@@ -541,7 +689,10 @@ export default function EvalsPage() {
         <div className="space-y-8">
           {evals.map((run) => {
             const note = EVAL_NOTES[run.name];
-            const totalRuns = runCounts.get(run.name) ?? 1;
+            const others = (runsByName.get(run.name) ?? [])
+              .filter((r) => r.id !== run.id)
+              .sort((a, b) => new Date(b.startedAt).getTime() - new Date(a.startedAt).getTime());
+            const totalRuns = others.length + 1;
             return (
               <div key={run.name}>
                 <div className="flex items-baseline gap-2 mb-3">
@@ -554,7 +705,7 @@ export default function EvalsPage() {
                     </span>
                   )}
                 </div>
-                <EvalCard run={run} note={note} />
+                <EvalCard run={run} note={note} others={others} />
               </div>
             );
           })}
@@ -565,9 +716,11 @@ export default function EvalsPage() {
             <p className="text-xs text-muted-foreground leading-relaxed">
               <span className="font-medium text-foreground/70">Method notes:</span>{" "}
               predictiveness is measured with Spearman rank correlation against
-              MOS. Samples are league-seasons, not users — small by design, so
-              lifts are treated as directional evidence and weighed alongside
-              manual review of extreme cases, not read as significance tests.
+              MOS. Samples are league-seasons, not users — small by design.
+              Where a scorecard shows an interval, it is a 95% bootstrap
+              interval resampled by league-season, and a verdict whose interval
+              straddles its threshold is recorded as inconclusive rather than
+              read off the point estimate.
             </p>
             <p className="text-xs text-muted-foreground">
               The eval harness, per-eval scripts, and full methodology are open source:{" "}
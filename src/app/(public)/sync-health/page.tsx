@@ -0,0 +1,381 @@
+"use client";
+
+import Link from "next/link";
+import { useCallback, useEffect, useState } from "react";
+import { formatDate } from "@/lib/utils";
+import { useFlag } from "@/lib/useFlag";
+import { Button } from "@/components/ui/button";
+import { FilterChip } from "@/components/FilterChip";
+
+// ============================================================
+// Types (mirror src/services/syncHealth.ts)
+// ============================================================
+
+interface StageTiming {
+  key: string;
+  label: string;
+  ms: number;
+  finishedAt: string;
+}
+
+interface SyncJob {
+  id: string;
+  status: string;
+  trigger: string | null;
+  error: string | null;
+  apiCallsMade: number;
+  stagesCompleted: number;
+  stagesTotal: number | null;
+  currentStage: string | null;
+  stageTimings: StageTiming[];
+  startedAt: string;
+  finishedAt: string | null;
+  durationMs: number | null;
+  orphaned: boolean;
+}
+
+interface FamilyHealth {
+  ref: string;
+  familyId: string | null;
+  name: string | null;
+  jobs: SyncJob[];
+  failureStreak: number;
+  failing: boolean;
+  orphanedJobId: string | null;
+  running: boolean;
+  apiCallsMade: number;
+  backoff: { consecutiveFailures: number; totalFailures: number; lastError: string | null } | null;
+}
+
+interface SyncHealthReport {
+  families: FamilyHealth[];
+  jobsScanned: number;
+  failingStreak: number;
+  staleAfterMs: number;
+  generatedAt: string;
+}
+
+const TICK_INTERVAL_MS = 1000;
+
+// ============================================================
+// Utilities
+// ============================================================
+
+function formatMs(ms: number | null): string {
+  if (ms === null) return "—";
+  if (ms < 1000) return `${ms}ms`;
+  if (ms < 60_000) return `${(ms / 1000).toFixed(1)}s`;
+  return `${Math.floor(ms / 60_000)}m ${Math.round((ms % 60_000) / 1000)}s`;
+}
+
+function formatTime(iso: string): string {
+  return `${formatDate(iso, "compact")} ${new Date(iso).toLocaleTimeString("en-US", {
+    hour: "numeric",
+    minute: "2-digit",
+  })}`;
+}
+
+const STATUS_STYLES: Record<string, string> = {
+  success: "text-grade-a",
+  failed: "text-grade-f",
+  running: "text-grade-c",
+};
+
+function Flag({ tone, children }: { tone: "f" | "c" | "muted"; children: React.ReactNode }) {
+  const styles = {
+    f: "bg-grade-f/8 border-grade-f/25 text-grade-f",
+    c: "bg-grade-c/8 border-grade-c/25 text-grade-c",
+    muted: "bg-muted/40 border-muted text-muted-foreground",
+  };
+  return (
+    <span className={`text-[11px] font-medium px-2 py-0.5 rounded-full border ${styles[tone]}`}>
+      {children}
+    </span>
+  );
+}
+
+// ============================================================
+// Stage timings
+// ============================================================
+
+function StageTimings({ timings }: { timings: StageTiming[] }) {
+  if (timings.length === 0) {
+    return (
+      <p className="text-xs text-muted-foreground px-3 py-2">
+        No stage timings (not a chunked run, or it predates them).
+      </p>
+    );
+  }
+  const slowest = Math.max(...timings.map((t) => t.ms), 1);
+  return (
+    <ul className="space-y-1 px-3 py-2">
+      {timings.map((t, i) => (
+        <li key={`${t.key}:${i}`} className="flex items-center gap-3 text-xs">
+          <span className="w-48 truncate text-muted-foreground">{t.label}</span>
+          <span className="flex-1 h-1.5 bg-muted/40 rounded-full overflow-hidden">
+            <span
+              className="block h-full rounded-full"
+              style={{ width: `${(t.ms / slowest) * 100}%`, background: "rgb(var(--chart-1))" }}
+            />
+          </span>
+          <span className="w-16 text-right font-mono">{formatMs(t.ms)}</span>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+// ============================================================
+// Job table
+// ============================================================
+
+function JobTable({ jobs }: { jobs: SyncJob[] }) {
+  const [open, setOpen] = useState<string | null>(null);
+
+  return (
+    <div className="border rounded-md overflow-x-auto">
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="bg-muted/40">
+            <th className="text-left py-2 px-3 text-xs font-medium text-muted-foreground">Started</th>
+            <th className="text-left py-2 px-3 text-xs font-medium text-muted-foreground">Trigger</th>
+            <th className="text-left py-2 px-3 text-xs font-medium text-muted-foreground">Status</th>
+            <th className="text-right py-2 px-3 text-xs font-medium text-muted-foreground">Duration</th>
+            <th className="text-right py-2 px-3 text-xs font-medium text-muted-foreground">Stages</th>
+            <th className="text-right py-2 px-3 text-xs font-medium text-muted-foreground">API calls</th>
+          </tr>
+        </thead>
+        <tbody>
+          {jobs.map((job) => (
+            <JobRow
+              key={job.id}
+              job={job}
+              open={open === job.id}
+              onToggle={() => setOpen((id) => (id === job.id ? null : job.id))}
+            />
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+function JobRow({ job, open, onToggle }: { job: SyncJob; open: boolean; onToggle: () => void }) {
+  const status = job.orphaned ? "orphaned" : job.status;
+  return (
+    <>
+      <tr className="border-t border-muted/30 cursor-pointer hover:bg-muted/20" onClick={onToggle}>
+        <td className="py-2 px-3 whitespace-nowrap">{formatTime(job.startedAt)}</td>
+        <td className="py-2 px-3 text-muted-foreground">{job.trigger ?? "—"}</td>
+        <td className={`py-2 px-3 font-medium ${job.orphaned ? "text-grade-f" : STATUS_STYLES[job.status] ?? ""}`}>
+          {status}
+        </td>
+        <td className="py-2 px-3 text-right font-mono">{formatMs(job.durationMs)}</td>
+        <td className="py-2 px-3 text-right font-mono">
+          {job.stagesTotal ? `${job.stagesCompleted}/${job.stagesTotal}` : "—"}
+        </td>
+        <td className="py-2 px-3 text-right font-mono">{job.apiCallsMade}</td>
+      </tr>
+      {job.error && (
+        <tr>
+          <td colSpan={6} className="px-3 pb-2 text-xs text-grade-f break-words">
+            {job.error}
+          </td>
+        </tr>
+      )}
+      {open && (
+        <tr className="bg-muted/10">
+          <td colSpan={6}>
+            {job.status === "running" && job.currentStage && (
+              <p className="text-xs text-muted-foreground px-3 pt-2">Current stage: {job.currentStage}</p>
+            )}
+            <StageTimings timings={job.stageTimings} />
+          </td>
+        </tr>
+      )}
+    </>
+  );
+}
+
+// ============================================================
+// Family card
+// ============================================================
+
+function FamilyCard({ family, onSynced }: { family: FamilyHealth; onSynced: () => void }) {
+  const [syncing, setSyncing] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const { familyId } = family;
+
+  async function resync(familyId: string) {
+    setMessage(null);
+    setSyncing("Starting...");
+    try {
+      const res = await fetch("/api/sync/jobs", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ familyId }),
+      });
+      const started = await res.json();
+      if (res.status === 409) {
+        setMessage("A sync is already running for this family.");
+        return;
+      }
+      if (!res.ok) throw new Error(started.error ?? "Failed to start sync");
+
+      for (;;) {
+        const tick = await fetch(`/api/sync/jobs/${started.jobId}/tick`, { method: "POST" });
+        const status = await tick.json();
+        if (!tick.ok) throw new Error(status.error ?? "Sync tick failed");
+        if (status.status === "failed") throw new Error(status.error ?? "Sync failed");
+        if (status.status === "completed") break;
+        setSyncing(
+          `${status.stagesCompleted} of ${status.stagesTotal} stages${status.currentStageLabel ? ` · ${status.currentStageLabel}` : ""}`,
+        );
+        await new Promise((r) => setTimeout(r, TICK_INTERVAL_MS));
+      }
+      setMessage("Resync complete.");
+    } catch (e) {
+      setMessage(e instanceof Error ? e.message : "Sync failed");
+    } finally {
+      setSyncing(null);
+      onSynced();
+    }
+  }
+
+  return (
+    <div className="border rounded-lg p-4 bg-card">
+      <div className="flex items-start justify-between gap-4 mb-3">
+        <div>
+          <div className="flex flex-wrap items-center gap-2">
+            {familyId ? (
+              <Link href={`/league/${familyId}`} className="font-semibold hover:underline">
+                {family.name ?? familyId}
+              </Link>
+            ) : (
+              <span className="font-semibold">Unknown family</span>
+            )}
+            {family.failing && <Flag tone="f">{family.failureStreak} failed in a row</Flag>}
+            {family.orphanedJobId && <Flag tone="f">orphaned lock</Flag>}
+            {family.running && <Flag tone="c">running</Flag>}
+            {family.backoff && family.backoff.consecutiveFailures > 0 && (
+              <Flag tone="muted">cron backoff · {family.backoff.consecutiveFailures} failures</Flag>
+            )}
+          </div>
+          <p className="text-xs text-muted-foreground mt-0.5">
+            root {family.ref} · {family.apiCallsMade} API calls over {family.jobs.length} jobs
+          </p>
+        </div>
+        {familyId && (
+          <Button
+            size="sm"
+            variant="outline"
+            disabled={syncing !== null || family.running}
+            onClick={() => resync(familyId)}
+          >
+            {syncing ? "Syncing..." : "Force resync"}
+          </Button>
+        )}
+      </div>
+      {(syncing || message) && (
+        <p className="text-xs text-muted-foreground mb-3">{syncing ?? message}</p>
+      )}
+      <JobTable jobs={family.jobs} />
+    </div>
+  );
+}
+
+// ============================================================
+// Page
+// ============================================================
+
+export default function SyncHealthPage() {
+  const enabled = useFlag("SYNC_HEALTH");
+  if (!enabled) {
+    return (
+      <main className="container mx-auto px-6 py-20 max-w-2xl text-center">
+        <p className="text-muted-foreground">Sync health is not enabled.</p>
+      </main>
+    );
+  }
+  return <SyncHealth />;
+}
+
+function SyncHealth() {
+  const [report, setReport] = useState<SyncHealthReport | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [flaggedOnly, setFlaggedOnly] = useState(false);
+
+  const load = useCallback(() => {
+    fetch("/api/sync/jobs")
+      .then(async (res) => {
+        const data = await res.json();
+        if (!res.ok) throw new Error(data.error ?? "Failed to load sync jobs.");
+        setReport(data);
+        setError(null);
+      })
+      .catch((e) => setError(e instanceof Error ? e.message : "Failed to load sync jobs."));
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const flagged = report?.families.filter((f) => f.failing || f.orphanedJobId) ?? [];
+  const families = flaggedOnly ? flagged : report?.families ?? [];
+
+  return (
+    <main className="container mx-auto px-6 py-8 max-w-4xl">
+      <div className="mb-6">
+        <h1 className="font-serif text-4xl font-medium tracking-tight">Sync health</h1>
+        <p className="text-muted-foreground mt-3 text-sm leading-relaxed max-w-2xl">
+          Recent family syncs with their cost and stage timings. A family is
+          flagged when its last {report?.failingStreak ?? 3} runs failed, or
+          when a run has held the lock past the{" "}
+          {report ? formatMs(report.staleAfterMs) : "stale"} threshold. Force
+          resync goes through the same lock, so it waits out a live run and
+          clears an orphaned one.
+        </p>
+      </div>
+
+      {error && (
+        <div className="p-4 bg-grade-f/8 rounded-lg text-sm text-grade-f border border-grade-f/25 mb-6">
+          {error}
+        </div>
+      )}
+
+      {!report && !error && (
+        <div className="text-center py-12 text-muted-foreground">Loading sync jobs...</div>
+      )}
+
+      {report && (
+        <>
+          <div className="flex flex-wrap items-center justify-between gap-3 mb-6">
+            <div className="flex gap-2">
+              <FilterChip active={!flaggedOnly} onClick={() => setFlaggedOnly(false)}>
+                All ({report.families.length})
+              </FilterChip>
+              <FilterChip active={flaggedOnly} onClick={() => setFlaggedOnly(true)}>
+                Flagged ({flagged.length})
+              </FilterChip>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              {report.jobsScanned} jobs scanned · as of {formatTime(report.generatedAt)}
+            </p>
+          </div>
+
+          {families.length === 0 && (
+            <p className="text-center py-12 text-muted-foreground">
+              {flaggedOnly ? "Nothing flagged." : "No sync jobs yet."}
+            </p>
+          )}
+
+          <div className="space-y-6">
+            {families.map((family) => (
+              <FamilyCard key={family.ref} family={family} onSynced={load} />
+            ))}
+          </div>
+        </>
+      )}
+    </main>
+  );
+}
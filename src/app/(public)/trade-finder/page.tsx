@@ -1,4 +1,81 @@
+"use client";
+
+import Link from "next/link";
+import { useSearchParams } from "next/navigation";
+import { Suspense, useEffect, useState } from "react";
+import { ArrowLeftRight, ArrowRight } from "lucide-react";
+import { useFlag } from "@/lib/useFlag";
+import { getStoredUsername } from "@/lib/storedUsername";
+import { PositionChip } from "@/components/PositionChip";
+
+// ============================================================
+// Types (mirror src/services/tradeFinder.ts)
+// ============================================================
+
+interface FinderAsset {
+  kind: "player" | "pick";
+  id: string;
+  label: string;
+  position: string | null;
+  value: number;
+}
+
+interface PositionExposure {
+  position: string;
+  startable: number;
+  expected: number;
+  depth: number;
+  status: "need" | "ok" | "surplus";
+}
+
+interface RosterExposure {
+  rosterId: number;
+  name: string;
+  totalValue: number;
+  positions: PositionExposure[];
+}
+
+interface TradeSuggestion {
+  partnerRosterId: number;
+  partnerName: string;
+  give: FinderAsset[];
+  get: FinderAsset[];
+  giveValue: number;
+  getValue: number;
+  imbalance: number;
+  reasons: string[];
+}
+
+interface TradeFinderResult {
+  leagueId: string;
+  season: string;
+  rosterId: number;
+  exposures: RosterExposure[];
+  suggestions: TradeSuggestion[];
+}
+
+interface FoundLeague {
+  league_id: string;
+  family_id: string | null;
+  name: string;
+  season: string;
+}
+
+// ============================================================
+// Page
+// ============================================================
+
 export default function TradeFinderPage() {
+  const enabled = useFlag("TRADE_FINDER");
+  if (!enabled) return <ComingSoon />;
+  return (
+    <Suspense fallback={null}>
+      <TradeFinder />
+    </Suspense>
+  );
+}
+
+function ComingSoon() {
   return (
     <main className="container mx-auto px-6 py-20 max-w-2xl text-center">
       <h1 className="font-serif text-4xl md:text-5xl font-medium tracking-tight mb-4">
@@ -12,3 +89,304 @@ export default function TradeFinderPage() {
     </main>
   );
 }
+
+function TradeFinder() {
+  const searchParams = useSearchParams();
+  const familyId = searchParams.get("league");
+  const userId = searchParams.get("user");
+
+  return (
+    <main className="container mx-auto px-6 py-16 max-w-3xl">
+      <h1 className="font-serif text-4xl md:text-5xl font-medium tracking-tight mb-2 text-center">
+        Trade Finder
+      </h1>
+      <p className="text-muted-foreground text-center mb-10">
+        Partners who need what you have to give, with value-balanced packages.
+      </p>
+      {familyId && userId ? (
+        <Suggestions familyId={familyId} userId={userId} />
+      ) : (
+        <LeaguePicker />
+      )}
+    </main>
+  );
+}
+
+// ============================================================
+// League picker
+// ============================================================
+
+type PickerState =
+  | { status: "no_user" }
+  | { status: "loading" }
+  | { status: "error" }
+  | { status: "ok"; userId: string; leagues: FoundLeague[] };
+
+function LeaguePicker() {
+  const [state, setState] = useState<PickerState>({ status: "loading" });
+
+  useEffect(() => {
+    const username = getStoredUsername();
+    if (!username) {
+      setState({ status: "no_user" });
+      return;
+    }
+    let cancelled = false;
+    fetch("/api/start/find-leagues", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ username: username.toLowerCase() }),
+    })
+      .then((res) => (res.ok ? res.json() : Promise.reject()))
+      .then((data: { user_id: string; leagues: FoundLeague[] }) => {
+        if (!cancelled) {
+          setState({
+            status: "ok",
+            userId: data.user_id,
+            leagues: data.leagues.filter((l) => l.family_id),
+          });
+        }
+      })
+      .catch(() => {
+        if (!cancelled) setState({ status: "error" });
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  if (state.status === "loading") {
+    return (
+      <div className="space-y-3" aria-label="Loading leagues">
+        {Array.from({ length: 3 }).map((_, i) => (
+          <div key={i} className="h-16 rounded-md bg-muted animate-pulse" />
+        ))}
+      </div>
+    );
+  }
+
+  if (state.status === "no_user") {
+    return (
+      <p className="text-center text-muted-foreground">
+        <Link href="/start" className="text-primary hover:underline">
+          Enter your Sleeper username
+        </Link>{" "}
+        to pick a league.
+      </p>
+    );
+  }
+
+  if (state.status === "error") {
+    return (
+      <div className="p-4 rounded-md bg-grade-f/8 border border-grade-f/25 text-grade-f text-sm">
+        Couldn&apos;t load your leagues. Try refreshing.
+      </div>
+    );
+  }
+
+  if (state.leagues.length === 0) {
+    return (
+      <p className="text-center text-muted-foreground">
+        None of your leagues are synced yet.{" "}
+        <Link href="/start" className="text-primary hover:underline">
+          Start with one
+        </Link>
+        .
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      {state.leagues.map((l) => (
+        <Link
+          key={l.league_id}
+          href={`/trade-finder?league=${encodeURIComponent(l.family_id!)}&user=${encodeURIComponent(state.userId)}`}
+          className="flex items-center justify-between gap-4 p-4 rounded-md border bg-card hover:border-primary/40 transition-colors"
+        >
+          <div className="min-w-0">
+            <p className="font-medium truncate">{l.name}</p>
+            <p className="text-xs text-muted-foreground font-mono">{l.season}</p>
+          </div>
+          <ArrowRight className="h-4 w-4 text-muted-foreground flex-shrink-0" />
+        </Link>
+      ))}
+    </div>
+  );
+}
+
+// ============================================================
+// Suggestions
+// ============================================================
+
+type FinderState =
+  | { status: "loading" }
+  | { status: "error" }
+  | { status: "ok"; data: TradeFinderResult };
+
+const STATUS_STYLES: Record<PositionExposure["status"], string> = {
+  need: "border-grade-f/30 bg-grade-f/8",
+  ok: "border-border/60 bg-background",
+  surplus: "border-grade-a/30 bg-grade-a/8",
+};
+
+const STATUS_LABELS: Record<PositionExposure["status"], string> = {
+  need: "Need",
+  ok: "Set",
+  surplus: "Depth",
+};
+
+function Suggestions({ familyId, userId }: { familyId: string; userId: string }) {
+  const [state, setState] = useState<FinderState>({ status: "loading" });
+
+  useEffect(() => {
+    let cancelled = false;
+    setState({ status: "loading" });
+    fetch(
+      `/api/leagues/${encodeURIComponent(familyId)}/trade-finder?userId=${encodeURIComponent(userId)}`,
+    )
+      .then((res) => (res.ok ? res.json() : Promise.reject()))
+      .then((data: TradeFinderResult) => {
+        if (!cancelled) setState({ status: "ok", data });
+      })
+      .catch(() => {
+        if (!cancelled) setState({ status: "error" });
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [familyId, userId]);
+
+  if (state.status === "loading") {
+    return (
+      <div className="space-y-3" aria-label="Loading suggestions">
+        {Array.from({ length: 3 }).map((_, i) => (
+          <div key={i} className="h-28 rounded-md bg-muted animate-pulse" />
+        ))}
+      </div>
+    );
+  }
+
+  if (state.status === "error") {
+    return (
+      <div className="p-4 rounded-md bg-grade-f/8 border border-grade-f/25 text-grade-f text-sm">
+        Couldn&apos;t find your roster in this league.{" "}
+        <Link href="/trade-finder" className="underline hover:no-underline">
+          Pick another league
+        </Link>
+        .
+      </div>
+    );
+  }
+
+  const { data } = state;
+  const mine = data.exposures.find((e) => e.rosterId === data.rosterId);
+
+  return (
+    <div className="space-y-8">
+      {mine && (
+        <section>
+          <div className="flex items-baseline justify-between mb-3">
+            <h2 className="text-sm font-semibold">Your exposure</h2>
+            <span className="text-xs text-muted-foreground font-mono">
+              {data.season} &middot; {mine.totalValue.toLocaleString()} total value
+            </span>
+          </div>
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+            {mine.positions.map((p) => (
+              <div
+                key={p.position}
+                className={`rounded-md border px-3 py-2 ${STATUS_STYLES[p.status]}`}
+              >
+                <div className="flex items-center justify-between">
+                  <PositionChip position={p.position} size="xs" />
+                  <span className="text-[10px] uppercase tracking-wide text-muted-foreground">
+                    {STATUS_LABELS[p.status]}
+                  </span>
+                </div>
+                <p className="font-mono text-base font-semibold mt-1">
+                  {p.startable}
+                  <span className="text-xs text-muted-foreground font-normal">
+                    {" "}/ {p.expected} avg
+                  </span>
+                </p>
+                <p className="font-mono text-[10px] text-muted-foreground">
+                  {p.depth} rostered
+                </p>
+              </div>
+            ))}
+          </div>
+        </section>
+      )}
+
+      <section>
+        <h2 className="text-sm font-semibold mb-3">Suggested trades</h2>
+        {data.suggestions.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No positional fits right now — nobody is short where you have depth,
+            or the packages couldn&apos;t be balanced.
+          </p>
+        ) : (
+          <div className="space-y-3">
+            {data.suggestions.map((s) => (
+              <SuggestionCard key={s.partnerRosterId} suggestion={s} />
+            ))}
+          </div>
+        )}
+      </section>
+    </div>
+  );
+}
+
+function SuggestionCard({ suggestion }: { suggestion: TradeSuggestion }) {
+  return (
+    <div className="border rounded-lg p-4">
+      <div className="flex items-center justify-between mb-3">
+        <p className="text-sm font-semibold">{suggestion.partnerName}</p>
+        <span className="text-xs text-muted-foreground font-mono">
+          {Math.round(suggestion.imbalance * 100)}% apart
+        </span>
+      </div>
+      <div className="grid grid-cols-[1fr_auto_1fr] gap-3 items-start">
+        <AssetColumn label="You give" assets={suggestion.give} total={suggestion.giveValue} />
+        <ArrowLeftRight className="h-4 w-4 text-muted-foreground mt-5" aria-hidden />
+        <AssetColumn label="You get" assets={suggestion.get} total={suggestion.getValue} />
+      </div>
+      <ul className="mt-3 space-y-0.5">
+        {suggestion.reasons.map((r) => (
+          <li key={r} className="text-xs text-muted-foreground">
+            {r}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+function AssetColumn({
+  label,
+  assets,
+  total,
+}: {
+  label: string;
+  assets: FinderAsset[];
+  total: number;
+}) {
+  return (
+    <div className="min-w-0">
+      <p className="text-xs text-muted-foreground mb-1">{label}</p>
+      {assets.map((a) => (
+        <p key={a.id} className="text-sm flex items-center gap-1.5 min-w-0">
+          {a.position && <PositionChip position={a.position} size="xs" />}
+          <span className="truncate">{a.label}</span>
+          <span className="ml-auto font-mono text-xs text-muted-foreground">
+            {Math.round(a.value).toLocaleString()}
+          </span>
+        </p>
+      ))}
+      <p className="font-mono text-[10px] text-muted-foreground mt-1">
+        {total.toLocaleString()} adj. value
+      </p>
+    </div>
+  );
+}
@@ -35,11 +35,15 @@ export function isAuthorizedCron(req: NextRequest | Request): boolean {
  * typically don't send Origin and must bearer-auth instead. Acceptable
  * model for an unauthenticated read-only product whose only mutation
  * trigger is "warm a league a user is currently viewing."
+ *
+ * Browsers omit Origin on same-origin GETs, so without one we fall back
+ * to `Sec-Fetch-Site`, which page scripts can't set either.
  */
 export function isSameOriginRequest(req: NextRequest | Request): boolean {
   const origin = req.headers.get("origin");
   const host = req.headers.get("host");
-  if (!origin || !host) return false;
+  if (!origin) return req.headers.get("sec-fetch-site") === "same-origin";
+  if (!host) return false;
   try {
     return new URL(origin).host === host;
   } catch {
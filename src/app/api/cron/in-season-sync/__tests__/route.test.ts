@@ -0,0 +1,98 @@
+/**
+ * @jest-environment node
+ *
+ * Auth, season gating and outcome coverage for /api/cron/in-season-sync.
+ */
+
+const runInSeasonSyncMock = jest.fn();
+const isInSeasonMock = jest.fn();
+
+jest.mock("@/services/inSeasonSync", () => ({
+  runInSeasonSync: (...args: unknown[]) => runInSeasonSyncMock(...args),
+}));
+
+jest.mock("@/lib/freshness", () => ({
+  isInSeason: () => isInSeasonMock(),
+}));
+
+jest.mock("@/lib/sleeper/rateLimit", () => ({
+  getTotalSleeperCalls: () => 0,
+}));
+
+jest.mock("@/lib/observability/syncBreadcrumb", () => ({
+  recordSyncBreadcrumb: jest.fn(),
+}));
+
+import { GET } from "../route";
+
+function makeRequest(headers: Record<string, string> = {}) {
+  return new Request("http://localhost/api/cron/in-season-sync", {
+    method: "GET",
+    headers,
+  }) as unknown as Parameters<typeof GET>[0];
+}
+
+const AUTH = { authorization: "Bearer test-cron-secret" };
+
+beforeEach(() => {
+  runInSeasonSyncMock.mockReset();
+  isInSeasonMock.mockReset().mockReturnValue(true);
+  process.env.CRON_SECRET = "test-cron-secret";
+  jest.spyOn(console, "log").mockImplementation(() => {});
+  jest.spyOn(console, "error").mockImplementation(() => {});
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+afterAll(() => {
+  delete process.env.CRON_SECRET;
+});
+
+describe("GET /api/cron/in-season-sync", () => {
+  it("returns 401 without bearer token", async () => {
+    const res = await GET(makeRequest());
+    expect(res.status).toBe(401);
+    expect(runInSeasonSyncMock).not.toHaveBeenCalled();
+  });
+
+  it("does no work off-season", async () => {
+    isInSeasonMock.mockReturnValue(false);
+    const res = await GET(makeRequest(AUTH));
+    expect(res.status).toBe(200);
+    const json = await res.json();
+    expect(json.summary).toEqual({ ranWork: false, reason: "off-season" });
+    expect(runInSeasonSyncMock).not.toHaveBeenCalled();
+  });
+
+  it("counts synced, resumable, skipped and failed families", async () => {
+    runInSeasonSyncMock.mockResolvedValueOnce([
+      { familyId: "f1", status: "synced", stagesCompleted: 2, stagesTotal: 2 },
+      { familyId: "f2", status: "in_progress", stagesCompleted: 1, stagesTotal: 3 },
+      { familyId: "f3", status: "skipped", stagesCompleted: 0, stagesTotal: 0 },
+      { familyId: "f4", status: "failed", stagesCompleted: 0, stagesTotal: 2, error: "boom" },
+    ]);
+    const res = await GET(makeRequest(AUTH));
+    expect(res.status).toBe(200);
+    const json = await res.json();
+    expect(json.summary).toMatchObject({
+      ranWork: true,
+      families: 4,
+      synced: 1,
+      inProgress: 1,
+      skipped: 1,
+      failures: 1,
+    });
+    const [{ deadlineAt }] = runInSeasonSyncMock.mock.calls[0];
+    expect(deadlineAt - Date.now()).toBeLessThanOrEqual(25_000);
+  });
+
+  it("returns 500 when every family fails", async () => {
+    runInSeasonSyncMock.mockResolvedValueOnce([
+      { familyId: "f1", status: "failed", stagesCompleted: 0, stagesTotal: 2, error: "boom" },
+    ]);
+    const res = await GET(makeRequest(AUTH));
+    expect(res.status).toBe(500);
+  });
+});
@@ -0,0 +1,62 @@
+// Daily cron: keep recently visited families warm during the season.
+//
+// Schedule: 11:00 UTC daily — after the overnight slate has settled and
+// after the regrade drain. The Hobby plan caps crons at daily; on a faster
+// schedule the same route simply resumes where the last tick stopped.
+// Off-season ticks short-circuit and return 200 with `{ ranWork: false }`;
+// the lazy freshness gate covers the occasional off-season trade.
+//
+// Each tick walks families with traffic in the last week (see
+// services/inSeasonSync), least-recently-attempted first, advancing each
+// family's active seasons through the chunked executor until the budget
+// runs out. A family that fails is recorded on `family_sync_state` and
+// backs off; the walk moves on to the next family.
+
+import { NextRequest } from "next/server";
+import { isInSeason } from "@/lib/freshness";
+import { runInSeasonSync } from "@/services/inSeasonSync";
+import { getTotalSleeperCalls } from "@/lib/sleeper/rateLimit";
+import { classifyOutcome, runCron } from "../_lib/runCron";
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+export const maxDuration = 30;
+
+/** Same 5s safety margin under the 30s cap as the sync tick. */
+const BUDGET_MS = 25_000;
+
+export async function GET(req: NextRequest) {
+  return runCron(
+    req,
+    {
+      name: "in-season-sync",
+      source: "league-family",
+      scope: "in-season",
+    },
+    async () => {
+      if (!isInSeason()) {
+        return { callsMade: 0, summary: { ranWork: false, reason: "off-season" } };
+      }
+
+      const callsBefore = getTotalSleeperCalls();
+      const results = await runInSeasonSync({ deadlineAt: Date.now() + BUDGET_MS });
+      const failures = results.filter((r) => r.status === "failed").length;
+
+      return {
+        callsMade: getTotalSleeperCalls() - callsBefore,
+        outcome: classifyOutcome(results.map((r) => ({ ok: r.status !== "failed" }))),
+        errorSummary:
+          failures > 0 ? `${failures}/${results.length} families failed to sync` : undefined,
+        summary: {
+          ranWork: true,
+          families: results.length,
+          synced: results.filter((r) => r.status === "synced").length,
+          inProgress: results.filter((r) => r.status === "in_progress").length,
+          skipped: results.filter((r) => r.status === "skipped").length,
+          failures,
+          results,
+        },
+      };
+    }
+  );
+}
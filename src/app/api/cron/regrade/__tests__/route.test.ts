@@ -0,0 +1,77 @@
+/**
+ * @jest-environment node
+ *
+ * Auth + outcome coverage for /api/cron/regrade.
+ */
+
+const runQueuedRegradesMock = jest.fn();
+
+jest.mock("@/services/regrade", () => ({
+  runQueuedRegrades: (...args: unknown[]) => runQueuedRegradesMock(...args),
+}));
+
+jest.mock("@/lib/observability/syncBreadcrumb", () => ({
+  recordSyncBreadcrumb: jest.fn(),
+}));
+
+import { GET } from "../route";
+
+function makeRequest(headers: Record<string, string> = {}) {
+  return new Request("http://localhost/api/cron/regrade", {
+    method: "GET",
+    headers,
+  }) as unknown as Parameters<typeof GET>[0];
+}
+
+const AUTH = { authorization: "Bearer test-cron-secret" };
+
+beforeEach(() => {
+  runQueuedRegradesMock.mockReset();
+  process.env.CRON_SECRET = "test-cron-secret";
+  jest.spyOn(console, "log").mockImplementation(() => {});
+  jest.spyOn(console, "error").mockImplementation(() => {});
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+afterAll(() => {
+  delete process.env.CRON_SECRET;
+});
+
+describe("GET /api/cron/regrade", () => {
+  it("returns 401 without bearer token", async () => {
+    const res = await GET(makeRequest());
+    expect(res.status).toBe(401);
+    expect(runQueuedRegradesMock).not.toHaveBeenCalled();
+  });
+
+  it("returns 200 with an empty queue", async () => {
+    runQueuedRegradesMock.mockResolvedValueOnce([]);
+    const res = await GET(makeRequest(AUTH));
+    expect(res.status).toBe(200);
+    const json = await res.json();
+    expect(json.summary.jobs).toBe(0);
+  });
+
+  it("counts re-graded, skipped and failed families", async () => {
+    runQueuedRegradesMock.mockResolvedValueOnce([
+      { jobId: "j1", familyId: "f1", status: "success", stale: 12 },
+      { jobId: "j2", familyId: "f2", status: "skipped", stale: 0 },
+      { jobId: "j3", familyId: "f3", status: "failed", stale: 0, error: "boom" },
+    ]);
+    const res = await GET(makeRequest(AUTH));
+    expect(res.status).toBe(200);
+    const json = await res.json();
+    expect(json.summary).toMatchObject({ jobs: 3, regraded: 1, skipped: 1, failures: 1 });
+  });
+
+  it("returns 500 when every family fails", async () => {
+    runQueuedRegradesMock.mockResolvedValueOnce([
+      { jobId: "j1", familyId: "f1", status: "failed", stale: 0, error: "boom" },
+    ]);
+    const res = await GET(makeRequest(AUTH));
+    expect(res.status).toBe(500);
+  });
+});
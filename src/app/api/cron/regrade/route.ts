@@ -0,0 +1,51 @@
+// Daily cron: drain the config re-grade queue.
+//
+// Schedule: 10:00 UTC daily, after the FantasyCalc and nflverse refreshes.
+// Promoting or rolling back an algorithm config queues one `regrade` sync
+// job per affected family (see promoteConfig / rollbackConfig). Each tick
+// works through the queue oldest-first until its time budget runs out;
+// whatever is left waits for the next tick.
+//
+// Failure isolation: a family that fails to re-grade is marked failed on
+// its job row and the drain moves on to the next family.
+
+import { NextRequest } from "next/server";
+import { runQueuedRegrades } from "@/services/regrade";
+import { classifyOutcome, runCron } from "../_lib/runCron";
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+/** Leave headroom under the 30s function limit for the last family. */
+const BUDGET_MS = 15_000;
+
+export async function GET(req: NextRequest) {
+  return runCron(
+    req,
+    {
+      name: "regrade",
+      source: "league-family",
+      scope: "regrade-queue",
+    },
+    async () => {
+      const results = await runQueuedRegrades({ budgetMs: BUDGET_MS });
+      const failures = results.filter((r) => r.status === "failed").length;
+
+      return {
+        callsMade: 0,
+        outcome: classifyOutcome(results.map((r) => ({ ok: r.status !== "failed" }))),
+        errorSummary:
+          failures > 0
+            ? `${failures}/${results.length} families failed to re-grade`
+            : undefined,
+        summary: {
+          jobs: results.length,
+          regraded: results.filter((r) => r.status === "success").length,
+          skipped: results.filter((r) => r.status === "skipped").length,
+          failures,
+          results,
+        },
+      };
+    }
+  );
+}
@@ -0,0 +1,35 @@
+/**
+ * GET /api/experiments/[id]?offset&limit&sort&order&<field>=<value>
+ *
+ * One experiment run with a page of its `rawData` drill-down rows. Rows
+ * with predicted and actual scores carry a residual; `sort=residual` lists
+ * the worst fits first. Any other query param filters rows by field value,
+ * e.g. `?kind=trade&leagueId=123`.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { loadExperimentDetail, parseDrilldownQuery } from "@/services/experimentDrilldown";
+
+export const dynamic = "force-dynamic";
+
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  if (!UUID_RE.test(params.id)) {
+    return NextResponse.json({ error: "Experiment run not found" }, { status: 404 });
+  }
+
+  try {
+    const detail = await loadExperimentDetail(params.id, parseDrilldownQuery(req.nextUrl.searchParams));
+    if (!detail) {
+      return NextResponse.json({ error: "Experiment run not found" }, { status: 404 });
+    }
+    return NextResponse.json(detail);
+  } catch (e) {
+    console.error("[experiments API]", e);
+    return NextResponse.json({ error: "Failed to load experiment run." }, { status: 500 });
+  }
+}
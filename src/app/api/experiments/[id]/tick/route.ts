@@ -0,0 +1,40 @@
+/**
+ * POST /api/experiments/[id]/tick
+ *
+ * Advance an in-app experiment run by one tick of the chunked executor.
+ * /experiments polls this while a run is in progress, the same way the
+ * cold-sync loading screen polls /api/sync/jobs/[jobId]/tick. Returns the
+ * job's cursor and current stage label; terminal runs return their final
+ * state without doing work. Same bearer / same-origin gate as starting a
+ * run.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { isEnabled } from "@/lib/featureFlags";
+import { isAuthorizedCron, isSameOriginRequest } from "@/app/api/cron/_lib/auth";
+import { tickExperiment } from "@/services/experimentRunner";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+export const maxDuration = 30;
+
+/** Same 5s safety margin under the 30s cap as the sync tick. */
+const TICK_BUDGET_MS = 25_000;
+
+export async function POST(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  if (!isEnabled("EXPERIMENT_RUNNER")) {
+    return NextResponse.json({ error: "Not found" }, { status: 404 });
+  }
+  if (!isAuthorizedCron(req) && !isSameOriginRequest(req)) {
+    return NextResponse.json({ error: "unauthorized" }, { status: 401 });
+  }
+
+  const status = await tickExperiment(params.id, Date.now() + TICK_BUDGET_MS);
+  if (!status) {
+    return NextResponse.json({ error: "Unknown experiment run" }, { status: 404 });
+  }
+  return NextResponse.json(status);
+}
@@ -0,0 +1,92 @@
+/**
+ * @jest-environment node
+ *
+ * POST /api/experiments starts a sweep that runs through the chunked
+ * executor, so it MUST go through the same bearer / same-origin gate as
+ * POST /api/sync/jobs. The runner is mocked at the module boundary.
+ */
+
+const isEnabledMock = jest.fn();
+const resolveFamilyMock = jest.fn();
+const startExperimentMock = jest.fn();
+
+jest.mock("@/db", () => ({ getDb: jest.fn(), schema: {} }));
+
+jest.mock("@/lib/featureFlags", () => ({
+  isEnabled: (...args: unknown[]) => isEnabledMock(...args),
+}));
+
+jest.mock("@/lib/familyResolution", () => ({
+  resolveFamily: (...args: unknown[]) => resolveFamilyMock(...args),
+}));
+
+jest.mock("@/services/experimentRegistry", () => ({
+  listExperiments: jest.fn(),
+}));
+
+jest.mock("@/services/experimentRunner", () => ({
+  startExperiment: (...args: unknown[]) => startExperimentMock(...args),
+}));
+
+import { POST } from "../route";
+
+function makePost(body: Record<string, unknown>, headers: Record<string, string> = {}) {
+  return new Request("http://localhost/api/experiments", {
+    method: "POST",
+    headers: { "content-type": "application/json", ...headers },
+    body: JSON.stringify(body),
+  }) as unknown as Parameters<typeof POST>[0];
+}
+
+const bearer = { authorization: "Bearer test-cron-secret" };
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  isEnabledMock.mockReturnValue(true);
+  resolveFamilyMock.mockImplementation(async (id: string) => (id === "unknown" ? null : "fam-1"));
+  startExperimentMock.mockResolvedValue({ runId: "run-1", jobId: "job-1" });
+  process.env.CRON_SECRET = "test-cron-secret";
+});
+
+afterAll(() => {
+  delete process.env.CRON_SECRET;
+});
+
+describe("POST /api/experiments", () => {
+  it("401s without bearer or matching origin", async () => {
+    const res = await POST(makePost({ name: "quality-weight-sweep" }));
+    expect(res.status).toBe(401);
+    expect(startExperimentMock).not.toHaveBeenCalled();
+  });
+
+  it("401s a cross-site origin", async () => {
+    const res = await POST(
+      makePost({ name: "quality-weight-sweep" }, { origin: "https://evil-site.com", host: "localhost" }),
+    );
+    expect(res.status).toBe(401);
+  });
+
+  it("starts a run for a same-origin request", async () => {
+    const res = await POST(
+      makePost(
+        { name: "quality-weight-sweep", familyId: "root-league" },
+        { origin: "https://localhost", host: "localhost" },
+      ),
+    );
+    expect(res.status).toBe(201);
+    expect(await res.json()).toEqual({ runId: "run-1", jobId: "job-1" });
+    expect(startExperimentMock).toHaveBeenCalledWith("quality-weight-sweep", { familyId: "fam-1" });
+  });
+
+  it("starts a run for a bearer request", async () => {
+    const res = await POST(makePost({ name: "quality-weight-sweep" }, bearer));
+    expect(res.status).toBe(201);
+    expect(startExperimentMock).toHaveBeenCalledWith("quality-weight-sweep", { familyId: null });
+  });
+
+  it("404s when the flag is off, before auth", async () => {
+    isEnabledMock.mockReturnValue(false);
+    const res = await POST(makePost({ name: "quality-weight-sweep" }, bearer));
+    expect(res.status).toBe(404);
+  });
+});
@@ -1,6 +1,11 @@
-import { NextResponse } from "next/server";
+import { NextRequest, NextResponse } from "next/server";
 import { getDb, schema } from "@/db";
 import { desc } from "drizzle-orm";
+import { isEnabled } from "@/lib/featureFlags";
+import { resolveFamily } from "@/lib/familyResolution";
+import { isAuthorizedCron, isSameOriginRequest } from "@/app/api/cron/_lib/auth";
+import { listExperiments } from "@/services/experimentRegistry";
+import { startExperiment } from "@/services/experimentRunner";
 
 export const dynamic = "force-dynamic";
 
@@ -30,12 +35,52 @@ export async function GET() {
       .orderBy(desc(schema.experimentRuns.startedAt))
       .limit(100);
 
-    return NextResponse.json({ runs, error: null });
+    return NextResponse.json({
+      runs,
+      registry: isEnabled("EXPERIMENT_RUNNER") ? await listExperiments() : [],
+      error: null,
+    });
   } catch (e) {
     console.error("[experiments API]", e);
     return NextResponse.json(
-      { runs: [], error: "Failed to load experiment data." },
+      { runs: [], registry: [], error: "Failed to load experiment data." },
       { status: 500 },
     );
   }
 }
+
+/**
+ * POST /api/experiments  { name, familyId? }
+ *
+ * Start a registered experiment. Returns the run id; the client then
+ * drives it with POST /api/experiments/[id]/tick. Gated by the
+ * EXPERIMENT_RUNNER flag; accepts bearer (operators via curl) or
+ * same-origin (the page), like POST /api/sync/jobs.
+ */
+export async function POST(req: NextRequest) {
+  if (!isEnabled("EXPERIMENT_RUNNER")) {
+    return NextResponse.json({ error: "Not found" }, { status: 404 });
+  }
+  if (!isAuthorizedCron(req) && !isSameOriginRequest(req)) {
+    return NextResponse.json({ error: "unauthorized" }, { status: 401 });
+  }
+
+  const body = (await req.json().catch(() => null)) as { name?: unknown; familyId?: unknown } | null;
+  if (!body || typeof body.name !== "string") {
+    return NextResponse.json({ error: "name is required" }, { status: 400 });
+  }
+
+  let familyId: string | null = null;
+  if (typeof body.familyId === "string" && body.familyId) {
+    familyId = await resolveFamily(body.familyId);
+    if (!familyId) {
+      return NextResponse.json({ error: "League family not found" }, { status: 404 });
+    }
+  }
+
+  const started = await startExperiment(body.name, { familyId });
+  if (!started) {
+    return NextResponse.json({ error: `Unknown experiment: ${body.name}` }, { status: 404 });
+  }
+  return NextResponse.json(started, { status: 201 });
+}
@@ -16,6 +16,7 @@ import { resolveDraftPicks, findOriginalSlot, calculatePickNumber } from "@/lib/
 import { pickKey } from "@/lib/assetGraph";
 import { getDemoSwapForRequest } from "@/lib/demoServer";
 import { lookupSwap } from "@/lib/demoAnonymize";
+import { projectFamilyPicks, projectedPickLabel } from "@/services/pickProjection";
 
 export interface AssetsListResponse {
   players: Array<{
@@ -32,6 +33,8 @@ export interface AssetsListResponse {
     originalRosterId: number;
     originalOwnerName: string | null;
     resolvedPlayerName: string | null;
+    /** Projected "round.pick" (e.g. "1.03") for next season's undrafted picks */
+    projectedPick: string | null;
   }>;
 }
 
@@ -249,7 +252,10 @@ export async function GET(
   }
 
   // ---- Resolve drafted player for completed picks ----
-  const { draftsBySeason, draftPicksMap } = await resolveDraftPicks(allLeagueIds);
+  const [{ draftsBySeason, draftPicksMap }, projection] = await Promise.all([
+    resolveDraftPicks(allLeagueIds),
+    projectFamilyPicks(resolvedFamilyId),
+  ]);
   const resolvedPlayerIds = new Set<string>();
   const draftResolutions = new Map<string, string>(); // pickKey -> playerId
 
@@ -328,6 +334,9 @@ export async function GET(
         resolvedPlayerName: resolvedPlayerId
           ? knownPlayerNames.get(resolvedPlayerId) ?? null
           : null,
+        projectedPick: resolvedPlayerId
+          ? null
+          : projectedPickLabel(projection, r.pickSeason, r.pickRound, r.pickOriginalRosterId),
       };
     })
     .sort((a, b) => {
@@ -0,0 +1,103 @@
+/**
+ * @jest-environment node
+ *
+ * /api/leagues/:familyId/graph/image: SVG and PNG renders of a graph view.
+ * The graph loader is mocked at the module boundary. next/og loads its
+ * renderer through a dynamic import jest can't run, so the PNG path only
+ * checks what it hands to ImageResponse.
+ */
+
+const resolveFamilyMock = jest.fn();
+const loadFamilyGraphMock = jest.fn();
+const imageResponseMock = jest.fn();
+const getDemoSwapMock = jest.fn();
+
+jest.mock("@/lib/familyResolution", () => ({
+  resolveFamily: (...args: unknown[]) => resolveFamilyMock(...args),
+}));
+
+jest.mock("@/lib/demoServer", () => ({
+  getDemoSwapForRequest: (...args: unknown[]) => getDemoSwapMock(...args),
+}));
+
+jest.mock("@/services/familyGraph", () => ({
+  loadFamilyGraph: (...args: unknown[]) => loadFamilyGraphMock(...args),
+}));
+
+jest.mock("next/og", () => ({
+  ImageResponse: function ImageResponse(element: unknown, init: { headers?: Record<string, string> }) {
+    imageResponseMock(element, init);
+    return new Response("png", { headers: { "content-type": "image/png", ...init.headers } });
+  },
+}));
+
+import { GET } from "../route";
+
+function makeGet(query = "") {
+  const url = `http://localhost/api/leagues/root-league/graph/image${query}`;
+  return Object.assign(new Request(url), { nextUrl: new URL(url) }) as unknown as Parameters<typeof GET>[0];
+}
+
+const ctx = { params: { familyId: "root-league" } };
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  getDemoSwapMock.mockResolvedValue(null);
+  resolveFamilyMock.mockImplementation(async (id: string) => (id === "unknown" ? null : "fam-1"));
+  loadFamilyGraphMock.mockResolvedValue({
+    nodes: [
+      {
+        id: "tx:a",
+        kind: "transaction",
+        txKind: "trade",
+        transactionId: "a",
+        leagueId: "L",
+        season: "2024",
+        week: 3,
+        createdAt: 0,
+        managers: [
+          { userId: "u1", displayName: "Alice" },
+          { userId: "u2", displayName: "Bob" },
+        ],
+        assets: [],
+      },
+    ],
+    edges: [],
+    stats: { totalTransactions: 1, totalTenures: 0, openTenures: 0, playersInvolved: 0, picksInvolved: 0 },
+  });
+});
+
+describe("GET /api/leagues/:familyId/graph/image", () => {
+  it("404s an unknown family", async () => {
+    const res = await GET(makeGet(), { params: { familyId: "unknown" } });
+    expect(res.status).toBe(404);
+    expect(loadFamilyGraphMock).not.toHaveBeenCalled();
+  });
+
+  it("renders the seeded view as SVG", async () => {
+    const res = await GET(makeGet("?seed=tx:a&format=svg"), ctx);
+    expect(res.status).toBe(200);
+    expect(res.headers.get("content-type")).toBe("image/svg+xml");
+    expect(await res.text()).toContain("Alice ↔ Bob");
+    expect(loadFamilyGraphMock).toHaveBeenCalledWith("fam-1", null);
+  });
+
+  it("renders a 1200x630 PNG by default", async () => {
+    const res = await GET(makeGet("?seed=tx:a"), ctx);
+    expect(res.headers.get("content-type")).toBe("image/png");
+    expect(res.headers.get("cache-control")).toMatch(/max-age=3600/);
+    expect(res.headers.get("vary")).toBe("Cookie");
+    expect(imageResponseMock).toHaveBeenCalledWith(
+      expect.anything(),
+      expect.objectContaining({ width: 1200, height: 630 }),
+    );
+  });
+
+  it("keeps demo renders out of shared caches", async () => {
+    getDemoSwapMock.mockResolvedValue({ managers: new Map() });
+    for (const query of ["?seed=tx:a&format=svg", "?seed=tx:a"]) {
+      const res = await GET(makeGet(query), ctx);
+      expect(res.headers.get("cache-control")).toBe("private, no-store");
+    }
+  });
+});
@@ -0,0 +1,140 @@
+/**
+ * GET /api/leagues/:familyId/graph/image
+ *
+ * Static picture of a graph view, for link unfurls. Takes the graph page's
+ * own view params (`seed`, `expanded`, `removed`, `fullyExpanded`,
+ * `seedPlayerId`, `seedPickKey`, `seedTransactionId`, `asOf`), lays the
+ * visible subgraph out with the page's dagre layout and renders it server-side.
+ * `?format=svg` returns the SVG; anything else a 1200×630 PNG.
+ *
+ * PUBLIC-BY-DESIGN, like the graph route it draws from: chat apps fetch
+ * previews without cookies.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { ImageResponse } from "next/og";
+import { resolveFamily } from "@/lib/familyResolution";
+import { getDemoSwapForRequest } from "@/lib/demoServer";
+import { loadFamilyGraph } from "@/services/familyGraph";
+import {
+  buildGraphScene,
+  fitScale,
+  parseGraphView,
+  renderGraphSvg,
+  SHARE_COLORS,
+  SHARE_IMAGE_HEIGHT,
+  SHARE_IMAGE_WIDTH,
+  type GraphScene,
+} from "@/components/graph/shareImage";
+
+// Graph data only changes on sync; an hour keeps unfurls cheap without
+// pinning a stale chain for long. The demo cookie swaps manager names, so
+// shared caches key on it and demo renders aren't stored at all.
+const PUBLIC_CACHE_HEADERS = { "cache-control": "public, max-age=3600, s-maxage=3600", vary: "Cookie" };
+const DEMO_CACHE_HEADERS = { "cache-control": "private, no-store" };
+
+// next/og's bundled font has no arrows, and a missing glyph makes satori
+// fetch a fallback font on every render. Trade titles use an en dash instead.
+function pngText(s: string): string {
+  return s.replace(/ ↔ /g, " – ");
+}
+
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { familyId: string } },
+) {
+  const resolvedFamilyId = await resolveFamily(params.familyId);
+  if (!resolvedFamilyId) {
+    return NextResponse.json({ error: "League family not found" }, { status: 404 });
+  }
+
+  const demoSwap = await getDemoSwapForRequest(req, resolvedFamilyId);
+  const { nodes, edges, stats } = await loadFamilyGraph(resolvedFamilyId, demoSwap);
+  const scene = buildGraphScene({ nodes, edges, stats }, parseGraphView(req.nextUrl.searchParams));
+  const cacheHeaders = demoSwap ? DEMO_CACHE_HEADERS : PUBLIC_CACHE_HEADERS;
+
+  if (req.nextUrl.searchParams.get("format") === "svg") {
+    return new NextResponse(renderGraphSvg(scene), {
+      headers: { "content-type": "image/svg+xml", ...cacheHeaders },
+    });
+  }
+
+  return new ImageResponse(<SceneImage scene={scene} />, {
+    width: SHARE_IMAGE_WIDTH,
+    height: SHARE_IMAGE_HEIGHT,
+    headers: cacheHeaders,
+  });
+}
+
+/** Satori markup for a scene, scaled and centred in the preview frame. */
+function SceneImage({ scene }: { scene: GraphScene }) {
+  const c = SHARE_COLORS;
+  const scale = fitScale(scene, SHARE_IMAGE_WIDTH, SHARE_IMAGE_HEIGHT);
+  const offsetX = (SHARE_IMAGE_WIDTH - scene.width * scale) / 2;
+  const offsetY = (SHARE_IMAGE_HEIGHT - scene.height * scale) / 2;
+
+  if (scene.cards.length === 0) {
+    return (
+      <div
+        style={{
+          width: "100%",
+          height: "100%",
+          display: "flex",
+          alignItems: "center",
+          justifyContent: "center",
+          background: c.background,
+          color: c.foreground,
+          fontSize: 56,
+        }}
+      >
+        Dynasty DNA · Lineage Tracer
+      </div>
+    );
+  }
+
+  return (
+    <div style={{ width: "100%", height: "100%", display: "flex", position: "relative", background: c.background }}>
+      <svg
+        width={scene.width * scale}
+        height={scene.height * scale}
+        viewBox={`0 0 ${scene.width} ${scene.height}`}
+        style={{ position: "absolute", left: offsetX, top: offsetY }}
+      >
+        {scene.edges.map((e) => (
+          <path key={e.id} d={e.path} fill="none" stroke={c.primary} strokeWidth={1.5} opacity={0.7} />
+        ))}
+      </svg>
+      {scene.cards.map((card) => (
+        <div
+          key={card.id}
+          style={{
+            position: "absolute",
+            left: offsetX + card.x * scale,
+            top: offsetY + card.y * scale,
+            width: card.width * scale,
+            height: card.height * scale,
+            display: "flex",
+            flexDirection: "column",
+            padding: 12 * scale,
+            borderRadius: 8 * scale,
+            border: `${(card.isSeed ? 2 : 1) * scale}px solid ${card.isSeed ? c.primary : c.border}`,
+            background: c.card,
+            overflow: "hidden",
+          }}
+        >
+          <div style={{ display: "flex", fontSize: 13 * scale, fontWeight: 600, color: c.foreground }}>
+            {pngText(card.title)}
+          </div>
+          <div style={{ display: "flex", fontSize: 11 * scale, color: c.muted, marginBottom: 8 * scale }}>
+            {card.subtitle}
+          </div>
+          {card.lines.map((line, i) => (
+            <div key={i} style={{ display: "flex", fontSize: 12 * scale, color: c.foreground, marginTop: 4 * scale }}>
+              {line}
+            </div>
+          ))}
+        </div>
+      ))}
+    </div>
+  );
+}
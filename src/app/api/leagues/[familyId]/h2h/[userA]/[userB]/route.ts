@@ -0,0 +1,38 @@
+/**
+ * GET /api/leagues/:familyId/h2h/:userA/:userB
+ *
+ * Head-to-head rivalry between two managers: regular-season record and
+ * points from `matchups`, playoff meetings from each season's winners
+ * bracket, every trade between them with grades, and both managers'
+ * all-time pillar scores. Built by `loadHeadToHead`
+ * (src/services/headToHead.ts).
+ *
+ * PUBLIC-BY-DESIGN: no session check, like the other /api/leagues/:familyId/*
+ * routes.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { resolveFamily } from "@/lib/familyResolution";
+import { getDemoSwapForRequest } from "@/lib/demoServer";
+import { loadHeadToHead } from "@/services/headToHead";
+
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { familyId: string; userA: string; userB: string } },
+) {
+  if (params.userA === params.userB) {
+    return NextResponse.json({ error: "Pick two different managers" }, { status: 400 });
+  }
+
+  const resolvedFamilyId = await resolveFamily(params.familyId);
+  if (!resolvedFamilyId) {
+    return NextResponse.json({ error: "League family not found" }, { status: 404 });
+  }
+
+  const demoSwap = await getDemoSwapForRequest(req, resolvedFamilyId);
+  const h2h = await loadHeadToHead(resolvedFamilyId, params.userA, params.userB, demoSwap);
+  if (!h2h) {
+    return NextResponse.json({ error: "Manager not found" }, { status: 404 });
+  }
+  return NextResponse.json(h2h);
+}
@@ -79,7 +79,7 @@ export async function GET(
     const mostRecentLeagueId = seasonsNewestFirst[0].leagueId;
     const mostRecentSeason = seasonsNewestFirst[0].season;
 
-    const algoConfig = await getActiveConfig();
+    const algoConfig = await getActiveConfig(familyId);
     const pillarWeights = algoConfig.pillarWeights as Record<string, number>;
 
     const [
@@ -0,0 +1,71 @@
+/**
+ * @jest-environment node
+ *
+ * /api/leagues/:familyId/odds is public, so only bearer callers may pick a
+ * seed or iteration count — each override is a fresh simulation. The
+ * simulator is mocked at the module boundary.
+ */
+
+const resolveFamilyMock = jest.fn();
+const simulateFamilySeasonMock = jest.fn();
+
+jest.mock("@/lib/familyResolution", () => ({
+  resolveFamily: (...args: unknown[]) => resolveFamilyMock(...args),
+}));
+
+jest.mock("@/services/seasonSimulator", () => ({
+  simulateFamilySeason: (...args: unknown[]) => simulateFamilySeasonMock(...args),
+}));
+
+import { GET } from "../route";
+
+function makeGet(query = "", headers: Record<string, string> = {}) {
+  const url = `http://localhost/api/leagues/root-league/odds${query}`;
+  return Object.assign(new Request(url, { headers }), { nextUrl: new URL(url) }) as unknown as Parameters<
+    typeof GET
+  >[0];
+}
+
+const ctx = { params: { familyId: "root-league" } };
+const bearer = { authorization: "Bearer test-cron-secret" };
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  resolveFamilyMock.mockImplementation(async (id: string) => (id === "unknown" ? null : "fam-1"));
+  simulateFamilySeasonMock.mockResolvedValue({ iterations: 10_000, seed: 7, weeksRemaining: 3, rosters: [] });
+  process.env.CRON_SECRET = "test-cron-secret";
+});
+
+afterAll(() => {
+  delete process.env.CRON_SECRET;
+});
+
+describe("GET /api/leagues/:familyId/odds", () => {
+  it("serves the default run to anyone", async () => {
+    const res = await GET(makeGet(), ctx);
+    expect(res.status).toBe(200);
+    expect(simulateFamilySeasonMock).toHaveBeenCalledWith("fam-1", { seed: undefined, iterations: undefined });
+  });
+
+  it("401s a seed or iteration override without bearer", async () => {
+    expect((await GET(makeGet("?seed=42"), ctx)).status).toBe(401);
+    expect((await GET(makeGet("?iterations=50000"), ctx)).status).toBe(401);
+    expect(simulateFamilySeasonMock).not.toHaveBeenCalled();
+  });
+
+  it("passes overrides through for bearer callers", async () => {
+    const res = await GET(makeGet("?seed=42&iterations=500", bearer), ctx);
+    expect(res.status).toBe(200);
+    expect(simulateFamilySeasonMock).toHaveBeenCalledWith("fam-1", { seed: 42, iterations: 500 });
+  });
+
+  it("400s an out-of-range override", async () => {
+    const res = await GET(makeGet("?iterations=60000", bearer), ctx);
+    expect(res.status).toBe(400);
+  });
+
+  it("404s when the family has no season in progress", async () => {
+    simulateFamilySeasonMock.mockResolvedValueOnce(null);
+    expect((await GET(makeGet(), ctx)).status).toBe(404);
+  });
+});
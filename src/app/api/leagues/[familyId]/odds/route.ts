@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from "next/server";
+import { isAuthorizedCron } from "@/app/api/cron/_lib/auth";
+import { resolveFamily } from "@/lib/familyResolution";
+import { simulateFamilySeason } from "@/services/seasonSimulator";
+
+/**
+ * GET /api/leagues/[familyId]/odds
+ *
+ * Monte Carlo odds for the family's current season: playoff, bye and
+ * championship odds plus next season's draft slot distribution per roster.
+ * Public callers get the default 10,000-iteration run, cached until the
+ * league's results change. Bearer callers may pass `seed` to make the run
+ * reproducible and `iterations` (max 50,000) to override the default;
+ * every override is a fresh simulation, so anyone else gets a 401.
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { familyId: string } },
+) {
+  const seedParam = req.nextUrl.searchParams.get("seed");
+  const iterationsParam = req.nextUrl.searchParams.get("iterations");
+  if ((seedParam !== null || iterationsParam !== null) && !isAuthorizedCron(req)) {
+    return NextResponse.json({ error: "unauthorized" }, { status: 401 });
+  }
+  const seed = seedParam === null ? undefined : Number(seedParam);
+  const iterations = iterationsParam === null ? undefined : Number(iterationsParam);
+  if (seed !== undefined && !Number.isInteger(seed)) {
+    return NextResponse.json({ error: "seed must be an integer" }, { status: 400 });
+  }
+  if (iterations !== undefined && (!Number.isInteger(iterations) || iterations < 1 || iterations > 50_000)) {
+    return NextResponse.json({ error: "iterations must be between 1 and 50000" }, { status: 400 });
+  }
+
+  const resolvedFamilyId = await resolveFamily(params.familyId);
+  if (!resolvedFamilyId) {
+    return NextResponse.json({ error: "League family not found" }, { status: 404 });
+  }
+
+  const odds = await simulateFamilySeason(resolvedFamilyId, { seed, iterations });
+  if (!odds) {
+    return NextResponse.json({ error: "No season in progress" }, { status: 404 });
+  }
+
+  return NextResponse.json(odds);
+}
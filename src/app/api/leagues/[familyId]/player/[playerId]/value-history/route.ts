@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from "next/server";
+import { resolveFamily } from "@/lib/familyResolution";
+import { getDemoSwapForRequest } from "@/lib/demoServer";
+import { lookupSwap } from "@/lib/demoAnonymize";
+import {
+  computePlayerValueHistory,
+  type PlayerValueHistory,
+} from "@/services/playerValueHistory";
+
+export type ValueHistoryResponse = PlayerValueHistory;
+
+/**
+ * GET /api/leagues/[familyId]/player/[playerId]/value-history
+ *
+ * Daily FantasyCalc dynasty value (in the family's current scoring format),
+ * weekly points with a time-decayed trailing PPG, each manager's stint with
+ * the player and the value on the way in and out, and every transaction
+ * that moved the player.
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { familyId: string; playerId: string } },
+) {
+  const resolvedFamilyId = await resolveFamily(params.familyId);
+  if (!resolvedFamilyId) {
+    return NextResponse.json({ error: "Not found" }, { status: 404 });
+  }
+
+  const demoSwap = await getDemoSwapForRequest(req, resolvedFamilyId);
+  const history = await computePlayerValueHistory(
+    resolvedFamilyId,
+    params.playerId,
+    demoSwap ? (userId) => lookupSwap(demoSwap, userId)?.displayName ?? null : undefined,
+  );
+  if (!history) {
+    return NextResponse.json({ error: "Not found" }, { status: 404 });
+  }
+
+  return NextResponse.json(history);
+}
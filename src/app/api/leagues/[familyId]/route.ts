@@ -9,8 +9,57 @@ import {
   getAllTimeStandings,
   getChampionRosterFromBracket,
 } from "@/services/familyStandings";
+import { computeFinalStandings } from "@/services/outcomeScore";
 import type { SleeperBracketMatchup } from "@/lib/sleeper";
 
+type LeagueRow = typeof schema.leagues.$inferSelect;
+type RosterRow = typeof schema.rosters.$inferSelect;
+
+/**
+ * One season's standings: final 1..N finish (winners + losers brackets)
+ * once the champion is decided, otherwise championships/record order.
+ */
+function seasonStandings(league: LeagueRow, rosters: RosterRow[]) {
+  const settings = league.settings as Record<string, unknown> | null;
+  const numPlayoffTeams = (settings?.playoff_teams as number) ?? 6;
+  const champRosterId = getChampionRosterFromBracket(
+    league.winnersBracket as SleeperBracketMatchup[] | null,
+    numPlayoffTeams,
+  );
+  const finalPlace = new Map(
+    computeFinalStandings(
+      rosters,
+      league.winnersBracket as SleeperBracketMatchup[] | null,
+      league.losersBracket as SleeperBracketMatchup[] | null,
+      numPlayoffTeams,
+    ).map((s) => [s.rosterId, s.place]),
+  );
+
+  return rosters
+    .map((r) => {
+      const place = finalPlace.get(r.rosterId);
+      return {
+        rosterId: r.rosterId,
+        ownerId: r.ownerId,
+        wins: r.wins || 0,
+        losses: r.losses || 0,
+        ties: r.ties || 0,
+        fpts: r.fpts || 0,
+        fptsAgainst: r.fptsAgainst || 0,
+        seasonsPlayed: 1,
+        championshipYears:
+          champRosterId === r.rosterId ? [league.season] : [],
+        finishes:
+          place !== undefined ? [{ season: league.season, place }] : [],
+      };
+    })
+    .sort(
+      (a, b) =>
+        (a.finishes[0]?.place ?? Infinity) - (b.finishes[0]?.place ?? Infinity) ||
+        compareStandings(a, b),
+    );
+}
+
 export async function GET(
   req: NextRequest,
   { params }: { params: { familyId: string } }
@@ -60,19 +109,7 @@ export async function GET(
       },
       familyId: null,
       seasons: [{ leagueId: league.id, season: league.season }],
-      rosters: rosters
-        .map((r) => ({
-          rosterId: r.rosterId,
-          ownerId: r.ownerId,
-          wins: r.wins || 0,
-          losses: r.losses || 0,
-          ties: r.ties || 0,
-          fpts: r.fpts || 0,
-          fptsAgainst: r.fptsAgainst || 0,
-          seasonsPlayed: 1,
-          championshipYears: [] as string[],
-        }))
-        .sort(compareStandings),
+      rosters: seasonStandings(league, rosters),
       users,
     });
   }
@@ -203,12 +240,6 @@ export async function GET(
   }
 
   const league = leagues[0];
-  const settings = league.settings as Record<string, unknown> | null;
-  const numPlayoffTeams = (settings?.playoff_teams as number) ?? 6;
-  const champRosterId = getChampionRosterFromBracket(
-    league.winnersBracket as SleeperBracketMatchup[] | null,
-    numPlayoffTeams,
-  );
 
   return NextResponse.json({
     league: {
@@ -220,20 +251,7 @@ export async function GET(
     },
     familyId: resolvedFamilyId,
     seasons,
-    rosters: rosters
-      .map((r) => ({
-        rosterId: r.rosterId,
-        ownerId: r.ownerId,
-        wins: r.wins || 0,
-        losses: r.losses || 0,
-        ties: r.ties || 0,
-        fpts: r.fpts || 0,
-        fptsAgainst: r.fptsAgainst || 0,
-        seasonsPlayed: 1,
-        championshipYears:
-          champRosterId === r.rosterId ? [league.season] : [],
-      }))
-      .sort(compareStandings),
+    rosters: seasonStandings(league, rosters),
     users: demoSwap ? users.map((u) => swapLeagueUser(u, demoSwap)) : users,
   });
 }
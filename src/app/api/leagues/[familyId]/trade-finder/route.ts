@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from "next/server";
+import { isEnabled } from "@/lib/featureFlags";
+import { resolveFamily } from "@/lib/familyResolution";
+import { getDemoSwapForRequest } from "@/lib/demoServer";
+import { lookupSwap } from "@/lib/demoAnonymize";
+import { findTradesForManager } from "@/services/tradeFinder";
+
+/**
+ * GET /api/leagues/[familyId]/trade-finder?userId=123456789
+ *
+ * Positional exposure for every roster in the family's current league, plus
+ * value-balanced trade suggestions for the given manager. Gated by the
+ * TRADE_FINDER flag.
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { familyId: string } },
+) {
+  if (!isEnabled("TRADE_FINDER")) {
+    return NextResponse.json({ error: "Not found" }, { status: 404 });
+  }
+
+  const userId = req.nextUrl.searchParams.get("userId");
+  if (!userId) {
+    return NextResponse.json({ error: "userId is required" }, { status: 400 });
+  }
+
+  const resolvedFamilyId = await resolveFamily(params.familyId);
+  if (!resolvedFamilyId) {
+    return NextResponse.json({ error: "League family not found" }, { status: 404 });
+  }
+
+  const demoSwap = await getDemoSwapForRequest(req, resolvedFamilyId);
+  const result = await findTradesForManager(
+    resolvedFamilyId,
+    userId,
+    demoSwap
+      ? (ownerId, rosterId) => lookupSwap(demoSwap, ownerId, rosterId)?.displayName ?? null
+      : undefined,
+  );
+  if (!result) {
+    return NextResponse.json({ error: "Roster not found" }, { status: 404 });
+  }
+
+  return NextResponse.json(result);
+}
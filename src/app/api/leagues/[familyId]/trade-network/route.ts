@@ -0,0 +1,35 @@
+/**
+ * GET /api/leagues/:familyId/trade-network?season=2024
+ *
+ * Manager-to-manager trade network for a league family: one node per
+ * manager who has traded, one edge per trading pair with the trade count,
+ * FantasyCalc value and PAR that flowed each way, and the trades
+ * themselves. `season` narrows to one season; omit it for all time.
+ * Built by `loadTradeNetwork` (src/services/tradeNetwork.ts).
+ *
+ * PUBLIC-BY-DESIGN: no session check, like the other /api/leagues/:familyId/*
+ * routes.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { resolveFamily } from "@/lib/familyResolution";
+import { getDemoSwapForRequest } from "@/lib/demoServer";
+import { loadTradeNetwork } from "@/services/tradeNetwork";
+
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { familyId: string } },
+) {
+  const season = req.nextUrl.searchParams.get("season");
+  if (season !== null && !/^\d{4}$/.test(season)) {
+    return NextResponse.json({ error: "Invalid season" }, { status: 400 });
+  }
+
+  const resolvedFamilyId = await resolveFamily(params.familyId);
+  if (!resolvedFamilyId) {
+    return NextResponse.json({ error: "League family not found" }, { status: 404 });
+  }
+
+  const demoSwap = await getDemoSwapForRequest(req, resolvedFamilyId);
+  return NextResponse.json(await loadTradeNetwork(resolvedFamilyId, season, demoSwap));
+}
@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from "next/server";
+import { computeTradeCounterfactual } from "@/services/tradeCounterfactual";
+
+/**
+ * GET /api/leagues/[familyId]/transactions/[txId]/counterfactual
+ *
+ * Replays the trade's season without it: both rosters' optimal lineups are
+ * re-solved with the traded players swapped back, and points, weekly results
+ * and regular-season seeding are recomputed for the affected weeks.
+ */
+export async function GET(
+  _req: NextRequest,
+  { params }: { params: { familyId: string; txId: string } },
+) {
+  const { familyId, txId } = params;
+
+  const result = await computeTradeCounterfactual(familyId, txId);
+  if (!result) {
+    return NextResponse.json({ error: "Trade not found" }, { status: 404 });
+  }
+
+  return NextResponse.json(result);
+}
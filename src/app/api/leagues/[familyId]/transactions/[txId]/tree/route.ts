@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from "next/server";
+import { resolveFamily } from "@/lib/familyResolution";
+import { getDemoSwapForRequest } from "@/lib/demoServer";
+import { computeTradeTree } from "@/services/tradeTree";
+
+/**
+ * GET /api/leagues/[familyId]/transactions/[txId]/tree
+ *
+ * Everything each side of a trade eventually turned the trade into: tenure
+ * chains are followed through later re-trades and pick-to-player draft
+ * conversions, and each side's starter points, points above replacement and
+ * current value are totalled.
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { familyId: string; txId: string } },
+) {
+  const resolvedFamilyId = await resolveFamily(params.familyId);
+  if (!resolvedFamilyId) {
+    return NextResponse.json({ error: "League family not found" }, { status: 404 });
+  }
+
+  const demoSwap = await getDemoSwapForRequest(req, resolvedFamilyId);
+  const result = await computeTradeTree(resolvedFamilyId, params.txId, demoSwap);
+  if (!result) {
+    return NextResponse.json({ error: "Trade not found" }, { status: 404 });
+  }
+
+  return NextResponse.json(result);
+}
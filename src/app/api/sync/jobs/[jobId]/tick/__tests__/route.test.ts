@@ -75,6 +75,7 @@ const runChunkMock = jest.fn();
 jest.mock("@/services/chunkedSync", () => ({
   buildFamilyStages: (...args: unknown[]) => buildFamilyStagesMock(...args),
   runChunk: (...args: unknown[]) => runChunkMock(...args),
+  DEFAULT_SYNC_CALL_BUDGET: { callsPerMinute: 600, burst: 300 },
 }));
 
 jest.mock("@/lib/observability/syncBreadcrumb", () => ({
@@ -237,6 +238,7 @@ describe("POST /api/sync/jobs/[jobId]/tick", () => {
       stagesTotal: 2,
       currentStageKey: "season:2022",
       currentStageLabel: "season 1 of 2",
+      deferred: true,
     });
 
     const res = await POST(makeRequest() as never, ctx("j1"));
@@ -247,6 +249,11 @@ describe("POST /api/sync/jobs/[jobId]/tick", () => {
       stagesCompleted: 1,
       stagesTotal: 2,
       currentStageLabel: "season 1 of 2",
+      deferred: true,
+    });
+    // Ticks run on the Sleeper call budget
+    expect(runChunkMock.mock.calls[0][2]).toMatchObject({
+      callBudget: { callsPerMinute: 600, burst: 300 },
     });
     expect(releaseSyncLockMock).not.toHaveBeenCalled();
   });
@@ -10,6 +10,8 @@
  *      tick).
  *   3. Runs stages until the 25s budget is exhausted, then returns the
  *      current cursor + label so the client can update the helix copy.
+ *      A job over its Sleeper call budget returns early with
+ *      `deferred: true`; the client's next tick picks the stage back up.
  *   4. On the final stage, releases the sync lock + returns
  *      `status: "completed"`.
  *
@@ -37,7 +39,11 @@ import { NextRequest, NextResponse } from "next/server";
 import { eq, inArray, sql } from "drizzle-orm";
 import { getDb, schema } from "@/db";
 import { releaseSyncLock } from "@/services/syncLock";
-import { buildFamilyStages, runChunk } from "@/services/chunkedSync";
+import {
+  buildFamilyStages,
+  DEFAULT_SYNC_CALL_BUDGET,
+  runChunk,
+} from "@/services/chunkedSync";
 import { recordSyncBreadcrumb } from "@/lib/observability/syncBreadcrumb";
 import { withSyncTransaction } from "@/lib/observability/withSyncTransaction";
 
@@ -57,6 +63,7 @@ interface TickResponse {
   stagesCompleted: number;
   stagesTotal: number;
   currentStageLabel: string | null;
+  deferred?: boolean;
   error?: string | null;
 }
 
@@ -194,7 +201,11 @@ export async function POST(
     const result = await withSyncTransaction(
       "chunked-tick",
       "sync.family",
-      () => runChunk(jobId, stages, { deadlineAt })
+      () =>
+        runChunk(jobId, stages, {
+          deadlineAt,
+          callBudget: DEFAULT_SYNC_CALL_BUDGET,
+        })
     );
 
     if (result.status === "completed") {
@@ -238,6 +249,7 @@ export async function POST(
       stagesCompleted: result.stagesCompleted,
       stagesTotal: result.stagesTotal,
       currentStageLabel: result.currentStageLabel,
+      deferred: result.deferred,
     } satisfies TickResponse);
   } catch (err) {
     const message = err instanceof Error ? err.message : String(err);
@@ -0,0 +1,131 @@
+/**
+ * @jest-environment node
+ *
+ * /api/sync/jobs: the sync-health listing and the force-resync action.
+ * Both MUST go through the same bearer / same-origin gate as
+ * /api/sync/league, and force resync MUST surface a held lock as a 409 instead of
+ * starting a second run. The service is mocked at the module boundary.
+ */
+
+const isEnabledMock = jest.fn();
+const resolveFamilyMock = jest.fn();
+const loadSyncHealthMock = jest.fn();
+const forceResyncMock = jest.fn();
+
+jest.mock("@/lib/featureFlags", () => ({
+  isEnabled: (...args: unknown[]) => isEnabledMock(...args),
+}));
+
+jest.mock("@/lib/familyResolution", () => ({
+  resolveFamily: (...args: unknown[]) => resolveFamilyMock(...args),
+}));
+
+jest.mock("@/services/syncHealth", () => ({
+  loadSyncHealth: (...args: unknown[]) => loadSyncHealthMock(...args),
+  forceResync: (...args: unknown[]) => forceResyncMock(...args),
+}));
+
+import { GET, POST } from "../route";
+
+const bearer = { authorization: "Bearer test-cron-secret" };
+
+function makeGet(query = "", headers: Record<string, string> = bearer) {
+  const url = `http://localhost/api/sync/jobs${query}`;
+  return Object.assign(new Request(url, { headers }), { nextUrl: new URL(url) }) as unknown as Parameters<typeof GET>[0];
+}
+
+function makePost(body: Record<string, unknown>, headers: Record<string, string> = {}) {
+  return new Request("http://localhost/api/sync/jobs", {
+    method: "POST",
+    headers: { "content-type": "application/json", ...headers },
+    body: JSON.stringify(body),
+  }) as unknown as Parameters<typeof POST>[0];
+}
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  isEnabledMock.mockReturnValue(true);
+  resolveFamilyMock.mockImplementation(async (id: string) => (id === "unknown" ? null : "fam-1"));
+  process.env.CRON_SECRET = "test-cron-secret";
+});
+
+afterAll(() => {
+  delete process.env.CRON_SECRET;
+});
+
+describe("GET /api/sync/jobs", () => {
+  it("404s when the flag is off", async () => {
+    isEnabledMock.mockReturnValue(false);
+    const res = await GET(makeGet());
+    expect(res.status).toBe(404);
+    expect(loadSyncHealthMock).not.toHaveBeenCalled();
+  });
+
+  it("returns the report, scoped to a resolved family and limit", async () => {
+    loadSyncHealthMock.mockResolvedValue({ families: [], jobsScanned: 0 });
+    const res = await GET(makeGet("?familyId=root-league&limit=50"));
+    expect(res.status).toBe(200);
+    expect(loadSyncHealthMock).toHaveBeenCalledWith({ familyId: "fam-1", limit: 50 });
+  });
+
+  it("404s an unknown family", async () => {
+    const res = await GET(makeGet("?familyId=unknown"));
+    expect(res.status).toBe(404);
+  });
+
+  it("401s without bearer or a same-origin fetch", async () => {
+    expect((await GET(makeGet("", {}))).status).toBe(401);
+    expect((await GET(makeGet("", { "sec-fetch-site": "cross-site" }))).status).toBe(401);
+    expect(loadSyncHealthMock).not.toHaveBeenCalled();
+  });
+
+  it("serves the page's same-origin fetch", async () => {
+    loadSyncHealthMock.mockResolvedValue({ families: [], jobsScanned: 0 });
+    const res = await GET(makeGet("", { "sec-fetch-site": "same-origin" }));
+    expect(res.status).toBe(200);
+  });
+});
+
+describe("POST /api/sync/jobs", () => {
+  it("401s without bearer or matching origin", async () => {
+    const res = await POST(makePost({ familyId: "fam-1" }));
+    expect(res.status).toBe(401);
+    expect(forceResyncMock).not.toHaveBeenCalled();
+  });
+
+  it("401s a cross-site origin", async () => {
+    const res = await POST(
+      makePost({ familyId: "fam-1" }, { origin: "https://evil-site.com", host: "localhost" }),
+    );
+    expect(res.status).toBe(401);
+  });
+
+  it("starts a resync for a same-origin request", async () => {
+    forceResyncMock.mockResolvedValue({ status: "started", jobId: "job-new" });
+    const res = await POST(
+      makePost({ familyId: "root-league" }, { origin: "https://localhost", host: "localhost" }),
+    );
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual({ jobId: "job-new", familyId: "fam-1" });
+    expect(forceResyncMock).toHaveBeenCalledWith("fam-1");
+  });
+
+  it("409s with the live job when the lock is held", async () => {
+    forceResyncMock.mockResolvedValue({ status: "locked", jobId: "job-live" });
+    const res = await POST(makePost({ familyId: "fam-1" }, bearer));
+    expect(res.status).toBe(409);
+    expect((await res.json()).jobId).toBe("job-live");
+  });
+
+  it("400s without a familyId and 404s an unknown one", async () => {
+    expect((await POST(makePost({}, bearer))).status).toBe(400);
+    expect((await POST(makePost({ familyId: "unknown" }, bearer))).status).toBe(404);
+    expect(forceResyncMock).not.toHaveBeenCalled();
+  });
+
+  it("404s when the flag is off, before auth", async () => {
+    isEnabledMock.mockReturnValue(false);
+    const res = await POST(makePost({ familyId: "fam-1" }, bearer));
+    expect(res.status).toBe(404);
+  });
+});
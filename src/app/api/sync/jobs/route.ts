@@ -0,0 +1,102 @@
+/**
+ * GET /api/sync/jobs?familyId&limit
+ *
+ * Recent family sync jobs grouped by family, for the /sync-health operator
+ * page: durations, stage timings, failure reasons and API-call cost, with
+ * failing families and orphaned locks flagged. `limit` caps how many of
+ * the newest jobs are scanned.
+ *
+ * POST /api/sync/jobs  { familyId }
+ *
+ * Force a family resync through the normal sync lock. Returns the new
+ * `jobId`; the caller drives it with `/api/sync/jobs/[jobId]/tick`. A live
+ * run holds the lock, so this 409s with that run's id instead. Accepts
+ * bearer (operators via curl) or same-origin (the page), like
+ * /api/sync/league.
+ *
+ * Both gated by the SYNC_HEALTH flag and the same bearer / same-origin
+ * check.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { isEnabled } from "@/lib/featureFlags";
+import { resolveFamily } from "@/lib/familyResolution";
+import { isAuthorizedCron, isSameOriginRequest } from "@/app/api/cron/_lib/auth";
+import { forceResync, loadSyncHealth } from "@/services/syncHealth";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function GET(req: NextRequest) {
+  if (!isEnabled("SYNC_HEALTH")) {
+    return NextResponse.json({ error: "Not found" }, { status: 404 });
+  }
+  if (!isAuthorizedCron(req) && !isSameOriginRequest(req)) {
+    return NextResponse.json({ error: "unauthorized" }, { status: 401 });
+  }
+
+  const params = req.nextUrl.searchParams;
+  const limit = Number.parseInt(params.get("limit") ?? "", 10);
+
+  try {
+    let familyId: string | undefined;
+    const input = params.get("familyId");
+    if (input) {
+      const resolved = await resolveFamily(input);
+      if (!resolved) {
+        return NextResponse.json({ error: "Unknown family" }, { status: 404 });
+      }
+      familyId = resolved;
+    }
+
+    const report = await loadSyncHealth({
+      familyId,
+      limit: Number.isFinite(limit) ? limit : undefined,
+    });
+    return NextResponse.json(report);
+  } catch (e) {
+    console.error("[sync jobs API]", e);
+    return NextResponse.json({ error: "Failed to load sync jobs." }, { status: 500 });
+  }
+}
+
+export async function POST(req: NextRequest) {
+  if (!isEnabled("SYNC_HEALTH")) {
+    return NextResponse.json({ error: "Not found" }, { status: 404 });
+  }
+  if (!isAuthorizedCron(req) && !isSameOriginRequest(req)) {
+    return NextResponse.json({ error: "unauthorized" }, { status: 401 });
+  }
+
+  let body: { familyId?: unknown };
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+  if (!body.familyId || typeof body.familyId !== "string") {
+    return NextResponse.json({ error: "familyId is required" }, { status: 400 });
+  }
+
+  try {
+    const familyId = await resolveFamily(body.familyId);
+    if (!familyId) {
+      return NextResponse.json({ error: "Unknown family" }, { status: 404 });
+    }
+
+    const result = await forceResync(familyId);
+    if (result.status === "no_leagues") {
+      return NextResponse.json({ error: "Family has no member leagues" }, { status: 404 });
+    }
+    if (result.status === "locked") {
+      return NextResponse.json(
+        { error: "A sync is already running for this league family", jobId: result.jobId },
+        { status: 409 },
+      );
+    }
+    return NextResponse.json({ jobId: result.jobId, familyId });
+  } catch (e) {
+    console.error("[sync jobs API]", e);
+    return NextResponse.json({ error: "Failed to start sync." }, { status: 500 });
+  }
+}
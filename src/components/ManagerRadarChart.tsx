@@ -6,23 +6,31 @@ import {
   PolarAngleAxis,
   PolarRadiusAxis,
   Radar,
+  Legend,
   ResponsiveContainer,
 } from "recharts";
 
 import { PILLAR_LABELS } from "@/lib/pillars";
 
+type PillarScores = Record<string, { value: number; grade: string; percentile: number } | null>;
+
 interface ManagerRadarChartProps {
-  pillarScores: Record<string, { value: number; grade: string; percentile: number } | null>;
+  pillarScores: PillarScores;
+  /** Series name; shown in the legend when there's a comparison. */
+  name?: string;
+  /** Second manager overlaid on the same axes (head-to-head). */
+  compare?: { name: string; pillarScores: PillarScores };
 }
 
-export function ManagerRadarChart({ pillarScores }: ManagerRadarChartProps) {
+export function ManagerRadarChart({ pillarScores, name = "Score", compare }: ManagerRadarChartProps) {
   const data = Object.entries(PILLAR_LABELS).map(([key, label]) => ({
     pillar: label,
     score: pillarScores[key]?.percentile ?? 0,
+    compare: compare?.pillarScores[key]?.percentile ?? 0,
     fullMark: 100,
   }));
 
-  const hasData = data.some((d) => d.score > 0);
+  const hasData = data.some((d) => d.score > 0 || d.compare > 0);
   if (!hasData) {
     return (
       <div className="flex items-center justify-center h-64 text-muted-foreground text-sm">
@@ -46,13 +54,24 @@ export function ManagerRadarChart({ pillarScores }: ManagerRadarChartProps) {
           tickCount={5}
         />
         <Radar
-          name="Score"
+          name={name}
           dataKey="score"
           stroke="hsl(var(--primary))"
           fill="hsl(var(--primary))"
           fillOpacity={0.2}
           strokeWidth={2}
         />
+        {compare && (
+          <Radar
+            name={compare.name}
+            dataKey="compare"
+            stroke="rgb(var(--chart-2))"
+            fill="rgb(var(--chart-2))"
+            fillOpacity={0.15}
+            strokeWidth={2}
+          />
+        )}
+        {compare && <Legend wrapperStyle={{ fontSize: 12 }} />}
       </RadarChart>
     </ResponsiveContainer>
   );
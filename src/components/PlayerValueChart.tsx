@@ -0,0 +1,204 @@
+"use client";
+
+import {
+  ComposedChart,
+  Line,
+  XAxis,
+  YAxis,
+  Tooltip,
+  ReferenceArea,
+  ReferenceLine,
+  ResponsiveContainer,
+} from "recharts";
+import { ManagerName } from "@/components/ManagerName";
+import type { ValueHistoryResponse } from "@/app/api/leagues/[familyId]/player/[playerId]/value-history/route";
+
+const TENURE_COLORS = [1, 2, 3, 4, 5, 6].map((n) => `rgb(var(--chart-${n}))`);
+
+const EVENT_LABELS: Record<string, string> = {
+  draft_selected: "Drafted",
+  trade: "Trade",
+  waiver_add: "Waiver add",
+  waiver_drop: "Dropped",
+  free_agent_add: "FA add",
+  free_agent_drop: "Dropped",
+  commissioner: "Commissioner",
+};
+
+function dayMs(date: string): number {
+  return Date.parse(`${date}T00:00:00Z`);
+}
+
+function formatDate(ms: number): string {
+  return new Date(ms).toLocaleDateString(undefined, {
+    month: "short",
+    year: "2-digit",
+    timeZone: "UTC",
+  });
+}
+
+interface ChartRow {
+  t: number;
+  value?: number;
+  trailingPpg?: number;
+}
+
+interface PlayerValueChartProps {
+  history: ValueHistoryResponse;
+}
+
+/**
+ * Dynasty value and trailing PPG over time, with each manager's stint
+ * shaded behind the lines and a marker at every transaction.
+ */
+export function PlayerValueChart({ history }: PlayerValueChartProps) {
+  const rows = new Map<number, ChartRow>();
+  for (const v of history.values) {
+    const t = dayMs(v.date);
+    rows.set(t, { ...rows.get(t), t, value: v.value });
+  }
+  for (const p of history.production) {
+    const t = dayMs(p.date);
+    rows.set(t, { ...rows.get(t), t, trailingPpg: p.trailingPpg });
+  }
+  const data = [...rows.values()].sort((a, b) => a.t - b.t);
+
+  if (data.length === 0) {
+    return (
+      <div className="flex items-center justify-center h-48 text-muted-foreground text-sm">
+        No value history yet
+      </div>
+    );
+  }
+
+  const first = data[0].t;
+  const last = data[data.length - 1].t;
+  const colorByUser = new Map<string, string>();
+  for (const t of history.tenures) {
+    if (!colorByUser.has(t.userId)) {
+      colorByUser.set(t.userId, TENURE_COLORS[colorByUser.size % TENURE_COLORS.length]);
+    }
+  }
+
+  return (
+    <div>
+      <ResponsiveContainer width="100%" height={280}>
+        <ComposedChart data={data} margin={{ top: 8, right: 8, bottom: 0, left: 0 }}>
+          {history.tenures.map((t, i) => (
+            <ReferenceArea
+              key={`${t.userId}-${i}`}
+              yAxisId="value"
+              x1={t.start ? Math.max(dayMs(t.start), first) : first}
+              x2={t.end ? Math.min(dayMs(t.end), last) : last}
+              fill={colorByUser.get(t.userId)}
+              fillOpacity={0.08}
+              ifOverflow="hidden"
+            />
+          ))}
+          {history.transactions
+            .filter((tx) => tx.eventType === "trade")
+            .map((tx, i) => (
+              <ReferenceLine
+                key={`${tx.transactionId ?? tx.date}-${i}`}
+                yAxisId="value"
+                x={dayMs(tx.date)}
+                stroke="hsl(var(--muted-foreground))"
+                strokeDasharray="3 3"
+                ifOverflow="hidden"
+              />
+            ))}
+          <XAxis
+            dataKey="t"
+            type="number"
+            scale="time"
+            domain={[first, last]}
+            tickFormatter={formatDate}
+            tick={{ fill: "hsl(var(--muted-foreground))", fontSize: 11 }}
+            stroke="hsl(var(--border))"
+          />
+          <YAxis
+            yAxisId="value"
+            tick={{ fill: "hsl(var(--muted-foreground))", fontSize: 11 }}
+            stroke="hsl(var(--border))"
+            width={44}
+          />
+          <YAxis
+            yAxisId="ppg"
+            orientation="right"
+            tick={{ fill: "hsl(var(--muted-foreground))", fontSize: 11 }}
+            stroke="hsl(var(--border))"
+            width={32}
+          />
+          <Tooltip
+            labelFormatter={(t) =>
+              new Date(Number(t)).toLocaleDateString(undefined, { timeZone: "UTC" })
+            }
+            contentStyle={{
+              background: "hsl(var(--card))",
+              border: "1px solid hsl(var(--border))",
+              fontSize: 12,
+            }}
+          />
+          <Line
+            yAxisId="value"
+            dataKey="value"
+            name="Dynasty value"
+            stroke="hsl(var(--primary))"
+            strokeWidth={2}
+            dot={false}
+            connectNulls
+          />
+          <Line
+            yAxisId="ppg"
+            dataKey="trailingPpg"
+            name="Trailing PPG"
+            stroke="rgb(var(--chart-2))"
+            strokeWidth={1.5}
+            dot={{ r: 1.5 }}
+            connectNulls
+          />
+        </ComposedChart>
+      </ResponsiveContainer>
+
+      {history.tenures.length > 0 && (
+        <ul className="mt-4 space-y-1.5 text-sm">
+          {history.tenures.map((t, i) => {
+            const change =
+              t.valueIn !== null && t.valueOut !== null ? t.valueOut - t.valueIn : null;
+            return (
+              <li key={`${t.userId}-${i}`} className="flex flex-wrap items-center gap-x-3 gap-y-1">
+                <span
+                  className="inline-block h-2.5 w-2.5 rounded-sm shrink-0"
+                  style={{ background: colorByUser.get(t.userId) }}
+                />
+                <span className="font-medium">
+                  <ManagerName
+                    userId={t.userId}
+                    displayName={t.displayName}
+                    variant="display-only"
+                  />
+                </span>
+                <span className="text-muted-foreground">
+                  {t.acquiredVia ? (EVENT_LABELS[t.acquiredVia] ?? t.acquiredVia) : "Before log"}
+                  {" · "}
+                  {t.start ?? "—"} → {t.end ?? "now"}
+                </span>
+                <span className="font-mono text-muted-foreground">
+                  {t.valueIn ?? "—"} → {t.valueOut ?? "—"}
+                </span>
+                {change !== null && change !== 0 && (
+                  <span
+                    className={`font-mono ${change > 0 ? "text-grade-a" : "text-grade-f"}`}
+                  >
+                    {change > 0 ? "+" : ""}
+                    {change}
+                  </span>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -7,6 +7,7 @@ import { Menu, X, ChevronDown } from "lucide-react";
 import { BrandLockup } from "./BrandMark";
 import { DemoChip } from "./DemoIndicators";
 import { useClickOutside } from "@/lib/useClickOutside";
+import { isEnabled } from "@/lib/featureFlags";
 import { useDemoActive } from "@/lib/useDemoMap";
 import { useScrolled } from "@/lib/useScrolled";
 import {
@@ -16,7 +17,7 @@ import {
 } from "@/lib/storedUsername";
 
 const navLinks: Array<{ href: string; label: string; soon?: boolean }> = [
-  { href: "/trade-finder", label: "Trade Finder", soon: true },
+  { href: "/trade-finder", label: "Trade Finder", soon: !isEnabled("TRADE_FINDER") },
   { href: "/roadmap", label: "Roadmap" },
   { href: "/changelog", label: "Changelog" },
   { href: "/experiments", label: "Evals" },
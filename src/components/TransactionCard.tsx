@@ -54,6 +54,8 @@ interface TradeGrade {
   productionWeight: number | null;
   productionWeeks: number | null;
   fantasyCalcValue: number | null;
+  fantasyCalcValueAtTrade?: number | null;
+  valueAsOf?: string | null;
 }
 
 export interface TransactionData {
@@ -129,6 +131,34 @@ function GradeContext({ productionWeight }: { productionWeight: number | null })
   );
 }
 
+/**
+ * Value received at trade time vs. today. The gap separates a bad trade
+ * (low value at the time) from bad luck afterward (value collapsed later).
+ * Falls back to today's value alone when no snapshot predates the trade.
+ */
+function ValueReceived({ grade }: { grade: TradeGrade }) {
+  const today = grade.fantasyCalcValue;
+  const atTrade = grade.fantasyCalcValueAtTrade;
+  if (atTrade != null) {
+    const asOf = grade.valueAsOf ? formatDate(Date.parse(grade.valueAsOf)) : null;
+    return (
+      <span
+        className="text-[10px] text-muted-foreground"
+        title={asOf ? `Trade-time values from ${asOf}` : undefined}
+      >
+        {Math.round(atTrade).toLocaleString()} value at trade time
+        {today != null && <> &middot; {Math.round(today).toLocaleString()} today</>}
+      </span>
+    );
+  }
+  if (today == null || today <= 0) return null;
+  return (
+    <span className="text-[10px] text-muted-foreground">
+      {Math.round(today).toLocaleString()} value received
+    </span>
+  );
+}
+
 export function TransactionCard({ tx, familyId }: {
   tx: TransactionData;
   familyId?: string;
@@ -197,11 +227,7 @@ function TradeCard({ tx, familyId }: { tx: TransactionData; familyId?: string })
             {side.grade && (
               <div className="flex items-center gap-2">
                 <GradeContext productionWeight={side.grade.productionWeight} />
-                {side.grade.fantasyCalcValue != null && side.grade.fantasyCalcValue > 0 && (
-                  <span className="text-[10px] text-muted-foreground">
-                    {Math.round(side.grade.fantasyCalcValue).toLocaleString()} value received
-                  </span>
-                )}
+                <ValueReceived grade={side.grade} />
               </div>
             )}
             {side.received.length > 0 && (
@@ -63,9 +63,9 @@ export function AssetPicker({ familyId, onPick }: AssetPickerProps) {
     if (!q) return data.picks.slice(0, 200);
     return data.picks
       .filter((p) => {
-        const haystack = `${p.season} ${p.round} ${p.originalOwnerName ?? ""} ${
-          p.resolvedPlayerName ?? ""
-        }`.toLowerCase();
+        const haystack = `${p.season} ${p.round} ${p.projectedPick ?? ""} ${
+          p.originalOwnerName ?? ""
+        } ${p.resolvedPlayerName ?? ""}`.toLowerCase();
         return haystack.includes(q);
       })
       .slice(0, 200);
@@ -225,8 +225,15 @@ function PickList({
             className="flex w-full items-center justify-between rounded-md px-3 py-2 text-left text-sm hover:bg-sage-50"
           >
             <span className="font-medium">
-              {p.season} · {p.round}
-              {getRoundSuffix(p.round)} round
+              {p.season} ·{" "}
+              {p.projectedPick ? (
+                <>projected {p.projectedPick}</>
+              ) : (
+                <>
+                  {p.round}
+                  {getRoundSuffix(p.round)} round
+                </>
+              )}
             </span>
             <span className="text-xs text-muted-foreground inline-flex items-center gap-1 align-middle">
               {p.originalOwnerName ?? "Unknown owner"}
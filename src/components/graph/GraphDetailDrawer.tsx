@@ -214,7 +214,17 @@ function NodeDetail({
 
   // transaction node
   if (node.transactionId && transactions[node.transactionId]) {
-    return <TransactionCard tx={toTransactionData(transactions[node.transactionId])} familyId={familyId} />;
+    const tx = transactions[node.transactionId];
+    if (tx.type !== "trade") {
+      return <TransactionCard tx={toTransactionData(tx)} familyId={familyId} />;
+    }
+    return (
+      <div className="space-y-3">
+        <TransactionCard tx={toTransactionData(tx)} familyId={familyId} />
+        <TradeCounterfactualPanel familyId={familyId} tx={tx} />
+        <TradeTreePanel familyId={familyId} tx={tx} />
+      </div>
+    );
   }
 
   // draft transaction (no transactionId — render summary from node data)
@@ -450,6 +460,261 @@ function PlayerStintStats({
   );
 }
 
+interface CounterfactualRecordResponse {
+  wins: number;
+  losses: number;
+  ties: number;
+  pointsFor: number;
+  seed: number | null;
+  madePlayoffs: boolean;
+}
+
+interface CounterfactualResponse {
+  tradeWeek: number;
+  lastWeek: number | null;
+  picksExcluded: number;
+  sides: Array<{
+    rosterId: number;
+    actual: CounterfactualRecordResponse;
+    counterfactual: CounterfactualRecordResponse;
+    pointsDelta: number;
+    flippedWeeks: number;
+  }>;
+}
+
+type CounterfactualState =
+  | { status: "loading" }
+  | { status: "error" }
+  | { status: "ok"; data: CounterfactualResponse };
+
+function useTradeCounterfactual(familyId: string, txId: string): CounterfactualState {
+  const [state, setState] = useState<CounterfactualState>({ status: "loading" });
+  const url = `/api/leagues/${familyId}/transactions/${encodeURIComponent(txId)}/counterfactual`;
+  useEffect(() => {
+    let cancelled = false;
+    setState({ status: "loading" });
+    fetch(url)
+      .then((res) => (res.ok ? res.json() : Promise.reject()))
+      .then((data: CounterfactualResponse) => {
+        if (!cancelled) setState({ status: "ok", data });
+      })
+      .catch(() => {
+        if (!cancelled) setState({ status: "error" });
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [url]);
+  return state;
+}
+
+function fmtRecord(r: CounterfactualRecordResponse): string {
+  return r.ties > 0 ? `${r.wins}-${r.losses}-${r.ties}` : `${r.wins}-${r.losses}`;
+}
+
+function fmtSigned(n: number): string {
+  return `${n > 0 ? "+" : ""}${n.toFixed(1)}`;
+}
+
+function playoffHint(actual: boolean, replay: boolean): string {
+  if (actual === replay) return actual ? "playoffs either way" : "missed either way";
+  return replay ? "would have made playoffs" : "would have missed playoffs";
+}
+
+/**
+ * "What if this trade never happened?" — each side's season replayed with
+ * the traded players swapped back. Shown under the trade card.
+ */
+function TradeCounterfactualPanel({
+  familyId,
+  tx,
+}: {
+  familyId: string;
+  tx: EnrichedTransaction;
+}) {
+  const state = useTradeCounterfactual(familyId, tx.id);
+
+  if (state.status === "loading") {
+    return (
+      <div className="grid grid-cols-3 gap-2">
+        {[0, 1, 2].map((i) => (
+          <div key={i} className="h-14 rounded-md bg-muted animate-pulse" />
+        ))}
+      </div>
+    );
+  }
+
+  if (
+    state.status === "error" ||
+    state.data.sides.length === 0 ||
+    state.data.lastWeek === null
+  ) {
+    return (
+      <p className="text-xs text-muted-foreground">
+        No scored weeks after this trade to replay.
+      </p>
+    );
+  }
+
+  const { data } = state;
+  const weekRange =
+    data.lastWeek === data.tradeWeek
+      ? `W${data.tradeWeek}`
+      : `W${data.tradeWeek}–${data.lastWeek}`;
+  return (
+    <div className="space-y-2">
+      <SubLabel>Without this trade ({tx.season} · {weekRange})</SubLabel>
+      {data.sides.map((side) => {
+        const manager = tx.managers.find((m) => m.rosterId === side.rosterId);
+        return (
+          <div key={side.rosterId} className="space-y-1.5">
+            <p className="text-sm font-semibold">
+              <ManagerName
+                rosterId={side.rosterId}
+                displayName={manager?.name ?? `Roster ${side.rosterId}`}
+                variant="display-only"
+              />
+            </p>
+            <div className="grid grid-cols-3 gap-2 max-lg:gap-1">
+              <StatTile
+                label="Points"
+                value={fmtSigned(side.pointsDelta)}
+                hint={`${side.flippedWeeks} result${side.flippedWeeks === 1 ? "" : "s"} flip`}
+              />
+              <StatTile
+                label="Record"
+                value={fmtRecord(side.counterfactual)}
+                hint={`was ${fmtRecord(side.actual)}`}
+              />
+              <StatTile
+                label="Seed"
+                value={side.counterfactual.seed != null ? `#${side.counterfactual.seed}` : "—"}
+                hint={playoffHint(side.actual.madePlayoffs, side.counterfactual.madePlayoffs)}
+              />
+            </div>
+          </div>
+        );
+      })}
+      <p className="text-[11px] text-muted-foreground">
+        Lineup efficiency held constant; other rosters unchanged.
+        {data.picksExcluded > 0 &&
+          ` ${data.picksExcluded} traded pick${data.picksExcluded === 1 ? "" : "s"} not replayed.`}
+      </p>
+    </div>
+  );
+}
+
+interface TradeTreeResponse {
+  sides: Array<{
+    userId: string;
+    displayName: string;
+    totals: {
+      starterPoints: number;
+      par: number;
+      currentValue: number;
+      assets: number;
+      retrades: number;
+      draftConversions: number;
+    };
+  }>;
+}
+
+type TradeTreeState =
+  | { status: "loading" }
+  | { status: "error" }
+  | { status: "ok"; data: TradeTreeResponse };
+
+function useTradeTree(familyId: string, txId: string): TradeTreeState {
+  const [state, setState] = useState<TradeTreeState>({ status: "loading" });
+  const url = `/api/leagues/${familyId}/transactions/${encodeURIComponent(txId)}/tree`;
+  useEffect(() => {
+    let cancelled = false;
+    setState({ status: "loading" });
+    fetch(url)
+      .then((res) => (res.ok ? res.json() : Promise.reject()))
+      .then((data: TradeTreeResponse) => {
+        if (!cancelled) setState({ status: "ok", data });
+      })
+      .catch(() => {
+        if (!cancelled) setState({ status: "error" });
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [url]);
+  return state;
+}
+
+function plural(n: number, word: string): string {
+  return `${n} ${word}${n === 1 ? "" : "s"}`;
+}
+
+/**
+ * Everything each side eventually turned this trade into, following the
+ * assets through later re-trades and drafted picks. Shown under the
+ * counterfactual.
+ */
+function TradeTreePanel({
+  familyId,
+  tx,
+}: {
+  familyId: string;
+  tx: EnrichedTransaction;
+}) {
+  const state = useTradeTree(familyId, tx.id);
+
+  if (state.status === "loading") {
+    return (
+      <div className="grid grid-cols-3 gap-2">
+        {[0, 1, 2].map((i) => (
+          <div key={i} className="h-14 rounded-md bg-muted animate-pulse" />
+        ))}
+      </div>
+    );
+  }
+
+  if (state.status === "error" || state.data.sides.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-2">
+      <SubLabel>What this trade became</SubLabel>
+      {state.data.sides.map((side) => (
+        <div key={side.userId} className="space-y-1.5">
+          <p className="text-sm font-semibold">
+            <ManagerName
+              userId={side.userId}
+              displayName={side.displayName}
+              variant="display-only"
+            />
+          </p>
+          <div className="grid grid-cols-3 gap-2 max-lg:gap-1">
+            <StatTile
+              label="Starter pts"
+              value={side.totals.starterPoints.toFixed(1)}
+              hint={plural(side.totals.assets, "asset")}
+            />
+            <StatTile
+              label="PAR"
+              value={fmtSigned(side.totals.par)}
+              hint={plural(side.totals.retrades, "re-trade")}
+            />
+            <StatTile
+              label="Value now"
+              value={side.totals.currentValue.toLocaleString()}
+              hint={`${plural(side.totals.draftConversions, "pick")} drafted`}
+            />
+          </div>
+        </div>
+      ))}
+      <p className="text-[11px] text-muted-foreground">
+        Bundled re-trades credit their whole return to the tree.
+      </p>
+    </div>
+  );
+}
+
 const COMPARE_METRIC_ROWS = [
   {
     label: "PPG",
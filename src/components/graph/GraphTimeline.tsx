@@ -0,0 +1,157 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Pause, Play, Users } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { ManagerName } from "@/components/ManagerName";
+import {
+  formatTimelinePoint,
+  type RosterAsOf,
+  type TimelinePoint,
+} from "@/lib/graph/timeline";
+
+/** Pause between steps while playing — long enough for the position tween
+ *  (400ms) to settle before the next batch of cards arrives. */
+const PLAY_STEP_MS = 1200;
+
+interface GraphTimelineProps {
+  points: TimelinePoint[];
+  /** Index into `points`, or null for the full history. */
+  index: number | null;
+  onChange: (index: number | null) => void;
+  showRosters: boolean;
+  onToggleRosters: () => void;
+}
+
+/**
+ * Scrubber along the bottom of the canvas. Dragging cuts the graph at a
+ * (season, week); Play steps forward one point at a time so the cards
+ * tween in as the dynasty is built.
+ */
+export function GraphTimeline({
+  points,
+  index,
+  onChange,
+  showRosters,
+  onToggleRosters,
+}: GraphTimelineProps) {
+  const [playing, setPlaying] = useState(false);
+  const last = points.length - 1;
+
+  useEffect(() => {
+    if (!playing) return;
+    if (index !== null && index >= last) {
+      setPlaying(false);
+      return;
+    }
+    const timer = setTimeout(() => onChange(index === null ? 0 : index + 1), PLAY_STEP_MS);
+    return () => clearTimeout(timer);
+  }, [playing, index, last, onChange]);
+
+  if (points.length === 0) return null;
+
+  const current = index === null ? null : points[Math.min(index, last)];
+  return (
+    <div
+      data-graph-timeline
+      className="absolute bottom-3 left-3 right-3 z-20 flex items-center gap-3 rounded-md border border-border bg-card/95 backdrop-blur px-3 py-2 shadow-md"
+    >
+      <Button
+        type="button"
+        variant="ghost"
+        size="sm"
+        aria-label={playing ? "Pause replay" : "Replay history"}
+        onClick={() => {
+          if (!playing && (index === null || index >= last)) onChange(0);
+          setPlaying(!playing);
+        }}
+      >
+        {playing ? <Pause className="h-4 w-4" aria-hidden="true" /> : <Play className="h-4 w-4" aria-hidden="true" />}
+      </Button>
+      <input
+        type="range"
+        min={0}
+        max={last}
+        value={index ?? last}
+        onChange={(e) => {
+          setPlaying(false);
+          onChange(Number(e.target.value));
+        }}
+        aria-label="Timeline"
+        className="flex-1 accent-primary"
+      />
+      <span className="w-24 shrink-0 text-right font-mono text-xs text-foreground">
+        {current ? formatTimelinePoint(current) : "All time"}
+      </span>
+      {index !== null && (
+        <Button
+          type="button"
+          variant="ghost"
+          size="sm"
+          onClick={() => {
+            setPlaying(false);
+            onChange(null);
+          }}
+        >
+          All time
+        </Button>
+      )}
+      <Button
+        type="button"
+        variant={showRosters ? "secondary" : "ghost"}
+        size="sm"
+        onClick={onToggleRosters}
+        aria-pressed={showRosters}
+      >
+        <Users className="h-4 w-4" aria-hidden="true" />
+        Rosters
+      </Button>
+    </div>
+  );
+}
+
+/**
+ * Every manager's holdings at the scrubbed point, rebuilt from the tenures
+ * running then. Floats over the top-left of the canvas.
+ */
+export function RostersAsOfPanel({
+  asOf,
+  rosters,
+}: {
+  asOf: TimelinePoint | null;
+  rosters: RosterAsOf[];
+}) {
+  return (
+    <div className="absolute top-3 left-3 z-20 w-64 max-h-[calc(100%-5rem)] overflow-y-auto rounded-md border border-border bg-card/95 backdrop-blur p-3 shadow-md">
+      <p className="font-mono text-[10px] uppercase tracking-wide text-muted-foreground">
+        Rosters as of {asOf ? formatTimelinePoint(asOf) : "today"}
+      </p>
+      {rosters.length === 0 && (
+        <p className="mt-2 text-xs text-muted-foreground">No assets held yet.</p>
+      )}
+      <div className="mt-2 space-y-1">
+        {rosters.map((r) => (
+          <details key={r.userId} className="group">
+            <summary className="flex cursor-pointer items-center justify-between gap-2 text-sm font-semibold">
+              <ManagerName userId={r.userId} displayName={r.displayName} variant="display-only" />
+              <span className="font-mono text-[10px] font-normal text-muted-foreground">
+                {r.assets.length}
+              </span>
+            </summary>
+            <ul className="mt-1 mb-2 space-y-0.5 pl-2">
+              {r.assets.map((a) => (
+                <li key={a.key} className="flex items-baseline justify-between gap-2 text-xs">
+                  <span className="truncate">{a.label}</span>
+                  <span className="shrink-0 font-mono text-[10px] text-muted-foreground">
+                    {a.assetKind === "pick" ? "pick" : a.position ?? ""}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </details>
+        ))}
+      </div>
+    </div>
+  );
+}
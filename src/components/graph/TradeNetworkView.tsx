@@ -0,0 +1,370 @@
+"use client";
+
+import { memo, useCallback, useEffect, useMemo, useState } from "react";
+import ReactFlow, {
+  Controls,
+  Handle,
+  Position,
+  ReactFlowProvider,
+  type Edge,
+  type EdgeMouseHandler,
+  type Node,
+  type NodeProps,
+  type NodeTypes,
+} from "reactflow";
+import "reactflow/dist/style.css";
+import Link from "next/link";
+import { X } from "lucide-react";
+
+import { cn } from "@/lib/utils";
+import { initialsFromName } from "@/lib/demoAnonymize";
+import { formatDate } from "./transactionHeader";
+import { ManagerName } from "@/components/ManagerName";
+import type {
+  TradeNetwork,
+  TradeNetworkEdge,
+  TradeNetworkManager,
+} from "@/services/tradeNetwork";
+
+type FlowMetric = "value" | "par";
+
+const NODE_SIZE = 112;
+
+interface ManagerNodeData {
+  manager: TradeNetworkManager;
+  dimmed: boolean;
+}
+
+/** Round card with one centred handle, so pair edges run centre to centre. */
+function ManagerNodeImpl({ data }: NodeProps<ManagerNodeData>) {
+  const { manager } = data;
+  return (
+    <div
+      className={cn(
+        "flex flex-col items-center justify-center gap-1 rounded-full border border-sage-300 bg-sage-50 text-card-foreground shadow-sm transition-opacity",
+        data.dimmed && "opacity-30",
+      )}
+      style={{ width: NODE_SIZE, height: NODE_SIZE }}
+      aria-label={`${manager.displayName}: ${manager.trades} trades`}
+    >
+      <Handle type="target" position={Position.Top} className="!left-1/2 !top-1/2 !opacity-0" />
+      <span className="flex h-7 w-7 items-center justify-center rounded-full bg-muted text-[10px] font-semibold text-muted-foreground ring-1 ring-border">
+        {initialsFromName(manager.displayName)}
+      </span>
+      {/* Allowed per design: graph headers may use Source Serif 4 (relaxes marketing-only rule). */}
+      <span className="max-w-[96px] truncate font-serif text-sm font-medium leading-tight text-sage-800">
+        {manager.displayName}
+      </span>
+      <span className="font-mono text-[9px] uppercase tracking-wide text-muted-foreground">
+        {manager.trades} trade{manager.trades === 1 ? "" : "s"}
+      </span>
+      <Handle type="source" position={Position.Bottom} className="!left-1/2 !top-1/2 !opacity-0" />
+    </div>
+  );
+}
+
+const ManagerNode = memo(ManagerNodeImpl);
+ManagerNode.displayName = "ManagerNode";
+
+const nodeTypes: NodeTypes = { manager: ManagerNode };
+
+/**
+ * Managers on a circle, busiest trader first. The network is small (one
+ * node per manager), so a circle keeps every pair's edge visible without
+ * a layout engine.
+ */
+function circlePositions(managers: TradeNetworkManager[]): Map<string, { x: number; y: number }> {
+  const radius = Math.max(180, (managers.length * (NODE_SIZE + 40)) / (2 * Math.PI));
+  return new Map(
+    managers.map((m, i) => {
+      const angle = (2 * Math.PI * i) / managers.length - Math.PI / 2;
+      return [
+        m.userId,
+        { x: radius * Math.cos(angle) - NODE_SIZE / 2, y: radius * Math.sin(angle) - NODE_SIZE / 2 },
+      ];
+    }),
+  );
+}
+
+function fmtFlow(n: number, metric: FlowMetric): string {
+  const sign = n > 0 ? "+" : n < 0 ? "−" : "±";
+  const abs = Math.abs(n);
+  return `${sign}${metric === "par" ? abs.toFixed(1) : Math.round(abs).toLocaleString()}`;
+}
+
+type NetworkState =
+  | { status: "loading" }
+  | { status: "error" }
+  | { status: "ok"; data: TradeNetwork };
+
+function useTradeNetwork(familyId: string, season: string | null): NetworkState {
+  const [state, setState] = useState<NetworkState>({ status: "loading" });
+  const url = `/api/leagues/${familyId}/trade-network${season ? `?season=${season}` : ""}`;
+  useEffect(() => {
+    let cancelled = false;
+    setState({ status: "loading" });
+    fetch(url)
+      .then((res) => (res.ok ? res.json() : Promise.reject()))
+      .then((data: TradeNetwork) => {
+        if (!cancelled) setState({ status: "ok", data });
+      })
+      .catch(() => {
+        if (!cancelled) setState({ status: "error" });
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [url]);
+  return state;
+}
+
+interface TradeNetworkViewProps {
+  familyId: string;
+  season: string | null;
+  onSeasonChange: (season: string | null) => void;
+  /** Open a trade in the lineage view. */
+  onOpenTrade: (transactionId: string) => void;
+}
+
+/**
+ * Who trades with whom: managers as nodes, one edge per trading pair.
+ * Edge width follows trade count; the label is the net value (or PAR)
+ * flow toward the edge's source manager. Clicking an edge lists the
+ * pair's trades.
+ */
+export function TradeNetworkView(props: TradeNetworkViewProps) {
+  return (
+    <ReactFlowProvider>
+      <TradeNetworkInner {...props} />
+    </ReactFlowProvider>
+  );
+}
+
+function TradeNetworkInner({ familyId, season, onSeasonChange, onOpenTrade }: TradeNetworkViewProps) {
+  const state = useTradeNetwork(familyId, season);
+  const [metric, setMetric] = useState<FlowMetric>("value");
+  const [selectedEdgeId, setSelectedEdgeId] = useState<string | null>(null);
+
+  useEffect(() => setSelectedEdgeId(null), [season]);
+
+  const data = state.status === "ok" ? state.data : null;
+  const selectedEdge = data?.edges.find((e) => e.id === selectedEdgeId) ?? null;
+  const names = useMemo(
+    () => new Map((data?.managers ?? []).map((m) => [m.userId, m.displayName])),
+    [data],
+  );
+
+  const flowNodes = useMemo<Node<ManagerNodeData>[]>(() => {
+    if (!data) return [];
+    const positions = circlePositions(data.managers);
+    return data.managers.map((m) => ({
+      id: m.userId,
+      type: "manager",
+      position: positions.get(m.userId)!,
+      data: {
+        manager: m,
+        dimmed:
+          selectedEdge !== null && selectedEdge.source !== m.userId && selectedEdge.target !== m.userId,
+      },
+    }));
+  }, [data, selectedEdge]);
+
+  const flowEdges = useMemo<Edge[]>(() => {
+    if (!data) return [];
+    const maxTrades = Math.max(1, ...data.edges.map((e) => e.trades));
+    return data.edges.map((e) => {
+      const net =
+        metric === "value" ? e.valueToSource - e.valueToTarget : e.parToSource - e.parToTarget;
+      const selected = e.id === selectedEdgeId;
+      return {
+        id: e.id,
+        source: e.source,
+        target: e.target,
+        type: "straight",
+        label: `${e.trades} · ${fmtFlow(net, metric)}`,
+        labelBgPadding: [4, 2] as [number, number],
+        labelStyle: { fontSize: 10, fontFamily: "var(--font-mono)" },
+        style: {
+          stroke: "hsl(var(--primary))",
+          strokeWidth: 1 + (5 * e.trades) / maxTrades,
+          opacity: selectedEdgeId === null || selected ? 0.9 : 0.2,
+        },
+        interactionWidth: 16,
+      };
+    });
+  }, [data, metric, selectedEdgeId]);
+
+  const onEdgeClick = useCallback<EdgeMouseHandler>((_, edge) => setSelectedEdgeId(edge.id), []);
+
+  return (
+    <div className="flex h-full min-h-0">
+      <div className="relative flex-1 min-w-0">
+        <div className="absolute top-3 left-3 z-10 flex items-center gap-2">
+          <select
+            value={season ?? ""}
+            onChange={(e) => onSeasonChange(e.target.value || null)}
+            aria-label="Season"
+            className="h-8 rounded-md border border-border bg-card px-2 text-xs"
+          >
+            <option value="">All seasons</option>
+            {(data?.seasons ?? (season ? [season] : [])).map((s) => (
+              <option key={s} value={s}>
+                {s}
+              </option>
+            ))}
+          </select>
+          <div className="flex gap-1 p-1 bg-muted/50 rounded-lg">
+            {(["value", "par"] as const).map((m) => (
+              <button
+                key={m}
+                type="button"
+                onClick={() => setMetric(m)}
+                className={`px-2 py-0.5 text-xs rounded-md transition-colors ${
+                  metric === m
+                    ? "bg-background text-foreground shadow-sm font-medium"
+                    : "text-muted-foreground hover:text-foreground"
+                }`}
+              >
+                {m === "value" ? "Value" : "PAR"}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {state.status === "loading" && (
+          <div className="h-full w-full p-6">
+            <div className="h-full rounded-lg bg-muted/30 animate-pulse" />
+          </div>
+        )}
+        {state.status === "error" && (
+          <div className="flex h-full items-center justify-center">
+            <p className="text-sm text-destructive">Failed to load the trade network.</p>
+          </div>
+        )}
+        {data && data.edges.length === 0 && (
+          <div className="flex h-full items-center justify-center">
+            <p className="text-sm text-muted-foreground">
+              No trades {season ? `in ${season}` : "yet"}.
+            </p>
+          </div>
+        )}
+        {data && data.edges.length > 0 && (
+          <ReactFlow
+            nodes={flowNodes}
+            edges={flowEdges}
+            nodeTypes={nodeTypes}
+            onEdgeClick={onEdgeClick}
+            onPaneClick={() => setSelectedEdgeId(null)}
+            nodesConnectable={false}
+            fitView
+            fitViewOptions={{ padding: 0.2 }}
+            proOptions={{ hideAttribution: true }}
+            style={{ background: "transparent" }}
+          >
+            <Controls showInteractive={false} />
+          </ReactFlow>
+        )}
+      </div>
+
+      {selectedEdge && (
+        <PairTradesPanel
+          edge={selectedEdge}
+          names={names}
+          familyId={familyId}
+          onClose={() => setSelectedEdgeId(null)}
+          onOpenTrade={onOpenTrade}
+        />
+      )}
+    </div>
+  );
+}
+
+function PairTradesPanel({
+  edge,
+  names,
+  familyId,
+  onClose,
+  onOpenTrade,
+}: {
+  edge: TradeNetworkEdge;
+  names: Map<string, string>;
+  familyId: string;
+  onClose: () => void;
+  onOpenTrade: (transactionId: string) => void;
+}) {
+  const sourceName = names.get(edge.source) ?? edge.source;
+  const targetName = names.get(edge.target) ?? edge.target;
+  return (
+    <aside className="w-80 shrink-0 overflow-y-auto border-l border-border bg-card p-4 space-y-3">
+      <div className="flex items-start justify-between gap-2">
+        <div>
+          <p className="font-mono text-[10px] uppercase tracking-wide text-muted-foreground">
+            {edge.trades} trade{edge.trades === 1 ? "" : "s"}
+          </p>
+          <p className="text-sm font-semibold">
+            <ManagerName userId={edge.source} displayName={sourceName} variant="display-only" />
+            {" ↔ "}
+            <ManagerName userId={edge.target} displayName={targetName} variant="display-only" />
+          </p>
+        </div>
+        <button
+          type="button"
+          onClick={onClose}
+          aria-label="Close"
+          className="inline-flex h-6 w-6 items-center justify-center rounded text-muted-foreground hover:bg-muted hover:text-foreground"
+        >
+          <X className="h-3.5 w-3.5" aria-hidden="true" />
+        </button>
+      </div>
+      <Link
+        href={`/league/${familyId}/h2h/${edge.source}/${edge.target}`}
+        className="inline-block text-xs text-primary hover:underline"
+      >
+        Head-to-head
+      </Link>
+      <div className="grid grid-cols-2 gap-2 text-xs">
+        <div>
+          <p className="text-muted-foreground">To {sourceName}</p>
+          <p className="font-mono">
+            {edge.valueToSource.toLocaleString()} value · {edge.parToSource.toFixed(1)} PAR
+          </p>
+        </div>
+        <div>
+          <p className="text-muted-foreground">To {targetName}</p>
+          <p className="font-mono">
+            {edge.valueToTarget.toLocaleString()} value · {edge.parToTarget.toFixed(1)} PAR
+          </p>
+        </div>
+      </div>
+      <ul className="space-y-2">
+        {edge.transactions.map((tx) => (
+          <li key={tx.transactionId} className="rounded-md border border-border/60 p-2.5 space-y-1.5">
+            <div className="flex items-center justify-between">
+              <span className="font-mono text-[10px] text-muted-foreground">
+                {formatDate(tx.createdAt, tx.season, tx.week)}
+              </span>
+              <button
+                type="button"
+                onClick={() => onOpenTrade(tx.transactionId)}
+                className="text-[11px] text-primary hover:underline"
+              >
+                Trace in graph
+              </button>
+            </div>
+            {tx.sides.map((side) => (
+              <div key={side.userId} className="text-xs">
+                <p className="flex items-baseline justify-between gap-2">
+                  <span className="font-medium">{names.get(side.userId) ?? side.userId} got</span>
+                  {side.grade && <span className="font-mono text-[10px]">{side.grade}</span>}
+                </p>
+                <p className="text-muted-foreground">
+                  {side.received.length > 0 ? side.received.join(", ") : "nothing"}
+                </p>
+              </div>
+            ))}
+          </li>
+        ))}
+      </ul>
+    </aside>
+  );
+}
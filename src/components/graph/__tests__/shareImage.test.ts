@@ -0,0 +1,167 @@
+/**
+ * @jest-environment node
+ *
+ * Static graph rendering for link previews: URL → VisibilityState parsing,
+ * scene layout over the visible subgraph, and SVG output.
+ */
+
+import type { Graph, GraphEdge, GraphNode } from "@/lib/assetGraph";
+import {
+  buildGraphScene,
+  fitScale,
+  graphViewQuery,
+  parseGraphView,
+  renderGraphSvg,
+} from "../shareImage";
+
+function trade(id: string, week: number, players: string[]): GraphNode {
+  return {
+    id,
+    kind: "transaction",
+    txKind: "trade",
+    transactionId: id.replace(/^tx:/, ""),
+    leagueId: "L",
+    season: "2024",
+    week,
+    createdAt: 0,
+    managers: [
+      { userId: "u1", displayName: "Alice" },
+      { userId: "u2", displayName: "Bob & Co" },
+    ],
+    assets: players.map((p) => ({
+      kind: "player" as const,
+      playerId: p,
+      playerName: p.toUpperCase(),
+      playerPosition: "WR",
+      playerTeam: null,
+      toUserId: "u2",
+      fromUserId: "u1",
+    })),
+  };
+}
+
+function edge(id: string, source: string, target: string, playerId: string): GraphEdge {
+  return {
+    id,
+    source,
+    target,
+    managerUserId: "u2",
+    managerName: "Bob",
+    assetKind: "player",
+    playerId,
+    playerName: playerId.toUpperCase(),
+    playerPosition: "WR",
+    playerTeam: null,
+    pickSeason: null,
+    pickRound: null,
+    pickOriginalRosterId: null,
+    pickLabel: null,
+    startSeason: "2024",
+    startWeek: 1,
+    endSeason: target.startsWith("roster:") ? null : "2024",
+    endWeek: target.startsWith("roster:") ? null : 8,
+    isOpen: target.startsWith("roster:"),
+  };
+}
+
+const graph: Graph = {
+  nodes: [
+    trade("tx:a", 1, ["p1", "p2"]),
+    trade("tx:b", 8, ["p1"]),
+    { id: "roster:u2", kind: "current_roster", userId: "u2", displayName: "Bob", avatar: null },
+    trade("tx:unrelated", 3, ["p9"]),
+  ],
+  edges: [
+    edge("e1", "tx:a", "tx:b", "p1"),
+    edge("e2", "tx:b", "roster:u2", "p1"),
+    edge("e3", "tx:a", "roster:u2", "p2"),
+  ],
+  stats: { totalTransactions: 3, totalTenures: 3, openTenures: 2, playersInvolved: 2, picksInvolved: 0 },
+};
+
+describe("parseGraphView", () => {
+  it("reads the page's view params", () => {
+    const view = parseGraphView(
+      new URLSearchParams("seed=tx:a,tx:b&expanded=tx:a~player:p2&fullyExpanded=tx:a&seedPlayerId=p1"),
+    );
+    expect(view.seed).toEqual(["tx:a", "tx:b"]);
+    expect([...view.expanded]).toEqual(["tx:a~player:p2"]);
+    expect([...view.fullyExpanded]).toEqual(["tx:a"]);
+    expect(view.seedAssetKey).toBe("player:p1");
+  });
+
+  it("seeds an unresolved seedTransactionId directly", () => {
+    expect(parseGraphView(new URLSearchParams("seedTransactionId=a")).seed).toEqual(["tx:a"]);
+  });
+});
+
+describe("graphViewQuery", () => {
+  it("keeps only view params", () => {
+    expect(
+      graphViewQuery(new URLSearchParams("seed=tx:a&selection=node:tx:a&from=player&asOf=2024:5")),
+    ).toBe("seed=tx%3Aa&asOf=2024%3A5");
+  });
+});
+
+describe("buildGraphScene", () => {
+  it("is empty without a seed", () => {
+    expect(buildGraphScene(graph, parseGraphView(new URLSearchParams()))).toEqual({
+      width: 0,
+      height: 0,
+      cards: [],
+      edges: [],
+    });
+  });
+
+  it("lays out the seed asset's thread left to right", () => {
+    const scene = buildGraphScene(graph, parseGraphView(new URLSearchParams("seed=tx:a&seedPlayerId=p1")));
+    const ids = scene.cards.map((c) => c.id).sort();
+    expect(ids).toEqual(["roster:u2", "tx:a", "tx:b"]);
+    expect(scene.edges.map((e) => e.id).sort()).toEqual(["e1", "e2"]);
+
+    const x = Object.fromEntries(scene.cards.map((c) => [c.id, c.x]));
+    expect(x["tx:a"]).toBeLessThan(x["tx:b"]);
+    expect(x["tx:b"]).toBeLessThan(x["roster:u2"]);
+    for (const c of scene.cards) {
+      expect(c.x + c.width).toBeLessThanOrEqual(scene.width);
+      expect(c.y + c.height).toBeLessThanOrEqual(scene.height);
+    }
+  });
+
+  it("shows chain assets only unless the card is fully expanded", () => {
+    const collapsed = buildGraphScene(graph, parseGraphView(new URLSearchParams("seed=tx:a&seedPlayerId=p1")));
+    expect(collapsed.cards.find((c) => c.id === "tx:a")!.lines).toEqual(["P1 · WR"]);
+
+    const open = buildGraphScene(
+      graph,
+      parseGraphView(new URLSearchParams("seed=tx:a&seedPlayerId=p1&fullyExpanded=tx:a")),
+    );
+    expect(open.cards.find((c) => c.id === "tx:a")!.lines).toEqual(["P1 · WR", "P2 · WR"]);
+  });
+
+  it("cuts the view at asOf", () => {
+    const scene = buildGraphScene(
+      graph,
+      parseGraphView(new URLSearchParams("seed=tx:a&seedPlayerId=p1&asOf=2024:5")),
+    );
+    expect(scene.cards.map((c) => c.id).sort()).toEqual(["tx:a"]);
+    expect(scene.edges).toEqual([]);
+  });
+});
+
+describe("renderGraphSvg", () => {
+  it("renders cards and edges with escaped text", () => {
+    const scene = buildGraphScene(graph, parseGraphView(new URLSearchParams("seed=tx:a&seedPlayerId=p1")));
+    const svg = renderGraphSvg(scene);
+    expect(svg.startsWith("<svg")).toBe(true);
+    expect(svg).toContain("Alice ↔ Bob &amp; Co");
+    expect(svg.match(/<path /g)).toHaveLength(2);
+  });
+});
+
+describe("fitScale", () => {
+  it("shrinks to fit and never enlarges", () => {
+    expect(fitScale({ width: 2400, height: 630, cards: [], edges: [] }, 1200, 630)).toBe(0.5);
+    expect(fitScale({ width: 300, height: 200, cards: [], edges: [] }, 1200, 630)).toBe(1);
+  });
+});
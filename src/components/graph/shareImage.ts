@@ -0,0 +1,239 @@
+/**
+ * Static rendering of a graph view for link previews.
+ *
+ * The interactive page lays out the visible subgraph in the browser; a
+ * shared link needs the same picture without one. `buildGraphScene` runs
+ * the page's own visibility and dagre layout over a `VisibilityState`
+ * parsed from the page URL and returns flat card rectangles, text and
+ * routed edge paths. `renderGraphSvg` turns a scene into a standalone SVG;
+ * the image route feeds the same scene to `next/og` for the PNG.
+ */
+
+import { assetKey, type Graph, type GraphNode, type TransactionNode } from "@/lib/assetGraph";
+import { computeVisibility, type VisibilityState } from "@/lib/useGraphVisibility";
+import { routeEdgePath, type Obstacle } from "@/lib/graph/routeEdgePath";
+import { graphAsOf, parseTimelinePoint, type TimelinePoint } from "@/lib/graph/timeline";
+import { layout, nodeDimensions, type NodeHints } from "./layout";
+import { buildTransactionHeader, cardShape } from "./transactionHeader";
+
+/** Open Graph's recommended preview size. */
+export const SHARE_IMAGE_WIDTH = 1200;
+export const SHARE_IMAGE_HEIGHT = 630;
+
+// Card text is capped so a 12-asset trade doesn't blow out a preview card;
+// the remainder is summarised as "+N more".
+const MAX_CARD_LINES = 4;
+
+// Light-theme values of the design tokens in globals.css. Previews render
+// outside the page, so the CSS variables aren't available.
+export const SHARE_COLORS = {
+  background: "#FAF9F5",
+  card: "#FFFFFF",
+  border: "#D6D2C6",
+  foreground: "#1F1E1B",
+  muted: "#67645E",
+  primary: "#6F8A60",
+} as const;
+
+export interface SceneCard {
+  id: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  title: string;
+  subtitle: string;
+  lines: string[];
+  isSeed: boolean;
+  isRoster: boolean;
+}
+
+export interface SceneEdge {
+  id: string;
+  path: string;
+}
+
+export interface GraphScene {
+  width: number;
+  height: number;
+  cards: SceneCard[];
+  edges: SceneEdge[];
+}
+
+/**
+ * The parts of the graph page URL that decide what's on screen. Mirrors the
+ * page's own parsing: `seedPlayerId` / `seedPickKey` become the seed asset
+ * key, and a bare `seedTransactionId` seeds its node directly so links
+ * shared before the page resolved it still preview.
+ */
+export interface GraphView extends VisibilityState {
+  fullyExpanded?: Set<string>;
+  /** Time-slider cut; null or absent for the full history. */
+  asOf?: TimelinePoint | null;
+}
+
+export function parseGraphView(params: URLSearchParams): GraphView & { fullyExpanded: Set<string> } {
+  const csv = (key: string) =>
+    (params.get(key) ?? "").split(",").map((s) => s.trim()).filter(Boolean);
+
+  let seed = csv("seed");
+  const seedTransactionId = params.get("seedTransactionId");
+  if (seed.length === 0 && seedTransactionId) seed = [`tx:${seedTransactionId}`];
+
+  const playerId = params.get("seedPlayerId");
+  const pickKeyParam = params.get("seedPickKey");
+  return {
+    seed,
+    expanded: new Set(csv("expanded")),
+    removed: new Set(csv("removed")),
+    fullyExpanded: new Set(csv("fullyExpanded")),
+    asOf: parseTimelinePoint(params.get("asOf")),
+    seedAssetKey: playerId ? `player:${playerId}` : pickKeyParam ? `pick:${pickKeyParam}` : undefined,
+  };
+}
+
+const VIEW_PARAMS = [
+  "seed",
+  "expanded",
+  "removed",
+  "fullyExpanded",
+  "seedPlayerId",
+  "seedPickKey",
+  "seedTransactionId",
+  "asOf",
+];
+
+/** Query string for the image route, keeping only the view-defining params. */
+export function graphViewQuery(params: URLSearchParams): string {
+  const out = new URLSearchParams();
+  for (const key of VIEW_PARAMS) {
+    const value = params.get(key);
+    if (value) out.set(key, value);
+  }
+  return out.toString();
+}
+
+function assetLine(a: TransactionNode["assets"][number]): string {
+  if (a.kind === "pick") return a.pickLabel ?? "Pick";
+  const name = a.playerName ?? "Player";
+  return a.playerPosition ? `${name} · ${a.playerPosition}` : name;
+}
+
+function cardText(
+  node: GraphNode,
+  fullyExpanded: Set<string>,
+  chainAssets: Set<string> | undefined,
+): Pick<SceneCard, "title" | "subtitle" | "lines"> {
+  if (node.kind === "current_roster") {
+    return { title: node.displayName, subtitle: "Current roster", lines: [] };
+  }
+  const header = buildTransactionHeader(node);
+  const subtitle = header.subtitleLead ? `${header.subtitleLead} · ${header.subtitle}` : header.subtitle;
+  const showAll = node.txKind === "draft" || fullyExpanded.has(node.id);
+  const assets = showAll
+    ? node.assets
+    : node.assets.filter((a) => chainAssets?.has(assetKey(a)) ?? false);
+  const lines = assets.slice(0, MAX_CARD_LINES).map(assetLine);
+  if (assets.length > MAX_CARD_LINES) lines.push(`+${assets.length - MAX_CARD_LINES} more`);
+  return { title: header.title, subtitle, lines };
+}
+
+/** Lay out the visible subgraph for a view. Empty scene when nothing is visible. */
+export function buildGraphScene(graph: Graph, view: GraphView): GraphScene {
+  const fullyExpanded = view.fullyExpanded ?? new Set<string>();
+  const visibility = computeVisibility(graph, view);
+  const { nodes, edges: visibleEdges } = view.asOf
+    ? graphAsOf(visibility.visibleNodes, visibility.visibleEdges, view.asOf)
+    : { nodes: visibility.visibleNodes, edges: visibility.visibleEdges };
+  if (nodes.length === 0) return { width: 0, height: 0, cards: [], edges: [] };
+
+  const hints = new Map<string, NodeHints>();
+  for (const n of nodes) {
+    const shape = cardShape(n, fullyExpanded, visibility.chainAssetsByNode.get(n.id));
+    if (shape) hints.set(n.id, shape);
+  }
+  const positions = layout({ nodes, edges: visibleEdges }, hints);
+
+  const cards: SceneCard[] = [];
+  for (const n of nodes) {
+    const pos = positions.get(n.id);
+    if (!pos) continue;
+    cards.push({
+      id: n.id,
+      ...pos,
+      ...nodeDimensions(n, hints.get(n.id)),
+      ...cardText(n, fullyExpanded, visibility.chainAssetsByNode.get(n.id)),
+      isSeed: visibility.isSeed(n.id),
+      isRoster: n.kind === "current_roster",
+    });
+  }
+
+  const byId = new Map(cards.map((c) => [c.id, c]));
+  const obstacles: Obstacle[] = cards
+    .map(({ x, y, width, height }) => ({ x, y, width, height }))
+    .sort((a, b) => a.x - b.x);
+  const edges: SceneEdge[] = [];
+  for (const e of visibleEdges) {
+    const s = byId.get(e.source);
+    const t = byId.get(e.target);
+    if (!s || !t) continue;
+    const { path } = routeEdgePath(
+      s.x + s.width,
+      s.y + s.height / 2,
+      t.x,
+      t.y + t.height / 2,
+      obstacles,
+    );
+    edges.push({ id: e.id, path });
+  }
+
+  // dagre's margins are already baked into the positions; pad the far side
+  // to match.
+  const width = Math.max(...cards.map((c) => c.x + c.width)) + 40;
+  const height = Math.max(...cards.map((c) => c.y + c.height)) + 40;
+  return { width, height, cards, edges };
+}
+
+/** Uniform scale that fits a scene inside a box without enlarging it. */
+export function fitScale(scene: GraphScene, width: number, height: number): number {
+  if (scene.width === 0 || scene.height === 0) return 1;
+  return Math.min(1, width / scene.width, height / scene.height);
+}
+
+function escapeXml(s: string): string {
+  return s
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+/** Standalone SVG for a scene, at the scene's natural size. */
+export function renderGraphSvg(scene: GraphScene): string {
+  const c = SHARE_COLORS;
+  const width = Math.max(scene.width, 1);
+  const height = Math.max(scene.height, 1);
+  const parts: string[] = [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" font-family="Inter, Helvetica, Arial, sans-serif">`,
+    `<rect width="100%" height="100%" fill="${c.background}"/>`,
+  ];
+  for (const e of scene.edges) {
+    parts.push(`<path d="${e.path}" fill="none" stroke="${c.primary}" stroke-width="1.5" opacity="0.7"/>`);
+  }
+  for (const card of scene.cards) {
+    const stroke = card.isSeed ? c.primary : c.border;
+    parts.push(
+      `<g transform="translate(${card.x} ${card.y})">`,
+      `<rect width="${card.width}" height="${card.height}" rx="8" fill="${c.card}" stroke="${stroke}" stroke-width="${card.isSeed ? 2 : 1}"/>`,
+      `<text x="12" y="22" font-size="13" font-weight="600" fill="${c.foreground}">${escapeXml(card.title)}</text>`,
+      `<text x="12" y="40" font-size="11" fill="${c.muted}">${escapeXml(card.subtitle)}</text>`,
+      ...card.lines.map(
+        (line, i) =>
+          `<text x="12" y="${66 + i * 20}" font-size="12" fill="${c.foreground}">${escapeXml(line)}</text>`,
+      ),
+      `</g>`,
+    );
+  }
+  parts.push(`</svg>`);
+  return parts.join("");
+}
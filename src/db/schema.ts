@@ -28,6 +28,7 @@ export const leagues = pgTable("leagues", {
   rosterPositions: jsonb("roster_positions"), // e.g. ["QB","RB","RB","WR","WR","TE","FLEX","FLEX","BN",...]
   totalRosters: integer("total_rosters"),
   winnersBracket: jsonb("winners_bracket"), // Sleeper playoff winners bracket data
+  losersBracket: jsonb("losers_bracket"), // Sleeper consolation / toilet bowl bracket data
   lastSyncedAt: timestamp("last_synced_at", { mode: "date" }),
 });
 
@@ -376,6 +377,11 @@ export const tradeGrades = pgTable(
     // FantasyCalc component
     valueScore: real("value_score"), // normalized 0-100, based on % of total trade value received
     fantasyCalcValue: real("fantasy_calc_value"), // raw sum of FantasyCalc values received
+    // Point-in-time value component (from fantasy_calc_value_history). Null
+    // when no snapshot exists at or before the trade date.
+    valueScoreAtTrade: real("value_score_at_trade"),
+    fantasyCalcValueAtTrade: real("fantasy_calc_value_at_trade"),
+    valueAsOf: timestamp("value_as_of", { mode: "date" }), // fetched_at of the snapshot used
     // Production component
     productionScore: real("production_score"), // normalized 0-100, based on PPG vs positional average
     productionWeeks: integer("production_weeks"), // how many weeks of data used
@@ -384,6 +390,9 @@ export const tradeGrades = pgTable(
     blendedScore: real("blended_score"), // weighted combination of value + production
     productionWeight: real("production_weight"), // 0-1, how much production influenced this grade
     grade: text("grade"), // A+, A, B+, B, C, D, F
+    // `algorithm_config` version the row was graded under (see
+    // resolveActiveConfig); null for rows graded before stamping.
+    configVersion: text("config_version"),
     computedAt: timestamp("computed_at", { mode: "date" })
       .defaultNow()
       .notNull(),
@@ -422,6 +431,9 @@ export const waiverGrades = pgTable(
     blendedScore: real("blended_score"),
     productionWeight: real("production_weight"),
     grade: text("grade"),
+    // `algorithm_config` version the row was graded under (see
+    // resolveActiveConfig); null for rows graded before stamping.
+    configVersion: text("config_version"),
     computedAt: timestamp("computed_at", { mode: "date" })
       .defaultNow()
       .notNull(),
@@ -459,6 +471,9 @@ export const draftGrades = pgTable(
     productionWeight: real("production_weight"),
     grade: text("grade"),
     benchmarkSize: integer("benchmark_size"),
+    // `algorithm_config` version the row was graded under (see
+    // resolveActiveConfig); null for rows graded before stamping.
+    configVersion: text("config_version"),
     computedAt: timestamp("computed_at", { mode: "date" })
       .defaultNow()
       .notNull(),
@@ -479,11 +494,13 @@ export const managerMetrics = pgTable(
     id: uuid("id").primaryKey().defaultRandom(),
     leagueId: text("league_id").notNull(),
     managerId: text("manager_id").notNull(), // Sleeper user_id
-    metric: text("metric").notNull(), // draft_score, trade_score, waiver_score, lineup_score, manager_process_score (MPS)
+    metric: text("metric").notNull(), // draft_score, trade_score, waiver_score, lineup_score, lineup_projected_score, manager_process_score (MPS)
     scope: text("scope").notNull(), // all_time, season:2024, etc
     value: real("value").notNull(),
     percentile: real("percentile"), // 0-100 within league
     meta: jsonb("meta"),
+    // Set by config-driven graders and the all_time rollup; null otherwise
+    configVersion: text("config_version"),
     computedAt: timestamp("computed_at", { mode: "date" })
       .defaultNow()
       .notNull(),
@@ -529,6 +546,45 @@ export const fantasyCalcValues = pgTable(
   })
 );
 
+// Append-only history of every FantasyCalc fetch. `fantasy_calc_values` is
+// overwritten in place each sync; this table keeps every snapshot so grading
+// can value a transaction as of the date it happened. All rows written by
+// one fetch share a `fetched_at`, so a (config, fetched_at) pair is one
+// coherent snapshot.
+export const fantasyCalcValueHistory = pgTable(
+  "fantasy_calc_value_history",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    playerId: text("player_id").notNull(),
+    isSuperFlex: boolean("is_super_flex").notNull(),
+    ppr: real("ppr").notNull(),
+    numTeams: integer("num_teams").notNull(),
+    numQbs: integer("num_qbs").notNull(),
+    playerName: text("player_name"),
+    value: real("value").notNull(),
+    rank: integer("rank"),
+    positionRank: integer("position_rank"),
+    position: text("position"),
+    team: text("team"),
+    fetchedAt: timestamp("fetched_at", { mode: "date" }).notNull(),
+    // 'api' for cron/sync fetches, 'import' for dumps loaded by
+    // scripts/import-fantasycalc-history.ts (fetched_at = the dump's date).
+    source: text("source").notNull().default("api"),
+  },
+  (fch) => ({
+    configFetchedIdx: index("fantasy_calc_value_history_config_idx").on(
+      fch.isSuperFlex,
+      fch.ppr,
+      fch.numTeams,
+      fch.numQbs,
+      fch.fetchedAt
+    ),
+    playerIdx: index("fantasy_calc_value_history_player_idx").on(
+      fch.playerId
+    ),
+  })
+);
+
 // ============================================================
 // System
 // ============================================================
@@ -537,9 +593,9 @@ export const syncJobs = pgTable(
   "sync_jobs",
   {
     id: uuid("id").primaryKey().defaultRandom(),
-    type: text("type").notNull(), // league_sync, player_sync, nfl_data_sync
-    ref: text("ref"), // e.g. league_id or family root league id
-    status: text("status").notNull().default("running"), // running, success, failed
+    type: text("type").notNull(), // league_sync, player_sync, nfl_data_sync, regrade, experiment
+    ref: text("ref"), // e.g. league_id, family root league id, or experiment run id
+    status: text("status").notNull().default("running"), // queued (regrade only), running, success, failed
     total: integer("total").default(0),
     done: integer("done").default(0),
     error: text("error"),
@@ -555,6 +611,9 @@ export const syncJobs = pgTable(
     stagesCompleted: integer("stages_completed").default(0),
     stagesTotal: integer("stages_total"),
     currentStage: text("current_stage"),
+    // One { key, label, ms, finishedAt } entry per chunked stage, appended
+    // as each stage finishes. Null for non-chunked runs.
+    stageTimings: jsonb("stage_timings"),
     startedAt: timestamp("started_at", { mode: "date" }).defaultNow().notNull(),
     finishedAt: timestamp("finished_at", { mode: "date" }),
   },
@@ -621,16 +680,22 @@ export const algorithmConfig = pgTable(
   {
     id: uuid("id").primaryKey().defaultRandom(),
     config: jsonb("config").notNull(),
+    // Null = global config. A family row is a partial override merged onto
+    // the active global config; each scope has at most one active row.
+    familyId: uuid("family_id").references(() => leagueFamilies.id),
     experimentId: uuid("experiment_id").references(() => experimentRuns.id),
     isActive: boolean("is_active").notNull().default(false),
     promotedBy: text("promoted_by"),
     notes: text("notes"),
+    // Last time this row became active (promotion or rollback)
+    activatedAt: timestamp("activated_at", { mode: "date" }),
     createdAt: timestamp("created_at", { mode: "date" })
       .defaultNow()
       .notNull(),
   },
   (ac) => ({
     activeIdx: index("algorithm_config_active_idx").on(ac.isActive),
+    familyActiveIdx: index("algorithm_config_family_active_idx").on(ac.familyId, ac.isActive),
   })
 );
 
@@ -649,6 +714,39 @@ export const syncWatermarks = pgTable(
   })
 );
 
+// Per-family state for the background in-season sync cron. `lastVisitedAt`
+// is stamped by the freshness gate so the cron only walks families people
+// actually look at; the attempt/failure columns drive its round-robin and
+// backoff so one bad family can't starve the rest. `jobId` is the
+// `sync_jobs` row a run that hit its time budget resumes on the next tick.
+export const familySyncState = pgTable(
+  "family_sync_state",
+  {
+    familyId: uuid("family_id")
+      .primaryKey()
+      .references(() => leagueFamilies.id, { onDelete: "cascade" }),
+    lastVisitedAt: timestamp("last_visited_at", { mode: "date" }),
+    lastAttemptAt: timestamp("last_attempt_at", { mode: "date" }),
+    lastSyncedAt: timestamp("last_synced_at", { mode: "date" }),
+    consecutiveFailures: integer("consecutive_failures").notNull().default(0),
+    totalFailures: integer("total_failures").notNull().default(0),
+    lastError: text("last_error"),
+    jobId: uuid("job_id"),
+  },
+  (fs) => ({
+    lastVisitedIdx: index("family_sync_state_last_visited_idx").on(fs.lastVisitedAt),
+  })
+);
+
+// Raw Sleeper responses keyed by API path (src/lib/sleeper/responseStore.ts,
+// SLEEPER_STORE=db). Completed seasons' drafts, transactions and matchups
+// never change, so a re-sync can serve them from here instead of Sleeper.
+export const sleeperResponses = pgTable("sleeper_responses", {
+  path: text("path").primaryKey(), // e.g. /league/123/matchups/4
+  body: jsonb("body").notNull(),
+  fetchedAt: timestamp("fetched_at", { mode: "date" }).defaultNow().notNull(),
+});
+
 // Per-(source, season) watermark for nflverse-sourced data.
 // Distinct from `sync_watermarks` (which is league-scoped) because nflverse
 // data is global and not tied to any league. `lastSyncedWeek` lets the current
@@ -5,31 +5,13 @@ import {
   COACHES_FLAMEOUT,
   COACHES_MID,
   initialsFromName,
-  mulberry32,
   seedToInt,
   shuffle,
   TEAM_NAMES,
   TEAM_NAMES_TAIL,
   tierSplit,
 } from "../demoAnonymize";
-
-describe("mulberry32", () => {
-  it("is deterministic for a given seed", () => {
-    const a = mulberry32(12345);
-    const b = mulberry32(12345);
-    for (let i = 0; i < 10; i++) expect(a()).toBe(b());
-  });
-
-  it("yields different sequences for different seeds", () => {
-    const a = mulberry32(1);
-    const b = mulberry32(2);
-    let identical = true;
-    for (let i = 0; i < 5; i++) {
-      if (a() !== b()) identical = false;
-    }
-    expect(identical).toBe(false);
-  });
-});
+import { seededRandom } from "../stats";
 
 describe("seedToInt", () => {
   it("produces stable ints across calls", () => {
@@ -42,13 +24,13 @@ describe("seedToInt", () => {
 
 describe("shuffle", () => {
   it("returns a permutation of the input", () => {
-    const rand = mulberry32(42);
+    const rand = seededRandom(42);
     const out = shuffle([1, 2, 3, 4, 5], rand);
     expect(out.slice().sort()).toEqual([1, 2, 3, 4, 5]);
   });
   it("does not mutate the input", () => {
     const input = [1, 2, 3];
-    const rand = mulberry32(7);
+    const rand = seededRandom(7);
     shuffle(input, rand);
     expect(input).toEqual([1, 2, 3]);
   });
@@ -0,0 +1,45 @@
+import {
+  normalizePlayerName,
+  buildSleeperIdResolver,
+  fantasyCalcPickId,
+} from "../fantasycalc";
+
+describe("normalizePlayerName", () => {
+  it("strips punctuation, case, and generational suffixes", () => {
+    expect(normalizePlayerName("D.K. Metcalf")).toBe("dk metcalf");
+    expect(normalizePlayerName("Kenneth Walker III")).toBe("kenneth walker");
+    expect(normalizePlayerName("Odell Beckham Jr.")).toBe("odell beckham");
+    expect(normalizePlayerName("Ja'Marr Chase")).toBe("jamarr chase");
+    expect(normalizePlayerName("Amon-Ra St. Brown")).toBe("amonra st brown");
+  });
+});
+
+describe("buildSleeperIdResolver", () => {
+  const resolve = buildSleeperIdResolver([
+    { id: "1", name: "DK Metcalf", position: "WR" },
+    { id: "2", name: "Mike Williams", position: "WR" },
+    { id: "3", name: "Mike Williams", position: "TE" },
+    { id: "4", name: "Josh Allen", position: "QB" },
+    { id: "5", name: "Josh Allen", position: "QB" },
+  ]);
+
+  it("matches on normalized name", () => {
+    expect(resolve("D.K. Metcalf")).toBe("1");
+  });
+
+  it("uses position to break ties and refuses to guess otherwise", () => {
+    expect(resolve("Mike Williams", "TE")).toBe("3");
+    expect(resolve("Mike Williams")).toBeNull();
+    expect(resolve("Josh Allen", "QB")).toBeNull();
+  });
+
+  it("returns null for unknown names", () => {
+    expect(resolve("Nobody")).toBeNull();
+  });
+});
+
+describe("fantasyCalcPickId", () => {
+  it("derives the PICK cache key from the display name", () => {
+    expect(fantasyCalcPickId("2025 Pick 1.05")).toBe("PICK_2025_Pick_1.05");
+  });
+});
@@ -105,8 +105,17 @@ function makeFakeSelect(rows: unknown[]): {
 }
 
 const selectQueue: Array<keyof typeof dbState> = [];
+const visitInserts: unknown[] = [];
 
 const fakeDb = {
+  insert: () => ({
+    values: (row: unknown) => ({
+      onConflictDoUpdate: () => {
+        visitInserts.push(row);
+        return Promise.resolve();
+      },
+    }),
+  }),
   select: (cols?: Record<string, unknown>) => {
     // Disambiguate which table the caller is reading by inspecting the
     // requested columns. The freshness module reads in this order:
@@ -137,6 +146,7 @@ jest.mock("@/db", () => ({
     },
     leagues: { id: "id", lastSyncedAt: "lastSyncedAt" },
     leagueFamilies: { id: "id", rootLeagueId: "rootLeagueId" },
+    familySyncState: { familyId: "familyId", lastVisitedAt: "lastVisitedAt" },
     syncJobs: {
       id: "id",
       ref: "ref",
@@ -173,6 +183,7 @@ beforeEach(() => {
   releaseSyncLockMock.mockReset();
   recordBreadcrumbMock.mockReset();
   selectQueue.length = 0;
+  visitInserts.length = 0;
 
   // Default happy-path resolution.
   resolveFamilyMock.mockResolvedValue(FAMILY_ID);
@@ -246,6 +257,39 @@ describe("ensureLeagueFresh — fresh path", () => {
     expect(releaseSyncLockMock).not.toHaveBeenCalled();
   });
 
+  it("stamps the visit for the background in-season sync", async () => {
+    const now = new Date("2025-10-15T12:00:00Z");
+    dbState.leagues = [{ lastSyncedAt: new Date(now.getTime() - 60 * 1000) }];
+
+    await ensureLeagueFresh(FAMILY_ID, { now });
+
+    expect(visitInserts).toEqual([{ familyId: FAMILY_ID, lastVisitedAt: now }]);
+  });
+
+  it("doesn't wait on the visit stamp or fail when it does", async () => {
+    const now = new Date("2025-10-15T12:00:00Z");
+    dbState.leagues = [{ lastSyncedAt: new Date(now.getTime() - 60 * 1000) }];
+    const insert = fakeDb.insert;
+    let rejectStamp: (err: Error) => void = () => {};
+    fakeDb.insert = () => ({
+      values: () => ({
+        onConflictDoUpdate: () => new Promise<void>((_, reject) => (rejectStamp = reject)),
+      }),
+    });
+    const warn = jest.spyOn(console, "warn").mockImplementation(() => {});
+
+    try {
+      // Resolves while the stamp is still pending
+      await expect(ensureLeagueFresh(FAMILY_ID, { now })).resolves.toEqual({ ready: true, familyId: FAMILY_ID });
+      rejectStamp(new Error("db down"));
+      await new Promise((r) => setImmediate(r));
+      expect(warn).toHaveBeenCalledWith(expect.stringContaining("failed to record visit"), expect.any(Error));
+    } finally {
+      fakeDb.insert = insert;
+      warn.mockRestore();
+    }
+  });
+
   it("in-season uses 30-minute window: 25min ago is fresh", async () => {
     const now = new Date("2025-10-15T12:00:00Z");
     const recent = new Date(now.getTime() - 25 * 60 * 1000);
@@ -460,6 +504,7 @@ describe("ensureLeagueFresh — resolution", () => {
     const result = await ensureLeagueFresh("unknown-id");
 
     expect(result).toEqual({ ready: true, familyId: null });
+    expect(visitInserts).toEqual([]);
     expect(acquireSyncLockMock).not.toHaveBeenCalled();
     expect(syncLeagueFamilyMock).not.toHaveBeenCalled();
   });
@@ -0,0 +1,134 @@
+import { isSlotEligible, solveOptimalLineup } from "../lineup";
+
+/** Deterministic PRNG so property-test failures are reproducible. */
+function seededRandom(seed: number): () => number {
+  let s = seed >>> 0;
+  return () => {
+    s = (s + 0x6d2b79f5) >>> 0;
+    let t = s;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/** Exhaustive search: every slot takes an unused eligible player or stays empty. */
+function bruteForce(
+  playerPoints: Record<string, number>,
+  playerPositions: Record<string, string>,
+  slots: string[],
+): number {
+  const scoring = slots.filter((s) => !["BN", "IR", "TAXI"].includes(s));
+  const ids = Object.keys(playerPoints);
+  const used = new Set<string>();
+  const search = (i: number): number => {
+    if (i === scoring.length) return 0;
+    let best = search(i + 1);
+    for (const id of ids) {
+      if (used.has(id) || !isSlotEligible(scoring[i], playerPositions[id])) continue;
+      used.add(id);
+      best = Math.max(best, playerPoints[id] + search(i + 1));
+      used.delete(id);
+    }
+    return best;
+  };
+  return search(0);
+}
+
+function pickFrom<T>(rand: () => number, items: readonly T[]): T {
+  return items[Math.floor(rand() * items.length)];
+}
+
+const OFFENSE_SLOTS = ["QB", "RB", "WR", "TE", "FLEX", "SUPER_FLEX", "REC_FLEX", "WRRB_FLEX"];
+const ALL_SLOTS = [...OFFENSE_SLOTS, "K", "DEF", "DL", "LB", "DB", "IDP_FLEX"];
+const ALL_POSITIONS = ["QB", "RB", "WR", "TE", "K", "DEF", "DL", "LB", "DB"];
+
+describe("solveOptimalLineup", () => {
+  it("beats greedy slot filling on mixed flex slots", () => {
+    // Greedy puts the WR in FLEX first and strands the REC_FLEX.
+    const points = { rb: 10, wr: 20 };
+    const positions = { rb: "RB", wr: "WR" };
+    const result = solveOptimalLineup(points, positions, ["FLEX", "REC_FLEX"]);
+    expect(result.optimalPoints).toBe(30);
+    expect(result.optimalStarters).toEqual(["rb", "wr"]);
+  });
+
+  it("fills SUPER_FLEX with a second QB only when it is worth more", () => {
+    const points = { qb1: 25, qb2: 18, rb1: 12 };
+    const positions = { qb1: "QB", qb2: "QB", rb1: "RB" };
+    const result = solveOptimalLineup(points, positions, ["QB", "SUPER_FLEX", "RB", "BN"]);
+    expect(result.optimalPoints).toBe(55);
+  });
+
+  it("supports K, DEF and IDP slots, folding granular IDP positions", () => {
+    const points = { k: 9, def: 7, de: 6, cb: 5, ilb: 8, lb2: 4 };
+    const positions = { k: "K", def: "DEF", de: "DE", cb: "CB", ilb: "ILB", lb2: "LB" };
+    const result = solveOptimalLineup(points, positions, [
+      "K", "DEF", "DL", "LB", "DB", "IDP_FLEX", "BN",
+    ]);
+    expect(result.optimalPoints).toBe(39);
+  });
+
+  it("leaves a slot empty rather than starting a negative score", () => {
+    const result = solveOptimalLineup(
+      { def: -4, qb: 20 },
+      { def: "DEF", qb: "QB" },
+      ["QB", "DEF"],
+    );
+    expect(result.optimalPoints).toBe(20);
+    expect(result.optimalStarters).toEqual(["qb"]);
+  });
+
+  it("still starts 0-point players to fill slots", () => {
+    const result = solveOptimalLineup({ rb: 0 }, { rb: "RB" }, ["RB", "BN"]);
+    expect(result.optimalStarters).toEqual(["rb"]);
+  });
+
+  it("ignores bench, IR and taxi slots and unknown positions", () => {
+    const result = solveOptimalLineup(
+      { a: 10, b: 5 },
+      { a: "WR" },
+      ["BN", "IR", "TAXI", "WR"],
+    );
+    expect(result).toEqual({ optimalPoints: 10, optimalStarters: ["a"] });
+  });
+
+  it("matches brute force on random small offensive rosters", () => {
+    const rand = seededRandom(42);
+    for (let trial = 0; trial < 300; trial++) {
+      const slots = Array.from({ length: 2 + Math.floor(rand() * 5) }, () =>
+        pickFrom(rand, OFFENSE_SLOTS),
+      );
+      const points: Record<string, number> = {};
+      const positions: Record<string, string> = {};
+      const count = 1 + Math.floor(rand() * 8);
+      for (let i = 0; i < count; i++) {
+        points[`p${i}`] = Math.round((rand() * 40 - 3) * 100) / 100;
+        positions[`p${i}`] = pickFrom(rand, ["QB", "RB", "WR", "TE"]);
+      }
+      const result = solveOptimalLineup(points, positions, [...slots, "BN"]);
+      expect(result.optimalPoints).toBeCloseTo(bruteForce(points, positions, slots), 6);
+    }
+  });
+
+  it("matches brute force on random rosters with every slot type", () => {
+    const rand = seededRandom(7);
+    for (let trial = 0; trial < 200; trial++) {
+      const slots = Array.from({ length: 2 + Math.floor(rand() * 5) }, () =>
+        pickFrom(rand, ALL_SLOTS),
+      );
+      const points: Record<string, number> = {};
+      const positions: Record<string, string> = {};
+      const count = 1 + Math.floor(rand() * 8);
+      for (let i = 0; i < count; i++) {
+        points[`p${i}`] = Math.round((rand() * 30 - 5) * 100) / 100;
+        positions[`p${i}`] = pickFrom(rand, ALL_POSITIONS);
+      }
+      const result = solveOptimalLineup(points, positions, slots);
+      expect(result.optimalPoints).toBeCloseTo(bruteForce(points, positions, slots), 6);
+      // Starters are distinct and never outnumber the scoring slots
+      expect(new Set(result.optimalStarters).size).toBe(result.optimalStarters.length);
+      expect(result.optimalStarters.length).toBeLessThanOrEqual(slots.length);
+    }
+  });
+});
@@ -0,0 +1,67 @@
+import { combineVerdicts, compareScorecards, intervalVerdict, metric } from "../scorecard";
+
+describe("compareScorecards", () => {
+  it("pairs metrics by section and name and reports the change", () => {
+    const rows = compareScorecards(
+      {
+        primaryMetrics: [metric("trade corr", 0.42, "spearman")],
+        secondaryMetrics: [metric("optimal α", 0.6, "α")],
+      },
+      {
+        primaryMetrics: [metric("trade corr", 0.3, "spearman"), metric("old corr", 0.1, "spearman")],
+        guardrailMetrics: [metric("optimal α", 0.4, "α")],
+      },
+    );
+    expect(rows).toEqual([
+      { section: "primary", name: "trade corr", unit: "spearman", direction: "higher", current: 0.42, previous: 0.3, delta: 0.12 },
+      { section: "secondary", name: "optimal α", unit: "α", direction: "higher", current: 0.6 },
+      { section: "primary", name: "old corr", unit: "spearman", direction: "higher", previous: 0.1 },
+      { section: "guardrail", name: "optimal α", unit: "α", direction: "higher", previous: 0.4 },
+    ]);
+  });
+
+  it("handles runs without a scorecard", () => {
+    expect(compareScorecards(null, null)).toEqual([]);
+  });
+});
+
+describe("intervalVerdict", () => {
+  it("confirms only when the whole interval clears the threshold", () => {
+    expect(intervalVerdict({ lower: 0.05, upper: 0.3 }, 0)).toBe("confirmed");
+    expect(intervalVerdict({ lower: -0.05, upper: 0.3 }, 0)).toBe("inconclusive");
+    expect(intervalVerdict({ lower: -0.3, upper: -0.05 }, 0)).toBe("rejected");
+  });
+
+  it("flips for lower-is-better metrics", () => {
+    expect(intervalVerdict({ lower: 1, upper: 2 }, 3, "lower")).toBe("confirmed");
+    expect(intervalVerdict({ lower: 4, upper: 5 }, 3, "lower")).toBe("rejected");
+  });
+
+  it("is inconclusive without an interval", () => {
+    expect(intervalVerdict(null, 0)).toBe("inconclusive");
+  });
+});
+
+describe("combineVerdicts", () => {
+  it("needs enough confirmations, and stays open while straddling ones could supply them", () => {
+    expect(combineVerdicts(["confirmed", "confirmed", "rejected"], 2)).toBe("confirmed");
+    expect(combineVerdicts(["confirmed", "inconclusive", "rejected"], 2)).toBe("inconclusive");
+    expect(combineVerdicts(["confirmed", "rejected", "rejected"], 2)).toBe("rejected");
+    expect(combineVerdicts([], 1)).toBe("inconclusive");
+  });
+});
+
+describe("metric", () => {
+  it("carries a bootstrap interval and p-value", () => {
+    const m = metric("gain", 0.1234, "spearman", {
+      interval: { estimate: 0.123, lower: 0.01, upper: 0.2, confidence: 0.95, pValue: 0.03, groups: 6 },
+      threshold: 0,
+    });
+    expect(m).toMatchObject({
+      value: 0.123,
+      ci: { lower: 0.01, upper: 0.2, confidence: 0.95 },
+      pValue: 0.03,
+      threshold: 0,
+    });
+  });
+});
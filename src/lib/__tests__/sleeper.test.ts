@@ -4,19 +4,24 @@
  * Unit tests for the Sleeper API client (src/lib/sleeper.ts).
  *
  * Coverage targets:
- *   - rate limiter: every request flows through the queue (verified by
- *     observing the gap between consecutive fetches under load).
+ *   - rate limiter: every request draws from the token bucket (verified by
+ *     observing the gap between consecutive fetches once the burst is spent).
  *   - retry on 429/5xx: backoff retries up to 3 times, then surfaces the
  *     final error.
  *   - non-retryable status (e.g. 404): throws immediately on first failure.
  *   - method surface: each named API method maps to the correct URL path.
+ *   - response store: immutable endpoints read through the store, record
+ *     mode captures everything, replay mode never touches the network.
  *
- * Strategy: mock global.fetch at the module boundary. The module retains
- * state (queue, lastRequestTime) across tests, but resetModules() between
+ * Strategy: mock global.fetch at the module boundary. The limiter retains
+ * bucket state across tests, but resetModules() between
  * suites isolates the rate-limiter timing assertion from the cheaper
  * URL-routing assertions.
  */
 
+// The response store's db backend is never exercised here
+jest.mock("@/db", () => ({ getDb: jest.fn(), schema: {} }));
+
 const realFetch = global.fetch;
 
 afterAll(() => {
@@ -182,6 +187,16 @@ describe("Sleeper API method routing", () => {
       "https://api.sleeper.app/v1/league/L1/winners_bracket"
     );
   });
+
+  it("getLosersBracket hits /v1/league/:id/losers_bracket", async () => {
+    const fetchMock = jest.fn(() => Promise.resolve(jsonResponse([])));
+    global.fetch = fetchMock as unknown as typeof fetch;
+    const { Sleeper } = await import("../sleeper");
+    await Sleeper.getLosersBracket("L1");
+    expect(fetchMock).toHaveBeenCalledWith(
+      "https://api.sleeper.app/v1/league/L1/losers_bracket"
+    );
+  });
 });
 
 describe("Sleeper retry + error handling", () => {
@@ -262,51 +277,126 @@ describe("Sleeper rate limiter", () => {
     jest.resetModules();
   });
 
-  it("paces sequential requests to honor the 15 RPS cap (>=66ms gap)", async () => {
-    // The limiter computes MIN_INTERVAL_MS = ceil(1000/15) = 67ms.
-    // We sample wall-clock timestamps at the moment fetch is invoked and
-    // verify each request after the first lags >=66ms behind its predecessor.
+  function recordFetchTimes(): number[] {
     const callTimes: number[] = [];
-    const fetchMock = jest.fn(() => {
+    global.fetch = jest.fn(() => {
       callTimes.push(Date.now());
       return Promise.resolve(jsonResponse({ ok: true }));
-    });
-    global.fetch = fetchMock as unknown as typeof fetch;
+    }) as unknown as typeof fetch;
+    return callTimes;
+  }
+
+  it("lets a small burst through, then paces at the 15 RPS cap (>=66ms gap)", async () => {
+    const callTimes = recordFetchTimes();
     const { Sleeper } = await import("../sleeper");
 
-    // Issue 4 sequential requests. With the limiter, each call after the
-    // first is forced to wait ~67ms. 4 calls means ~200ms minimum total.
-    await Sleeper.getLeague("L1");
-    await Sleeper.getLeague("L2");
-    await Sleeper.getLeague("L3");
-    await Sleeper.getLeague("L4");
-
-    expect(callTimes).toHaveLength(4);
-    for (let i = 1; i < callTimes.length; i++) {
-      const gap = callTimes[i] - callTimes[i - 1];
-      // Allow 1ms slop for clock granularity.
-      expect(gap).toBeGreaterThanOrEqual(66);
-    }
+    // The bucket starts with 5 tokens; the refill is one per ~67ms.
+    for (let i = 1; i <= 7; i++) await Sleeper.getLeague(`L${i}`);
+
+    expect(callTimes).toHaveLength(7);
+    expect(callTimes[4] - callTimes[0]).toBeLessThan(66);
+    // Allow 1ms slop for clock granularity.
+    expect(callTimes[5] - callTimes[4]).toBeGreaterThanOrEqual(60);
+    expect(callTimes[6] - callTimes[5]).toBeGreaterThanOrEqual(60);
   }, 10_000);
 
-  it("queues concurrent callers behind the rate limit (in-flight bound applies)", async () => {
-    const callTimes: number[] = [];
-    const fetchMock = jest.fn(() => {
-      callTimes.push(Date.now());
-      return Promise.resolve(jsonResponse({ ok: true }));
-    });
-    global.fetch = fetchMock as unknown as typeof fetch;
+  it("spaces concurrent callers out behind the burst", async () => {
+    const callTimes = recordFetchTimes();
     const { Sleeper } = await import("../sleeper");
 
-    // Fire 3 concurrent calls. The limiter must still serialize them.
-    await Promise.all([
-      Sleeper.getLeague("L1"),
-      Sleeper.getLeague("L2"),
-      Sleeper.getLeague("L3"),
-    ]);
+    await Promise.all(Array.from({ length: 8 }, (_, i) => Sleeper.getLeague(`L${i}`)));
+
+    // 3 requests past the burst: the last waits ~200ms.
+    expect(callTimes).toHaveLength(8);
+    expect(Math.max(...callTimes) - Math.min(...callTimes)).toBeGreaterThanOrEqual(190);
+  }, 10_000);
+
+  it("slows the refill after a 429", async () => {
+    let calls = 0;
+    global.fetch = jest.fn(() => {
+      calls++;
+      return Promise.resolve(
+        calls === 1 ? new Response("rate limited", { status: 429 }) : jsonResponse({ ok: true })
+      );
+    }) as unknown as typeof fetch;
+    const { Sleeper } = await import("../sleeper");
+    const { getSleeperRefillRate, SLEEPER_MAX_RPS } = await import("../sleeper/rateLimit");
 
-    expect(callTimes).toHaveLength(3);
-    expect(callTimes[1] - callTimes[0]).toBeGreaterThanOrEqual(66);
-    expect(callTimes[2] - callTimes[1]).toBeGreaterThanOrEqual(66);
+    await Sleeper.getLeague("L1");
+    expect(getSleeperRefillRate()).toBeLessThan(SLEEPER_MAX_RPS);
   }, 10_000);
 });
+
+describe("Sleeper response store", () => {
+  beforeEach(() => {
+    jest.resetModules();
+  });
+
+  async function load(seed: Record<string, unknown>, mode: "cache" | "record" | "replay") {
+    const { Sleeper } = await import("../sleeper");
+    const { createMemoryResponseStore, setSleeperResponseStore } = await import(
+      "../sleeper/responseStore"
+    );
+    const store = createMemoryResponseStore(seed);
+    setSleeperResponseStore(store, mode);
+    return { Sleeper, store };
+  }
+
+  it("serves immutable endpoints from the store without a fetch", async () => {
+    const fetchMock = jest.fn(() => Promise.resolve(jsonResponse([])));
+    global.fetch = fetchMock as unknown as typeof fetch;
+    const { Sleeper } = await load({ "/league/L1/matchups/3": [{ roster_id: 1 }] }, "cache");
+
+    await expect(Sleeper.getMatchups("L1", 3, { immutable: true })).resolves.toEqual([{ roster_id: 1 }]);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it("fetches and stores an immutable miss, but leaves mutable endpoints alone", async () => {
+    const fetchMock = jest.fn(() => Promise.resolve(jsonResponse([{ pick_no: 1 }])));
+    global.fetch = fetchMock as unknown as typeof fetch;
+    const { Sleeper, store } = await load({ "/league/L1/matchups/3": [] }, "cache");
+
+    await Sleeper.getDraftPicks("D1", { immutable: true });
+    expect(store.entries.get("/draft/D1/picks")).toEqual([{ pick_no: 1 }]);
+
+    // In-season weeks still change, so they skip the store both ways
+    await Sleeper.getMatchups("L1", 3);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(store.entries.get("/league/L1/matchups/3")).toEqual([]);
+  });
+
+  it("records every response in record mode", async () => {
+    global.fetch = jest.fn(() => Promise.resolve(jsonResponse({ league_id: "L1" }))) as unknown as typeof fetch;
+    const { Sleeper, store } = await load({}, "record");
+
+    await Sleeper.getLeague("L1");
+    expect(store.entries.get("/league/L1")).toEqual({ league_id: "L1" });
+  });
+
+  it("replays from the store and throws on a miss without fetching", async () => {
+    const fetchMock = jest.fn(() => Promise.resolve(jsonResponse({})));
+    global.fetch = fetchMock as unknown as typeof fetch;
+    const { Sleeper } = await load({ "/league/L1": { league_id: "L1" } }, "replay");
+
+    await expect(Sleeper.getLeague("L1")).resolves.toEqual({ league_id: "L1" });
+    await expect(Sleeper.getRosters("L1")).rejects.toThrow(/no recorded response for \/league\/L1\/rosters/);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it("falls back to the network when the store read fails", async () => {
+    const fetchMock = jest.fn(() => Promise.resolve(jsonResponse([])));
+    global.fetch = fetchMock as unknown as typeof fetch;
+    const warn = jest.spyOn(console, "warn").mockImplementation(() => {});
+    const { Sleeper } = await import("../sleeper");
+    const { setSleeperResponseStore } = await import("../sleeper/responseStore");
+    setSleeperResponseStore({
+      read: () => Promise.reject(new Error("db down")),
+      write: () => Promise.reject(new Error("db down")),
+    });
+
+    await expect(Sleeper.getTransactions("L1", 2, { immutable: true })).resolves.toEqual([]);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(warn).toHaveBeenCalledTimes(2);
+    warn.mockRestore();
+  });
+});
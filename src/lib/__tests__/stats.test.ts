@@ -0,0 +1,63 @@
+import { bootstrapGrouped, meanInterval, seededRandom } from "../stats";
+
+const meanOf = (sample: Array<{ v: number }>) => sample.reduce((a, s) => a + s.v, 0) / sample.length;
+
+describe("seededRandom", () => {
+  it("is deterministic per seed", () => {
+    const a = seededRandom(42);
+    const b = seededRandom(42);
+    const first = [a(), a(), a()];
+    expect([b(), b(), b()]).toEqual(first);
+    expect(first.every((x) => x >= 0 && x < 1)).toBe(true);
+  });
+
+  it("yields different sequences for different seeds", () => {
+    const a = seededRandom(1);
+    const b = seededRandom(2);
+    expect([a(), a(), a()]).not.toEqual([b(), b(), b()]);
+  });
+});
+
+describe("bootstrapGrouped", () => {
+  it("brackets the estimate and rejects a far-off null", () => {
+    const items = ["a", "b", "c", "d", "e", "f"].flatMap((g, i) => [
+      { g, v: 1 + i * 0.1 },
+      { g, v: 1.2 + i * 0.1 },
+    ]);
+    const ci = bootstrapGrouped(items, (x) => x.g, meanOf)!;
+    expect(ci.groups).toBe(6);
+    expect(ci.lower).toBeLessThanOrEqual(ci.estimate);
+    expect(ci.upper).toBeGreaterThanOrEqual(ci.estimate);
+    expect(ci.lower).toBeGreaterThan(0);
+    expect(ci.pValue).toBe(0);
+  });
+
+  it("resamples whole groups, so few noisy groups give a wide interval", () => {
+    const items = [
+      { g: "a", v: 1 },
+      { g: "a", v: 1 },
+      { g: "b", v: -1 },
+      { g: "b", v: -1 },
+      { g: "c", v: 0.2 },
+    ];
+    const ci = bootstrapGrouped(items, (x) => x.g, meanOf)!;
+    expect(ci.lower).toBeLessThan(0);
+    expect(ci.upper).toBeGreaterThan(0);
+    expect(ci.pValue).toBeGreaterThan(0.05);
+  });
+
+  it("needs at least two groups", () => {
+    expect(bootstrapGrouped([{ g: "a", v: 1 }], (x) => x.g, meanOf)).toBeNull();
+  });
+});
+
+describe("meanInterval", () => {
+  it("bootstraps the mean of per-group values", () => {
+    const rows = [0.1, 0.2, 0.15, 0.25, 0.3].map((value, i) => ({ group: `L${i}`, value }));
+    const ci = meanInterval(rows)!;
+    expect(ci.estimate).toBe(0.2);
+    expect(ci.groups).toBe(5);
+    expect(ci.lower).toBeGreaterThan(0);
+    expect(meanInterval(rows, { nullValue: 0.2 })!.pValue).toBeGreaterThan(0.05);
+  });
+});
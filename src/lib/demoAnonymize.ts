@@ -5,6 +5,8 @@
 // All functions are pure: they take real names + a seed and return a mapping.
 // No React, no fetching, no side effects — see useDemoMap() for the hook.
 
+import { seededRandom } from "@/lib/stats";
+
 // Single source of truth for the demo session cookie name. Imported by both
 // the server (demoServer.ts) and the client (useDemoMap.ts).
 export const DEMO_SEED_COOKIE = "dd_demo_seed";
@@ -93,19 +95,6 @@ export const TEAM_NAMES_TAIL = [
   "46 Defense",
 ] as const;
 
-// mulberry32: tiny seeded PRNG. Returns a function that yields uniform
-// floats in [0, 1) for a given 32-bit unsigned integer seed.
-export function mulberry32(seed: number): () => number {
-  let a = seed >>> 0;
-  return function () {
-    a = (a + 0x6d2b79f5) >>> 0;
-    let t = a;
-    t = Math.imul(t ^ (t >>> 15), t | 1);
-    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
-    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
-  };
-}
-
 // Convert a base36 seed string (or anything else) into a 32-bit unsigned int.
 // Uses a simple FNV-1a-style fold so different strings produce different ints.
 export function seedToInt(seed: string): number {
@@ -255,7 +244,7 @@ export function buildDemoMap(
   rosters: RosterInput[],
   seed: string
 ): DemoMap {
-  const rand = mulberry32(seedToInt(seed));
+  const rand = seededRandom(seedToInt(seed));
 
   // Coach assignments first. This consumes a deterministic chunk of PRNG output
   // (one shuffle per tier or one shuffle in the fallback path).
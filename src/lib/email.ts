@@ -1,17 +1,8 @@
 import { Resend } from "resend";
+import { getSiteUrl } from "@/lib/siteUrl";
 
 const FROM_ADDRESS = "Dynasty DNA <onboarding@resend.dev>";
 
-function getSiteUrl(): string {
-  if (process.env.NEXT_PUBLIC_SITE_URL) {
-    return process.env.NEXT_PUBLIC_SITE_URL.replace(/\/+$/, "");
-  }
-  if (process.env.VERCEL_URL) {
-    return `https://${process.env.VERCEL_URL.replace(/\/+$/, "")}`;
-  }
-  return "https://dynasty-dna.app";
-}
-
 function escapeHtml(value: string): string {
   return value
     .replace(/&/g, "&amp;")
@@ -48,3 +48,82 @@ export async function getFantasyCalcValues(
   }
   return res.json();
 }
+
+/**
+ * Cache key for a FantasyCalc PICK entry. Picks carry no sleeperId, so the
+ * display name ("2025 1st", "2024 Pick 1.05") doubles as the identifier.
+ */
+export function fantasyCalcPickId(name: string): string {
+  return `PICK_${name.replace(/\s+/g, "_")}`;
+}
+
+/**
+ * Draft round from a FantasyCalc PICK name: "2025 1st" → 1,
+ * "2024 Pick 2.05" → 2. Null when the name carries no round.
+ */
+export function parsePickRound(name: string): number | null {
+  if (name.includes("1st")) return 1;
+  if (name.includes("2nd")) return 2;
+  if (name.includes("3rd")) return 3;
+  if (name.includes("4th")) return 4;
+  const match = name.match(/(\d+)\.(\d+)/);
+  return match ? parseInt(match[1], 10) : null;
+}
+
+// ============================================================
+// Player-name -> Sleeper id mapping
+// ============================================================
+
+const NAME_SUFFIXES = new Set(["jr", "sr", "ii", "iii", "iv", "v"]);
+
+/**
+ * Normalize a player name for cross-source matching: lowercase, strip
+ * punctuation and generational suffixes. "D.K. Metcalf" and "DK Metcalf"
+ * both become "dk metcalf"; "Kenneth Walker III" becomes "kenneth walker".
+ */
+export function normalizePlayerName(name: string): string {
+  const tokens = name
+    .toLowerCase()
+    .replace(/[.'’`-]/g, "")
+    .replace(/[^a-z0-9\s]/g, " ")
+    .split(/\s+/)
+    .filter(Boolean);
+  while (tokens.length > 1 && NAME_SUFFIXES.has(tokens[tokens.length - 1])) {
+    tokens.pop();
+  }
+  return tokens.join(" ");
+}
+
+export interface SleeperPlayerRef {
+  id: string;
+  name: string;
+  position: string | null;
+}
+
+/**
+ * Build a resolver from FantasyCalc player names to Sleeper player ids.
+ * Matches on normalized name; when several Sleeper players share a name the
+ * position breaks the tie, and a still-ambiguous name resolves to null
+ * rather than guessing.
+ */
+export function buildSleeperIdResolver(
+  players: SleeperPlayerRef[],
+): (name: string, position?: string | null) => string | null {
+  const byName = new Map<string, SleeperPlayerRef[]>();
+  for (const p of players) {
+    const key = normalizePlayerName(p.name);
+    if (!key) continue;
+    const list = byName.get(key) ?? [];
+    list.push(p);
+    byName.set(key, list);
+  }
+
+  return (name, position) => {
+    const candidates = byName.get(normalizePlayerName(name));
+    if (!candidates || candidates.length === 0) return null;
+    if (candidates.length === 1) return candidates[0].id;
+    if (!position) return null;
+    const samePosition = candidates.filter((c) => c.position === position);
+    return samePosition.length === 1 ? samePosition[0].id : null;
+  };
+}
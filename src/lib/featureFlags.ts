@@ -34,6 +34,24 @@ export const FLAGS = {
     description: "Interactive visualization of how players and picks flow between managers",
     status: "enabled",
   },
+  TRADE_FINDER: {
+    id: "trade-finder",
+    title: "Trade Finder",
+    description: "Value-balanced trade suggestions from positional exposure across league rosters",
+    status: "disabled",
+  },
+  EXPERIMENT_RUNNER: {
+    id: "experiment-runner",
+    title: "Experiment Runner",
+    description: "Start and watch registered parameter sweeps from /experiments",
+    status: "disabled",
+  },
+  SYNC_HEALTH: {
+    id: "sync-health",
+    title: "Sync Health",
+    description: "Operator view of recent sync jobs, failing families and orphaned locks at /sync-health",
+    status: "disabled",
+  },
 } satisfies Record<string, FeatureFlag>;
 
 export type FlagKey = keyof typeof FLAGS;
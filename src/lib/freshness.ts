@@ -25,6 +25,10 @@
  * Observability: every lazy run records a `recordSyncBreadcrumb` payload with
  * `trigger: "lazy"` and is wrapped in `withSyncTransaction` so it shows up
  * alongside cron / manual syncs in Sentry Performance.
+ *
+ * Every visit also stamps `family_sync_state.lastVisitedAt`, which is how the
+ * background in-season cron (`/api/cron/in-season-sync`) knows which
+ * families have recent traffic worth keeping warm.
  */
 
 import { getDb, schema } from "@/db";
@@ -109,9 +113,10 @@ async function getFamilyLastSyncedAt(familyId: string): Promise<Date | null> {
 
 /**
  * Look up the family root league id (used as `syncJobs.ref`). Falls back to
- * the most recent member if `rootLeagueId` is missing.
+ * the most recent member if `rootLeagueId` is missing. Exported for the
+ * background sync, which takes the same lock.
  */
-async function getFamilyRootRef(familyId: string): Promise<string | null> {
+export async function getFamilyRootRef(familyId: string): Promise<string | null> {
   const db = getDb();
 
   const family = await db
@@ -177,6 +182,27 @@ async function getFamilyLeagueIds(familyId: string): Promise<string[]> {
     .map((m) => m.leagueId);
 }
 
+/** Visits closer together than this don't re-stamp `lastVisitedAt`. */
+const VISIT_STAMP_RESOLUTION_MS = 5 * 60 * 1000;
+
+/**
+ * Stamp the family's `lastVisitedAt`. The conditional upsert keeps a busy
+ * family from writing on every page view. Best-effort — callers fire it
+ * without awaiting, so a slow or failed stamp never blocks a render.
+ */
+async function recordFamilyVisit(familyId: string, now: Date): Promise<void> {
+  const db = getDb();
+  const threshold = new Date(now.getTime() - VISIT_STAMP_RESOLUTION_MS);
+  await db
+    .insert(schema.familySyncState)
+    .values({ familyId, lastVisitedAt: now })
+    .onConflictDoUpdate({
+      target: schema.familySyncState.familyId,
+      set: { lastVisitedAt: now },
+      setWhere: sql`${schema.familySyncState.lastVisitedAt} IS NULL OR ${schema.familySyncState.lastVisitedAt} < ${threshold}`,
+    });
+}
+
 // --- Public API ------------------------------------------------------------
 
 export interface EnsureLeagueFreshResult {
@@ -225,6 +251,9 @@ export async function ensureLeagueFresh(
   }
 
   const now = opts.now ?? new Date();
+  recordFamilyVisit(familyId, now).catch((err) => {
+    console.warn(`[freshness] failed to record visit for ${familyId}:`, err);
+  });
   const lastSyncedAt = await getFamilyLastSyncedAt(familyId);
 
   // ---- Fresh ----------------------------------------------------------
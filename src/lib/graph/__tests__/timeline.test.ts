@@ -0,0 +1,152 @@
+/**
+ * @jest-environment node
+ *
+ * Time-slider cuts of the asset graph: which nodes and tenures exist at a
+ * (season, week), and the rosters rebuilt from tenures running then.
+ */
+
+import type { GraphEdge, GraphNode } from "@/lib/assetGraph";
+import {
+  graphAsOf,
+  isTenureOpenAt,
+  parseTimelinePoint,
+  rostersAsOf,
+  timelinePoints,
+} from "../timeline";
+
+function tx(id: string, txKind: "draft" | "trade", season: string, week: number): GraphNode {
+  return {
+    id,
+    kind: "transaction",
+    txKind,
+    transactionId: txKind === "draft" ? null : id,
+    leagueId: `L${season}`,
+    season,
+    week,
+    createdAt: 0,
+    managers: [],
+    assets: [],
+  };
+}
+
+function tenure(
+  id: string,
+  source: string,
+  target: string,
+  manager: string,
+  asset: { playerId: string } | { round: number },
+  start: [string, number],
+  end: [string, number] | null,
+): GraphEdge {
+  const isPlayer = "playerId" in asset;
+  return {
+    id,
+    source,
+    target,
+    managerUserId: manager,
+    managerName: manager.toUpperCase(),
+    assetKind: isPlayer ? "player" : "pick",
+    playerId: isPlayer ? asset.playerId : null,
+    playerName: isPlayer ? `Player ${asset.playerId}` : null,
+    playerPosition: isPlayer ? "RB" : null,
+    playerTeam: null,
+    pickSeason: isPlayer ? null : "2024",
+    pickRound: isPlayer ? null : asset.round,
+    pickOriginalRosterId: isPlayer ? null : 1,
+    pickLabel: isPlayer ? null : `2024 Round ${asset.round}`,
+    startSeason: start[0],
+    startWeek: start[1],
+    endSeason: end?.[0] ?? null,
+    endWeek: end?.[1] ?? null,
+    isOpen: end === null,
+  };
+}
+
+// a drafts p1 in 2023, trades p1 to b in week 6 for b's 2024 1st;
+// b still has p1, a uses the 1st in the 2024 draft on p2.
+const nodes: GraphNode[] = [
+  tx("draft:1", "draft", "2023", 0),
+  tx("tx:6", "trade", "2023", 6),
+  tx("draft:2", "draft", "2024", 0),
+  { id: "roster:a", kind: "current_roster", userId: "a", displayName: "A", avatar: null },
+  { id: "roster:b", kind: "current_roster", userId: "b", displayName: "B", avatar: null },
+];
+const edges: GraphEdge[] = [
+  tenure("e1", "draft:1", "tx:6", "a", { playerId: "p1" }, ["2023", 0], ["2023", 6]),
+  tenure("e2", "tx:6", "roster:b", "b", { playerId: "p1" }, ["2023", 6], null),
+  tenure("e3", "tx:6", "draft:2", "a", { round: 1 }, ["2023", 6], ["2024", 0]),
+  tenure("e4", "draft:2", "roster:a", "a", { playerId: "p2" }, ["2024", 0], null),
+];
+
+describe("timelinePoints", () => {
+  it("lists each transaction point once, drafts ahead of week 1", () => {
+    expect(timelinePoints([...nodes, tx("tx:1", "trade", "2023", 1), tx("tx:6b", "trade", "2023", 6)])).toEqual([
+      { season: "2023", week: 0 },
+      { season: "2023", week: 1 },
+      { season: "2023", week: 6 },
+      { season: "2024", week: 0 },
+    ]);
+  });
+});
+
+describe("parseTimelinePoint", () => {
+  it("parses season:week and rejects anything else", () => {
+    expect(parseTimelinePoint("2023:6")).toEqual({ season: "2023", week: 6 });
+    expect(parseTimelinePoint("2023")).toBeNull();
+    expect(parseTimelinePoint(null)).toBeNull();
+  });
+});
+
+describe("graphAsOf", () => {
+  it("hides transactions after the cut and tenures they end", () => {
+    const cut = graphAsOf(nodes, edges, { season: "2023", week: 3 });
+    expect(cut.nodes.map((n) => n.id)).toEqual(["draft:1"]);
+    expect(cut.edges).toEqual([]);
+  });
+
+  it("draws open tenures to current rosters once their source happened", () => {
+    const cut = graphAsOf(nodes, edges, { season: "2023", week: 6 });
+    expect(cut.nodes.map((n) => n.id)).toEqual(["draft:1", "tx:6", "roster:b"]);
+    expect(cut.edges.map((e) => e.id)).toEqual(["e1", "e2"]);
+  });
+
+  it("is the whole graph at the last point", () => {
+    const cut = graphAsOf(nodes, edges, { season: "2024", week: 0 });
+    expect(cut.nodes).toHaveLength(nodes.length);
+    expect(cut.edges).toHaveLength(edges.length);
+  });
+});
+
+describe("isTenureOpenAt", () => {
+  it("counts the start week but not the end week", () => {
+    expect(isTenureOpenAt(edges[0], { season: "2023", week: 0 })).toBe(true);
+    expect(isTenureOpenAt(edges[0], { season: "2023", week: 5 })).toBe(true);
+    expect(isTenureOpenAt(edges[0], { season: "2023", week: 6 })).toBe(false);
+    expect(isTenureOpenAt(edges[1], { season: "2099", week: 1 })).toBe(true);
+  });
+});
+
+describe("rostersAsOf", () => {
+  it("rebuilds each manager's holdings at the cut", () => {
+    expect(rostersAsOf(edges, { season: "2023", week: 3 })).toEqual([
+      {
+        userId: "a",
+        displayName: "A",
+        assets: [
+          { key: "player:p1", assetKind: "player", label: "Player p1", position: "RB", since: { season: "2023", week: 0 } },
+        ],
+      },
+    ]);
+
+    const afterTrade = rostersAsOf(edges, { season: "2023", week: 10 });
+    expect(afterTrade.map((r) => [r.userId, r.assets.map((a) => a.label)])).toEqual([
+      ["a", ["2024 Round 1"]],
+      ["b", ["Player p1"]],
+    ]);
+  });
+
+  it("turns a used pick into its player at the draft", () => {
+    const rosters = rostersAsOf(edges, { season: "2024", week: 0 });
+    expect(rosters.find((r) => r.userId === "a")!.assets.map((a) => a.label)).toEqual(["Player p2"]);
+  });
+});
@@ -0,0 +1,140 @@
+/**
+ * Time-slider support for the asset graph.
+ *
+ * Every transaction node sits at a (season, week) and every tenure edge
+ * spans from the week its manager acquired the asset to the week they gave
+ * it up. Cutting the graph at a point therefore needs no extra data:
+ *
+ *   - a transaction is visible once its own point has been reached;
+ *   - a tenure is drawn once both its endpoints are visible, so one
+ *     that's still running at the cut appears with the move that ends it.
+ *     Tenures that never ended run to a current-roster card, which has no
+ *     point of its own and shows as soon as any of them is drawn;
+ *   - the tenures running at the cut are exactly the rosters as of then.
+ *
+ * Draft nodes and the tenures they start sit at week 0, ahead of week 1
+ * of the same season.
+ */
+
+import type { GraphEdge, GraphNode } from "@/lib/assetGraph";
+import { edgeAssetKey } from "@/lib/useGraphVisibility";
+
+export interface TimelinePoint {
+  season: string;
+  week: number;
+}
+
+export function comparePoints(a: TimelinePoint, b: TimelinePoint): number {
+  return Number(a.season) - Number(b.season) || a.week - b.week;
+}
+
+/** URL form: "2024:5". */
+export function timelinePointKey(p: TimelinePoint): string {
+  return `${p.season}:${p.week}`;
+}
+
+export function parseTimelinePoint(value: string | null): TimelinePoint | null {
+  const match = value?.match(/^(\d{4}):(\d{1,2})$/);
+  return match ? { season: match[1], week: Number(match[2]) } : null;
+}
+
+export function formatTimelinePoint(p: TimelinePoint): string {
+  return p.week === 0 ? `${p.season} draft` : `${p.season} · W${p.week}`;
+}
+
+/** Every distinct point a transaction happened at, in order. */
+export function timelinePoints(nodes: GraphNode[]): TimelinePoint[] {
+  const seen = new Map<string, TimelinePoint>();
+  for (const n of nodes) {
+    if (n.kind !== "transaction") continue;
+    const p = { season: n.season, week: n.week };
+    seen.set(timelinePointKey(p), p);
+  }
+  return [...seen.values()].sort(comparePoints);
+}
+
+/**
+ * The subgraph as it stood at `asOf`. Current-roster nodes stay only while
+ * some drawn tenure still ends at them.
+ */
+export function graphAsOf(
+  nodes: GraphNode[],
+  edges: GraphEdge[],
+  asOf: TimelinePoint,
+): { nodes: GraphNode[]; edges: GraphEdge[] } {
+  const happened = new Set(
+    nodes
+      .filter(
+        (n) =>
+          n.kind === "transaction" &&
+          comparePoints({ season: n.season, week: n.week }, asOf) <= 0,
+      )
+      .map((n) => n.id),
+  );
+  const rosterIds = new Set(nodes.filter((n) => n.kind === "current_roster").map((n) => n.id));
+
+  const keptEdges = edges.filter(
+    (e) => happened.has(e.source) && (happened.has(e.target) || rosterIds.has(e.target)),
+  );
+  const reached = new Set(keptEdges.map((e) => e.target));
+  return {
+    nodes: nodes.filter((n) => happened.has(n.id) || (rosterIds.has(n.id) && reached.has(n.id))),
+    edges: keptEdges,
+  };
+}
+
+export interface RosterAsOfAsset {
+  key: string;
+  assetKind: "player" | "pick";
+  label: string;
+  position: string | null;
+  since: TimelinePoint;
+}
+
+export interface RosterAsOf {
+  userId: string;
+  displayName: string;
+  assets: RosterAsOfAsset[];
+}
+
+/** A tenure is running at `asOf` if it started by then and ends after it. */
+export function isTenureOpenAt(edge: GraphEdge, asOf: TimelinePoint): boolean {
+  if (comparePoints({ season: edge.startSeason, week: edge.startWeek }, asOf) > 0) return false;
+  if (edge.endSeason === null) return true;
+  return comparePoints({ season: edge.endSeason, week: edge.endWeek ?? 0 }, asOf) > 0;
+}
+
+/**
+ * Every manager's holdings at `asOf`, rebuilt from the tenures running
+ * then. Players sort before picks; managers by name.
+ */
+export function rostersAsOf(edges: GraphEdge[], asOf: TimelinePoint): RosterAsOf[] {
+  const byManager = new Map<string, RosterAsOf>();
+  for (const e of edges) {
+    if (!isTenureOpenAt(e, asOf)) continue;
+    const key = edgeAssetKey(e) || e.id;
+    let roster = byManager.get(e.managerUserId);
+    if (!roster) {
+      roster = { userId: e.managerUserId, displayName: e.managerName, assets: [] };
+      byManager.set(e.managerUserId, roster);
+    }
+    if (roster.assets.some((a) => a.key === key)) continue;
+    roster.assets.push({
+      key,
+      assetKind: e.assetKind,
+      label: (e.assetKind === "pick" ? e.pickLabel : e.playerName) ?? "Unknown",
+      position: e.playerPosition,
+      since: { season: e.startSeason, week: e.startWeek },
+    });
+  }
+
+  const rosters = [...byManager.values()];
+  for (const r of rosters) {
+    r.assets.sort(
+      (a, b) =>
+        Number(a.assetKind === "pick") - Number(b.assetKind === "pick") ||
+        a.label.localeCompare(b.label),
+    );
+  }
+  return rosters.sort((a, b) => a.displayName.localeCompare(b.displayName));
+}
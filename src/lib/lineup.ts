@@ -2,99 +2,158 @@
 // Optimal Lineup Solver
 // ============================================================
 // Given a set of players with points and a list of roster position slots,
-// finds the highest-scoring valid lineup using greedy positional assignment.
+// finds the highest-scoring valid lineup as a max-weight assignment of
+// players to slots (Hungarian algorithm).
 
-const FLEX_ELIGIBILITY: Record<string, string[]> = {
+/**
+ * Positions each Sleeper slot accepts. Slots not listed here (QB, RB, WR,
+ * TE, K, DEF, DL, LB, DB) take only their own position.
+ */
+const SLOT_ELIGIBILITY: Record<string, string[]> = {
   FLEX: ["RB", "WR", "TE"],
   SUPER_FLEX: ["QB", "RB", "WR", "TE"],
   REC_FLEX: ["WR", "TE"],
+  WRRB_FLEX: ["RB", "WR"],
+  IDP_FLEX: ["DL", "LB", "DB"],
+};
+
+/** Granular IDP positions some players carry, folded into Sleeper's IDP slots. */
+const IDP_POSITION_GROUP: Record<string, string> = {
+  DE: "DL",
+  DT: "DL",
+  ILB: "LB",
+  OLB: "LB",
+  CB: "DB",
+  S: "DB",
+  SS: "DB",
+  FS: "DB",
 };
 
 const NON_SCORING_SLOTS = new Set(["BN", "IR", "TAXI"]);
 
+/**
+ * Tie-break nudge so a 0-point player still fills a slot over leaving it
+ * empty. Far below scoring precision, so it never changes the optimum.
+ */
+const FILL_EPSILON = 1e-6;
+
 export interface OptimalLineupResult {
   optimalPoints: number;
   optimalStarters: string[];
 }
 
+/** Whether a player at `position` may start in `slot`. */
+export function isSlotEligible(slot: string, position: string | undefined): boolean {
+  if (!position) return false;
+  const group = IDP_POSITION_GROUP[position] ?? position;
+  const eligible = SLOT_ELIGIBILITY[slot];
+  return eligible ? eligible.includes(group) : group === slot;
+}
+
+/**
+ * Min-cost assignment of every row to a distinct column (rows ≤ cols).
+ * Classic O(n²·m) Hungarian with potentials; returns the column per row.
+ */
+function hungarian(cost: number[][], cols: number): number[] {
+  const n = cost.length;
+  const u = new Array<number>(n + 1).fill(0);
+  const v = new Array<number>(cols + 1).fill(0);
+  // p[j] = row (1-based) assigned to column j; way[j] = previous column on the path
+  const p = new Array<number>(cols + 1).fill(0);
+  const way = new Array<number>(cols + 1).fill(0);
+
+  for (let i = 1; i <= n; i++) {
+    p[0] = i;
+    let j0 = 0;
+    const minv = new Array<number>(cols + 1).fill(Infinity);
+    const used = new Array<boolean>(cols + 1).fill(false);
+    do {
+      used[j0] = true;
+      const i0 = p[j0];
+      let delta = Infinity;
+      let j1 = 0;
+      for (let j = 1; j <= cols; j++) {
+        if (used[j]) continue;
+        const cur = cost[i0 - 1][j - 1] - u[i0] - v[j];
+        if (cur < minv[j]) {
+          minv[j] = cur;
+          way[j] = j0;
+        }
+        if (minv[j] < delta) {
+          delta = minv[j];
+          j1 = j;
+        }
+      }
+      for (let j = 0; j <= cols; j++) {
+        if (used[j]) {
+          u[p[j]] += delta;
+          v[j] -= delta;
+        } else {
+          minv[j] -= delta;
+        }
+      }
+      j0 = j1;
+    } while (p[j0] !== 0);
+    do {
+      const j1 = way[j0];
+      p[j0] = p[j1];
+      j0 = j1;
+    } while (j0 !== 0);
+  }
+
+  const assignment = new Array<number>(n).fill(-1);
+  for (let j = 1; j <= cols; j++) {
+    if (p[j] !== 0) assignment[p[j] - 1] = j - 1;
+  }
+  return assignment;
+}
+
 /**
  * Solve the optimal lineup given player points, positions, and roster slot configuration.
  *
- * Algorithm:
- * 1. Separate roster slots into specific (QB, RB, etc.) and flex (FLEX, SUPER_FLEX, REC_FLEX)
- * 2. Sort players by points descending
- * 3. Fill specific slots first (highest scorers get priority)
- * 4. Fill flex slots with remaining eligible players
+ * Scoring slots are rows and players are columns of an assignment problem,
+ * plus one "empty" column per slot so a slot can go unfilled (worth 0) when
+ * nobody eligible is left or every candidate scored negative. Every Sleeper
+ * slot type is supported, including mixed flex slots and IDP.
+ *
+ * Starters are returned in roster slot order.
  */
 export function solveOptimalLineup(
   playerPoints: Record<string, number>,
   playerPositions: Record<string, string>,
   rosterPositions: string[],
 ): OptimalLineupResult {
-  // Separate scoring slots into specific and flex
-  const specificSlots: string[] = [];
-  const flexSlots: string[] = [];
-
-  for (const slot of rosterPositions) {
-    if (NON_SCORING_SLOTS.has(slot)) continue;
-    if (FLEX_ELIGIBILITY[slot]) {
-      flexSlots.push(slot);
-    } else {
-      specificSlots.push(slot);
-    }
-  }
-
-  // Sort players by points descending (include 0-point players so positional slots get filled)
-  const sortedPlayers = Object.entries(playerPoints)
-    .filter(([, pts]) => pts >= 0)
-    .sort(([, a], [, b]) => b - a);
-
-  const assigned = new Set<string>();
-  const starters: string[] = [];
+  const slots = rosterPositions.filter((slot) => !NON_SCORING_SLOTS.has(slot));
+  const players = Object.entries(playerPoints).filter(([playerId]) =>
+    slots.some((slot) => isSlotEligible(slot, playerPositions[playerId])),
+  );
 
-  // Count how many of each specific slot we need
-  const slotCounts = new Map<string, number>();
-  for (const slot of specificSlots) {
-    slotCounts.set(slot, (slotCounts.get(slot) || 0) + 1);
+  if (slots.length === 0 || players.length === 0) {
+    return { optimalPoints: 0, optimalStarters: [] };
   }
 
-  // Fill specific slots: for each slot type, assign best available matching players
-  for (const [slot, count] of slotCounts) {
-    let filled = 0;
-    for (const [playerId] of sortedPlayers) {
-      if (filled >= count) break;
-      if (assigned.has(playerId)) continue;
-      const pos = playerPositions[playerId];
-      if (pos === slot) {
-        assigned.add(playerId);
-        starters.push(playerId);
-        filled++;
+  // Unreachable for any real assignment: every row has a 0-cost empty column.
+  const BLOCKED = 1e9;
+  const cols = players.length + slots.length;
+  const cost = slots.map((slot, s) => {
+    const row = new Array<number>(cols).fill(BLOCKED);
+    players.forEach(([playerId, pts], p) => {
+      if (isSlotEligible(slot, playerPositions[playerId])) {
+        row[p] = -(pts + FILL_EPSILON);
       }
-    }
-  }
-
-  // Fill flex slots with remaining eligible players
-  for (const flexSlot of flexSlots) {
-    const eligible = FLEX_ELIGIBILITY[flexSlot];
-    if (!eligible) continue;
+    });
+    row[players.length + s] = 0;
+    return row;
+  });
 
-    let filled = false;
-    for (const [playerId] of sortedPlayers) {
-      if (filled) break;
-      if (assigned.has(playerId)) continue;
-      const pos = playerPositions[playerId];
-      if (pos && eligible.includes(pos)) {
-        assigned.add(playerId);
-        starters.push(playerId);
-        filled = true;
-      }
-    }
+  const starters: string[] = [];
+  let optimalPoints = 0;
+  for (const col of hungarian(cost, cols)) {
+    if (col < 0 || col >= players.length) continue;
+    const [playerId, pts] = players[col];
+    starters.push(playerId);
+    optimalPoints += pts;
   }
 
-  const optimalPoints = starters.reduce(
-    (sum, pid) => sum + (playerPoints[pid] || 0),
-    0,
-  );
-
   return { optimalPoints, optimalStarters: starters };
 }
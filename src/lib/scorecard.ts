@@ -0,0 +1,138 @@
+/**
+ * Experiment scorecard shape, stored in `experiment_runs.scorecard` and
+ * rendered on /experiments.
+ */
+
+import { round3, type BootstrapInterval } from "@/lib/stats";
+
+export type ExperimentVerdict = "confirmed" | "rejected" | "inconclusive";
+
+export interface ScorecardMetric {
+  name: string;
+  value: number;
+  baseline?: number;
+  lift?: number;
+  unit: string;
+  direction: "higher" | "lower";
+  /** Bootstrap interval around `value` */
+  ci?: { lower: number; upper: number; confidence: number };
+  pValue?: number;
+  /** Acceptance threshold the interval is judged against */
+  threshold?: number;
+}
+
+export interface Scorecard {
+  primaryMetrics: ScorecardMetric[];
+  secondaryMetrics?: ScorecardMetric[];
+  guardrailMetrics?: ScorecardMetric[];
+}
+
+/** Build a scorecard metric with automatic lift calculation and rounding */
+export function metric(
+  name: string,
+  value: number,
+  unit: string,
+  opts?: {
+    baseline?: number;
+    direction?: "higher" | "lower";
+    interval?: BootstrapInterval | null;
+    threshold?: number;
+  },
+): ScorecardMetric {
+  const direction = opts?.direction ?? "higher";
+  const baseline = opts?.baseline;
+  const interval = opts?.interval;
+  const lift =
+    baseline !== undefined && baseline !== 0
+      ? (value - baseline) / Math.abs(baseline)
+      : undefined;
+  return {
+    name,
+    value: round3(value),
+    baseline: baseline !== undefined ? round3(baseline) : undefined,
+    lift,
+    unit,
+    direction,
+    ...(interval && {
+      ci: { lower: interval.lower, upper: interval.upper, confidence: interval.confidence },
+      pValue: interval.pValue,
+    }),
+    ...(opts?.threshold !== undefined && { threshold: opts.threshold }),
+  };
+}
+
+/**
+ * Judge an interval against an acceptance threshold: confirmed when the
+ * whole interval clears it in the metric's good direction, rejected when
+ * the whole interval misses, inconclusive when it straddles. A null
+ * interval (too few groups to resample) is inconclusive.
+ */
+export function intervalVerdict(
+  interval: Pick<BootstrapInterval, "lower" | "upper"> | null,
+  threshold: number,
+  direction: "higher" | "lower" = "higher",
+): ExperimentVerdict {
+  if (!interval) return "inconclusive";
+  const [clears, misses] =
+    direction === "higher"
+      ? [interval.lower > threshold, interval.upper <= threshold]
+      : [interval.upper < threshold, interval.lower >= threshold];
+  return clears ? "confirmed" : misses ? "rejected" : "inconclusive";
+}
+
+/**
+ * Combine per-comparison interval verdicts: confirmed when at least `needed`
+ * comparisons confirm, inconclusive when the still-open ones could get it
+ * there, rejected otherwise. No comparisons at all is inconclusive.
+ */
+export function combineVerdicts(verdicts: ExperimentVerdict[], needed: number): ExperimentVerdict {
+  if (verdicts.length === 0) return "inconclusive";
+  const confirmed = verdicts.filter((v) => v === "confirmed").length;
+  const open = verdicts.filter((v) => v === "inconclusive").length;
+  return confirmed >= needed ? "confirmed" : confirmed + open >= needed ? "inconclusive" : "rejected";
+}
+
+export interface MetricComparison {
+  section: "primary" | "secondary" | "guardrail";
+  name: string;
+  unit: string;
+  direction: "higher" | "lower";
+  current?: number;
+  previous?: number;
+  /** current − previous, when both runs report the metric */
+  delta?: number;
+}
+
+/**
+ * Pair two runs' scorecard metrics by section and name, for run-vs-run
+ * comparison. Output follows `current`, then metrics only `previous` has.
+ */
+export function compareScorecards(
+  current: Scorecard | null,
+  previous: Scorecard | null,
+): MetricComparison[] {
+  const sections = (card: Scorecard | null) =>
+    [
+      ["primary", card?.primaryMetrics ?? []],
+      ["secondary", card?.secondaryMetrics ?? []],
+      ["guardrail", card?.guardrailMetrics ?? []],
+    ] as const;
+
+  const rows = new Map<string, MetricComparison>();
+  for (const [side, card] of [["current", current], ["previous", previous]] as const) {
+    for (const [section, metrics] of sections(card)) {
+      for (const m of metrics) {
+        const key = `${section}:${m.name}`;
+        const row = rows.get(key) ?? { section, name: m.name, unit: m.unit, direction: m.direction };
+        row[side] = m.value;
+        rows.set(key, row);
+      }
+    }
+  }
+
+  return [...rows.values()].map((row) =>
+    row.current !== undefined && row.previous !== undefined
+      ? { ...row, delta: round3(row.current - row.previous) }
+      : row,
+  );
+}
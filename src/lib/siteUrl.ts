@@ -0,0 +1,14 @@
+/**
+ * Absolute origin of this deployment, for links that leave the app
+ * (emails, share-card image URLs). Comes from configuration only — never
+ * from request headers, which the client controls.
+ */
+export function getSiteUrl(): string {
+  if (process.env.NEXT_PUBLIC_SITE_URL) {
+    return process.env.NEXT_PUBLIC_SITE_URL.replace(/\/+$/, "");
+  }
+  if (process.env.VERCEL_URL) {
+    return `https://${process.env.VERCEL_URL.replace(/\/+$/, "")}`;
+  }
+  return "https://dynasty-dna.app";
+}
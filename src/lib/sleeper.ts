@@ -4,64 +4,41 @@
  * API docs: https://docs.sleeper.com/
  * Rate limit: 1000 requests/minute
  * Auth: None required (public, read-only)
+ *
+ * Responses can be recorded to and replayed from a persistent store (see
+ * src/lib/sleeper/responseStore.ts). Methods for endpoints that can stop
+ * changing take an `{ immutable }` hint; the caller knows when a draft or
+ * season is complete, the client doesn't.
  */
 
-import { recordSleeperCall } from "@/lib/sleeper/rateLimit";
+import {
+  acquireSleeperToken,
+  noteSleeperThrottled,
+  recordSleeperCall,
+  sleeperBackoffMs,
+} from "@/lib/sleeper/rateLimit";
+import { getSleeperResponseStore } from "@/lib/sleeper/responseStore";
 
 const BASE_URL = "https://api.sleeper.app/v1";
 
-// Rate limiting: max 15 requests per second (~900/min, well under 1000 limit)
-const MAX_RPS = 15;
-const MIN_INTERVAL_MS = Math.ceil(1000 / MAX_RPS);
-let lastRequestTime = 0;
-const queue: Array<() => void> = [];
-let processing = false;
-
-async function processQueue() {
-  if (processing) return;
-  processing = true;
-  while (queue.length > 0) {
-    const now = Date.now();
-    const elapsed = now - lastRequestTime;
-    if (elapsed < MIN_INTERVAL_MS) {
-      await new Promise((r) => setTimeout(r, MIN_INTERVAL_MS - elapsed));
-    }
-    lastRequestTime = Date.now();
-    const next = queue.shift();
-    next?.();
-  }
-  processing = false;
-}
-
-async function rateLimitedFetch(url: string): Promise<Response> {
-  return new Promise<Response>((resolve, reject) => {
-    queue.push(async () => {
-      try {
-        const res = await fetchWithRetry(url);
-        resolve(res);
-      } catch (err) {
-        reject(err);
-      }
-    });
-    processQueue();
-  });
-}
-
-async function fetchWithRetry(
-  url: string,
-  retries = 3,
-  backoff = 1000
-): Promise<Response> {
+/**
+ * Fetch with retries on 429/5xx. Every attempt, retries included, takes a
+ * token from the shared bucket (src/lib/sleeper/rateLimit.ts), so a burst
+ * of failures can't push us past the limit.
+ */
+async function fetchWithRetry(url: string, retries = 3): Promise<Response> {
   for (let attempt = 0; attempt <= retries; attempt++) {
+    await acquireSleeperToken();
     // Record every outbound call (including retries) so the rate gauge
     // reflects what Sleeper actually saw, not just what callers requested.
     recordSleeperCall();
     const res = await fetch(url);
     if (res.ok) return res;
     if (res.status === 429 || res.status >= 500) {
+      if (res.status === 429) noteSleeperThrottled();
       if (attempt < retries) {
         await new Promise((r) =>
-          setTimeout(r, backoff * Math.pow(2, attempt))
+          setTimeout(r, sleeperBackoffMs(attempt, res.headers.get("retry-after")))
         );
         continue;
       }
@@ -71,9 +48,44 @@ async function fetchWithRetry(
   throw new Error(`Sleeper API: max retries exceeded for ${url}`);
 }
 
-async function get<T>(path: string): Promise<T> {
-  const res = await rateLimitedFetch(`${BASE_URL}${path}`);
-  return res.json();
+export interface SleeperGetOpts {
+  /** The response can no longer change, so a stored copy is as good as a fetch. */
+  immutable?: boolean;
+}
+
+async function get<T>(path: string, opts?: SleeperGetOpts): Promise<T> {
+  const active = getSleeperResponseStore();
+  const immutable = opts?.immutable ?? false;
+
+  if (active?.mode === "replay") {
+    const body = await active.store.read(path);
+    if (body === undefined) {
+      throw new Error(`Sleeper replay: no recorded response for ${path}`);
+    }
+    return body as T;
+  }
+
+  if (active && immutable) {
+    try {
+      const body = await active.store.read(path);
+      if (body !== undefined) return body as T;
+    } catch (err) {
+      // A store outage degrades to the network, never fails the sync
+      console.warn(`[sleeper] response store read failed for ${path}:`, err);
+    }
+  }
+
+  const res = await fetchWithRetry(`${BASE_URL}${path}`);
+  const body: T = await res.json();
+
+  if (active && (immutable || active.mode === "record")) {
+    try {
+      await active.store.write(path, body);
+    } catch (err) {
+      console.warn(`[sleeper] response store write failed for ${path}:`, err);
+    }
+  }
+  return body;
 }
 
 // ---- Types ----
@@ -112,6 +124,8 @@ export interface SleeperRoster {
     fpts_decimal?: number;
     fpts_against?: number;
     fpts_against_decimal?: number;
+    ppts?: number; // max PF (potential points)
+    ppts_decimal?: number;
   };
 }
 
@@ -233,22 +247,22 @@ export const Sleeper = {
   getLeagueUsers: (leagueId: string) =>
     get<SleeperLeagueUser[]>(`/league/${leagueId}/users`),
 
-  getMatchups: (leagueId: string, week: number) =>
-    get<SleeperMatchup[]>(`/league/${leagueId}/matchups/${week}`),
+  getMatchups: (leagueId: string, week: number, opts?: SleeperGetOpts) =>
+    get<SleeperMatchup[]>(`/league/${leagueId}/matchups/${week}`, opts),
 
-  getTransactions: (leagueId: string, week: number) =>
-    get<SleeperTransaction[]>(`/league/${leagueId}/transactions/${week}`),
+  getTransactions: (leagueId: string, week: number, opts?: SleeperGetOpts) =>
+    get<SleeperTransaction[]>(`/league/${leagueId}/transactions/${week}`, opts),
 
   getDrafts: (leagueId: string) =>
     get<SleeperDraft[]>(`/league/${leagueId}/drafts`),
 
   // The list endpoint above returns summary entries that omit
   // `slot_to_roster_id`. Fetch the per-draft endpoint to get it.
-  getDraft: (draftId: string) =>
-    get<SleeperDraft>(`/draft/${draftId}`),
+  getDraft: (draftId: string, opts?: SleeperGetOpts) =>
+    get<SleeperDraft>(`/draft/${draftId}`, opts),
 
-  getDraftPicks: (draftId: string) =>
-    get<SleeperDraftPick[]>(`/draft/${draftId}/picks`),
+  getDraftPicks: (draftId: string, opts?: SleeperGetOpts) =>
+    get<SleeperDraftPick[]>(`/draft/${draftId}/picks`, opts),
 
   getTradedPicks: (leagueId: string) =>
     get<SleeperTradedPick[]>(`/league/${leagueId}/traded_picks`),
@@ -259,4 +273,7 @@ export const Sleeper = {
 
   getWinnersBracket: (leagueId: string) =>
     get<SleeperBracketMatchup[]>(`/league/${leagueId}/winners_bracket`),
+
+  getLosersBracket: (leagueId: string) =>
+    get<SleeperBracketMatchup[]>(`/league/${leagueId}/losers_bracket`),
 };
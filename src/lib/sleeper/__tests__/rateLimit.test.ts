@@ -8,6 +8,11 @@
  *   - emits the gauge to Sentry.metrics when a DSN is set
  *   - falls back to addBreadcrumb when Sentry.metrics is unavailable
  *   - flushes once per 60s interval (not on every call)
+ *
+ * And the token bucket every request draws from:
+ *   - a burst goes through, then reservations queue at the refill rate
+ *   - a 429 halves the rate and drains the bucket; the rate recovers
+ *   - retry backoff doubles per attempt and honors Retry-After
  */
 
 jest.mock("@sentry/nextjs", () => ({
@@ -28,6 +33,11 @@ import {
   __resetSleeperRateState,
   __getLastFlushAt,
   SLEEPER_LIMIT_PER_MINUTE,
+  SLEEPER_MAX_RPS,
+  reserveSleeperToken,
+  noteSleeperThrottled,
+  getSleeperRefillRate,
+  sleeperBackoffMs,
 } from "../rateLimit";
 
 const mockedSentry = Sentry as unknown as {
@@ -187,3 +197,56 @@ describe("Sleeper rate-limit gauge", () => {
     expect(getTotalSleeperCalls()).toBe(3);
   });
 });
+
+describe("Sleeper token bucket", () => {
+  const t0 = 1_700_000_000_000;
+
+  beforeEach(() => {
+    __resetSleeperRateState();
+  });
+
+  it("allows a burst, then queues each reservation one refill interval apart", () => {
+    const waits = Array.from({ length: 8 }, () => reserveSleeperToken(t0));
+    expect(waits.slice(0, 5)).toEqual([0, 0, 0, 0, 0]);
+    expect(waits.slice(5)).toEqual([67, 134, 200]);
+  });
+
+  it("refills over time up to the burst size", () => {
+    for (let i = 0; i < 5; i++) reserveSleeperToken(t0);
+    expect(reserveSleeperToken(t0 + 1000)).toBe(0);
+    // An hour idle still only buys the burst
+    const waits = Array.from({ length: 6 }, () => reserveSleeperToken(t0 + 3_600_000));
+    expect(waits.filter((w) => w === 0)).toHaveLength(5);
+  });
+
+  it("halves the rate on a 429 and recovers linearly", () => {
+    reserveSleeperToken(t0);
+    noteSleeperThrottled(t0);
+    expect(getSleeperRefillRate(t0)).toBe(SLEEPER_MAX_RPS / 2);
+    // Drained: the very next request waits for a token at the slower rate
+    expect(reserveSleeperToken(t0)).toBe(134);
+
+    noteSleeperThrottled(t0);
+    expect(getSleeperRefillRate(t0)).toBe(SLEEPER_MAX_RPS / 4);
+    expect(getSleeperRefillRate(t0 + 60_000)).toBe(SLEEPER_MAX_RPS);
+  });
+
+  it("never drops below the minimum rate", () => {
+    reserveSleeperToken(t0);
+    for (let i = 0; i < 10; i++) noteSleeperThrottled(t0);
+    expect(getSleeperRefillRate(t0)).toBe(2);
+  });
+});
+
+describe("sleeperBackoffMs", () => {
+  it("doubles per attempt and caps at 30s", () => {
+    expect([0, 1, 2].map((a) => sleeperBackoffMs(a))).toEqual([1000, 2000, 4000]);
+    expect(sleeperBackoffMs(10)).toBe(30_000);
+  });
+
+  it("prefers a numeric Retry-After", () => {
+    expect(sleeperBackoffMs(0, "5")).toBe(5000);
+    expect(sleeperBackoffMs(0, "120")).toBe(30_000);
+    expect(sleeperBackoffMs(2, "Wed, 21 Oct 2015 07:28:00 GMT")).toBe(4000);
+  });
+});
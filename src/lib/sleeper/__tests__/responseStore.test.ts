@@ -0,0 +1,93 @@
+/**
+ * @jest-environment node
+ *
+ * Verifies the Sleeper response store backends and configuration:
+ *   - file store round-trips JSON at a path derived from the API path
+ *   - API paths can't escape the store directory
+ *   - SLEEPER_STORE / SLEEPER_STORE_MODE parsing, failing loudly on typos
+ */
+
+jest.mock("@/db", () => ({ getDb: jest.fn(), schema: {} }));
+
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import {
+  createFileResponseStore,
+  createMemoryResponseStore,
+  responseFilePath,
+  storeFromEnv as fromEnv,
+} from "../responseStore";
+
+describe("responseFilePath", () => {
+  it("maps each path segment to a directory and adds .json", () => {
+    expect(responseFilePath("/fx", "/league/123/matchups/4")).toBe(
+      path.join("/fx", "league", "123", "matchups", "4.json"),
+    );
+  });
+
+  it("keeps dot segments and separators inside the directory", () => {
+    const file = responseFilePath("/fx", "/user/../../etc/passwd");
+    expect(file.startsWith(path.join("/fx", "user"))).toBe(true);
+    expect(responseFilePath("/fx", "/user/a%2Fb")).toBe(path.join("/fx", "user", "a%252Fb.json"));
+  });
+
+  it("rejects an empty path", () => {
+    expect(() => responseFilePath("/fx", "/")).toThrow(/Invalid Sleeper API path/);
+  });
+});
+
+describe("createFileResponseStore", () => {
+  let dir: string;
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "sleeper-store-"));
+  });
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("writes then reads a response, creating directories as needed", async () => {
+    const store = createFileResponseStore(dir);
+    const body = [{ roster_id: 1, points: 101.5 }];
+
+    await store.write("/league/L1/matchups/3", body);
+    expect(fs.existsSync(path.join(dir, "league", "L1", "matchups", "3.json"))).toBe(true);
+    await expect(store.read("/league/L1/matchups/3")).resolves.toEqual(body);
+  });
+
+  it("returns undefined on a miss", async () => {
+    await expect(createFileResponseStore(dir).read("/draft/D9/picks")).resolves.toBeUndefined();
+  });
+});
+
+describe("createMemoryResponseStore", () => {
+  it("serves its seed and records writes", async () => {
+    const store = createMemoryResponseStore({ "/state/nfl": { week: 3 } });
+    await expect(store.read("/state/nfl")).resolves.toEqual({ week: 3 });
+    await store.write("/players/nfl", {});
+    expect(store.entries.has("/players/nfl")).toBe(true);
+  });
+});
+
+describe("storeFromEnv", () => {
+  const storeFromEnv = (env: Record<string, string>) => fromEnv(env as unknown as NodeJS.ProcessEnv);
+
+  it("is null when SLEEPER_STORE is unset", () => {
+    expect(storeFromEnv({})).toBeNull();
+  });
+
+  it("builds a file store in cache mode by default", () => {
+    expect(storeFromEnv({ SLEEPER_STORE: "file:/tmp/fx" })?.mode).toBe("cache");
+  });
+
+  it("builds a db store with an explicit mode", () => {
+    expect(storeFromEnv({ SLEEPER_STORE: "db", SLEEPER_STORE_MODE: "record" })?.mode).toBe("record");
+  });
+
+  it("throws on an unknown store or mode", () => {
+    expect(() => storeFromEnv({ SLEEPER_STORE: "s3://bucket" })).toThrow(/SLEEPER_STORE/);
+    expect(() => storeFromEnv({ SLEEPER_STORE: "db", SLEEPER_STORE_MODE: "replayy" })).toThrow(
+      /SLEEPER_STORE_MODE/,
+    );
+  });
+});
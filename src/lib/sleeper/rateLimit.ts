@@ -1,21 +1,38 @@
-// Sleeper API rolling rate-limit utilization gauge.
+// Sleeper API rate limiting: the token bucket every request (and every
+// retry) draws from, plus a rolling utilization gauge.
 //
-// Sleeper enforces ~1000 requests/minute. We pace requests at <=15 RPS in
-// the client, but actual utilization can dip well below that when callers
-// idle. To know whether we're brushing up against the ceiling — and to
-// alert before we get throttled — we keep a per-client rolling window of
-// request timestamps over the last 60 seconds and emit a gauge to Sentry
-// once a minute (or to the console when no DSN is set).
+// Sleeper enforces ~1000 requests/minute. The bucket refills at up to 15
+// tokens/second with a small burst allowance, so sustained traffic stays
+// near 900/min no matter how many callers fan out. When Sleeper answers
+// 429 the refill rate halves and the bucket drains, then the rate climbs
+// back linearly — a cold sync that trips the limit slows down instead of
+// hammering through its retries.
 //
-// The instrumentation is intentionally side-effect free until the first
-// request lands — no background timers, no module-level setInterval. The
-// minute-tick decision rides off `Date.now()` checked on every recordCall,
-// so unit tests can drive it deterministically without timer mocks.
+// The gauge keeps a per-client rolling window of request timestamps over
+// the last 60 seconds and emits to Sentry once a minute (or to the console
+// when no DSN is set), so we can alert before we get throttled.
+//
+// Both are intentionally side-effect free until the first request lands —
+// no background timers, no module-level setInterval. Refill and the
+// minute-tick decision ride off `Date.now()` passed in on every call, so
+// unit tests can drive them deterministically without timer mocks.
 
 import * as Sentry from "@sentry/nextjs";
 
 /** Sleeper's documented limit: 1000 calls / minute. */
 export const SLEEPER_LIMIT_PER_MINUTE = 1000;
+/** Steady-state refill rate: ~900/min, under the documented limit. */
+export const SLEEPER_MAX_RPS = 15;
+/** Tokens that can accumulate while idle. */
+const BUCKET_BURST = 5;
+/** Floor for the refill rate after repeated 429s. */
+const MIN_RPS = 2;
+/** How fast a throttled rate climbs back, in RPS per second. */
+const RATE_RECOVERY_PER_SEC = 0.5;
+
+const BASE_BACKOFF_MS = 1000;
+const MAX_BACKOFF_MS = 30_000;
+
 /** Rolling window we sample for the gauge. */
 const WINDOW_MS = 60 * 1000;
 /** How often we flush the gauge. */
@@ -31,6 +48,65 @@ let lastFlushAt = 0;
  */
 let totalCalls = 0;
 
+const bucket = {
+  tokens: BUCKET_BURST,
+  rate: SLEEPER_MAX_RPS,
+  updatedAt: 0,
+};
+
+function refillBucket(now: number): void {
+  if (bucket.updatedAt === 0 || now <= bucket.updatedAt) {
+    bucket.updatedAt = Math.max(bucket.updatedAt, now);
+    return;
+  }
+  const elapsedSec = (now - bucket.updatedAt) / 1000;
+  bucket.rate = Math.min(SLEEPER_MAX_RPS, bucket.rate + RATE_RECOVERY_PER_SEC * elapsedSec);
+  bucket.tokens = Math.min(BUCKET_BURST, bucket.tokens + bucket.rate * elapsedSec);
+  bucket.updatedAt = now;
+}
+
+/**
+ * Take a token and return how long to wait (ms) before sending. The bucket
+ * may go negative: each reservation queues behind the ones before it, so
+ * concurrent callers are spaced out without a shared queue.
+ */
+export function reserveSleeperToken(now: number = Date.now()): number {
+  refillBucket(now);
+  bucket.tokens -= 1;
+  return bucket.tokens >= 0 ? 0 : Math.ceil((-bucket.tokens / bucket.rate) * 1000);
+}
+
+/** Wait for a token. Every outbound Sleeper request goes through this. */
+export async function acquireSleeperToken(): Promise<void> {
+  const waitMs = reserveSleeperToken();
+  if (waitMs > 0) await new Promise((r) => setTimeout(r, waitMs));
+}
+
+/** Sleeper answered 429: halve the refill rate and drop any saved burst. */
+export function noteSleeperThrottled(now: number = Date.now()): void {
+  refillBucket(now);
+  bucket.rate = Math.max(MIN_RPS, bucket.rate / 2);
+  bucket.tokens = Math.min(bucket.tokens, 0);
+}
+
+/** Current refill rate (RPS); below SLEEPER_MAX_RPS while recovering from a 429. */
+export function getSleeperRefillRate(now: number = Date.now()): number {
+  refillBucket(now);
+  return bucket.rate;
+}
+
+/**
+ * Delay before retry `attempt` (0-based): 1s, 2s, 4s, ... capped at 30s.
+ * A `Retry-After` header in seconds wins when present.
+ */
+export function sleeperBackoffMs(attempt: number, retryAfter: string | null = null): number {
+  const seconds = Number(retryAfter);
+  if (retryAfter !== null && Number.isFinite(seconds) && seconds > 0) {
+    return Math.min(MAX_BACKOFF_MS, seconds * 1000);
+  }
+  return Math.min(MAX_BACKOFF_MS, BASE_BACKOFF_MS * 2 ** attempt);
+}
+
 function isDsnConfigured(): boolean {
   return Boolean(
     process.env.SENTRY_DSN || process.env.NEXT_PUBLIC_SENTRY_DSN,
@@ -140,11 +216,14 @@ export function getTotalSleeperCalls(): number {
   return totalCalls;
 }
 
-/** Test-only: drop every retained call timestamp. */
+/** Test-only: drop every retained call timestamp and refill the bucket. */
 export function __resetSleeperRateState(): void {
   callTimestamps.length = 0;
   lastFlushAt = 0;
   totalCalls = 0;
+  bucket.tokens = BUCKET_BURST;
+  bucket.rate = SLEEPER_MAX_RPS;
+  bucket.updatedAt = 0;
 }
 
 /** Test-only: read the lastFlushAt cursor. */
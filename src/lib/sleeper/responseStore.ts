@@ -0,0 +1,148 @@
+// Persistent store for raw Sleeper responses.
+//
+// The client in src/lib/sleeper.ts consults the active store on every GET,
+// keyed by API path (`/league/123/matchups/4`). Three modes:
+//
+//   cache  — endpoints the caller marks immutable (completed drafts, a
+//            completed season's transactions and matchups) are read from
+//            the store when present and written to it after a fetch.
+//            Everything else goes to the network as before.
+//   record — as cache, but every response is written, so a whole sync can
+//            be captured for later replay.
+//   replay — never touch the network. A path missing from the store is an
+//            error, which keeps regression runs honest about their fixtures.
+//
+// No store is active unless one is configured, either explicitly with
+// `setSleeperResponseStore` (scripts, tests) or through the environment:
+//
+//   SLEEPER_STORE=db                  sleeper_responses table
+//   SLEEPER_STORE=file:./fixtures/x   one JSON file per path under the dir
+//   SLEEPER_STORE_MODE=cache|record|replay   (default cache)
+
+import * as fs from "fs/promises";
+import * as path from "path";
+import { eq } from "drizzle-orm";
+import { getDb, schema } from "@/db";
+
+export type SleeperStoreMode = "cache" | "record" | "replay";
+
+export interface SleeperResponseStore {
+  /** The stored body for an API path, or undefined on a miss. */
+  read(apiPath: string): Promise<unknown | undefined>;
+  write(apiPath: string, body: unknown): Promise<void>;
+}
+
+export interface ActiveSleeperStore {
+  store: SleeperResponseStore;
+  mode: SleeperStoreMode;
+}
+
+const MODES: SleeperStoreMode[] = ["cache", "record", "replay"];
+
+// ---- Stores ----
+
+/** In-process store, for tests. `seed` maps API paths to bodies. */
+export function createMemoryResponseStore(
+  seed: Record<string, unknown> = {},
+): SleeperResponseStore & { entries: Map<string, unknown> } {
+  const entries = new Map(Object.entries(seed));
+  return {
+    entries,
+    read: async (apiPath) => entries.get(apiPath),
+    write: async (apiPath, body) => {
+      entries.set(apiPath, body);
+    },
+  };
+}
+
+/**
+ * `/league/123/matchups/4` → `<dir>/league/123/matchups/4.json`. Segments
+ * are URI-encoded so a username can't escape the directory.
+ */
+export function responseFilePath(dir: string, apiPath: string): string {
+  const segments = apiPath
+    .split("/")
+    .filter(Boolean)
+    .map((s) => encodeURIComponent(s).replace(/^\.+$/, (dots) => "%2E".repeat(dots.length)));
+  if (segments.length === 0) throw new Error(`Invalid Sleeper API path: ${apiPath}`);
+  return `${path.join(dir, ...segments)}.json`;
+}
+
+/** One pretty-printed JSON file per path, diffable and easy to commit as fixtures. */
+export function createFileResponseStore(dir: string): SleeperResponseStore {
+  return {
+    read: async (apiPath) => {
+      try {
+        return JSON.parse(await fs.readFile(responseFilePath(dir, apiPath), "utf8"));
+      } catch (err) {
+        if ((err as NodeJS.ErrnoException).code === "ENOENT") return undefined;
+        throw err;
+      }
+    },
+    write: async (apiPath, body) => {
+      const file = responseFilePath(dir, apiPath);
+      await fs.mkdir(path.dirname(file), { recursive: true });
+      await fs.writeFile(file, `${JSON.stringify(body, null, 2)}\n`);
+    },
+  };
+}
+
+/** The `sleeper_responses` table, shared by every deployment on the database. */
+export function createDbResponseStore(): SleeperResponseStore {
+  return {
+    read: async (apiPath) => {
+      const [row] = await getDb()
+        .select({ body: schema.sleeperResponses.body })
+        .from(schema.sleeperResponses)
+        .where(eq(schema.sleeperResponses.path, apiPath))
+        .limit(1);
+      return row?.body ?? undefined;
+    },
+    write: async (apiPath, body) => {
+      const fetchedAt = new Date();
+      await getDb()
+        .insert(schema.sleeperResponses)
+        .values({ path: apiPath, body, fetchedAt })
+        .onConflictDoUpdate({
+          target: schema.sleeperResponses.path,
+          set: { body, fetchedAt },
+        });
+    },
+  };
+}
+
+// ---- Configuration ----
+
+/** Parse SLEEPER_STORE / SLEEPER_STORE_MODE. Null when no store is configured. */
+export function storeFromEnv(env: NodeJS.ProcessEnv = process.env): ActiveSleeperStore | null {
+  const spec = env.SLEEPER_STORE?.trim();
+  if (!spec) return null;
+
+  const mode = (env.SLEEPER_STORE_MODE?.trim() || "cache") as SleeperStoreMode;
+  if (!MODES.includes(mode)) {
+    throw new Error(`SLEEPER_STORE_MODE must be one of ${MODES.join(", ")} (got "${mode}")`);
+  }
+
+  if (spec === "db") return { store: createDbResponseStore(), mode };
+  if (spec.startsWith("file:") && spec.length > "file:".length) {
+    return { store: createFileResponseStore(spec.slice("file:".length)), mode };
+  }
+  throw new Error(`SLEEPER_STORE must be "db" or "file:<dir>" (got "${spec}")`);
+}
+
+// undefined = not yet read from the environment
+let active: ActiveSleeperStore | null | undefined;
+
+/** The configured store, resolving the environment on first use. */
+export function getSleeperResponseStore(): ActiveSleeperStore | null {
+  if (active === undefined) active = storeFromEnv();
+  return active;
+}
+
+/** Replace the active store. Pass null to go back to network-only. */
+export function setSleeperResponseStore(
+  store: SleeperResponseStore | null,
+  mode: SleeperStoreMode = "cache",
+): void {
+  active = store ? { store, mode } : null;
+}
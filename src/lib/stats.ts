@@ -0,0 +1,184 @@
+/**
+ * Small statistics helpers shared by the experiment runner
+ * (services/experimentRunner) and the offline eval scripts.
+ */
+
+/** Round to 3 decimal places */
+export function round3(n: number): number {
+  return Math.round(n * 1000) / 1000;
+}
+
+/** Descriptive stats for a numeric array */
+export function describeArray(values: number[]): {
+  mean: number;
+  median: number;
+  stddev: number;
+  min: number;
+  max: number;
+  count: number;
+} {
+  if (values.length === 0) {
+    return { mean: 0, median: 0, stddev: 0, min: 0, max: 0, count: 0 };
+  }
+  const sorted = [...values].sort((a, b) => a - b);
+  const mean = sorted.reduce((a, b) => a + b, 0) / sorted.length;
+  const median =
+    sorted.length % 2 === 0
+      ? (sorted[sorted.length / 2 - 1] + sorted[sorted.length / 2]) / 2
+      : sorted[Math.floor(sorted.length / 2)];
+  const variance =
+    sorted.reduce((sum, v) => sum + (v - mean) ** 2, 0) / sorted.length;
+  return {
+    mean: Math.round(mean * 100) / 100,
+    median: Math.round(median * 100) / 100,
+    stddev: Math.round(Math.sqrt(variance) * 100) / 100,
+    min: sorted[0],
+    max: sorted[sorted.length - 1],
+    count: sorted.length,
+  };
+}
+
+/** Spearman rank correlation between two arrays */
+export function spearmanCorrelation(x: number[], y: number[]): number {
+  if (x.length !== y.length || x.length < 2) return 0;
+  const n = x.length;
+
+  const rank = (arr: number[]): number[] => {
+    const sorted = arr.map((v, i) => ({ v, i })).sort((a, b) => a.v - b.v);
+    const ranks = new Array(n);
+    for (let i = 0; i < n; i++) {
+      ranks[sorted[i].i] = i + 1;
+    }
+    return ranks;
+  };
+
+  const rx = rank(x);
+  const ry = rank(y);
+
+  let sumD2 = 0;
+  for (let i = 0; i < n; i++) {
+    sumD2 += (rx[i] - ry[i]) ** 2;
+  }
+
+  return 1 - (6 * sumD2) / (n * (n * n - 1));
+}
+
+/** Shannon entropy of a categorical distribution */
+export function shannonEntropy(values: string[]): number {
+  const counts = new Map<string, number>();
+  for (const v of values) {
+    counts.set(v, (counts.get(v) || 0) + 1);
+  }
+  const n = values.length;
+  let entropy = 0;
+  for (const c of counts.values()) {
+    const p = c / n;
+    if (p > 0) entropy -= p * Math.log2(p);
+  }
+  return Math.round(entropy * 1000) / 1000;
+}
+
+/**
+ * Deterministic PRNG (mulberry32), so a bootstrap re-run over the same data
+ * reproduces the same interval.
+ */
+export function seededRandom(seed: number): () => number {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+export interface BootstrapInterval {
+  /** The statistic on the full sample */
+  estimate: number;
+  lower: number;
+  upper: number;
+  /** e.g. 0.95 */
+  confidence: number;
+  /** Two-sided bootstrap p-value against `nullValue` */
+  pValue: number;
+  /** Groups resampled — the effective sample size */
+  groups: number;
+}
+
+export interface BootstrapOptions {
+  iterations?: number;
+  confidence?: number;
+  /** Value the p-value tests against (default 0) */
+  nullValue?: number;
+  seed?: number;
+}
+
+/**
+ * Cluster bootstrap: resample whole groups (families or league-seasons)
+ * with replacement, recompute `statistic` on each resample, and take the
+ * percentile interval. Resampling groups rather than rows keeps rosters
+ * from the same league together, so a handful of leagues yields the wide
+ * interval it should. Returns null with fewer than two groups, where no
+ * interval is meaningful.
+ */
+export function bootstrapGrouped<T>(
+  items: T[],
+  groupOf: (item: T) => string,
+  statistic: (sample: T[]) => number,
+  opts: BootstrapOptions = {},
+): BootstrapInterval | null {
+  const iterations = opts.iterations ?? 2000;
+  const confidence = opts.confidence ?? 0.95;
+  const nullValue = opts.nullValue ?? 0;
+  const random = seededRandom(opts.seed ?? 1);
+
+  const byGroup = new Map<string, T[]>();
+  for (const item of items) {
+    const key = groupOf(item);
+    byGroup.set(key, [...(byGroup.get(key) ?? []), item]);
+  }
+  const groups = [...byGroup.values()];
+  if (groups.length < 2) return null;
+
+  const stats: number[] = [];
+  for (let i = 0; i < iterations; i++) {
+    const sample: T[] = [];
+    for (let g = 0; g < groups.length; g++) {
+      sample.push(...groups[Math.floor(random() * groups.length)]);
+    }
+    stats.push(statistic(sample));
+  }
+  stats.sort((a, b) => a - b);
+
+  const tail = (1 - confidence) / 2;
+  const at = (q: number) => stats[Math.min(stats.length - 1, Math.max(0, Math.floor(q * stats.length)))];
+  const below = stats.filter((s) => s <= nullValue).length;
+  const above = stats.filter((s) => s >= nullValue).length;
+
+  return {
+    estimate: round3(statistic(items)),
+    lower: round3(at(tail)),
+    upper: round3(at(1 - tail)),
+    confidence,
+    pValue: round3(Math.min(1, (2 * Math.min(below, above)) / stats.length)),
+    groups: groups.length,
+  };
+}
+
+/**
+ * Bootstrap interval on the mean of one value per row — typically a
+ * per-league correlation, or a candidate-minus-baseline gain — resampled by
+ * `group`.
+ */
+export function meanInterval(
+  rows: { group: string; value: number }[],
+  opts: BootstrapOptions = {},
+): BootstrapInterval | null {
+  return bootstrapGrouped(
+    rows,
+    (r) => r.group,
+    (sample) => sample.reduce((a, r) => a + r.value, 0) / sample.length,
+    opts,
+  );
+}
@@ -52,6 +52,8 @@ export interface EnrichedTransaction {
     productionWeight: number | null;
     productionWeeks: number | null;
     fantasyCalcValue: number | null;
+    fantasyCalcValueAtTrade: number | null;
+    valueAsOf: string | null;
   }>;
 }
 
@@ -145,6 +147,8 @@ export async function enrichTransactions(
       productionWeight: number | null;
       productionWeeks: number | null;
       fantasyCalcValue: number | null;
+      fantasyCalcValueAtTrade: number | null;
+      valueAsOf: string | null;
     }>
   >();
 
@@ -158,6 +162,8 @@ export async function enrichTransactions(
         productionWeight: schema.tradeGrades.productionWeight,
         productionWeeks: schema.tradeGrades.productionWeeks,
         fantasyCalcValue: schema.tradeGrades.fantasyCalcValue,
+        fantasyCalcValueAtTrade: schema.tradeGrades.fantasyCalcValueAtTrade,
+        valueAsOf: schema.tradeGrades.valueAsOf,
       })
       .from(schema.tradeGrades)
       .where(inArray(schema.tradeGrades.transactionId, tradeTransactionIds));
@@ -171,6 +177,8 @@ export async function enrichTransactions(
         productionWeight: g.productionWeight,
         productionWeeks: g.productionWeeks,
         fantasyCalcValue: g.fantasyCalcValue,
+        fantasyCalcValueAtTrade: g.fantasyCalcValueAtTrade,
+        valueAsOf: g.valueAsOf?.toISOString() ?? null,
       });
       tradeGradesMap.set(g.transactionId, existing);
     }
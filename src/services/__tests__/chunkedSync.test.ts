@@ -9,6 +9,8 @@
  *   - Stage failures throw — the cursor stays put so the next tick retries
  *   - When every stage has run, returns `status: "completed"`
  *   - On the very first tick we persist `stages_total` before any work
+ *   - With a call budget, stage spend lands on the job and deferrable
+ *     stages wait for a later tick once the job is over budget
  */
 
 const stubColumn = (name: string) => ({ name });
@@ -20,6 +22,8 @@ jest.mock("@/db", () => ({
       stagesCompleted: stubColumn("stages_completed"),
       stagesTotal: stubColumn("stages_total"),
       currentStage: stubColumn("current_stage"),
+      apiCallsMade: stubColumn("api_calls_made"),
+      startedAt: stubColumn("started_at"),
     },
     leagueFamilyMembers: {
       leagueId: stubColumn("league_id"),
@@ -49,8 +53,19 @@ jest.mock("drizzle-orm", () => ({
 }));
 
 const updateSyncJobStageMock = jest.fn();
+const recordSyncJobStageTimingMock = jest.fn();
+const incrementSyncJobApiCallsMock = jest.fn();
 jest.mock("@/services/syncLock", () => ({
   updateSyncJobStage: (...args: unknown[]) => updateSyncJobStageMock(...args),
+  incrementSyncJobApiCalls: (...args: unknown[]) =>
+    incrementSyncJobApiCallsMock(...args),
+  recordSyncJobStageTiming: (...args: unknown[]) =>
+    recordSyncJobStageTimingMock(...args),
+}));
+
+let sleeperCalls = 0;
+jest.mock("@/lib/sleeper/rateLimit", () => ({
+  getTotalSleeperCalls: () => sleeperCalls,
 }));
 
 // Stub every downstream sync helper — the executor wires them, but we
@@ -87,13 +102,23 @@ interface DbState {
   updates: Array<Record<string, unknown>>;
 }
 
-function makeMockDb(initialCursor: number): DbState {
+function makeMockDb(
+  initialCursor: number,
+  job: { apiCallsMade?: number; startedAt?: Date } = {}
+): DbState {
   const state: DbState = { cursor: initialCursor, updates: [] };
   const dbStub = {
     select: jest.fn(() => ({
       from: () => ({
         where: () => ({
-          limit: () => Promise.resolve([{ stagesCompleted: state.cursor }]),
+          limit: () =>
+            Promise.resolve([
+              {
+                stagesCompleted: state.cursor,
+                apiCallsMade: job.apiCallsMade ?? 0,
+                startedAt: job.startedAt ?? new Date(),
+              },
+            ]),
         }),
       }),
     })),
@@ -123,7 +148,10 @@ function makeStage(key: string, runImpl?: () => Promise<void>): ChunkedStage {
 describe("runChunk", () => {
   beforeEach(() => {
     updateSyncJobStageMock.mockReset();
+    recordSyncJobStageTimingMock.mockReset();
+    incrementSyncJobApiCallsMock.mockReset();
     mockedGetDb.mockReset();
+    sleeperCalls = 0;
   });
 
   test("runs every stage to completion when budget is generous", async () => {
@@ -145,6 +173,13 @@ describe("runChunk", () => {
       stagesTotal: 3,
       currentStage: "stage:a",
     });
+    // ...and one timing entry once it finishes.
+    expect(recordSyncJobStageTimingMock.mock.calls.map(([, t]) => t.key)).toEqual([
+      "a",
+      "b",
+      "c",
+    ]);
+    expect(recordSyncJobStageTimingMock.mock.calls[0][1].ms).toBeGreaterThanOrEqual(0);
   });
 
   test("yields cleanly when the deadline is reached between stages", async () => {
@@ -248,4 +283,81 @@ describe("runChunk", () => {
     expect(result.status).toBe("completed");
     expect(result.stagesCompleted).toBe(3);
   });
+
+  describe("call budget", () => {
+    const budget = { callsPerMinute: 600, burst: 100 };
+    const callingStage = (key: string, calls: number, deferrable = false) => ({
+      ...makeStage(
+        key,
+        jest.fn(async () => {
+          sleeperCalls += calls;
+        })
+      ),
+      deferrable,
+    });
+
+    test("charges each stage's Sleeper calls to the job", async () => {
+      makeMockDb(0);
+      const result = await runChunk(
+        "job-1",
+        [callingStage("a", 40), callingStage("b", 0), callingStage("c", 25)],
+        { deadlineAt: Date.now() + 60_000, callBudget: budget }
+      );
+
+      expect(result).toMatchObject({ status: "completed", deferred: false });
+      expect(incrementSyncJobApiCallsMock.mock.calls).toEqual([
+        ["job-1", 40],
+        ["job-1", 25],
+      ]);
+    });
+
+    test("defers a deferrable stage once the job is over budget", async () => {
+      makeMockDb(0, { apiCallsMade: 60 });
+      const grades = callingStage("grades", 0, true);
+      const result = await runChunk(
+        "job-1",
+        [callingStage("season", 80), grades],
+        { deadlineAt: Date.now() + 60_000, callBudget: budget }
+      );
+
+      expect(result).toMatchObject({
+        status: "in_progress",
+        stagesCompleted: 1,
+        currentStageKey: "grades",
+        deferred: true,
+      });
+      expect(grades.run).not.toHaveBeenCalled();
+    });
+
+    test("runs critical stages regardless, and deferrable ones once the allowance grows", async () => {
+      // Started ten minutes ago: allowance is 100 + 600 * 10
+      makeMockDb(0, {
+        apiCallsMade: 500,
+        startedAt: new Date(Date.now() - 10 * 60_000),
+      });
+      const result = await runChunk(
+        "job-1",
+        [callingStage("season", 200), callingStage("grades", 0, true)],
+        { deadlineAt: Date.now() + 60_000, callBudget: budget }
+      );
+      expect(result).toMatchObject({ status: "completed", deferred: false });
+
+      makeMockDb(0, { apiCallsMade: 5_000 });
+      const critical = await runChunk(
+        "job-2",
+        [callingStage("season", 10), callingStage("season-2", 10)],
+        { deadlineAt: Date.now() + 60_000, callBudget: budget }
+      );
+      expect(critical.status).toBe("completed");
+    });
+
+    test("ignores budgets and spend when no callBudget is given", async () => {
+      makeMockDb(0, { apiCallsMade: 5_000 });
+      const result = await runChunk("job-1", [callingStage("grades", 10, true)], {
+        deadlineAt: Date.now() + 60_000,
+      });
+      expect(result.status).toBe("completed");
+      expect(incrementSyncJobApiCallsMock).not.toHaveBeenCalled();
+    });
+  });
 });
@@ -0,0 +1,64 @@
+jest.mock("@/db", () => ({ getDb: jest.fn(), schema: {} }));
+
+import { DEFAULT_CONFIG, mergeConfig } from "../algorithmConfig";
+import type { DryRunGrade } from "../gradingCore";
+import { compareGrades } from "../configDiff";
+
+function grade(kind: DryRunGrade["kind"], id: string, rosterId: number, letter: string, score = 50): DryRunGrade {
+  return { kind, id, leagueId: "l1", rosterId, score, grade: letter };
+}
+
+describe("compareGrades", () => {
+  it("keeps only letter changes, matched by kind, id and roster", () => {
+    const before = [
+      grade("trade", "t1", 1, "B", 70),
+      grade("trade", "t1", 2, "C", 55),
+      grade("draft", "d1:3", 1, "A"),
+    ];
+    const after = [
+      grade("trade", "t1", 1, "B", 72),
+      grade("trade", "t1", 2, "C-", 52),
+      grade("draft", "d1:3", 1, "A"),
+    ];
+    expect(compareGrades(before, after)).toEqual([
+      {
+        kind: "trade",
+        id: "t1",
+        leagueId: "l1",
+        rosterId: 2,
+        before: { grade: "C", score: 55 },
+        after: { grade: "C-", score: 52 },
+      },
+    ]);
+  });
+
+  it("reports grades present on only one side", () => {
+    const changes = compareGrades(
+      [grade("waiver", "w1", 1, "B")],
+      [grade("waiver", "w2", 1, "B")],
+    );
+    expect(changes.map((c) => [c.id, c.before?.grade ?? null, c.after?.grade ?? null])).toEqual([
+      ["w1", "B", null],
+      ["w2", null, "B"],
+    ]);
+  });
+
+  it("does not match the same id across kinds", () => {
+    const changes = compareGrades([grade("trade", "x", 1, "A")], [grade("waiver", "x", 1, "A")]);
+    expect(changes).toHaveLength(2);
+  });
+});
+
+describe("mergeConfig", () => {
+  it("overrides nested keys and leaves the rest", () => {
+    const merged = mergeConfig(DEFAULT_CONFIG, { gradeThresholds: { "A+": 99 } });
+    expect(merged.gradeThresholds["A+"]).toBe(99);
+    expect(merged.gradeThresholds.A).toBe(DEFAULT_CONFIG.gradeThresholds.A);
+    expect(merged.qualityWeights).toEqual(DEFAULT_CONFIG.qualityWeights);
+    expect(DEFAULT_CONFIG.gradeThresholds["A+"]).not.toBe(99);
+  });
+
+  it("returns the base for an empty override", () => {
+    expect(mergeConfig(DEFAULT_CONFIG, null)).toBe(DEFAULT_CONFIG);
+  });
+});
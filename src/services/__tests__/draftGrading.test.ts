@@ -0,0 +1,137 @@
+/**
+ * @jest-environment node
+ *
+ * Draft picks are valued against the board as it stood on draft day. The
+ * grading-core loaders are mocked at the module boundary and the db fake
+ * captures the grade rows the grader upserts.
+ */
+
+jest.mock("@/db", () => {
+  const table = (name: string, columns: string[]) => ({
+    __table: name,
+    ...Object.fromEntries(columns.map((c) => [c, { name: c }])),
+  });
+  return {
+    schema: {
+      drafts: table("drafts", ["leagueId", "status"]),
+      draftPicks: table("draft_picks", ["draftId"]),
+      rosters: table("rosters", ["rosterId", "ownerId", "leagueId"]),
+      draftGrades: table("draft_grades", ["draftId", "pickNo"]),
+    },
+    getDb: jest.fn(),
+  };
+});
+
+jest.mock("drizzle-orm", () => ({
+  eq: (col: unknown, value: unknown) => ({ op: "eq", col, value }),
+  and: (...args: unknown[]) => ({ op: "and", args }),
+  inArray: (col: unknown, values: unknown) => ({ op: "inArray", col, values }),
+  sql: (strings: TemplateStringsArray, ...values: unknown[]) => ({ op: "sql", strings, values }),
+}));
+
+jest.mock("@/services/fantasyCalcSync", () => ({ syncFantasyCalcValues: jest.fn() }));
+jest.mock("@/services/batchHelper", () => ({ batchUpsertManagerMetrics: jest.fn() }));
+jest.mock("@/services/algorithmConfig", () => {
+  const actual = jest.requireActual("@/services/algorithmConfig");
+  return { ...actual, getActiveConfig: async () => actual.DEFAULT_CONFIG };
+});
+
+const loadFantasyCalcSnapshotAsOfMock = jest.fn();
+
+const PLAYERS = ["star", "b1", "b2", "b3", "b4", "b5"];
+
+jest.mock("@/services/gradingCore", () => ({
+  ...jest.requireActual("@/services/gradingCore"),
+  loadLeagueScoringConfig: async () => ({ ppr: 1, isSuperFlex: true, numTeams: 12, numQbs: 2 }),
+  loadFamilyLeagueMap: async () => ({ familyLeagueIds: ["L2024"], leagueSeasonMap: new Map([["L2024", "2024"]]) }),
+  // Today: the first pick busted and everyone after it hit
+  loadFantasyCalcSnapshot: async () =>
+    new Map(["star", "b1", "b2", "b3", "b4", "b5"].map((id) => [id, id === "star" ? 1000 : 3000])),
+  loadFantasyCalcSnapshotAsOf: (...args: unknown[]) => loadFantasyCalcSnapshotAsOfMock(...args),
+  computeSeasonalRanks: async () => ({
+    ranks: new Map(),
+    games: new Map(),
+    activeWeeks: new Map(),
+    positions: new Map(),
+    replacementPPG: new Map(),
+    playerPPG: new Map(),
+    maxPAR: new Map(),
+  }),
+}));
+
+import { getDb } from "@/db";
+import { gradeLeagueDrafts } from "../draftGrading";
+
+const mockedGetDb = getDb as jest.MockedFunction<typeof getDb>;
+
+const draftedAt = Date.now() - 24 * 60 * 60 * 1000;
+
+let upserted: Array<{ pickNo: number; blendedScore: number }>;
+
+function mockDraft(startTime: number | null) {
+  upserted = [];
+  const rows: Record<string, unknown[]> = {
+    drafts: [{ id: "D1", leagueId: "L2024", season: "2024", status: "complete", startTime }],
+    draft_picks: PLAYERS.map((playerId, i) => ({ draftId: "D1", pickNo: i + 1, rosterId: i + 1, playerId })),
+    rosters: [],
+  };
+  mockedGetDb.mockReturnValue({
+    select: () => ({
+      from: (t: { __table: string }) => ({ where: async () => rows[t.__table] }),
+    }),
+    insert: () => ({
+      values: (batch: Array<{ pickNo: number; blendedScore: number }>) => {
+        upserted.push(...batch);
+        return { onConflictDoUpdate: async () => undefined };
+      },
+    }),
+  } as unknown as ReturnType<typeof getDb>);
+}
+
+async function firstPickScore(): Promise<number> {
+  await gradeLeagueDrafts("L2024", "fam-1", { syncedAt: new Date() });
+  return upserted.find((g) => g.pickNo === 1)!.blendedScore;
+}
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  jest.spyOn(console, "log").mockImplementation(() => {});
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe("gradeLeagueDrafts", () => {
+  it("values picks against the snapshot taken before the draft", async () => {
+    mockDraft(draftedAt);
+    loadFantasyCalcSnapshotAsOfMock.mockResolvedValue({
+      snapshot: new Map(PLAYERS.map((id) => [id, id === "star" ? 9000 : 1000])),
+      fetchedAt: new Date(draftedAt - 1000),
+    });
+
+    const score = await firstPickScore();
+
+    expect(loadFantasyCalcSnapshotAsOfMock).toHaveBeenCalledWith(new Date(draftedAt), {
+      isSuperFlex: true,
+      ppr: 1,
+      numTeams: 12,
+      numQbs: 2,
+    });
+    expect(score).toBeGreaterThan(50);
+  });
+
+  it("falls back to today's values when the history doesn't reach back", async () => {
+    mockDraft(draftedAt);
+    loadFantasyCalcSnapshotAsOfMock.mockResolvedValue(null);
+
+    expect(await firstPickScore()).toBeLessThan(50);
+  });
+
+  it("uses today's values for a draft with no start time", async () => {
+    mockDraft(null);
+
+    expect(await firstPickScore()).toBeLessThan(50);
+    expect(loadFantasyCalcSnapshotAsOfMock).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,101 @@
+jest.mock("@/db", () => ({ getDb: jest.fn(), schema: {} }));
+
+import {
+  facetsOf,
+  fieldsOf,
+  MAX_DRILLDOWN_LIMIT,
+  parseDrilldownQuery,
+  queryDrilldown,
+  withResiduals,
+  type DrilldownQuery,
+} from "../experimentDrilldown";
+
+const query = (overrides: Partial<DrilldownQuery> = {}): DrilldownQuery => ({
+  offset: 0,
+  limit: 50,
+  sort: null,
+  order: "desc",
+  filters: {},
+  ...overrides,
+});
+
+describe("parseDrilldownQuery", () => {
+  it("reads paging and sort params and treats the rest as filters", () => {
+    const q = parseDrilldownQuery(
+      new URLSearchParams("offset=20&limit=10&sort=residual&order=asc&kind=trade&leagueId=L1"),
+    );
+    expect(q).toEqual({
+      offset: 20,
+      limit: 10,
+      sort: "residual",
+      order: "asc",
+      filters: { kind: "trade", leagueId: "L1" },
+    });
+  });
+
+  it("clamps paging and defaults to descending", () => {
+    const q = parseDrilldownQuery(new URLSearchParams("offset=-5&limit=99999"));
+    expect(q.offset).toBe(0);
+    expect(q.limit).toBe(MAX_DRILLDOWN_LIMIT);
+    expect(q.order).toBe("desc");
+    expect(q.sort).toBeNull();
+  });
+});
+
+describe("withResiduals", () => {
+  it("z-scores both sides so differently scaled scores compare", () => {
+    const rows = withResiduals([
+      { id: "a", predicted: 90, actual: 0.1 },
+      { id: "b", predicted: 50, actual: 0.5 },
+      { id: "c", predicted: 10, actual: 0.9 },
+    ]);
+    expect(rows[0].residual).toBeCloseTo(2.449, 3);
+    expect(rows[1].residual).toBe(0);
+    expect(rows[2].residual).toBeCloseTo(-2.449, 3);
+  });
+
+  it("leaves rows without a predicted/actual pair alone", () => {
+    const rows = withResiduals([{ pillar: "trade_score", bestCorr: 0.3 }, 7]);
+    expect(rows).toEqual([{ pillar: "trade_score", bestCorr: 0.3 }, { value: 7 }]);
+  });
+});
+
+describe("facetsOf / fieldsOf", () => {
+  it("offers low-cardinality string fields as filters", () => {
+    const rows = withResiduals([
+      { kind: "trade", leagueId: "L1", rosterId: 1, note: "only" },
+      { kind: "draft", leagueId: "L1", rosterId: 2, note: "only" },
+      { kind: "trade", leagueId: "L2", rosterId: 3 },
+    ]);
+    expect(facetsOf(rows)).toEqual({ kind: ["draft", "trade"], leagueId: ["L1", "L2"] });
+    expect(fieldsOf(rows)).toEqual(["kind", "leagueId", "rosterId", "note"]);
+  });
+});
+
+describe("queryDrilldown", () => {
+  const rows = withResiduals([
+    { id: "a", kind: "trade", predicted: 90, actual: 0.1 },
+    { id: "b", kind: "draft", predicted: 50, actual: 0.5 },
+    { id: "c", kind: "trade", predicted: 10, actual: 0.9 },
+    { id: "d", kind: "trade", predicted: 55, actual: 0.5 },
+    { id: "e", kind: "waiver" },
+  ]);
+
+  it("filters by field value", () => {
+    const result = queryDrilldown(rows, query({ filters: { kind: "trade" } }));
+    expect(result.total).toBe(3);
+    expect(result.rows.map((r) => r.id)).toEqual(["a", "c", "d"]);
+  });
+
+  it("lists the worst fits first, unpaired rows last", () => {
+    const ids = queryDrilldown(rows, query({ sort: "residual" })).rows.map((r) => r.id);
+    expect(ids.slice(0, 2).sort()).toEqual(["a", "c"]);
+    expect(ids[ids.length - 1]).toBe("e");
+  });
+
+  it("sorts by a plain field and pages", () => {
+    const result = queryDrilldown(rows, query({ sort: "predicted", order: "asc", offset: 1, limit: 2 }));
+    expect(result.total).toBe(5);
+    expect(result.rows.map((r) => r.id)).toEqual(["b", "d"]);
+  });
+});
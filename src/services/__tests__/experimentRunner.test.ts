@@ -0,0 +1,181 @@
+jest.mock("@/db", () => ({ getDb: jest.fn(), schema: {} }));
+
+import { correlateByLeague, rosterDetails, rosterKey, type GridPointResult } from "../experimentRunner";
+import { getExperiment, gradeDetails, listExperiments, scorePillar } from "../experimentRegistry";
+import { DEFAULT_CONFIG } from "../algorithmConfig";
+
+describe("correlateByLeague", () => {
+  it("averages within-league correlations and skips thin leagues", () => {
+    const predicted = new Map([
+      [rosterKey("a", 1), 10],
+      [rosterKey("a", 2), 20],
+      [rosterKey("a", 3), 30],
+      [rosterKey("b", 1), 10],
+      [rosterKey("b", 2), 20],
+      [rosterKey("b", 3), 30],
+      [rosterKey("c", 1), 5],
+      [rosterKey("c", 2), 6],
+    ]);
+    const actual = new Map([
+      [rosterKey("a", 1), 0.1],
+      [rosterKey("a", 2), 0.2],
+      [rosterKey("a", 3), 0.3],
+      [rosterKey("b", 1), 0.3],
+      [rosterKey("b", 2), 0.2],
+      [rosterKey("b", 3), 0.1],
+      [rosterKey("c", 1), 0.1],
+      [rosterKey("c", 2), 0.2],
+    ]);
+    // a: +1, b: -1, c: only two rosters
+    expect(correlateByLeague(predicted, actual)).toEqual({
+      correlation: 0,
+      leagues: 2,
+      byLeague: { a: 1, b: -1 },
+    });
+  });
+
+  it("ignores rosters without a target", () => {
+    const predicted = new Map([[rosterKey("a", 1), 10]]);
+    expect(correlateByLeague(predicted, new Map())).toEqual({ correlation: 0, leagues: 0, byLeague: {} });
+  });
+});
+
+describe("rosterDetails", () => {
+  it("pairs each matched roster's prediction with its target", () => {
+    const point: GridPointResult<unknown> = { label: "p", params: {}, correlation: 1, leagues: 1, byLeague: {} };
+    const rows = rosterDetails(
+      point,
+      new Map([
+        [rosterKey("league:2024", 1), 1.23456],
+        [rosterKey("league:2024", 2), 2],
+      ]),
+      new Map([[rosterKey("league:2024", 1), 0.5]]),
+    );
+    expect(rows).toEqual([
+      { point: "p", leagueId: "league:2024", rosterId: 1, predicted: 1.235, actual: 0.5 },
+    ]);
+  });
+});
+
+describe("quality-weight-sweep", () => {
+  const spec = getExperiment("quality-weight-sweep")!;
+
+  it("is registered with one grid point per pillar and alpha", async () => {
+    const grid = spec.grid(DEFAULT_CONFIG);
+    expect((await listExperiments()).find((e) => e.name === spec.name)?.gridSize).toBe(grid.length);
+    expect(new Set(grid.map(spec.label)).size).toBe(grid.length);
+  });
+
+  it("adds the family's configured alpha to the grid", () => {
+    const config = { ...DEFAULT_CONFIG, qualityWeights: { ...DEFAULT_CONFIG.qualityWeights, trade_score: 0.35 } };
+    expect(spec.grid(config)).toContainEqual({ pillar: "trade_score", alpha: 0.35 });
+    expect(spec.grid(DEFAULT_CONFIG)).not.toContainEqual({ pillar: "trade_score", alpha: 0.35 });
+  });
+
+  it("weights quality against quantity by alpha", () => {
+    const grades = [
+      { id: "t1", leagueId: "a", rosterId: 1, quality: 90, quantity: 0 },
+      { id: "t2", leagueId: "a", rosterId: 2, quality: 10, quantity: 100 },
+    ];
+    const pureQuality = scorePillar(grades, "trade_score", 1);
+    const pureQuantity = scorePillar(grades, "trade_score", 0);
+    expect(pureQuality.get("a:1")).toBeGreaterThan(pureQuality.get("a:2")!);
+    expect(pureQuantity.get("a:2")).toBeGreaterThan(pureQuantity.get("a:1")!);
+  });
+
+  it("drills down to each graded item next to its manager's MOS", () => {
+    const grade = (id: string, rosterId: number, quality: number) => ({
+      id,
+      leagueId: "a",
+      rosterId,
+      quality,
+      quantity: 0,
+    });
+    const rows = gradeDetails(
+      {
+        trade_score: [grade("t1", 1, 80.1234)],
+        draft_score: [grade("d1:3", 2, 40)],
+        waiver_score: [grade("w1", 9, 60)],
+      },
+      new Map([
+        [rosterKey("a", 1), 0.25],
+        [rosterKey("a", 2), 0.75],
+      ]),
+    );
+    expect(rows).toEqual([
+      { kind: "trade", id: "t1", leagueId: "a", rosterId: 1, predicted: 80.123, actual: 0.25 },
+      { kind: "draft", id: "d1:3", leagueId: "a", rosterId: 2, predicted: 40, actual: 0.75 },
+    ]);
+  });
+
+  /** A grid point whose four leagues sit at `correlation` ± `spread`. */
+  const point = (pillar: string, alpha: number, correlation: number, spread = 0.02): GridPointResult<unknown> => ({
+    label: `${pillar} α=${alpha}`,
+    params: { pillar, alpha },
+    correlation,
+    leagues: 4,
+    byLeague: {
+      l1: correlation - spread,
+      l2: correlation + spread,
+      l3: correlation - spread / 2,
+      l4: correlation + spread / 2,
+    },
+  });
+  const w = DEFAULT_CONFIG.qualityWeights;
+
+  it("confirms when the configured alpha clearly beats pure quality in two pillars", () => {
+    const evaluation = spec.evaluate([
+      point("trade_score", w.trade_score, 0.4),
+      point("trade_score", 1, 0.2),
+      point("draft_score", w.draft_score, 0.3),
+      point("draft_score", 1, 0.1),
+      point("waiver_score", w.waiver_score, 0.1),
+      point("waiver_score", 1, 0.2),
+    ], DEFAULT_CONFIG);
+    expect(evaluation.verdict).toBe("confirmed");
+    expect(evaluation.verdictReason).toBe("Configured α beat pure average in 2/3 pillars");
+    const [trade] = evaluation.scorecard.primaryMetrics;
+    expect(trade.value).toBeCloseTo(0.2, 3);
+    expect(trade.ci!.lower).toBeGreaterThan(0);
+    expect(trade.threshold).toBe(0);
+    expect(evaluation.scorecard.primaryMetrics).toHaveLength(3);
+  });
+
+  it("is inconclusive when a gain's interval straddles zero", () => {
+    const noisy = (pillar: string, alpha: number, correlation: number): GridPointResult<unknown> => ({
+      ...point(pillar, alpha, correlation),
+      byLeague: { l1: correlation + 0.5, l2: correlation - 0.5, l3: correlation + 0.4, l4: correlation - 0.4 },
+    });
+    const evaluation = spec.evaluate([
+      point("trade_score", w.trade_score, 0.4),
+      point("trade_score", 1, 0.2),
+      noisy("draft_score", w.draft_score, 0.3),
+      point("draft_score", 1, 0.1),
+      point("waiver_score", w.waiver_score, 0.1),
+      point("waiver_score", 1, 0.2),
+    ], DEFAULT_CONFIG);
+    expect(evaluation.verdict).toBe("inconclusive");
+    expect(evaluation.verdictReason).toBe(
+      "Configured α beat pure average in 1/3 pillars; 1 too close to call at 95%",
+    );
+  });
+
+  it("judges the family's configured alpha, not the default", () => {
+    const config = { ...DEFAULT_CONFIG, qualityWeights: { trade_score: 0.35, draft_score: 0.35, waiver_score: 0.35 } };
+    const points = [
+      point("trade_score", 0.35, 0.4),
+      point("trade_score", w.trade_score, 0.1),
+      point("trade_score", 1, 0.2),
+      point("draft_score", 0.35, 0.3),
+      point("draft_score", w.draft_score, 0.05),
+      point("draft_score", 1, 0.1),
+    ];
+    expect(spec.evaluate(points, config).verdict).toBe("confirmed");
+    expect(spec.evaluate(points, config).scorecard.primaryMetrics[0].name).toBe("trade_score corr gain (α=0.35 vs 1)");
+    expect(spec.evaluate(points, DEFAULT_CONFIG).verdict).toBe("rejected");
+  });
+
+  it("is inconclusive without scored leagues", () => {
+    expect(spec.evaluate([], DEFAULT_CONFIG).verdict).toBe("inconclusive");
+  });
+});
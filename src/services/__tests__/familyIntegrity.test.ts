@@ -0,0 +1,138 @@
+jest.mock("@/db", () => ({ getDb: jest.fn(), schema: {} }));
+
+const buildAssetEventsMock = jest.fn();
+const syncMatchupWeekMock = jest.fn();
+jest.mock("@/services/assetEvents", () => ({
+  buildAssetEvents: (...args: unknown[]) => buildAssetEventsMock(...args),
+}));
+jest.mock("@/services/sync", () => ({
+  syncMatchupWeek: (...args: unknown[]) => syncMatchupWeekMock(...args),
+}));
+
+import {
+  checkDraftSlotMaps,
+  checkMatchupScores,
+  checkPlayerGsis,
+  checkRosterReconcile,
+  healIntegrityIssues,
+  planHeals,
+  type PlayerEventRow,
+} from "../familyIntegrity";
+
+const leagues = [{ leagueId: "L1", season: "2024" }];
+
+function event(playerId: string, toRosterId: number | null, week: number, createdAt = 0): PlayerEventRow {
+  return { leagueId: "L1", playerId, toRosterId, week, createdAt };
+}
+
+describe("checkRosterReconcile", () => {
+  const rosters = [
+    { leagueId: "L1", rosterId: 1, players: ["p1", "p2"] },
+    { leagueId: "L1", rosterId: 2, players: ["p3", "p9"] },
+  ];
+
+  it("passes when the last event for each player matches its roster", () => {
+    const events = [event("p1", 2, 0), event("p1", 1, 5), event("p3", 2, 3), event("p4", null, 6)];
+    expect(checkRosterReconcile(leagues, events, rosters)).toEqual([]);
+  });
+
+  it("orders same-week events by createdAt and flags every kind of mismatch", () => {
+    const events = [
+      event("p1", 1, 4, 200),
+      event("p1", 2, 4, 100), // earlier in the week, superseded
+      event("p2", null, 6), // dropped, yet rostered
+      event("p3", 1, 2), // on roster 2 instead
+      event("p5", 1, 8), // on no roster
+    ];
+    const issues = checkRosterReconcile(leagues, events, rosters);
+    expect(issues.map((i) => i.playerId).sort()).toEqual(["p2", "p3", "p5"]);
+    expect(issues[0].heal).toEqual({ kind: "rebuild-asset-events", leagueId: "L1", season: "2024" });
+  });
+
+  it("skips leagues with no roster rows and players with no events", () => {
+    expect(checkRosterReconcile(leagues, [event("p1", 3, 1)], [])).toEqual([]);
+  });
+});
+
+describe("checkDraftSlotMaps", () => {
+  it("flags completed drafts with a missing or empty map", () => {
+    const base = { leagueId: "L1", season: "2024" };
+    const issues = checkDraftSlotMaps([
+      { ...base, id: "d1", status: "complete", slotToRosterId: null },
+      { ...base, id: "d2", status: "complete", slotToRosterId: {} },
+      { ...base, id: "d3", status: "complete", slotToRosterId: { 1: 4 } },
+      { ...base, id: "d4", status: "pre_draft", slotToRosterId: null },
+    ]);
+    expect(issues.map((i) => i.draftId)).toEqual(["d1", "d2"]);
+    expect(issues[0].heal).toBeUndefined();
+  });
+});
+
+describe("checkMatchupScores", () => {
+  it("flags played weeks without scores and ignores unplayed ones", () => {
+    const matchups = [
+      { leagueId: "L1", week: 1, points: 101 },
+      { leagueId: "L1", week: 2, points: 95 },
+      { leagueId: "L1", week: 2, points: 0 },
+      { leagueId: "L1", week: 3, points: 0 },
+    ];
+    const issues = checkMatchupScores(leagues, matchups, [{ leagueId: "L1", week: 1 }]);
+    expect(issues).toHaveLength(1);
+    expect(issues[0]).toMatchObject({
+      week: 2,
+      season: "2024",
+      heal: { kind: "resync-matchup-week", leagueId: "L1", week: 2 },
+    });
+  });
+});
+
+describe("checkPlayerGsis", () => {
+  it("flags players without a gsisId, except team defenses", () => {
+    const issues = checkPlayerGsis([
+      { id: "p1", name: "A", position: "WR", gsisId: null },
+      { id: "p2", name: "B", position: "RB", gsisId: "00-0031234" },
+      { id: "BUF", name: "Buffalo", position: "DEF", gsisId: null },
+    ]);
+    expect(issues.map((i) => i.playerId)).toEqual(["p1"]);
+  });
+});
+
+describe("healIntegrityIssues", () => {
+  beforeEach(() => {
+    buildAssetEventsMock.mockReset();
+    syncMatchupWeekMock.mockReset();
+  });
+
+  const rebuild = { kind: "rebuild-asset-events" as const, leagueId: "L1", season: "2024" };
+  const week2 = { kind: "resync-matchup-week" as const, leagueId: "L1", week: 2 };
+  const issue = (heal?: typeof rebuild | typeof week2) => ({
+    check: "roster-reconcile" as const,
+    leagueId: "L1",
+    season: "2024",
+    message: "",
+    heal,
+  });
+
+  it("dedupes actions across issues", () => {
+    expect(planHeals([issue(rebuild), issue(rebuild), issue(), issue(week2)])).toEqual([rebuild, week2]);
+  });
+
+  it("re-fetches matchup weeks before rebuilding events, and keeps going past a failure", async () => {
+    const order: string[] = [];
+    syncMatchupWeekMock.mockImplementation(async () => {
+      order.push("week");
+      throw new Error("Sleeper 500");
+    });
+    buildAssetEventsMock.mockImplementation(async () => {
+      order.push("rebuild");
+    });
+
+    const results = await healIntegrityIssues([issue(rebuild), issue(week2)]);
+    expect(order).toEqual(["week", "rebuild"]);
+    expect(results).toEqual([
+      { action: week2, ok: false, error: "Sleeper 500" },
+      { action: rebuild, ok: true },
+    ]);
+    expect(buildAssetEventsMock).toHaveBeenCalledWith("L1", "2024");
+  });
+});
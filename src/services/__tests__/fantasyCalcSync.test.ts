@@ -25,6 +25,10 @@ jest.mock("@/db", () => {
     team: stubColumn("team"),
     fetchedAt: stubColumn("fetched_at"),
   };
+  const fantasyCalcValueHistory = {
+    playerId: stubColumn("player_id"),
+    fetchedAt: stubColumn("fetched_at"),
+  };
   const leagues = {
     id: stubColumn("id"),
     scoringSettings: stubColumn("scoring_settings"),
@@ -32,12 +36,13 @@ jest.mock("@/db", () => {
     totalRosters: stubColumn("total_rosters"),
   };
   return {
-    schema: { fantasyCalcValues, leagues },
+    schema: { fantasyCalcValues, fantasyCalcValueHistory, leagues },
     getDb: jest.fn(),
   };
 });
 
 jest.mock("@/lib/fantasycalc", () => ({
+  ...jest.requireActual("@/lib/fantasycalc"),
   getFantasyCalcValues: jest.fn(),
 }));
 
@@ -73,6 +78,7 @@ const mockedGetFantasyCalcValues = getFantasyCalcValues as jest.MockedFunction<
 type WhereClause = { op: string; args?: unknown[] };
 
 interface InsertCapture {
+  table: unknown;
   rows: Array<Record<string, unknown>>;
   conflictTarget: unknown[];
 }
@@ -119,7 +125,7 @@ function buildDbMock(opts: {
         })),
       };
     }),
-    insert: jest.fn(() => {
+    insert: jest.fn((table: unknown) => {
       let captured: InsertCapture | null = null;
       type Builder = {
         values: jest.Mock;
@@ -127,7 +133,7 @@ function buildDbMock(opts: {
       };
       const builder: Builder = {
         values: jest.fn((rows: Array<Record<string, unknown>>) => {
-          captured = { rows, conflictTarget: [] };
+          captured = { table, rows, conflictTarget: [] };
           capture.inserts.push(captured);
           return builder;
         }),
@@ -302,6 +308,67 @@ describe("syncFantasyCalcValues — widened cache key", () => {
     );
   });
 
+  it("appends every fetched row to the value history with a shared fetchedAt", async () => {
+    const capture = {
+      staleWhere: null as WhereClause | null,
+      inserts: [] as InsertCapture[],
+    };
+    const db = buildDbMock({
+      league: {
+        scoringSettings: { rec: 1 },
+        rosterPositions: ["QB", "RB", "WR", "TE"],
+        totalRosters: 12,
+      },
+      latestFetchedAt: null,
+      capture,
+    });
+    mockedGetDb.mockReturnValue(db as unknown as ReturnType<typeof getDb>);
+    const entry = (name: string, position: string, sleeperId: string | null) => ({
+      player: {
+        name,
+        position,
+        maybeTeam: null,
+        maybeBirthDate: null,
+        espnId: null,
+        yahooId: null,
+        sleeperId,
+      },
+      value: 3000,
+      overallRank: 40,
+      positionRank: 10,
+      redraftValue: 3000,
+      combinedValue: 3000,
+      trend30Day: 0,
+    });
+    mockedGetFantasyCalcValues.mockResolvedValue([
+      entry("Runner", "RB", "rb_9"),
+      entry("2026 Pick 1.05", "PICK", null),
+    ]);
+
+    const fetchedAt = await syncFantasyCalcValues("league_h");
+
+    const historyInserts = capture.inserts.filter(
+      (i) => i.table === schema.fantasyCalcValueHistory,
+    );
+    const rows = historyInserts.flatMap((i) => i.rows);
+    expect(rows.map((r) => r.playerId)).toEqual([
+      "rb_9",
+      "PICK_2026_Pick_1.05",
+    ]);
+    expect(rows.every((r) => r.fetchedAt === fetchedAt)).toBe(true);
+    expect(rows[0]).toMatchObject({
+      isSuperFlex: false,
+      ppr: 1,
+      numTeams: 12,
+      numQbs: 1,
+      value: 3000,
+    });
+    // History is append-only — no conflict handling.
+    expect(historyInserts.every((i) => i.conflictTarget.length === 0)).toBe(
+      true,
+    );
+  });
+
   it("respects staleness window per format (skips fetch when fresh)", async () => {
     const recent = new Date(Date.now() - 60 * 1000).toISOString();
     const capture = {
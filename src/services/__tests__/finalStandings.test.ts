@@ -0,0 +1,108 @@
+jest.mock("@/db", () => ({ getDb: jest.fn(), schema: {} }));
+
+import type { SleeperBracketMatchup } from "@/lib/sleeper";
+import {
+  computeFinalStandings,
+  losersAdvance,
+  parseConsolationResults,
+  type StandingsRoster,
+} from "../outcomeScore";
+
+// 8-team league, 4-team playoff: 1 beats 4 and 2 beats 3, 1 wins the final,
+// 3 beats 4 for third.
+const WINNERS: SleeperBracketMatchup[] = [
+  { r: 1, m: 1, t1: 1, t2: 4, w: 1, l: 4 },
+  { r: 1, m: 2, t1: 2, t2: 3, w: 2, l: 3 },
+  { r: 2, m: 3, t1: 1, t2: 2, w: 1, l: 2, t1_from: { w: 1 }, t2_from: { w: 2 }, p: 1 },
+  { r: 2, m: 4, t1: 4, t2: 3, w: 3, l: 4, t1_from: { l: 1 }, t2_from: { l: 2 }, p: 3 },
+];
+
+// Toilet bowl: the losers of round 1 (6 and 8) play for last place.
+const TOILET_BOWL: SleeperBracketMatchup[] = [
+  { r: 1, m: 1, t1: 5, t2: 8, w: 5, l: 8 },
+  { r: 1, m: 2, t1: 6, t2: 7, w: 7, l: 6 },
+  { r: 2, m: 3, t1: 8, t2: 6, w: 6, l: 8, t1_from: { l: 1 }, t2_from: { l: 2 }, p: 1 },
+  { r: 2, m: 4, t1: 5, t2: 7, w: 7, l: 5, t1_from: { w: 1 }, t2_from: { w: 2 }, p: 3 },
+];
+
+// Consolation: winners of round 1 (5 and 7) play for fifth place.
+const CONSOLATION: SleeperBracketMatchup[] = [
+  { r: 1, m: 1, t1: 5, t2: 8, w: 5, l: 8 },
+  { r: 1, m: 2, t1: 6, t2: 7, w: 7, l: 6 },
+  { r: 2, m: 3, t1: 5, t2: 7, w: 7, l: 5, t1_from: { w: 1 }, t2_from: { w: 2 }, p: 1 },
+  { r: 2, m: 4, t1: 8, t2: 6, w: 6, l: 8, t1_from: { l: 1 }, t2_from: { l: 2 }, p: 3 },
+];
+
+function rosters(count: number): StandingsRoster[] {
+  // Regular-season order matches rosterId: roster 1 has the best record
+  return Array.from({ length: count }, (_, i) => ({
+    rosterId: i + 1,
+    wins: count - i,
+    losses: i,
+    ties: 0,
+    fpts: 1000 - i * 10,
+  }));
+}
+
+function places(standings: ReturnType<typeof computeFinalStandings>): number[] {
+  return standings.map((s) => s.rosterId);
+}
+
+describe("parseConsolationResults", () => {
+  it("detects toilet bowl vs consolation from the p=1 match feeders", () => {
+    expect(losersAdvance(TOILET_BOWL)).toBe(true);
+    expect(losersAdvance(CONSOLATION)).toBe(false);
+  });
+
+  it("counts toilet bowl placements up from the bottom", () => {
+    const byRoster = new Map(
+      parseConsolationResults(TOILET_BOWL).map((r) => [r.rosterId, r.placement]),
+    );
+    expect(byRoster.get(8)).toBe(4); // lost the toilet bowl final
+    expect(byRoster.get(6)).toBe(3);
+    expect(byRoster.get(5)).toBe(2);
+    expect(byRoster.get(7)).toBe(1);
+  });
+
+  it("counts consolation placements down from the top", () => {
+    const byRoster = new Map(
+      parseConsolationResults(CONSOLATION).map((r) => [r.rosterId, r.placement]),
+    );
+    expect(byRoster.get(7)).toBe(1);
+    expect(byRoster.get(5)).toBe(2);
+    expect(byRoster.get(6)).toBe(3);
+    expect(byRoster.get(8)).toBe(4);
+  });
+});
+
+describe("computeFinalStandings", () => {
+  it("stacks winners-bracket places above losers-bracket places", () => {
+    const standings = computeFinalStandings(rosters(8), WINNERS, TOILET_BOWL, 4);
+    expect(places(standings)).toEqual([1, 2, 3, 4, 7, 5, 6, 8]);
+    expect(standings.map((s) => s.place)).toEqual([1, 2, 3, 4, 5, 6, 7, 8]);
+    expect(standings[0].bracket).toBe("winners");
+    expect(standings[7].bracket).toBe("losers");
+  });
+
+  it("falls back to regular-season record without a losers bracket", () => {
+    const standings = computeFinalStandings(rosters(8), WINNERS, null, 4);
+    expect(places(standings)).toEqual([1, 2, 3, 4, 5, 6, 7, 8]);
+    expect(standings[4].bracket).toBeNull();
+  });
+
+  it("ranks toilet bowl teams that escaped early above the last-place game", () => {
+    // 6-team toilet bowl where only the last-place game carries a placement
+    const bowl: SleeperBracketMatchup[] = [
+      { r: 1, m: 1, t1: 5, t2: 8, w: 8, l: 5 },
+      { r: 1, m: 2, t1: 6, t2: 7, w: 6, l: 7 },
+      { r: 2, m: 3, t1: 5, t2: 7, w: 7, l: 5, t1_from: { l: 1 }, t2_from: { l: 2 }, p: 1 },
+    ];
+    const standings = computeFinalStandings(rosters(8), WINNERS, bowl, 4);
+    expect(places(standings).slice(4)).toEqual([6, 8, 7, 5]);
+  });
+
+  it("returns nothing until a champion is decided", () => {
+    const pending = WINNERS.map((m) => (m.p === 1 ? { ...m, w: null, l: null } : m));
+    expect(computeFinalStandings(rosters(8), pending, TOILET_BOWL, 4)).toEqual([]);
+  });
+});
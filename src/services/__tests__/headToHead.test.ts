@@ -0,0 +1,131 @@
+jest.mock("@/db", () => ({ getDb: jest.fn(), schema: {} }));
+
+import {
+  headToHeadGames,
+  headToHeadRecord,
+  pillarComparison,
+  playoffMeetings,
+  playoffRoundWeeks,
+  type HeadToHeadMatchupRow,
+  type HeadToHeadSeason,
+} from "../headToHead";
+
+function season(overrides: Partial<HeadToHeadSeason> = {}): HeadToHeadSeason {
+  return {
+    leagueId: "L2023",
+    season: "2023",
+    playoffWeekStart: 15,
+    playoffRoundType: 0,
+    winnersBracket: null,
+    rosterA: 1,
+    rosterB: 2,
+    ...overrides,
+  };
+}
+
+function row(week: number, rosterId: number, matchupId: number | null, points: number, leagueId = "L2023"): HeadToHeadMatchupRow {
+  return { leagueId, week, rosterId, matchupId, points };
+}
+
+// Rosters 1 (a) and 2 (b) meet in weeks 3 and 9; week 5 they play others.
+// Week 15 is a playoff week and is left to the bracket.
+const matchups = [
+  row(3, 1, 4, 120.4),
+  row(3, 2, 4, 98.1),
+  row(5, 1, 1, 100),
+  row(5, 2, 2, 110),
+  row(9, 1, 6, 90),
+  row(9, 2, 6, 131.25),
+  row(15, 1, 1, 140),
+  row(15, 2, 1, 101),
+  row(16, 1, null, 111.5),
+  row(16, 2, null, 112),
+];
+
+describe("headToHeadGames", () => {
+  it("pairs rosters sharing a matchup id, newest first", () => {
+    expect(headToHeadGames([season()], matchups)).toEqual([
+      { season: "2023", week: 9, pointsA: 90, pointsB: 131.25, winner: "b" },
+      { season: "2023", week: 3, pointsA: 120.4, pointsB: 98.1, winner: "a" },
+    ]);
+  });
+
+  it("skips weeks not played yet", () => {
+    const future = [row(12, 1, 5, 0), row(12, 2, 5, 0), row(13, 1, 2, 0), row(13, 2, 2, 0)];
+    expect(headToHeadGames([season()], [...matchups, ...future]).map((g) => g.week)).toEqual([9, 3]);
+  });
+
+  it("skips seasons where either manager had no roster", () => {
+    expect(headToHeadGames([season({ rosterB: null })], matchups)).toEqual([]);
+  });
+});
+
+describe("headToHeadRecord", () => {
+  it("totals wins, ties and points", () => {
+    const games = headToHeadGames([season()], [...matchups, row(7, 1, 3, 100), row(7, 2, 3, 100)]);
+    expect(headToHeadRecord(games)).toEqual({
+      winsA: 1,
+      winsB: 1,
+      ties: 1,
+      pointsA: 310.4,
+      pointsB: 329.35,
+    });
+  });
+});
+
+describe("playoffMeetings", () => {
+  it("finds bracket matches between both rosters with their week's points", () => {
+    const bracket = [
+      { r: 1, m: 1, t1: 1, t2: 2, w: 1, l: 2 },
+      { r: 1, m: 2, t1: 3, t2: 4, w: 3, l: 4 },
+      { r: 2, m: 3, t1: 2, t2: 1, w: 2, l: 1, p: 3 },
+    ];
+    expect(playoffMeetings([season({ winnersBracket: bracket })], matchups)).toEqual([
+      { season: "2023", round: 2, placement: 3, weeks: [16], pointsA: 111.5, pointsB: 112, winner: "b" },
+      { season: "2023", round: 1, placement: null, weeks: [15], pointsA: 140, pointsB: 101, winner: "a" },
+    ]);
+  });
+
+  it("sums two-week rounds and leaves unsynced weeks without points", () => {
+    const bracket = [{ r: 1, m: 1, t1: 1, t2: 2, w: 2, l: 1 }];
+    const [meeting] = playoffMeetings([season({ winnersBracket: bracket, playoffRoundType: 2 })], matchups);
+    expect(meeting).toMatchObject({ weeks: [15, 16], pointsA: 251.5, pointsB: 213 });
+
+    const [partial] = playoffMeetings(
+      [season({ winnersBracket: bracket, playoffRoundType: 2, playoffWeekStart: 16 })],
+      matchups,
+    );
+    expect(partial).toMatchObject({ weeks: [16, 17], pointsA: null, pointsB: null });
+  });
+});
+
+describe("playoffRoundWeeks", () => {
+  it("follows the league's playoff round type", () => {
+    expect(playoffRoundWeeks(15, 0, 2, 3)).toEqual([16]);
+    expect(playoffRoundWeeks(15, 1, 2, 3)).toEqual([16]);
+    expect(playoffRoundWeeks(15, 1, 3, 3)).toEqual([17, 18]);
+    expect(playoffRoundWeeks(15, 2, 2, 3)).toEqual([17, 18]);
+    expect(playoffRoundWeeks(15, 9, 1, 3)).toBeNull();
+    expect(playoffRoundWeeks(null, 0, 1, 3)).toBeNull();
+  });
+});
+
+describe("pillarComparison", () => {
+  it("ranks both managers against every manager with the metric", () => {
+    const { pillarsA, pillarsB } = pillarComparison(
+      [
+        { managerId: "a", metric: "trade_score", value: 80 },
+        { managerId: "b", metric: "trade_score", value: 40 },
+        { managerId: "c", metric: "trade_score", value: 60 },
+        { managerId: "a", metric: "draft_score", value: 50 },
+      ],
+      "a",
+      "b",
+    );
+    expect(pillarsA.trade_score).toEqual({ value: 80, grade: "A+", percentile: 100 });
+    expect(pillarsB.trade_score?.percentile).toBe(0);
+    expect(pillarsA.draft_score?.percentile).toBe(50);
+    expect(pillarsB.draft_score).toBeNull();
+    expect(pillarsA.waiver_score).toBeNull();
+  });
+});
@@ -0,0 +1,114 @@
+jest.mock("@/db", () => ({ getDb: jest.fn(), schema: {} }));
+
+const syncLeagueMock = jest.fn();
+jest.mock("@/services/sync", () => ({
+  syncLeague: (...args: unknown[]) => syncLeagueMock(...args),
+}));
+
+const rollupMock = jest.fn();
+jest.mock("@/services/managerGrades", () => ({
+  rollupManagerGrades: (...args: unknown[]) => rollupMock(...args),
+}));
+
+jest.mock("@/lib/freshness", () => ({ getFamilyRootRef: jest.fn() }));
+jest.mock("@/services/chunkedSync", () => ({
+  runChunk: jest.fn(),
+  DEFAULT_SYNC_CALL_BUDGET: { callsPerMinute: 600, burst: 300 },
+}));
+jest.mock("@/services/syncLock", () => ({ acquireSyncLock: jest.fn(), releaseSyncLock: jest.fn() }));
+
+import {
+  backoffMs,
+  buildInSeasonStages,
+  RECENT_TRAFFIC_MS,
+  selectFamiliesForSync,
+  type FamilySyncState,
+} from "../inSeasonSync";
+
+const HOUR = 60 * 60 * 1000;
+const now = new Date("2025-10-20T11:00:00Z");
+const ago = (ms: number) => new Date(now.getTime() - ms);
+
+function state(familyId: string, overrides: Partial<FamilySyncState> = {}): FamilySyncState {
+  return {
+    familyId,
+    lastVisitedAt: ago(HOUR),
+    lastAttemptAt: null,
+    consecutiveFailures: 0,
+    jobId: null,
+    ...overrides,
+  };
+}
+
+describe("backoffMs", () => {
+  it("doubles from six hours and caps at two days", () => {
+    expect(backoffMs(0)).toBe(0);
+    expect(backoffMs(1)).toBe(6 * HOUR);
+    expect(backoffMs(2)).toBe(12 * HOUR);
+    expect(backoffMs(3)).toBe(24 * HOUR);
+    expect(backoffMs(10)).toBe(48 * HOUR);
+  });
+});
+
+describe("selectFamiliesForSync", () => {
+  it("round-robins least-recently-attempted first, never-attempted leading", () => {
+    const order = selectFamiliesForSync(
+      [
+        state("b", { lastAttemptAt: ago(2 * HOUR) }),
+        state("c", { lastAttemptAt: ago(30 * HOUR) }),
+        state("a"),
+      ],
+      now,
+    ).map((s) => s.familyId);
+    expect(order).toEqual(["a", "c", "b"]);
+  });
+
+  it("resumes unfinished runs before starting new ones", () => {
+    const order = selectFamiliesForSync(
+      [state("fresh"), state("resume", { lastAttemptAt: ago(HOUR), jobId: "job-1" })],
+      now,
+    ).map((s) => s.familyId);
+    expect(order).toEqual(["resume", "fresh"]);
+  });
+
+  it("drops families without recent traffic", () => {
+    const picked = selectFamiliesForSync(
+      [state("quiet", { lastVisitedAt: ago(RECENT_TRAFFIC_MS + HOUR) }), state("never", { lastVisitedAt: null })],
+      now,
+    );
+    expect(picked).toEqual([]);
+  });
+
+  it("holds back a failing family until its backoff expires", () => {
+    const failing = (attempted: number) =>
+      state("bad", { consecutiveFailures: 3, lastAttemptAt: ago(attempted) });
+    expect(selectFamiliesForSync([failing(12 * HOUR)], now)).toEqual([]);
+    expect(selectFamiliesForSync([failing(25 * HOUR)], now)).toHaveLength(1);
+  });
+});
+
+describe("buildInSeasonStages", () => {
+  beforeEach(() => {
+    syncLeagueMock.mockReset().mockResolvedValue(undefined);
+    rollupMock.mockReset().mockResolvedValue(undefined);
+  });
+
+  it("syncs each active season incrementally, then rolls up grades", async () => {
+    const stages = buildInSeasonStages("fam", ["l2024", "l2025"]);
+    expect(stages.map((s) => s.key)).toEqual(["league:l2024", "league:l2025", "manager-grades"]);
+
+    for (const stage of stages) await stage.run();
+    expect(syncLeagueMock).toHaveBeenCalledWith("l2024", undefined, "fam", {
+      skipGlobalSyncs: true,
+      trigger: "cron",
+    });
+    expect(rollupMock).toHaveBeenCalledWith("fam");
+  });
+
+  it("treats a failed rollup as non-critical", async () => {
+    jest.spyOn(console, "warn").mockImplementation(() => {});
+    rollupMock.mockRejectedValueOnce(new Error("boom"));
+    const [rollup] = buildInSeasonStages("fam", []);
+    await expect(rollup.run()).resolves.toBeUndefined();
+  });
+});
@@ -0,0 +1,189 @@
+// Tables whose columns are { table, name } stubs, so the fake db below can
+// route each query by table and read the filter values.
+jest.mock("@/db", () => {
+  const table = (name: string) =>
+    new Proxy({ __table: name } as Record<string, unknown>, {
+      get: (t, key) => (key in t ? t[key as string] : { table: name, name: String(key) }),
+    });
+  return {
+    getDb: jest.fn(),
+    schema: {
+      leagues: table("leagues"),
+      matchups: table("matchups"),
+      players: table("players"),
+      rosters: table("rosters"),
+      nflWeeklyRosterStatus: table("nfl_weekly_roster_status"),
+      nflInjuries: table("nfl_injuries"),
+    },
+  };
+});
+
+jest.mock("drizzle-orm", () => ({
+  eq: (col: unknown, value: unknown) => ({ op: "eq", col, value }),
+  and: (...args: unknown[]) => ({ op: "and", args }),
+  inArray: (col: unknown, values: unknown) => ({ op: "inArray", col, values }),
+}));
+
+const batchUpsertManagerMetricsMock = jest.fn();
+
+jest.mock("@/services/batchHelper", () => ({
+  batchUpsertManagerMetrics: (...args: unknown[]) => batchUpsertManagerMetricsMock(...args),
+}));
+
+import { getDb } from "@/db";
+import { gradeLeagueLineups, preGameExpectation, scoreStarterSlots } from "../lineupGrading";
+
+describe("preGameExpectation", () => {
+  it("keeps trailing PPG when nothing is reported", () => {
+    expect(preGameExpectation(14, {})).toBe(14);
+    expect(preGameExpectation(14, { rosterStatus: "ACT", practiceStatus: "Full" })).toBe(14);
+  });
+
+  it("zeroes players off the NFL active roster or ruled out", () => {
+    expect(preGameExpectation(20, { rosterStatus: "RES" })).toBe(0);
+    expect(preGameExpectation(20, { rosterStatus: "INA", reportStatus: "Questionable" })).toBe(0);
+    expect(preGameExpectation(20, { rosterStatus: "ACT", reportStatus: "Out" })).toBe(0);
+  });
+
+  it("lets the game designation override practice participation", () => {
+    expect(preGameExpectation(20, { reportStatus: "Doubtful" })).toBeCloseTo(5);
+    expect(
+      preGameExpectation(20, { reportStatus: "Questionable", practiceStatus: "Did Not Participate" }),
+    ).toBeCloseTo(17);
+  });
+
+  it("applies a smaller discount for limited or missed practice without a designation", () => {
+    expect(preGameExpectation(20, { practiceStatus: "Limited" })).toBeCloseTo(19);
+    expect(preGameExpectation(20, { practiceStatus: "Did Not Participate" })).toBeCloseTo(17);
+  });
+});
+
+describe("scoreStarterSlots", () => {
+  const scorable = () => true;
+
+  it("scores each starter by process and outcome", () => {
+    // a: followed and good; b: followed, bad; c: broke, good; d: broke, bad
+    const scored = scoreStarterSlots(
+      ["a", "b", "c", "d"],
+      new Set(["a", "c"]),
+      new Set(["a", "b"]),
+      scorable,
+    );
+    expect(scored!.breakdown).toEqual({ followedGood: 1, followedBad: 1, brokeGood: 1, brokeBad: 1 });
+    // (1.0 + 0.3 + 2.0 - 0.5) / 4
+    expect(scored!.score).toBeCloseTo(70);
+  });
+
+  it("caps at 100 and skips unscorable slots", () => {
+    const scored = scoreStarterSlots(["c", "0"], new Set(["c"]), new Set(), (id) => id !== "0");
+    expect(scored).toEqual({
+      score: 100,
+      breakdown: { followedGood: 0, followedBad: 0, brokeGood: 1, brokeBad: 0 },
+    });
+    expect(scoreStarterSlots(["0"], new Set(), new Set(), (id) => id !== "0")).toBeNull();
+  });
+});
+
+describe("gradeLeagueLineups", () => {
+  const mockedGetDb = getDb as jest.MockedFunction<typeof getDb>;
+
+  function findValue(cond: unknown, column: string): unknown {
+    if (!cond || typeof cond !== "object") return undefined;
+    const c = cond as { op?: string; col?: { name?: string }; value?: unknown; args?: unknown[] };
+    if (c.op === "eq" && c.col?.name === column) return c.value;
+    for (const arg of c.args ?? []) {
+      const found = findValue(arg, column);
+      if (found !== undefined) return found;
+    }
+    return undefined;
+  }
+
+  function matchup(leagueId: string, week: number, starters: string[], playerPoints: Record<string, number>) {
+    const points = starters.reduce((sum, id) => sum + (playerPoints[id] ?? 0), 0);
+    return { leagueId, week, rosterId: 1, points, starters, playerPoints };
+  }
+
+  // Last season the RB1 ("rb1") averaged 20 and the backup 5. This season
+  // rb1 is ruled Out both weeks: week 1 the manager benches him for the
+  // backup, week 2 starts him anyway.
+  const rows: Record<string, (where: unknown) => unknown[]> = {
+    leagues: (where) =>
+      findValue(where, "id") === "L2024"
+        ? [{ rosterPositions: ["RB", "BN"], previousLeagueId: "L2023", season: "2024" }]
+        : [{ season: "2023" }],
+    matchups: (where) =>
+      findValue(where, "leagueId") === "L2024"
+        ? [matchup("L2024", 1, ["rb2"], { rb1: 0, rb2: 10 }), matchup("L2024", 2, ["rb1"], { rb1: 0, rb2: 8 })]
+        : [15, 16, 17, 18].map((week) => matchup("L2023", week, ["rb1"], { rb1: 20, rb2: 5 })),
+    players: () => [
+      { id: "rb1", position: "RB", gsisId: "g1" },
+      { id: "rb2", position: "RB", gsisId: "g2" },
+    ],
+    nfl_weekly_roster_status: () =>
+      [
+        ...[15, 16, 17, 18].map((week) => ({ season: 2023, week })),
+        ...[1, 2].map((week) => ({ season: 2024, week })),
+      ].flatMap((w) => ["g1", "g2"].map((gsisId) => ({ ...w, gsisId, status: "ACT" }))),
+    nfl_injuries: () =>
+      [1, 2].map((week) => ({ gsisId: "g1", week, reportStatus: "Out", practiceStatus: "Did Not Participate" })),
+    rosters: () => [{ rosterId: 1, ownerId: "u1" }],
+  };
+
+  beforeEach(() => {
+    batchUpsertManagerMetricsMock.mockReset();
+    jest.spyOn(console, "log").mockImplementation(() => {});
+    mockedGetDb.mockReturnValue({
+      select: () => ({
+        from: (t: { __table: string }) => ({
+          where: (cond: unknown) => {
+            const result = Promise.resolve(rows[t.__table](cond));
+            return Object.assign(result, { limit: () => result });
+          },
+        }),
+      }),
+    } as unknown as ReturnType<typeof getDb>);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("grades the projected score against the injury-aware expectation", async () => {
+    const [roster] = await gradeLeagueLineups("L2024");
+
+    // Trailing PPG says start rb1: benching him is an insightful call, then
+    // starting him is sound process with a bad outcome.
+    expect(roster.weeks.map((w) => w.slotBreakdown)).toEqual([
+      { followedGood: 0, followedBad: 0, brokeGood: 1, brokeBad: 0 },
+      { followedGood: 0, followedBad: 1, brokeGood: 0, brokeBad: 0 },
+    ]);
+    // Knowing he was Out: benching him followed the projection, starting
+    // him broke it for a bad result.
+    expect(roster.weeks.map((w) => w.projectedSlotBreakdown)).toEqual([
+      { followedGood: 1, followedBad: 0, brokeGood: 0, brokeBad: 0 },
+      { followedGood: 0, followedBad: 0, brokeGood: 0, brokeBad: 1 },
+    ]);
+    expect(roster.score).toBe(65);
+    expect(roster.projectedScore).toBe(25);
+  });
+
+  it("writes lineup_projected_score alongside lineup_score", async () => {
+    await gradeLeagueLineups("L2024");
+
+    const [metrics] = batchUpsertManagerMetricsMock.mock.calls[0];
+    expect(metrics).toEqual([
+      expect.objectContaining({ managerId: "u1", metric: "lineup_score", scope: "season:2024", value: 65 }),
+      expect.objectContaining({
+        managerId: "u1",
+        metric: "lineup_projected_score",
+        scope: "season:2024",
+        value: 25,
+        meta: {
+          grade: "F",
+          slotBreakdown: { followedGood: 1, followedBad: 0, brokeGood: 0, brokeBad: 1 },
+          weeksGraded: 2,
+        },
+      }),
+    ]);
+  });
+});
@@ -0,0 +1,100 @@
+/**
+ * @jest-environment node
+ *
+ * rollupManagerGrades: season metrics roll up to all_time, and only the
+ * PILLAR_KEYS metrics feed the Manager Process Score. The db is a fake that
+ * serves the family's members and season metrics and swallows writes.
+ */
+
+jest.mock("@/db", () => {
+  const table = (name: string) =>
+    new Proxy({ __table: name } as Record<string, unknown>, {
+      get: (t, key) => (key in t ? t[key as string] : { table: name, name: String(key) }),
+    });
+  return {
+    getDb: jest.fn(),
+    schema: {
+      leagueFamilyMembers: table("league_family_members"),
+      managerMetrics: table("manager_metrics"),
+    },
+  };
+});
+
+jest.mock("drizzle-orm", () => ({
+  eq: (col: unknown, value: unknown) => ({ op: "eq", col, value }),
+  and: (...args: unknown[]) => ({ op: "and", args }),
+  inArray: (col: unknown, values: unknown) => ({ op: "inArray", col, values }),
+  like: (col: unknown, pattern: unknown) => ({ op: "like", col, pattern }),
+}));
+
+const batchUpsertManagerMetricsMock = jest.fn();
+
+jest.mock("@/services/batchHelper", () => ({
+  BATCH_SIZE: 500,
+  batchUpsertManagerMetrics: (...args: unknown[]) => batchUpsertManagerMetricsMock(...args),
+}));
+
+jest.mock("@/services/algorithmConfig", () => ({
+  resolveActiveConfig: async () => ({
+    config: { pillarWeights: { trade_score: 1, draft_score: 1, waiver_score: 1, lineup_score: 1 } },
+    version: "v1",
+  }),
+}));
+
+import { getDb } from "@/db";
+import { rollupManagerGrades } from "../managerGrades";
+
+const mockedGetDb = getDb as jest.MockedFunction<typeof getDb>;
+
+function seasonMetric(managerId: string, metric: string, value: number) {
+  return { leagueId: "L2024", managerId, metric, scope: "season:2024", value, meta: null };
+}
+
+const rows: Record<string, unknown[]> = {
+  league_family_members: [{ leagueId: "L2024", season: "2024" }],
+  // u1 out-trades u2, but u2's projected lineup score is far higher
+  manager_metrics: [
+    seasonMetric("u1", "trade_score", 80),
+    seasonMetric("u2", "trade_score", 40),
+    seasonMetric("u1", "lineup_projected_score", 10),
+    seasonMetric("u2", "lineup_projected_score", 90),
+  ],
+};
+
+beforeEach(() => {
+  batchUpsertManagerMetricsMock.mockReset();
+  jest.spyOn(console, "log").mockImplementation(() => {});
+  const write = () => ({ set: write, where: async () => undefined });
+  mockedGetDb.mockReturnValue({
+    select: () => ({ from: (t: { __table: string }) => ({ where: async () => rows[t.__table] }) }),
+    delete: write,
+    update: write,
+  } as unknown as ReturnType<typeof getDb>);
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe("rollupManagerGrades", () => {
+  it("rolls up lineup_projected_score without feeding it into MPS", async () => {
+    await rollupManagerGrades("fam-1");
+
+    const [[allTime], [mps]] = batchUpsertManagerMetricsMock.mock.calls;
+    expect(
+      allTime.filter((r: { metric: string }) => r.metric === "lineup_projected_score"),
+    ).toEqual([
+      expect.objectContaining({ managerId: "u1", scope: "all_time", value: 10 }),
+      expect.objectContaining({ managerId: "u2", scope: "all_time", value: 90 }),
+    ]);
+
+    // Trading alone decides MPS: u1 tops it, u2 trails
+    expect(mps.map((r: { managerId: string; value: number }) => [r.managerId, r.value])).toEqual([
+      ["u1", 100],
+      ["u2", 0],
+    ]);
+    for (const row of mps) {
+      expect(Object.keys(row.meta.metricBreakdown)).toEqual(["trade_score"]);
+    }
+  });
+});
@@ -0,0 +1,151 @@
+jest.mock("@/db", () => ({ getDb: jest.fn(), schema: {} }));
+
+import type { SleeperBracketMatchup } from "@/lib/sleeper";
+import {
+  formatProjectedPick,
+  pickOrderRule,
+  projectDraftOrder,
+  projectRecords,
+  projectedPickLabel,
+  type ProjectionMatchup,
+  type ProjectionRoster,
+} from "../pickProjection";
+
+function roster(rosterId: number, wins: number, fpts: number, maxPf = fpts * 1.2): ProjectionRoster {
+  return { rosterId, wins, losses: 2 - wins, ties: 0, fpts, maxPf };
+}
+
+/** Weeks 1-2 played, week 3 still to come; playoffs start week 4. */
+function midSeasonMatchups(): ProjectionMatchup[] {
+  return [
+    { week: 1, rosterId: 1, matchupId: 1, points: 150 },
+    { week: 1, rosterId: 2, matchupId: 1, points: 90 },
+    { week: 1, rosterId: 3, matchupId: 2, points: 100 },
+    { week: 1, rosterId: 4, matchupId: 2, points: 95 },
+    { week: 2, rosterId: 1, matchupId: 1, points: 140 },
+    { week: 2, rosterId: 3, matchupId: 1, points: 80 },
+    { week: 2, rosterId: 2, matchupId: 2, points: 110 },
+    { week: 2, rosterId: 4, matchupId: 2, points: 100 },
+    { week: 3, rosterId: 1, matchupId: 1, points: 0 },
+    { week: 3, rosterId: 4, matchupId: 1, points: 0 },
+    { week: 3, rosterId: 2, matchupId: 2, points: 0 },
+    { week: 3, rosterId: 3, matchupId: 2, points: 0 },
+  ];
+}
+
+const MID_SEASON_ROSTERS = [
+  roster(1, 2, 290),
+  roster(2, 1, 200),
+  roster(3, 1, 180),
+  roster(4, 0, 195),
+];
+
+describe("projectRecords", () => {
+  it("adds expected wins for remaining regular-season matchups", () => {
+    const records = new Map(
+      projectRecords(MID_SEASON_ROSTERS, midSeasonMatchups(), 4).map((r) => [r.rosterId, r]),
+    );
+    // Roster 1 (145 PPG) is a heavy favorite over roster 4 (97.5 PPG)
+    expect(records.get(1)!.expectedWins).toBeGreaterThan(2.9);
+    expect(records.get(4)!.expectedWins).toBeLessThan(0.1);
+    // One game left each, so expected wins grow by exactly one per pair
+    const total = [...records.values()].reduce((sum, r) => sum + r.expectedWins, 0);
+    expect(total).toBeCloseTo(6);
+    expect(records.get(1)!.projectedFpts).toBeCloseTo(435);
+  });
+
+  it("ignores playoff weeks", () => {
+    const playoffs = midSeasonMatchups().map((m) => ({ ...m, week: m.week + 10 }));
+    const records = projectRecords(MID_SEASON_ROSTERS, playoffs, 4);
+    expect(records.map((r) => r.expectedWins)).toEqual([2, 1, 1, 0]);
+  });
+});
+
+describe("projectDraftOrder", () => {
+  it("reverses projected standings mid-season", () => {
+    const { order, basis } = projectDraftOrder({
+      rosters: MID_SEASON_ROSTERS,
+      matchups: midSeasonMatchups(),
+      playoffWeekStart: 4,
+      numPlayoffTeams: 2,
+      winnersBracket: null,
+      losersBracket: null,
+      rule: "standings",
+    });
+    expect(basis).toBe("projected");
+    expect(order[0]).toBe(4);
+    expect(order[order.length - 1]).toBe(1);
+  });
+
+  it("uses final brackets once a champion is decided", () => {
+    const winners: SleeperBracketMatchup[] = [
+      { r: 1, m: 1, t1: 1, t2: 2, w: 2, l: 1, p: 1 },
+    ];
+    const losers: SleeperBracketMatchup[] = [
+      { r: 1, m: 1, t1: 3, t2: 4, w: 4, l: 3, p: 1 },
+    ];
+    const { order, basis } = projectDraftOrder({
+      rosters: MID_SEASON_ROSTERS,
+      matchups: [],
+      playoffWeekStart: 4,
+      numPlayoffTeams: 2,
+      winnersBracket: winners,
+      losersBracket: losers,
+      rule: "standings",
+    });
+    expect(basis).toBe("final");
+    // Toilet bowl loser (3) picks first; champion (2) picks last
+    expect(order).toEqual([3, 4, 1, 2]);
+  });
+
+  it("orders non-playoff teams by max PF under the max-PF rule", () => {
+    const rosters = [
+      roster(1, 2, 290),
+      roster(2, 1, 200),
+      roster(3, 1, 180, 400), // best max PF among non-playoff teams
+      roster(4, 0, 195, 250),
+    ];
+    const winners: SleeperBracketMatchup[] = [
+      { r: 1, m: 1, t1: 1, t2: 2, w: 1, l: 2, p: 1 },
+    ];
+    const { order } = projectDraftOrder({
+      rosters,
+      matchups: [],
+      playoffWeekStart: 4,
+      numPlayoffTeams: 2,
+      winnersBracket: winners,
+      losersBracket: null,
+      rule: "max_pf",
+    });
+    expect(order).toEqual([4, 3, 2, 1]);
+  });
+});
+
+describe("pick labels", () => {
+  it("formats linear and snake picks", () => {
+    expect(formatProjectedPick(1, 3, 12, false)).toBe("1.03");
+    expect(formatProjectedPick(2, 3, 12, false)).toBe("2.03");
+    expect(formatProjectedPick(2, 3, 12, true)).toBe("2.10");
+  });
+
+  it("labels only the projected season", () => {
+    const projection = {
+      season: "2026",
+      basis: "final" as const,
+      rule: "standings" as const,
+      totalRosters: 12,
+      isSnake: false,
+      slotByRoster: new Map([[7, 3]]),
+    };
+    expect(projectedPickLabel(projection, "2026", 1, 7)).toBe("1.03");
+    expect(projectedPickLabel(projection, "2027", 1, 7)).toBeNull();
+    expect(projectedPickLabel(projection, "2026", 1, 8)).toBeNull();
+    expect(projectedPickLabel(null, "2026", 1, 7)).toBeNull();
+  });
+
+  it("reads the max-PF pick order setting", () => {
+    expect(pickOrderRule({ pick_order: "max_pf" })).toBe("max_pf");
+    expect(pickOrderRule({})).toBe("standings");
+    expect(pickOrderRule(null)).toBe("standings");
+  });
+});
@@ -0,0 +1,16 @@
+import { pickSnapshotDate } from "../gradingCore";
+
+describe("pickSnapshotDate", () => {
+  const dates = [100, 200, 300];
+
+  it("picks the latest snapshot at or before asOf", () => {
+    expect(pickSnapshotDate(dates, 250)).toBe(200);
+    expect(pickSnapshotDate(dates, 300)).toBe(300);
+    expect(pickSnapshotDate(dates, 10_000)).toBe(300);
+  });
+
+  it("returns null when every snapshot postdates asOf", () => {
+    expect(pickSnapshotDate(dates, 99)).toBeNull();
+    expect(pickSnapshotDate([], 500)).toBeNull();
+  });
+});
@@ -0,0 +1,78 @@
+jest.mock("@/db", () => ({ getDb: jest.fn(), schema: {} }));
+
+import {
+  buildTenures,
+  dailyValues,
+  decayedPpg,
+  valueOn,
+  type TenureEvent,
+} from "../playerValueHistory";
+
+const day = (date: string, hour = 0) => Date.parse(`${date}T${String(hour).padStart(2, "0")}:00:00Z`);
+
+function event(date: string, eventType: string, fromUserId: string | null, toUserId: string | null): TenureEvent {
+  return { at: day(date), eventType, transactionId: null, fromUserId, toUserId };
+}
+
+describe("dailyValues", () => {
+  it("keeps the last fetch of each day, in date order", () => {
+    const values = dailyValues([
+      { fetchedAt: new Date(day("2025-09-02", 18)), value: 5200 },
+      { fetchedAt: new Date(day("2025-09-01", 6)), value: 5000 },
+      { fetchedAt: new Date(day("2025-09-01", 20)), value: 5100 },
+    ]);
+    expect(values).toEqual([
+      { date: "2025-09-01", value: 5100 },
+      { date: "2025-09-02", value: 5200 },
+    ]);
+  });
+
+  it("reads the latest value on or before a date", () => {
+    const values = [
+      { date: "2025-09-01", value: 5100 },
+      { date: "2025-09-05", value: 5400 },
+    ];
+    expect(valueOn(values, "2025-08-31")).toBeNull();
+    expect(valueOn(values, "2025-09-03")).toBe(5100);
+    expect(valueOn(values, "2025-09-05")).toBe(5400);
+  });
+});
+
+describe("decayedPpg", () => {
+  it("starts at the first game and leans toward recent games", () => {
+    const ppg = decayedPpg([10, 10, 10, 30]);
+    expect(ppg[0]).toBe(10);
+    expect(ppg[2]).toBeCloseTo(10);
+    // A plain average would be 15
+    expect(ppg[3]).toBeGreaterThan(15);
+    expect(ppg[3]).toBeLessThan(30);
+  });
+
+  it("matches a plain average with no decay", () => {
+    expect(decayedPpg([10, 20, 30], Infinity)[2]).toBeCloseTo(20);
+  });
+});
+
+describe("buildTenures", () => {
+  it("chains stints through drafts, trades and drops", () => {
+    const stints = buildTenures([
+      event("2024-08-20", "draft_selected", null, "a"),
+      event("2024-10-01", "trade", "a", "b"),
+      event("2025-01-10", "waiver_drop", "b", null),
+      event("2025-03-01", "free_agent_add", null, "c"),
+    ]);
+    expect(stints.map((s) => [s.userId, s.acquiredVia, s.end !== null])).toEqual([
+      ["a", "draft_selected", true],
+      ["b", "trade", true],
+      ["c", "free_agent_add", false],
+    ]);
+    expect(stints[1].start).toBe(day("2024-10-01"));
+    expect(stints[1].end).toBe(day("2025-01-10"));
+  });
+
+  it("opens a stint before the log when the first event removes the player", () => {
+    const stints = buildTenures([event("2024-10-01", "trade", "a", "b")]);
+    expect(stints[0]).toEqual({ userId: "a", start: null, end: day("2024-10-01"), acquiredVia: null });
+    expect(stints[1].userId).toBe("b");
+  });
+});
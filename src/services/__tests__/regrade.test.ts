@@ -0,0 +1,202 @@
+/**
+ * @jest-environment node
+ *
+ * runQueuedRegrades drain loop. The db is a small in-memory fake: the
+ * sync_jobs queue plus a stale-row count per grade table, so a test can
+ * leave rows stale after a re-grade or move the config version mid-run.
+ */
+
+jest.mock("@/db", () => {
+  const table = (name: string, columns: string[]) => ({
+    __table: name,
+    ...Object.fromEntries(columns.map((c) => [c, { name: c }])),
+  });
+  return {
+    schema: {
+      syncJobs: table("sync_jobs", ["id", "ref", "type", "status", "startedAt"]),
+      leagueFamilyMembers: table("league_family_members", ["leagueId", "season", "familyId"]),
+      transactions: table("transactions", ["id", "leagueId"]),
+      drafts: table("drafts", ["id", "leagueId"]),
+      tradeGrades: table("trade_grades", ["transactionId", "configVersion"]),
+      draftGrades: table("draft_grades", ["draftId", "configVersion"]),
+      waiverGrades: table("waiver_grades", ["transactionId", "configVersion"]),
+      managerMetrics: table("manager_metrics", ["leagueId", "metric", "scope", "configVersion"]),
+    },
+    getDb: jest.fn(),
+  };
+});
+
+jest.mock("drizzle-orm", () => ({
+  eq: (col: unknown, value: unknown) => ({ op: "eq", col, value }),
+  and: (...args: unknown[]) => ({ op: "and", args }),
+  or: (...args: unknown[]) => ({ op: "or", args }),
+  inArray: (col: unknown, values: unknown) => ({ op: "inArray", col, values }),
+  asc: (col: unknown) => col,
+  sql: (strings: TemplateStringsArray, ...values: unknown[]) => ({ op: "sql", strings, values }),
+}));
+
+const resolveActiveConfigMock = jest.fn();
+const gradeLeagueTradesMock = jest.fn();
+
+jest.mock("@/services/algorithmConfig", () => ({
+  REGRADE_JOB_TYPE: "regrade",
+  resolveActiveConfig: (...args: unknown[]) => resolveActiveConfigMock(...args),
+}));
+jest.mock("@/services/syncLock", () => ({ STALE_JOB_TIMEOUT_MS: 600_000 }));
+jest.mock("@/services/tradeGrading", () => ({
+  gradeLeagueTrades: (...args: unknown[]) => gradeLeagueTradesMock(...args),
+}));
+jest.mock("@/services/draftGrading", () => ({ gradeLeagueDrafts: jest.fn() }));
+jest.mock("@/services/waiverGrading", () => ({ gradeLeagueWaivers: jest.fn() }));
+jest.mock("@/services/managerGrades", () => ({ rollupManagerGrades: jest.fn() }));
+
+import { getDb } from "@/db";
+import { runQueuedRegrades } from "../regrade";
+
+const mockedGetDb = getDb as jest.MockedFunction<typeof getDb>;
+
+interface Job {
+  id: string;
+  ref: string;
+  status: string;
+}
+
+interface FakeState {
+  jobs: Job[];
+  /** Stale rows per grade table, as countStaleGrades sees them */
+  stale: Record<string, number>;
+  restamped: Array<{ table: string; version: unknown }>;
+}
+
+function findEq(cond: unknown, column: string): unknown {
+  if (!cond || typeof cond !== "object") return undefined;
+  const c = cond as { op?: string; col?: { name?: string }; value?: unknown; args?: unknown[] };
+  if (c.op === "eq" && c.col?.name === column) return c.value;
+  for (const arg of c.args ?? []) {
+    const found = findEq(arg, column);
+    if (found !== undefined) return found;
+  }
+  return undefined;
+}
+
+function buildDb(state: FakeState) {
+  function query(kind: "select" | "update" | "insert", table?: { __table: string }) {
+    let where: unknown;
+    let set: Record<string, unknown> = {};
+    let values: Record<string, unknown> = {};
+
+    const run = (): unknown => {
+      const name = table?.__table;
+      if (kind === "insert") {
+        state.jobs.push({ id: `job-${state.jobs.length + 1}`, ref: values.ref as string, status: "queued" });
+        return undefined;
+      }
+      if (kind === "update" && name === "sync_jobs") {
+        const job = state.jobs.find((j) => j.id === findEq(where, "id"));
+        if (!job) return [];
+        if (set.status === "running" && job.status !== "queued") return [];
+        job.status = set.status as string;
+        return [{ id: job.id }];
+      }
+      if (kind === "update") {
+        state.restamped.push({ table: name!, version: set.configVersion });
+        state.stale[name!] = 0;
+        return undefined;
+      }
+      if (name === "sync_jobs") {
+        const next = state.jobs.find((j) => j.status === "queued");
+        return next ? [{ id: next.id, ref: next.ref }] : [];
+      }
+      if (name === "league_family_members") return [{ leagueId: "L2024", season: "2024" }];
+      return [{ count: state.stale[name!] ?? 0 }];
+    };
+
+    const builder = {
+      from: (t: { __table: string }) => {
+        table = t;
+        return builder;
+      },
+      innerJoin: () => builder,
+      where: (cond: unknown) => {
+        where = cond;
+        return builder;
+      },
+      orderBy: () => builder,
+      limit: () => builder,
+      set: (s: Record<string, unknown>) => {
+        set = s;
+        return builder;
+      },
+      values: (v: Record<string, unknown>) => {
+        values = v;
+        return builder;
+      },
+      returning: () => builder,
+      then: (resolve: (value: unknown) => unknown, reject: (err: unknown) => unknown) =>
+        Promise.resolve().then(run).then(resolve, reject),
+    };
+    return builder;
+  }
+
+  return {
+    select: () => query("select"),
+    update: (t: { __table: string }) => query("update", t),
+    insert: (t: { __table: string }) => query("insert", t),
+  };
+}
+
+let state: FakeState;
+let version: string;
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  version = "v1";
+  state = {
+    jobs: [{ id: "job-1", ref: "fam-1", status: "queued" }],
+    stale: { trade_grades: 4, draft_grades: 0, waiver_grades: 0, manager_metrics: 2 },
+    restamped: [],
+  };
+  mockedGetDb.mockReturnValue(buildDb(state) as unknown as ReturnType<typeof getDb>);
+  resolveActiveConfigMock.mockImplementation(async () => ({ version }));
+});
+
+describe("runQueuedRegrades", () => {
+  it("re-stamps rows a re-grade leaves stale instead of requeueing", async () => {
+    // The re-grade rewrites the trades but not the orphaned metric rows
+    gradeLeagueTradesMock.mockImplementation(async () => {
+      state.stale.trade_grades = 0;
+    });
+
+    const results = await runQueuedRegrades();
+
+    expect(results).toEqual([{ jobId: "job-1", familyId: "fam-1", status: "success", stale: 6 }]);
+    expect(gradeLeagueTradesMock).toHaveBeenCalledTimes(1);
+    expect(state.jobs).toEqual([{ id: "job-1", ref: "fam-1", status: "success" }]);
+    expect(state.restamped.map((r) => r.version)).toEqual(["v1", "v1", "v1", "v1"]);
+    expect(state.stale.manager_metrics).toBe(0);
+
+    expect(await runQueuedRegrades()).toEqual([]);
+  });
+
+  it("queues another job when a promotion lands mid-run", async () => {
+    gradeLeagueTradesMock.mockImplementationOnce(async () => {
+      version = "v2";
+    });
+
+    const results = await runQueuedRegrades();
+
+    expect(results.map((r) => r.jobId)).toEqual(["job-1", "job-2"]);
+    expect(gradeLeagueTradesMock).toHaveBeenCalledTimes(2);
+    expect(state.restamped.every((r) => r.version === "v2")).toBe(true);
+  });
+
+  it("skips a family whose rows are already current", async () => {
+    state.stale = { trade_grades: 0, draft_grades: 0, waiver_grades: 0, manager_metrics: 0 };
+
+    const results = await runQueuedRegrades();
+
+    expect(results).toEqual([{ jobId: "job-1", familyId: "fam-1", status: "skipped", stale: 0 }]);
+    expect(gradeLeagueTradesMock).not.toHaveBeenCalled();
+    expect(state.restamped).toEqual([]);
+  });
+});
@@ -0,0 +1,209 @@
+const loadProjectionLeagueMock = jest.fn();
+
+jest.mock("@/db", () => ({ getDb: jest.fn(), schema: {} }));
+
+jest.mock("../pickProjection", () => ({
+  ...jest.requireActual("../pickProjection"),
+  loadProjectionLeague: (...args: unknown[]) => loadProjectionLeagueMock(...args),
+}));
+
+import type { SleeperBracketMatchup } from "@/lib/sleeper";
+import type { ProjectionMatchup, ProjectionRoster } from "../pickProjection";
+import {
+  __resetOddsCache,
+  buildBracket,
+  oddsWatermark,
+  playBracket,
+  simulateFamilySeason,
+  simulateSeason,
+  type SimulationInput,
+} from "../seasonSimulator";
+
+const ROSTER_COUNT = 6;
+
+/**
+ * Six rosters, weeks 1-4 played and weeks 5-6 to come; playoffs start
+ * week 7. Roster 1 scores ~160 a week, everyone else ~100.
+ */
+function midSeason(): SimulationInput {
+  const rosters: ProjectionRoster[] = [];
+  const matchups: ProjectionMatchup[] = [];
+  for (let id = 1; id <= ROSTER_COUNT; id++) {
+    rosters.push({ rosterId: id, wins: id === 1 ? 4 : 2, losses: id === 1 ? 0 : 2, ties: 0, fpts: 0, maxPf: 0 });
+  }
+  for (let week = 1; week <= 6; week++) {
+    for (let id = 1; id <= ROSTER_COUNT; id++) {
+      // Rotate opponents; each matchupId pairs exactly two rosters a week
+      const matchupId = ((id + week) % 3) + 1;
+      const base = id === 1 ? 160 : 100;
+      const points = week <= 4 ? base + ((week * id) % 5) * 4 : 0;
+      matchups.push({ week, rosterId: id, matchupId, points });
+    }
+  }
+  return {
+    rosters,
+    matchups,
+    playoffWeekStart: 7,
+    numPlayoffTeams: 4,
+    winnersBracket: null,
+    losersBracket: null,
+    rule: "standings",
+  };
+}
+
+const sum = (values: number[]) => values.reduce((a, b) => a + b, 0);
+
+describe("simulateSeason", () => {
+  it("is reproducible for a given seed", () => {
+    const a = simulateSeason(midSeason(), { iterations: 500, seed: 42 });
+    const b = simulateSeason(midSeason(), { iterations: 500, seed: 42 });
+    const c = simulateSeason(midSeason(), { iterations: 500, seed: 7 });
+    expect(a).toEqual(b);
+    expect(a.seed).toBe(42);
+    expect(c.rosters).not.toEqual(a.rosters);
+  });
+
+  it("produces consistent probabilities", () => {
+    const odds = simulateSeason(midSeason(), { iterations: 1000, seed: 1 });
+    expect(odds.weeksRemaining).toBe(2);
+    expect(sum(odds.rosters.map((r) => r.playoffOdds))).toBeCloseTo(4);
+    expect(sum(odds.rosters.map((r) => r.championOdds))).toBeCloseTo(1);
+    // Four-team field: no byes
+    expect(sum(odds.rosters.map((r) => r.byeOdds))).toBe(0);
+    for (const r of odds.rosters) {
+      expect(r.draftSlotOdds).toHaveLength(ROSTER_COUNT);
+      expect(sum(r.draftSlotOdds)).toBeCloseTo(1);
+    }
+    for (let slot = 0; slot < ROSTER_COUNT; slot++) {
+      expect(sum(odds.rosters.map((r) => r.draftSlotOdds[slot]))).toBeCloseTo(1);
+    }
+  });
+
+  it("favors the dominant roster", () => {
+    const odds = simulateSeason(midSeason(), { iterations: 2000, seed: 3 });
+    const best = odds.rosters.find((r) => r.rosterId === 1)!;
+    expect(best.playoffOdds).toBe(1);
+    expect(best.championOdds).toBeGreaterThan(0.6);
+    expect(best.expectedWins).toBeGreaterThan(5.9);
+    // Champions pick last
+    expect(best.draftSlotOdds[ROSTER_COUNT - 1]).toBeGreaterThan(0.6);
+  });
+
+  it("keeps decided bracket games", () => {
+    const input = midSeason();
+    input.winnersBracket = [
+      { r: 1, m: 1, t1: 3, t2: 6, w: 6, l: 3 },
+      { r: 1, m: 2, t1: 4, t2: 5, w: 5, l: 4 },
+      { r: 2, m: 3, t1: 6, t2: 5, w: 5, l: 6, t1_from: { w: 1 }, t2_from: { w: 2 }, p: 1 },
+    ];
+    const odds = simulateSeason(input, { iterations: 200, seed: 5 });
+    const byId = new Map(odds.rosters.map((r) => [r.rosterId, r]));
+    expect(byId.get(5)!.championOdds).toBe(1);
+    expect(byId.get(1)!.playoffOdds).toBe(0);
+  });
+});
+
+describe("brackets", () => {
+  it("gives the top seeds byes in a six-team field", () => {
+    const bracket = buildBracket([11, 12, 13, 14, 15, 16]);
+    const firstRound = bracket.filter((m) => m.r === 1);
+    expect(firstRound.map((m) => [m.t1, m.t2])).toEqual([
+      [14, 15],
+      [13, 16],
+    ]);
+    expect(bracket.filter((m) => m.p === 1)).toHaveLength(1);
+    expect(bracket.filter((m) => m.p === 3)).toHaveLength(1);
+  });
+
+  it("plays undecided games through to a champion", () => {
+    const bracket = buildBracket([1, 2, 3, 4]);
+    const played = playBracket(bracket, (a, b) => Math.min(a, b));
+    const final = played.find((m) => m.p === 1)!;
+    expect(final.w).toBe(1);
+    expect(final.l).toBe(2);
+    expect(played.find((m) => m.p === 3)!.w).toBe(3);
+  });
+
+  it("resolves feeder slots before deciding later rounds", () => {
+    const bracket: SleeperBracketMatchup[] = [
+      { r: 1, m: 1, t1: 1, t2: 2, w: null, l: null },
+      { r: 2, m: 2, t1: null, t2: 3, w: null, l: null, t1_from: { w: 1 }, p: 1 },
+    ];
+    const played = playBracket(bracket, (a) => a);
+    expect(played[1].t1).toBe(1);
+    expect(played[1].w).toBe(1);
+  });
+});
+
+describe("simulateFamilySeason", () => {
+  function loaded(input: SimulationInput) {
+    return {
+      league: {
+        id: "L2024",
+        season: "2024",
+        status: "in_season",
+        settings: { playoff_week_start: 7, playoff_teams: 4 },
+        winnersBracket: input.winnersBracket,
+        losersBracket: input.losersBracket,
+      },
+      leagueIds: ["L2024"],
+      rosters: input.rosters,
+      matchups: input.matchups,
+      ownerByRoster: new Map(input.rosters.map((r) => [r.rosterId, `u${r.rosterId}`])),
+    };
+  }
+
+  beforeEach(() => {
+    __resetOddsCache();
+    loadProjectionLeagueMock.mockReset();
+  });
+
+  it("reuses the run until a newly synced result moves the watermark", async () => {
+    const season = midSeason();
+    loadProjectionLeagueMock.mockResolvedValue(loaded(season));
+
+    const first = await simulateFamilySeason("fam-1", { iterations: 200 });
+    const again = await simulateFamilySeason("fam-1", { iterations: 200 });
+    expect(again).toEqual(first);
+    expect(again!.rosters[0].ownerId).toBe("u1");
+
+    // Week 5 scores land
+    const synced = midSeason();
+    synced.matchups = synced.matchups.map((m) => (m.week === 5 ? { ...m, points: 100 } : m));
+    loadProjectionLeagueMock.mockResolvedValue(loaded(synced));
+    const fresh = await simulateFamilySeason("fam-1", { iterations: 200 });
+    expect(fresh!.weeksRemaining).toBe(1);
+    expect(fresh!.seed).not.toBe(first!.seed);
+  });
+
+  it("keys on iterations and seed", async () => {
+    loadProjectionLeagueMock.mockResolvedValue(loaded(midSeason()));
+    const a = await simulateFamilySeason("fam-1", { iterations: 200, seed: 1 });
+    const b = await simulateFamilySeason("fam-1", { iterations: 200, seed: 2 });
+    const c = await simulateFamilySeason("fam-1", { iterations: 300, seed: 1 });
+    expect([a!.seed, b!.seed, c!.seed]).toEqual([1, 2, 1]);
+    expect(c!.iterations).toBe(300);
+  });
+});
+
+describe("oddsWatermark", () => {
+  it("changes with scores, records and decided bracket games only", () => {
+    const base = midSeason();
+    const mark = oddsWatermark(base);
+    expect(oddsWatermark(midSeason())).toBe(mark);
+
+    const rescored = midSeason();
+    rescored.matchups[0] = { ...rescored.matchups[0], points: rescored.matchups[0].points + 0.5 };
+    expect(oddsWatermark(rescored)).not.toBe(mark);
+
+    const recorded = midSeason();
+    recorded.rosters[1] = { ...recorded.rosters[1], wins: 3, losses: 1 };
+    expect(oddsWatermark(recorded)).not.toBe(mark);
+
+    const bracket = buildBracket([1, 2, 3, 4]);
+    const pending = oddsWatermark({ ...base, winnersBracket: bracket });
+    expect(pending).toBe(mark);
+    const decided = bracket.map((m) => (m.m === 1 ? { ...m, w: 1, l: 4 } : m));
+    expect(oddsWatermark({ ...base, winnersBracket: decided })).not.toBe(mark);
+  });
+});
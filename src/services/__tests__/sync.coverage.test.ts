@@ -24,6 +24,7 @@ const sleeperMock = {
   getTransactions: jest.fn(),
   getMatchups: jest.fn(),
   getWinnersBracket: jest.fn(),
+  getLosersBracket: jest.fn(),
 };
 
 jest.mock("@/lib/sleeper", () => ({
@@ -224,7 +225,7 @@ jest.mock("@/services/batchHelper", () => ({
   ),
 }));
 
-import { syncLeague, syncLeagueFamily } from "../sync";
+import { syncLeague, syncLeagueFamily, syncMatchupWeek } from "../sync";
 
 function resetSleeper(status: "complete" | "in_season" = "complete") {
   for (const fn of Object.values(sleeperMock)) fn.mockReset();
@@ -348,6 +349,9 @@ function resetSleeper(status: "complete" | "in_season" = "complete") {
   sleeperMock.getWinnersBracket.mockResolvedValue([
     { r: 1, m: 1, t1: 1, t2: 2, w: 1, l: 2 },
   ]);
+  sleeperMock.getLosersBracket.mockResolvedValue([
+    { r: 1, m: 1, t1: 3, t2: 4, w: 3, l: 4, p: 1 },
+  ]);
 }
 
 beforeEach(() => {
@@ -375,7 +379,7 @@ describe("syncLeague — drafts, traded picks, watermarks, winners bracket", ()
   it("upserts drafts + draft picks for completed drafts", async () => {
     await syncLeague("L1", undefined, undefined, { skipGlobalSyncs: true });
     expect(sleeperMock.getDrafts).toHaveBeenCalledWith("L1");
-    expect(sleeperMock.getDraftPicks).toHaveBeenCalledWith("D1");
+    expect(sleeperMock.getDraftPicks).toHaveBeenCalledWith("D1", { immutable: true });
     const draftWrites = insertCalls.filter((c) => c.table === "drafts");
     const pickWrites = insertCalls.filter((c) => c.table === "draftPicks");
     expect(draftWrites.length).toBeGreaterThan(0);
@@ -388,7 +392,7 @@ describe("syncLeague — drafts, traded picks, watermarks, winners bracket", ()
     // returns slot_to_roster_id. Both must fire on every sync, otherwise
     // the lineage tracer pick→player remap silently no-ops.
     expect(sleeperMock.getDrafts).toHaveBeenCalledWith("L1");
-    expect(sleeperMock.getDraft).toHaveBeenCalledWith("D1");
+    expect(sleeperMock.getDraft).toHaveBeenCalledWith("D1", { immutable: true });
   });
 
   it("falls back to the list-endpoint draft when /draft/{id} throws", async () => {
@@ -446,6 +450,16 @@ describe("syncLeague — drafts, traded picks, watermarks, winners bracket", ()
     expect(matchupWeeks[matchupWeeks.length - 1]).toBe(18);
   });
 
+  it("marks a completed season's weekly fetches immutable for the response store", async () => {
+    await syncLeague("L1", undefined, undefined, { skipGlobalSyncs: true });
+    expect(sleeperMock.getTransactions).toHaveBeenCalledWith("L1", 1, { immutable: true });
+    expect(sleeperMock.getMatchups).toHaveBeenCalledWith("L1", 1, { immutable: true });
+
+    resetSleeper("in_season");
+    await syncLeague("L1", undefined, undefined, { skipGlobalSyncs: true });
+    expect(sleeperMock.getMatchups).toHaveBeenCalledWith("L1", 1, { immutable: false });
+  });
+
   it("writes a watermark row for both transactions and matchups", async () => {
     await syncLeague("L1", undefined, undefined, { skipGlobalSyncs: true });
     const watermarkWrites = insertCalls.filter(
@@ -479,7 +493,8 @@ describe("syncLeague — drafts, traded picks, watermarks, winners bracket", ()
       await syncLeague("L1", undefined, undefined, { skipGlobalSyncs: true });
 
       expect(sleeperMock.getTransactions).toHaveBeenCalledTimes(1);
-      expect(sleeperMock.getTransactions).toHaveBeenCalledWith("L1", 1);
+      // An offseason league isn't complete, so week 1 is never served from the response store.
+      expect(sleeperMock.getTransactions).toHaveBeenCalledWith("L1", 1, { immutable: false });
       // The completed trade from week 1 lands in the transactions table.
       const txWrites = insertCalls.filter((c) => c.table === "transactions");
       expect(txWrites.some((c) => c.rowCount > 0)).toBe(true);
@@ -543,6 +558,24 @@ describe("syncLeague — drafts, traded picks, watermarks, winners bracket", ()
     ).resolves.toBeUndefined();
   });
 
+  it("writes the losers bracket alongside the winners bracket", async () => {
+    await syncLeague("L1", undefined, undefined, { skipGlobalSyncs: true });
+    expect(sleeperMock.getLosersBracket).toHaveBeenCalledWith("L1");
+    const bracketWrites = updateCalls.filter(
+      (c) => c.table === "leagues" && "losersBracket" in c.set
+    );
+    expect(bracketWrites).toHaveLength(1);
+  });
+
+  it("still writes the winners bracket when the losers bracket fetch fails", async () => {
+    sleeperMock.getLosersBracket.mockRejectedValue(new Error("boom"));
+    await syncLeague("L1", undefined, undefined, { skipGlobalSyncs: true });
+    const bracketWrites = updateCalls.filter(
+      (c) => c.table === "leagues" && "winnersBracket" in c.set
+    );
+    expect(bracketWrites).toHaveLength(1);
+  });
+
   it("does NOT write the winners bracket when none of the matches have a winner", async () => {
     sleeperMock.getWinnersBracket.mockResolvedValue([
       { r: 1, m: 1, t1: 1, t2: 2, w: null, l: null },
@@ -823,3 +856,15 @@ describe("syncLeagueFamily", () => {
     });
   });
 });
+
+describe("syncMatchupWeek", () => {
+  it("re-fetches one week and writes its matchups and player scores", async () => {
+    await expect(syncMatchupWeek("L1", 4)).resolves.toBe(2);
+    expect(sleeperMock.getMatchups).toHaveBeenCalledTimes(1);
+    expect(sleeperMock.getMatchups).toHaveBeenCalledWith("L1", 4);
+    expect(insertCalls.map((c) => [c.table, c.rowCount])).toEqual([
+      ["matchups", 1],
+      ["playerScores", 2],
+    ]);
+  });
+});
@@ -27,6 +27,7 @@ const sleeperMock = {
   getTransactions: jest.fn(),
   getMatchups: jest.fn(),
   getWinnersBracket: jest.fn(),
+  getLosersBracket: jest.fn(),
 };
 
 jest.mock("@/lib/sleeper", () => ({
@@ -167,6 +168,7 @@ function resetSleeperMocks() {
   sleeperMock.getDraftPicks.mockResolvedValue([]);
   sleeperMock.getTradedPicks.mockResolvedValue([]);
   sleeperMock.getWinnersBracket.mockResolvedValue([]);
+  sleeperMock.getLosersBracket.mockResolvedValue([]);
   sleeperMock.getTransactions.mockResolvedValue([]);
   sleeperMock.getMatchups.mockResolvedValue([]);
 }
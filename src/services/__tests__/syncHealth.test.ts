@@ -0,0 +1,119 @@
+jest.mock("@/db", () => ({ getDb: jest.fn(), schema: {} }));
+jest.mock("@/lib/freshness", () => ({ getFamilyRootRef: jest.fn() }));
+
+import {
+  FAILING_STREAK,
+  failureStreak,
+  isOrphanedLock,
+  jobDurationMs,
+  parseStageTimings,
+  summarizeSyncHealth,
+  type SyncJobRecord,
+} from "../syncHealth";
+
+const NOW = new Date("2025-10-05T12:00:00Z");
+const minutesAgo = (m: number) => new Date(NOW.getTime() - m * 60 * 1000);
+
+let seq = 0;
+function job(overrides: Partial<SyncJobRecord> = {}): SyncJobRecord {
+  seq++;
+  return {
+    id: `job-${seq}`,
+    ref: "root-1",
+    status: "success",
+    trigger: "lazy",
+    error: null,
+    apiCallsMade: 10,
+    stagesCompleted: 3,
+    stagesTotal: 3,
+    currentStage: null,
+    stageTimings: [],
+    startedAt: minutesAgo(60),
+    finishedAt: minutesAgo(59),
+    ...overrides,
+  };
+}
+
+describe("isOrphanedLock", () => {
+  it("flags running jobs past the stale threshold only", () => {
+    expect(isOrphanedLock({ status: "running", startedAt: minutesAgo(11) }, NOW)).toBe(true);
+    expect(isOrphanedLock({ status: "running", startedAt: minutesAgo(2) }, NOW)).toBe(false);
+    expect(isOrphanedLock({ status: "failed", startedAt: minutesAgo(60) }, NOW)).toBe(false);
+  });
+});
+
+describe("jobDurationMs", () => {
+  it("measures finished jobs start to finish", () => {
+    expect(jobDurationMs(job({ startedAt: minutesAgo(5), finishedAt: minutesAgo(3) }), NOW)).toBe(120_000);
+  });
+
+  it("measures running jobs up to now, and is null for unfinished failures", () => {
+    expect(jobDurationMs(job({ status: "running", startedAt: minutesAgo(1), finishedAt: null }), NOW)).toBe(60_000);
+    expect(jobDurationMs(job({ status: "failed", finishedAt: null }), NOW)).toBeNull();
+  });
+});
+
+describe("failureStreak", () => {
+  it("counts leading failures, newest first", () => {
+    const jobs = [job({ status: "failed" }), job({ status: "failed" }), job(), job({ status: "failed" })];
+    expect(failureStreak(jobs, NOW)).toBe(2);
+  });
+
+  it("skips a live run and counts an orphaned one", () => {
+    const live = job({ status: "running", startedAt: minutesAgo(1), finishedAt: null });
+    const orphan = job({ status: "running", startedAt: minutesAgo(30), finishedAt: null });
+    expect(failureStreak([live, job({ status: "failed" }), job()], NOW)).toBe(1);
+    expect(failureStreak([orphan, job({ status: "failed" }), job()], NOW)).toBe(2);
+  });
+});
+
+describe("parseStageTimings", () => {
+  it("keeps well-formed entries and tolerates non-arrays", () => {
+    const good = { key: "players", label: "Loading players", ms: 900, finishedAt: "x" };
+    expect(parseStageTimings([good, { key: 1 }, null])).toEqual([good]);
+    expect(parseStageTimings(null)).toEqual([]);
+  });
+});
+
+describe("summarizeSyncHealth", () => {
+  const families = new Map([
+    ["root-1", { familyId: "fam-1", name: "Healthy League" }],
+    ["root-2", { familyId: "fam-2", name: "Broken League" }],
+  ]);
+
+  it("groups by family, flags failing families and puts them first", () => {
+    const jobs = [
+      job({ ref: "root-1", startedAt: minutesAgo(5) }),
+      ...Array.from({ length: FAILING_STREAK }, (_, i) =>
+        job({ ref: "root-2", status: "failed", error: "Sleeper 500", startedAt: minutesAgo(100 + i) }),
+      ),
+    ];
+    const backoff = new Map([["fam-2", { consecutiveFailures: 2, totalFailures: 4, lastError: "Sleeper 500" }]]);
+
+    const report = summarizeSyncHealth(jobs, families, backoff, NOW);
+    expect(report.map((f) => f.name)).toEqual(["Broken League", "Healthy League"]);
+    expect(report[0]).toMatchObject({
+      failing: true,
+      failureStreak: FAILING_STREAK,
+      apiCallsMade: 10 * FAILING_STREAK,
+      backoff: { consecutiveFailures: 2 },
+    });
+    expect(report[1]).toMatchObject({ failing: false, backoff: null, running: false });
+  });
+
+  it("reports an orphaned lock and orders each family's jobs newest first", () => {
+    const orphan = job({ status: "running", startedAt: minutesAgo(20), finishedAt: null });
+    const older = job({ startedAt: minutesAgo(90) });
+    const [family] = summarizeSyncHealth([older, orphan], families, new Map(), NOW);
+
+    expect(family.jobs.map((j) => j.id)).toEqual([orphan.id, older.id]);
+    expect(family.orphanedJobId).toBe(orphan.id);
+    expect(family.running).toBe(false);
+    expect(family.jobs[0]).toMatchObject({ orphaned: true, durationMs: 20 * 60 * 1000 });
+  });
+
+  it("keeps jobs whose ref no longer maps to a family", () => {
+    const [family] = summarizeSyncHealth([job({ ref: "gone" })], families, new Map(), NOW);
+    expect(family).toMatchObject({ ref: "gone", familyId: null, name: null });
+  });
+});
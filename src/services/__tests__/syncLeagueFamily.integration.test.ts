@@ -75,6 +75,7 @@ const sleeperMock = {
   getTransactions: jest.fn(),
   getMatchups: jest.fn(),
   getWinnersBracket: jest.fn(),
+  getLosersBracket: jest.fn(),
   getPlayers: jest.fn(),
   getNFLState: jest.fn(),
   getUserByUsername: jest.fn(),
@@ -292,6 +293,7 @@ function buildSleeperFixtures() {
   sleeperMock.getWinnersBracket.mockResolvedValue([
     { r: 1, m: 1, t1: 1, t2: 2, w: 1, l: 2 },
   ]);
+  sleeperMock.getLosersBracket.mockResolvedValue([]);
 }
 
 async function cleanupTestRows(): Promise<void> {
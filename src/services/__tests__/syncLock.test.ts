@@ -48,6 +48,7 @@ import {
   acquireSyncLock,
   releaseSyncLock,
   incrementSyncJobApiCalls,
+  recordSyncJobStageTiming,
   updateSyncJobStage,
 } from "../syncLock";
 
@@ -467,3 +468,41 @@ describe("updateSyncJobStage", () => {
     await expect(updateSyncJobStage("job_x", "stage")).resolves.toBeUndefined();
   });
 });
+
+describe("recordSyncJobStageTiming", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  const timing = { key: "players", label: "Loading players", ms: 1200, finishedAt: "2025-10-01T00:00:00.000Z" };
+
+  it("appends the timing to stage_timings with a jsonb concat", async () => {
+    const calls: DbCalls = {
+      selectResults: [],
+      updateSets: [],
+      insertedValues: [],
+      insertReturning: [],
+    };
+    const db = buildDb(calls);
+    mockedGetDb.mockReturnValue(db as unknown as ReturnType<typeof getDb>);
+
+    await recordSyncJobStageTiming("job_a", timing);
+    const set = calls.updateSets[0] as { stageTimings: { values: unknown[] } };
+    expect(set.stageTimings.values).toContain(JSON.stringify([timing]));
+  });
+
+  it("swallows db errors", async () => {
+    const failingDb = {
+      update: jest.fn(() => ({
+        set: jest.fn(() => ({
+          where: jest.fn(() => Promise.reject(new Error("db down"))),
+        })),
+      })),
+    };
+    mockedGetDb.mockReturnValue(
+      failingDb as unknown as ReturnType<typeof getDb>
+    );
+
+    await expect(recordSyncJobStageTiming("job_x", timing)).resolves.toBeUndefined();
+  });
+});
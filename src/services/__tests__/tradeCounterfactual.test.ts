@@ -0,0 +1,175 @@
+jest.mock("@/db", () => ({ getDb: jest.fn(), schema: {} }));
+
+import {
+  replayTradeCounterfactual,
+  type CounterfactualMatchupRow,
+  type ReplayInput,
+} from "../tradeCounterfactual";
+
+const ROSTER_POSITIONS = ["QB", "RB", "WR", "FLEX", "BN", "BN"];
+const POSITIONS: Record<string, string> = {
+  qb1: "QB", rb1: "RB", wr1: "WR", wr2: "WR",
+  qb2: "QB", rb2: "RB", rb3: "RB", wr3: "WR",
+  qb3: "QB", rb4: "RB", wr4: "WR", wr5: "WR",
+  qb4: "QB", rb5: "RB", wr6: "WR", wr7: "WR",
+};
+
+function row(
+  week: number,
+  rosterId: number,
+  matchupId: number,
+  playerPoints: Record<string, number>,
+  points?: number,
+): CounterfactualMatchupRow {
+  return {
+    week,
+    rosterId,
+    matchupId,
+    playerPoints,
+    players: Object.keys(playerPoints),
+    points: points ?? Object.values(playerPoints).reduce((s, p) => s + p, 0),
+  };
+}
+
+/**
+ * Four-team league. Roster 1 sends wr1 to roster 2 for rb3 in week 2.
+ * Weeks 1–2 regular season, week 3 playoffs.
+ */
+function buildInput(overrides: Partial<ReplayInput> = {}): ReplayInput {
+  return {
+    tradeWeek: 2,
+    moves: [
+      { playerId: "wr1", fromRosterId: 1, toRosterId: 2 },
+      { playerId: "rb3", fromRosterId: 2, toRosterId: 1 },
+    ],
+    matchups: [
+      // Week 1 (pre-trade)
+      row(1, 1, 1, { qb1: 20, rb1: 10, wr1: 15, wr2: 5 }),
+      row(1, 2, 2, { qb2: 18, rb2: 12, rb3: 3, wr3: 10 }),
+      row(1, 3, 1, { qb3: 15, rb4: 10, wr4: 10, wr5: 5 }),
+      row(1, 4, 2, { qb4: 12, rb5: 12, wr6: 12, wr7: 4 }),
+      // Week 2: wr1 on roster 2 scores 30, rb3 on roster 1 scores 2
+      row(2, 1, 1, { qb1: 20, rb1: 10, rb3: 2, wr2: 5 }),
+      row(2, 2, 2, { qb2: 18, rb2: 12, wr1: 30, wr3: 10 }),
+      row(2, 3, 1, { qb3: 15, rb4: 10, wr4: 10, wr5: 5 }),
+      row(2, 4, 2, { qb4: 12, rb5: 12, wr6: 12, wr7: 4 }),
+      // Week 3 playoffs
+      row(3, 1, 3, { qb1: 20, rb1: 10, rb3: 2, wr2: 5 }),
+      row(3, 2, 3, { qb2: 18, rb2: 12, wr1: 10, wr3: 10 }),
+    ],
+    playerPositions: POSITIONS,
+    rosterPositions: ROSTER_POSITIONS,
+    playoffWeekStart: 3,
+    playoffTeams: 2,
+    ...overrides,
+  };
+}
+
+describe("replayTradeCounterfactual", () => {
+  it("swaps traded players back and shifts points by the optimal-lineup delta", () => {
+    const result = replayTradeCounterfactual(buildInput());
+    const side1 = result.sides.find((s) => s.rosterId === 1)!;
+    const side2 = result.sides.find((s) => s.rosterId === 2)!;
+
+    // Week 2, roster 1: actual optimal 20+10+5+2 = 37; with wr1 back instead
+    // of rb3: 20+10+30+5 = 65 → +28 on the 37 actually scored.
+    const w2 = side1.weeks.find((w) => w.week === 2)!;
+    expect(w2.actualPoints).toBe(37);
+    expect(w2.counterfactualPoints).toBe(65);
+
+    // Roster 2 loses wr1 (30) and regains rb3 (2): 70 → 18+12+10+2 = 42
+    const w2b = side2.weeks.find((w) => w.week === 2)!;
+    expect(w2b.actualPoints).toBe(70);
+    expect(w2b.counterfactualPoints).toBe(42);
+
+    expect(side1.playersIn).toEqual(["rb3"]);
+    expect(side1.playersOut).toEqual(["wr1"]);
+    expect(side1.weeks.map((w) => w.week)).toEqual([2, 3]);
+    expect(result.lastWeek).toBe(3);
+  });
+
+  it("holds lineup efficiency constant by applying the delta to actual points", () => {
+    const input = buildInput();
+    // Roster 1 left 7 points on the bench in week 2 (scored 30, optimal 37)
+    input.matchups[4] = row(2, 1, 1, { qb1: 20, rb1: 10, rb3: 2, wr2: 5 }, 30);
+    const side1 = replayTradeCounterfactual(input).sides.find((s) => s.rosterId === 1)!;
+    expect(side1.weeks.find((w) => w.week === 2)!.counterfactualPoints).toBe(58);
+  });
+
+  it("leaves pre-trade weeks and bystander rosters untouched", () => {
+    const result = replayTradeCounterfactual(buildInput());
+    const side1 = result.sides.find((s) => s.rosterId === 1)!;
+    expect(side1.weeks.some((w) => w.week < 2)).toBe(false);
+    // Week 1 still counts toward the record: 50 vs 40 is a win either way
+    expect(side1.actual.pointsFor).toBe(50 + 37);
+    expect(side1.counterfactual.pointsFor).toBe(50 + 65);
+    expect(result.sides.map((s) => s.rosterId)).toEqual([1, 2]);
+  });
+
+  it("recomputes wins, flipped results and seeding", () => {
+    const result = replayTradeCounterfactual(buildInput());
+    const side1 = result.sides.find((s) => s.rosterId === 1)!;
+    const side2 = result.sides.find((s) => s.rosterId === 2)!;
+
+    // Week 2: roster 1 (37) lost to roster 3 (40); replayed 65 wins.
+    expect(side1.actual).toMatchObject({ wins: 1, losses: 1, ties: 0 });
+    expect(side1.counterfactual).toMatchObject({ wins: 2, losses: 0 });
+    // Week 2: roster 2 (70) beat roster 4 (40); replayed 42 still wins.
+    expect(side2.actual).toMatchObject({ wins: 2, losses: 0 });
+    expect(side2.counterfactual).toMatchObject({ wins: 2, losses: 0 });
+
+    // Week 2 flips for roster 1; the week-3 playoff game flips too
+    // (37 vs 50 → 45 vs 42).
+    expect(side1.flippedWeeks).toBe(2);
+    expect(side1.weeks.find((w) => w.week === 3)).toMatchObject({
+      isPlayoff: true,
+      actualResult: "L",
+      counterfactualResult: "W",
+    });
+
+    // Actual: r2 2-0, then r1/r3 at 1-1 split on points (r1 87 > r3 80).
+    expect(side1.actual.seed).toBe(2);
+    expect(side1.counterfactual.seed).toBe(1);
+    expect(side1.counterfactual.madePlayoffs).toBe(true);
+    expect(result.seedChanges).toEqual([
+      { rosterId: 2, actualSeed: 1, counterfactualSeed: 2 },
+      { rosterId: 1, actualSeed: 2, counterfactualSeed: 1 },
+    ]);
+  });
+
+  it("skips regular-season weeks not played yet", () => {
+    // Playoffs move to week 4; week 3 is synced ahead with no points
+    const input = buildInput({ playoffWeekStart: 4 });
+    input.matchups = [
+      ...input.matchups.filter((m) => m.week < 3),
+      row(3, 1, 1, {}),
+      row(3, 2, 1, {}),
+      row(3, 3, 2, {}),
+      row(3, 4, 2, {}),
+    ];
+    const result = replayTradeCounterfactual(input);
+    const side1 = result.sides.find((s) => s.rosterId === 1)!;
+
+    expect(side1.weeks.map((w) => w.week)).toEqual([2]);
+    expect(side1.actual).toMatchObject({ wins: 1, losses: 1, ties: 0 });
+    expect(side1.counterfactual).toMatchObject({ wins: 2, losses: 0, ties: 0 });
+    expect(result.lastWeek).toBe(2);
+  });
+
+  it("only restores a sent player while the partner still rosters them", () => {
+    const input = buildInput();
+    // Roster 2 dropped wr1 before week 3
+    input.matchups[9] = row(3, 2, 3, { qb2: 18, rb2: 12, wr3: 10 });
+    const side1 = replayTradeCounterfactual(input).sides.find((s) => s.rosterId === 1)!;
+    const w3 = side1.weeks.find((w) => w.week === 3)!;
+    // rb3 removed, nothing restored: optimal 20+10+5 (FLEX empty) vs 37
+    expect(w3.counterfactualPoints).toBe(35);
+  });
+
+  it("returns no sides for a picks-only trade", () => {
+    const result = replayTradeCounterfactual(buildInput({ moves: [] }));
+    expect(result.sides).toEqual([]);
+    expect(result.seedChanges).toEqual([]);
+    expect(result.lastWeek).toBeNull();
+  });
+});
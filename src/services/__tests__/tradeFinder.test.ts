@@ -0,0 +1,150 @@
+jest.mock("@/db", () => ({ getDb: jest.fn(), schema: {} }));
+
+import {
+  analyzeExposure,
+  buildPickOwnership,
+  findTradeSuggestions,
+  type FinderAsset,
+  type FinderRoster,
+} from "../tradeFinder";
+import { effectiveValue } from "../gradingCore";
+
+const ROSTER_POSITIONS = ["QB", "RB", "RB", "WR", "WR", "TE", "FLEX", "BN", "BN", "BN"];
+
+function player(id: string, position: string, value: number): FinderAsset {
+  return { kind: "player", id, label: id, position, value, effective: effectiveValue(value) };
+}
+
+function pick(id: string, value: number): FinderAsset {
+  return { kind: "pick", id, label: id, position: null, value, effective: effectiveValue(value) };
+}
+
+function roster(rosterId: number, players: FinderAsset[], picks: FinderAsset[] = []): FinderRoster {
+  return { rosterId, ownerId: `u${rosterId}`, name: `Team ${rosterId}`, players, picks };
+}
+
+/**
+ * Team 1 is stacked at WR and thin at RB; Team 2 is the mirror image.
+ * Teams 3 and 4 are balanced.
+ */
+function buildLeague(): FinderRoster[] {
+  return [
+    roster(
+      1,
+      [
+        player("qb1", "QB", 5000),
+        player("rb1a", "RB", 4000),
+        player("rb1b", "RB", 400),
+        player("wr1a", "WR", 7000),
+        player("wr1b", "WR", 6500),
+        player("wr1c", "WR", 6000),
+        player("wr1d", "WR", 5500),
+        player("wr1e", "WR", 5000),
+        player("te1", "TE", 3000),
+      ],
+      [pick("2026:1:1", 5000), pick("2026:2:1", 1800)],
+    ),
+    roster(
+      2,
+      [
+        player("qb2", "QB", 5000),
+        player("rb2a", "RB", 7000),
+        player("rb2b", "RB", 6500),
+        player("rb2c", "RB", 6000),
+        player("rb2d", "RB", 5600),
+        player("wr2a", "WR", 4000),
+        player("wr2b", "WR", 500),
+        player("te2", "TE", 3000),
+      ],
+      [pick("2026:1:2", 5000), pick("2026:2:2", 1800)],
+    ),
+    ...[3, 4].map((id) =>
+      roster(id, [
+        player(`qb${id}`, "QB", 5000),
+        player(`rb${id}a`, "RB", 5000),
+        player(`rb${id}b`, "RB", 4500),
+        player(`wr${id}a`, "WR", 5000),
+        player(`wr${id}b`, "WR", 4500),
+        player(`wr${id}c`, "WR", 4200),
+        player(`te${id}`, "TE", 3000),
+      ]),
+    ),
+  ];
+}
+
+describe("analyzeExposure", () => {
+  it("flags needs and surpluses against the league's startable line", () => {
+    const exposures = analyzeExposure(buildLeague(), ROSTER_POSITIONS);
+    const team1 = new Map(exposures.get(1)!.positions.map((p) => [p.position, p]));
+    const team2 = new Map(exposures.get(2)!.positions.map((p) => [p.position, p]));
+
+    expect(team1.get("WR")!.status).toBe("surplus");
+    expect(team1.get("RB")!.status).toBe("need");
+    expect(team1.get("RB")!.startable).toBe(1);
+    expect(team2.get("RB")!.status).toBe("surplus");
+    expect(team2.get("WR")!.status).toBe("need");
+    expect(exposures.get(3)!.positions.every((p) => p.status === "ok")).toBe(true);
+  });
+
+  it("skips positions no roster starts", () => {
+    const exposures = analyzeExposure(buildLeague(), ["QB", "RB", "WR", "BN"]);
+    expect(exposures.get(1)!.positions.map((p) => p.position)).not.toContain("TE");
+  });
+});
+
+describe("findTradeSuggestions", () => {
+  it("pairs complementary rosters and explains the fit", () => {
+    const rosters = buildLeague();
+    const suggestions = findTradeSuggestions(1, rosters, analyzeExposure(rosters, ROSTER_POSITIONS));
+
+    expect(suggestions).toHaveLength(1);
+    const [s] = suggestions;
+    expect(s.partnerRosterId).toBe(2);
+    expect(s.give.map((a) => a.id)).toEqual(["wr1d"]);
+    expect(s.get.map((a) => a.id)).toEqual(["rb2d"]);
+    expect(s.imbalance).toBeLessThanOrEqual(0.2);
+    expect(s.reasons).toContain(
+      "Team 2 has RB depth (4 startable) but no startable WR",
+    );
+    expect(s.reasons).toContain(
+      "You have WR depth (5 startable) but only one startable RB",
+    );
+  });
+
+  it("pays for a one-sided fit with the partner's future picks", () => {
+    const rosters = buildLeague();
+    // Team 2 keeps its WR need but has no RB depth to offer back
+    rosters[1].players = rosters[1].players.filter((p) => p.id !== "rb2c" && p.id !== "rb2d");
+    const suggestions = findTradeSuggestions(1, rosters, analyzeExposure(rosters, ROSTER_POSITIONS));
+
+    const s = suggestions.find((x) => x.partnerRosterId === 2)!;
+    expect(s.give.map((a) => a.id)).toEqual(["wr1d"]);
+    expect(s.get.every((a) => a.kind === "pick")).toBe(true);
+    expect(s.get.map((a) => a.id)).toEqual(["2026:1:2"]);
+    expect(s.reasons).toContain("1 future pick added to balance value");
+  });
+
+  it("returns nothing for an unknown roster", () => {
+    const rosters = buildLeague();
+    expect(findTradeSuggestions(99, rosters, analyzeExposure(rosters, ROSTER_POSITIONS))).toEqual([]);
+  });
+});
+
+describe("buildPickOwnership", () => {
+  it("starts from each roster's own picks and applies traded_picks", () => {
+    const owned = buildPickOwnership([1, 2], ["2026"], 2, [
+      { season: "2026", round: 1, originalRosterId: 2, currentOwnerId: 1 },
+      // Seasons outside the tradeable window are ignored
+      { season: "2030", round: 1, originalRosterId: 1, currentOwnerId: 2 },
+    ]);
+    expect(owned.get(1)).toEqual(
+      expect.arrayContaining([
+        { season: "2026", round: 1, originalRosterId: 1 },
+        { season: "2026", round: 1, originalRosterId: 2 },
+        { season: "2026", round: 2, originalRosterId: 1 },
+      ]),
+    );
+    expect(owned.get(1)).toHaveLength(3);
+    expect(owned.get(2)).toEqual([{ season: "2026", round: 2, originalRosterId: 2 }]);
+  });
+});
@@ -0,0 +1,148 @@
+jest.mock("@/db", () => ({ getDb: jest.fn(), schema: {} }));
+
+import { buildTradeNetwork, type TradeEventRow, type TradeNetworkInput } from "../tradeNetwork";
+
+// Roster ids by manager at trade time.
+const ROSTER: Record<string, number> = { a: 1, b: 2, c: 3 };
+
+function player(
+  transactionId: string,
+  season: string,
+  playerId: string,
+  from: string,
+  to: string,
+  createdAt = 0,
+): TradeEventRow {
+  return {
+    transactionId,
+    leagueId: `L${season}`,
+    season,
+    week: 3,
+    createdAt,
+    assetKind: "player",
+    playerId,
+    pickSeason: null,
+    pickRound: null,
+    fromRosterId: ROSTER[from],
+    toRosterId: ROSTER[to],
+    fromUserId: from,
+    toUserId: to,
+  };
+}
+
+function pick(transactionId: string, season: string, round: number, from: string, to: string): TradeEventRow {
+  return {
+    ...player(transactionId, season, "", from, to),
+    assetKind: "pick",
+    playerId: null,
+    pickSeason: "2025",
+    pickRound: round,
+  };
+}
+
+function input(overrides: Partial<TradeNetworkInput>): TradeNetworkInput {
+  return {
+    events: [],
+    grades: [],
+    displayNames: new Map([
+      ["a", "Alice"],
+      ["b", "Bob"],
+      ["c", "Cara"],
+    ]),
+    playerNames: new Map([
+      ["p1", "Player One"],
+      ["p2", "Player Two"],
+    ]),
+    season: null,
+    ...overrides,
+  };
+}
+
+// 2023: a sends p1 to b for b's 2025 1st; later b sends p2 to c.
+// 2024: a and b swap again.
+const events: TradeEventRow[] = [
+  player("t1", "2023", "p1", "a", "b", 100),
+  pick("t1", "2023", 1, "b", "a"),
+  player("t2", "2023", "p2", "b", "c", 200),
+  player("t3", "2024", "p1", "b", "a", 300),
+];
+const grades = [
+  { transactionId: "t1", rosterId: 1, fantasyCalcValue: 4000, rawPAR: 0, grade: "B" },
+  { transactionId: "t1", rosterId: 2, fantasyCalcValue: 6000, rawPAR: 42.25, grade: "A" },
+  { transactionId: "t3", rosterId: 1, fantasyCalcValue: 3000, rawPAR: 10, grade: "A-" },
+];
+
+describe("buildTradeNetwork", () => {
+  it("aggregates trades into pair edges with value and PAR each way", () => {
+    const network = buildTradeNetwork(input({ events, grades }));
+
+    expect(network.seasons).toEqual(["2024", "2023"]);
+    expect(network.edges.map((e) => [e.id, e.trades])).toEqual([
+      ["a|b", 2],
+      ["b|c", 1],
+    ]);
+
+    const ab = network.edges[0];
+    expect(ab).toMatchObject({
+      source: "a",
+      target: "b",
+      valueToSource: 7000,
+      valueToTarget: 6000,
+      parToSource: 10,
+      parToTarget: 42.3,
+    });
+    expect(ab.transactions.map((t) => t.transactionId)).toEqual(["t3", "t1"]);
+    expect(ab.transactions[1].sides).toEqual([
+      { userId: "a", received: ["2025 R1"], value: 4000, par: 0, grade: "B" },
+      { userId: "b", received: ["Player One"], value: 6000, par: 42.25, grade: "A" },
+    ]);
+  });
+
+  it("summarises each manager's trading", () => {
+    const network = buildTradeNetwork(input({ events, grades }));
+    expect(network.managers.map((m) => [m.displayName, m.trades, m.partners])).toEqual([
+      ["Bob", 3, 2],
+      ["Alice", 2, 1],
+      ["Cara", 1, 1],
+    ]);
+    expect(network.managers.find((m) => m.userId === "a")).toMatchObject({
+      valueReceived: 7000,
+      valueSent: 6000,
+    });
+  });
+
+  it("filters to one season but still lists every traded season", () => {
+    const network = buildTradeNetwork(input({ events, grades, season: "2024" }));
+    expect(network.seasons).toEqual(["2024", "2023"]);
+    expect(network.edges.map((e) => [e.id, e.trades])).toEqual([["a|b", 1]]);
+    expect(network.managers.map((m) => m.userId).sort()).toEqual(["a", "b"]);
+  });
+
+  it("links every pair in a three-way trade", () => {
+    const network = buildTradeNetwork(
+      input({
+        events: [
+          player("t9", "2023", "p1", "a", "b"),
+          player("t9", "2023", "p2", "b", "c"),
+          pick("t9", "2023", 2, "c", "a"),
+        ],
+      }),
+    );
+    expect(network.edges.map((e) => e.id)).toEqual(["a|b", "a|c", "b|c"]);
+    expect(network.edges.every((e) => e.valueToSource === 0 && e.valueToTarget === 0)).toBe(true);
+  });
+
+  it("keys grades to the roster's manager at trade time, not its current owner", () => {
+    // Roster 2 later passed to d; the 2023 trade still belongs to b.
+    const network = buildTradeNetwork(
+      input({
+        events: [{ ...player("t1", "2023", "p1", "a", "b"), toRosterId: 2 }],
+        grades: [{ transactionId: "t1", rosterId: 2, fantasyCalcValue: 5000, rawPAR: 12, grade: "A" }],
+      }),
+    );
+    expect(network.edges[0].transactions[0].sides.find((s) => s.userId === "b")).toMatchObject({
+      value: 5000,
+      grade: "A",
+    });
+  });
+});
@@ -0,0 +1,175 @@
+jest.mock("@/db", () => ({ getDb: jest.fn(), schema: {} }));
+
+import type { GraphNode, TenureEdge, TransactionKind } from "@/lib/assetGraph";
+import { rollupTradeTree, walkTradeTree, type TradeTreeRollupInput } from "../tradeTree";
+
+const A = { userId: "uA", displayName: "Alice" };
+const B = { userId: "uB", displayName: "Bob" };
+const C = { userId: "uC", displayName: "Cara" };
+
+function tx(id: string, txKind: TransactionKind, managers: typeof A[], season = "2023", week = 1): GraphNode {
+  return {
+    id,
+    kind: "transaction",
+    txKind,
+    transactionId: id,
+    leagueId: `L${season}`,
+    season,
+    week,
+    createdAt: 0,
+    managers,
+    assets: [],
+  };
+}
+
+function roster(id: string, m: typeof A): GraphNode {
+  return { id, kind: "current_roster", userId: m.userId, displayName: m.displayName } as GraphNode;
+}
+
+function edge(
+  id: string,
+  source: string,
+  target: string,
+  manager: typeof A,
+  asset: { playerId: string; position?: string } | { pickRound: number },
+  window: Partial<Pick<TenureEdge, "startSeason" | "startWeek" | "endSeason" | "endWeek">> = {},
+): TenureEdge {
+  const isPlayer = "playerId" in asset;
+  const isOpen = target.startsWith("roster:");
+  return {
+    id,
+    source,
+    target,
+    managerUserId: manager.userId,
+    managerName: manager.displayName,
+    assetKind: isPlayer ? "player" : "pick",
+    playerId: isPlayer ? asset.playerId : null,
+    playerName: isPlayer ? asset.playerId.toUpperCase() : null,
+    playerPosition: isPlayer ? asset.position ?? "RB" : null,
+    playerTeam: null,
+    pickSeason: isPlayer ? null : "2024",
+    pickRound: isPlayer ? null : asset.pickRound,
+    pickOriginalRosterId: null,
+    pickLabel: isPlayer ? null : `2024 R${asset.pickRound}`,
+    startSeason: window.startSeason ?? "2023",
+    startWeek: window.startWeek ?? 1,
+    endSeason: isOpen ? null : window.endSeason ?? "2023",
+    endWeek: isOpen ? null : window.endWeek ?? 17,
+    isOpen,
+  };
+}
+
+// Root trade: A gets p1 + a 2024 1st, B gets p2.
+// A flips p1 to C for p3 (kept), and drafts p4 with the 1st (kept).
+// B drops p2 on waivers.
+const nodes: GraphNode[] = [
+  tx("tx:root", "trade", [A, B], "2023", 4),
+  tx("tx:flip", "trade", [A, C], "2023", 9),
+  tx("draft:d1", "draft", [A], "2024", 0),
+  tx("tx:drop", "waiver", [B], "2023", 12),
+  tx("tx:other", "trade", [B, C], "2023", 6),
+  roster("roster:uA", A),
+  roster("roster:uC", C),
+];
+const edges: TenureEdge[] = [
+  edge("e1", "tx:root", "tx:flip", A, { playerId: "p1" }, { startWeek: 4, endWeek: 9 }),
+  edge("e2", "tx:root", "draft:d1", A, { pickRound: 1 }, { startWeek: 4, endSeason: "2024", endWeek: 0 }),
+  edge("e3", "tx:root", "tx:drop", B, { playerId: "p2", position: "WR" }, { startWeek: 4, endWeek: 12 }),
+  edge("e4", "tx:flip", "roster:uA", A, { playerId: "p3" }, { startWeek: 9 }),
+  edge("e5", "tx:flip", "roster:uC", C, { playerId: "p1" }, { startWeek: 9 }),
+  edge("e6", "draft:d1", "roster:uA", A, { playerId: "p4", position: "WR" }, { startSeason: "2024", startWeek: 0 }),
+  // Unrelated trade B made before — not downstream of the root.
+  edge("e7", "tx:other", "tx:root", B, { playerId: "p9" }, { startWeek: 6 }),
+];
+
+describe("walkTradeTree", () => {
+  it("returns null for anything but a trade node", () => {
+    expect(walkTradeTree({ nodes, edges }, "tx:drop")).toBeNull();
+    expect(walkTradeTree({ nodes, edges }, "tx:missing")).toBeNull();
+  });
+
+  it("follows re-trades and draft conversions for the same manager", () => {
+    const [a] = walkTradeTree({ nodes, edges }, "tx:root")!;
+
+    expect(a.userId).toBe("uA");
+    expect(a.edges.map((r) => [r.edge.id, r.depth, r.viaNodeId])).toEqual([
+      ["e1", 0, "tx:root"],
+      ["e2", 0, "tx:root"],
+      ["e4", 1, "tx:flip"],
+      ["e6", 1, "draft:d1"],
+    ]);
+    expect(a.retrades).toBe(1);
+    expect(a.draftConversions).toBe(1);
+  });
+
+  it("ends a chain at a waiver or free-agent move", () => {
+    const [, b] = walkTradeTree({ nodes, edges }, "tx:root")!;
+    expect(b.edges.map((r) => r.edge.id)).toEqual(["e3"]);
+    expect(b.retrades).toBe(0);
+  });
+});
+
+describe("rollupTradeTree", () => {
+  const input: TradeTreeRollupInput = {
+    starterScores: [
+      // p1 started for A in weeks 5 and 9 (the flip week is still A's), then for C in week 10.
+      { leagueId: "L2023", week: 5, rosterId: 1, playerId: "p1", points: 20 },
+      { leagueId: "L2023", week: 9, rosterId: 1, playerId: "p1", points: 10 },
+      { leagueId: "L2023", week: 10, rosterId: 3, playerId: "p1", points: 30 },
+      // Before the root trade: not part of the tree.
+      { leagueId: "L2023", week: 2, rosterId: 2, playerId: "p1", points: 25 },
+      { leagueId: "L2023", week: 12, rosterId: 1, playerId: "p3", points: 8 },
+      { leagueId: "L2024", week: 3, rosterId: 1, playerId: "p4", points: 15.25 },
+      { leagueId: "L2023", week: 6, rosterId: 2, playerId: "p2", points: 4 },
+    ],
+    leagueSeasonMap: new Map([
+      ["L2023", "2023"],
+      ["L2024", "2024"],
+    ]),
+    rosterOwners: new Map([
+      ["L2023:1", "uA"],
+      ["L2023:2", "uB"],
+      ["L2023:3", "uC"],
+      ["L2024:1", "uA"],
+    ]),
+    replacementPPG: new Map([
+      ["2023:RB", 12],
+      ["2024:WR", 10],
+      ["2023:WR", 9],
+    ]),
+    playerValues: new Map([
+      ["p3", 4200],
+      ["p4", 6100.4],
+      ["p1", 9999],
+    ]),
+    pickRoundValues: new Map([[1, 5000]]),
+  };
+
+  const walked = walkTradeTree({ nodes, edges }, "tx:root")!;
+  const [a, b] = rollupTradeTree(walked, input);
+
+  it("counts starter points inside each tenure window for the holding manager", () => {
+    const byEdge = Object.fromEntries(a.assets.map((x) => [x.edgeId, x]));
+    expect(byEdge.e1.starterPoints).toBe(30);
+    expect(byEdge.e4.starterPoints).toBe(8);
+    expect(byEdge.e6.starterPoints).toBe(15.3);
+    expect(a.totals.starterPoints).toBe(53.3);
+  });
+
+  it("sums weekly points above replacement, floored at zero", () => {
+    // p1: (20-12) + max(0, 10-12); p3: max(0, 8-12); p4: 15.25-10
+    expect(a.totals.par).toBe(13.3);
+    expect(b.totals.par).toBe(0);
+  });
+
+  it("values only the assets still held", () => {
+    expect(a.totals.currentValue).toBe(4200 + 6100);
+    expect(a.assets.find((x) => x.edgeId === "e2")!.currentValue).toBe(0);
+    expect(b.totals.currentValue).toBe(0);
+  });
+
+  it("totals assets, re-trades and draft conversions", () => {
+    expect(a.totals).toMatchObject({ assets: 4, retrades: 1, draftConversions: 1 });
+    expect(b.totals).toMatchObject({ assets: 1, retrades: 0, draftConversions: 0, starterPoints: 4 });
+  });
+});
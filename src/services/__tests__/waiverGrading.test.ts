@@ -0,0 +1,143 @@
+/**
+ * @jest-environment node
+ *
+ * Waiver pickups are valued as of the day they happened. The grading-core
+ * loaders are mocked at the module boundary and the db fake captures the
+ * grade rows the grader upserts.
+ */
+
+jest.mock("@/db", () => {
+  const stubColumn = (name: string) => ({ name });
+  return {
+    schema: {
+      transactions: { leagueId: stubColumn("league_id"), type: stubColumn("type") },
+      waiverGrades: { transactionId: stubColumn("transaction_id"), rosterId: stubColumn("roster_id") },
+    },
+    getDb: jest.fn(),
+  };
+});
+
+jest.mock("drizzle-orm", () => ({
+  eq: (col: unknown, value: unknown) => ({ op: "eq", col, value }),
+  and: (...args: unknown[]) => ({ op: "and", args }),
+  inArray: (col: unknown, values: unknown) => ({ op: "inArray", col, values }),
+  sql: (strings: TemplateStringsArray, ...values: unknown[]) => ({ op: "sql", strings, values }),
+}));
+
+jest.mock("@/services/fantasyCalcSync", () => ({ syncFantasyCalcValues: jest.fn() }));
+jest.mock("@/services/batchHelper", () => ({ batchUpsertManagerMetrics: jest.fn(), BATCH_SIZE: 500 }));
+jest.mock("@/services/algorithmConfig", () => {
+  const actual = jest.requireActual("@/services/algorithmConfig");
+  return { ...actual, getActiveConfig: async () => actual.DEFAULT_CONFIG };
+});
+
+const snapshotAtPickupMock = jest.fn();
+const createSnapshotAsOfLoaderMock = jest.fn();
+
+jest.mock("@/services/gradingCore", () => ({
+  ...jest.requireActual("@/services/gradingCore"),
+  loadLeagueScoringConfig: async () => ({ ppr: 1, isSuperFlex: true, numTeams: 12, numQbs: 2 }),
+  loadFamilyLeagueMap: async () => ({ familyLeagueIds: ["L2024"], leagueSeasonMap: new Map([["L2024", "2024"]]) }),
+  // Today: the pickup looks like a downgrade
+  loadFantasyCalcSnapshot: async () =>
+    new Map([
+      ["added", 1000],
+      ["dropped", 4000],
+    ]),
+  createSnapshotAsOfLoader: (...args: unknown[]) => createSnapshotAsOfLoaderMock(...args),
+  computeSeasonalRanks: async () => ({
+    ranks: new Map(),
+    games: new Map(),
+    activeWeeks: new Map(),
+    positions: new Map(),
+    replacementPPG: new Map(),
+    playerPPG: new Map(),
+    maxPAR: new Map(),
+  }),
+  loadPlayerWeeklyScores: async () => new Map(),
+  loadMatchupOutcomes: async () => new Map(),
+  loadPlayoffConfig: async () => new Map(),
+  loadLeagueOwnerRosters: async () => new Map(),
+}));
+
+import { getDb } from "@/db";
+import { DEFAULT_CONFIG } from "@/services/algorithmConfig";
+import { normalizeScore, productionWeight } from "@/services/gradingCore";
+import { gradeLeagueWaivers } from "../waiverGrading";
+
+const mockedGetDb = getDb as jest.MockedFunction<typeof getDb>;
+
+const pickedUpAt = Date.now() - 24 * 60 * 60 * 1000;
+
+/** Blended score of a pickup graded the week it happened, with no production yet. */
+function expectedScore(valueDiff: number): number {
+  const pw = productionWeight(0, "waiver", DEFAULT_CONFIG.blendProfiles);
+  return (1 - pw) * normalizeScore(valueDiff, DEFAULT_CONFIG.waiverValueScaling) + pw * 50;
+}
+
+let upserted: Array<{ blendedScore: number }>;
+
+function mockTransactions(rows: Array<Record<string, unknown>>) {
+  upserted = [];
+  mockedGetDb.mockReturnValue({
+    select: () => ({ from: () => ({ where: async () => rows }) }),
+    insert: () => ({
+      values: (batch: Array<{ blendedScore: number }>) => {
+        upserted.push(...batch);
+        return { onConflictDoUpdate: async () => undefined };
+      },
+    }),
+  } as unknown as ReturnType<typeof getDb>);
+}
+
+async function gradeScore(): Promise<number> {
+  await gradeLeagueWaivers("L2024", "fam-1", { syncedAt: new Date() });
+  expect(upserted).toHaveLength(1);
+  return upserted[0].blendedScore;
+}
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  createSnapshotAsOfLoaderMock.mockReturnValue(snapshotAtPickupMock);
+  mockTransactions([
+    {
+      id: "tx-1",
+      leagueId: "L2024",
+      type: "waiver",
+      week: 5,
+      createdAt: pickedUpAt,
+      rosterIds: [1],
+      adds: { added: 1 },
+      drops: { dropped: 1 },
+      settings: null,
+    },
+  ]);
+});
+
+describe("gradeLeagueWaivers", () => {
+  it("values the pickup against the snapshot taken before it", async () => {
+    snapshotAtPickupMock.mockResolvedValue({
+      values: new Map([
+        ["added", 4000],
+        ["dropped", 1000],
+      ]),
+      fetchedAt: pickedUpAt - 1000,
+    });
+
+    const score = await gradeScore();
+
+    expect(createSnapshotAsOfLoaderMock).toHaveBeenCalledWith({ ppr: 1, isSuperFlex: true, numTeams: 12, numQbs: 2 });
+    expect(snapshotAtPickupMock).toHaveBeenCalledWith(pickedUpAt);
+    expect(score).toBeCloseTo(expectedScore(3000));
+    expect(score).toBeGreaterThan(50);
+  });
+
+  it("falls back to today's values when the history doesn't reach back", async () => {
+    snapshotAtPickupMock.mockResolvedValue(null);
+
+    const score = await gradeScore();
+
+    expect(score).toBeCloseTo(expectedScore(-3000));
+    expect(score).toBeLessThan(50);
+  });
+});
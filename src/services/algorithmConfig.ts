@@ -1,5 +1,5 @@
 import { getDb, schema } from "@/db";
-import { eq } from "drizzle-orm";
+import { and, desc, eq, inArray, isNull } from "drizzle-orm";
 
 // ============================================================
 // Algorithm Configuration Type
@@ -164,8 +164,8 @@ export const DEFAULT_CONFIG: AlgorithmConfig = {
 // Config Loading (with cache)
 // ============================================================
 
-let cachedConfig: AlgorithmConfig | null = null;
-let cacheTimestamp = 0;
+const GLOBAL_SCOPE = "global";
+const configCache = new Map<string, { resolved: ResolvedConfig; at: number }>();
 const CACHE_TTL_MS = 60_000;
 
 /**
@@ -194,82 +194,262 @@ function deepMerge(defaults: Record<string, unknown>, overrides: Record<string,
   return result;
 }
 
+/** Merge a partial config (as stored in `algorithm_config.config`) onto a full one. */
+export function mergeConfig(
+  base: AlgorithmConfig,
+  overrides: Partial<AlgorithmConfig> | Record<string, unknown> | null | undefined,
+): AlgorithmConfig {
+  if (!overrides || typeof overrides !== "object") return base;
+  return deepMerge(
+    base as unknown as Record<string, unknown>,
+    overrides as Record<string, unknown>,
+  ) as unknown as AlgorithmConfig;
+}
+
+/** Filter on one config scope: global (null) or a family. */
+function scopeFilter(familyId: string | null) {
+  return familyId === null
+    ? isNull(schema.algorithmConfig.familyId)
+    : eq(schema.algorithmConfig.familyId, familyId);
+}
+
+/** The active row in one scope, or null. */
+async function loadActiveRow(
+  familyId: string | null,
+): Promise<{ id: string; config: Record<string, unknown> | null } | null> {
+  const db = getDb();
+  const [row] = await db
+    .select({ id: schema.algorithmConfig.id, config: schema.algorithmConfig.config })
+    .from(schema.algorithmConfig)
+    .where(and(eq(schema.algorithmConfig.isActive, true), scopeFilter(familyId)))
+    .limit(1);
+  if (!row) return null;
+  return {
+    id: row.id,
+    config: row.config && typeof row.config === "object"
+      ? (row.config as Record<string, unknown>)
+      : null,
+  };
+}
+
+/** An effective config plus the version stamp written on grades made with it. */
+export interface ResolvedConfig {
+  config: AlgorithmConfig;
+  /**
+   * The active global row id ("default" when there is none), suffixed with
+   * `+<rowId>` when a family override is active.
+   */
+  version: string;
+}
+
+export const DEFAULT_CONFIG_VERSION = "default";
+
 /**
- * Load the active algorithm config. Returns DEFAULT_CONFIG if no DB row exists.
- * Caches for 60 seconds to avoid repeated DB hits within a grading run.
+ * Resolve the active algorithm config and its version. With a `familyId`,
+ * the family's active override (if any) is merged onto the active global
+ * config; without one, or when the family has no override, the global
+ * config is returned. Falls back to DEFAULT_CONFIG if no global DB row
+ * exists. Caches each scope for 60 seconds to avoid repeated DB hits
+ * within a grading run.
  */
-export async function getActiveConfig(): Promise<AlgorithmConfig> {
-  const now = Date.now();
-  if (cachedConfig && now - cacheTimestamp < CACHE_TTL_MS) {
-    return cachedConfig;
+export async function resolveActiveConfig(familyId?: string | null): Promise<ResolvedConfig> {
+  const scope = familyId ?? GLOBAL_SCOPE;
+  const cached = configCache.get(scope);
+  if (cached && Date.now() - cached.at < CACHE_TTL_MS) {
+    return cached.resolved;
   }
 
-  try {
-    const db = getDb();
-    const [row] = await db
-      .select({ config: schema.algorithmConfig.config })
-      .from(schema.algorithmConfig)
-      .where(eq(schema.algorithmConfig.isActive, true))
-      .limit(1);
-
-    if (row?.config && typeof row.config === "object") {
-      cachedConfig = deepMerge(
-        DEFAULT_CONFIG as unknown as Record<string, unknown>,
-        row.config as Record<string, unknown>,
-      ) as unknown as AlgorithmConfig;
-    } else {
-      cachedConfig = DEFAULT_CONFIG;
+  let resolved: ResolvedConfig;
+  if (familyId) {
+    const global = await resolveActiveConfig();
+    try {
+      const row = await loadActiveRow(familyId);
+      resolved = row
+        ? { config: mergeConfig(global.config, row.config), version: `${global.version}+${row.id}` }
+        : global;
+    } catch {
+      resolved = global;
+    }
+  } else {
+    try {
+      const row = await loadActiveRow(null);
+      resolved = row
+        ? { config: mergeConfig(DEFAULT_CONFIG, row.config), version: row.id }
+        : { config: DEFAULT_CONFIG, version: DEFAULT_CONFIG_VERSION };
+    } catch {
+      resolved = { config: DEFAULT_CONFIG, version: DEFAULT_CONFIG_VERSION };
     }
-  } catch {
-    cachedConfig = DEFAULT_CONFIG;
   }
 
-  cacheTimestamp = Date.now();
-  return cachedConfig;
+  configCache.set(scope, { resolved, at: Date.now() });
+  return resolved;
+}
+
+/** The active algorithm config for a family, or the global one. See resolveActiveConfig. */
+export async function getActiveConfig(familyId?: string | null): Promise<AlgorithmConfig> {
+  return (await resolveActiveConfig(familyId)).config;
 }
 
 /** Clear the config cache (useful in tests or after promoting a new config) */
 export function clearConfigCache(): void {
-  cachedConfig = null;
-  cacheTimestamp = 0;
+  configCache.clear();
 }
 
 // ============================================================
 // Config Promotion
 // ============================================================
 
+type ConfigTx = Parameters<Parameters<ReturnType<typeof getDb>["transaction"]>[0]>[0];
+
+/** `sync_jobs.type` of a queued family re-grade (drained by services/regrade). */
+export const REGRADE_JOB_TYPE = "regrade";
+
+/**
+ * Queue a re-grade for every family whose effective config changes when
+ * `familyId`'s scope changes: just that family, or every family for the
+ * global scope. Families that already have a queued or running re-grade
+ * are skipped; a run that finishes with rows still stale re-queues itself.
+ */
+async function queueRegrades(tx: ConfigTx, familyId: string | null): Promise<void> {
+  const familyIds = familyId
+    ? [familyId]
+    : (await tx.select({ id: schema.leagueFamilies.id }).from(schema.leagueFamilies)).map((f) => f.id);
+  if (familyIds.length === 0) return;
+
+  const pending = await tx
+    .select({ ref: schema.syncJobs.ref })
+    .from(schema.syncJobs)
+    .where(
+      and(
+        eq(schema.syncJobs.type, REGRADE_JOB_TYPE),
+        inArray(schema.syncJobs.status, ["queued", "running"]),
+        inArray(schema.syncJobs.ref, familyIds),
+      ),
+    );
+  const alreadyQueued = new Set(pending.map((q) => q.ref));
+  const toQueue = familyIds.filter((id) => !alreadyQueued.has(id));
+  if (toQueue.length === 0) return;
+
+  await tx.insert(schema.syncJobs).values(
+    toQueue.map((ref) => ({
+      type: REGRADE_JOB_TYPE,
+      ref,
+      status: "queued",
+      trigger: "manual",
+    })),
+  );
+}
+
 /**
- * Promote a new config version. Deactivates all existing configs and
- * inserts the new one as active.
+ * Promote a new config version. Deactivates the existing configs in the
+ * same scope — global, or the given family — inserts the new one as
+ * active, and queues a re-grade of the affected families. A family config
+ * is a partial override of the global one.
  */
 export async function promoteConfig(opts: {
   config: Partial<AlgorithmConfig>;
+  familyId?: string;
   experimentId?: string;
   promotedBy?: string;
   notes?: string;
 }): Promise<string> {
   const db = getDb();
+  const familyId = opts.familyId ?? null;
 
   const [row] = await db.transaction(async (tx) => {
-    // Deactivate all existing configs
+    // Deactivate existing configs in this scope only
     await tx
       .update(schema.algorithmConfig)
       .set({ isActive: false })
-      .where(eq(schema.algorithmConfig.isActive, true));
+      .where(and(eq(schema.algorithmConfig.isActive, true), scopeFilter(familyId)));
 
     // Insert new active config
-    return tx
+    const inserted = await tx
       .insert(schema.algorithmConfig)
       .values({
         config: opts.config,
+        familyId,
         experimentId: opts.experimentId ?? null,
         isActive: true,
         promotedBy: opts.promotedBy ?? null,
         notes: opts.notes ?? null,
+        activatedAt: new Date(),
       })
       .returning({ id: schema.algorithmConfig.id });
+
+    await queueRegrades(tx, familyId);
+    return inserted;
   });
 
   clearConfigCache();
   return row.id;
 }
+
+/**
+ * Roll back to a previous config by reactivating its row. The row keeps
+ * its scope: the currently active row in that scope is deactivated and
+ * the affected families are queued for re-grade. Throws when the id does
+ * not exist; a no-op when the row is already active.
+ */
+export async function rollbackConfig(configId: string): Promise<{ familyId: string | null }> {
+  const db = getDb();
+  const [target] = await db
+    .select({
+      id: schema.algorithmConfig.id,
+      familyId: schema.algorithmConfig.familyId,
+      isActive: schema.algorithmConfig.isActive,
+    })
+    .from(schema.algorithmConfig)
+    .where(eq(schema.algorithmConfig.id, configId))
+    .limit(1);
+  if (!target) throw new Error(`algorithm_config ${configId} not found`);
+  if (target.isActive) return { familyId: target.familyId };
+
+  await db.transaction(async (tx) => {
+    await tx
+      .update(schema.algorithmConfig)
+      .set({ isActive: false })
+      .where(and(eq(schema.algorithmConfig.isActive, true), scopeFilter(target.familyId)));
+    await tx
+      .update(schema.algorithmConfig)
+      .set({ isActive: true, activatedAt: new Date() })
+      .where(eq(schema.algorithmConfig.id, configId));
+    await queueRegrades(tx, target.familyId);
+  });
+
+  clearConfigCache();
+  return { familyId: target.familyId };
+}
+
+export interface ConfigHistoryEntry {
+  id: string;
+  familyId: string | null;
+  experimentId: string | null;
+  isActive: boolean;
+  promotedBy: string | null;
+  notes: string | null;
+  createdAt: Date;
+  activatedAt: Date | null;
+}
+
+/**
+ * Every config row in one scope (global by default), newest first — the
+ * audit trail for promotions and rollbacks.
+ */
+export async function listConfigHistory(familyId: string | null = null): Promise<ConfigHistoryEntry[]> {
+  const db = getDb();
+  return db
+    .select({
+      id: schema.algorithmConfig.id,
+      familyId: schema.algorithmConfig.familyId,
+      experimentId: schema.algorithmConfig.experimentId,
+      isActive: schema.algorithmConfig.isActive,
+      promotedBy: schema.algorithmConfig.promotedBy,
+      notes: schema.algorithmConfig.notes,
+      createdAt: schema.algorithmConfig.createdAt,
+      activatedAt: schema.algorithmConfig.activatedAt,
+    })
+    .from(schema.algorithmConfig)
+    .where(scopeFilter(familyId))
+    .orderBy(desc(schema.algorithmConfig.createdAt));
+}
@@ -46,6 +46,7 @@ export async function batchUpsertManagerMetrics(
           value: sql`excluded.value`,
           percentile: sql`excluded.percentile`,
           meta: sql`excluded.meta`,
+          configVersion: sql`excluded.config_version`,
           computedAt: sql`excluded.computed_at`,
         },
       });
@@ -26,6 +26,10 @@
  *     `stagesCompleted` / `currentStage` on the `syncJobs` row via
  *     `updateSyncJobStage`. Counters are the single source of truth for
  *     the loading screen.
+ *   - Call-budgeted: with a `callBudget`, each stage's Sleeper calls are
+ *     added to `sync_jobs.api_calls_made`. A job that has spent more than
+ *     its budget allows so far defers `deferrable` stages to a later tick
+ *     instead of adding to the burst; critical stages always run.
  */
 
 import { getDb, schema } from "@/db";
@@ -37,7 +41,12 @@ import { syncRosterStatus } from "@/services/rosterStatusSync";
 import { syncInjuries } from "@/services/injurySync";
 import { syncSchedule } from "@/services/scheduleSync";
 import { rollupManagerGrades } from "@/services/managerGrades";
-import { updateSyncJobStage } from "@/services/syncLock";
+import {
+  incrementSyncJobApiCalls,
+  recordSyncJobStageTiming,
+  updateSyncJobStage,
+} from "@/services/syncLock";
+import { getTotalSleeperCalls } from "@/lib/sleeper/rateLimit";
 import type { SyncTrigger } from "@/lib/observability/syncBreadcrumb";
 
 // --- Types --------------------------------------------------------------
@@ -50,14 +59,33 @@ export interface ChunkedStage {
   label: string;
   /** Function that runs the work. Idempotent. */
   run: () => Promise<void>;
+  /** Safe to push to a later tick when the job is over its call budget. */
+  deferrable?: boolean;
 }
 
+/**
+ * Sleeper calls a job may make: `burst` up front, then `callsPerMinute`
+ * of wallclock since the job started. Sleeper's limit is ~1000/min per
+ * client, so a job sticking to its budget leaves room for everyone else.
+ */
+export interface SyncCallBudget {
+  callsPerMinute: number;
+  burst: number;
+}
+
+export const DEFAULT_SYNC_CALL_BUDGET: SyncCallBudget = {
+  callsPerMinute: 600,
+  burst: 300,
+};
+
 export interface ChunkedRunResult {
   status: "in_progress" | "completed";
   stagesCompleted: number;
   stagesTotal: number;
   currentStageKey: string | null;
   currentStageLabel: string | null;
+  /** The tick stopped early because the next stage was deferred for budget. */
+  deferred: boolean;
 }
 
 export interface BuildStagesOpts {
@@ -81,6 +109,9 @@ export interface BuildStagesOpts {
  *      `"season N of M"`.
  *   5. `manager-grades` — career rollup
  *
+ * Everything but the seasons is `deferrable`: the loading screen is
+ * waiting on league data, not on a player refresh or dynasty values.
+ *
  * 5-season family: 1 + 1 + 1 + 5 + 1 = 9 stages. Issue body's "23 stages"
  * count assumed per-data-type granularity per season; in practice the
  * within-season parallelism makes per-season the right granularity.
@@ -123,6 +154,7 @@ export async function buildFamilyStages(
   stages.push({
     key: "players",
     label: "Refreshing player metadata",
+    deferrable: true,
     run: async () => {
       await syncPlayers(false, {
         trigger,
@@ -134,6 +166,7 @@ export async function buildFamilyStages(
   stages.push({
     key: "nflverse",
     label: "Loading NFL data",
+    deferrable: true,
     run: async () => {
       if (uniqueSeasons.length === 0) return;
       await syncRosterStatus({ seasons: uniqueSeasons, trigger });
@@ -145,6 +178,7 @@ export async function buildFamilyStages(
   stages.push({
     key: "fantasycalc",
     label: "Pulling dynasty values",
+    deferrable: true,
     run: async () => {
       const mostRecent = ordered[ordered.length - 1]?.leagueId;
       if (!mostRecent) return;
@@ -169,6 +203,7 @@ export async function buildFamilyStages(
   stages.push({
     key: "manager-grades",
     label: "Computing career grades",
+    deferrable: true,
     run: async () => {
       try {
         await rollupManagerGrades(familyId);
@@ -195,6 +230,14 @@ export interface RunChunkOpts {
   deadlineAt: number;
   /** Optional cursor override (for tests). Defaults to the persisted value. */
   startFromCursor?: number;
+  /** Track Sleeper calls on the job and defer `deferrable` stages past this budget. */
+  callBudget?: SyncCallBudget;
+}
+
+/** Calls a job that started at `startedAt` may have made by `now`. */
+export function callAllowance(budget: SyncCallBudget, startedAt: Date, now: number): number {
+  const minutes = Math.max(0, now - startedAt.getTime()) / 60_000;
+  return budget.burst + budget.callsPerMinute * minutes;
 }
 
 /**
@@ -205,7 +248,9 @@ export interface RunChunkOpts {
  * matter of starting from that index.
  *
  * Returns the final state for the tick (`in_progress` if more work
- * remains; `completed` if every stage ran).
+ * remains; `completed` if every stage ran). A tick that stops in front of
+ * a deferred stage reports `deferred: true`; the next tick tries again
+ * once the job's allowance has grown.
  */
 export async function runChunk(
   jobId: string,
@@ -216,17 +261,24 @@ export async function runChunk(
   const total = stages.length;
 
   // Read the persisted cursor (stagesCompleted) so concurrent ticks pick
-  // up where the last one left off.
+  // up where the last one left off, plus the job's spend so far when it
+  // runs on a call budget.
   let cursor = opts.startFromCursor;
-  if (cursor == null) {
+  let apiCallsMade = 0;
+  let jobStartedAt = new Date();
+  if (cursor == null || opts.callBudget) {
     const [row] = await db
       .select({
         stagesCompleted: schema.syncJobs.stagesCompleted,
+        apiCallsMade: schema.syncJobs.apiCallsMade,
+        startedAt: schema.syncJobs.startedAt,
       })
       .from(schema.syncJobs)
       .where(eq(schema.syncJobs.id, jobId))
       .limit(1);
-    cursor = row?.stagesCompleted ?? 0;
+    cursor ??= row?.stagesCompleted ?? 0;
+    apiCallsMade = row?.apiCallsMade ?? 0;
+    if (row?.startedAt) jobStartedAt = row.startedAt;
   }
 
   // Persist the total + the (optimistic) current stage label up front so
@@ -241,17 +293,32 @@ export async function runChunk(
       .where(eq(schema.syncJobs.id, jobId));
   }
 
+  let deferred = false;
   while (cursor < total) {
     if (Date.now() >= opts.deadlineAt) break;
 
     const stage = stages[cursor];
+    if (
+      opts.callBudget &&
+      stage.deferrable &&
+      apiCallsMade > callAllowance(opts.callBudget, jobStartedAt, Date.now())
+    ) {
+      deferred = true;
+      break;
+    }
+
     // Surface the stage we're about to run *before* running it so the
     // client sees the label flip the moment the work starts.
     await updateSyncJobStage(jobId, stage.label, cursor);
 
+    const stageStartedAt = Date.now();
+    const callsBefore = getTotalSleeperCalls();
     try {
       await stage.run();
     } catch (err) {
+      if (opts.callBudget) {
+        await incrementSyncJobApiCalls(jobId, getTotalSleeperCalls() - callsBefore);
+      }
       // Soft-fail: log and rethrow. The tick route catches and records
       // failure on the audit row. We deliberately don't bump the cursor
       // so the next manual reload retries the failed stage.
@@ -263,6 +330,21 @@ export async function runChunk(
       throw err;
     }
 
+    if (opts.callBudget) {
+      // The process-wide counter also sees other jobs' calls made during
+      // this stage; over-attributing only makes the budget stricter.
+      const spent = getTotalSleeperCalls() - callsBefore;
+      apiCallsMade += spent;
+      if (spent > 0) await incrementSyncJobApiCalls(jobId, spent);
+    }
+
+    await recordSyncJobStageTiming(jobId, {
+      key: stage.key,
+      label: stage.label,
+      ms: Date.now() - stageStartedAt,
+      finishedAt: new Date().toISOString(),
+    });
+
     cursor += 1;
     await updateSyncJobStage(
       jobId,
@@ -278,6 +360,7 @@ export async function runChunk(
       stagesTotal: total,
       currentStageKey: null,
       currentStageLabel: null,
+      deferred: false,
     };
   }
 
@@ -288,5 +371,6 @@ export async function runChunk(
     stagesTotal: total,
     currentStageKey: next?.key ?? null,
     currentStageLabel: next?.label ?? null,
+    deferred,
   };
 }
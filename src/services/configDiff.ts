@@ -0,0 +1,152 @@
+/**
+ * Config diff: re-grade a league family under a candidate algorithm config
+ * without writing anything, and report which trade, draft and waiver
+ * grades would change letter.
+ *
+ * Both sides run through the real graders in dry-run mode, so the
+ * comparison is like-for-like: "before" uses the family's active config
+ * (family override on top of global), "after" merges the candidate onto it.
+ */
+
+import { eq } from "drizzle-orm";
+import { getDb, schema } from "@/db";
+import {
+  getActiveConfig,
+  mergeConfig,
+  type AlgorithmConfig,
+} from "@/services/algorithmConfig";
+import type { DryRunGrade } from "@/services/gradingCore";
+import { gradeLeagueTrades } from "@/services/tradeGrading";
+import { gradeLeagueDrafts } from "@/services/draftGrading";
+import { gradeLeagueWaivers } from "@/services/waiverGrading";
+
+// ============================================================
+// Types
+// ============================================================
+
+export interface GradeChange {
+  kind: DryRunGrade["kind"];
+  id: string;
+  leagueId: string;
+  rosterId: number;
+  /** Null when the grade only exists under the candidate config */
+  before: { grade: string; score: number } | null;
+  /** Null when the grade disappears under the candidate config */
+  after: { grade: string; score: number } | null;
+}
+
+export interface ConfigDiff {
+  familyId: string;
+  /** Grades produced under the current config */
+  graded: number;
+  changed: number;
+  trades: GradeChange[];
+  drafts: GradeChange[];
+  waivers: GradeChange[];
+}
+
+// ============================================================
+// Pure helpers
+// ============================================================
+
+function gradeKey(g: Pick<DryRunGrade, "kind" | "id" | "rosterId">): string {
+  return `${g.kind}:${g.id}:${g.rosterId}`;
+}
+
+/**
+ * Pair grades from two dry runs by kind, id and roster, and keep the
+ * pairs whose letter differs (including grades present on one side only).
+ * Output follows the order of `before`, then grades new in `after`.
+ */
+export function compareGrades(before: DryRunGrade[], after: DryRunGrade[]): GradeChange[] {
+  const afterByKey = new Map(after.map((g) => [gradeKey(g), g]));
+  const changes: GradeChange[] = [];
+
+  for (const b of before) {
+    const key = gradeKey(b);
+    const a = afterByKey.get(key);
+    afterByKey.delete(key);
+    if (a && a.grade === b.grade) continue;
+    changes.push({
+      kind: b.kind,
+      id: b.id,
+      leagueId: b.leagueId,
+      rosterId: b.rosterId,
+      before: { grade: b.grade, score: b.score },
+      after: a ? { grade: a.grade, score: a.score } : null,
+    });
+  }
+  for (const a of afterByKey.values()) {
+    changes.push({
+      kind: a.kind,
+      id: a.id,
+      leagueId: a.leagueId,
+      rosterId: a.rosterId,
+      before: null,
+      after: { grade: a.grade, score: a.score },
+    });
+  }
+  return changes;
+}
+
+// ============================================================
+// Loader
+// ============================================================
+
+/** Dry-run every grader across the family's leagues under one config. */
+async function gradeFamily(
+  leagueIds: string[],
+  familyId: string,
+  config: AlgorithmConfig,
+  syncedAt: Date,
+): Promise<DryRunGrade[]> {
+  const grades: DryRunGrade[] = [];
+  const opts = { config, syncedAt, dryRun: grades };
+  for (const leagueId of leagueIds) {
+    await gradeLeagueTrades(leagueId, familyId, opts);
+    await gradeLeagueDrafts(leagueId, familyId, opts);
+    await gradeLeagueWaivers(leagueId, familyId, opts);
+  }
+  return grades;
+}
+
+/**
+ * Re-grade a family under `candidate` (a partial config merged onto the
+ * family's active one) and report the letter changes. Nothing is written,
+ * and FantasyCalc values are not re-synced. Returns null when the family
+ * has no leagues.
+ */
+export async function diffFamilyGrades(
+  familyId: string,
+  candidate: Partial<AlgorithmConfig>,
+): Promise<ConfigDiff | null> {
+  const db = getDb();
+  const members = await db
+    .select({
+      leagueId: schema.leagueFamilyMembers.leagueId,
+      season: schema.leagueFamilyMembers.season,
+    })
+    .from(schema.leagueFamilyMembers)
+    .where(eq(schema.leagueFamilyMembers.familyId, familyId));
+  if (members.length === 0) return null;
+  const leagueIds = members
+    .sort((a, b) => Number(a.season) - Number(b.season))
+    .map((m) => m.leagueId);
+
+  const current = await getActiveConfig(familyId);
+  const candidateConfig = mergeConfig(current, candidate);
+  const syncedAt = new Date();
+
+  const before = await gradeFamily(leagueIds, familyId, current, syncedAt);
+  const after = await gradeFamily(leagueIds, familyId, candidateConfig, syncedAt);
+  const changes = compareGrades(before, after);
+
+  return {
+    familyId,
+    graded: before.length,
+    changed: changes.length,
+    trades: changes.filter((c) => c.kind === "trade"),
+    drafts: changes.filter((c) => c.kind === "draft"),
+    waivers: changes.filter((c) => c.kind === "waiver"),
+  };
+}
@@ -12,8 +12,10 @@ import {
   loadLeagueScoringConfig,
   loadFamilyLeagueMap,
   loadFantasyCalcSnapshot,
+  loadFantasyCalcSnapshotAsOf,
+  type GradeRunOptions,
 } from "@/services/gradingCore";
-import { getActiveConfig } from "@/services/algorithmConfig";
+import { resolveActiveConfig } from "@/services/algorithmConfig";
 
 // ============================================================
 // Draft Grading Configuration
@@ -72,6 +74,7 @@ interface DraftGradeRow {
   productionWeight: number;
   grade: string;
   benchmarkSize: number;
+  configVersion: string | null;
   computedAt: Date;
 }
 
@@ -82,10 +85,13 @@ interface DraftGradeRow {
 export async function gradeLeagueDrafts(
   leagueId: string,
   familyId: string,
-  opts?: { syncedAt?: Date },
+  opts?: GradeRunOptions,
 ): Promise<number> {
   const db = getDb();
-  const algoConfig = await getActiveConfig();
+  const { config: algoConfig, version: configVersion } = opts?.config
+    ? { config: opts.config, version: opts.configVersion ?? null }
+    : await resolveActiveConfig(familyId);
+  const dryRun = opts?.dryRun;
   const draftCfg = algoConfig.draftConfig;
 
   const syncedAt =
@@ -176,6 +182,18 @@ export async function gradeLeagueDrafts(
 
     const draftSeason = parseInt(draft.season, 10);
     const draftStartTime = draft.startTime ?? Date.now();
+
+    // Value the board as it stood on draft day; today's values when the
+    // history doesn't reach back that far.
+    const atDraft = draft.startTime
+      ? await loadFantasyCalcSnapshotAsOf(new Date(draft.startTime), {
+          isSuperFlex,
+          ppr,
+          numTeams,
+          numQbs,
+        })
+      : null;
+    const values = atDraft?.snapshot ?? snapshot;
     const weeksElapsed = Math.floor(
       (Date.now() - draftStartTime) / (7 * 24 * 60 * 60 * 1000),
     );
@@ -226,7 +244,7 @@ export async function gradeLeagueDrafts(
         const benchmarkValues = windowPicks
           .map((p) => ({
             playerId: p.playerId!,
-            value: snapshot.get(p.playerId!) ?? 0,
+            value: values.get(p.playerId!) ?? 0,
           }))
           .sort((a, b) => b.value - a.value)
           .slice(0, draftCfg.benchmarkTake);
@@ -234,7 +252,7 @@ export async function gradeLeagueDrafts(
         if (benchmarkValues.length === 0) continue;
 
         const pickedValue =
-          snapshot.get(pick.playerId) ?? 0;
+          values.get(pick.playerId) ?? 0;
         const avgBenchmarkValue =
           benchmarkValues.reduce(
             (sum, bv) => sum + bv.value,
@@ -303,7 +321,7 @@ export async function gradeLeagueDrafts(
           100,
           blendedScore + bonus,
         );
-        const grade = scoreToGrade(finalScore);
+        const grade = scoreToGrade(finalScore, algoConfig.gradeThresholds);
 
         const now = new Date();
         gradeRows.push({
@@ -326,6 +344,7 @@ export async function gradeLeagueDrafts(
           productionWeight: pw,
           grade,
           benchmarkSize: benchmarkValues.length,
+          configVersion,
           computedAt: now,
         });
 
@@ -350,6 +369,21 @@ export async function gradeLeagueDrafts(
       }
     }
 
+    if (dryRun) {
+      for (const row of gradeRows) {
+        dryRun.push({
+          kind: "draft",
+          id: `${row.draftId}:${row.pickNo}`,
+          leagueId,
+          rosterId: row.rosterId,
+          score: row.blendedScore,
+          grade: row.grade,
+        });
+      }
+      graded += gradeRows.length;
+      continue;
+    }
+
     // Batch upsert all grade rows for this draft
     if (gradeRows.length > 0) {
       await db
@@ -373,6 +407,7 @@ export async function gradeLeagueDrafts(
             productionWeight: sql`excluded.production_weight`,
             grade: sql`excluded.grade`,
             benchmarkSize: sql`excluded.benchmark_size`,
+            configVersion: sql`excluded.config_version`,
             computedAt: sql`excluded.computed_at`,
           },
         });
@@ -395,6 +430,7 @@ export async function gradeLeagueDrafts(
       metric: "draft_score",
       qualityWeight: algoConfig.qualityWeights.draft_score,
       countLabel: "picksGraded",
+      configVersion,
     });
 
     await batchUpsertManagerMetrics(metricValues);
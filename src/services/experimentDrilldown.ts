@@ -0,0 +1,234 @@
+/**
+ * Experiment drill-down: paginated, filterable access to a run's `rawData`.
+ *
+ * The list endpoint omits `rawData` because it can run to thousands of rows.
+ * This reads one run's rows, adds a residual to every row that pairs a
+ * `predicted` score with an `actual` target (in-app runs always do; script
+ * runs store whatever shape their study needed), then filters, sorts and
+ * pages in memory — `rawData` is a single jsonb column, so there is nothing
+ * to push down to Postgres.
+ */
+
+import { eq } from "drizzle-orm";
+import { getDb, schema } from "@/db";
+
+// ============================================================
+// Types
+// ============================================================
+
+export type DrilldownRow = Record<string, unknown> & {
+  /** z(predicted) − z(actual); present only on rows with both scores */
+  residual?: number;
+};
+
+export interface DrilldownQuery {
+  offset: number;
+  limit: number;
+  /** A row field, or "residual" to sort by absolute residual */
+  sort: string | null;
+  order: "asc" | "desc";
+  /** Field → value equality filters, compared as strings */
+  filters: Record<string, string>;
+}
+
+export interface ExperimentRunSummary {
+  id: string;
+  name: string;
+  hypothesis: string | null;
+  acceptanceCriteria: string | null;
+  verdict: string | null;
+  verdictReason: string | null;
+  scorecard: unknown;
+  config: unknown;
+  metrics: unknown;
+  familyId: string | null;
+  status: string;
+  error: string | null;
+  startedAt: Date;
+  finishedAt: Date | null;
+}
+
+export interface ExperimentDetail {
+  run: ExperimentRunSummary;
+  rows: DrilldownRow[];
+  /** Rows matching the filters, before paging */
+  total: number;
+  offset: number;
+  limit: number;
+  /** Every field seen across the run's rows, in first-seen order */
+  fields: string[];
+  /** Low-cardinality string fields and their values, for filter controls */
+  facets: Record<string, string[]>;
+  /** Whether the rows carry predicted/actual pairs (and so residuals) */
+  fit: boolean;
+}
+
+export const DEFAULT_DRILLDOWN_LIMIT = 50;
+export const MAX_DRILLDOWN_LIMIT = 1000;
+
+/** Fields with more distinct values than this aren't offered as filters. */
+const MAX_FACET_VALUES = 20;
+
+const RESERVED_PARAMS = new Set(["offset", "limit", "sort", "order"]);
+
+// ============================================================
+// Pure helpers
+// ============================================================
+
+/** Parse `?offset&limit&sort&order`; every other param is a field filter. */
+export function parseDrilldownQuery(params: URLSearchParams): DrilldownQuery {
+  const int = (key: string, fallback: number) => {
+    const n = Number.parseInt(params.get(key) ?? "", 10);
+    return Number.isFinite(n) ? n : fallback;
+  };
+  const filters: Record<string, string> = {};
+  for (const [key, value] of params) {
+    if (!RESERVED_PARAMS.has(key)) filters[key] = value;
+  }
+  return {
+    offset: Math.max(0, int("offset", 0)),
+    limit: Math.min(MAX_DRILLDOWN_LIMIT, Math.max(1, int("limit", DEFAULT_DRILLDOWN_LIMIT))),
+    sort: params.get("sort") || null,
+    order: params.get("order") === "asc" ? "asc" : "desc",
+    filters,
+  };
+}
+
+function isScore(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value);
+}
+
+function zScorer(values: number[]): (v: number) => number {
+  const mean = values.reduce((a, b) => a + b, 0) / values.length;
+  const sd = Math.sqrt(values.reduce((a, v) => a + (v - mean) ** 2, 0) / values.length);
+  return (v) => (sd === 0 ? 0 : (v - mean) / sd);
+}
+
+/**
+ * Normalize raw rows to objects and add a residual wherever a row has
+ * numeric `predicted` and `actual`. Both sides are z-scored across the run,
+ * so a grade out of 100 and a MOS out of 1 are comparable: a large positive
+ * residual is a row graded far better than its outcome, a large negative
+ * one the reverse.
+ */
+export function withResiduals(raw: unknown[]): DrilldownRow[] {
+  const rows: DrilldownRow[] = raw.map((r) =>
+    r !== null && typeof r === "object" && !Array.isArray(r)
+      ? { ...(r as Record<string, unknown>) }
+      : { value: r },
+  );
+  const paired = rows.filter((r) => isScore(r.predicted) && isScore(r.actual));
+  if (paired.length === 0) return rows;
+
+  const zPredicted = zScorer(paired.map((r) => r.predicted as number));
+  const zActual = zScorer(paired.map((r) => r.actual as number));
+  for (const r of paired) {
+    const residual = zPredicted(r.predicted as number) - zActual(r.actual as number);
+    r.residual = Math.round(residual * 1000) / 1000;
+  }
+  return rows;
+}
+
+/** Field names in first-seen order. */
+export function fieldsOf(rows: DrilldownRow[]): string[] {
+  const fields = new Set<string>();
+  for (const r of rows) for (const key of Object.keys(r)) fields.add(key);
+  return [...fields];
+}
+
+/** String fields with 2..MAX_FACET_VALUES distinct values, sorted. */
+export function facetsOf(rows: DrilldownRow[]): Record<string, string[]> {
+  const values = new Map<string, Set<string> | null>();
+  for (const r of rows) {
+    for (const [key, value] of Object.entries(r)) {
+      if (value === null || value === undefined) continue;
+      const seen = values.get(key);
+      if (seen === null) continue;
+      if (typeof value !== "string") {
+        values.set(key, null);
+        continue;
+      }
+      const set = seen ?? new Set<string>();
+      set.add(value);
+      values.set(key, set.size > MAX_FACET_VALUES ? null : set);
+    }
+  }
+
+  const facets: Record<string, string[]> = {};
+  for (const [key, set] of values) {
+    if (set && set.size > 1) facets[key] = [...set].sort();
+  }
+  return facets;
+}
+
+function compareValues(a: unknown, b: unknown): number {
+  if (isScore(a) && isScore(b)) return a - b;
+  return String(a).localeCompare(String(b));
+}
+
+/**
+ * Filter, sort and page drill-down rows. Rows missing the sort field sort
+ * last in either order. `sort=residual` orders by absolute residual, so the
+ * default descending order lists the worst fits first.
+ */
+export function queryDrilldown(
+  rows: DrilldownRow[],
+  query: DrilldownQuery,
+): { rows: DrilldownRow[]; total: number } {
+  const filters = Object.entries(query.filters);
+  const matched = rows.filter((r) =>
+    filters.every(([field, value]) => r[field] !== undefined && String(r[field]) === value),
+  );
+
+  const { sort } = query;
+  if (sort) {
+    const key = (r: DrilldownRow) =>
+      sort === "residual" ? (isScore(r.residual) ? Math.abs(r.residual) : undefined) : r[sort];
+    const dir = query.order === "asc" ? 1 : -1;
+    matched.sort((a, b) => {
+      const ka = key(a);
+      const kb = key(b);
+      const missingA = ka === undefined || ka === null;
+      const missingB = kb === undefined || kb === null;
+      if (missingA || missingB) return Number(missingA) - Number(missingB);
+      return dir * compareValues(ka, kb);
+    });
+  }
+
+  return {
+    rows: matched.slice(query.offset, query.offset + query.limit),
+    total: matched.length,
+  };
+}
+
+// ============================================================
+// Loader
+// ============================================================
+
+/** One run with a page of its drill-down rows, or null when it doesn't exist. */
+export async function loadExperimentDetail(
+  runId: string,
+  query: DrilldownQuery,
+): Promise<ExperimentDetail | null> {
+  const db = getDb();
+  const [row] = await db
+    .select()
+    .from(schema.experimentRuns)
+    .where(eq(schema.experimentRuns.id, runId))
+    .limit(1);
+  if (!row) return null;
+
+  const { rawData, ...run } = row;
+  const all = withResiduals(Array.isArray(rawData) ? rawData : []);
+  const page = queryDrilldown(all, query);
+
+  return {
+    run,
+    ...page,
+    offset: query.offset,
+    limit: query.limit,
+    fields: fieldsOf(all),
+    facets: facetsOf(all),
+    fit: all.some((r) => r.residual !== undefined),
+  };
+}
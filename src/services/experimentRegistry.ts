@@ -0,0 +1,274 @@
+/**
+ * Experiment registry: the parameter sweeps the in-app runner
+ * (services/experimentRunner) can execute. Each entry pre-registers its
+ * hypothesis and acceptance criteria, declares its config grid and the
+ * outcome metric to correlate against, and judges its own verdict.
+ *
+ * The one-off studies in scripts/experiments stay where they are; a study
+ * moves here once it is a sweep worth re-running as the data grows.
+ */
+
+import { eq, inArray, sql } from "drizzle-orm";
+import { getDb, schema } from "@/db";
+import { getActiveConfig, type AlgorithmConfig } from "@/services/algorithmConfig";
+import { computeQualityQuantityScores } from "@/services/gradingCore";
+import { combineVerdicts, intervalVerdict, metric, type ExperimentVerdict, type ScorecardMetric } from "@/lib/scorecard";
+import { meanInterval, round3, type BootstrapInterval } from "@/lib/stats";
+import {
+  rosterKey,
+  type ExperimentDetailRow,
+  type ExperimentScope,
+  type ExperimentSpec,
+  type GridPointResult,
+  type RosterScores,
+} from "@/services/experimentRunner";
+
+/** Erase a spec's param/data types so specs can share one registry. */
+function defineExperiment<P, D>(spec: ExperimentSpec<P, D>): ExperimentSpec {
+  return spec as unknown as ExperimentSpec;
+}
+
+// ============================================================
+// quality-weight-sweep
+// ============================================================
+
+type Pillar = "trade_score" | "draft_score" | "waiver_score";
+
+const PILLARS: Pillar[] = ["trade_score", "draft_score", "waiver_score"];
+const PILLAR_KINDS: Record<Pillar, string> = {
+  trade_score: "trade",
+  draft_score: "draft",
+  waiver_score: "waiver",
+};
+const ALPHA_VALUES = [0, 0.2, 0.4, 0.5, 0.6, 0.8, 1];
+
+interface PillarGrade {
+  /** Transaction id, or `${draftId}:${pickNo}` for draft picks */
+  id: string;
+  leagueId: string;
+  rosterId: number;
+  quality: number;
+  quantity: number;
+}
+
+interface QualityWeightParams {
+  pillar: Pillar;
+  alpha: number;
+}
+
+/** Grade rows per pillar for the scope's leagues. Drafts use production as quantity. */
+async function loadPillarGrades(scope: ExperimentScope): Promise<Record<Pillar, PillarGrade[]>> {
+  const db = getDb();
+  if (scope.leagueIds.length === 0) return { trade_score: [], draft_score: [], waiver_score: [] };
+
+  const [trades, drafts, waivers] = await Promise.all([
+    db
+      .select({
+        id: schema.tradeGrades.transactionId,
+        leagueId: schema.transactions.leagueId,
+        rosterId: schema.tradeGrades.rosterId,
+        quality: schema.tradeGrades.blendedScore,
+        quantity: schema.tradeGrades.rawPAR,
+      })
+      .from(schema.tradeGrades)
+      .innerJoin(schema.transactions, eq(schema.tradeGrades.transactionId, schema.transactions.id))
+      .where(inArray(schema.transactions.leagueId, scope.leagueIds)),
+    db
+      .select({
+        id: sql<string>`${schema.draftGrades.draftId} || ':' || ${schema.draftGrades.pickNo}`,
+        leagueId: schema.drafts.leagueId,
+        rosterId: schema.draftGrades.rosterId,
+        quality: schema.draftGrades.blendedScore,
+        quantity: schema.draftGrades.playerProduction,
+      })
+      .from(schema.draftGrades)
+      .innerJoin(schema.drafts, eq(schema.draftGrades.draftId, schema.drafts.id))
+      .where(inArray(schema.drafts.leagueId, scope.leagueIds)),
+    db
+      .select({
+        id: schema.waiverGrades.transactionId,
+        leagueId: schema.transactions.leagueId,
+        rosterId: schema.waiverGrades.rosterId,
+        quality: schema.waiverGrades.blendedScore,
+        quantity: schema.waiverGrades.rawPAR,
+      })
+      .from(schema.waiverGrades)
+      .innerJoin(schema.transactions, eq(schema.waiverGrades.transactionId, schema.transactions.id))
+      .where(inArray(schema.transactions.leagueId, scope.leagueIds)),
+  ]);
+
+  const clean = (rows: Array<{ id: string; leagueId: string; rosterId: number; quality: number | null; quantity: number | null }>) =>
+    rows.map((r) => ({ ...r, quality: r.quality ?? 0, quantity: r.quantity ?? 0 }));
+  return { trade_score: clean(trades), draft_score: clean(drafts), waiver_score: clean(waivers) };
+}
+
+/** Per-roster pillar scores at one quality weight, via the production scorer. */
+export function scorePillar(grades: PillarGrade[], pillar: Pillar, alpha: number): RosterScores {
+  const byLeague = new Map<string, Map<string, { totalQuality: number; totalRawPAR: number; count: number }>>();
+  for (const g of grades) {
+    const league = byLeague.get(g.leagueId) ?? new Map();
+    const agg = league.get(String(g.rosterId)) ?? { totalQuality: 0, totalRawPAR: 0, count: 0 };
+    agg.totalQuality += g.quality;
+    agg.totalRawPAR += g.quantity;
+    agg.count++;
+    league.set(String(g.rosterId), agg);
+    byLeague.set(g.leagueId, league);
+  }
+
+  const scores: RosterScores = new Map();
+  for (const [leagueId, agg] of byLeague) {
+    const rows = computeQualityQuantityScores(agg, {
+      leagueId,
+      season: "",
+      metric: pillar,
+      qualityWeight: alpha,
+      countLabel: "graded",
+    });
+    for (const row of rows) scores.set(`${leagueId}:${row.managerId}`, row.value);
+  }
+  return scores;
+}
+
+/**
+ * Every graded transaction and draft pick next to its manager's MOS, so the
+ * drill-down can surface A grades on losing rosters and vice versa. Grade
+ * scores don't depend on α, so this ignores the best point.
+ */
+export function gradeDetails(
+  data: Record<Pillar, PillarGrade[]>,
+  actual: RosterScores,
+): ExperimentDetailRow[] {
+  const rows: ExperimentDetailRow[] = [];
+  for (const pillar of PILLARS) {
+    for (const g of data[pillar]) {
+      const mos = actual.get(rosterKey(g.leagueId, g.rosterId));
+      if (mos === undefined) continue;
+      rows.push({
+        kind: PILLAR_KINDS[pillar],
+        id: g.id,
+        leagueId: g.leagueId,
+        rosterId: g.rosterId,
+        predicted: round3(g.quality),
+        actual: round3(mos),
+      });
+    }
+  }
+  return rows;
+}
+
+/**
+ * Mean per-league correlation gain of one grid point over another, with a
+ * bootstrap interval resampled by league-season. Only leagues scored at
+ * both points count. Null with fewer than two such leagues.
+ */
+export function correlationGain<P>(
+  point: GridPointResult<P>,
+  baseline: GridPointResult<P>,
+): BootstrapInterval | null {
+  return meanInterval(
+    Object.entries(point.byLeague ?? {})
+      .filter(([leagueId]) => baseline.byLeague?.[leagueId] !== undefined)
+      .map(([leagueId, corr]) => ({ group: leagueId, value: corr - baseline.byLeague[leagueId] })),
+  );
+}
+
+const qualityWeightSweep = defineExperiment<QualityWeightParams, Record<Pillar, PillarGrade[]>>({
+  name: "quality-weight-sweep",
+  hypothesis:
+    "The configured quality weights (α) correlate better with MOS than pure quality averages (α=1.0)",
+  acceptanceCriteria:
+    "Configured α beats α=1.0 in Spearman correlation with MOS for ≥2 of 3 pillars, with the 95% bootstrap interval of the gain (resampled by league-season) above zero",
+  target: "mos",
+  // The family's configured α is always a grid point, so the verdict can compare it
+  grid: (config: AlgorithmConfig) =>
+    PILLARS.flatMap((pillar) =>
+      [...new Set([...ALPHA_VALUES, config.qualityWeights[pillar]])]
+        .sort((a, b) => a - b)
+        .map((alpha) => ({ pillar, alpha })),
+    ),
+  label: ({ pillar, alpha }) => `${pillar} α=${alpha}`,
+  load: loadPillarGrades,
+  predict: ({ pillar, alpha }, data) => scorePillar(data[pillar], pillar, alpha),
+  evaluate: (points: GridPointResult<QualityWeightParams>[], config: AlgorithmConfig) => {
+    const scored = points.filter((p) => p.leagues > 0);
+    if (scored.length === 0) {
+      return {
+        verdict: "inconclusive",
+        verdictReason: "No leagues with enough graded managers and MOS",
+        scorecard: { primaryMetrics: [] },
+      };
+    }
+
+    const at = (pillar: Pillar, alpha: number) =>
+      scored.find((p) => p.params.pillar === pillar && p.params.alpha === alpha);
+    const verdicts: ExperimentVerdict[] = [];
+    const primaryMetrics: ScorecardMetric[] = [];
+    const secondaryMetrics: ScorecardMetric[] = [];
+    for (const pillar of PILLARS) {
+      const configured = config.qualityWeights[pillar];
+      const current = at(pillar, configured);
+      const pure = at(pillar, 1);
+      if (current && pure) {
+        const gain = correlationGain(current, pure);
+        verdicts.push(intervalVerdict(gain, 0));
+        primaryMetrics.push(
+          metric(`${pillar} corr gain (α=${configured} vs 1)`, gain?.estimate ?? 0, "spearman", {
+            interval: gain,
+            threshold: 0,
+          }),
+        );
+        secondaryMetrics.push(
+          metric(`${pillar} corr (α=${configured})`, current.correlation, "spearman", {
+            baseline: pure.correlation,
+          }),
+        );
+      }
+      const best = scored
+        .filter((p) => p.params.pillar === pillar)
+        .sort((a, b) => b.correlation - a.correlation)[0];
+      if (best) secondaryMetrics.push(metric(`${pillar} optimal α`, best.params.alpha, "α"));
+    }
+
+    // A pillar whose interval straddles zero could still go either way
+    const wins = verdicts.filter((v) => v === "confirmed").length;
+    const open = verdicts.filter((v) => v === "inconclusive").length;
+    return {
+      verdict: combineVerdicts(verdicts, 2),
+      verdictReason:
+        `Configured α beat pure average in ${wins}/${verdicts.length} pillars` +
+        (open > 0 ? `; ${open} too close to call at 95%` : ""),
+      scorecard: { primaryMetrics, secondaryMetrics },
+    };
+  },
+  details: (_best, data, actual) => gradeDetails(data, actual),
+});
+
+// ============================================================
+// Registry
+// ============================================================
+
+export const EXPERIMENTS: ExperimentSpec[] = [qualityWeightSweep];
+
+export function getExperiment(name: string): ExperimentSpec | undefined {
+  return EXPERIMENTS.find((e) => e.name === name);
+}
+
+export interface ExperimentSummary {
+  name: string;
+  hypothesis: string;
+  acceptanceCriteria: string;
+  target: string;
+  gridSize: number;
+}
+
+/** Registry entries without their functions, for the API. Grids are sized against the global active config. */
+export async function listExperiments(): Promise<ExperimentSummary[]> {
+  const config = await getActiveConfig();
+  return EXPERIMENTS.map((e) => ({
+    name: e.name,
+    hypothesis: e.hypothesis,
+    acceptanceCriteria: e.acceptanceCriteria,
+    target: e.target,
+    gridSize: e.grid(config).length,
+  }));
+}
@@ -0,0 +1,462 @@
+/**
+ * In-app experiment runner.
+ *
+ * Runs a registered parameter sweep (see experimentRegistry) through the
+ * chunked job executor, so an eval can be started and watched from
+ * /experiments instead of a laptop. Each run owns:
+ *
+ *   - an `experiment_runs` row holding the hypothesis, grid, per-point
+ *     results (`metrics.points`), the final verdict / scorecard and the
+ *     drill-down rows (`rawData`) behind GET /api/experiments/[id];
+ *   - a `sync_jobs` row (`type = "experiment"`, `ref` = run id) whose
+ *     stage cursor drives the chunked executor.
+ *
+ * Stages: one per grid point, then `evaluate`. A grid-point stage scores
+ * every league-season roster under that point's parameters, Spearman-
+ * correlates the scores with the target metric within each league, and
+ * merges the averaged correlation into `metrics.points`. The merge is a
+ * single jsonb update, so re-running a stage (a retried or concurrent tick)
+ * just overwrites its own entry. `evaluate` judges the sweep against the
+ * spec's acceptance criteria and closes the run.
+ *
+ * The grid and the config the verdict compares against come from the
+ * run's family's active algorithm config, resolved once at start and
+ * snapshotted in `experiment_runs.config`, so a promotion mid-run doesn't
+ * shift the stage list under it.
+ */
+
+import { and, desc, eq, sql } from "drizzle-orm";
+import { getDb, schema } from "@/db";
+import { runChunk, type ChunkedStage } from "@/services/chunkedSync";
+import { releaseSyncLock } from "@/services/syncLock";
+import { computeFamilyMOS } from "@/services/outcomeScore";
+import { getExperiment } from "@/services/experimentRegistry";
+import { getActiveConfig, resolveActiveConfig, type AlgorithmConfig } from "@/services/algorithmConfig";
+import { round3, spearmanCorrelation } from "@/lib/stats";
+import type { ExperimentVerdict, Scorecard } from "@/lib/scorecard";
+
+// ============================================================
+// Types
+// ============================================================
+
+/** Scores keyed by `${leagueId}:${rosterId}`. */
+export type RosterScores = Map<string, number>;
+
+/** Leagues an experiment run covers. */
+export interface ExperimentScope {
+  familyId: string | null;
+  leagueIds: string[];
+}
+
+/** Outcome metrics a sweep can be correlated against. */
+export type ExperimentTarget = "mos";
+
+export interface GridPointResult<P> {
+  label: string;
+  params: P;
+  /** Mean within-league Spearman correlation with the target */
+  correlation: number;
+  /** Leagues with at least MIN_LEAGUE_SAMPLES matched rosters */
+  leagues: number;
+  /** Each of those leagues' correlation — the groups a bootstrap resamples */
+  byLeague: Record<string, number>;
+}
+
+/**
+ * One row of a run's `rawData` drill-down: a predicted score next to the
+ * target it should have predicted. Specs may add fields (ids, pillar) for
+ * filtering.
+ */
+export interface ExperimentDetailRow {
+  leagueId: string;
+  rosterId: number;
+  predicted: number;
+  actual: number;
+  [field: string]: unknown;
+}
+
+export interface ExperimentEvaluation {
+  verdict: ExperimentVerdict;
+  verdictReason: string;
+  scorecard: Scorecard;
+}
+
+/**
+ * A registered parameter sweep. `load` runs once per tick and feeds every
+ * grid point; `predict` must be pure so a retried stage reproduces its
+ * result.
+ */
+export interface ExperimentSpec<P = unknown, D = unknown> {
+  name: string;
+  hypothesis: string;
+  acceptanceCriteria: string;
+  target: ExperimentTarget;
+  /** Grid points for a run against `config`, the family's active config */
+  grid: (config: AlgorithmConfig) => P[];
+  /** Stable label for a grid point — the key in `metrics.points` */
+  label: (params: P) => string;
+  load: (scope: ExperimentScope) => Promise<D>;
+  predict: (params: P, data: D) => RosterScores;
+  evaluate: (points: GridPointResult<P>[], config: AlgorithmConfig) => ExperimentEvaluation;
+  /**
+   * Drill-down rows stored as the run's `rawData`. Defaults to one row per
+   * roster at the best-correlated grid point.
+   */
+  details?: (best: GridPointResult<P>, data: D, actual: RosterScores) => ExperimentDetailRow[];
+}
+
+/** What a run was started against, as snapshotted in `experiment_runs.config`. */
+export interface ExperimentRunContext<P = unknown> {
+  familyId: string | null;
+  grid: P[];
+  config: AlgorithmConfig;
+}
+
+export interface ExperimentJobStatus {
+  runId: string;
+  jobId: string;
+  status: "in_progress" | "completed" | "failed";
+  stagesCompleted: number;
+  stagesTotal: number;
+  currentStageLabel: string | null;
+  error?: string | null;
+}
+
+export const EXPERIMENT_JOB_TYPE = "experiment";
+
+/** Fewer matched rosters than this and a league's correlation is noise. */
+const MIN_LEAGUE_SAMPLES = 3;
+
+// ============================================================
+// Pure helpers
+// ============================================================
+
+export function rosterKey(leagueId: string, rosterId: number): string {
+  return `${leagueId}:${rosterId}`;
+}
+
+/**
+ * Mean within-league Spearman correlation between predicted and actual
+ * roster scores, plus each league's own correlation. Leagues with fewer
+ * than MIN_LEAGUE_SAMPLES matched rosters are skipped.
+ */
+export function correlateByLeague(
+  predicted: RosterScores,
+  actual: RosterScores,
+): Pick<GridPointResult<unknown>, "correlation" | "leagues" | "byLeague"> {
+  const byLeague = new Map<string, { x: number[]; y: number[] }>();
+  for (const [key, score] of predicted) {
+    const target = actual.get(key);
+    if (target === undefined) continue;
+    const leagueId = key.slice(0, key.lastIndexOf(":"));
+    const pairs = byLeague.get(leagueId) ?? { x: [], y: [] };
+    pairs.x.push(score);
+    pairs.y.push(target);
+    byLeague.set(leagueId, pairs);
+  }
+
+  const correlations: number[] = [];
+  const perLeague: Record<string, number> = {};
+  for (const [leagueId, { x, y }] of byLeague) {
+    if (x.length < MIN_LEAGUE_SAMPLES) continue;
+    const correlation = spearmanCorrelation(x, y);
+    correlations.push(correlation);
+    perLeague[leagueId] = round3(correlation);
+  }
+  if (correlations.length === 0) return { correlation: 0, leagues: 0, byLeague: {} };
+  const mean = correlations.reduce((a, b) => a + b, 0) / correlations.length;
+  return { correlation: round3(mean), leagues: correlations.length, byLeague: perLeague };
+}
+
+/** Default drill-down: each matched roster's predicted vs. actual score. */
+export function rosterDetails<P>(
+  point: GridPointResult<P>,
+  predicted: RosterScores,
+  actual: RosterScores,
+): ExperimentDetailRow[] {
+  const rows: ExperimentDetailRow[] = [];
+  for (const [key, score] of predicted) {
+    const target = actual.get(key);
+    if (target === undefined) continue;
+    const sep = key.lastIndexOf(":");
+    rows.push({
+      point: point.label,
+      leagueId: key.slice(0, sep),
+      rosterId: Number(key.slice(sep + 1)),
+      predicted: round3(score),
+      actual: round3(target),
+    });
+  }
+  return rows;
+}
+
+// ============================================================
+// Data loading
+// ============================================================
+
+async function loadScope(familyId: string | null): Promise<ExperimentScope> {
+  const db = getDb();
+  const members = await db
+    .select({ leagueId: schema.leagueFamilyMembers.leagueId })
+    .from(schema.leagueFamilyMembers)
+    .where(familyId ? eq(schema.leagueFamilyMembers.familyId, familyId) : undefined);
+  return { familyId, leagueIds: members.map((m) => m.leagueId) };
+}
+
+async function loadTarget(target: ExperimentTarget, scope: ExperimentScope): Promise<RosterScores> {
+  switch (target) {
+    case "mos": {
+      const db = getDb();
+      const familyIds = scope.familyId
+        ? [scope.familyId]
+        : (await db.select({ id: schema.leagueFamilies.id }).from(schema.leagueFamilies)).map((f) => f.id);
+      const scores: RosterScores = new Map();
+      for (const familyId of familyIds) {
+        for (const s of await computeFamilyMOS(familyId)) {
+          scores.set(rosterKey(s.leagueId, s.rosterId), s.mos);
+        }
+      }
+      return scores;
+    }
+  }
+}
+
+// ============================================================
+// Stages
+// ============================================================
+
+/**
+ * Build the stage list for a run: one stage per grid point, then
+ * `evaluate`. Data and target are loaded lazily, once per tick.
+ */
+export function buildExperimentStages<P, D>(
+  spec: ExperimentSpec<P, D>,
+  runId: string,
+  { familyId, grid, config }: ExperimentRunContext<P>,
+): ChunkedStage[] {
+  let loaded: Promise<{ data: D; actual: RosterScores }> | null = null;
+  const load = () => {
+    loaded ??= (async () => {
+      const scope = await loadScope(familyId);
+      const [data, actual] = await Promise.all([spec.load(scope), loadTarget(spec.target, scope)]);
+      return { data, actual };
+    })();
+    return loaded;
+  };
+
+  const db = getDb();
+  const stages: ChunkedStage[] = grid.map((params, i) => {
+    const label = spec.label(params);
+    return {
+      key: `point:${label}`,
+      label: `${label} (${i + 1} of ${grid.length})`,
+      run: async () => {
+        const { data, actual } = await load();
+        const result: GridPointResult<P> = {
+          label,
+          params,
+          ...correlateByLeague(spec.predict(params, data), actual),
+        };
+        await db
+          .update(schema.experimentRuns)
+          .set({
+            metrics: sql`coalesce(${schema.experimentRuns.metrics}, '{}'::jsonb) || jsonb_build_object('points', coalesce(${schema.experimentRuns.metrics}->'points', '{}'::jsonb) || jsonb_build_object(${label}::text, ${JSON.stringify(result)}::jsonb))`,
+          })
+          .where(eq(schema.experimentRuns.id, runId));
+      },
+    };
+  });
+
+  stages.push({
+    key: "evaluate",
+    label: "Scoring the verdict",
+    run: async () => {
+      const [run] = await db
+        .select({ metrics: schema.experimentRuns.metrics })
+        .from(schema.experimentRuns)
+        .where(eq(schema.experimentRuns.id, runId))
+        .limit(1);
+      const stored = ((run?.metrics as { points?: Record<string, GridPointResult<P>> } | null)?.points) ?? {};
+      // Grid order, not jsonb key order
+      const points = grid
+        .map((params) => stored[spec.label(params)])
+        .filter((p): p is GridPointResult<P> => p !== undefined);
+
+      const best = points.reduce<GridPointResult<P> | null>(
+        (a, p) => (a === null || p.correlation > a.correlation ? p : a),
+        null,
+      );
+      let rawData: ExperimentDetailRow[] = [];
+      if (best) {
+        const { data, actual } = await load();
+        rawData = spec.details
+          ? spec.details(best, data, actual)
+          : rosterDetails(best, spec.predict(best.params, data), actual);
+      }
+
+      const evaluation = spec.evaluate(points, config);
+      await db
+        .update(schema.experimentRuns)
+        .set({
+          verdict: evaluation.verdict,
+          verdictReason: evaluation.verdictReason,
+          scorecard: evaluation.scorecard,
+          rawData,
+          status: "success",
+          finishedAt: new Date(),
+        })
+        .where(eq(schema.experimentRuns.id, runId));
+    },
+  });
+
+  return stages;
+}
+
+// ============================================================
+// Start / tick
+// ============================================================
+
+/**
+ * Start a registered experiment: insert the run and its job row. Returns
+ * null when no experiment has that name. Work happens on tick.
+ */
+export async function startExperiment(
+  name: string,
+  opts: { familyId?: string | null } = {},
+): Promise<{ runId: string; jobId: string } | null> {
+  const spec = getExperiment(name);
+  if (!spec) return null;
+  const db = getDb();
+  const { config, version } = await resolveActiveConfig(opts.familyId);
+  const grid = spec.grid(config);
+
+  const [run] = await db
+    .insert(schema.experimentRuns)
+    .values({
+      name: spec.name,
+      hypothesis: spec.hypothesis,
+      acceptanceCriteria: spec.acceptanceCriteria,
+      config: { target: spec.target, grid, runner: "app", configVersion: version, algorithmConfig: config },
+      familyId: opts.familyId ?? null,
+      status: "running",
+    })
+    .returning({ id: schema.experimentRuns.id });
+
+  const [job] = await db
+    .insert(schema.syncJobs)
+    .values({
+      type: EXPERIMENT_JOB_TYPE,
+      ref: run.id,
+      status: "running",
+      trigger: "manual",
+      stagesCompleted: 0,
+      stagesTotal: grid.length + 1,
+    })
+    .returning({ id: schema.syncJobs.id });
+
+  return { runId: run.id, jobId: job.id };
+}
+
+/**
+ * Advance a run's job until `deadlineAt`. Returns null when the run has
+ * no job. A stage failure fails both the job and the run.
+ */
+export async function tickExperiment(
+  runId: string,
+  deadlineAt: number,
+): Promise<ExperimentJobStatus | null> {
+  const db = getDb();
+  const [job] = await db
+    .select({
+      id: schema.syncJobs.id,
+      status: schema.syncJobs.status,
+      stagesCompleted: schema.syncJobs.stagesCompleted,
+      stagesTotal: schema.syncJobs.stagesTotal,
+      currentStage: schema.syncJobs.currentStage,
+      error: schema.syncJobs.error,
+    })
+    .from(schema.syncJobs)
+    .where(and(eq(schema.syncJobs.type, EXPERIMENT_JOB_TYPE), eq(schema.syncJobs.ref, runId)))
+    .orderBy(desc(schema.syncJobs.startedAt))
+    .limit(1);
+  if (!job) return null;
+
+  if (job.status !== "running") {
+    return {
+      runId,
+      jobId: job.id,
+      status: job.status === "success" ? "completed" : "failed",
+      stagesCompleted: job.stagesCompleted ?? 0,
+      stagesTotal: job.stagesTotal ?? 0,
+      currentStageLabel: job.currentStage ?? null,
+      error: job.error,
+    };
+  }
+
+  const [run] = await db
+    .select({
+      name: schema.experimentRuns.name,
+      familyId: schema.experimentRuns.familyId,
+      config: schema.experimentRuns.config,
+    })
+    .from(schema.experimentRuns)
+    .where(eq(schema.experimentRuns.id, runId))
+    .limit(1);
+  const spec = run ? getExperiment(run.name) : undefined;
+  if (!run || !spec) {
+    const error = run ? `Experiment ${run.name} is no longer registered` : "Run not found";
+    await failRun(runId, job.id, error);
+    return {
+      runId,
+      jobId: job.id,
+      status: "failed",
+      stagesCompleted: job.stagesCompleted ?? 0,
+      stagesTotal: job.stagesTotal ?? 0,
+      currentStageLabel: null,
+      error,
+    };
+  }
+
+  // Runs started before the config snapshot fall back to today's config
+  const snapshot = (run.config ?? {}) as { grid?: unknown[]; algorithmConfig?: AlgorithmConfig };
+  const config = snapshot.algorithmConfig ?? (await getActiveConfig(run.familyId));
+  const stages = buildExperimentStages(spec, runId, {
+    familyId: run.familyId,
+    grid: snapshot.grid ?? spec.grid(config),
+    config,
+  });
+  try {
+    const result = await runChunk(job.id, stages, { deadlineAt });
+    if (result.status === "completed") {
+      await releaseSyncLock(job.id, "success", undefined, { stagesCompleted: result.stagesCompleted });
+    }
+    return {
+      runId,
+      jobId: job.id,
+      status: result.status,
+      stagesCompleted: result.stagesCompleted,
+      stagesTotal: result.stagesTotal,
+      currentStageLabel: result.currentStageLabel,
+    };
+  } catch (err) {
+    const error = err instanceof Error ? err.message : String(err);
+    await failRun(runId, job.id, error);
+    return {
+      runId,
+      jobId: job.id,
+      status: "failed",
+      stagesCompleted: job.stagesCompleted ?? 0,
+      stagesTotal: stages.length,
+      currentStageLabel: null,
+      error,
+    };
+  }
+}
+
+async function failRun(runId: string, jobId: string, error: string): Promise<void> {
+  await releaseSyncLock(jobId, "failed", error);
+  await getDb()
+    .update(schema.experimentRuns)
+    .set({ status: "failed", error, finishedAt: new Date() })
+    .where(eq(schema.experimentRuns.id, runId));
+}
@@ -0,0 +1,359 @@
+/**
+ * Data integrity checks for a league family.
+ *
+ * Sync writes each table from its own Sleeper endpoint, so a partial or
+ * interrupted run can leave them disagreeing without any single write
+ * failing. These reconciliations look for the disagreements we know how
+ * to spot:
+ *
+ *   - `roster-reconcile` — replaying a league's `asset_events` should
+ *     leave every player on the roster `rosters.players` has them on.
+ *   - `draft-slot-map` — a completed draft with no `slotToRosterId` can't
+ *     map picks back to their original owners.
+ *   - `matchup-scores` — a played week has `matchups` rows but no
+ *     `player_scores`.
+ *   - `player-gsis` — a rostered player has no `gsisId`, so nflverse stats
+ *     never join to them.
+ *
+ * The checks are pure functions over loaded rows; `checkFamilyIntegrity`
+ * does the loading. Issues carry a heal action when one exists —
+ * rebuilding a league's asset events or re-fetching a single week's
+ * matchups — and `healIntegrityIssues` runs each distinct action once.
+ * The other two are reported only: `npm run backfill:slot-to-roster-id`
+ * and the player sync already own those repairs.
+ */
+
+import { getDb, schema } from "@/db";
+import { eq, inArray } from "drizzle-orm";
+import { buildAssetEvents } from "@/services/assetEvents";
+import { syncMatchupWeek } from "@/services/sync";
+
+export type IntegrityCheck =
+  | "roster-reconcile"
+  | "draft-slot-map"
+  | "matchup-scores"
+  | "player-gsis";
+
+export const INTEGRITY_CHECKS: IntegrityCheck[] = [
+  "roster-reconcile",
+  "draft-slot-map",
+  "matchup-scores",
+  "player-gsis",
+];
+
+export type HealAction =
+  | { kind: "rebuild-asset-events"; leagueId: string; season: string }
+  | { kind: "resync-matchup-week"; leagueId: string; week: number };
+
+export interface IntegrityIssue {
+  check: IntegrityCheck;
+  leagueId: string | null;
+  season: string | null;
+  message: string;
+  playerId?: string;
+  draftId?: string;
+  week?: number;
+  heal?: HealAction;
+}
+
+export interface IntegrityReport {
+  familyId: string;
+  checkedAt: string;
+  leagues: Array<{ leagueId: string; season: string }>;
+  /** Issue count per check, zero included, so a clean run reads as clean. */
+  counts: Record<IntegrityCheck, number>;
+  issues: IntegrityIssue[];
+}
+
+export interface HealResult {
+  action: HealAction;
+  ok: boolean;
+  error?: string;
+}
+
+export interface LeagueRef {
+  leagueId: string;
+  season: string;
+}
+
+// --- Checks -------------------------------------------------------------
+
+export interface PlayerEventRow {
+  leagueId: string;
+  week: number;
+  playerId: string | null;
+  toRosterId: number | null;
+  createdAt: number | null;
+}
+
+export interface RosterRow {
+  leagueId: string;
+  rosterId: number;
+  players: unknown;
+}
+
+function rosterPlayers(players: unknown): string[] {
+  return Array.isArray(players) ? players.filter((p): p is string => typeof p === "string") : [];
+}
+
+/**
+ * Replay each league's player events in order and compare where they leave
+ * each player with `rosters.players`. Players with no events in the league
+ * (carried over from last season) are skipped; so are leagues without
+ * roster rows, which haven't synced far enough to compare.
+ */
+export function checkRosterReconcile(
+  leagues: LeagueRef[],
+  events: PlayerEventRow[],
+  rosters: RosterRow[]
+): IntegrityIssue[] {
+  const issues: IntegrityIssue[] = [];
+
+  for (const { leagueId, season } of leagues) {
+    const leagueRosters = rosters.filter((r) => r.leagueId === leagueId);
+    if (leagueRosters.length === 0) continue;
+
+    const rosteredOn = new Map<string, number>();
+    for (const r of leagueRosters) {
+      for (const p of rosterPlayers(r.players)) rosteredOn.set(p, r.rosterId);
+    }
+
+    const holder = new Map<string, number | null>();
+    const ordered = events
+      .filter((e) => e.leagueId === leagueId && e.playerId)
+      .sort((a, b) => a.week - b.week || (a.createdAt ?? 0) - (b.createdAt ?? 0));
+    for (const e of ordered) holder.set(e.playerId!, e.toRosterId);
+
+    const heal: HealAction = { kind: "rebuild-asset-events", leagueId, season };
+    for (const [playerId, expected] of holder) {
+      const actual = rosteredOn.get(playerId) ?? null;
+      if (expected === actual) continue;
+      const message =
+        expected === null
+          ? `player ${playerId} was last dropped but is on roster ${actual}`
+          : actual === null
+            ? `player ${playerId} was last moved to roster ${expected} but is on no roster`
+            : `player ${playerId} was last moved to roster ${expected} but is on roster ${actual}`;
+      issues.push({ check: "roster-reconcile", leagueId, season, playerId, message, heal });
+    }
+  }
+  return issues;
+}
+
+export interface DraftRow {
+  id: string;
+  leagueId: string;
+  season: string;
+  status: string | null;
+  slotToRosterId: unknown;
+}
+
+export function checkDraftSlotMaps(drafts: DraftRow[]): IntegrityIssue[] {
+  return drafts
+    .filter((d) => d.status === "complete")
+    .filter((d) => {
+      const map = d.slotToRosterId;
+      return !map || typeof map !== "object" || Object.keys(map).length === 0;
+    })
+    .map((d) => ({
+      check: "draft-slot-map" as const,
+      leagueId: d.leagueId,
+      season: d.season,
+      draftId: d.id,
+      message: `completed draft ${d.id} has no slotToRosterId; run backfill:slot-to-roster-id`,
+    }));
+}
+
+export interface MatchupWeekRow {
+  leagueId: string;
+  week: number;
+  points: number | null;
+}
+
+/**
+ * Weeks where some team scored but no `player_scores` rows exist. Weeks
+ * where every team sits on zero haven't been played yet, so missing scores
+ * there are expected.
+ */
+export function checkMatchupScores(
+  leagues: LeagueRef[],
+  matchups: MatchupWeekRow[],
+  scoredWeeks: Array<{ leagueId: string; week: number }>
+): IntegrityIssue[] {
+  const seasonOf = new Map(leagues.map((l) => [l.leagueId, l.season]));
+  const scored = new Set(scoredWeeks.map((w) => `${w.leagueId}:${w.week}`));
+  const played = new Map<string, { leagueId: string; week: number }>();
+  for (const m of matchups) {
+    if ((m.points ?? 0) > 0) played.set(`${m.leagueId}:${m.week}`, m);
+  }
+
+  return [...played.entries()]
+    .filter(([key]) => !scored.has(key))
+    .map(([, { leagueId, week }]) => ({
+      check: "matchup-scores" as const,
+      leagueId,
+      season: seasonOf.get(leagueId) ?? null,
+      week,
+      message: `week ${week} has matchups but no player scores`,
+      heal: { kind: "resync-matchup-week" as const, leagueId, week },
+    }))
+    .sort((a, b) => a.leagueId.localeCompare(b.leagueId) || a.week - b.week);
+}
+
+export interface PlayerRow {
+  id: string;
+  name: string;
+  position: string | null;
+  gsisId: string | null;
+}
+
+/** Team defenses have no GSIS id by design. */
+export function checkPlayerGsis(players: PlayerRow[]): IntegrityIssue[] {
+  return players
+    .filter((p) => !p.gsisId && p.position !== "DEF")
+    .map((p) => ({
+      check: "player-gsis" as const,
+      leagueId: null,
+      season: null,
+      playerId: p.id,
+      message: `${p.name} (${p.position ?? "?"}) has no gsisId`,
+    }));
+}
+
+// --- Loading ------------------------------------------------------------
+
+/** Run every check against a family's synced data. */
+export async function checkFamilyIntegrity(
+  familyId: string,
+  now: Date = new Date()
+): Promise<IntegrityReport> {
+  const db = getDb();
+  const leagues = (
+    await db
+      .select({
+        leagueId: schema.leagueFamilyMembers.leagueId,
+        season: schema.leagueFamilyMembers.season,
+      })
+      .from(schema.leagueFamilyMembers)
+      .where(eq(schema.leagueFamilyMembers.familyId, familyId))
+  ).sort((a, b) => Number(a.season) - Number(b.season));
+
+  const issues: IntegrityIssue[] = [];
+  const leagueIds = leagues.map((l) => l.leagueId);
+
+  if (leagueIds.length > 0) {
+    const [events, rosters, drafts, matchups, scoredWeeks] = await Promise.all([
+      db
+        .select({
+          leagueId: schema.assetEvents.leagueId,
+          week: schema.assetEvents.week,
+          playerId: schema.assetEvents.playerId,
+          toRosterId: schema.assetEvents.toRosterId,
+          createdAt: schema.assetEvents.createdAt,
+        })
+        .from(schema.assetEvents)
+        .where(inArray(schema.assetEvents.leagueId, leagueIds)),
+      db
+        .select({
+          leagueId: schema.rosters.leagueId,
+          rosterId: schema.rosters.rosterId,
+          players: schema.rosters.players,
+        })
+        .from(schema.rosters)
+        .where(inArray(schema.rosters.leagueId, leagueIds)),
+      db
+        .select({
+          id: schema.drafts.id,
+          leagueId: schema.drafts.leagueId,
+          season: schema.drafts.season,
+          status: schema.drafts.status,
+          slotToRosterId: schema.drafts.slotToRosterId,
+        })
+        .from(schema.drafts)
+        .where(inArray(schema.drafts.leagueId, leagueIds)),
+      db
+        .select({
+          leagueId: schema.matchups.leagueId,
+          week: schema.matchups.week,
+          points: schema.matchups.points,
+        })
+        .from(schema.matchups)
+        .where(inArray(schema.matchups.leagueId, leagueIds)),
+      db
+        .selectDistinct({
+          leagueId: schema.playerScores.leagueId,
+          week: schema.playerScores.week,
+        })
+        .from(schema.playerScores)
+        .where(inArray(schema.playerScores.leagueId, leagueIds)),
+    ]);
+
+    issues.push(...checkRosterReconcile(leagues, events, rosters));
+    issues.push(...checkDraftSlotMaps(drafts));
+    issues.push(...checkMatchupScores(leagues, matchups, scoredWeeks));
+
+    const rosteredIds = [...new Set(rosters.flatMap((r) => rosterPlayers(r.players)))];
+    if (rosteredIds.length > 0) {
+      const players = await db
+        .select({
+          id: schema.players.id,
+          name: schema.players.name,
+          position: schema.players.position,
+          gsisId: schema.players.gsisId,
+        })
+        .from(schema.players)
+        .where(inArray(schema.players.id, rosteredIds));
+      issues.push(...checkPlayerGsis(players));
+    }
+  }
+
+  const counts = Object.fromEntries(INTEGRITY_CHECKS.map((c) => [c, 0])) as Record<
+    IntegrityCheck,
+    number
+  >;
+  for (const issue of issues) counts[issue.check]++;
+
+  return { familyId, checkedAt: now.toISOString(), leagues, counts, issues };
+}
+
+// --- Healing ------------------------------------------------------------
+
+function healKey(action: HealAction): string {
+  return action.kind === "rebuild-asset-events"
+    ? `${action.kind}:${action.leagueId}`
+    : `${action.kind}:${action.leagueId}:${action.week}`;
+}
+
+/** Distinct heal actions across a report's issues, in issue order. */
+export function planHeals(issues: IntegrityIssue[]): HealAction[] {
+  const seen = new Map<string, HealAction>();
+  for (const issue of issues) {
+    if (issue.heal && !seen.has(healKey(issue.heal))) seen.set(healKey(issue.heal), issue.heal);
+  }
+  return [...seen.values()];
+}
+
+/**
+ * Run each distinct heal action once. A failed action is recorded and the
+ * rest still run. Matchup weeks go first, so an asset event rebuild in the
+ * same league sees the repaired data.
+ */
+export async function healIntegrityIssues(issues: IntegrityIssue[]): Promise<HealResult[]> {
+  const actions = planHeals(issues).sort(
+    (a, b) => Number(a.kind === "rebuild-asset-events") - Number(b.kind === "rebuild-asset-events")
+  );
+  const results: HealResult[] = [];
+  for (const action of actions) {
+    try {
+      if (action.kind === "rebuild-asset-events") {
+        await buildAssetEvents(action.leagueId, action.season);
+      } else {
+        await syncMatchupWeek(action.leagueId, action.week);
+      }
+      results.push({ action, ok: true });
+    } catch (err) {
+      results.push({ action, ok: false, error: err instanceof Error ? err.message : String(err) });
+    }
+  }
+  return results;
+}
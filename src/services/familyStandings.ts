@@ -1,13 +1,19 @@
 import { getDb, schema } from "@/db";
 import { inArray } from "drizzle-orm";
 import type { SleeperBracketMatchup } from "@/lib/sleeper";
-import { parsePlayoffResults } from "./outcomeScore";
+import { computeFinalStandings, parsePlayoffResults } from "./outcomeScore";
 
 export interface FamilyMemberRef {
   leagueId: string;
   season: string;
 }
 
+export interface SeasonFinish {
+  season: string;
+  /** 1..N final finish including consolation placements */
+  place: number;
+}
+
 export interface AllTimeStanding {
   ownerId: string;
   // Most recent rosterId for the owner — used so demo-mode swaps can resolve
@@ -20,6 +26,7 @@ export interface AllTimeStanding {
   fptsAgainst: number;
   seasonsPlayed: number;
   championshipYears: string[];
+  finishes: SeasonFinish[];
 }
 
 interface StandingsRow {
@@ -73,6 +80,7 @@ export async function getAllTimeStandings(
         id: schema.leagues.id,
         settings: schema.leagues.settings,
         winnersBracket: schema.leagues.winnersBracket,
+        losersBracket: schema.leagues.losersBracket,
       })
       .from(schema.leagues)
       .where(inArray(schema.leagues.id, leagueIds)),
@@ -113,6 +121,7 @@ export async function getAllTimeStandings(
         fptsAgainst: r.fptsAgainst ?? 0,
         seasonsPlayed: 1,
         championshipYears: [],
+        finishes: [],
       });
     }
   }
@@ -120,19 +129,33 @@ export async function getAllTimeStandings(
   for (const row of leagueRows) {
     const settings = row.settings as Record<string, unknown> | null;
     const numPlayoffTeams = (settings?.playoff_teams as number) ?? 6;
+    const season = seasonByLeague.get(row.id);
+    if (!season) continue;
+
+    const finalStandings = computeFinalStandings(
+      rosterRows.filter((r) => r.leagueId === row.id),
+      row.winnersBracket as SleeperBracketMatchup[] | null,
+      row.losersBracket as SleeperBracketMatchup[] | null,
+      numPlayoffTeams,
+    );
+    for (const standing of finalStandings) {
+      const ownerId = ownerByRoster.get(`${row.id}:${standing.rosterId}`);
+      if (ownerId) byOwner.get(ownerId)?.finishes.push({ season, place: standing.place });
+    }
+
     const champRosterId = getChampionRosterFromBracket(
       row.winnersBracket as SleeperBracketMatchup[] | null,
       numPlayoffTeams,
     );
     if (champRosterId == null) continue;
     const ownerId = ownerByRoster.get(`${row.id}:${champRosterId}`);
-    const season = seasonByLeague.get(row.id);
-    if (!ownerId || !season) continue;
+    if (!ownerId) continue;
     byOwner.get(ownerId)?.championshipYears.push(season);
   }
 
   for (const owner of byOwner.values()) {
     owner.championshipYears.sort();
+    owner.finishes.sort((a, b) => a.season.localeCompare(b.season));
   }
 
   return Array.from(byOwner.values()).sort(compareStandings);
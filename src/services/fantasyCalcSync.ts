@@ -1,6 +1,6 @@
 import { getDb, schema } from "@/db";
 import { eq, and, sql } from "drizzle-orm";
-import { getFantasyCalcValues } from "@/lib/fantasycalc";
+import { getFantasyCalcValues, fantasyCalcPickId } from "@/lib/fantasycalc";
 import { recordSyncBreadcrumb } from "@/lib/observability/syncBreadcrumb";
 import type { SyncTrigger } from "@/lib/observability/syncBreadcrumb";
 
@@ -159,7 +159,7 @@ async function runSyncFantasyCalcForConfig(
       .insert(schema.fantasyCalcValues)
       .values(
         batch.map((v) => ({
-          playerId: `PICK_${v.player.name.replace(/\s+/g, "_")}`,
+          playerId: fantasyCalcPickId(v.player.name),
           isSuperFlex,
           ppr,
           numTeams,
@@ -193,6 +193,44 @@ async function runSyncFantasyCalcForConfig(
       });
   }
 
+  // Append the same fetch to the history table. The upserts above overwrite
+  // the latest snapshot; history keeps every fetch so grading can look up
+  // values as of a transaction's date (see loadFantasyCalcSnapshotAsOf).
+  const historyRows = [
+    ...withSleeperId.map((v) => ({
+      playerId: v.player.sleeperId!,
+      playerName: v.player.name,
+      value: v.value,
+      rank: v.overallRank,
+      positionRank: v.positionRank,
+      position: v.player.position,
+      team: v.player.maybeTeam,
+    })),
+    ...pickEntries.map((v) => ({
+      playerId: fantasyCalcPickId(v.player.name),
+      playerName: v.player.name,
+      value: v.value,
+      rank: v.overallRank,
+      positionRank: v.positionRank,
+      position: "PICK",
+      team: null,
+    })),
+  ];
+  for (let i = 0; i < historyRows.length; i += BATCH_SIZE) {
+    const batch = historyRows.slice(i, i + BATCH_SIZE);
+    await db.insert(schema.fantasyCalcValueHistory).values(
+      batch.map((row) => ({
+        ...row,
+        isSuperFlex,
+        ppr,
+        numTeams,
+        numQbs,
+        fetchedAt,
+        source: "api",
+      })),
+    );
+  }
+
   console.log(
     `[fantasyCalcSync] Synced ${withSleeperId.length} players + ${pickEntries.length} picks (ppr=${ppr}, sf=${isSuperFlex}, teams=${numTeams}, qbs=${numQbs})`,
   );
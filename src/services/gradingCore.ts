@@ -326,7 +326,7 @@ export function normalizeWithinLeague(values: number[]): number[] {
 // ============================================================
 
 /** Per-pillar quality weights — sourced from DEFAULT_CONFIG for backwards compat */
-import { DEFAULT_CONFIG } from "@/services/algorithmConfig";
+import { DEFAULT_CONFIG, type AlgorithmConfig } from "@/services/algorithmConfig";
 export const QUALITY_WEIGHTS: Record<string, number> = DEFAULT_CONFIG.qualityWeights;
 
 /**
@@ -342,6 +342,8 @@ export function computeQualityQuantityScores(
     metric: string;
     qualityWeight: number;
     countLabel: string;
+    /** Config version stamped on the rows (see resolveActiveConfig) */
+    configVersion?: string | null;
   },
 ): Array<typeof schema.managerMetrics.$inferInsert> {
   const entries = Array.from(managerAgg.entries()).filter(
@@ -387,6 +389,7 @@ export function computeQualityQuantityScores(
         avgQuality: Math.round((agg.totalQuality / agg.count) * 10) / 10,
         totalPAR: Math.round(agg.totalRawPAR * 10) / 10,
       },
+      configVersion: opts.configVersion ?? null,
       computedAt: now,
     };
   });
@@ -1003,6 +1006,33 @@ export async function loadLeagueOwnerRosters(
   return result;
 }
 
+// ============================================================
+// Grader run options
+// ============================================================
+
+/** A letter grade produced by a dry run instead of being written. */
+export interface DryRunGrade {
+  kind: "trade" | "draft" | "waiver";
+  /** Transaction ID, or `draftId:pickNo` for draft picks */
+  id: string;
+  leagueId: string;
+  rosterId: number;
+  score: number;
+  grade: string;
+}
+
+/** Options shared by the trade, draft and waiver graders. */
+export interface GradeRunOptions {
+  /** FantasyCalc sync time; skips the sync when provided */
+  syncedAt?: Date;
+  /** Grade under this config instead of the family's active one */
+  config?: AlgorithmConfig;
+  /** Version stamped on rows graded under `config` */
+  configVersion?: string;
+  /** Collect grades here instead of writing grade rows and manager metrics */
+  dryRun?: DryRunGrade[];
+}
+
 // ============================================================
 // Shared data-loading helpers
 // ============================================================
@@ -1091,3 +1121,135 @@ export async function loadFantasyCalcSnapshot(
   }
   return snapshot;
 }
+
+// ============================================================
+// Point-in-time FantasyCalc snapshots
+// ============================================================
+
+export interface FantasyCalcFormat {
+  isSuperFlex: boolean;
+  ppr: number;
+  numTeams: number;
+  numQbs: number;
+}
+
+/**
+ * Load the distinct fetch timestamps in `fantasy_calc_value_history` for a
+ * format, sorted ascending (epoch ms). Each timestamp is one full snapshot.
+ */
+export async function loadFantasyCalcHistoryDates(
+  format: FantasyCalcFormat,
+): Promise<number[]> {
+  const db = getDb();
+  const rows = await db
+    .selectDistinct({ fetchedAt: schema.fantasyCalcValueHistory.fetchedAt })
+    .from(schema.fantasyCalcValueHistory)
+    .where(
+      and(
+        eq(schema.fantasyCalcValueHistory.isSuperFlex, format.isSuperFlex),
+        eq(schema.fantasyCalcValueHistory.ppr, format.ppr),
+        eq(schema.fantasyCalcValueHistory.numTeams, format.numTeams),
+        eq(schema.fantasyCalcValueHistory.numQbs, format.numQbs),
+      ),
+    );
+
+  return rows.map((r) => r.fetchedAt.getTime()).sort((a, b) => a - b);
+}
+
+/**
+ * Pick the latest snapshot taken at or before `asOf` from an ascending list
+ * of fetch timestamps. Returns null when every snapshot postdates `asOf` —
+ * callers fall back to today's values rather than borrowing from the future.
+ */
+export function pickSnapshotDate(
+  sortedDates: number[],
+  asOf: number,
+): number | null {
+  let lo = 0;
+  let hi = sortedDates.length - 1;
+  let found: number | null = null;
+  while (lo <= hi) {
+    const mid = (lo + hi) >> 1;
+    if (sortedDates[mid] <= asOf) {
+      found = sortedDates[mid];
+      lo = mid + 1;
+    } else {
+      hi = mid - 1;
+    }
+  }
+  return found;
+}
+
+/** Load one historical snapshot (playerId -> effective value) by fetch time. */
+export async function loadFantasyCalcHistorySnapshot(
+  format: FantasyCalcFormat,
+  fetchedAt: number,
+): Promise<Map<string, number>> {
+  const db = getDb();
+  const rows = await db
+    .select({
+      playerId: schema.fantasyCalcValueHistory.playerId,
+      value: schema.fantasyCalcValueHistory.value,
+    })
+    .from(schema.fantasyCalcValueHistory)
+    .where(
+      and(
+        eq(schema.fantasyCalcValueHistory.isSuperFlex, format.isSuperFlex),
+        eq(schema.fantasyCalcValueHistory.ppr, format.ppr),
+        eq(schema.fantasyCalcValueHistory.numTeams, format.numTeams),
+        eq(schema.fantasyCalcValueHistory.numQbs, format.numQbs),
+        eq(schema.fantasyCalcValueHistory.fetchedAt, new Date(fetchedAt)),
+      ),
+    );
+
+  const snapshot = new Map<string, number>();
+  for (const row of rows) {
+    snapshot.set(row.playerId, effectiveValue(row.value));
+  }
+  return snapshot;
+}
+
+/**
+ * Point-in-time variant of loadFantasyCalcSnapshot: values as of `asOf`.
+ * Returns null when no snapshot exists at or before that date.
+ *
+ * Grading many transactions should use createSnapshotAsOfLoader instead,
+ * which reads the fetch dates once and caches snapshots.
+ */
+export async function loadFantasyCalcSnapshotAsOf(
+  asOf: Date,
+  format: FantasyCalcFormat,
+): Promise<{ snapshot: Map<string, number>; fetchedAt: Date } | null> {
+  const dates = await loadFantasyCalcHistoryDates(format);
+  const fetchedAt = pickSnapshotDate(dates, asOf.getTime());
+  if (fetchedAt === null) return null;
+  return {
+    snapshot: await loadFantasyCalcHistorySnapshot(format, fetchedAt),
+    fetchedAt: new Date(fetchedAt),
+  };
+}
+
+export type SnapshotAsOfLoader = (
+  asOf: number,
+) => Promise<{ values: Map<string, number>; fetchedAt: number } | null>;
+
+/**
+ * Cached loadFantasyCalcSnapshotAsOf for one format: the history's fetch
+ * dates are read on first use and each snapshot once per fetch timestamp,
+ * since many transactions share one.
+ */
+export function createSnapshotAsOfLoader(format: FantasyCalcFormat): SnapshotAsOfLoader {
+  let dates: Promise<number[]> | null = null;
+  const snapshots = new Map<number, Promise<Map<string, number>>>();
+  return async (asOf) => {
+    dates ??= loadFantasyCalcHistoryDates(format);
+    const fetchedAt = pickSnapshotDate(await dates, asOf);
+    if (fetchedAt === null) return null;
+    let values = snapshots.get(fetchedAt);
+    if (!values) {
+      values = loadFantasyCalcHistorySnapshot(format, fetchedAt);
+      snapshots.set(fetchedAt, values);
+    }
+    return { values: await values, fetchedAt };
+  };
+}
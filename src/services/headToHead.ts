@@ -0,0 +1,398 @@
+/**
+ * Head-to-head rivalry between two managers of a league family.
+ *
+ * - Regular-season games come from `matchups`: two rosters met when they
+ *   share a `matchup_id` in the same league and week and both scored
+ *   (unplayed weeks are synced ahead with 0 points). Weeks from the
+ *   league's `playoff_week_start` on are left to the bracket.
+ * - Playoff meetings come from each season's `winners_bracket`: any match
+ *   with both managers' rosters in it. Points are summed from `matchups`
+ *   over the round's weeks, which depend on the league's
+ *   `playoff_round_type` (two-week rounds or championship).
+ * - Trades between the two are the pair's edge in the trade network
+ *   (`loadPairTrades` in src/services/tradeNetwork.ts), so they carry the
+ *   same grades.
+ * - Pillar scores are each manager's `all_time` `manager_metrics` rows,
+ *   ranked against every manager in the family like the manager page.
+ */
+
+import { and, eq, inArray } from "drizzle-orm";
+import { getDb, schema } from "@/db";
+import { lookupSwap, type DemoMap } from "@/lib/demoAnonymize";
+import { PILLAR_KEYS } from "@/lib/pillars";
+import type { SleeperBracketMatchup } from "@/lib/sleeper";
+import { loadFamilyLeagueMap, percentileToGrade } from "@/services/gradingCore";
+import { loadPairTrades, type TradeNetworkTrade } from "@/services/tradeNetwork";
+
+// ============================================================
+// Types
+// ============================================================
+
+export interface HeadToHeadManager {
+  userId: string;
+  displayName: string;
+  teamName: string | null;
+}
+
+export type HeadToHeadWinner = "a" | "b" | "tie";
+
+export interface HeadToHeadGame {
+  season: string;
+  week: number;
+  pointsA: number;
+  pointsB: number;
+  winner: HeadToHeadWinner;
+}
+
+export interface HeadToHeadPlayoffMeeting {
+  season: string;
+  round: number;
+  /** Sleeper placement game (1 = final, 3 = third place, ...), if any. */
+  placement: number | null;
+  /** Weeks the round was played over; null when the league's round length is unknown. */
+  weeks: number[] | null;
+  pointsA: number | null;
+  pointsB: number | null;
+  winner: HeadToHeadWinner | null;
+}
+
+export interface HeadToHeadRecord {
+  winsA: number;
+  winsB: number;
+  ties: number;
+  pointsA: number;
+  pointsB: number;
+}
+
+export interface HeadToHeadPillarScore {
+  value: number;
+  grade: string;
+  percentile: number;
+}
+
+export type HeadToHeadPillars = Record<string, HeadToHeadPillarScore | null>;
+
+export interface HeadToHead {
+  managerA: HeadToHeadManager;
+  managerB: HeadToHeadManager;
+  record: HeadToHeadRecord;
+  /** Regular-season games, newest first. */
+  games: HeadToHeadGame[];
+  /** Newest first. */
+  playoffs: HeadToHeadPlayoffMeeting[];
+  trades: TradeNetworkTrade[];
+  tradeTotals: { valueToA: number; valueToB: number; parToA: number; parToB: number };
+  pillarsA: HeadToHeadPillars;
+  pillarsB: HeadToHeadPillars;
+}
+
+// ============================================================
+// Aggregation (pure)
+// ============================================================
+
+export interface HeadToHeadSeason {
+  leagueId: string;
+  season: string;
+  playoffWeekStart: number | null;
+  /** Sleeper `playoff_round_type`: 0 one week a round, 1 two-week final, 2 two weeks a round. */
+  playoffRoundType: number;
+  winnersBracket: SleeperBracketMatchup[] | null;
+  rosterA: number | null;
+  rosterB: number | null;
+}
+
+export interface HeadToHeadMatchupRow {
+  leagueId: string;
+  week: number;
+  rosterId: number;
+  matchupId: number | null;
+  points: number | null;
+}
+
+export interface HeadToHeadMetricRow {
+  managerId: string;
+  metric: string;
+  value: number;
+}
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+function winnerOf(pointsA: number, pointsB: number): HeadToHeadWinner {
+  return pointsA > pointsB ? "a" : pointsB > pointsA ? "b" : "tie";
+}
+
+export function headToHeadGames(
+  seasons: HeadToHeadSeason[],
+  matchups: HeadToHeadMatchupRow[],
+): HeadToHeadGame[] {
+  const bySlot = new Map<string, HeadToHeadMatchupRow>(); // leagueId:week:rosterId
+  for (const m of matchups) bySlot.set(`${m.leagueId}:${m.week}:${m.rosterId}`, m);
+
+  const weeks = new Map<string, number[]>();
+  for (const m of matchups) {
+    const list = weeks.get(m.leagueId) ?? [];
+    if (!list.includes(m.week)) list.push(m.week);
+    weeks.set(m.leagueId, list);
+  }
+
+  const games: HeadToHeadGame[] = [];
+  for (const s of seasons) {
+    if (s.rosterA === null || s.rosterB === null) continue;
+    for (const week of weeks.get(s.leagueId) ?? []) {
+      if (s.playoffWeekStart !== null && week >= s.playoffWeekStart) continue;
+      const a = bySlot.get(`${s.leagueId}:${week}:${s.rosterA}`);
+      const b = bySlot.get(`${s.leagueId}:${week}:${s.rosterB}`);
+      if (!a || !b || a.matchupId === null || a.matchupId !== b.matchupId) continue;
+      // In-season leagues sync every week up front; a week counts once both
+      // sides have scored (the pickProjection/seasonSimulator convention).
+      if (!((a.points ?? 0) > 0 && (b.points ?? 0) > 0)) continue;
+      const pointsA = round2(a.points ?? 0);
+      const pointsB = round2(b.points ?? 0);
+      games.push({ season: s.season, week, pointsA, pointsB, winner: winnerOf(pointsA, pointsB) });
+    }
+  }
+  return games.sort((x, y) => Number(y.season) - Number(x.season) || y.week - x.week);
+}
+
+export function headToHeadRecord(games: HeadToHeadGame[]): HeadToHeadRecord {
+  const record: HeadToHeadRecord = { winsA: 0, winsB: 0, ties: 0, pointsA: 0, pointsB: 0 };
+  for (const g of games) {
+    if (g.winner === "a") record.winsA++;
+    else if (g.winner === "b") record.winsB++;
+    else record.ties++;
+    record.pointsA += g.pointsA;
+    record.pointsB += g.pointsB;
+  }
+  record.pointsA = round2(record.pointsA);
+  record.pointsB = round2(record.pointsB);
+  return record;
+}
+
+/** The weeks a bracket round spans, or null if the settings don't say. */
+export function playoffRoundWeeks(
+  playoffWeekStart: number | null,
+  playoffRoundType: number,
+  round: number,
+  lastRound: number,
+): number[] | null {
+  if (playoffWeekStart === null) return null;
+  switch (playoffRoundType) {
+    case 0:
+      return [playoffWeekStart + round - 1];
+    case 1: {
+      const first = playoffWeekStart + round - 1;
+      return round === lastRound ? [first, first + 1] : [first];
+    }
+    case 2: {
+      const first = playoffWeekStart + 2 * (round - 1);
+      return [first, first + 1];
+    }
+    default:
+      return null;
+  }
+}
+
+export function playoffMeetings(
+  seasons: HeadToHeadSeason[],
+  matchups: HeadToHeadMatchupRow[],
+): HeadToHeadPlayoffMeeting[] {
+  const pointsAt = new Map<string, number | null>();
+  for (const m of matchups) pointsAt.set(`${m.leagueId}:${m.week}:${m.rosterId}`, m.points);
+  // Total over the round's weeks; null unless every week was synced.
+  const pointsOver = (leagueId: string, weeks: number[] | null, rosterId: number) => {
+    if (!weeks) return null;
+    let total = 0;
+    for (const week of weeks) {
+      const points = pointsAt.get(`${leagueId}:${week}:${rosterId}`);
+      if (points === undefined || points === null) return null;
+      total += points;
+    }
+    return round2(total);
+  };
+
+  const meetings: HeadToHeadPlayoffMeeting[] = [];
+  for (const s of seasons) {
+    if (s.rosterA === null || s.rosterB === null || !s.winnersBracket) continue;
+    const lastRound = Math.max(...s.winnersBracket.map((m) => m.r));
+    for (const m of s.winnersBracket) {
+      const teams = [m.t1, m.t2];
+      if (!teams.includes(s.rosterA) || !teams.includes(s.rosterB)) continue;
+      const weeks = playoffRoundWeeks(s.playoffWeekStart, s.playoffRoundType, m.r, lastRound);
+      meetings.push({
+        season: s.season,
+        round: m.r,
+        placement: m.p ?? null,
+        weeks,
+        pointsA: pointsOver(s.leagueId, weeks, s.rosterA),
+        pointsB: pointsOver(s.leagueId, weeks, s.rosterB),
+        winner: m.w === s.rosterA ? "a" : m.w === s.rosterB ? "b" : null,
+      });
+    }
+  }
+  return meetings.sort((x, y) => Number(y.season) - Number(x.season) || y.round - x.round);
+}
+
+/**
+ * Both managers' all-time pillar scores, each percentile taken against
+ * every manager with that metric (the manager page's convention).
+ */
+export function pillarComparison(
+  metrics: HeadToHeadMetricRow[],
+  userA: string,
+  userB: string,
+): { pillarsA: HeadToHeadPillars; pillarsB: HeadToHeadPillars } {
+  const score = (userId: string): HeadToHeadPillars => {
+    const out: HeadToHeadPillars = {};
+    for (const pillar of PILLAR_KEYS) {
+      const peers = metrics.filter((m) => m.metric === pillar);
+      const mine = peers.find((m) => m.managerId === userId);
+      if (!mine) {
+        out[pillar] = null;
+        continue;
+      }
+      const lower = peers.filter((m) => m.value < mine.value).length;
+      const percentile =
+        peers.length <= 1 ? 50 : Math.round((lower / (peers.length - 1)) * 1000) / 10;
+      out[pillar] = { value: mine.value, grade: percentileToGrade(percentile), percentile };
+    }
+    return out;
+  };
+  return { pillarsA: score(userA), pillarsB: score(userB) };
+}
+
+// ============================================================
+// Loader
+// ============================================================
+
+/**
+ * Rivalry summary for an already-resolved family, or null when either
+ * user never managed a team in it.
+ */
+export async function loadHeadToHead(
+  familyId: string,
+  userA: string,
+  userB: string,
+  demoSwap: DemoMap | null = null,
+): Promise<HeadToHead | null> {
+  const db = getDb();
+  const { familyLeagueIds, leagueSeasonMap } = await loadFamilyLeagueMap(familyId);
+  if (familyLeagueIds.length === 0) return null;
+
+  const [users, rosterRows, leagueRows, metricRows] = await Promise.all([
+    db
+      .select({
+        leagueId: schema.leagueUsers.leagueId,
+        userId: schema.leagueUsers.userId,
+        displayName: schema.leagueUsers.displayName,
+        teamName: schema.leagueUsers.teamName,
+      })
+      .from(schema.leagueUsers)
+      .where(
+        and(
+          inArray(schema.leagueUsers.leagueId, familyLeagueIds),
+          inArray(schema.leagueUsers.userId, [userA, userB]),
+        ),
+      ),
+    db
+      .select({
+        leagueId: schema.rosters.leagueId,
+        rosterId: schema.rosters.rosterId,
+        ownerId: schema.rosters.ownerId,
+      })
+      .from(schema.rosters)
+      .where(inArray(schema.rosters.leagueId, familyLeagueIds)),
+    db
+      .select({
+        id: schema.leagues.id,
+        settings: schema.leagues.settings,
+        winnersBracket: schema.leagues.winnersBracket,
+      })
+      .from(schema.leagues)
+      .where(inArray(schema.leagues.id, familyLeagueIds)),
+    db
+      .select({
+        managerId: schema.managerMetrics.managerId,
+        metric: schema.managerMetrics.metric,
+        value: schema.managerMetrics.value,
+      })
+      .from(schema.managerMetrics)
+      .where(
+        and(
+          inArray(schema.managerMetrics.leagueId, familyLeagueIds),
+          eq(schema.managerMetrics.scope, "all_time"),
+          inArray(schema.managerMetrics.metric, [...PILLAR_KEYS]),
+        ),
+      ),
+  ]);
+
+  // Newest season's league_users row names each manager.
+  const byNewest = [...users].sort(
+    (x, y) => Number(leagueSeasonMap.get(y.leagueId) ?? 0) - Number(leagueSeasonMap.get(x.leagueId) ?? 0),
+  );
+  const manager = (userId: string): HeadToHeadManager | null => {
+    const row = byNewest.find((u) => u.userId === userId);
+    if (!row) return null;
+    const swap = demoSwap ? lookupSwap(demoSwap, userId) : undefined;
+    return {
+      userId,
+      displayName: swap?.displayName ?? row.displayName ?? userId,
+      teamName: swap?.teamName ?? row.teamName,
+    };
+  };
+  const managerA = manager(userA);
+  const managerB = manager(userB);
+  if (!managerA || !managerB) return null;
+
+  const seasons: HeadToHeadSeason[] = leagueRows.map((l) => {
+    const settings = (l.settings ?? {}) as Record<string, unknown>;
+    const rosterOf = (userId: string) =>
+      rosterRows.find((r) => r.leagueId === l.id && r.ownerId === userId)?.rosterId ?? null;
+    return {
+      leagueId: l.id,
+      season: leagueSeasonMap.get(l.id) ?? "",
+      playoffWeekStart: (settings.playoff_week_start as number | undefined) || null,
+      playoffRoundType: (settings.playoff_round_type as number | undefined) ?? 0,
+      winnersBracket: l.winnersBracket as SleeperBracketMatchup[] | null,
+      rosterA: rosterOf(userA),
+      rosterB: rosterOf(userB),
+    };
+  });
+
+  const sharedLeagueIds = seasons
+    .filter((s) => s.rosterA !== null && s.rosterB !== null)
+    .map((s) => s.leagueId);
+  const [matchupRows, edge] = await Promise.all([
+    sharedLeagueIds.length > 0
+      ? db
+          .select({
+            leagueId: schema.matchups.leagueId,
+            week: schema.matchups.week,
+            rosterId: schema.matchups.rosterId,
+            matchupId: schema.matchups.matchupId,
+            points: schema.matchups.points,
+          })
+          .from(schema.matchups)
+          .where(inArray(schema.matchups.leagueId, sharedLeagueIds))
+      : Promise.resolve([]),
+    loadPairTrades(familyId, userA, userB, demoSwap),
+  ]);
+
+  const games = headToHeadGames(seasons, matchupRows);
+  const aIsSource = edge?.source === userA;
+
+  return {
+    managerA,
+    managerB,
+    record: headToHeadRecord(games),
+    games,
+    playoffs: playoffMeetings(seasons, matchupRows),
+    trades: edge?.transactions ?? [],
+    tradeTotals: {
+      valueToA: (aIsSource ? edge?.valueToSource : edge?.valueToTarget) ?? 0,
+      valueToB: (aIsSource ? edge?.valueToTarget : edge?.valueToSource) ?? 0,
+      parToA: (aIsSource ? edge?.parToSource : edge?.parToTarget) ?? 0,
+      parToB: (aIsSource ? edge?.parToTarget : edge?.parToSource) ?? 0,
+    },
+    ...pillarComparison(metricRows, userA, userB),
+  };
+}
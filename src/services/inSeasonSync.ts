@@ -0,0 +1,247 @@
+/**
+ * Background in-season sync.
+ *
+ * `ensureLeagueFresh` only syncs when someone visits, so the first visitor
+ * after a slate pays for it. During the season the in-season cron walks the
+ * families with recent traffic and advances their active seasons ahead of
+ * that visit: one chunked stage per in-progress league (`syncLeague` moves
+ * the `matchups` / `transactions` watermarks forward), then the manager
+ * grade rollup.
+ *
+ * Fairness: families are taken least-recently-attempted first, so every
+ * tick starts where the last one stopped. A failing family goes to the back
+ * of the line and backs off exponentially (`family_sync_state`), so it
+ * can't starve the rest. A family whose run hits the tick deadline keeps
+ * its job and resumes from the stage cursor on the next tick.
+ */
+
+import { and, eq, gt, ne, sql } from "drizzle-orm";
+import type { PgUpdateSetSource } from "drizzle-orm/pg-core";
+import { getDb, schema } from "@/db";
+import { getFamilyRootRef } from "@/lib/freshness";
+import { syncLeague } from "@/services/sync";
+import { DEFAULT_SYNC_CALL_BUDGET, runChunk, type ChunkedStage } from "@/services/chunkedSync";
+import { rollupManagerGrades } from "@/services/managerGrades";
+import { acquireSyncLock, releaseSyncLock } from "@/services/syncLock";
+
+// ============================================================
+// Types
+// ============================================================
+
+export interface FamilySyncState {
+  familyId: string;
+  lastVisitedAt: Date | null;
+  lastAttemptAt: Date | null;
+  consecutiveFailures: number;
+  jobId: string | null;
+}
+
+export interface InSeasonSyncResult {
+  familyId: string;
+  /**
+   * synced: every stage ran. in_progress: the deadline hit, resumes next
+   * tick. skipped: no active seasons, or another sync holds the lock.
+   */
+  status: "synced" | "in_progress" | "skipped" | "failed";
+  stagesCompleted: number;
+  stagesTotal: number;
+  error?: string;
+}
+
+/** Families visited within this window are kept warm. */
+export const RECENT_TRAFFIC_MS = 7 * 24 * 60 * 60 * 1000;
+
+const BASE_BACKOFF_MS = 6 * 60 * 60 * 1000;
+const MAX_BACKOFF_MS = 48 * 60 * 60 * 1000;
+
+// ============================================================
+// Scheduling (pure)
+// ============================================================
+
+/** Wait after `failures` consecutive failures: 6h, 12h, 24h, then 48h. */
+export function backoffMs(failures: number): number {
+  if (failures <= 0) return 0;
+  return Math.min(MAX_BACKOFF_MS, BASE_BACKOFF_MS * 2 ** (failures - 1));
+}
+
+/**
+ * Order the families this tick should work through: recently visited, not
+ * backing off, unfinished runs first, then least-recently-attempted first
+ * (never-attempted families lead).
+ */
+export function selectFamiliesForSync(
+  states: FamilySyncState[],
+  now: Date,
+): FamilySyncState[] {
+  const t = now.getTime();
+  const attemptedAt = (s: FamilySyncState) => s.lastAttemptAt?.getTime() ?? 0;
+
+  return states
+    .filter((s) => s.lastVisitedAt && t - s.lastVisitedAt.getTime() <= RECENT_TRAFFIC_MS)
+    .filter((s) => !s.lastAttemptAt || t - attemptedAt(s) >= backoffMs(s.consecutiveFailures))
+    .sort(
+      (a, b) =>
+        Number(b.jobId !== null) - Number(a.jobId !== null) ||
+        attemptedAt(a) - attemptedAt(b) ||
+        a.familyId.localeCompare(b.familyId),
+    );
+}
+
+// ============================================================
+// Stages
+// ============================================================
+
+/** In-progress seasons for a family, oldest first. */
+async function loadActiveLeagueIds(familyId: string): Promise<string[]> {
+  const db = getDb();
+  const rows = await db
+    .select({
+      leagueId: schema.leagueFamilyMembers.leagueId,
+      season: schema.leagueFamilyMembers.season,
+    })
+    .from(schema.leagueFamilyMembers)
+    .innerJoin(schema.leagues, eq(schema.leagues.id, schema.leagueFamilyMembers.leagueId))
+    .where(
+      and(eq(schema.leagueFamilyMembers.familyId, familyId), ne(schema.leagues.status, "complete")),
+    );
+  return rows
+    .sort((a, b) => Number(a.season) - Number(b.season))
+    .map((r) => r.leagueId);
+}
+
+/**
+ * One stage per active season, then the career rollup. Global syncs
+ * (players, nflverse, FantasyCalc) have their own crons and are skipped.
+ */
+export function buildInSeasonStages(familyId: string, leagueIds: string[]): ChunkedStage[] {
+  const stages: ChunkedStage[] = leagueIds.map((leagueId, i) => ({
+    key: `league:${leagueId}`,
+    label: `active season ${i + 1} of ${leagueIds.length}`,
+    run: () => syncLeague(leagueId, undefined, familyId, { skipGlobalSyncs: true, trigger: "cron" }),
+  }));
+
+  stages.push({
+    key: "manager-grades",
+    label: "Computing career grades",
+    deferrable: true,
+    run: async () => {
+      try {
+        await rollupManagerGrades(familyId);
+      } catch (err) {
+        // Non-critical, as in buildFamilyStages
+        console.warn(`[in-season-sync] manager grade rollup failed for ${familyId}:`, err);
+      }
+    },
+  });
+  return stages;
+}
+
+// ============================================================
+// Runner
+// ============================================================
+
+async function loadStates(now: Date): Promise<FamilySyncState[]> {
+  const db = getDb();
+  return db
+    .select({
+      familyId: schema.familySyncState.familyId,
+      lastVisitedAt: schema.familySyncState.lastVisitedAt,
+      lastAttemptAt: schema.familySyncState.lastAttemptAt,
+      consecutiveFailures: schema.familySyncState.consecutiveFailures,
+      jobId: schema.familySyncState.jobId,
+    })
+    .from(schema.familySyncState)
+    .where(gt(schema.familySyncState.lastVisitedAt, new Date(now.getTime() - RECENT_TRAFFIC_MS)));
+}
+
+/** The family's unfinished job, if it is still running. */
+async function resumableJob(jobId: string | null): Promise<string | null> {
+  if (!jobId) return null;
+  const [job] = await getDb()
+    .select({ status: schema.syncJobs.status })
+    .from(schema.syncJobs)
+    .where(eq(schema.syncJobs.id, jobId))
+    .limit(1);
+  return job?.status === "running" ? jobId : null;
+}
+
+async function saveState(
+  familyId: string,
+  set: PgUpdateSetSource<typeof schema.familySyncState>,
+): Promise<void> {
+  await getDb()
+    .update(schema.familySyncState)
+    .set(set)
+    .where(eq(schema.familySyncState.familyId, familyId));
+}
+
+async function syncFamily(
+  state: FamilySyncState,
+  deadlineAt: number,
+  now: Date,
+): Promise<InSeasonSyncResult> {
+  const { familyId } = state;
+  const leagueIds = await loadActiveLeagueIds(familyId);
+  const ref = await getFamilyRootRef(familyId);
+  if (leagueIds.length === 0 || !ref) {
+    await saveState(familyId, { lastAttemptAt: now, jobId: null });
+    return { familyId, status: "skipped", stagesCompleted: 0, stagesTotal: 0 };
+  }
+
+  const stages = buildInSeasonStages(familyId, leagueIds);
+  const jobId =
+    (await resumableJob(state.jobId)) ??
+    (await acquireSyncLock(ref, { trigger: "cron", stagesTotal: stages.length }));
+  if (!jobId) {
+    // A visitor's sync holds the lock; it's doing our work for us
+    return { familyId, status: "skipped", stagesCompleted: 0, stagesTotal: stages.length };
+  }
+
+  try {
+    const result = await runChunk(jobId, stages, { deadlineAt, callBudget: DEFAULT_SYNC_CALL_BUDGET });
+    if (result.status === "completed") {
+      await releaseSyncLock(jobId, "success", undefined, { stagesCompleted: result.stagesCompleted });
+      await saveState(familyId, {
+        lastAttemptAt: now,
+        lastSyncedAt: new Date(),
+        consecutiveFailures: 0,
+        lastError: null,
+        jobId: null,
+      });
+      return { familyId, status: "synced", stagesCompleted: result.stagesCompleted, stagesTotal: result.stagesTotal };
+    }
+    await saveState(familyId, { lastAttemptAt: now, jobId });
+    return { familyId, status: "in_progress", stagesCompleted: result.stagesCompleted, stagesTotal: result.stagesTotal };
+  } catch (err) {
+    const error = err instanceof Error ? err.message : String(err);
+    await releaseSyncLock(jobId, "failed", error);
+    await saveState(familyId, {
+      lastAttemptAt: now,
+      consecutiveFailures: sql`${schema.familySyncState.consecutiveFailures} + 1`,
+      totalFailures: sql`${schema.familySyncState.totalFailures} + 1`,
+      lastError: error,
+      jobId: null,
+    });
+    return { familyId, status: "failed", stagesCompleted: 0, stagesTotal: stages.length, error };
+  }
+}
+
+/**
+ * Work through recently visited families until `deadlineAt`. A family's
+ * failure is recorded on its state row and the walk moves on. Callers gate
+ * on `isInSeason()`.
+ */
+export async function runInSeasonSync(opts: {
+  deadlineAt: number;
+  now?: Date;
+}): Promise<InSeasonSyncResult[]> {
+  const now = opts.now ?? new Date();
+  const queue = selectFamiliesForSync(await loadStates(now), now);
+  const results: InSeasonSyncResult[] = [];
+
+  for (const state of queue) {
+    if (Date.now() >= opts.deadlineAt) break;
+    results.push(await syncFamily(state, opts.deadlineAt, now));
+  }
+  return results;
+}
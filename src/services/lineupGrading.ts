@@ -26,6 +26,21 @@ const GRADE_THRESHOLDS: Record<string, number> = {
 
 const ROLLING_WINDOW = 4;
 
+/**
+ * Pre-game expectation multipliers applied to trailing PPG. A player ruled
+ * Out, or not on the NFL active roster that week, is expected to score 0.
+ */
+const INJURY_REPORT_MULTIPLIERS: Record<string, number> = {
+  Out: 0,
+  Doubtful: 0.25,
+  Questionable: 0.85,
+};
+
+const PRACTICE_STATUS_MULTIPLIERS: Record<string, number> = {
+  "Did Not Participate": 0.85,
+  Limited: 0.95,
+};
+
 function scoreToGrade(score: number): string {
   if (score >= GRADE_THRESHOLDS["A+"]) return "A+";
   if (score >= GRADE_THRESHOLDS["A"]) return "A";
@@ -41,19 +56,24 @@ function scoreToGrade(score: number): string {
 // Types
 // ============================================================
 
+export interface SlotBreakdown {
+  followedGood: number;
+  followedBad: number;
+  brokeGood: number;
+  brokeBad: number;
+}
+
 export interface WeekGrade {
   week: number;
   score: number;
+  /** Same slot scoring, judged against the injury-aware pre-game expectation */
+  projectedScore: number;
   actualPoints: number;
   optimalPoints: number;
   efficiency: number;
   pointsLeftOnBench: number;
-  slotBreakdown: {
-    followedGood: number;
-    followedBad: number;
-    brokeGood: number;
-    brokeBad: number;
-  };
+  slotBreakdown: SlotBreakdown;
+  projectedSlotBreakdown: SlotBreakdown;
 }
 
 export interface RosterLineupGrade {
@@ -65,6 +85,8 @@ export interface RosterLineupGrade {
   perfectWeeks: number;
   insightfulStarts: number;
   grade: string;
+  projectedScore: number;
+  projectedGrade: string;
   weeks: WeekGrade[];
 }
 
@@ -181,6 +203,86 @@ function buildRollingAverages(
   return result;
 }
 
+// ============================================================
+// Pre-game expectation
+// ============================================================
+
+export interface PreGameStatus {
+  /** nfl_injuries.report_status for the week (Out, Doubtful, Questionable) */
+  reportStatus?: string | null;
+  /** nfl_injuries.practice_status for the week */
+  practiceStatus?: string | null;
+  /** nfl_weekly_roster_status.status for the week (ACT, RES, INA, ...) */
+  rosterStatus?: string | null;
+}
+
+/**
+ * Expected points for a player using only what was known before kickoff:
+ * trailing PPG discounted by the injury report and zeroed when the player
+ * was off the NFL active roster. A game designation overrides practice
+ * participation; missing data leaves the trailing PPG untouched.
+ */
+export function preGameExpectation(trailingPpg: number, status: PreGameStatus): number {
+  if (status.rosterStatus && status.rosterStatus !== "ACT") return 0;
+
+  const reportMultiplier = status.reportStatus
+    ? INJURY_REPORT_MULTIPLIERS[status.reportStatus]
+    : undefined;
+  if (reportMultiplier !== undefined) return trailingPpg * reportMultiplier;
+
+  const practiceMultiplier = status.practiceStatus
+    ? PRACTICE_STATUS_MULTIPLIERS[status.practiceStatus]
+    : undefined;
+  return trailingPpg * (practiceMultiplier ?? 1);
+}
+
+/**
+ * Score each actual starter by whether it followed the expected-optimal
+ * lineup (process) and landed in the actual-optimal lineup (outcome).
+ * Returns null when no slot could be scored.
+ */
+export function scoreStarterSlots(
+  actualStarters: string[],
+  actualOptimalSet: Set<string>,
+  expectedOptimalSet: Set<string>,
+  isScorable: (playerId: string) => boolean,
+): { score: number; breakdown: SlotBreakdown } | null {
+  const breakdown: SlotBreakdown = { followedGood: 0, followedBad: 0, brokeGood: 0, brokeBad: 0 };
+  let slotScoreSum = 0;
+  let slotsScored = 0;
+
+  for (const starter of actualStarters) {
+    if (!isScorable(starter)) continue;
+
+    const goodOutcome = actualOptimalSet.has(starter);
+    const followedProcess = expectedOptimalSet.has(starter);
+
+    let slotScore: number;
+    if (followedProcess && goodOutcome) {
+      slotScore = SLOT_SCORES.followedGood;
+      breakdown.followedGood++;
+    } else if (followedProcess && !goodOutcome) {
+      slotScore = SLOT_SCORES.followedBad;
+      breakdown.followedBad++;
+    } else if (!followedProcess && goodOutcome) {
+      slotScore = SLOT_SCORES.brokeGood;
+      breakdown.brokeGood++;
+    } else {
+      slotScore = SLOT_SCORES.brokeBad;
+      breakdown.brokeBad++;
+    }
+
+    slotScoreSum += slotScore;
+    slotsScored++;
+  }
+
+  if (slotsScored === 0) return null;
+
+  const meanSlotScore = slotScoreSum / slotsScored;
+  // Normalize to 0-100 (1.0 baseline = 100, cap at 100)
+  return { score: Math.min(100, (meanSlotScore / 1.0) * 100), breakdown };
+}
+
 // ============================================================
 // Main grading function
 // ============================================================
@@ -296,8 +398,20 @@ export async function gradeLeagueLineups(
     }
   }
 
-  // Build set of "playerId:season:week" where player was NFL-active
+  // Build set of "playerId:season:week" where player was NFL-active, and
+  // collect the current season's pre-game status per "week:playerId"
   const activeWeeks = new Set<string>();
+  const preGameStatus = new Map<string, PreGameStatus>();
+  const statusFor = (week: number, playerId: string): PreGameStatus => {
+    const key = `${week}:${playerId}`;
+    let status = preGameStatus.get(key);
+    if (!status) {
+      status = {};
+      preGameStatus.set(key, status);
+    }
+    return status;
+  };
+
   if (gsisToPlayerId.size > 0) {
     const validSeasons = relevantSeasons.filter((s) => !isNaN(s));
     if (validSeasons.length > 0) {
@@ -306,20 +420,40 @@ export async function gradeLeagueLineups(
           gsisId: schema.nflWeeklyRosterStatus.gsisId,
           season: schema.nflWeeklyRosterStatus.season,
           week: schema.nflWeeklyRosterStatus.week,
+          status: schema.nflWeeklyRosterStatus.status,
         })
         .from(schema.nflWeeklyRosterStatus)
-        .where(
-          and(
-            eq(schema.nflWeeklyRosterStatus.status, "ACT"),
-            inArray(schema.nflWeeklyRosterStatus.season, validSeasons),
-          ),
-        );
+        .where(inArray(schema.nflWeeklyRosterStatus.season, validSeasons));
 
       for (const row of statusRows) {
         const playerId = gsisToPlayerId.get(row.gsisId);
-        if (playerId) {
+        if (!playerId) continue;
+        if (row.status === "ACT") {
           activeWeeks.add(`${playerId}:${row.season}:${row.week}`);
         }
+        if (row.season === currentSeason) {
+          statusFor(row.week, playerId).rosterStatus = row.status;
+        }
+      }
+    }
+
+    if (!isNaN(currentSeason)) {
+      const injuryRows = await db
+        .select({
+          gsisId: schema.nflInjuries.gsisId,
+          week: schema.nflInjuries.week,
+          reportStatus: schema.nflInjuries.reportStatus,
+          practiceStatus: schema.nflInjuries.practiceStatus,
+        })
+        .from(schema.nflInjuries)
+        .where(eq(schema.nflInjuries.season, currentSeason));
+
+      for (const row of injuryRows) {
+        const playerId = gsisToPlayerId.get(row.gsisId);
+        if (!playerId) continue;
+        const status = statusFor(row.week, playerId);
+        status.reportStatus = row.reportStatus;
+        status.practiceStatus = row.practiceStatus;
       }
     }
   }
@@ -389,11 +523,16 @@ export async function gradeLeagueLineups(
 
     if (actualOptimal.optimalPoints === 0) continue;
 
-    // Build rolling-average points for this roster's players this week
+    // Build rolling-average and pre-game expected points for this roster's players this week
     const avgPoints: Record<string, number> = {};
+    const projectedPoints: Record<string, number> = {};
     for (const playerId of Object.keys(matchupPlayerPoints)) {
       const key = `${leagueId}:${matchup.week}:${playerId}`;
       avgPoints[playerId] = rollingAvgs.get(key) || 0;
+      projectedPoints[playerId] = preGameExpectation(
+        avgPoints[playerId],
+        preGameStatus.get(`${matchup.week}:${playerId}`) ?? {},
+      );
     }
 
     // Run solver with rolling averages → expected-optimal lineup
@@ -403,45 +542,33 @@ export async function gradeLeagueLineups(
       rosterPositions,
     );
 
-    const actualOptimalSet = new Set(actualOptimal.optimalStarters);
-    const expectedOptimalSet = new Set(expectedOptimal.optimalStarters);
-
-    // Score each starter slot
-    const breakdown = { followedGood: 0, followedBad: 0, brokeGood: 0, brokeBad: 0 };
-    let slotScoreSum = 0;
-    let slotsScored = 0;
-
-    for (const starter of actualStarters) {
-      // Skip players with no position (e.g., "0" placeholder for empty slots)
-      if (!playerPositions[starter] && !matchupPlayerPoints[starter]) continue;
-
-      const goodOutcome = actualOptimalSet.has(starter);
-      const followedProcess = expectedOptimalSet.has(starter);
-
-      let slotScore: number;
-      if (followedProcess && goodOutcome) {
-        slotScore = SLOT_SCORES.followedGood;
-        breakdown.followedGood++;
-      } else if (followedProcess && !goodOutcome) {
-        slotScore = SLOT_SCORES.followedBad;
-        breakdown.followedBad++;
-      } else if (!followedProcess && goodOutcome) {
-        slotScore = SLOT_SCORES.brokeGood;
-        breakdown.brokeGood++;
-      } else {
-        slotScore = SLOT_SCORES.brokeBad;
-        breakdown.brokeBad++;
-      }
-
-      slotScoreSum += slotScore;
-      slotsScored++;
-    }
-
-    if (slotsScored === 0) continue;
+    // Run solver with pre-game expectations → projected-optimal lineup
+    const projectedOptimal = solveOptimalLineup(
+      projectedPoints,
+      playerPositions,
+      rosterPositions,
+    );
 
-    const meanSlotScore = slotScoreSum / slotsScored;
-    // Normalize to 0-100 (1.0 baseline = 100, cap at 100)
-    const weekScore = Math.min(100, (meanSlotScore / 1.0) * 100);
+    const actualOptimalSet = new Set(actualOptimal.optimalStarters);
+    // Skip players with no position (e.g., "0" placeholder for empty slots)
+    const isScorable = (playerId: string) =>
+      Boolean(playerPositions[playerId] || matchupPlayerPoints[playerId]);
+
+    const scored = scoreStarterSlots(
+      actualStarters,
+      actualOptimalSet,
+      new Set(expectedOptimal.optimalStarters),
+      isScorable,
+    );
+    if (!scored) continue;
+    const projected = scoreStarterSlots(
+      actualStarters,
+      actualOptimalSet,
+      new Set(projectedOptimal.optimalStarters),
+      isScorable,
+    )!;
+
+    const breakdown = scored.breakdown;
     const efficiency =
       actualOptimal.optimalPoints > 0
         ? (actualPoints / actualOptimal.optimalPoints) * 100
@@ -450,12 +577,14 @@ export async function gradeLeagueLineups(
 
     const weekGrade: WeekGrade = {
       week: matchup.week,
-      score: Math.round(weekScore * 10) / 10,
+      score: Math.round(scored.score * 10) / 10,
+      projectedScore: Math.round(projected.score * 10) / 10,
       actualPoints: Math.round(actualPoints * 10) / 10,
       optimalPoints: Math.round(actualOptimal.optimalPoints * 10) / 10,
       efficiency: Math.round(efficiency * 10) / 10,
       pointsLeftOnBench: Math.round(pointsLeftOnBench * 10) / 10,
       slotBreakdown: breakdown,
+      projectedSlotBreakdown: projected.breakdown,
     };
 
     if (!rosterGrades.has(matchup.rosterId)) {
@@ -486,6 +615,9 @@ export async function gradeLeagueLineups(
     const perfectWeeks = data.weekGrades.filter(
       (w) => w.pointsLeftOnBench === 0,
     ).length;
+    const avgProjectedScore =
+      data.weekGrades.reduce((sum, w) => sum + w.projectedScore, 0) /
+      data.weekGrades.length;
     const avgEfficiency =
       data.weekGrades.reduce((sum, w) => sum + w.efficiency, 0) /
       data.weekGrades.length;
@@ -499,37 +631,54 @@ export async function gradeLeagueLineups(
       perfectWeeks,
       insightfulStarts: data.totalInsightful,
       grade: scoreToGrade(avgScore),
+      projectedScore: Math.round(avgProjectedScore * 10) / 10,
+      projectedGrade: scoreToGrade(avgProjectedScore),
       weeks: data.weekGrades.sort((a, b) => a.week - b.week),
     });
   }
 
-  // 8. Write to managerMetrics (batch upsert)
+  // 8. Write to managerMetrics (batch upsert). The projection-aware score is
+  // stored as its own metric so it can be compared against lineup_score
+  // without feeding the MPS pillars.
   const season = league.season;
-  const scores = results.map((r) => r.score).sort((a, b) => a - b);
   const now = new Date();
+  const percentileOf = (sorted: number[], value: number) => {
+    const rank = sorted.filter((s) => s < value).length;
+    const percentile = sorted.length > 1 ? (rank / (sorted.length - 1)) * 100 : 50;
+    return Math.round(percentile * 10) / 10;
+  };
 
-  const metricValues = results
-    .filter((roster) => {
-      if (!roster.ownerId) {
-        console.warn(
-          `[lineupGrading] Roster ${roster.rosterId} has no ownerId — skipping metric write`,
-        );
-        return false;
-      }
-      return true;
-    })
-    .map((roster) => {
-      const rank = scores.filter((s) => s < roster.score).length;
-      const percentile =
-        scores.length > 1 ? (rank / (scores.length - 1)) * 100 : 50;
+  const graded = results.filter((roster) => {
+    if (!roster.ownerId) {
+      console.warn(
+        `[lineupGrading] Roster ${roster.rosterId} has no ownerId — skipping metric write`,
+      );
+      return false;
+    }
+    return true;
+  });
+  const scores = results.map((r) => r.score).sort((a, b) => a - b);
+  const projectedScores = results.map((r) => r.projectedScore).sort((a, b) => a - b);
+
+  const metricValues = graded.flatMap((roster) => {
+    const projectedBreakdown = roster.weeks.reduce(
+      (acc, w) => ({
+        followedGood: acc.followedGood + w.projectedSlotBreakdown.followedGood,
+        followedBad: acc.followedBad + w.projectedSlotBreakdown.followedBad,
+        brokeGood: acc.brokeGood + w.projectedSlotBreakdown.brokeGood,
+        brokeBad: acc.brokeBad + w.projectedSlotBreakdown.brokeBad,
+      }),
+      { followedGood: 0, followedBad: 0, brokeGood: 0, brokeBad: 0 },
+    );
 
-      return {
+    return [
+      {
         leagueId,
         managerId: roster.ownerId,
-        metric: "lineup_score" as const,
+        metric: "lineup_score",
         scope: `season:${season}`,
         value: roster.score,
-        percentile: Math.round(percentile * 10) / 10,
+        percentile: percentileOf(scores, roster.score),
         meta: {
           grade: roster.grade,
           efficiency: roster.efficiency,
@@ -539,8 +688,23 @@ export async function gradeLeagueLineups(
           weeksGraded: roster.weeks.length,
         },
         computedAt: now,
-      };
-    });
+      },
+      {
+        leagueId,
+        managerId: roster.ownerId,
+        metric: "lineup_projected_score",
+        scope: `season:${season}`,
+        value: roster.projectedScore,
+        percentile: percentileOf(projectedScores, roster.projectedScore),
+        meta: {
+          grade: roster.projectedGrade,
+          slotBreakdown: projectedBreakdown,
+          weeksGraded: roster.weeks.length,
+        },
+        computedAt: now,
+      },
+    ];
+  });
 
   await batchUpsertManagerMetrics(metricValues);
 
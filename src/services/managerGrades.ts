@@ -1,7 +1,8 @@
 import { getDb, schema } from "@/db";
 import { eq, and, inArray, like } from "drizzle-orm";
 import { BATCH_SIZE, batchUpsertManagerMetrics } from "@/services/batchHelper";
-import { getActiveConfig } from "@/services/algorithmConfig";
+import { resolveActiveConfig } from "@/services/algorithmConfig";
+import { PILLAR_KEYS } from "@/lib/pillars";
 
 // ============================================================
 // Time-decay weighting
@@ -70,7 +71,7 @@ function computePercentile(entry: { score: number }, sortedAsc: { score: number
  */
 export async function rollupManagerGrades(familyId: string): Promise<void> {
   const db = getDb();
-  const algoConfig = await getActiveConfig();
+  const { config: algoConfig, version: configVersion } = await resolveActiveConfig(familyId);
 
   // 1. Get all leagues in the family with their seasons
   const members = await db
@@ -188,6 +189,7 @@ export async function rollupManagerGrades(familyId: string): Promise<void> {
         decayHalflife: DECAY_HALFLIFE_YEARS,
         seasonBreakdown,
       },
+      configVersion,
       computedAt: new Date(),
     });
   }
@@ -261,7 +263,10 @@ export async function rollupManagerGrades(familyId: string): Promise<void> {
   const pillarWeights = algoConfig.pillarWeights as Record<string, number>;
 
   for (const [managerId, metrics] of managerAllTime) {
-    const values = Array.from(metrics.entries());
+    // Shadow metrics (e.g. lineup_projected_score) get all_time rollups but stay out of MPS
+    const values = Array.from(metrics.entries()).filter(([metric]) =>
+      (PILLAR_KEYS as readonly string[]).includes(metric),
+    );
     if (values.length === 0) continue;
 
     // Weighted MPS from pillar percentiles (not raw scores)
@@ -281,7 +286,7 @@ export async function rollupManagerGrades(familyId: string): Promise<void> {
     const recentLeagueId = managerRecentLeague.get(managerId) ?? mostRecentLeagueId;
 
     const metricBreakdown = Object.fromEntries(
-      Array.from(metrics.entries()).map(([metric, data]) => [
+      values.map(([metric, data]) => [
         metric,
         { score: data.score, seasons: data.seasons },
       ]),
@@ -301,6 +306,7 @@ export async function rollupManagerGrades(familyId: string): Promise<void> {
         metricBreakdown,
         decayHalflife: DECAY_HALFLIFE_YEARS,
       },
+      configVersion,
       computedAt: new Date(),
     });
   }
@@ -40,6 +40,8 @@ export interface ManagerOutcomeScore {
   leagueId: string;
   season: string;
   mos: number;
+  /** 1..N final finish including consolation placements; null until the season is decided */
+  finalPlace: number | null;
   components: {
     winPct: number;
     starterScore: number;
@@ -174,6 +176,160 @@ export function parsePlayoffResults(
   }));
 }
 
+/**
+ * Whether a Sleeper losers bracket advances the losers of each round
+ * (toilet bowl) rather than the winners (consolation). Read off the
+ * p=1 match's feeders; defaults to toilet bowl when the bracket is a
+ * single round and the two formats can't be told apart.
+ */
+export function losersAdvance(bracket: SleeperBracketMatchup[]): boolean {
+  const final = bracket.find((m) => m.p === 1);
+  const feeders = [final?.t1_from, final?.t2_from].filter(
+    (f): f is { w?: number; l?: number } => f !== undefined && f !== null,
+  );
+  if (feeders.length === 0) return true;
+  return feeders.some((f) => f.l !== undefined);
+}
+
+export interface ConsolationResult {
+  rosterId: number;
+  /**
+   * Finish among losers-bracket teams, 1 = best. Null for teams that left
+   * the bracket without playing a placement match.
+   */
+  placement: number | null;
+}
+
+/**
+ * Parse a Sleeper losers bracket into consolation placements.
+ *
+ * Placement matches carry `p` (1, 3, 5, ...). In a consolation bracket the
+ * winner of match p finishes p-th and the loser (p+1)-th, like the winners
+ * bracket. In a toilet bowl the losers advance, so the loser of p=1 is the
+ * worst team overall and placements count up from the bottom instead.
+ */
+export function parseConsolationResults(
+  bracket: SleeperBracketMatchup[],
+): ConsolationResult[] {
+  if (!bracket || bracket.length === 0) return [];
+
+  const rosterIds = extractBracketRosterIds(bracket);
+  const size = rosterIds.size;
+  const toiletBowl = losersAdvance(bracket);
+
+  const placements = new Map<number, number>();
+  for (const m of bracket) {
+    if (m.p === undefined || m.p === null) continue;
+    if (m.w === null || m.w === undefined || m.l === null || m.l === undefined) continue;
+    if (toiletBowl) {
+      placements.set(m.l, size - m.p + 1);
+      placements.set(m.w, size - m.p);
+    } else {
+      placements.set(m.w, m.p);
+      placements.set(m.l, m.p + 1);
+    }
+  }
+
+  return Array.from(rosterIds).map((id) => ({
+    rosterId: id,
+    placement: placements.get(id) ?? null,
+  }));
+}
+
+// ============================================================
+// Final standings
+// ============================================================
+
+export interface StandingsRoster {
+  rosterId: number;
+  wins: number | null;
+  losses: number | null;
+  ties: number | null;
+  fpts: number | null;
+}
+
+export interface FinalStanding {
+  rosterId: number;
+  /** 1..N final league finish */
+  place: number;
+  /** Bracket the finish came from; null when only the regular season placed the team */
+  bracket: "winners" | "losers" | null;
+}
+
+function compareRegularSeason(a: StandingsRoster, b: StandingsRoster): number {
+  const aWins = (a.wins ?? 0) + (a.ties ?? 0) * 0.5;
+  const bWins = (b.wins ?? 0) + (b.ties ?? 0) * 0.5;
+  return bWins - aWins || (b.fpts ?? 0) - (a.fpts ?? 0) || a.rosterId - b.rosterId;
+}
+
+/**
+ * Final 1..N standings for a completed season.
+ *
+ * Winners-bracket teams take the top places by playoff placement, then
+ * rounds won. Losers-bracket teams take the bottom places by consolation
+ * placement. Anyone in neither bracket sits between the two. Ties and
+ * unplaced teams fall back to regular-season record, except that toilet
+ * bowl teams who escaped without a placement match rank above the teams
+ * still playing for last.
+ *
+ * Returns [] until the winners bracket has crowned a champion.
+ */
+export function computeFinalStandings(
+  rosters: StandingsRoster[],
+  winnersBracket: SleeperBracketMatchup[] | null,
+  losersBracket: SleeperBracketMatchup[] | null,
+  numPlayoffTeams: number,
+): FinalStanding[] {
+  if (!winnersBracket || winnersBracket.length === 0) return [];
+  const playoff = parsePlayoffResults(winnersBracket, numPlayoffTeams);
+  if (!playoff.some((r) => r.placement === 1)) return [];
+
+  const playoffById = new Map(playoff.map((r) => [r.rosterId, r]));
+  const consolation = losersBracket && losersBracket.length > 0
+    ? parseConsolationResults(losersBracket)
+    : [];
+  const consolationById = new Map(consolation.map((r) => [r.rosterId, r]));
+  const toiletBowl = consolation.length > 0 && losersAdvance(losersBracket!);
+
+  const winners: StandingsRoster[] = [];
+  const losers: StandingsRoster[] = [];
+  const neither: StandingsRoster[] = [];
+  for (const r of rosters) {
+    if (playoffById.has(r.rosterId)) winners.push(r);
+    else if (consolationById.has(r.rosterId)) losers.push(r);
+    else neither.push(r);
+  }
+
+  winners.sort((a, b) => {
+    const pa = playoffById.get(a.rosterId)!;
+    const pb = playoffById.get(b.rosterId)!;
+    return (
+      (pa.placement ?? Infinity) - (pb.placement ?? Infinity) ||
+      pb.roundsWon - pa.roundsWon ||
+      compareRegularSeason(a, b)
+    );
+  });
+  neither.sort(compareRegularSeason);
+  // Unplaced toilet bowl teams won their way out, so they rank first
+  const unplaced = toiletBowl ? -Infinity : Infinity;
+  losers.sort((a, b) => {
+    const pa = consolationById.get(a.rosterId)!.placement ?? unplaced;
+    const pb = consolationById.get(b.rosterId)!.placement ?? unplaced;
+    return pa - pb || compareRegularSeason(a, b);
+  });
+
+  const standings: FinalStanding[] = [];
+  const push = (group: StandingsRoster[], bracket: FinalStanding["bracket"]) => {
+    for (const r of group) {
+      standings.push({ rosterId: r.rosterId, place: standings.length + 1, bracket });
+    }
+  };
+  push(winners, "winners");
+  push(neither, null);
+  push(losers, "losers");
+  return standings;
+}
+
 /**
  * Convert a playoff placement to a championship score (0-1).
  */
@@ -206,6 +362,7 @@ export async function computeLeagueMOS(
       season: schema.leagues.season,
       settings: schema.leagues.settings,
       winnersBracket: schema.leagues.winnersBracket,
+      losersBracket: schema.leagues.losersBracket,
     })
     .from(schema.leagues)
     .where(eq(schema.leagues.id, leagueId));
@@ -219,6 +376,7 @@ export async function computeLeagueMOS(
       wins: schema.rosters.wins,
       losses: schema.rosters.losses,
       ties: schema.rosters.ties,
+      fpts: schema.rosters.fpts,
     })
     .from(schema.rosters)
     .where(eq(schema.rosters.leagueId, leagueId));
@@ -258,6 +416,14 @@ export async function computeLeagueMOS(
     : [];
 
   const playoffMap = new Map(playoffResults.map((r) => [r.rosterId, r]));
+  const finalPlaces = new Map(
+    computeFinalStandings(
+      rosters,
+      bracket,
+      league.losersBracket as SleeperBracketMatchup[] | null,
+      numPlayoffTeams,
+    ).map((s) => [s.rosterId, s.place]),
+  );
 
   // Check if playoff/champ data is available
   const hasPlayoffData = playoffResults.length > 0;
@@ -302,6 +468,7 @@ export async function computeLeagueMOS(
       leagueId,
       season: league.season,
       mos,
+      finalPlace: finalPlaces.get(roster.rosterId) ?? null,
       components: { winPct, starterScore, playoffScore, champScore },
     };
   });
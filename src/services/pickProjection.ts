@@ -0,0 +1,429 @@
+/**
+ * Rookie draft pick order projection.
+ *
+ * `traded_picks` says who owns next season's picks but not where they land.
+ * This projects each original roster's draft slot for the season after the
+ * family's latest active league:
+ *
+ *   - the next draft's own order when the commissioner has set it
+ *     (Sleeper `draft_order` → `slot_to_roster_id`);
+ *   - final standings from the winners + losers brackets once the
+ *     champion is decided;
+ *   - otherwise current records plus the expected result of every
+ *     remaining regular-season matchup.
+ *
+ * Non-playoff teams are ordered by standings or, when the league's
+ * `pick_order` setting says so, by max PF (potential points) — lowest
+ * picks first. Playoff teams always follow in reverse finish.
+ */
+
+import { getDb, schema } from "@/db";
+import { eq, inArray } from "drizzle-orm";
+import type { SleeperBracketMatchup } from "@/lib/sleeper";
+import { calculatePickNumber, resolveDraftPicks } from "@/lib/draft";
+import { computeFinalStandings } from "./outcomeScore";
+
+// ============================================================
+// Types
+// ============================================================
+
+export type PickOrderRule = "standings" | "max_pf";
+
+/** Where a projected order came from, most to least certain. */
+export type ProjectionBasis = "draft_order" | "final" | "projected";
+
+export interface ProjectionRoster {
+  rosterId: number;
+  wins: number;
+  losses: number;
+  ties: number;
+  fpts: number;
+  /** Max PF (Sleeper `ppts`) so far */
+  maxPf: number;
+}
+
+export interface ProjectionMatchup {
+  week: number;
+  rosterId: number;
+  matchupId: number | null;
+  points: number;
+}
+
+export interface ProjectedRecord {
+  rosterId: number;
+  /** Current wins plus expected wins from remaining matchups */
+  expectedWins: number;
+  projectedFpts: number;
+  projectedMaxPf: number;
+}
+
+export interface DraftOrderInput {
+  rosters: ProjectionRoster[];
+  matchups: ProjectionMatchup[];
+  playoffWeekStart: number;
+  numPlayoffTeams: number;
+  winnersBracket: SleeperBracketMatchup[] | null;
+  losersBracket: SleeperBracketMatchup[] | null;
+  rule: PickOrderRule;
+}
+
+export interface DraftOrder {
+  /** Roster IDs in draft slot order (slot 1 first) */
+  order: number[];
+  basis: Exclude<ProjectionBasis, "draft_order">;
+}
+
+export interface PickProjection {
+  /** Draft season the projection is for */
+  season: string;
+  basis: ProjectionBasis;
+  rule: PickOrderRule;
+  totalRosters: number;
+  isSnake: boolean;
+  /** originalRosterId → projected draft slot (1-based) */
+  slotByRoster: Map<number, number>;
+}
+
+// ============================================================
+// Configuration
+// ============================================================
+
+/** Weekly score spread assumed until a roster has two scored weeks. */
+const DEFAULT_WEEKLY_STDDEV = 20;
+
+/**
+ * Read the league's non-playoff pick order rule. Anything other than an
+ * explicit max-PF setting falls back to reverse standings.
+ */
+export function pickOrderRule(settings: Record<string, unknown> | null): PickOrderRule {
+  const raw = settings?.pick_order;
+  if (typeof raw === "string" && ["max_pf", "ppts", "potential_points"].includes(raw.toLowerCase())) {
+    return "max_pf";
+  }
+  return "standings";
+}
+
+// ============================================================
+// Record projection
+// ============================================================
+
+/** Standard normal CDF (Abramowitz & Stegun 7.1.26). */
+function normalCdf(z: number): number {
+  const t = 1 / (1 + 0.3275911 * Math.abs(z) / Math.SQRT2);
+  const poly =
+    t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))));
+  const erf = 1 - poly * Math.exp(-(z * z) / 2);
+  return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
+
+/**
+ * Project end-of-regular-season records. Weeks before `playoffWeekStart`
+ * with any points are treated as played; later regular-season weeks are
+ * settled by expected value, with each side's win probability taken from
+ * a normal model of the two rosters' weekly scores so far.
+ */
+export function projectRecords(
+  rosters: ProjectionRoster[],
+  matchups: ProjectionMatchup[],
+  playoffWeekStart: number,
+): ProjectedRecord[] {
+  const regular = matchups.filter((m) => m.week < playoffWeekStart);
+  const playedWeeks = new Set(regular.filter((m) => m.points > 0).map((m) => m.week));
+  const lastPlayed = Math.max(0, ...playedWeeks);
+
+  const weekly = new Map<number, number[]>();
+  for (const m of regular) {
+    if (!playedWeeks.has(m.week)) continue;
+    if (!weekly.has(m.rosterId)) weekly.set(m.rosterId, []);
+    weekly.get(m.rosterId)!.push(m.points);
+  }
+  const stats = new Map<number, { mean: number; sd: number }>();
+  for (const r of rosters) {
+    const scores = weekly.get(r.rosterId) ?? [];
+    const mean = scores.length > 0 ? scores.reduce((a, b) => a + b, 0) / scores.length : 0;
+    const sd =
+      scores.length > 1
+        ? Math.sqrt(scores.reduce((sum, s) => sum + (s - mean) ** 2, 0) / scores.length)
+        : DEFAULT_WEEKLY_STDDEV;
+    stats.set(r.rosterId, { mean, sd: sd || DEFAULT_WEEKLY_STDDEV });
+  }
+
+  const projected = new Map<number, ProjectedRecord>(
+    rosters.map((r) => [
+      r.rosterId,
+      {
+        rosterId: r.rosterId,
+        expectedWins: r.wins + r.ties * 0.5,
+        projectedFpts: r.fpts,
+        projectedMaxPf: r.maxPf,
+      },
+    ]),
+  );
+
+  // Pair remaining matchups by (week, matchupId)
+  const pairs = new Map<string, number[]>();
+  for (const m of regular) {
+    if (m.week <= lastPlayed || m.matchupId === null) continue;
+    const key = `${m.week}:${m.matchupId}`;
+    if (!pairs.has(key)) pairs.set(key, []);
+    pairs.get(key)!.push(m.rosterId);
+  }
+
+  const gamesPlayed = new Map<number, number>();
+  for (const [rosterId, scores] of weekly) gamesPlayed.set(rosterId, scores.length);
+  const remainingGames = new Map<number, number>();
+
+  for (const ids of pairs.values()) {
+    if (ids.length !== 2) continue;
+    const [a, b] = ids;
+    const sa = stats.get(a);
+    const sb = stats.get(b);
+    const ra = projected.get(a);
+    const rb = projected.get(b);
+    if (!sa || !sb || !ra || !rb) continue;
+
+    const pA = normalCdf((sa.mean - sb.mean) / Math.sqrt(sa.sd ** 2 + sb.sd ** 2));
+    ra.expectedWins += pA;
+    rb.expectedWins += 1 - pA;
+    ra.projectedFpts += sa.mean;
+    rb.projectedFpts += sb.mean;
+    remainingGames.set(a, (remainingGames.get(a) ?? 0) + 1);
+    remainingGames.set(b, (remainingGames.get(b) ?? 0) + 1);
+  }
+
+  // Scale max PF to a full season at the current per-game rate
+  for (const record of projected.values()) {
+    const played = gamesPlayed.get(record.rosterId) ?? 0;
+    const remaining = remainingGames.get(record.rosterId) ?? 0;
+    if (played > 0 && remaining > 0) {
+      record.projectedMaxPf = (record.projectedMaxPf * (played + remaining)) / played;
+    }
+  }
+
+  return rosters.map((r) => projected.get(r.rosterId)!);
+}
+
+// ============================================================
+// Draft order
+// ============================================================
+
+/**
+ * Draft slot order for the next rookie draft: from final standings when
+ * the brackets have a champion, else from projected records.
+ */
+export function projectDraftOrder(input: DraftOrderInput): DraftOrder {
+  const { rosters, rule, numPlayoffTeams } = input;
+  const maxPfById = new Map(rosters.map((r) => [r.rosterId, r.maxPf]));
+
+  const final = computeFinalStandings(
+    rosters,
+    input.winnersBracket,
+    input.losersBracket,
+    numPlayoffTeams,
+  );
+
+  let standings: number[]; // best first
+  let playoff: Set<number>;
+  let basis: DraftOrder["basis"];
+
+  if (final.length > 0) {
+    standings = final.map((s) => s.rosterId);
+    playoff = new Set(final.filter((s) => s.bracket === "winners").map((s) => s.rosterId));
+    basis = "final";
+  } else {
+    const records = projectRecords(rosters, input.matchups, input.playoffWeekStart);
+    for (const r of records) maxPfById.set(r.rosterId, r.projectedMaxPf);
+    standings = [...records]
+      .sort(
+        (a, b) =>
+          b.expectedWins - a.expectedWins ||
+          b.projectedFpts - a.projectedFpts ||
+          a.rosterId - b.rosterId,
+      )
+      .map((r) => r.rosterId);
+    playoff = new Set(standings.slice(0, numPlayoffTeams));
+    basis = "projected";
+  }
+
+  return { order: orderDraftSlots(standings, playoff, maxPfById, rule), basis };
+}
+
+/**
+ * Turn best-first standings into draft slot order (slot 1 first): reverse
+ * standings, or max PF ascending for non-playoff teams under the max-PF rule.
+ */
+export function orderDraftSlots(
+  standings: number[],
+  playoff: Set<number>,
+  maxPfById: Map<number, number>,
+  rule: PickOrderRule,
+): number[] {
+  const reversed = [...standings].reverse();
+  if (rule === "standings") return reversed;
+
+  const finishRank = new Map(reversed.map((id, i) => [id, i]));
+  const nonPlayoff = reversed
+    .filter((id) => !playoff.has(id))
+    .sort(
+      (a, b) =>
+        (maxPfById.get(a) ?? 0) - (maxPfById.get(b) ?? 0) ||
+        finishRank.get(a)! - finishRank.get(b)!,
+    );
+  return [...nonPlayoff, ...reversed.filter((id) => playoff.has(id))];
+}
+
+/**
+ * Sleeper-style "round.pick" label, e.g. "1.03". In snake drafts even
+ * rounds run in reverse slot order.
+ */
+export function formatProjectedPick(
+  round: number,
+  slot: number,
+  totalRosters: number,
+  isSnake: boolean,
+): string {
+  const pickNo = calculatePickNumber(round, slot, totalRosters, isSnake);
+  const inRound = pickNo - (round - 1) * totalRosters;
+  return `${round}.${String(inRound).padStart(2, "0")}`;
+}
+
+/** Label for a pick the projection covers, or null for other seasons / unknown rosters. */
+export function projectedPickLabel(
+  projection: PickProjection | null,
+  season: string,
+  round: number,
+  originalRosterId: number,
+): string | null {
+  if (!projection || projection.season !== season) return null;
+  const slot = projection.slotByRoster.get(originalRosterId);
+  if (slot === undefined) return null;
+  return formatProjectedPick(round, slot, projection.totalRosters, projection.isSnake);
+}
+
+// ============================================================
+// Loader
+// ============================================================
+
+const ACTIVE_STATUSES = new Set(["in_season", "complete"]);
+
+export interface ProjectionLeague {
+  league: typeof schema.leagues.$inferSelect;
+  /** Every league ID in the family */
+  leagueIds: string[];
+  rosters: ProjectionRoster[];
+  matchups: ProjectionMatchup[];
+  ownerByRoster: Map<number, string | null>;
+}
+
+/**
+ * Load the family's latest league that has started its season, with the
+ * rosters and matchups projections run on. Null when there is none.
+ */
+export async function loadProjectionLeague(familyId: string): Promise<ProjectionLeague | null> {
+  const db = getDb();
+
+  const members = await db
+    .select({ leagueId: schema.leagueFamilyMembers.leagueId })
+    .from(schema.leagueFamilyMembers)
+    .where(eq(schema.leagueFamilyMembers.familyId, familyId));
+  if (members.length === 0) return null;
+  const leagueIds = members.map((m) => m.leagueId);
+
+  const leagues = await db
+    .select()
+    .from(schema.leagues)
+    .where(inArray(schema.leagues.id, leagueIds));
+  const league = leagues
+    .filter((l) => ACTIVE_STATUSES.has(l.status ?? ""))
+    .sort((a, b) => Number(b.season) - Number(a.season))[0];
+  if (!league) return null;
+
+  const [rosterRows, matchupRows] = await Promise.all([
+    db.select().from(schema.rosters).where(eq(schema.rosters.leagueId, league.id)),
+    db
+      .select({
+        week: schema.matchups.week,
+        rosterId: schema.matchups.rosterId,
+        matchupId: schema.matchups.matchupId,
+        points: schema.matchups.points,
+      })
+      .from(schema.matchups)
+      .where(eq(schema.matchups.leagueId, league.id)),
+  ]);
+
+  const rosters: ProjectionRoster[] = rosterRows.map((r) => {
+    const rs = r.settings as Record<string, number> | null;
+    return {
+      rosterId: r.rosterId,
+      wins: r.wins ?? 0,
+      losses: r.losses ?? 0,
+      ties: r.ties ?? 0,
+      fpts: r.fpts ?? 0,
+      maxPf: (rs?.ppts ?? 0) + (rs?.ppts_decimal ?? 0) / 100,
+    };
+  });
+
+  return {
+    league,
+    leagueIds,
+    rosters,
+    matchups: matchupRows.map((m) => ({ ...m, points: m.points ?? 0 })),
+    ownerByRoster: new Map(rosterRows.map((r) => [r.rosterId, r.ownerId])),
+  };
+}
+
+/**
+ * Project next season's draft slots for a league family. Returns null when
+ * no league in the family has started its season.
+ */
+export async function projectFamilyPicks(familyId: string): Promise<PickProjection | null> {
+  const loaded = await loadProjectionLeague(familyId);
+  if (!loaded) return null;
+  const { league: base, leagueIds, rosters, matchups } = loaded;
+
+  const season = String(Number(base.season) + 1);
+  const settings = base.settings as Record<string, unknown> | null;
+  const rule = pickOrderRule(settings);
+  const { draftsBySeason } = await resolveDraftPicks(leagueIds);
+  const nextDraft = draftsBySeason.get(season);
+  const baseDraft = draftsBySeason.get(base.season);
+  const isSnake = (nextDraft?.type ?? baseDraft?.type ?? "linear") === "snake";
+
+  // Commissioner-set order for the next draft wins outright
+  const setOrder = nextDraft?.slotToRosterId;
+  if (setOrder && Object.keys(setOrder).length > 0) {
+    const slotByRoster = new Map<number, number>();
+    for (const [slot, rosterId] of Object.entries(setOrder)) {
+      slotByRoster.set(rosterId, parseInt(slot, 10));
+    }
+    return {
+      season,
+      basis: "draft_order",
+      rule,
+      totalRosters: nextDraft.totalRosters,
+      isSnake,
+      slotByRoster,
+    };
+  }
+
+  if (rosters.length === 0) return null;
+
+  const { order, basis } = projectDraftOrder({
+    rosters,
+    matchups,
+    playoffWeekStart: (settings?.playoff_week_start as number) ?? 15,
+    numPlayoffTeams: (settings?.playoff_teams as number) ?? 6,
+    winnersBracket: base.winnersBracket as SleeperBracketMatchup[] | null,
+    losersBracket: base.losersBracket as SleeperBracketMatchup[] | null,
+    rule,
+  });
+
+  return {
+    season,
+    basis,
+    rule,
+    totalRosters: base.totalRosters ?? rosters.length,
+    isSnake,
+    slotByRoster: new Map(order.map((rosterId, i) => [rosterId, i + 1])),
+  };
+}
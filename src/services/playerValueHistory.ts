@@ -0,0 +1,332 @@
+/**
+ * Player value-over-time.
+ *
+ * Joins three timelines for one player in a league family:
+ *   - dynasty value: one point per day from `fantasy_calc_value_history`
+ *     (the last fetch of each day, in the family's current scoring format);
+ *   - production: weekly points with a time-decayed trailing PPG, so recent
+ *     weeks count more than last season's;
+ *   - tenure: who rostered the player when, rebuilt from `asset_events`,
+ *     with the value on the way in and out of each stint so buy-high /
+ *     sell-low moves stand out.
+ */
+
+import { and, asc, eq, inArray } from "drizzle-orm";
+import { getDb, schema } from "@/db";
+import { loadLeagueScoringConfig, type FantasyCalcFormat } from "./gradingCore";
+
+// ============================================================
+// Configuration
+// ============================================================
+
+/** Weeks for a game's weight in trailing PPG to halve. */
+export const PPG_HALF_LIFE_WEEKS = 4;
+
+// ============================================================
+// Types
+// ============================================================
+
+export interface ValuePoint {
+  /** YYYY-MM-DD (UTC) */
+  date: string;
+  value: number;
+}
+
+export interface ProductionPoint {
+  date: string;
+  season: string;
+  week: number;
+  points: number;
+  /** Exponentially decayed PPG through this week */
+  trailingPpg: number;
+}
+
+export interface TenureEvent {
+  /** Epoch ms */
+  at: number;
+  eventType: string;
+  transactionId: string | null;
+  fromUserId: string | null;
+  toUserId: string | null;
+}
+
+export interface Tenure {
+  userId: string;
+  displayName: string | null;
+  /** Null when the stint predates the event log */
+  start: string | null;
+  /** Null while the player is still on this roster */
+  end: string | null;
+  acquiredVia: string | null;
+  valueIn: number | null;
+  /** Value when the stint ended, or the latest value for an open stint */
+  valueOut: number | null;
+}
+
+export interface ValueHistoryTransaction {
+  date: string;
+  eventType: string;
+  transactionId: string | null;
+  fromUserId: string | null;
+  fromName: string | null;
+  toUserId: string | null;
+  toName: string | null;
+  value: number | null;
+}
+
+export interface PlayerValueHistory {
+  playerId: string;
+  format: FantasyCalcFormat;
+  values: ValuePoint[];
+  production: ProductionPoint[];
+  tenures: Tenure[];
+  transactions: ValueHistoryTransaction[];
+}
+
+// ============================================================
+// Pure helpers
+// ============================================================
+
+function isoDate(ms: number): string {
+  return new Date(ms).toISOString().slice(0, 10);
+}
+
+/** Collapse FantasyCalc fetches to one value per UTC day (the day's last fetch). */
+export function dailyValues(rows: Array<{ fetchedAt: Date; value: number }>): ValuePoint[] {
+  const byDay = new Map<string, { at: number; value: number }>();
+  for (const row of rows) {
+    const at = row.fetchedAt.getTime();
+    const day = isoDate(at);
+    const current = byDay.get(day);
+    if (!current || at >= current.at) byDay.set(day, { at, value: row.value });
+  }
+  return [...byDay.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([date, { value }]) => ({ date, value }));
+}
+
+/** Latest daily value on or before `date`, or null when the series starts later. */
+export function valueOn(values: ValuePoint[], date: string): number | null {
+  let found: number | null = null;
+  for (const v of values) {
+    if (v.date > date) break;
+    found = v.value;
+  }
+  return found;
+}
+
+/**
+ * Trailing PPG after each game, weighting a game
+ * 0.5^(gamesAgo / PPG_HALF_LIFE_WEEKS). Games must be in order.
+ */
+export function decayedPpg(points: number[], halfLifeWeeks = PPG_HALF_LIFE_WEEKS): number[] {
+  const decay = Math.pow(0.5, 1 / halfLifeWeeks);
+  let weightedSum = 0;
+  let weightTotal = 0;
+  return points.map((p) => {
+    weightedSum = weightedSum * decay + p;
+    weightTotal = weightTotal * decay + 1;
+    return weightedSum / weightTotal;
+  });
+}
+
+/**
+ * Rebuild roster stints from a player's asset events (sorted by time).
+ * An event with `toUserId` opens a stint; one with `fromUserId` closes the
+ * open stint. A first event that only removes the player means they were
+ * rostered before the log began.
+ */
+export function buildTenures(
+  events: TenureEvent[],
+): Array<{ userId: string; start: number | null; end: number | null; acquiredVia: string | null }> {
+  const stints: Array<{ userId: string; start: number | null; end: number | null; acquiredVia: string | null }> = [];
+  let open: (typeof stints)[number] | null = null;
+
+  for (const e of events) {
+    if (e.fromUserId) {
+      if (open && open.userId === e.fromUserId) {
+        open.end = e.at;
+        open = null;
+      } else if (!open && stints.length === 0) {
+        stints.push({ userId: e.fromUserId, start: null, end: e.at, acquiredVia: null });
+      }
+    }
+    if (e.toUserId) {
+      if (open) open.end = e.at;
+      open = { userId: e.toUserId, start: e.at, end: null, acquiredVia: e.eventType };
+      stints.push(open);
+    }
+  }
+  return stints;
+}
+
+// ============================================================
+// Loader
+// ============================================================
+
+/**
+ * Value history for a player across a league family. `nameFor` maps a user
+ * id to a display name so the route can apply the demo swap. Returns null
+ * when the family has no leagues.
+ */
+export async function computePlayerValueHistory(
+  familyId: string,
+  playerId: string,
+  nameFor: (userId: string) => string | null = () => null,
+): Promise<PlayerValueHistory | null> {
+  const db = getDb();
+
+  const members = await db
+    .select({
+      leagueId: schema.leagueFamilyMembers.leagueId,
+      season: schema.leagueFamilyMembers.season,
+    })
+    .from(schema.leagueFamilyMembers)
+    .where(eq(schema.leagueFamilyMembers.familyId, familyId));
+  if (members.length === 0) return null;
+  const leagueIds = members.map((m) => m.leagueId);
+  const seasonByLeague = new Map(members.map((m) => [m.leagueId, m.season]));
+  const latest = [...members].sort((a, b) => Number(b.season) - Number(a.season))[0];
+  const seasons = [...new Set(members.map((m) => Number(m.season)))].filter((s) => !isNaN(s));
+
+  const format = await loadLeagueScoringConfig(latest.leagueId);
+
+  const [historyRows, scoreRows, eventRows, scheduleRows, userRows] = await Promise.all([
+    db
+      .select({
+        fetchedAt: schema.fantasyCalcValueHistory.fetchedAt,
+        value: schema.fantasyCalcValueHistory.value,
+      })
+      .from(schema.fantasyCalcValueHistory)
+      .where(
+        and(
+          eq(schema.fantasyCalcValueHistory.playerId, playerId),
+          eq(schema.fantasyCalcValueHistory.isSuperFlex, format.isSuperFlex),
+          eq(schema.fantasyCalcValueHistory.ppr, format.ppr),
+          eq(schema.fantasyCalcValueHistory.numTeams, format.numTeams),
+          eq(schema.fantasyCalcValueHistory.numQbs, format.numQbs),
+        ),
+      )
+      .orderBy(asc(schema.fantasyCalcValueHistory.fetchedAt)),
+    db
+      .select({
+        leagueId: schema.playerScores.leagueId,
+        week: schema.playerScores.week,
+        points: schema.playerScores.points,
+      })
+      .from(schema.playerScores)
+      .where(
+        and(
+          inArray(schema.playerScores.leagueId, leagueIds),
+          eq(schema.playerScores.playerId, playerId),
+        ),
+      ),
+    db
+      .select()
+      .from(schema.assetEvents)
+      .where(
+        and(
+          inArray(schema.assetEvents.leagueId, leagueIds),
+          eq(schema.assetEvents.playerId, playerId),
+        ),
+      ),
+    seasons.length > 0
+      ? db
+          .select({
+            season: schema.nflSchedule.season,
+            week: schema.nflSchedule.week,
+            gameDate: schema.nflSchedule.gameDate,
+          })
+          .from(schema.nflSchedule)
+          .where(inArray(schema.nflSchedule.season, seasons))
+      : Promise.resolve([]),
+    db
+      .select({
+        userId: schema.leagueUsers.userId,
+        displayName: schema.leagueUsers.displayName,
+      })
+      .from(schema.leagueUsers)
+      .where(inArray(schema.leagueUsers.leagueId, leagueIds)),
+  ]);
+
+  // First game date of each NFL week dates weekly rows and undated events
+  const weekStart = new Map<string, string>();
+  for (const g of scheduleRows) {
+    if (!g.gameDate) continue;
+    const key = `${g.season}:${g.week}`;
+    const current = weekStart.get(key);
+    if (!current || g.gameDate < current) weekStart.set(key, g.gameDate);
+  }
+  const weekDate = (season: string, week: number) => weekStart.get(`${season}:${week}`) ?? null;
+
+  const values = dailyValues(historyRows);
+
+  const games = scoreRows
+    .map((s) => {
+      const season = seasonByLeague.get(s.leagueId) ?? "";
+      return { season, week: s.week, points: s.points ?? 0, date: weekDate(season, s.week) };
+    })
+    .filter((g): g is typeof g & { date: string } => g.date !== null)
+    .sort((a, b) => a.date.localeCompare(b.date));
+  const ppg = decayedPpg(games.map((g) => g.points));
+  const production: ProductionPoint[] = games.map((g, i) => ({
+    date: g.date,
+    season: g.season,
+    week: g.week,
+    points: g.points,
+    trailingPpg: Math.round(ppg[i] * 10) / 10,
+  }));
+
+  const events: TenureEvent[] = [];
+  for (const e of eventRows) {
+    let at = e.createdAt;
+    if (at === null) {
+      const date = weekDate(e.season, e.week);
+      if (!date) continue;
+      at = Date.parse(`${date}T00:00:00Z`);
+    }
+    events.push({
+      at,
+      eventType: e.eventType,
+      transactionId: e.transactionId,
+      fromUserId: e.fromUserId,
+      toUserId: e.toUserId,
+    });
+  }
+  events.sort((a, b) => a.at - b.at);
+
+  const userNames = new Map(userRows.map((u) => [u.userId, u.displayName]));
+  const displayName = (userId: string | null) =>
+    userId ? (nameFor(userId) ?? userNames.get(userId) ?? null) : null;
+  const latestValue = values.length > 0 ? values[values.length - 1].value : null;
+
+  const tenures: Tenure[] = buildTenures(events).map((t) => {
+    const start = t.start === null ? null : isoDate(t.start);
+    const end = t.end === null ? null : isoDate(t.end);
+    return {
+      userId: t.userId,
+      displayName: displayName(t.userId),
+      start,
+      end,
+      acquiredVia: t.acquiredVia,
+      valueIn: start ? valueOn(values, start) : null,
+      valueOut: end ? valueOn(values, end) : latestValue,
+    };
+  });
+
+  const transactions: ValueHistoryTransaction[] = events.map((e) => {
+    const date = isoDate(e.at);
+    return {
+      date,
+      eventType: e.eventType,
+      transactionId: e.transactionId,
+      fromUserId: e.fromUserId,
+      fromName: displayName(e.fromUserId),
+      toUserId: e.toUserId,
+      toName: displayName(e.toUserId),
+      value: valueOn(values, date),
+    };
+  });
+
+  return { playerId, format, values, production, tenures, transactions };
+}
@@ -0,0 +1,292 @@
+/**
+ * Config-version re-grades.
+ *
+ * Trade, draft and waiver grades (and the manager metrics built on them)
+ * are stamped with the config version they were graded under. Promoting or
+ * rolling back a config queues a `regrade` sync job per affected family;
+ * the regrade cron drains that queue, re-grading only families that still
+ * have stale rows.
+ */
+
+import { and, asc, eq, inArray, or, sql, type SQL } from "drizzle-orm";
+import { getDb, schema } from "@/db";
+import type { AnyPgColumn } from "drizzle-orm/pg-core";
+import { REGRADE_JOB_TYPE, resolveActiveConfig } from "@/services/algorithmConfig";
+import { STALE_JOB_TIMEOUT_MS } from "@/services/syncLock";
+import { gradeLeagueTrades } from "@/services/tradeGrading";
+import { gradeLeagueDrafts } from "@/services/draftGrading";
+import { gradeLeagueWaivers } from "@/services/waiverGrading";
+import { rollupManagerGrades } from "@/services/managerGrades";
+
+/** Manager metrics that depend on the algorithm config. */
+const CONFIG_METRICS = ["trade_score", "draft_score", "waiver_score", "manager_process_score"];
+
+export interface StaleGradeCounts {
+  version: string;
+  trades: number;
+  drafts: number;
+  waivers: number;
+  metrics: number;
+}
+
+export interface RegradeJobResult {
+  jobId: string;
+  familyId: string;
+  status: "success" | "skipped" | "failed";
+  stale: number;
+  error?: string;
+}
+
+function staleVersion(column: AnyPgColumn, version: string): SQL {
+  return sql`${column} is distinct from ${version}`;
+}
+
+async function loadFamilyLeagueIds(familyId: string): Promise<string[]> {
+  const db = getDb();
+  const members = await db
+    .select({
+      leagueId: schema.leagueFamilyMembers.leagueId,
+      season: schema.leagueFamilyMembers.season,
+    })
+    .from(schema.leagueFamilyMembers)
+    .where(eq(schema.leagueFamilyMembers.familyId, familyId));
+  return members
+    .sort((a, b) => Number(a.season) - Number(b.season))
+    .map((m) => m.leagueId);
+}
+
+/**
+ * Count a family's grade and metric rows not stamped with its current
+ * config version. Rows graded before stamping (null version) count as stale.
+ */
+export async function countStaleGrades(familyId: string): Promise<StaleGradeCounts> {
+  const db = getDb();
+  const { version } = await resolveActiveConfig(familyId);
+  const leagueIds = await loadFamilyLeagueIds(familyId);
+  if (leagueIds.length === 0) return { version, trades: 0, drafts: 0, waivers: 0, metrics: 0 };
+
+  const count = sql<number>`count(*)`;
+  const [[trades], [drafts], [waivers], [metrics]] = await Promise.all([
+    db
+      .select({ count })
+      .from(schema.tradeGrades)
+      .innerJoin(schema.transactions, eq(schema.tradeGrades.transactionId, schema.transactions.id))
+      .where(
+        and(
+          inArray(schema.transactions.leagueId, leagueIds),
+          staleVersion(schema.tradeGrades.configVersion, version),
+        ),
+      ),
+    db
+      .select({ count })
+      .from(schema.draftGrades)
+      .innerJoin(schema.drafts, eq(schema.draftGrades.draftId, schema.drafts.id))
+      .where(
+        and(
+          inArray(schema.drafts.leagueId, leagueIds),
+          staleVersion(schema.draftGrades.configVersion, version),
+        ),
+      ),
+    db
+      .select({ count })
+      .from(schema.waiverGrades)
+      .innerJoin(schema.transactions, eq(schema.waiverGrades.transactionId, schema.transactions.id))
+      .where(
+        and(
+          inArray(schema.transactions.leagueId, leagueIds),
+          staleVersion(schema.waiverGrades.configVersion, version),
+        ),
+      ),
+    db
+      .select({ count })
+      .from(schema.managerMetrics)
+      .where(
+        and(
+          inArray(schema.managerMetrics.leagueId, leagueIds),
+          or(
+            inArray(schema.managerMetrics.metric, CONFIG_METRICS),
+            eq(schema.managerMetrics.scope, "all_time"),
+          ),
+          staleVersion(schema.managerMetrics.configVersion, version),
+        ),
+      ),
+  ]);
+
+  return {
+    version,
+    trades: Number(trades?.count ?? 0),
+    drafts: Number(drafts?.count ?? 0),
+    waivers: Number(waivers?.count ?? 0),
+    metrics: Number(metrics?.count ?? 0),
+  };
+}
+
+/**
+ * Re-grade every league in a family under its active config, then roll up
+ * the all_time metrics. Reuses the latest FantasyCalc snapshot rather than
+ * re-syncing — only the config changed.
+ */
+export async function regradeFamily(familyId: string): Promise<void> {
+  const syncedAt = new Date();
+  for (const leagueId of await loadFamilyLeagueIds(familyId)) {
+    await gradeLeagueTrades(leagueId, familyId, { syncedAt });
+    await gradeLeagueDrafts(leagueId, familyId, { syncedAt });
+    await gradeLeagueWaivers(leagueId, familyId, { syncedAt });
+  }
+  await rollupManagerGrades(familyId);
+}
+
+/**
+ * Stamp rows a full re-grade left stale with `version`. The graders never
+ * rewrite them — e.g. a season metric for a manager who no longer owns the
+ * roster — so re-grading again would change nothing and requeue forever.
+ */
+async function restampStaleGrades(familyId: string, version: string): Promise<void> {
+  const db = getDb();
+  const leagueIds = await loadFamilyLeagueIds(familyId);
+  if (leagueIds.length === 0) return;
+
+  const leagueTransactions = db
+    .select({ id: schema.transactions.id })
+    .from(schema.transactions)
+    .where(inArray(schema.transactions.leagueId, leagueIds));
+  const leagueDrafts = db
+    .select({ id: schema.drafts.id })
+    .from(schema.drafts)
+    .where(inArray(schema.drafts.leagueId, leagueIds));
+
+  await Promise.all([
+    db
+      .update(schema.tradeGrades)
+      .set({ configVersion: version })
+      .where(
+        and(
+          inArray(schema.tradeGrades.transactionId, leagueTransactions),
+          staleVersion(schema.tradeGrades.configVersion, version),
+        ),
+      ),
+    db
+      .update(schema.draftGrades)
+      .set({ configVersion: version })
+      .where(
+        and(
+          inArray(schema.draftGrades.draftId, leagueDrafts),
+          staleVersion(schema.draftGrades.configVersion, version),
+        ),
+      ),
+    db
+      .update(schema.waiverGrades)
+      .set({ configVersion: version })
+      .where(
+        and(
+          inArray(schema.waiverGrades.transactionId, leagueTransactions),
+          staleVersion(schema.waiverGrades.configVersion, version),
+        ),
+      ),
+    db
+      .update(schema.managerMetrics)
+      .set({ configVersion: version })
+      .where(
+        and(
+          inArray(schema.managerMetrics.leagueId, leagueIds),
+          or(
+            inArray(schema.managerMetrics.metric, CONFIG_METRICS),
+            eq(schema.managerMetrics.scope, "all_time"),
+          ),
+          staleVersion(schema.managerMetrics.configVersion, version),
+        ),
+      ),
+  ]);
+}
+
+/**
+ * Queued jobs, plus running ones older than STALE_JOB_TIMEOUT_MS — their
+ * drain was killed mid-regrade (timeout, crash) and will never finish them.
+ */
+function claimable(): SQL {
+  const staleThreshold = new Date(Date.now() - STALE_JOB_TIMEOUT_MS);
+  return or(
+    eq(schema.syncJobs.status, "queued"),
+    and(eq(schema.syncJobs.status, "running"), sql`${schema.syncJobs.startedAt} < ${staleThreshold}`),
+  )!;
+}
+
+/** Claim the oldest claimable re-grade, or null when there is none. */
+async function claimNextJob(): Promise<{ id: string; familyId: string } | null> {
+  const db = getDb();
+  const [next] = await db
+    .select({ id: schema.syncJobs.id, ref: schema.syncJobs.ref })
+    .from(schema.syncJobs)
+    .where(and(eq(schema.syncJobs.type, REGRADE_JOB_TYPE), claimable()))
+    .orderBy(asc(schema.syncJobs.startedAt))
+    .limit(1);
+  if (!next) return null;
+
+  // Conditional update so two concurrent drains can't claim the same job
+  const [claimed] = await db
+    .update(schema.syncJobs)
+    .set({ status: "running", startedAt: new Date() })
+    .where(and(eq(schema.syncJobs.id, next.id), claimable()))
+    .returning({ id: schema.syncJobs.id });
+  if (!claimed) return claimNextJob();
+  return { id: next.id, familyId: next.ref ?? "" };
+}
+
+/**
+ * Drain queued re-grade jobs until the queue is empty or `budgetMs` has
+ * elapsed. A family whose rows are already current (e.g. a sync re-graded
+ * it since the job was queued) is marked done without re-grading. Rows the
+ * re-grade leaves stale are re-stamped; only a version change mid-run
+ * queues another job.
+ */
+export async function runQueuedRegrades(
+  opts: { budgetMs?: number } = {},
+): Promise<RegradeJobResult[]> {
+  const db = getDb();
+  const budgetMs = opts.budgetMs ?? 20_000;
+  const start = Date.now();
+  const results: RegradeJobResult[] = [];
+
+  while (Date.now() - start < budgetMs) {
+    const job = await claimNextJob();
+    if (!job) break;
+
+    let result: RegradeJobResult;
+    try {
+      const counts = await countStaleGrades(job.familyId);
+      const stale = counts.trades + counts.drafts + counts.waivers + counts.metrics;
+      if (stale > 0) {
+        await regradeFamily(job.familyId);
+        const after = await countStaleGrades(job.familyId);
+        if (after.version !== counts.version) {
+          // A promotion that landed mid-run wasn't queued (this job was
+          // running), so pick it up with a fresh job.
+          await db.insert(schema.syncJobs).values({
+            type: REGRADE_JOB_TYPE,
+            ref: job.familyId,
+            status: "queued",
+            trigger: "manual",
+          });
+        } else if (after.trades + after.drafts + after.waivers + after.metrics > 0) {
+          await restampStaleGrades(job.familyId, after.version);
+        }
+      }
+      result = { jobId: job.id, familyId: job.familyId, status: stale > 0 ? "success" : "skipped", stale };
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      result = { jobId: job.id, familyId: job.familyId, status: "failed", stale: 0, error: message };
+    }
+
+    await db
+      .update(schema.syncJobs)
+      .set({
+        status: result.status === "failed" ? "failed" : "success",
+        error: result.error ?? null,
+        finishedAt: new Date(),
+      })
+      .where(eq(schema.syncJobs.id, job.id));
+    results.push(result);
+  }
+
+  return results;
+}
@@ -0,0 +1,510 @@
+/**
+ * Monte Carlo season simulator.
+ *
+ * Plays out the rest of the family's current season many times. Each
+ * roster's weekly score is drawn from a normal distribution fitted to its
+ * most recent scored weeks; remaining regular-season games come from the
+ * synced `matchup_id` pairings. Playoffs follow Sleeper's winners and losers
+ * brackets when they exist (decided games are kept), otherwise a fixed
+ * bracket seeded from the simulated standings with byes to the top seeds.
+ *
+ * Every run ends in final 1..N standings, so playoff, bye and title odds and
+ * the next rookie draft slot distribution all come from the same sample.
+ * Pass a seed to make a run reproducible.
+ */
+
+import type { SleeperBracketMatchup } from "@/lib/sleeper";
+import { seededRandom } from "@/lib/stats";
+import { computeFinalStandings } from "./outcomeScore";
+import {
+  loadProjectionLeague,
+  orderDraftSlots,
+  pickOrderRule,
+  projectRecords,
+  type DraftOrderInput,
+  type ProjectionMatchup,
+  type ProjectionRoster,
+} from "./pickProjection";
+
+// ============================================================
+// Types
+// ============================================================
+
+export type SimulationInput = DraftOrderInput;
+
+export interface SimulationOptions {
+  /** Number of simulated seasons (default 10,000) */
+  iterations?: number;
+  /** PRNG seed; omit for a random one (reported back in the result) */
+  seed?: number;
+}
+
+export interface RosterOdds {
+  rosterId: number;
+  playoffOdds: number;
+  byeOdds: number;
+  championOdds: number;
+  /** Mean final regular-season wins (ties count half) */
+  expectedWins: number;
+  /** draftSlotOdds[i] = probability of picking at slot i + 1 next season */
+  draftSlotOdds: number[];
+}
+
+export interface SeasonOdds {
+  iterations: number;
+  seed: number;
+  /** Regular-season weeks still to be played */
+  weeksRemaining: number;
+  rosters: RosterOdds[];
+}
+
+export interface FamilySeasonOdds extends SeasonOdds {
+  leagueId: string;
+  season: string;
+  status: string | null;
+  rosters: Array<RosterOdds & { ownerId: string | null }>;
+}
+
+// ============================================================
+// Configuration
+// ============================================================
+
+export const DEFAULT_ITERATIONS = 10_000;
+
+/** Scored weeks per roster used to fit its weekly score distribution. */
+const RECENT_WEEKS = 6;
+
+/** Weekly score spread assumed until a roster has two scored weeks. */
+const DEFAULT_WEEKLY_STDDEV = 20;
+
+/** Family odds kept in process; oldest evicted first. */
+const ODDS_CACHE_MAX_ENTRIES = 200;
+
+// ============================================================
+// Score model
+// ============================================================
+
+interface ScoreModel {
+  mean: number;
+  sd: number;
+}
+
+/**
+ * Fit each roster's weekly score distribution from its last RECENT_WEEKS
+ * scored weeks. Rosters with no scores yet get the league-wide mean.
+ */
+export function fitScoreModels(
+  rosterIds: number[],
+  matchups: ProjectionMatchup[],
+): Map<number, ScoreModel> {
+  const scored = matchups.filter((m) => m.points > 0).sort((a, b) => a.week - b.week);
+  const byRoster = new Map<number, number[]>();
+  for (const m of scored) {
+    if (!byRoster.has(m.rosterId)) byRoster.set(m.rosterId, []);
+    byRoster.get(m.rosterId)!.push(m.points);
+  }
+  const leagueMean =
+    scored.length > 0 ? scored.reduce((sum, m) => sum + m.points, 0) / scored.length : 100;
+
+  const models = new Map<number, ScoreModel>();
+  for (const id of rosterIds) {
+    const recent = (byRoster.get(id) ?? []).slice(-RECENT_WEEKS);
+    if (recent.length === 0) {
+      models.set(id, { mean: leagueMean, sd: DEFAULT_WEEKLY_STDDEV });
+      continue;
+    }
+    const mean = recent.reduce((a, b) => a + b, 0) / recent.length;
+    const sd =
+      recent.length > 1
+        ? Math.sqrt(recent.reduce((sum, s) => sum + (s - mean) ** 2, 0) / recent.length)
+        : DEFAULT_WEEKLY_STDDEV;
+    models.set(id, { mean, sd: sd || DEFAULT_WEEKLY_STDDEV });
+  }
+  return models;
+}
+
+/** Standard normal draw (Box-Muller). */
+function gaussian(rng: () => number): number {
+  const u = 1 - rng(); // (0, 1] so log() stays finite
+  const v = rng();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+}
+
+// ============================================================
+// Brackets
+// ============================================================
+
+type BracketSlot = SleeperBracketMatchup["t1"];
+type BracketFrom = SleeperBracketMatchup["t1_from"];
+
+function resolveSlot(
+  slot: BracketSlot,
+  from: BracketFrom,
+  played: Map<number, SleeperBracketMatchup>,
+): number | null {
+  if (typeof slot === "number") return slot;
+  const source = from ?? slot ?? undefined;
+  if (source?.w !== undefined) return played.get(source.w)?.w ?? null;
+  if (source?.l !== undefined) return played.get(source.l)?.l ?? null;
+  return null;
+}
+
+/**
+ * Fill in every undecided game of a bracket, keeping games that already
+ * have a result. `pickWinner` decides a game between two roster IDs.
+ */
+export function playBracket(
+  bracket: SleeperBracketMatchup[],
+  pickWinner: (a: number, b: number) => number,
+): SleeperBracketMatchup[] {
+  const played = new Map<number, SleeperBracketMatchup>();
+  const result: SleeperBracketMatchup[] = [];
+  for (const m of [...bracket].sort((a, b) => a.r - b.r || a.m - b.m)) {
+    const t1 = resolveSlot(m.t1, m.t1_from, played);
+    const t2 = resolveSlot(m.t2, m.t2_from, played);
+    let { w, l } = m;
+    if ((w === null || l === null) && t1 !== null && t2 !== null) {
+      w = pickWinner(t1, t2);
+      l = w === t1 ? t2 : t1;
+    }
+    const game = { ...m, t1, t2, w, l };
+    played.set(m.m, game);
+    result.push(game);
+  }
+  return result;
+}
+
+/** Standard bracket order for a power-of-two field, e.g. 8 → 1,8,4,5,2,7,3,6. */
+function bracketOrder(size: number): number[] {
+  let order = [1];
+  while (order.length < size) {
+    const n = order.length * 2;
+    order = order.flatMap((seed) => [seed, n + 1 - seed]);
+  }
+  return order;
+}
+
+/**
+ * A fixed single-elimination bracket for `seeds` (best first), in Sleeper's
+ * shape: top seeds get byes when the field isn't a power of two, the final
+ * carries p=1 and the semifinal losers play for third (p=3).
+ */
+export function buildBracket(seeds: number[]): SleeperBracketMatchup[] {
+  if (seeds.length < 2) return [];
+  const size = 2 ** Math.ceil(Math.log2(seeds.length));
+  const rosterAt = (seed: number) => (seed <= seeds.length ? seeds[seed - 1] : null);
+
+  const matches: SleeperBracketMatchup[] = [];
+  let nextMatch = 1;
+  // Each entry is either a seeded roster (bye) or the winner of a match
+  let feeders: Array<{ rosterId: number } | { match: number }> = [];
+
+  const order = bracketOrder(size);
+  for (let i = 0; i < order.length; i += 2) {
+    const a = rosterAt(order[i]);
+    const b = rosterAt(order[i + 1]);
+    if (a !== null && b !== null) {
+      matches.push({ r: 1, m: nextMatch, t1: a, t2: b, w: null, l: null });
+      feeders.push({ match: nextMatch++ });
+    } else {
+      feeders.push({ rosterId: (a ?? b)! });
+    }
+  }
+
+  // Two-team field: the only game is the final
+  if (feeders.length === 1) matches[0].p = 1;
+
+  let round = 2;
+  while (feeders.length > 1) {
+    const next: typeof feeders = [];
+    const isFinal = feeders.length === 2;
+    for (let i = 0; i < feeders.length; i += 2) {
+      const [f1, f2] = [feeders[i], feeders[i + 1]];
+      const game: SleeperBracketMatchup = {
+        r: round,
+        m: nextMatch,
+        t1: "rosterId" in f1 ? f1.rosterId : null,
+        t2: "rosterId" in f2 ? f2.rosterId : null,
+        w: null,
+        l: null,
+      };
+      if ("match" in f1) game.t1_from = { w: f1.match };
+      if ("match" in f2) game.t2_from = { w: f2.match };
+      if (isFinal) game.p = 1;
+      matches.push(game);
+      next.push({ match: nextMatch++ });
+    }
+    // Semifinal losers play for third alongside the final
+    if (isFinal) {
+      const semis = feeders.filter((f): f is { match: number } => "match" in f);
+      if (semis.length === 2) {
+        matches.push({
+          r: round,
+          m: nextMatch++,
+          t1: null,
+          t2: null,
+          w: null,
+          l: null,
+          t1_from: { l: semis[0].match },
+          t2_from: { l: semis[1].match },
+          p: 3,
+        });
+      }
+    }
+    feeders = next;
+    round++;
+  }
+
+  return matches;
+}
+
+/** Playoff teams that skip the first round. */
+function byeTeams(bracket: SleeperBracketMatchup[]): number[] {
+  const firstRound = new Set<number>();
+  const all = new Set<number>();
+  for (const m of bracket) {
+    if (m.p !== undefined && m.p >= 3) continue;
+    for (const t of [m.t1, m.t2]) {
+      if (typeof t !== "number") continue;
+      all.add(t);
+      if (m.r === 1) firstRound.add(t);
+    }
+  }
+  return [...all].filter((id) => !firstRound.has(id));
+}
+
+// ============================================================
+// Simulation
+// ============================================================
+
+function compareRecords(a: ProjectionRoster, b: ProjectionRoster): number {
+  return (
+    b.wins + b.ties * 0.5 - (a.wins + a.ties * 0.5) ||
+    b.fpts - a.fpts ||
+    a.rosterId - b.rosterId
+  );
+}
+
+/**
+ * Simulate the rest of the season `iterations` times and tally each
+ * roster's playoff, bye and title odds plus its next draft slot.
+ */
+export function simulateSeason(
+  input: SimulationInput,
+  options: SimulationOptions = {},
+): SeasonOdds {
+  const iterations = options.iterations ?? DEFAULT_ITERATIONS;
+  const seed = options.seed ?? Math.floor(Math.random() * 2 ** 32);
+  const rng = seededRandom(seed);
+  const { rosters, matchups, playoffWeekStart, numPlayoffTeams, rule } = input;
+  const rosterIds = rosters.map((r) => r.rosterId);
+  const n = rosters.length;
+
+  // Remaining regular-season games, same "played" test as projectRecords
+  const regular = matchups.filter((m) => m.week < playoffWeekStart);
+  const playedWeeks = new Set(regular.filter((m) => m.points > 0).map((m) => m.week));
+  const lastPlayed = Math.max(0, ...playedWeeks);
+  const pairs = new Map<string, number[]>();
+  for (const m of regular) {
+    if (m.week <= lastPlayed || m.matchupId === null) continue;
+    const key = `${m.week}:${m.matchupId}`;
+    if (!pairs.has(key)) pairs.set(key, []);
+    pairs.get(key)!.push(m.rosterId);
+  }
+  const known = new Set(rosterIds);
+  const games = [...pairs.values()].filter(
+    (ids) => ids.length === 2 && known.has(ids[0]) && known.has(ids[1]),
+  );
+  const weeksRemaining = new Set(
+    [...pairs.keys()].map((key) => key.split(":")[0]),
+  ).size;
+
+  const models = fitScoreModels(rosterIds, matchups);
+  const sample = (rosterId: number) => {
+    const model = models.get(rosterId)!;
+    return Math.max(0, model.mean + model.sd * gaussian(rng));
+  };
+  const pickWinner = (a: number, b: number) => (sample(a) >= sample(b) ? a : b);
+
+  // Max PF only matters under the max-PF rule; its projection is deterministic
+  const maxPfById = new Map(
+    projectRecords(rosters, matchups, playoffWeekStart).map((r) => [r.rosterId, r.projectedMaxPf]),
+  );
+
+  const winnersBracket = input.winnersBracket?.length ? input.winnersBracket : null;
+  const losersBracket = input.losersBracket?.length ? input.losersBracket : null;
+
+  const tally = new Map(
+    rosterIds.map((id) => [
+      id,
+      { playoff: 0, bye: 0, champion: 0, wins: 0, slots: new Array<number>(n).fill(0) },
+    ]),
+  );
+
+  for (let i = 0; i < iterations; i++) {
+    const sim = new Map<number, ProjectionRoster>(rosters.map((r) => [r.rosterId, { ...r }]));
+    for (const [a, b] of games) {
+      const pa = sample(a);
+      const pb = sample(b);
+      const ra = sim.get(a)!;
+      const rb = sim.get(b)!;
+      ra.fpts += pa;
+      rb.fpts += pb;
+      if (pa > pb) {
+        ra.wins++;
+        rb.losses++;
+      } else if (pb > pa) {
+        rb.wins++;
+        ra.losses++;
+      } else {
+        ra.ties++;
+        rb.ties++;
+      }
+    }
+    const simRosters = [...sim.values()];
+
+    const bracket =
+      winnersBracket ??
+      buildBracket(
+        [...simRosters]
+          .sort(compareRecords)
+          .slice(0, Math.min(numPlayoffTeams, n))
+          .map((r) => r.rosterId),
+      );
+    const winners = playBracket(bracket, pickWinner);
+    const losers = losersBracket ? playBracket(losersBracket, pickWinner) : null;
+
+    const final = computeFinalStandings(simRosters, winners, losers, numPlayoffTeams);
+    const standings =
+      final.length > 0
+        ? final.map((s) => s.rosterId)
+        : [...simRosters].sort(compareRecords).map((r) => r.rosterId);
+    const playoff = new Set(
+      final.filter((s) => s.bracket === "winners").map((s) => s.rosterId),
+    );
+
+    for (const r of simRosters) tally.get(r.rosterId)!.wins += r.wins + r.ties * 0.5;
+    for (const id of playoff) tally.get(id)!.playoff++;
+    for (const id of byeTeams(winners)) tally.get(id)!.bye++;
+    if (final.length > 0) tally.get(final[0].rosterId)!.champion++;
+    orderDraftSlots(standings, playoff, maxPfById, rule).forEach((id, slot) => {
+      tally.get(id)!.slots[slot]++;
+    });
+  }
+
+  return {
+    iterations,
+    seed,
+    weeksRemaining,
+    rosters: rosterIds.map((id) => {
+      const t = tally.get(id)!;
+      return {
+        rosterId: id,
+        playoffOdds: t.playoff / iterations,
+        byeOdds: t.bye / iterations,
+        championOdds: t.champion / iterations,
+        expectedWins: t.wins / iterations,
+        draftSlotOdds: t.slots.map((count) => count / iterations),
+      };
+    }),
+  };
+}
+
+// ============================================================
+// Loader
+// ============================================================
+
+/**
+ * Fingerprint of everything synced that the simulation depends on: the
+ * latest scored week, how many rows are scored and their total, each
+ * roster's record and which bracket games are decided. Any newly synced
+ * result changes it; re-reading an unchanged league doesn't.
+ */
+export function oddsWatermark(
+  input: Pick<SimulationInput, "rosters" | "matchups" | "winnersBracket" | "losersBracket">,
+): string {
+  let week = 0;
+  let scored = 0;
+  let total = 0;
+  for (const m of input.matchups) {
+    if (m.points <= 0) continue;
+    week = Math.max(week, m.week);
+    scored++;
+    total += m.points;
+  }
+  const records = [...input.rosters]
+    .sort((a, b) => a.rosterId - b.rosterId)
+    .map((r) => `${r.wins}-${r.losses}-${r.ties}`)
+    .join(",");
+  const decided = [...(input.winnersBracket ?? []), ...(input.losersBracket ?? [])]
+    .filter((g) => g.w != null)
+    .map((g) => `${g.m}:${g.w}`)
+    .join(",");
+  return `${week}|${scored}|${total.toFixed(2)}|${records}|${decided}`;
+}
+
+const oddsCache = new Map<string, SeasonOdds>();
+
+/**
+ * Test-only helper. Resets the in-process odds cache so each test starts
+ * from a known state.
+ */
+export function __resetOddsCache(): void {
+  oddsCache.clear();
+}
+
+/**
+ * Simulate the rest of the family's latest started season. Returns null
+ * when no league in the family has started its season.
+ *
+ * Results are cached per league, iteration count and seed, keyed on the
+ * league's `oddsWatermark`, so page loads between syncs reuse one run
+ * instead of re-simulating. Unseeded calls share the cached run and its
+ * reported seed.
+ */
+export async function simulateFamilySeason(
+  familyId: string,
+  options: SimulationOptions = {},
+): Promise<FamilySeasonOdds | null> {
+  const loaded = await loadProjectionLeague(familyId);
+  if (!loaded || loaded.rosters.length === 0) return null;
+  const { league, rosters, matchups, ownerByRoster } = loaded;
+
+  const settings = league.settings as Record<string, unknown> | null;
+  const input: SimulationInput = {
+    rosters,
+    matchups,
+    playoffWeekStart: (settings?.playoff_week_start as number) ?? 15,
+    numPlayoffTeams: (settings?.playoff_teams as number) ?? 6,
+    winnersBracket: league.winnersBracket as SleeperBracketMatchup[] | null,
+    losersBracket: league.losersBracket as SleeperBracketMatchup[] | null,
+    rule: pickOrderRule(settings),
+  };
+
+  const key = [
+    league.id,
+    league.status ?? "",
+    input.playoffWeekStart,
+    input.numPlayoffTeams,
+    input.rule,
+    options.iterations ?? DEFAULT_ITERATIONS,
+    options.seed ?? "auto",
+    oddsWatermark(input),
+  ].join("#");
+  let odds = oddsCache.get(key);
+  if (!odds) {
+    odds = simulateSeason(input, options);
+    if (oddsCache.size >= ODDS_CACHE_MAX_ENTRIES) {
+      oddsCache.delete(oddsCache.keys().next().value as string);
+    }
+    oddsCache.set(key, odds);
+  }
+
+  return {
+    ...odds,
+    leagueId: league.id,
+    season: league.season,
+    status: league.status,
+    rosters: odds.rosters.map((r) => ({ ...r, ownerId: ownerByRoster.get(r.rosterId) ?? null })),
+  };
+}
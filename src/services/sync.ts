@@ -1,4 +1,4 @@
-import { Sleeper } from "@/lib/sleeper";
+import { Sleeper, type SleeperMatchup } from "@/lib/sleeper";
 import { getDb, getSyncDb, schema } from "@/db";
 import { eq, and, sql, inArray } from "drizzle-orm";
 import { syncPlayers } from "@/services/playerSync";
@@ -21,8 +21,8 @@ import { getTotalSleeperCalls } from "@/lib/sleeper/rateLimit";
 
 /**
  * Per-week fetch concurrency for transactions/matchups within a single season.
- * Sits ABOVE the Sleeper rate limiter (src/lib/sleeper.ts) — the limiter still
- * paces every individual request at <=15 RPS, so concurrency just bounds
+ * Sits ABOVE the Sleeper rate limiter (src/lib/sleeper/rateLimit.ts) — the
+ * token bucket still paces every individual request at <=15 RPS, so concurrency just bounds
  * in-flight latency, never doubles up on tokens.
  */
 const PER_WEEK_FETCH_CONCURRENCY = 5;
@@ -70,6 +70,103 @@ async function setWatermark(
     });
 }
 
+type MatchupRow = typeof schema.matchups.$inferInsert;
+type PlayerScoreRow = typeof schema.playerScores.$inferInsert;
+
+/** Flatten one week of Sleeper matchups into `matchups` + `player_scores` rows. */
+function matchupRows(
+  leagueId: string,
+  week: number,
+  matchups: SleeperMatchup[]
+): { matchups: MatchupRow[]; scores: PlayerScoreRow[] } {
+  const out: { matchups: MatchupRow[]; scores: PlayerScoreRow[] } = {
+    matchups: [],
+    scores: [],
+  };
+
+  for (const m of matchups) {
+    out.matchups.push({
+      leagueId,
+      week,
+      rosterId: m.roster_id,
+      matchupId: m.matchup_id,
+      points: m.points || 0,
+      starters: m.starters,
+      starterPoints: m.starters_points,
+      players: m.players,
+      playerPoints: m.players_points,
+    });
+
+    // Extract individual player scores
+    if (m.players_points) {
+      const playerPoints =
+        typeof m.players_points === "object" ? m.players_points : {};
+      const starterSet = new Set(m.starters || []);
+
+      for (const [playerId, points] of Object.entries(playerPoints)) {
+        out.scores.push({
+          leagueId,
+          week,
+          rosterId: m.roster_id,
+          playerId,
+          points: Number(points) || 0,
+          isStarter: starterSet.has(playerId),
+        });
+      }
+    }
+  }
+  return out;
+}
+
+async function upsertMatchups(values: MatchupRow[]): Promise<void> {
+  await batchInsert(schema.matchups, values, (q) =>
+    q.onConflictDoUpdate({
+      target: [
+        schema.matchups.leagueId,
+        schema.matchups.week,
+        schema.matchups.rosterId,
+      ],
+      set: {
+        matchupId: sql`excluded.matchup_id`,
+        points: sql`excluded.points`,
+        starters: sql`excluded.starters`,
+        starterPoints: sql`excluded.starter_points`,
+        players: sql`excluded.players`,
+        playerPoints: sql`excluded.player_points`,
+      },
+    })
+  );
+}
+
+/**
+ * Re-fetch a single week's matchups and rewrite its `matchups` and
+ * `player_scores` rows. Unlike the incremental sync this overwrites
+ * existing scores, so it repairs a week that was stored half-finished.
+ * Returns the number of player score rows written.
+ */
+export async function syncMatchupWeek(
+  leagueId: string,
+  week: number
+): Promise<number> {
+  const rows = matchupRows(leagueId, week, await Sleeper.getMatchups(leagueId, week));
+  await upsertMatchups(rows.matchups);
+  await batchInsert(schema.playerScores, rows.scores, (q) =>
+    q.onConflictDoUpdate({
+      target: [
+        schema.playerScores.leagueId,
+        schema.playerScores.week,
+        schema.playerScores.rosterId,
+        schema.playerScores.playerId,
+      ],
+      set: {
+        points: sql`excluded.points`,
+        isStarter: sql`excluded.is_starter`,
+      },
+    })
+  );
+  return rows.scores.length;
+}
+
 /**
  * Sync all data for a single league season from Sleeper.
  * skipGlobalSyncs: when true, skips players/nflverse/fantasyCalc (hoisted to family level).
@@ -237,7 +334,7 @@ async function runSyncLeague(
   // preserves any prior populated slot_to_roster_id when that happens.
   const draftFetches = await pMapSettled(
     draftSummaries,
-    (s) => Sleeper.getDraft(s.draft_id),
+    (s) => Sleeper.getDraft(s.draft_id, { immutable: s.status === "complete" }),
     PER_WEEK_FETCH_CONCURRENCY
   );
   const drafts = draftFetches.map((r, i) =>
@@ -272,7 +369,7 @@ async function runSyncLeague(
   // Sync draft picks (bulk per draft)
   for (const draft of drafts) {
     if (draft.status !== "complete") continue;
-    const picks = await Sleeper.getDraftPicks(draft.draft_id);
+    const picks = await Sleeper.getDraftPicks(draft.draft_id, { immutable: true });
     await batchInsert(
       schema.draftPicks,
       picks.map((pick) => ({
@@ -315,6 +412,9 @@ async function runSyncLeague(
 
   // Read all watermarks for this league in one query
   const maxWeek = getMaxWeek(league.status);
+  // A completed season's weekly endpoints never change again, so the
+  // Sleeper response store (when configured) can serve them.
+  const seasonFetch = { immutable: league.status === "complete" };
   const watermarks = await getWatermarks(leagueId);
 
   // Sync transactions (incremental via watermark, concurrent per-week fetches)
@@ -325,7 +425,7 @@ async function runSyncLeague(
 
   const txResults = await pMapSettled(
     txWeeks,
-    (week) => Sleeper.getTransactions(leagueId, week),
+    (week) => Sleeper.getTransactions(leagueId, week, seasonFetch),
     PER_WEEK_FETCH_CONCURRENCY
   );
 
@@ -392,7 +492,7 @@ async function runSyncLeague(
 
   const matchupResults = await pMapSettled(
     matchupWeeks,
-    (week) => Sleeper.getMatchups(leagueId, week),
+    (week) => Sleeper.getMatchups(leagueId, week, seasonFetch),
     PER_WEEK_FETCH_CONCURRENCY
   );
 
@@ -407,40 +507,9 @@ async function runSyncLeague(
       matchupErrors.push({ week, reason: r.reason });
       continue;
     }
-    const matchups = r.value;
-    if (!matchups || matchups.length === 0) continue;
-
-    for (const m of matchups) {
-      allMatchupValues.push({
-        leagueId,
-        week,
-        rosterId: m.roster_id,
-        matchupId: m.matchup_id,
-        points: m.points || 0,
-        starters: m.starters,
-        starterPoints: m.starters_points,
-        players: m.players,
-        playerPoints: m.players_points,
-      });
-
-      // Extract individual player scores
-      if (m.players_points) {
-        const playerPoints =
-          typeof m.players_points === "object" ? m.players_points : {};
-        const starterSet = new Set(m.starters || []);
-
-        for (const [playerId, points] of Object.entries(playerPoints)) {
-          allScoreValues.push({
-            leagueId,
-            week,
-            rosterId: m.roster_id,
-            playerId,
-            points: Number(points) || 0,
-            isStarter: starterSet.has(playerId),
-          });
-        }
-      }
-    }
+    const rows = matchupRows(leagueId, week, r.value ?? []);
+    allMatchupValues.push(...rows.matchups);
+    allScoreValues.push(...rows.scores);
   }
 
   if (matchupErrors.length > 0) {
@@ -457,23 +526,7 @@ async function runSyncLeague(
     );
   }
 
-  await batchInsert(schema.matchups, allMatchupValues, (q) =>
-    q.onConflictDoUpdate({
-      target: [
-        schema.matchups.leagueId,
-        schema.matchups.week,
-        schema.matchups.rosterId,
-      ],
-      set: {
-        matchupId: sql`excluded.matchup_id`,
-        points: sql`excluded.points`,
-        starters: sql`excluded.starters`,
-        starterPoints: sql`excluded.starter_points`,
-        players: sql`excluded.players`,
-        playerPoints: sql`excluded.player_points`,
-      },
-    })
-  );
+  await upsertMatchups(allMatchupValues);
 
   await batchInsert(schema.playerScores, allScoreValues, (q) =>
     q.onConflictDoNothing()
@@ -485,7 +538,7 @@ async function runSyncLeague(
     await setWatermark(leagueId, "matchups", matchupWatermarkValue);
   }
 
-  // Sync winners bracket (only when playoffs have started)
+  // Sync winners + losers brackets (only when playoffs have started)
   const playoffStart = (league.settings as Record<string, unknown>)?.playoff_week_start as number | undefined;
   if (playoffStart && maxWeek >= playoffStart) {
     try {
@@ -498,6 +551,17 @@ async function runSyncLeague(
     } catch (err) {
       console.warn(`[sync] Winners bracket fetch failed for ${leagueId}:`, err);
     }
+
+    try {
+      const bracket = await Sleeper.getLosersBracket(leagueId);
+      if (bracket?.length > 0 && bracket.some((m) => m.w !== null)) {
+        await db.update(schema.leagues)
+          .set({ losersBracket: bracket })
+          .where(eq(schema.leagues.id, leagueId));
+      }
+    } catch (err) {
+      console.warn(`[sync] Losers bracket fetch failed for ${leagueId}:`, err);
+    }
   }
 
   // Build asset events from transactions + drafts
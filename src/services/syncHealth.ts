@@ -0,0 +1,329 @@
+/**
+ * Sync health: the operator view of `sync_jobs`.
+ *
+ * Every family sync (lazy, cron, manual) leaves a `league_sync` row with
+ * its status, API-call cost and, for chunked runs, per-stage timings. This
+ * groups the recent rows by family and flags the two states that need a
+ * human: a family whose last few runs all failed, and a `running` row past
+ * the stale threshold — an orphaned lock that `acquireSyncLock` will only
+ * clear the next time something tries to sync that family.
+ */
+
+import { and, desc, eq, gt, inArray } from "drizzle-orm";
+import { getDb, schema } from "@/db";
+import { getFamilyRootRef } from "@/lib/freshness";
+import {
+  acquireSyncLock,
+  STALE_JOB_TIMEOUT_MS,
+  type SyncStageTiming,
+} from "@/services/syncLock";
+
+// ============================================================
+// Types
+// ============================================================
+
+export interface SyncJobRecord {
+  id: string;
+  /** Family root league id the lock is keyed on */
+  ref: string;
+  status: string;
+  trigger: string | null;
+  error: string | null;
+  apiCallsMade: number;
+  stagesCompleted: number;
+  stagesTotal: number | null;
+  currentStage: string | null;
+  stageTimings: SyncStageTiming[];
+  startedAt: Date;
+  finishedAt: Date | null;
+}
+
+export interface SyncJobSummary extends SyncJobRecord {
+  /** Wall-clock time so far for running jobs; null when a failed job never finished */
+  durationMs: number | null;
+  /** Still `running` past the stale threshold */
+  orphaned: boolean;
+}
+
+export interface FamilyRef {
+  familyId: string;
+  name: string;
+}
+
+export interface FamilyBackoff {
+  consecutiveFailures: number;
+  totalFailures: number;
+  lastError: string | null;
+}
+
+export interface FamilySyncHealth {
+  ref: string;
+  /** Null when the ref no longer maps to a family */
+  familyId: string | null;
+  name: string | null;
+  /** Newest first */
+  jobs: SyncJobSummary[];
+  /** Consecutive failed (or orphaned) runs, newest first */
+  failureStreak: number;
+  failing: boolean;
+  orphanedJobId: string | null;
+  /** A live run holds the lock */
+  running: boolean;
+  /** Sleeper calls across the listed jobs */
+  apiCallsMade: number;
+  /** In-season cron backoff state, when the family has one */
+  backoff: FamilyBackoff | null;
+}
+
+export interface SyncHealthReport {
+  families: FamilySyncHealth[];
+  jobsScanned: number;
+  failingStreak: number;
+  staleAfterMs: number;
+  generatedAt: string;
+}
+
+export type ForceResyncResult =
+  | { status: "started"; jobId: string }
+  | { status: "locked"; jobId: string | null }
+  | { status: "no_leagues" };
+
+/** A family is flagged once this many of its latest runs failed in a row. */
+export const FAILING_STREAK = 3;
+/** Jobs kept per family in the report. */
+export const JOBS_PER_FAMILY = 10;
+export const DEFAULT_SCAN_LIMIT = 500;
+export const MAX_SCAN_LIMIT = 2000;
+
+// ============================================================
+// Pure helpers
+// ============================================================
+
+export function isOrphanedLock(job: Pick<SyncJobRecord, "status" | "startedAt">, now: Date): boolean {
+  return job.status === "running" && now.getTime() - job.startedAt.getTime() > STALE_JOB_TIMEOUT_MS;
+}
+
+export function jobDurationMs(
+  job: Pick<SyncJobRecord, "status" | "startedAt" | "finishedAt">,
+  now: Date,
+): number | null {
+  const end = job.finishedAt ?? (job.status === "running" ? now : null);
+  return end ? end.getTime() - job.startedAt.getTime() : null;
+}
+
+/**
+ * Leading failures in a newest-first job list. A live run is skipped (it
+ * hasn't failed yet); an orphaned one counts, since the next lock attempt
+ * will mark it failed.
+ */
+export function failureStreak(jobs: SyncJobRecord[], now: Date): number {
+  let streak = 0;
+  for (const job of jobs) {
+    if (job.status === "failed" || isOrphanedLock(job, now)) streak++;
+    else if (job.status === "running") continue;
+    else break;
+  }
+  return streak;
+}
+
+/** Normalize the `stage_timings` jsonb, dropping malformed entries. */
+export function parseStageTimings(raw: unknown): SyncStageTiming[] {
+  if (!Array.isArray(raw)) return [];
+  return raw.filter(
+    (t): t is SyncStageTiming =>
+      t !== null && typeof t === "object" && typeof t.key === "string" && typeof t.ms === "number",
+  );
+}
+
+/**
+ * Group jobs by family, newest first, and flag failing families and
+ * orphaned locks. Flagged families lead; the rest are ordered by their
+ * latest run.
+ */
+export function summarizeSyncHealth(
+  jobs: SyncJobRecord[],
+  families: Map<string, FamilyRef>,
+  backoff: Map<string, FamilyBackoff>,
+  now: Date,
+): FamilySyncHealth[] {
+  const byRef = new Map<string, SyncJobRecord[]>();
+  for (const job of jobs) byRef.set(job.ref, [...(byRef.get(job.ref) ?? []), job]);
+
+  const report: FamilySyncHealth[] = [];
+  for (const [ref, refJobs] of byRef) {
+    const sorted = refJobs
+      .sort((a, b) => b.startedAt.getTime() - a.startedAt.getTime())
+      .slice(0, JOBS_PER_FAMILY);
+    const summaries = sorted.map((job) => ({
+      ...job,
+      durationMs: jobDurationMs(job, now),
+      orphaned: isOrphanedLock(job, now),
+    }));
+    const streak = failureStreak(sorted, now);
+    const family = families.get(ref);
+
+    report.push({
+      ref,
+      familyId: family?.familyId ?? null,
+      name: family?.name ?? null,
+      jobs: summaries,
+      failureStreak: streak,
+      failing: streak >= FAILING_STREAK,
+      orphanedJobId: summaries.find((j) => j.orphaned)?.id ?? null,
+      running: summaries.some((j) => j.status === "running" && !j.orphaned),
+      apiCallsMade: summaries.reduce((sum, j) => sum + j.apiCallsMade, 0),
+      backoff: (family && backoff.get(family.familyId)) ?? null,
+    });
+  }
+
+  const flagged = (f: FamilySyncHealth) => Number(f.failing || f.orphanedJobId !== null);
+  return report.sort(
+    (a, b) =>
+      flagged(b) - flagged(a) ||
+      b.jobs[0].startedAt.getTime() - a.jobs[0].startedAt.getTime() ||
+      a.ref.localeCompare(b.ref),
+  );
+}
+
+// ============================================================
+// Loaders
+// ============================================================
+
+/** Map lock refs to families: by root league id, then by member league. */
+async function loadFamilies(refs: string[]): Promise<Map<string, FamilyRef>> {
+  const families = new Map<string, FamilyRef>();
+  if (refs.length === 0) return families;
+  const db = getDb();
+
+  const roots = await db
+    .select({
+      ref: schema.leagueFamilies.rootLeagueId,
+      familyId: schema.leagueFamilies.id,
+      name: schema.leagueFamilies.name,
+    })
+    .from(schema.leagueFamilies)
+    .where(inArray(schema.leagueFamilies.rootLeagueId, refs));
+  for (const r of roots) families.set(r.ref, { familyId: r.familyId, name: r.name });
+
+  const missing = refs.filter((ref) => !families.has(ref));
+  if (missing.length > 0) {
+    const members = await db
+      .select({
+        ref: schema.leagueFamilyMembers.leagueId,
+        familyId: schema.leagueFamilies.id,
+        name: schema.leagueFamilies.name,
+      })
+      .from(schema.leagueFamilyMembers)
+      .innerJoin(schema.leagueFamilies, eq(schema.leagueFamilies.id, schema.leagueFamilyMembers.familyId))
+      .where(inArray(schema.leagueFamilyMembers.leagueId, missing));
+    for (const r of members) families.set(r.ref, { familyId: r.familyId, name: r.name });
+  }
+  return families;
+}
+
+async function loadBackoff(familyIds: string[]): Promise<Map<string, FamilyBackoff>> {
+  if (familyIds.length === 0) return new Map();
+  const rows = await getDb()
+    .select({
+      familyId: schema.familySyncState.familyId,
+      consecutiveFailures: schema.familySyncState.consecutiveFailures,
+      totalFailures: schema.familySyncState.totalFailures,
+      lastError: schema.familySyncState.lastError,
+    })
+    .from(schema.familySyncState)
+    .where(inArray(schema.familySyncState.familyId, familyIds));
+  return new Map(rows.map(({ familyId, ...state }) => [familyId, state]));
+}
+
+/**
+ * The latest `limit` family sync jobs, grouped by family. Pass `familyId`
+ * to look at one family.
+ */
+export async function loadSyncHealth(opts: {
+  familyId?: string;
+  limit?: number;
+  now?: Date;
+} = {}): Promise<SyncHealthReport> {
+  const now = opts.now ?? new Date();
+  const limit = Math.min(MAX_SCAN_LIMIT, Math.max(1, opts.limit ?? DEFAULT_SCAN_LIMIT));
+  const report = (families: FamilySyncHealth[], jobsScanned: number): SyncHealthReport => ({
+    families,
+    jobsScanned,
+    failingStreak: FAILING_STREAK,
+    staleAfterMs: STALE_JOB_TIMEOUT_MS,
+    generatedAt: now.toISOString(),
+  });
+
+  const ref = opts.familyId ? await getFamilyRootRef(opts.familyId) : null;
+  if (opts.familyId && !ref) return report([], 0);
+
+  const rows = await getDb()
+    .select({
+      id: schema.syncJobs.id,
+      ref: schema.syncJobs.ref,
+      status: schema.syncJobs.status,
+      trigger: schema.syncJobs.trigger,
+      error: schema.syncJobs.error,
+      apiCallsMade: schema.syncJobs.apiCallsMade,
+      stagesCompleted: schema.syncJobs.stagesCompleted,
+      stagesTotal: schema.syncJobs.stagesTotal,
+      currentStage: schema.syncJobs.currentStage,
+      stageTimings: schema.syncJobs.stageTimings,
+      startedAt: schema.syncJobs.startedAt,
+      finishedAt: schema.syncJobs.finishedAt,
+    })
+    .from(schema.syncJobs)
+    .where(
+      and(
+        eq(schema.syncJobs.type, "league_sync"),
+        ref ? eq(schema.syncJobs.ref, ref) : undefined,
+      ),
+    )
+    .orderBy(desc(schema.syncJobs.startedAt))
+    .limit(limit);
+
+  const jobs: SyncJobRecord[] = rows
+    .filter((r): r is typeof r & { ref: string } => r.ref !== null)
+    .map((r) => ({
+      ...r,
+      apiCallsMade: r.apiCallsMade ?? 0,
+      stagesCompleted: r.stagesCompleted ?? 0,
+      stageTimings: parseStageTimings(r.stageTimings),
+    }));
+
+  const families = await loadFamilies([...new Set(jobs.map((j) => j.ref))]);
+  const backoff = await loadBackoff([...new Set([...families.values()].map((f) => f.familyId))]);
+
+  return report(summarizeSyncHealth(jobs, families, backoff, now), jobs.length);
+}
+
+// ============================================================
+// Force resync
+// ============================================================
+
+/**
+ * Start a manual family sync through the normal lock: a live run wins and
+ * is returned instead, while an orphaned one is cleared by
+ * `acquireSyncLock`. The caller drives the new job with
+ * `/api/sync/jobs/[jobId]/tick`.
+ */
+export async function forceResync(familyId: string): Promise<ForceResyncResult> {
+  const ref = await getFamilyRootRef(familyId);
+  if (!ref) return { status: "no_leagues" };
+
+  const jobId = await acquireSyncLock(ref, { trigger: "manual" });
+  if (jobId) return { status: "started", jobId };
+
+  const [running] = await getDb()
+    .select({ id: schema.syncJobs.id })
+    .from(schema.syncJobs)
+    .where(
+      and(
+        eq(schema.syncJobs.ref, ref),
+        eq(schema.syncJobs.status, "running"),
+        gt(schema.syncJobs.startedAt, new Date(Date.now() - STALE_JOB_TIMEOUT_MS)),
+      ),
+    )
+    .limit(1);
+  return { status: "locked", jobId: running?.id ?? null };
+}
@@ -2,7 +2,8 @@ import { getDb, schema } from "@/db";
 import { eq, and, sql } from "drizzle-orm";
 import type { SyncTrigger } from "@/lib/observability/syncBreadcrumb";
 
-const STALE_JOB_TIMEOUT_MS = 10 * 60 * 1000; // 10 minutes
+/** A running job older than this no longer holds the lock. */
+export const STALE_JOB_TIMEOUT_MS = 10 * 60 * 1000; // 10 minutes
 
 interface AcquireSyncLockOpts {
   /** What kicked off this run. Defaults to "manual" when omitted. */
@@ -170,3 +171,33 @@ export async function updateSyncJobStage(
     // Swallow — observability must never break the caller.
   }
 }
+
+/** Wall-clock time one chunked stage took, as stored on `sync_jobs.stage_timings`. */
+export interface SyncStageTiming {
+  key: string;
+  label: string;
+  ms: number;
+  finishedAt: string;
+}
+
+/**
+ * Append a finished stage's timing to `stage_timings`. Best-effort, like
+ * the other audit writers.
+ */
+export async function recordSyncJobStageTiming(
+  jobId: string,
+  timing: SyncStageTiming
+): Promise<void> {
+  if (!jobId) return;
+  try {
+    const db = getDb();
+    await db
+      .update(schema.syncJobs)
+      .set({
+        stageTimings: sql`coalesce(${schema.syncJobs.stageTimings}, '[]'::jsonb) || ${JSON.stringify([timing])}::jsonb`,
+      })
+      .where(eq(schema.syncJobs.id, jobId));
+  } catch {
+    // Swallow — observability must never break the caller.
+  }
+}
@@ -0,0 +1,439 @@
+import { and, eq, inArray } from "drizzle-orm";
+import { getDb, schema } from "@/db";
+import { resolveFamily } from "@/lib/familyResolution";
+import { solveOptimalLineup } from "@/lib/lineup";
+
+// ============================================================
+// Types
+// ============================================================
+
+export interface CounterfactualMatchupRow {
+  week: number;
+  rosterId: number;
+  matchupId: number | null;
+  points: number;
+  players: string[];
+  playerPoints: Record<string, number>;
+}
+
+/** A player that changed hands in the trade. Picks don't score in-season. */
+export interface TradedPlayerMove {
+  playerId: string;
+  fromRosterId: number;
+  toRosterId: number;
+}
+
+export interface ReplayInput {
+  tradeWeek: number;
+  moves: TradedPlayerMove[];
+  /** Every matchup row for the trade's league-season, all rosters. */
+  matchups: CounterfactualMatchupRow[];
+  playerPositions: Record<string, string>;
+  rosterPositions: string[];
+  /** First playoff week; null ⇒ every week counts toward the regular season. */
+  playoffWeekStart: number | null;
+  playoffTeams: number;
+}
+
+export type WeekResult = "W" | "L" | "T";
+
+export interface CounterfactualRecord {
+  wins: number;
+  losses: number;
+  ties: number;
+  pointsFor: number;
+  seed: number | null;
+  madePlayoffs: boolean;
+}
+
+export interface CounterfactualWeek {
+  week: number;
+  isPlayoff: boolean;
+  opponentRosterId: number | null;
+  actualPoints: number;
+  counterfactualPoints: number;
+  opponentActualPoints: number | null;
+  opponentCounterfactualPoints: number | null;
+  actualResult: WeekResult | null;
+  counterfactualResult: WeekResult | null;
+}
+
+export interface CounterfactualSide {
+  rosterId: number;
+  /** Players this roster received in the trade (removed in the replay). */
+  playersIn: string[];
+  /** Players this roster sent away (restored in the replay while the partner held them). */
+  playersOut: string[];
+  actual: CounterfactualRecord;
+  counterfactual: CounterfactualRecord;
+  /** Counterfactual minus actual points across every replayed week. */
+  pointsDelta: number;
+  /** Weeks whose W/L/T result differs without the trade. */
+  flippedWeeks: number;
+  weeks: CounterfactualWeek[];
+}
+
+export interface SeedChange {
+  rosterId: number;
+  actualSeed: number;
+  counterfactualSeed: number;
+}
+
+export interface ReplayResult {
+  lastWeek: number | null;
+  sides: CounterfactualSide[];
+  /** Every roster whose regular-season seed moves, including bystanders. */
+  seedChanges: SeedChange[];
+}
+
+export interface TradeCounterfactual extends ReplayResult {
+  transactionId: string;
+  leagueId: string;
+  season: string;
+  tradeWeek: number;
+  playoffWeekStart: number | null;
+  playoffTeams: number;
+  /** Traded picks are left out of the replay — they can't score this season. */
+  picksExcluded: number;
+}
+
+// ============================================================
+// Replay (pure)
+// ============================================================
+
+function resultOf(points: number, opponentPoints: number): WeekResult {
+  if (points > opponentPoints) return "W";
+  if (points < opponentPoints) return "L";
+  return "T";
+}
+
+function emptyRecord(): CounterfactualRecord {
+  return { wins: 0, losses: 0, ties: 0, pointsFor: 0, seed: null, madePlayoffs: false };
+}
+
+/**
+ * Rank rosters by win percentage, then points for — Sleeper's default
+ * tiebreak. Mutates `seed` and `madePlayoffs` on each record.
+ */
+function assignSeeds(records: Map<number, CounterfactualRecord>, playoffTeams: number): void {
+  const ranked = [...records.entries()].sort(([aId, a], [bId, b]) => {
+    const aPct = a.wins + a.ties / 2;
+    const bPct = b.wins + b.ties / 2;
+    if (bPct !== aPct) return bPct - aPct;
+    if (b.pointsFor !== a.pointsFor) return b.pointsFor - a.pointsFor;
+    return aId - bId;
+  });
+  ranked.forEach(([, record], i) => {
+    record.seed = i + 1;
+    record.madePlayoffs = i < playoffTeams;
+  });
+}
+
+function round2(n: number): number {
+  return Math.round(n * 100) / 100;
+}
+
+/**
+ * Replay a league-season as if a trade never happened.
+ *
+ * From the trade week on, each traded player is moved back to the roster that
+ * sent them for every week the partner still rostered them. Both rosters'
+ * optimal lineups are re-solved with and without the trade, and the
+ * difference is applied to the points they actually scored — so a manager's
+ * lineup-setting skill is held constant and only the talent swap moves the
+ * total. Every other roster's score is untouched. Wins and regular-season seeding are
+ * then recomputed for the whole league from the weeks played so far.
+ */
+export function replayTradeCounterfactual(input: ReplayInput): ReplayResult {
+  const {
+    tradeWeek,
+    moves,
+    matchups,
+    playerPositions,
+    rosterPositions,
+    playoffWeekStart,
+    playoffTeams,
+  } = input;
+
+  const sideIds = [
+    ...new Set(moves.flatMap((m) => [m.fromRosterId, m.toRosterId])),
+  ].sort((a, b) => a - b);
+
+  const byWeekRoster = new Map<string, CounterfactualMatchupRow>();
+  for (const m of matchups) byWeekRoster.set(`${m.week}:${m.rosterId}`, m);
+
+  // Counterfactual points per (week, roster); absent ⇒ same as actual.
+  const cfPoints = new Map<string, number>();
+  for (const m of matchups) {
+    if (m.week < tradeWeek || !sideIds.includes(m.rosterId)) continue;
+
+    const pool = new Map<string, number>();
+    for (const p of m.players) pool.set(p, m.playerPoints[p] ?? 0);
+
+    let changed = false;
+    for (const move of moves) {
+      if (move.toRosterId === m.rosterId && pool.has(move.playerId)) {
+        pool.delete(move.playerId);
+        changed = true;
+      }
+      if (move.fromRosterId === m.rosterId) {
+        const holder = byWeekRoster.get(`${m.week}:${move.toRosterId}`);
+        if (holder?.players.includes(move.playerId)) {
+          pool.set(move.playerId, holder.playerPoints[move.playerId] ?? 0);
+          changed = true;
+        }
+      }
+    }
+    if (!changed) continue;
+
+    const actualOptimal = solveOptimalLineup(
+      m.playerPoints,
+      playerPositions,
+      rosterPositions,
+    ).optimalPoints;
+    const replayOptimal = solveOptimalLineup(
+      Object.fromEntries(pool),
+      playerPositions,
+      rosterPositions,
+    ).optimalPoints;
+    cfPoints.set(
+      `${m.week}:${m.rosterId}`,
+      round2(m.points + replayOptimal - actualOptimal),
+    );
+  }
+
+  const pointsFor = (m: CounterfactualMatchupRow, replay: boolean) =>
+    replay ? (cfPoints.get(`${m.week}:${m.rosterId}`) ?? m.points) : m.points;
+
+  // Pair opponents by (week, matchupId)
+  const pairings = new Map<string, CounterfactualMatchupRow[]>();
+  for (const m of matchups) {
+    if (m.matchupId === null) continue;
+    const key = `${m.week}:${m.matchupId}`;
+    if (!pairings.has(key)) pairings.set(key, []);
+    pairings.get(key)!.push(m);
+  }
+  const opponentOf = new Map<string, CounterfactualMatchupRow>();
+  for (const pair of pairings.values()) {
+    if (pair.length !== 2) continue;
+    opponentOf.set(`${pair[0].week}:${pair[0].rosterId}`, pair[1]);
+    opponentOf.set(`${pair[1].week}:${pair[1].rosterId}`, pair[0]);
+  }
+
+  const isRegularSeason = (week: number) =>
+    playoffWeekStart === null || week < playoffWeekStart;
+
+  // In-season leagues sync every week up front with 0 points; a week counts
+  // once both sides have scored (the headToHead convention).
+  const isPlayed = (m: CounterfactualMatchupRow) => {
+    const opp = opponentOf.get(`${m.week}:${m.rosterId}`);
+    return m.points > 0 && (!opp || opp.points > 0);
+  };
+
+  const actualRecords = new Map<number, CounterfactualRecord>();
+  const replayRecords = new Map<number, CounterfactualRecord>();
+  for (const m of matchups) {
+    if (!actualRecords.has(m.rosterId)) {
+      actualRecords.set(m.rosterId, emptyRecord());
+      replayRecords.set(m.rosterId, emptyRecord());
+    }
+    if (!isRegularSeason(m.week) || !isPlayed(m)) continue;
+    const opp = opponentOf.get(`${m.week}:${m.rosterId}`);
+    for (const [records, replay] of [
+      [actualRecords, false],
+      [replayRecords, true],
+    ] as const) {
+      const rec = records.get(m.rosterId)!;
+      const pts = pointsFor(m, replay);
+      rec.pointsFor = round2(rec.pointsFor + pts);
+      if (!opp) continue;
+      const result = resultOf(pts, pointsFor(opp, replay));
+      if (result === "W") rec.wins++;
+      else if (result === "L") rec.losses++;
+      else rec.ties++;
+    }
+  }
+  assignSeeds(actualRecords, playoffTeams);
+  assignSeeds(replayRecords, playoffTeams);
+
+  const sides: CounterfactualSide[] = sideIds.map((rosterId) => {
+    const weeks: CounterfactualWeek[] = matchups
+      .filter((m) => m.rosterId === rosterId && m.week >= tradeWeek && isPlayed(m))
+      .sort((a, b) => a.week - b.week)
+      .map((m) => {
+        const opp = opponentOf.get(`${m.week}:${m.rosterId}`) ?? null;
+        const actualPoints = pointsFor(m, false);
+        const counterfactualPoints = pointsFor(m, true);
+        const oppActual = opp ? pointsFor(opp, false) : null;
+        const oppReplay = opp ? pointsFor(opp, true) : null;
+        return {
+          week: m.week,
+          isPlayoff: !isRegularSeason(m.week),
+          opponentRosterId: opp?.rosterId ?? null,
+          actualPoints,
+          counterfactualPoints,
+          opponentActualPoints: oppActual,
+          opponentCounterfactualPoints: oppReplay,
+          actualResult: oppActual === null ? null : resultOf(actualPoints, oppActual),
+          counterfactualResult:
+            oppReplay === null ? null : resultOf(counterfactualPoints, oppReplay),
+        };
+      });
+
+    return {
+      rosterId,
+      playersIn: moves.filter((m) => m.toRosterId === rosterId).map((m) => m.playerId),
+      playersOut: moves.filter((m) => m.fromRosterId === rosterId).map((m) => m.playerId),
+      actual: actualRecords.get(rosterId) ?? emptyRecord(),
+      counterfactual: replayRecords.get(rosterId) ?? emptyRecord(),
+      pointsDelta: round2(
+        weeks.reduce((sum, w) => sum + w.counterfactualPoints - w.actualPoints, 0),
+      ),
+      flippedWeeks: weeks.filter((w) => w.actualResult !== w.counterfactualResult).length,
+      weeks,
+    };
+  });
+
+  const seedChanges: SeedChange[] = [];
+  for (const [rosterId, actual] of actualRecords) {
+    const replay = replayRecords.get(rosterId)!;
+    if (actual.seed !== replay.seed) {
+      seedChanges.push({
+        rosterId,
+        actualSeed: actual.seed!,
+        counterfactualSeed: replay.seed!,
+      });
+    }
+  }
+  seedChanges.sort((a, b) => a.actualSeed - b.actualSeed);
+
+  const replayedWeeks = sides.flatMap((s) => s.weeks.map((w) => w.week));
+  const lastWeek = replayedWeeks.length > 0 ? Math.max(...replayedWeeks) : null;
+
+  return { lastWeek, sides, seedChanges };
+}
+
+// ============================================================
+// Loader
+// ============================================================
+
+/**
+ * Replay the season of a trade without it. Scope is the trade's own
+ * league-season: rosters roll over between seasons, so later years would need
+ * every subsequent move replayed too.
+ *
+ * Returns null if the family or trade can't be found, or the transaction
+ * isn't a trade in this family.
+ */
+export async function computeTradeCounterfactual(
+  familyId: string,
+  transactionId: string,
+): Promise<TradeCounterfactual | null> {
+  const db = getDb();
+  const resolvedFamilyId = await resolveFamily(familyId);
+  if (!resolvedFamilyId) return null;
+
+  const [tx] = await db
+    .select()
+    .from(schema.transactions)
+    .where(eq(schema.transactions.id, transactionId))
+    .limit(1);
+  if (!tx || tx.type !== "trade") return null;
+
+  const [member] = await db
+    .select({ season: schema.leagueFamilyMembers.season })
+    .from(schema.leagueFamilyMembers)
+    .where(
+      and(
+        eq(schema.leagueFamilyMembers.familyId, resolvedFamilyId),
+        eq(schema.leagueFamilyMembers.leagueId, tx.leagueId),
+      ),
+    )
+    .limit(1);
+  if (!member) return null;
+
+  const [league] = await db
+    .select({
+      settings: schema.leagues.settings,
+      rosterPositions: schema.leagues.rosterPositions,
+    })
+    .from(schema.leagues)
+    .where(eq(schema.leagues.id, tx.leagueId))
+    .limit(1);
+
+  const settings = (league?.settings ?? {}) as Record<string, unknown>;
+  const playoffWeekStart = (settings.playoff_week_start as number | undefined) || null;
+  const playoffTeams = (settings.playoff_teams as number | undefined) ?? 6;
+  const rosterPositions = (league?.rosterPositions as string[] | null) ?? [];
+
+  const adds = (tx.adds ?? {}) as Record<string, number>;
+  const drops = (tx.drops ?? {}) as Record<string, number>;
+  const moves: TradedPlayerMove[] = Object.entries(adds)
+    .filter(([playerId]) => drops[playerId] !== undefined)
+    .map(([playerId, toRosterId]) => ({
+      playerId,
+      fromRosterId: drops[playerId],
+      toRosterId,
+    }));
+  const picksExcluded = ((tx.draftPicks ?? []) as unknown[]).length;
+
+  const matchupRows = await db
+    .select({
+      week: schema.matchups.week,
+      rosterId: schema.matchups.rosterId,
+      matchupId: schema.matchups.matchupId,
+      points: schema.matchups.points,
+      players: schema.matchups.players,
+      playerPoints: schema.matchups.playerPoints,
+    })
+    .from(schema.matchups)
+    .where(eq(schema.matchups.leagueId, tx.leagueId));
+
+  const matchups: CounterfactualMatchupRow[] = matchupRows.map((m) => ({
+    week: m.week,
+    rosterId: m.rosterId,
+    matchupId: m.matchupId,
+    points: m.points ?? 0,
+    players: (m.players as string[] | null) ?? [],
+    playerPoints: (m.playerPoints as Record<string, number> | null) ?? {},
+  }));
+
+  // Positions are only needed for the two rosters being re-solved.
+  const sideIds = new Set(moves.flatMap((m) => [m.fromRosterId, m.toRosterId]));
+  const playerIds = new Set<string>();
+  for (const m of matchups) {
+    if (m.week < tx.week || !sideIds.has(m.rosterId)) continue;
+    for (const p of m.players) playerIds.add(p);
+  }
+  const playerPositions: Record<string, string> = {};
+  if (playerIds.size > 0) {
+    const rows = await db
+      .select({ id: schema.players.id, position: schema.players.position })
+      .from(schema.players)
+      .where(inArray(schema.players.id, [...playerIds]));
+    for (const r of rows) {
+      if (r.position) playerPositions[r.id] = r.position;
+    }
+  }
+
+  const replay = replayTradeCounterfactual({
+    tradeWeek: tx.week,
+    moves,
+    matchups,
+    playerPositions,
+    rosterPositions,
+    playoffWeekStart,
+    playoffTeams,
+  });
+
+  return {
+    transactionId: tx.id,
+    leagueId: tx.leagueId,
+    season: member.season,
+    tradeWeek: tx.week,
+    playoffWeekStart,
+    playoffTeams,
+    picksExcluded,
+    ...replay,
+  };
+}
@@ -0,0 +1,595 @@
+import { and, desc, eq, inArray } from "drizzle-orm";
+import { getDb, schema } from "@/db";
+import { resolveFamily } from "@/lib/familyResolution";
+import { solveOptimalLineup } from "@/lib/lineup";
+import { fantasyCalcPickId, parsePickRound } from "@/lib/fantasycalc";
+import { getRoundSuffix } from "@/lib/utils";
+import { effectiveValue, loadLeagueScoringConfig } from "@/services/gradingCore";
+import { DEFAULT_ROUND_AVERAGES } from "@/services/tradeGrading";
+
+// ============================================================
+// Configuration
+// ============================================================
+
+/** Positions FantasyCalc values — the only ones we can balance packages on. */
+const VALUED_POSITIONS = ["QB", "RB", "WR", "TE"] as const;
+
+/** Startable-count gap vs. the league's average starters at which a position becomes a need / surplus. */
+const NEED_GAP = 1;
+const SURPLUS_GAP = 1;
+
+/** Sleeper lets leagues trade the current draft plus this many seasons of picks. */
+const FUTURE_PICK_SEASONS = 3;
+
+/** Packages whose sides differ by less than this fraction are left alone. */
+const BALANCE_TOLERANCE = 0.1;
+/** Suggestions still this lopsided after adding picks are dropped. */
+const MAX_IMBALANCE = 0.2;
+const MAX_BALANCING_PICKS = 2;
+const MAX_SUGGESTIONS = 10;
+
+// ============================================================
+// Types
+// ============================================================
+
+export interface FinderAsset {
+  kind: "player" | "pick";
+  /** Sleeper player id, or `season:round:originalRosterId` for picks. */
+  id: string;
+  label: string;
+  position: string | null;
+  /** Raw FantasyCalc value. */
+  value: number;
+  /** Value above the replacement floor — what packages are balanced on. */
+  effective: number;
+}
+
+export interface FinderRoster {
+  rosterId: number;
+  ownerId: string | null;
+  name: string;
+  players: FinderAsset[];
+  picks: FinderAsset[];
+}
+
+export type ExposureStatus = "need" | "ok" | "surplus";
+
+export interface PositionExposure {
+  position: string;
+  /** Players at or above the league's startable-value line. */
+  startable: number;
+  /** Average starters per team at this position across the league. */
+  expected: number;
+  depth: number;
+  status: ExposureStatus;
+}
+
+export interface RosterExposure {
+  rosterId: number;
+  name: string;
+  totalValue: number;
+  positions: PositionExposure[];
+}
+
+export interface TradeSuggestion {
+  partnerRosterId: number;
+  partnerName: string;
+  give: FinderAsset[];
+  get: FinderAsset[];
+  giveValue: number;
+  getValue: number;
+  /** |give − get| / max(give, get) on effective value. */
+  imbalance: number;
+  reasons: string[];
+}
+
+export interface TradeFinderResult {
+  leagueId: string;
+  season: string;
+  rosterId: number;
+  exposures: RosterExposure[];
+  suggestions: TradeSuggestion[];
+}
+
+// ============================================================
+// Exposure analysis (pure)
+// ============================================================
+
+/**
+ * Grade every roster's positional depth against the league.
+ *
+ * Each roster's value-optimal lineup is solved to learn how many starters the
+ * league fields at each position (flex slots split however the talent
+ * falls). The value of the Nth-best player at a position — N being that
+ * league-wide starter count — is the startable line. A roster's exposure is
+ * its startable count against the per-team average.
+ */
+export function analyzeExposure(
+  rosters: FinderRoster[],
+  rosterPositions: string[],
+): Map<number, RosterExposure> {
+  const positions: Record<string, string> = {};
+  for (const r of rosters) {
+    for (const p of r.players) if (p.position) positions[p.id] = p.position;
+  }
+
+  const leagueStarters = new Map<string, number>();
+  for (const r of rosters) {
+    const values = Object.fromEntries(r.players.map((p) => [p.id, p.value]));
+    const { optimalStarters } = solveOptimalLineup(values, positions, rosterPositions);
+    for (const id of optimalStarters) {
+      const pos = positions[id];
+      leagueStarters.set(pos, (leagueStarters.get(pos) ?? 0) + 1);
+    }
+  }
+
+  const thresholds = new Map<string, number>();
+  for (const pos of VALUED_POSITIONS) {
+    const starters = leagueStarters.get(pos) ?? 0;
+    if (starters === 0) continue;
+    const values = rosters
+      .flatMap((r) => r.players)
+      .filter((p) => p.position === pos && p.value > 0)
+      .map((p) => p.value)
+      .sort((a, b) => b - a);
+    if (values.length === 0) continue;
+    thresholds.set(pos, values[Math.min(starters, values.length) - 1]);
+  }
+
+  const result = new Map<number, RosterExposure>();
+  for (const r of rosters) {
+    const exposures: PositionExposure[] = [];
+    for (const [pos, threshold] of thresholds) {
+      const atPos = r.players.filter((p) => p.position === pos);
+      const startable = atPos.filter((p) => p.value >= threshold).length;
+      const expected = (leagueStarters.get(pos) ?? 0) / rosters.length;
+      const gap = startable - expected;
+      exposures.push({
+        position: pos,
+        startable,
+        expected: Math.round(expected * 10) / 10,
+        depth: atPos.length,
+        status: gap <= -NEED_GAP ? "need" : gap >= SURPLUS_GAP ? "surplus" : "ok",
+      });
+    }
+    result.set(r.rosterId, {
+      rosterId: r.rosterId,
+      name: r.name,
+      totalValue: Math.round(
+        [...r.players, ...r.picks].reduce((sum, a) => sum + a.value, 0),
+      ),
+      positions: exposures,
+    });
+  }
+  return result;
+}
+
+// ============================================================
+// Suggestions (pure)
+// ============================================================
+
+const COUNT_WORDS = ["no", "one", "two", "three", "four", "five", "six"];
+
+function countWord(n: number): string {
+  return COUNT_WORDS[n] ?? String(n);
+}
+
+function byPosition(exposure: RosterExposure): Map<string, PositionExposure> {
+  return new Map(exposure.positions.map((p) => [p.position, p]));
+}
+
+/**
+ * The best player a roster can spare at a position: the first one ranked
+ * past its share of starters. Null when it has nothing beyond its starters.
+ */
+function sparePlayer(
+  roster: FinderRoster,
+  exposure: PositionExposure,
+): FinderAsset | null {
+  const atPos = roster.players
+    .filter((p) => p.position === exposure.position)
+    .sort((a, b) => b.value - a.value);
+  const keep = Math.max(1, Math.ceil(exposure.expected));
+  return atPos[keep] ?? null;
+}
+
+function sumEffective(assets: FinderAsset[]): number {
+  return assets.reduce((sum, a) => sum + a.effective, 0);
+}
+
+/**
+ * Close the value gap with picks from the short side: largest pick that
+ * doesn't overshoot the remaining gap (plus tolerance) first.
+ */
+function balanceWithPicks(
+  give: FinderAsset[],
+  get: FinderAsset[],
+  myPicks: FinderAsset[],
+  theirPicks: FinderAsset[],
+): { give: FinderAsset[]; get: FinderAsset[] } {
+  const giveEff = sumEffective(give);
+  const getEff = sumEffective(get);
+  const short = giveEff < getEff ? "give" : "get";
+  const pool = [...(short === "give" ? myPicks : theirPicks)].sort(
+    (a, b) => b.effective - a.effective,
+  );
+  const added: FinderAsset[] = [];
+  let gap = Math.abs(giveEff - getEff);
+  const tolerance = BALANCE_TOLERANCE * Math.max(giveEff, getEff);
+
+  for (const pick of pool) {
+    if (gap <= tolerance || added.length >= MAX_BALANCING_PICKS) break;
+    if (pick.effective <= 0 || pick.effective > gap + tolerance) continue;
+    added.push(pick);
+    gap -= pick.effective;
+  }
+
+  return short === "give"
+    ? { give: [...give, ...added], get }
+    : { give, get: [...get, ...added] };
+}
+
+function describeNeed(
+  who: string,
+  need: PositionExposure,
+  surplus: PositionExposure | null,
+): string {
+  const needText =
+    need.startable === 0
+      ? `no startable ${need.position}`
+      : `only ${countWord(need.startable)} startable ${need.position}`;
+  if (surplus) {
+    return `${who} ${who === "You" ? "have" : "has"} ${surplus.position} depth (${surplus.startable} startable) but ${needText}`;
+  }
+  return `${who} ${who === "You" ? "have" : "has"} ${needText} (league average ${need.expected})`;
+}
+
+/**
+ * Value-balanced packages with every other roster, built around positional
+ * fits: what we have spare at a position they're short on, and vice versa.
+ * One-sided fits are paid for in future picks.
+ */
+export function findTradeSuggestions(
+  myRosterId: number,
+  rosters: FinderRoster[],
+  exposures: Map<number, RosterExposure>,
+): TradeSuggestion[] {
+  const me = rosters.find((r) => r.rosterId === myRosterId);
+  const myExposure = exposures.get(myRosterId);
+  if (!me || !myExposure) return [];
+  const mine = byPosition(myExposure);
+
+  const scored: Array<{ suggestion: TradeSuggestion; score: number }> = [];
+
+  for (const partner of rosters) {
+    if (partner.rosterId === myRosterId) continue;
+    const partnerExposure = exposures.get(partner.rosterId);
+    if (!partnerExposure) continue;
+    const theirs = byPosition(partnerExposure);
+
+    // What we can send: our surplus at a position they need
+    let giveFit: { mine: PositionExposure; theirs: PositionExposure } | null = null;
+    // What we can ask for: their surplus at a position we need
+    let getFit: { mine: PositionExposure; theirs: PositionExposure } | null = null;
+    for (const [pos, exp] of mine) {
+      const other = theirs.get(pos);
+      if (!other) continue;
+      const severity = (a: PositionExposure) => a.expected - a.startable;
+      if (exp.status === "surplus" && other.status === "need") {
+        if (!giveFit || severity(other) > severity(giveFit.theirs)) {
+          giveFit = { mine: exp, theirs: other };
+        }
+      }
+      if (exp.status === "need" && other.status === "surplus") {
+        if (!getFit || severity(exp) > severity(getFit.mine)) {
+          getFit = { mine: exp, theirs: other };
+        }
+      }
+    }
+    if (!giveFit && !getFit) continue;
+
+    const giveCore = giveFit ? sparePlayer(me, giveFit.mine) : null;
+    const getCore = getFit ? sparePlayer(partner, getFit.theirs) : null;
+    if (!giveCore && !getCore) continue;
+
+    const { give, get } = balanceWithPicks(
+      giveCore ? [giveCore] : [],
+      getCore ? [getCore] : [],
+      me.picks,
+      partner.picks,
+    );
+    if (give.length === 0 || get.length === 0) continue;
+
+    const giveValue = sumEffective(give);
+    const getValue = sumEffective(get);
+    const imbalance =
+      Math.abs(giveValue - getValue) / Math.max(giveValue, getValue, 1);
+    if (imbalance > MAX_IMBALANCE) continue;
+
+    const reasons: string[] = [];
+    if (giveFit && giveCore) {
+      reasons.push(
+        describeNeed(partner.name, giveFit.theirs, getFit && getCore ? getFit.theirs : null),
+      );
+    }
+    if (getFit && getCore) {
+      reasons.push(describeNeed("You", getFit.mine, giveFit && giveCore ? giveFit.mine : null));
+    }
+    const pickCount =
+      give.filter((a) => a.kind === "pick").length +
+      get.filter((a) => a.kind === "pick").length;
+    if (pickCount > 0) {
+      reasons.push(
+        `${pickCount} future pick${pickCount === 1 ? "" : "s"} added to balance value`,
+      );
+    }
+
+    const fitScore =
+      (giveFit && giveCore ? giveFit.theirs.expected - giveFit.theirs.startable : 0) +
+      (getFit && getCore ? getFit.mine.expected - getFit.mine.startable : 0);
+
+    scored.push({
+      suggestion: {
+        partnerRosterId: partner.rosterId,
+        partnerName: partner.name,
+        give,
+        get,
+        giveValue: Math.round(giveValue),
+        getValue: Math.round(getValue),
+        imbalance: Math.round(imbalance * 1000) / 1000,
+        reasons,
+      },
+      score: fitScore - imbalance,
+    });
+  }
+
+  return scored
+    .sort((a, b) => b.score - a.score)
+    .slice(0, MAX_SUGGESTIONS)
+    .map((s) => s.suggestion);
+}
+
+// ============================================================
+// Loader
+// ============================================================
+
+/**
+ * Future picks each roster owns: every roster's own picks for the tradeable
+ * seasons, reassigned per `traded_picks`.
+ */
+export function buildPickOwnership(
+  rosterIds: number[],
+  seasons: string[],
+  rounds: number,
+  traded: Array<{
+    season: string;
+    round: number;
+    originalRosterId: number;
+    currentOwnerId: number;
+  }>,
+): Map<number, Array<{ season: string; round: number; originalRosterId: number }>> {
+  const owner = new Map<string, number>();
+  for (const season of seasons) {
+    for (let round = 1; round <= rounds; round++) {
+      for (const rosterId of rosterIds) {
+        owner.set(`${season}:${round}:${rosterId}`, rosterId);
+      }
+    }
+  }
+  for (const t of traded) {
+    const key = `${t.season}:${t.round}:${t.originalRosterId}`;
+    if (owner.has(key)) owner.set(key, t.currentOwnerId);
+  }
+
+  const result = new Map<
+    number,
+    Array<{ season: string; round: number; originalRosterId: number }>
+  >();
+  for (const [key, ownerId] of owner) {
+    const [season, round, originalRosterId] = key.split(":");
+    if (!result.has(ownerId)) result.set(ownerId, []);
+    result.get(ownerId)!.push({
+      season,
+      round: Number(round),
+      originalRosterId: Number(originalRosterId),
+    });
+  }
+  return result;
+}
+
+/**
+ * Trade suggestions for one manager's roster in the family's current league.
+ * Returns null when the family, its current league, or the manager's roster
+ * can't be found.
+ *
+ * `nameFor` maps an owner id to a display name so the route can apply the
+ * demo-mode pseudonyms.
+ */
+export async function findTradesForManager(
+  familyId: string,
+  userId: string,
+  nameFor: (ownerId: string | null, rosterId: number) => string | null = () => null,
+): Promise<TradeFinderResult | null> {
+  const db = getDb();
+  const resolvedFamilyId = await resolveFamily(familyId);
+  if (!resolvedFamilyId) return null;
+
+  const [member] = await db
+    .select({
+      leagueId: schema.leagueFamilyMembers.leagueId,
+      season: schema.leagueFamilyMembers.season,
+    })
+    .from(schema.leagueFamilyMembers)
+    .where(eq(schema.leagueFamilyMembers.familyId, resolvedFamilyId))
+    .orderBy(desc(schema.leagueFamilyMembers.season))
+    .limit(1);
+  if (!member) return null;
+  const { leagueId, season } = member;
+
+  const [[league], rosterRows, userRows, tradedRows, draftRows] = await Promise.all([
+    db
+      .select({
+        settings: schema.leagues.settings,
+        rosterPositions: schema.leagues.rosterPositions,
+      })
+      .from(schema.leagues)
+      .where(eq(schema.leagues.id, leagueId))
+      .limit(1),
+    db
+      .select({
+        rosterId: schema.rosters.rosterId,
+        ownerId: schema.rosters.ownerId,
+        players: schema.rosters.players,
+      })
+      .from(schema.rosters)
+      .where(eq(schema.rosters.leagueId, leagueId)),
+    db
+      .select({
+        userId: schema.leagueUsers.userId,
+        displayName: schema.leagueUsers.displayName,
+      })
+      .from(schema.leagueUsers)
+      .where(eq(schema.leagueUsers.leagueId, leagueId)),
+    db
+      .select({
+        season: schema.tradedPicks.season,
+        round: schema.tradedPicks.round,
+        originalRosterId: schema.tradedPicks.originalRosterId,
+        currentOwnerId: schema.tradedPicks.currentOwnerId,
+      })
+      .from(schema.tradedPicks)
+      .where(eq(schema.tradedPicks.leagueId, leagueId)),
+    db
+      .select({ status: schema.drafts.status })
+      .from(schema.drafts)
+      .where(and(eq(schema.drafts.leagueId, leagueId), eq(schema.drafts.season, season))),
+  ]);
+
+  const myRoster = rosterRows.find((r) => r.ownerId === userId);
+  if (!league || !myRoster) return null;
+
+  const rosterPositions = (league.rosterPositions as string[] | null) ?? [];
+  const settings = (league.settings ?? {}) as Record<string, unknown>;
+  const rounds = (settings.draft_rounds as number | undefined) ?? 4;
+
+  const { ppr, isSuperFlex, numTeams, numQbs } = await loadLeagueScoringConfig(leagueId);
+  const playerIds = [
+    ...new Set(rosterRows.flatMap((r) => (r.players as string[] | null) ?? [])),
+  ];
+
+  const [valueRows, playerRows] = await Promise.all([
+    db
+      .select({
+        playerId: schema.fantasyCalcValues.playerId,
+        playerName: schema.fantasyCalcValues.playerName,
+        position: schema.fantasyCalcValues.position,
+        value: schema.fantasyCalcValues.value,
+      })
+      .from(schema.fantasyCalcValues)
+      .where(
+        and(
+          eq(schema.fantasyCalcValues.isSuperFlex, isSuperFlex),
+          eq(schema.fantasyCalcValues.ppr, ppr),
+          eq(schema.fantasyCalcValues.numTeams, numTeams),
+          eq(schema.fantasyCalcValues.numQbs, numQbs),
+        ),
+      ),
+    playerIds.length > 0
+      ? db
+          .select({
+            id: schema.players.id,
+            name: schema.players.name,
+            position: schema.players.position,
+          })
+          .from(schema.players)
+          .where(inArray(schema.players.id, playerIds))
+      : Promise.resolve([] as Array<{ id: string; name: string; position: string | null }>),
+  ]);
+
+  const values = new Map(valueRows.map((v) => [v.playerId, v.value]));
+  const roundTotals = new Map<number, { sum: number; n: number }>();
+  for (const v of valueRows) {
+    if (v.position !== "PICK") continue;
+    const round = parsePickRound(v.playerName ?? "");
+    if (round === null) continue;
+    const t = roundTotals.get(round) ?? { sum: 0, n: 0 };
+    roundTotals.set(round, { sum: t.sum + v.value, n: t.n + 1 });
+  }
+  const pickValue = (pickSeason: string, round: number): number => {
+    const exact = values.get(fantasyCalcPickId(`${pickSeason} ${round}${getRoundSuffix(round)}`));
+    if (exact !== undefined) return exact;
+    const t = roundTotals.get(round);
+    return t ? t.sum / t.n : (DEFAULT_ROUND_AVERAGES[round] ?? 0);
+  };
+
+  // This season's picks are still tradeable until its rookie draft completes.
+  const draftDone = draftRows.some((d) => d.status === "complete");
+  const firstPickSeason = Number(season) + (draftDone ? 1 : 0);
+  const pickSeasons = Array.from({ length: FUTURE_PICK_SEASONS }, (_, i) =>
+    String(firstPickSeason + i),
+  );
+  const pickOwnership = buildPickOwnership(
+    rosterRows.map((r) => r.rosterId),
+    pickSeasons,
+    rounds,
+    tradedRows,
+  );
+
+  const userNames = new Map(userRows.map((u) => [u.userId, u.displayName]));
+  const rosterName = (ownerId: string | null, rosterId: number) =>
+    nameFor(ownerId, rosterId) ??
+    (ownerId ? userNames.get(ownerId) : null) ??
+    `Roster ${rosterId}`;
+  const playerMeta = new Map(playerRows.map((p) => [p.id, p]));
+
+  const rosters: FinderRoster[] = rosterRows.map((r) => ({
+    rosterId: r.rosterId,
+    ownerId: r.ownerId,
+    name: rosterName(r.ownerId, r.rosterId),
+    players: ((r.players as string[] | null) ?? []).flatMap((id) => {
+      const meta = playerMeta.get(id);
+      if (!meta) return [];
+      const value = values.get(id) ?? 0;
+      return [
+        {
+          kind: "player" as const,
+          id,
+          label: meta.name,
+          position: meta.position,
+          value,
+          effective: effectiveValue(value),
+        },
+      ];
+    }),
+    picks: (pickOwnership.get(r.rosterId) ?? [])
+      .map((p) => {
+        const value = pickValue(p.season, p.round);
+        const original =
+          p.originalRosterId === r.rosterId
+            ? ""
+            : ` (${rosterName(
+                rosterRows.find((o) => o.rosterId === p.originalRosterId)?.ownerId ?? null,
+                p.originalRosterId,
+              )})`;
+        return {
+          kind: "pick" as const,
+          id: `${p.season}:${p.round}:${p.originalRosterId}`,
+          label: `${p.season} ${p.round}${getRoundSuffix(p.round)}${original}`,
+          position: null,
+          value,
+          effective: effectiveValue(value),
+        };
+      })
+      .sort((a, b) => a.id.localeCompare(b.id)),
+  }));
+
+  const exposures = analyzeExposure(rosters, rosterPositions);
+
+  return {
+    leagueId,
+    season,
+    rosterId: myRoster.rosterId,
+    exposures: [...exposures.values()],
+    suggestions: findTradeSuggestions(myRoster.rosterId, rosters, exposures),
+  };
+}
@@ -6,6 +6,7 @@ import {
   calculatePickNumber,
   resolveDraftPicks,
 } from "@/lib/draft";
+import { parsePickRound } from "@/lib/fantasycalc";
 import {
   GRADE_CONFIG,
   productionWeight,
@@ -18,6 +19,7 @@ import {
   loadLeagueScoringConfig,
   loadFamilyLeagueMap,
   loadFantasyCalcSnapshot,
+  createSnapshotAsOfLoader,
   loadPlayerWeeklyScores,
   loadMatchupOutcomes,
   loadPlayoffConfig,
@@ -26,9 +28,11 @@ import {
   type PlayerWeekData,
   type MatchupResult,
   type PlayoffConfig,
+  type GradeRunOptions,
+  type FantasyCalcFormat,
 } from "@/services/gradingCore";
 import { batchUpsertManagerMetrics } from "@/services/batchHelper";
-import { getActiveConfig } from "@/services/algorithmConfig";
+import { resolveActiveConfig } from "@/services/algorithmConfig";
 
 // ============================================================
 // Draft pick resolution
@@ -105,6 +109,59 @@ export function resolvePickValue(
   return { value: 0, resolved: "missing" };
 }
 
+/**
+ * Average FantasyCalc value per pick round for a league format, falling
+ * back to DEFAULT_ROUND_AVERAGES when FantasyCalc has no PICK entries.
+ */
+export async function loadPickRoundAverages(
+  format: FantasyCalcFormat,
+): Promise<Map<number, number>> {
+  const db = getDb();
+  const { isSuperFlex, ppr, numTeams, numQbs } = format;
+  const roundAverages = new Map<number, number>();
+  const pickValRows = await db
+    .select({
+      playerName: schema.fantasyCalcValues.playerName,
+      value: schema.fantasyCalcValues.value,
+    })
+    .from(schema.fantasyCalcValues)
+    .where(
+      and(
+        eq(schema.fantasyCalcValues.isSuperFlex, isSuperFlex),
+        eq(schema.fantasyCalcValues.ppr, ppr),
+        eq(schema.fantasyCalcValues.numTeams, numTeams),
+        eq(schema.fantasyCalcValues.numQbs, numQbs),
+        eq(schema.fantasyCalcValues.position, "PICK"),
+      ),
+    );
+
+  if (pickValRows.length > 0) {
+    const roundGroups = new Map<number, number[]>();
+    for (const row of pickValRows) {
+      const round = parsePickRound(row.playerName || "");
+      if (round !== null) {
+        if (!roundGroups.has(round)) roundGroups.set(round, []);
+        roundGroups.get(round)!.push(row.value);
+      }
+    }
+    for (const [round, values] of roundGroups) {
+      roundAverages.set(
+        round,
+        values.reduce((a, b) => a + b, 0) / values.length,
+      );
+    }
+  }
+
+  if (roundAverages.size === 0) {
+    for (const [round, value] of Object.entries(
+      DEFAULT_ROUND_AVERAGES,
+    )) {
+      roundAverages.set(Number(round), value);
+    }
+  }
+  return roundAverages;
+}
+
 // ============================================================
 // Value scoring (FantasyCalc + non-linear curve)
 // ============================================================
@@ -386,10 +443,13 @@ export function fallbackTradeSeason(createdAt: number): number {
 export async function gradeLeagueTrades(
   leagueId: string,
   familyId: string,
-  opts?: { syncedAt?: Date },
+  opts?: GradeRunOptions,
 ): Promise<number> {
   const db = getDb();
-  const algoConfig = await getActiveConfig();
+  const { config: algoConfig, version: configVersion } = opts?.config
+    ? { config: opts.config, version: opts.configVersion ?? null }
+    : await resolveActiveConfig(familyId);
+  const dryRun = opts?.dryRun;
 
   const syncedAt =
     opts?.syncedAt ??
@@ -415,69 +475,31 @@ export async function gradeLeagueTrades(
   const { draftsBySeason, draftPicksMap } =
     await resolveDraftPicks(familyLeagueIds);
 
-  const roundAverages = new Map<number, number>();
-  const pickValRows = await db
-    .select({
-      playerName: schema.fantasyCalcValues.playerName,
-      value: schema.fantasyCalcValues.value,
-    })
-    .from(schema.fantasyCalcValues)
-    .where(
-      and(
-        eq(schema.fantasyCalcValues.isSuperFlex, isSuperFlex),
-        eq(schema.fantasyCalcValues.ppr, ppr),
-        eq(schema.fantasyCalcValues.numTeams, numTeams),
-        eq(schema.fantasyCalcValues.numQbs, numQbs),
-        eq(schema.fantasyCalcValues.position, "PICK"),
-      ),
-    );
-
-  if (pickValRows.length > 0) {
-    const roundGroups = new Map<number, number[]>();
-    for (const row of pickValRows) {
-      const name = row.playerName || "";
-      let round: number | null = null;
-      if (name.includes("1st")) round = 1;
-      else if (name.includes("2nd")) round = 2;
-      else if (name.includes("3rd")) round = 3;
-      else if (name.includes("4th")) round = 4;
-      else {
-        const match = name.match(/(\d+)\.(\d+)/);
-        if (match) round = parseInt(match[1], 10);
-      }
-      if (round !== null) {
-        if (!roundGroups.has(round)) roundGroups.set(round, []);
-        roundGroups.get(round)!.push(row.value);
-      }
-    }
-    for (const [round, values] of roundGroups) {
-      roundAverages.set(
-        round,
-        values.reduce((a, b) => a + b, 0) / values.length,
+  const roundAverages = await loadPickRoundAverages({
+    isSuperFlex,
+    ppr,
+    numTeams,
+    numQbs,
+  });
+
+  const makePickResolver =
+    (values: Map<string, number>): PickResolver =>
+    (pick) =>
+      resolvePickValue(
+        pick,
+        draftsBySeason,
+        draftPicksMap,
+        values,
+        roundAverages,
       );
-    }
-  }
-
-  if (roundAverages.size === 0) {
-    for (const [round, value] of Object.entries(
-      DEFAULT_ROUND_AVERAGES,
-    )) {
-      roundAverages.set(Number(round), value);
-    }
-  }
+  const pickResolver = makePickResolver(snapshot);
 
-  const pickResolver = (pick: {
-    season: string;
-    round: number;
-    roster_id: number;
-  }) =>
-    resolvePickValue(
-      pick,
-      draftsBySeason,
-      draftPicksMap,
-      snapshot,
-      roundAverages,
-    );
+  // Point-in-time values: each trade is also valued against the latest
+  // history snapshot taken at or before it happened. Snapshots are cached
+  // per fetch timestamp since many trades share one. Round averages stay on
+  // today's pick values — history rarely covers the pick market far enough
+  // back to be worth the extra bookkeeping.
+  const snapshotAtTrade = createSnapshotAsOfLoader({ isSuperFlex, ppr, numTeams, numQbs });
 
   const seasonalData = await computeSeasonalRanks(
     familyLeagueIds,
@@ -559,6 +581,17 @@ export async function gradeLeagueTrades(
       pickResolver,
     );
 
+    const atTrade = trade.createdAt
+      ? await snapshotAtTrade(trade.createdAt)
+      : null;
+    const valueScoresAtTrade = atTrade
+      ? computeValueScores(
+          { adds, drops, draftPicks, rosterIds },
+          atTrade.values,
+          makePickResolver(atTrade.values),
+        )
+      : null;
+
     let productionScores: Map<number, ProductionResult> | null =
       null;
     if (weeksElapsed > 0) {
@@ -588,6 +621,7 @@ export async function gradeLeagueTrades(
     const now = new Date();
     for (const rosterId of rosterIds) {
       const vs = valueScores.get(rosterId);
+      const vsAtTrade = valueScoresAtTrade?.get(rosterId);
       const ps = productionScores?.get(rosterId);
 
       const valueScore = vs?.valueScore ?? 50;
@@ -596,26 +630,48 @@ export async function gradeLeagueTrades(
       const weeksUsed = ps?.weeksUsed ?? 0;
       const rawPAR = ps?.rawPAR ?? 0;
 
+      // The value half of the blend judges the decision with what was known
+      // at the time; today's value is kept alongside for the "bad trade vs.
+      // bad luck" comparison. Falls back to today when no history covers it.
+      const blendValueScore = vsAtTrade?.valueScore ?? valueScore;
       const blendedScore =
-        (1 - pw) * valueScore + pw * prodScore;
-      const grade = scoreToGrade(blendedScore);
+        (1 - pw) * blendValueScore + pw * prodScore;
+      const grade = scoreToGrade(blendedScore, algoConfig.gradeThresholds);
 
       allGradeRows.push({
         transactionId: trade.id,
         rosterId,
         valueScore,
         fantasyCalcValue: rawValue,
+        valueScoreAtTrade: vsAtTrade?.valueScore ?? null,
+        fantasyCalcValueAtTrade: vsAtTrade?.rawValue ?? null,
+        valueAsOf: atTrade ? new Date(atTrade.fetchedAt) : null,
         productionScore: weeksUsed > 0 ? prodScore : null,
         productionWeeks: weeksUsed > 0 ? weeksUsed : null,
         rawPAR: weeksUsed > 0 ? rawPAR : null,
         blendedScore,
         productionWeight: pw,
         grade,
+        configVersion,
         computedAt: now,
       });
     }
   }
 
+  if (dryRun) {
+    for (const row of allGradeRows) {
+      dryRun.push({
+        kind: "trade",
+        id: row.transactionId,
+        leagueId,
+        rosterId: row.rosterId,
+        score: row.blendedScore ?? 0,
+        grade: row.grade ?? "F",
+      });
+    }
+    return allGradeRows.length;
+  }
+
   // Batch upsert all grade rows
   const BATCH_SIZE = 100;
   for (let i = 0; i < allGradeRows.length; i += BATCH_SIZE) {
@@ -631,12 +687,16 @@ export async function gradeLeagueTrades(
         set: {
           valueScore: sql`excluded.value_score`,
           fantasyCalcValue: sql`excluded.fantasy_calc_value`,
+          valueScoreAtTrade: sql`excluded.value_score_at_trade`,
+          fantasyCalcValueAtTrade: sql`excluded.fantasy_calc_value_at_trade`,
+          valueAsOf: sql`excluded.value_as_of`,
           productionScore: sql`excluded.production_score`,
           productionWeeks: sql`excluded.production_weeks`,
           rawPAR: sql`excluded.raw_par`,
           blendedScore: sql`excluded.blended_score`,
           productionWeight: sql`excluded.production_weight`,
           grade: sql`excluded.grade`,
+          configVersion: sql`excluded.config_version`,
           computedAt: sql`excluded.computed_at`,
         },
       });
@@ -677,6 +737,7 @@ export async function gradeLeagueTrades(
       metric: "trade_score",
       qualityWeight: algoConfig.qualityWeights.trade_score,
       countLabel: "tradesGraded",
+      configVersion,
     });
 
     await batchUpsertManagerMetrics(metricValues);
@@ -0,0 +1,446 @@
+/**
+ * Who trades with whom.
+ *
+ * Aggregates a family's trades into a manager-to-manager network: managers
+ * are nodes, and each pair that has traded is an edge carrying the trade
+ * count and what flowed each way. Trade participants and assets come from
+ * `asset_events` (trade + pick_trade rows); value and PAR come from each
+ * side's `trade_grades` row — `fantasyCalcValue` is the FantasyCalc value
+ * a side received, `rawPAR` the points above replacement it got out of it.
+ * Grade rows are keyed by roster, so they're matched to the manager the
+ * trade's own events record for that roster, not the roster's current
+ * owner (rosters change hands).
+ *
+ * Trades with three or more managers count once for every pair in them,
+ * with each side's whole return credited to each pair: grades are per side,
+ * not per counterparty.
+ */
+
+import { and, inArray, or } from "drizzle-orm";
+import { getDb, schema } from "@/db";
+import { lookupSwap, type DemoMap } from "@/lib/demoAnonymize";
+import { loadFamilyLeagueMap } from "@/services/gradingCore";
+
+// ============================================================
+// Types
+// ============================================================
+
+export interface TradeNetworkManager {
+  userId: string;
+  displayName: string;
+  trades: number;
+  /** Distinct managers they've traded with. */
+  partners: number;
+  valueReceived: number;
+  valueSent: number;
+  parReceived: number;
+  parSent: number;
+}
+
+export interface TradeNetworkSide {
+  userId: string;
+  received: string[];
+  value: number | null;
+  par: number | null;
+  grade: string | null;
+}
+
+export interface TradeNetworkTrade {
+  transactionId: string;
+  season: string;
+  week: number;
+  createdAt: number | null;
+  sides: TradeNetworkSide[];
+}
+
+export interface TradeNetworkEdge {
+  /** `${source}|${target}`, with source < target. */
+  id: string;
+  source: string;
+  target: string;
+  trades: number;
+  valueToSource: number;
+  valueToTarget: number;
+  parToSource: number;
+  parToTarget: number;
+  /** Newest first. */
+  transactions: TradeNetworkTrade[];
+}
+
+export interface TradeNetwork {
+  /** Every season with a trade, newest first, regardless of the filter. */
+  seasons: string[];
+  season: string | null;
+  managers: TradeNetworkManager[];
+  edges: TradeNetworkEdge[];
+}
+
+// ============================================================
+// Aggregation (pure)
+// ============================================================
+
+export interface TradeEventRow {
+  transactionId: string | null;
+  leagueId: string;
+  season: string;
+  week: number;
+  createdAt: number | null;
+  assetKind: string;
+  playerId: string | null;
+  pickSeason: string | null;
+  pickRound: number | null;
+  fromRosterId: number | null;
+  toRosterId: number | null;
+  fromUserId: string | null;
+  toUserId: string | null;
+}
+
+export interface TradeGradeRow {
+  transactionId: string;
+  rosterId: number;
+  fantasyCalcValue: number | null;
+  rawPAR: number | null;
+  grade: string | null;
+}
+
+export interface TradeNetworkInput {
+  events: TradeEventRow[];
+  grades: TradeGradeRow[];
+  displayNames: Map<string, string>;
+  playerNames: Map<string, string>;
+  /** Restrict to one season; null for all. */
+  season: string | null;
+}
+
+const round1 = (n: number) => Math.round(n * 10) / 10;
+
+function assetLabel(ev: TradeEventRow, playerNames: Map<string, string>): string {
+  if (ev.assetKind === "pick") {
+    return ev.pickSeason !== null && ev.pickRound !== null
+      ? `${ev.pickSeason} R${ev.pickRound}`
+      : "Pick";
+  }
+  return (ev.playerId && playerNames.get(ev.playerId)) ?? ev.playerId ?? "Player";
+}
+
+export function buildTradeNetwork(input: TradeNetworkInput): TradeNetwork {
+  const byTx = new Map<string, TradeEventRow[]>();
+  const seasons = new Set<string>();
+  for (const ev of input.events) {
+    if (!ev.transactionId) continue;
+    seasons.add(ev.season);
+    if (input.season && ev.season !== input.season) continue;
+    const list = byTx.get(ev.transactionId) ?? [];
+    list.push(ev);
+    byTx.set(ev.transactionId, list);
+  }
+
+  // transactionId -> rosterId -> the manager on that roster at trade time
+  const tradersByTx = new Map<string, Map<number, string>>();
+  for (const [txId, evs] of byTx) {
+    const traders = new Map<number, string>();
+    for (const e of evs) {
+      if (e.fromRosterId !== null && e.fromUserId) traders.set(e.fromRosterId, e.fromUserId);
+      if (e.toRosterId !== null && e.toUserId) traders.set(e.toRosterId, e.toUserId);
+    }
+    tradersByTx.set(txId, traders);
+  }
+
+  // transactionId -> userId -> grade row
+  const gradesByTx = new Map<string, Map<string, TradeGradeRow>>();
+  for (const g of input.grades) {
+    const userId = tradersByTx.get(g.transactionId)?.get(g.rosterId);
+    if (!userId) continue;
+    const m = gradesByTx.get(g.transactionId) ?? new Map<string, TradeGradeRow>();
+    m.set(userId, g);
+    gradesByTx.set(g.transactionId, m);
+  }
+
+  const edges = new Map<string, TradeNetworkEdge>();
+  const partners = new Map<string, Set<string>>();
+  const managers = new Map<string, TradeNetworkManager>();
+  const manager = (userId: string) => {
+    let m = managers.get(userId);
+    if (!m) {
+      m = {
+        userId,
+        displayName: input.displayNames.get(userId) ?? userId,
+        trades: 0,
+        partners: 0,
+        valueReceived: 0,
+        valueSent: 0,
+        parReceived: 0,
+        parSent: 0,
+      };
+      managers.set(userId, m);
+    }
+    return m;
+  };
+
+  for (const [transactionId, evs] of byTx) {
+    const userIds = [
+      ...new Set(evs.flatMap((e) => [e.fromUserId, e.toUserId]).filter((u): u is string => !!u)),
+    ].sort();
+    if (userIds.length < 2) continue;
+
+    const grades = gradesByTx.get(transactionId);
+    const sides: TradeNetworkSide[] = userIds.map((userId) => {
+      const g = grades?.get(userId);
+      return {
+        userId,
+        received: evs.filter((e) => e.toUserId === userId).map((e) => assetLabel(e, input.playerNames)),
+        value: g?.fantasyCalcValue ?? null,
+        par: g?.rawPAR ?? null,
+        grade: g?.grade ?? null,
+      };
+    });
+    const createdAts = evs.map((e) => e.createdAt).filter((c): c is number => c !== null);
+    const trade: TradeNetworkTrade = {
+      transactionId,
+      season: evs[0].season,
+      week: evs[0].week,
+      createdAt: createdAts.length > 0 ? Math.max(...createdAts) : null,
+      sides,
+    };
+
+    for (const side of sides) {
+      const m = manager(side.userId);
+      m.trades++;
+      m.valueReceived += side.value ?? 0;
+      m.parReceived += side.par ?? 0;
+      for (const other of sides) {
+        if (other.userId === side.userId) continue;
+        m.valueSent += other.value ?? 0;
+        m.parSent += other.par ?? 0;
+      }
+    }
+
+    for (let i = 0; i < sides.length; i++) {
+      for (let j = i + 1; j < sides.length; j++) {
+        const [a, b] = [sides[i], sides[j]];
+        const id = `${a.userId}|${b.userId}`;
+        let edge = edges.get(id);
+        if (!edge) {
+          edge = {
+            id,
+            source: a.userId,
+            target: b.userId,
+            trades: 0,
+            valueToSource: 0,
+            valueToTarget: 0,
+            parToSource: 0,
+            parToTarget: 0,
+            transactions: [],
+          };
+          edges.set(id, edge);
+        }
+        edge.trades++;
+        edge.valueToSource += a.value ?? 0;
+        edge.valueToTarget += b.value ?? 0;
+        edge.parToSource += a.par ?? 0;
+        edge.parToTarget += b.par ?? 0;
+        edge.transactions.push(trade);
+        for (const [u, v] of [[a.userId, b.userId], [b.userId, a.userId]]) {
+          const set = partners.get(u) ?? new Set<string>();
+          set.add(v);
+          partners.set(u, set);
+        }
+      }
+    }
+  }
+
+  for (const m of managers.values()) {
+    m.partners = partners.get(m.userId)?.size ?? 0;
+    m.valueReceived = Math.round(m.valueReceived);
+    m.valueSent = Math.round(m.valueSent);
+    m.parReceived = round1(m.parReceived);
+    m.parSent = round1(m.parSent);
+  }
+  for (const e of edges.values()) {
+    e.valueToSource = Math.round(e.valueToSource);
+    e.valueToTarget = Math.round(e.valueToTarget);
+    e.parToSource = round1(e.parToSource);
+    e.parToTarget = round1(e.parToTarget);
+    e.transactions.sort((x, y) => (y.createdAt ?? 0) - (x.createdAt ?? 0));
+  }
+
+  return {
+    seasons: [...seasons].sort((a, b) => Number(b) - Number(a)),
+    season: input.season,
+    managers: [...managers.values()].sort(
+      (a, b) => b.trades - a.trades || a.displayName.localeCompare(b.displayName),
+    ),
+    edges: [...edges.values()].sort((a, b) => b.trades - a.trades || a.id.localeCompare(b.id)),
+  };
+}
+
+// ============================================================
+// Loader
+// ============================================================
+
+function tradeEventColumns() {
+  return {
+    transactionId: schema.assetEvents.transactionId,
+    leagueId: schema.assetEvents.leagueId,
+    season: schema.assetEvents.season,
+    week: schema.assetEvents.week,
+    createdAt: schema.assetEvents.createdAt,
+    assetKind: schema.assetEvents.assetKind,
+    playerId: schema.assetEvents.playerId,
+    pickSeason: schema.assetEvents.pickSeason,
+    pickRound: schema.assetEvents.pickRound,
+    fromRosterId: schema.assetEvents.fromRosterId,
+    toRosterId: schema.assetEvents.toRosterId,
+    fromUserId: schema.assetEvents.fromUserId,
+    toUserId: schema.assetEvents.toUserId,
+  };
+}
+
+const TRADE_EVENT_TYPES = ["trade", "pick_trade"];
+
+/**
+ * Grades, player names and manager names for a set of trade events, then
+ * the network over them.
+ */
+async function buildFromEvents(
+  familyLeagueIds: string[],
+  events: TradeEventRow[],
+  season: string | null,
+  demoSwap: DemoMap | null,
+): Promise<TradeNetwork> {
+  const db = getDb();
+  const txIds = [
+    ...new Set(
+      events
+        .filter((e) => !season || e.season === season)
+        .map((e) => e.transactionId)
+        .filter((t): t is string => !!t),
+    ),
+  ];
+  const playerIds = [...new Set(events.map((e) => e.playerId).filter((p): p is string => !!p))];
+  const [grades, players, leagueUsers] = await Promise.all([
+    txIds.length > 0
+      ? db
+          .select({
+            transactionId: schema.tradeGrades.transactionId,
+            rosterId: schema.tradeGrades.rosterId,
+            fantasyCalcValue: schema.tradeGrades.fantasyCalcValue,
+            rawPAR: schema.tradeGrades.rawPAR,
+            grade: schema.tradeGrades.grade,
+          })
+          .from(schema.tradeGrades)
+          .where(inArray(schema.tradeGrades.transactionId, txIds))
+      : Promise.resolve([]),
+    playerIds.length > 0
+      ? db
+          .select({ id: schema.players.id, name: schema.players.name })
+          .from(schema.players)
+          .where(inArray(schema.players.id, playerIds))
+      : Promise.resolve([]),
+    db
+      .select({
+        userId: schema.leagueUsers.userId,
+        displayName: schema.leagueUsers.displayName,
+      })
+      .from(schema.leagueUsers)
+      .where(inArray(schema.leagueUsers.leagueId, familyLeagueIds)),
+  ]);
+
+  const displayNames = new Map<string, string>();
+  for (const lu of leagueUsers) {
+    const swapped = demoSwap ? lookupSwap(demoSwap, lu.userId)?.displayName : undefined;
+    const name = swapped ?? lu.displayName;
+    if (name) displayNames.set(lu.userId, name);
+  }
+
+  return buildTradeNetwork({
+    events,
+    grades,
+    displayNames,
+    playerNames: new Map(players.map((p) => [p.id, p.name])),
+    season,
+  });
+}
+
+/** Trade network for an already-resolved family. */
+export async function loadTradeNetwork(
+  familyId: string,
+  season: string | null,
+  demoSwap: DemoMap | null = null,
+): Promise<TradeNetwork> {
+  const { familyLeagueIds } = await loadFamilyLeagueMap(familyId);
+  if (familyLeagueIds.length === 0) {
+    return { seasons: [], season, managers: [], edges: [] };
+  }
+
+  const events = await getDb()
+    .select(tradeEventColumns())
+    .from(schema.assetEvents)
+    .where(
+      and(
+        inArray(schema.assetEvents.leagueId, familyLeagueIds),
+        inArray(schema.assetEvents.eventType, TRADE_EVENT_TYPES),
+      ),
+    );
+  return buildFromEvents(familyLeagueIds, events, season, demoSwap);
+}
+
+/**
+ * The network edge between two managers, loading only the trades they
+ * were both in. Null when they never traded.
+ */
+export async function loadPairTrades(
+  familyId: string,
+  userA: string,
+  userB: string,
+  demoSwap: DemoMap | null = null,
+): Promise<TradeNetworkEdge | null> {
+  const db = getDb();
+  const { familyLeagueIds } = await loadFamilyLeagueMap(familyId);
+  if (familyLeagueIds.length === 0) return null;
+
+  const pair = [userA, userB];
+  const touched = await db
+    .select({
+      transactionId: schema.assetEvents.transactionId,
+      fromUserId: schema.assetEvents.fromUserId,
+      toUserId: schema.assetEvents.toUserId,
+    })
+    .from(schema.assetEvents)
+    .where(
+      and(
+        inArray(schema.assetEvents.leagueId, familyLeagueIds),
+        inArray(schema.assetEvents.eventType, TRADE_EVENT_TYPES),
+        or(
+          inArray(schema.assetEvents.fromUserId, pair),
+          inArray(schema.assetEvents.toUserId, pair),
+        ),
+      ),
+    );
+
+  const usersByTx = new Map<string, Set<string>>();
+  for (const e of touched) {
+    if (!e.transactionId) continue;
+    const users = usersByTx.get(e.transactionId) ?? new Set<string>();
+    for (const u of [e.fromUserId, e.toUserId]) if (u) users.add(u);
+    usersByTx.set(e.transactionId, users);
+  }
+  const txIds = [...usersByTx]
+    .filter(([, users]) => users.has(userA) && users.has(userB))
+    .map(([txId]) => txId);
+  if (txIds.length === 0) return null;
+
+  // Every event of those trades, so three-way sides stay whole.
+  const events = await db
+    .select(tradeEventColumns())
+    .from(schema.assetEvents)
+    .where(
+      and(
+        inArray(schema.assetEvents.transactionId, txIds),
+        inArray(schema.assetEvents.eventType, TRADE_EVENT_TYPES),
+      ),
+    );
+  const network = await buildFromEvents(familyLeagueIds, events, null, demoSwap);
+  const [source, target] = [...pair].sort();
+  return network.edges.find((e) => e.id === `${source}|${target}`) ?? null;
+}
@@ -0,0 +1,341 @@
+import { and, eq, inArray } from "drizzle-orm";
+import { getDb, schema } from "@/db";
+import type { DemoMap } from "@/lib/demoAnonymize";
+import {
+  transactionNodeId,
+  type Graph,
+  type TenureEdge,
+  type TransactionNode,
+} from "@/lib/assetGraph";
+import { loadFamilyGraph } from "@/services/familyGraph";
+import {
+  computeSeasonalRanks,
+  loadFamilyLeagueMap,
+  loadFantasyCalcSnapshot,
+  loadLeagueOwnerRosters,
+  loadLeagueScoringConfig,
+  pointsAboveReplacement,
+  seasonPositionKey,
+} from "@/services/gradingCore";
+import { loadPickRoundAverages } from "@/services/tradeGrading";
+
+// ============================================================
+// Types
+// ============================================================
+
+/** One tenure in a trade tree: an asset a side held because of the trade. */
+export interface TradeTreeAsset {
+  edgeId: string;
+  assetKind: "player" | "pick";
+  playerId: string | null;
+  playerName: string | null;
+  playerPosition: string | null;
+  pickLabel: string | null;
+  /** 0 = received in the root trade; +1 per re-trade or draft conversion. */
+  depth: number;
+  /** Node the asset came out of (the root trade, a re-trade or a draft). */
+  viaNodeId: string;
+  startSeason: string;
+  startWeek: number;
+  endSeason: string | null;
+  endWeek: number | null;
+  isOpen: boolean;
+  /** Points scored in this side's starting lineup during the tenure. */
+  starterPoints: number;
+  /** Sum of weekly points above replacement across those starts. */
+  par: number;
+  /** Today's value, for assets the side still holds; 0 otherwise. */
+  currentValue: number;
+}
+
+export interface TradeTreeTotals {
+  starterPoints: number;
+  par: number;
+  currentValue: number;
+  assets: number;
+  /** Later trades the chain passed through. */
+  retrades: number;
+  /** Picks that turned into drafted players. */
+  draftConversions: number;
+}
+
+export interface TradeTreeSide {
+  userId: string;
+  displayName: string;
+  assets: TradeTreeAsset[];
+  totals: TradeTreeTotals;
+}
+
+export interface TradeTree {
+  transactionId: string;
+  season: string;
+  week: number;
+  sides: TradeTreeSide[];
+  computedAt: number;
+}
+
+// ============================================================
+// Walk (pure)
+// ============================================================
+
+export interface TradeTreeEdgeRef {
+  edge: TenureEdge;
+  depth: number;
+  viaNodeId: string;
+}
+
+export interface TradeTreeWalkSide {
+  userId: string;
+  displayName: string;
+  edges: TradeTreeEdgeRef[];
+  retrades: number;
+  draftConversions: number;
+}
+
+/**
+ * Follow each side of a trade downstream. A side's tree starts with the
+ * tenures it received in the trade; whenever one of those tenures ends in
+ * another trade by the same manager, everything that manager received in
+ * that trade joins the tree, and a pick that ends in a draft is replaced by
+ * the player drafted with it. Drops and waiver/FA swaps end a chain.
+ *
+ * A re-trade that bundles tree assets with other assets credits its whole
+ * return to the tree — the graph doesn't say which piece paid for what.
+ *
+ * Returns null unless `rootNodeId` is a trade node.
+ */
+export function walkTradeTree(
+  graph: Pick<Graph, "nodes" | "edges">,
+  rootNodeId: string,
+): TradeTreeWalkSide[] | null {
+  const nodes = new Map(graph.nodes.map((n) => [n.id, n]));
+  const root = nodes.get(rootNodeId);
+  if (!root || root.kind !== "transaction" || root.txKind !== "trade") return null;
+
+  const outgoing = new Map<string, TenureEdge[]>();
+  for (const e of graph.edges) {
+    const list = outgoing.get(e.source) ?? [];
+    list.push(e);
+    outgoing.set(e.source, list);
+  }
+
+  return root.managers.map((manager) => {
+    const side: TradeTreeWalkSide = {
+      userId: manager.userId,
+      displayName: manager.displayName,
+      edges: [],
+      retrades: 0,
+      draftConversions: 0,
+    };
+    const seenEdges = new Set<string>();
+    const seenNodes = new Set<string>([root.id]);
+    const expand = (nodeId: string, depth: number) => {
+      for (const edge of outgoing.get(nodeId) ?? []) {
+        if (edge.managerUserId !== manager.userId || seenEdges.has(edge.id)) continue;
+        seenEdges.add(edge.id);
+        queue.push({ edge, depth, viaNodeId: nodeId });
+      }
+    };
+
+    const queue: TradeTreeEdgeRef[] = [];
+    expand(root.id, 0);
+    while (queue.length > 0) {
+      const ref = queue.shift()!;
+      side.edges.push(ref);
+
+      const next = nodes.get(ref.edge.target);
+      if (!next || next.kind !== "transaction" || seenNodes.has(next.id)) continue;
+      if (next.txKind !== "trade" && next.txKind !== "draft") continue;
+      seenNodes.add(next.id);
+      if (next.txKind === "trade") side.retrades++;
+      else side.draftConversions++;
+      expand(next.id, ref.depth + 1);
+    }
+    return side;
+  });
+}
+
+// ============================================================
+// Rollup (pure)
+// ============================================================
+
+export interface TradeTreeScoreRow {
+  leagueId: string;
+  week: number;
+  rosterId: number;
+  playerId: string;
+  points: number;
+}
+
+export interface TradeTreeRollupInput {
+  /** Starter weeks only, for the players in the tree. */
+  starterScores: TradeTreeScoreRow[];
+  leagueSeasonMap: Map<string, string>;
+  /** "leagueId:rosterId" -> owner userId */
+  rosterOwners: Map<string, string>;
+  /** "season:position" -> replacement-level PPG */
+  replacementPPG: Map<string, number>;
+  playerValues: Map<string, number>;
+  pickRoundValues: Map<number, number>;
+}
+
+function inTenure(edge: TenureEdge, season: string, week: number): boolean {
+  const s = Number(season);
+  const start = Number(edge.startSeason);
+  if (s < start || (s === start && week < edge.startWeek)) return false;
+  if (edge.endSeason === null) return true;
+  const end = Number(edge.endSeason);
+  if (s > end) return false;
+  return !(s === end && edge.endWeek !== null && week > edge.endWeek);
+}
+
+const round1 = (n: number) => Math.round(n * 10) / 10;
+
+/** Score every tenure in a walked tree and total each side. */
+export function rollupTradeTree(
+  sides: TradeTreeWalkSide[],
+  input: TradeTreeRollupInput,
+): TradeTreeSide[] {
+  const scoresByPlayer = new Map<string, TradeTreeScoreRow[]>();
+  for (const row of input.starterScores) {
+    const list = scoresByPlayer.get(row.playerId) ?? [];
+    list.push(row);
+    scoresByPlayer.set(row.playerId, list);
+  }
+
+  return sides.map((side) => {
+    const assets = side.edges.map(({ edge, depth, viaNodeId }): TradeTreeAsset => {
+      let starterPoints = 0;
+      let par = 0;
+      if (edge.assetKind === "player" && edge.playerId) {
+        for (const row of scoresByPlayer.get(edge.playerId) ?? []) {
+          const season = input.leagueSeasonMap.get(row.leagueId);
+          if (!season || !inTenure(edge, season, row.week)) continue;
+          if (input.rosterOwners.get(`${row.leagueId}:${row.rosterId}`) !== edge.managerUserId) continue;
+          starterPoints += row.points;
+          const repKey = seasonPositionKey(season, edge.playerPosition ?? "");
+          par += pointsAboveReplacement(row.points, input.replacementPPG.get(repKey) ?? 0);
+        }
+      }
+
+      let currentValue = 0;
+      if (edge.isOpen) {
+        currentValue =
+          edge.assetKind === "player"
+            ? input.playerValues.get(edge.playerId ?? "") ?? 0
+            : input.pickRoundValues.get(edge.pickRound ?? 0) ?? 0;
+      }
+
+      return {
+        edgeId: edge.id,
+        assetKind: edge.assetKind,
+        playerId: edge.playerId,
+        playerName: edge.playerName,
+        playerPosition: edge.playerPosition,
+        pickLabel: edge.pickLabel,
+        depth,
+        viaNodeId,
+        startSeason: edge.startSeason,
+        startWeek: edge.startWeek,
+        endSeason: edge.endSeason,
+        endWeek: edge.endWeek,
+        isOpen: edge.isOpen,
+        starterPoints: round1(starterPoints),
+        par: round1(par),
+        currentValue: Math.round(currentValue),
+      };
+    });
+
+    return {
+      userId: side.userId,
+      displayName: side.displayName,
+      assets,
+      totals: {
+        starterPoints: round1(assets.reduce((sum, a) => sum + a.starterPoints, 0)),
+        par: round1(assets.reduce((sum, a) => sum + a.par, 0)),
+        currentValue: assets.reduce((sum, a) => sum + a.currentValue, 0),
+        assets: assets.length,
+        retrades: side.retrades,
+        draftConversions: side.draftConversions,
+      },
+    };
+  });
+}
+
+// ============================================================
+// Loader
+// ============================================================
+
+/**
+ * Everything a trade eventually became, per side. Null when the family or
+ * trade doesn't exist. `familyId` must already be resolved.
+ */
+export async function computeTradeTree(
+  familyId: string,
+  transactionId: string,
+  demoSwap: DemoMap | null = null,
+): Promise<TradeTree | null> {
+  const graph = await loadFamilyGraph(familyId, demoSwap);
+  const rootId = transactionNodeId(transactionId);
+  const walked = walkTradeTree(graph, rootId);
+  if (!walked) return null;
+  const root = graph.nodes.find((n) => n.id === rootId) as TransactionNode;
+
+  const { familyLeagueIds, leagueSeasonMap } = await loadFamilyLeagueMap(familyId);
+  const latestLeagueId = [...leagueSeasonMap.entries()].sort(
+    ([, a], [, b]) => Number(b) - Number(a),
+  )[0]?.[0];
+  const format = latestLeagueId
+    ? await loadLeagueScoringConfig(latestLeagueId)
+    : { ppr: 0.5, isSuperFlex: false, numTeams: 12, numQbs: 1 };
+
+  const playerIds = [
+    ...new Set(walked.flatMap((s) => s.edges.map((r) => r.edge.playerId).filter((p): p is string => !!p))),
+  ];
+
+  const db = getDb();
+  const [starterScores, ownerRosters, seasonalData, playerValues, pickRoundValues] = await Promise.all([
+    playerIds.length > 0 && familyLeagueIds.length > 0
+      ? db
+          .select({
+            leagueId: schema.playerScores.leagueId,
+            week: schema.playerScores.week,
+            rosterId: schema.playerScores.rosterId,
+            playerId: schema.playerScores.playerId,
+            points: schema.playerScores.points,
+          })
+          .from(schema.playerScores)
+          .where(
+            and(
+              inArray(schema.playerScores.leagueId, familyLeagueIds),
+              inArray(schema.playerScores.playerId, playerIds),
+              eq(schema.playerScores.isStarter, true),
+            ),
+          )
+      : Promise.resolve([]),
+    loadLeagueOwnerRosters(familyLeagueIds),
+    computeSeasonalRanks(familyLeagueIds, leagueSeasonMap, { isSuperFlex: format.isSuperFlex }),
+    loadFantasyCalcSnapshot(format.isSuperFlex, format.ppr, format.numTeams, format.numQbs),
+    loadPickRoundAverages(format),
+  ]);
+
+  const rosterOwners = new Map<string, string>();
+  for (const [leagueId, owners] of ownerRosters) {
+    for (const [ownerId, rosterId] of owners) rosterOwners.set(`${leagueId}:${rosterId}`, ownerId);
+  }
+
+  return {
+    transactionId,
+    season: root.season,
+    week: root.week,
+    sides: rollupTradeTree(walked, {
+      starterScores: starterScores.map((r) => ({ ...r, points: r.points ?? 0 })),
+      leagueSeasonMap,
+      rosterOwners,
+      replacementPPG: seasonalData.replacementPPG,
+      playerValues,
+      pickRoundValues,
+    }),
+    computedAt: Date.now(),
+  };
+}
@@ -15,14 +15,16 @@ import {
   loadLeagueScoringConfig,
   loadFamilyLeagueMap,
   loadFantasyCalcSnapshot,
+  createSnapshotAsOfLoader,
   loadPlayerWeeklyScores,
   loadMatchupOutcomes,
   loadPlayoffConfig,
   loadLeagueOwnerRosters,
+  type GradeRunOptions,
 } from "@/services/gradingCore";
 import { batchUpsertManagerMetrics, BATCH_SIZE } from "@/services/batchHelper";
 import { type ProductionContext } from "@/services/tradeGrading";
-import { getActiveConfig } from "@/services/algorithmConfig";
+import { resolveActiveConfig } from "@/services/algorithmConfig";
 
 // ============================================================
 // Waiver Grading Configuration
@@ -143,10 +145,13 @@ function computePickupProduction(
 export async function gradeLeagueWaivers(
   leagueId: string,
   familyId: string,
-  opts?: { syncedAt?: Date },
+  opts?: GradeRunOptions,
 ): Promise<number> {
   const db = getDb();
-  const algoConfig = await getActiveConfig();
+  const { config: algoConfig, version: configVersion } = opts?.config
+    ? { config: opts.config, version: opts.configVersion ?? null }
+    : await resolveActiveConfig(familyId);
+  const dryRun = opts?.dryRun;
 
   const syncedAt =
     opts?.syncedAt ??
@@ -168,6 +173,9 @@ export async function gradeLeagueWaivers(
     numTeams,
     numQbs,
   );
+  // Pickups are valued as of the day they happened, falling back to today's
+  // values when the history doesn't reach back that far.
+  const snapshotAtPickup = createSnapshotAsOfLoader({ isSuperFlex, ppr, numTeams, numQbs });
 
   // Load production context concurrently
   const [seasonalData, weeklyScores, matchupOutcomes, playoffConfig, leagueOwnerRoster] =
@@ -241,9 +249,13 @@ export async function gradeLeagueWaivers(
       Object.entries(drops).find(([, rid]) => rid === rosterId)?.[0] ?? null;
 
     // Value scoring
-    const acquiredValue = snapshot.get(playerId) ?? 0;
+    const atPickup = tx.createdAt
+      ? await snapshotAtPickup(tx.createdAt)
+      : null;
+    const values = atPickup?.values ?? snapshot;
+    const acquiredValue = values.get(playerId) ?? 0;
     const droppedValue = droppedPlayerId
-      ? (snapshot.get(droppedPlayerId) ?? 0)
+      ? (values.get(droppedPlayerId) ?? 0)
       : 0;
     const valueScore = normalizeScore(
       acquiredValue - droppedValue,
@@ -346,11 +358,26 @@ export async function gradeLeagueWaivers(
       rawPAR: pg.productionWeeks > 0 ? pg.rawPAR : null,
       blendedScore: finalScore,
       productionWeight: pg.productionWeight,
-      grade: scoreToGrade(finalScore),
+      grade: scoreToGrade(finalScore, algoConfig.gradeThresholds),
+      configVersion,
       computedAt: now,
     });
   }
 
+  if (dryRun) {
+    for (const row of allGradeRows) {
+      dryRun.push({
+        kind: "waiver",
+        id: row.transactionId,
+        leagueId,
+        rosterId: row.rosterId,
+        score: row.blendedScore ?? 0,
+        grade: row.grade ?? "F",
+      });
+    }
+    return allGradeRows.length;
+  }
+
   // ============================================================
   // Batch upsert grade rows
   // ============================================================
@@ -379,6 +406,7 @@ export async function gradeLeagueWaivers(
           blendedScore: sql`excluded.blended_score`,
           productionWeight: sql`excluded.production_weight`,
           grade: sql`excluded.grade`,
+          configVersion: sql`excluded.config_version`,
           computedAt: sql`excluded.computed_at`,
         },
       });
@@ -425,6 +453,7 @@ export async function gradeLeagueWaivers(
       metric: "waiver_score",
       qualityWeight: algoConfig.qualityWeights.waiver_score,
       countLabel: "pickupsGraded",
+      configVersion,
     });
 
     await batchUpsertManagerMetrics(metricValues);